@@ -4,10 +4,13 @@ import express, {
   type NextFunction,
 } from "express";
 import cors from "cors";
+import authRoutes from "./routes/authRoutes.js";
 import saveRoutes from "./routes/saveRoutes.js";
 import worldRoutes from "./routes/worldRoutes.js";
+import scenarioRoutes from "./routes/scenarioRoutes.js";
 import simulationRoutes from "./routes/simulationRoutes.js";
 import metricsRoutes from "./routes/metricsRoutes.js";
+import { authenticate } from "./middleware/auth";
 import { logger } from "../infrastructure/utils/logger.js";
 import { HttpStatusCode } from "../shared/constants/HttpStatusCodes";
 import { Environment } from "../shared/constants/EnvironmentEnums";
@@ -17,10 +20,14 @@ import { Environment } from "../shared/constants/EnvironmentEnums";
  *
  * Configures middleware, routes, and error handling for the simulation server.
  * Supports CORS for cross-origin requests and JSON payloads up to 50MB.
+ * Every request is authenticated (see middleware/auth); each route then
+ * requires a role.
  *
  * Routes:
+ * - `/api/auth` - Session tokens and the caller's identity
  * - `/api/saves` - Save/load game state operations
  * - `/api/world` - World generation endpoints
+ * - `/api/scenarios` - Scenario catalogue
  * - `/api/sim` - Simulation control and state endpoints
  * - `/health` - Health check endpoint
  *
@@ -44,8 +51,12 @@ if (process.env.NODE_ENV !== Environment.PRODUCTION) {
   });
 }
 
+app.use(authenticate);
+
+app.use("/", authRoutes);
 app.use("/", saveRoutes);
 app.use("/", worldRoutes);
+app.use("/", scenarioRoutes);
 app.use("/", simulationRoutes);
 app.use("/", metricsRoutes);
 
@@ -0,0 +1,166 @@
+import "dotenv/config";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { availableParallelism } from "node:os";
+import path from "node:path";
+import { runBatch } from "../domain/simulation/core/batch/BatchRunner";
+import {
+  parseBatchArgs,
+  resolveBatchPlan,
+  type BatchPlan,
+} from "../domain/simulation/core/batch/options";
+import { loadScenario } from "../domain/simulation/core/scenarios/scenarioFiles";
+import { CONFIG } from "../config/config";
+import {
+  buildBatchReport,
+  compareBatchReports,
+  samplesToCsv,
+} from "../domain/simulation/core/batch/report";
+import type {
+  BatchReport,
+  BatchRunResult,
+} from "../shared/types/simulation/batch";
+import type { Scenario } from "../shared/types/simulation/scenario";
+
+/**
+ * Headless batch runner for balancing experiments.
+ *
+ * Boots the simulation without Express or WebSockets, once per seed, each
+ * run in its own worker thread, and steps it as fast as possible. Writes the
+ * time series of every run and an aggregate report of the final values:
+ *
+ * ```
+ * npm run sim:batch -- --runs 8 --ticks 6000 --out results/before
+ * # change NeedsSystem decay or LifeCycleSystem fertility, then
+ * npm run sim:batch -- --runs 8 --ticks 6000 --out results/after \
+ *   --baseline results/before/report.json
+ * ```
+ *
+ * @module application
+ */
+
+const USAGE = `Usage: npm run sim:batch -- [options]
+
+  --ticks <n>         Simulation ticks per run (default 1000)
+  --seeds <a,b,...>   Explicit seeds, one run each
+  --runs <n>          Number of runs with generated seeds (default 1)
+  --seed <s>          Base of generated seeds (default "batch")
+  --width <tiles>     World width (default 128)
+  --height <tiles>    World height (default 128)
+  --scenario <s>      Scenario ID or file (JSON/YAML); its world and batch
+                      sections give defaults for these options
+  --sample-every <n>  Ticks between samples (default 20)
+  --parallel <n>      Runs at once (default: CPU count)
+  --out <dir>         Output directory (default batch-results)
+  --format <f>        csv, json or both (default both)
+  --baseline <file>   Report of a previous batch to compare against
+  --verbose           Show the simulation logs of every run
+`;
+
+async function loadPlan(argv: string[]): Promise<BatchPlan | null> {
+  const args = parseBatchArgs(argv);
+  if (args.help) return null;
+
+  let scenario: Scenario | null = null;
+  if (args.scenario) {
+    scenario = await loadScenario(
+      args.scenario,
+      CONFIG.SIMULATION.SCENARIOS_DIR,
+    );
+    if (!scenario) throw new Error(`Scenario ${args.scenario} not found`);
+  }
+  return resolveBatchPlan(args, scenario, availableParallelism());
+}
+
+async function writeRun(plan: BatchPlan, run: BatchRunResult): Promise<void> {
+  const name = `run_${run.seed.replace(/[^a-zA-Z0-9_-]/g, "_")}`;
+  if (plan.format !== "json") {
+    await writeFile(
+      path.join(plan.out, `${name}.csv`),
+      samplesToCsv(run.samples),
+    );
+  }
+  if (plan.format !== "csv") {
+    await writeFile(
+      path.join(plan.out, `${name}.json`),
+      JSON.stringify(run, null, 2),
+    );
+  }
+}
+
+function formatReport(report: BatchReport): string {
+  const lines = [
+    `${report.seeds.length} run(s), ${report.ticks} ticks, ${report.width}x${report.height}`,
+    "",
+    "metric".padEnd(28) +
+      ["mean", "min", "max", "stddev", "Δ baseline"]
+        .map((h) => h.padStart(12))
+        .join(""),
+  ];
+  for (const [metric, summary] of Object.entries(report.summary)) {
+    const change = report.comparison?.[metric];
+    const delta = change
+      ? `${change.delta >= 0 ? "+" : ""}${change.delta.toFixed(2)}`
+      : "";
+    lines.push(
+      metric.padEnd(28) +
+        [summary.mean, summary.min, summary.max, summary.stdDev]
+          .map((value) => value.toFixed(2).padStart(12))
+          .join("") +
+        delta.padStart(12),
+    );
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+async function main(): Promise<void> {
+  const plan = await loadPlan(process.argv.slice(2));
+  if (!plan) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  const baseline = plan.baseline
+    ? (JSON.parse(await readFile(plan.baseline, "utf-8")) as BatchReport)
+    : null;
+  await mkdir(plan.out, { recursive: true });
+
+  process.stderr.write(
+    `Running ${plan.runs.length} run(s), ${plan.parallel} at a time...\n`,
+  );
+  const writes: Promise<void>[] = [];
+  const runs = await runBatch(plan.runs, {
+    parallel: plan.parallel,
+    verbose: plan.verbose,
+    onRunComplete: (run) => {
+      process.stderr.write(
+        `  ✓ ${run.seed} in ${(run.durationMs / 1000).toFixed(1)}s\n`,
+      );
+      writes.push(writeRun(plan, run));
+    },
+  });
+  await Promise.all(writes);
+
+  const report = buildBatchReport(runs, {
+    scenario: plan.scenario,
+    ticks: plan.runs[0].ticks,
+    width: plan.runs[0].width,
+    height: plan.runs[0].height,
+  });
+  if (baseline) report.comparison = compareBatchReports(baseline, report);
+  await writeFile(
+    path.join(plan.out, "report.json"),
+    JSON.stringify(report, null, 2),
+  );
+
+  process.stdout.write(formatReport(report));
+  process.stderr.write(`Results written to ${plan.out}\n`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error: unknown) => {
+    process.stderr.write(
+      `${error instanceof Error ? error.message : String(error)}\n`,
+    );
+    process.exit(1);
+  });
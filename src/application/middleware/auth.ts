@@ -0,0 +1,88 @@
+import type { IncomingHttpHeaders } from "node:http";
+import type { NextFunction, Request, Response } from "express";
+import { authService } from "../../infrastructure/services/auth/authService";
+import { AuthErrorCode, type Role } from "../../shared/constants/AuthEnums";
+import { HttpStatusCode } from "../../shared/constants/HttpStatusCodes";
+import type { AuthError, AuthIdentity } from "../../shared/types/auth";
+
+/**
+ * Reads the credential a client sent: `Authorization: Bearer <credential>`
+ * or `X-API-Key: <key>`. WebSocket upgrades may also use a `token` query
+ * parameter, since browsers cannot set headers on them.
+ *
+ * @param headers - Request headers
+ * @param url - Upgrade URL, to read the `token` parameter from
+ */
+export function extractCredential(
+  headers: IncomingHttpHeaders,
+  url?: URL,
+): string | undefined {
+  const authorization = headers.authorization;
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim() || undefined;
+  }
+  const apiKey = headers["x-api-key"];
+  if (typeof apiKey === "string" && apiKey.length > 0) return apiKey;
+  return url?.searchParams.get("token") ?? undefined;
+}
+
+/**
+ * Answers with an auth error: 403 for FORBIDDEN, 401 otherwise.
+ */
+export function sendAuthError(res: Response, error: AuthError): void {
+  res
+    .status(
+      error.code === AuthErrorCode.FORBIDDEN
+        ? HttpStatusCode.FORBIDDEN
+        : HttpStatusCode.UNAUTHORIZED,
+    )
+    .json({
+      error: error.message,
+      code: error.code,
+      requiredRole: error.requiredRole,
+    });
+}
+
+/**
+ * Identity of the request, set by {@link authenticate}.
+ */
+export function getAuthIdentity(res: Response): AuthIdentity {
+  return res.locals.auth as AuthIdentity;
+}
+
+/**
+ * Establishes who the request comes from and stores it in `res.locals.auth`.
+ * Requests without credentials go on as anonymous; invalid or expired
+ * credentials are rejected with 401.
+ */
+export function authenticate(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void {
+  const result = authService.authenticate(extractCredential(req.headers));
+  if (!result.ok) {
+    sendAuthError(res, result.error);
+    return;
+  }
+  res.locals.auth = result.identity;
+  next();
+}
+
+/**
+ * Only lets through requests whose identity has at least a role.
+ *
+ * @param role - Least role allowed
+ */
+export function requireRole(
+  role: Role,
+): (req: Request, res: Response, next: NextFunction) => void {
+  return (_req, res, next) => {
+    const error = authService.authorize(getAuthIdentity(res), role);
+    if (error) {
+      sendAuthError(res, error);
+      return;
+    }
+    next();
+  };
+}
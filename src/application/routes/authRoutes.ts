@@ -0,0 +1,61 @@
+import { Router, type Request, type Response } from "express";
+import {
+  authService,
+  isRole,
+} from "@/infrastructure/services/auth/authService";
+import { HttpStatusCode } from "@/shared/constants/HttpStatusCodes";
+import { getAuthIdentity, sendAuthError } from "../middleware/auth";
+
+const router = Router();
+
+/**
+ * Issues a session token to a client holding an API key or a token.
+ *
+ * @param req.body.role - Role of the token (optional); the caller's or lower
+ * @param req.body.ttlSeconds - Lifetime (optional), capped by the server
+ * @returns 201 with the SessionToken
+ *
+ * @remarks
+ * Anonymous callers get 401 and roles above the caller's 403.
+ */
+router.post("/api/auth/token", (req: Request, res: Response): void => {
+  const body = (req.body ?? {}) as { role?: unknown; ttlSeconds?: unknown };
+  if (body.role !== undefined && !isRole(body.role)) {
+    res.status(HttpStatusCode.BAD_REQUEST).json({ error: "Invalid role" });
+    return;
+  }
+  if (
+    body.ttlSeconds !== undefined &&
+    (typeof body.ttlSeconds !== "number" ||
+      !Number.isInteger(body.ttlSeconds) ||
+      body.ttlSeconds <= 0)
+  ) {
+    res
+      .status(HttpStatusCode.BAD_REQUEST)
+      .json({ error: "Invalid ttlSeconds" });
+    return;
+  }
+
+  const identity = getAuthIdentity(res);
+  const result = authService.issueToken(
+    identity,
+    body.role ?? identity.role,
+    body.ttlSeconds,
+  );
+  if (!result.ok) {
+    sendAuthError(res, result.error);
+    return;
+  }
+  res.status(HttpStatusCode.CREATED).json(result.session);
+});
+
+/**
+ * Returns who the caller is authenticated as.
+ *
+ * @returns JSON response with the AuthIdentity and `authEnabled`
+ */
+router.get("/api/auth/me", (_req: Request, res: Response): void => {
+  res.json({ ...getAuthIdentity(res), authEnabled: authService.enabled });
+});
+
+export default router;
@@ -1,7 +1,10 @@
 import { Router } from "express";
 import { performanceMonitor } from "../../domain/simulation/core/PerformanceMonitor";
+import { Role } from "../../shared/constants/AuthEnums";
+import { requireRole } from "../middleware/auth";
 
 const router = Router();
+const spectator = requireRole(Role.SPECTATOR);
 
 /**
  * Returns runtime performance metrics as JSON.
@@ -11,7 +14,7 @@ const router = Router();
  *
  * @returns JSON object with performance metrics
  */
-router.get("/metrics/runtime", (_req, res) => {
+router.get("/metrics/runtime", spectator, (_req, res) => {
   res.json(performanceMonitor.getSnapshot());
 });
 
@@ -23,7 +26,7 @@ router.get("/metrics/runtime", (_req, res) => {
  *
  * @returns Plain text in Prometheus format (version 0.0.4)
  */
-router.get("/metrics", (_req, res) => {
+router.get("/metrics", spectator, (_req, res) => {
   res.set("Content-Type", "text/plain; version=0.0.4; charset=utf-8");
   res.send(performanceMonitor.toPrometheus());
 });
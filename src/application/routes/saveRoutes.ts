@@ -1,12 +1,19 @@
 import { Router } from "express";
 import { saveController } from "../../infrastructure/controllers/saveController";
+import { Role } from "../../shared/constants/AuthEnums";
+import { requireRole } from "../middleware/auth";
 
 const router = Router();
+const spectator = requireRole(Role.SPECTATOR);
+const admin = requireRole(Role.ADMIN);
 
 router.get("/health", saveController.healthCheck);
-router.get("/api/saves", saveController.listSaves);
-router.get("/api/saves/:id", saveController.getSave);
-router.post("/api/saves", saveController.saveGame);
-router.delete("/api/saves/:id", saveController.deleteSave);
+router.get("/api/saves", spectator, saveController.listSaves);
+router.get("/api/saves/:id", spectator, saveController.getSave);
+router.post("/api/saves", admin, saveController.saveGame);
+router.delete("/api/saves/:id", admin, saveController.deleteSave);
+router.post("/api/saves/:id/migrate", admin, saveController.migrateSave);
+router.put("/api/saves/:id/tags", admin, saveController.setSaveTags);
+router.get("/api/saves/:a/diff/:b", spectator, saveController.diffSaves);
 
 export default router;
@@ -0,0 +1,12 @@
+import { Router } from "express";
+import { scenarioController } from "@/infrastructure/controllers/scenarioController";
+import { Role } from "@/shared/constants/AuthEnums";
+import { requireRole } from "../middleware/auth";
+
+const router = Router();
+const spectator = requireRole(Role.SPECTATOR);
+
+router.get("/api/scenarios", spectator, scenarioController.listScenarios);
+router.get("/api/scenarios/:id", spectator, scenarioController.getScenario);
+
+export default router;
@@ -1,12 +1,31 @@
 import { Router, type Request, type Response } from "express";
 import { simulationRunner } from "@/domain/simulation/core/index";
-import { storageService } from "@/infrastructure/services/storage/storageService";
+import {
+  isSaveId,
+  parseSaveTags,
+  storageService,
+} from "@/infrastructure/services/storage/storageService";
 import type { SimulationCommand } from "@/shared/types/commands/SimulationCommand";
 import { logger } from "@/infrastructure/utils/logger";
 import { HttpStatusCode } from "@/shared/constants/HttpStatusCodes";
 import { ResponseStatus } from "@/shared/constants/ResponseEnums";
+import {
+  findFirstDivergence,
+  type TickChecksum,
+} from "@/domain/simulation/core/StateChecksum";
+import { CommandProcessor } from "@/domain/simulation/core/runner/CommandProcessor";
+import { authService } from "@/infrastructure/services/auth/authService";
+import { Role } from "@/shared/constants/AuthEnums";
+import {
+  getAuthIdentity,
+  requireRole,
+  sendAuthError,
+} from "../middleware/auth";
 
 const router = Router();
+const spectator = requireRole(Role.SPECTATOR);
+const player = requireRole(Role.PLAYER);
+const admin = requireRole(Role.ADMIN);
 
 /**
  * Validates that the request body is a valid SimulationCommand.
@@ -22,11 +41,44 @@ function validateSimulationCommand(body: unknown): body is SimulationCommand {
   return typeof command.type === "string" && command.type.length > 0;
 }
 
+/**
+ * Validates that the body is an array of { tick, checksum } entries.
+ *
+ * @param value - Unknown value to validate
+ * @returns True if value is a TickChecksum array
+ */
+function validateTickChecksums(value: unknown): value is TickChecksum[] {
+  return (
+    Array.isArray(value) &&
+    value.every((entry: unknown) => {
+      if (!entry || typeof entry !== "object") return false;
+      const record = entry as Record<string, unknown>;
+      return (
+        typeof record.tick === "number" && typeof record.checksum === "string"
+      );
+    })
+  );
+}
+
+/**
+ * Parses an optional non-negative integer query parameter.
+ *
+ * @param value - Raw query value
+ * @returns Parsed integer or undefined when absent/invalid
+ */
+function parseTickParam(value: unknown): number | undefined {
+  if (typeof value !== "string" || value.length === 0) return undefined;
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
 /**
  * Saves the current simulation state to persistent storage.
  *
  * Creates a save file with current game state, timestamp, and statistics.
- * The save can be loaded later to resume the simulation.
+ * The save can be loaded later to resume the simulation. An optional body
+ * `{ name?, tags? }` names the save and exempts it from rotation; the save
+ * records the one the simulation continues from as its parent.
  *
  * @returns JSON response with success status and saveId
  *
@@ -36,20 +88,38 @@ function validateSimulationCommand(body: unknown): body is SimulationCommand {
  */
 router.post(
   "/api/sim/save",
-  async (_req: Request, res: Response): Promise<void> => {
+  admin,
+  async (req: Request, res: Response): Promise<void> => {
     try {
+      const body: unknown = req.body;
+      const hasTags =
+        !!body &&
+        typeof body === "object" &&
+        ("name" in body || "tags" in body);
+      const tags = hasTags ? parseSaveTags(body) : undefined;
+      if (tags === null) {
+        res
+          .status(HttpStatusCode.BAD_REQUEST)
+          .json({ error: "Invalid save name or tags" });
+        return;
+      }
+
       const snapshot = simulationRunner.getInitialSnapshot();
       const saveData = {
-        ...snapshot.state,
         timestamp: Date.now(),
         gameTime: snapshot.state.togetherTime,
         stats: {
           cycles: snapshot.state.cycles,
           resonance: snapshot.state.resonance ?? 0,
         },
+        state: snapshot.state,
+        tick: snapshot.tick,
+        systems: simulationRunner.serializeSystemStates(),
+        lineage: simulationRunner.getSaveLineage(),
       };
 
-      const result = await storageService.saveGame(saveData);
+      const result = await storageService.saveGame(saveData, tags);
+      simulationRunner.continueFromSave(result.saveId, saveData.lineage);
       res.json({ success: true, saveId: result.saveId });
     } catch (error) {
       const errorMessage =
@@ -91,25 +161,31 @@ router.get("/api/sim/health", (_req: Request, res: Response): void => {
  *
  * @returns JSON response with full SimulationSnapshot
  */
-router.get("/api/sim/state", (_req: Request, res: Response): void => {
-  try {
-    const snapshot = simulationRunner.getInitialSnapshot();
-    res.json(snapshot);
-  } catch (error) {
-    const errorMessage =
-      error instanceof Error ? error.message : "Unknown error";
-    logger.error("Error getting simulation state:", errorMessage);
-    res
-      .status(HttpStatusCode.INTERNAL_SERVER_ERROR)
-      .json({ error: "Failed to get simulation state" });
-  }
-});
+router.get(
+  "/api/sim/state",
+  spectator,
+  (_req: Request, res: Response): void => {
+    try {
+      const snapshot = simulationRunner.getInitialSnapshot();
+      res.json(snapshot);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      logger.error("Error getting simulation state:", errorMessage);
+      res
+        .status(HttpStatusCode.INTERNAL_SERVER_ERROR)
+        .json({ error: "Failed to get simulation state" });
+    }
+  },
+);
 
 /**
  * Enqueues a simulation command for execution.
  *
  * Validates command format and adds it to the simulation runner's command queue.
- * Returns 429 (Too Many Requests) if the command queue is full.
+ * Returns 429 (Too Many Requests) if the command queue is full, and 401/403
+ * when the client's role may not send the command (see
+ * CommandProcessor.requiredRole).
  *
  * @param req.body - SimulationCommand object with type and optional payload
  * @returns JSON response with status QUEUED on success, or error message
@@ -128,6 +204,16 @@ router.post("/api/sim/command", (req: Request, res: Response): void => {
     }
 
     const command = req.body as SimulationCommand;
+    const denied = authService.authorize(
+      getAuthIdentity(res),
+      CommandProcessor.requiredRole(command.type),
+    );
+    if (denied) {
+      sendAuthError(res, denied);
+      return;
+    }
+    CommandProcessor.stampIssuer(command, getAuthIdentity(res).role);
+
     const accepted = simulationRunner.enqueueCommand(command);
     if (!accepted) {
       res
@@ -147,4 +233,329 @@ router.post("/api/sim/command", (req: Request, res: Response): void => {
   }
 });
 
+/**
+ * Lists legend records and the agents currently considered legends.
+ *
+ * @param req.query.agentId - Only return this agent's record (optional)
+ * @returns JSON response with `activeLegends` and `records` keyed by agent ID
+ *
+ * @remarks
+ * Returns 404 when `agentId` is given and the agent has no legend record.
+ */
+router.get(
+  "/api/sim/legends",
+  spectator,
+  (req: Request, res: Response): void => {
+    try {
+      const legends = simulationRunner.legendSystem.getLegendsState();
+      const agentId = req.query.agentId;
+      if (typeof agentId === "string" && agentId.length > 0) {
+        const record = legends.records[agentId];
+        if (!record) {
+          res
+            .status(HttpStatusCode.NOT_FOUND)
+            .json({ error: "No legend record for agent" });
+          return;
+        }
+        res.json(record);
+        return;
+      }
+
+      res.json(legends);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      logger.error("Error getting legends:", errorMessage);
+      res
+        .status(HttpStatusCode.INTERNAL_SERVER_ERROR)
+        .json({ error: "Failed to get legends" });
+    }
+  },
+);
+
+/**
+ * Returns an agent's recent AI decisions, newest first.
+ *
+ * @param req.params.id - Agent ID
+ * @returns JSON response with `agentId` and `decisions`; each decision lists
+ * the top candidate tasks with their utility score breakdown and the task
+ * the agent chose
+ *
+ * @remarks
+ * Returns 404 when the agent does not exist.
+ */
+router.get(
+  "/api/sim/agents/:id/decisions",
+  spectator,
+  (req: Request, res: Response): void => {
+    try {
+      const { id: agentId } = req.params;
+      if (
+        typeof agentId !== "string" ||
+        !simulationRunner.agentRegistry.getProfile(agentId)
+      ) {
+        res.status(HttpStatusCode.NOT_FOUND).json({ error: "Agent not found" });
+        return;
+      }
+      res.json({
+        agentId,
+        decisions: simulationRunner.aiSystem.getDecisionTraces(agentId),
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      logger.error("Error getting agent decisions:", errorMessage);
+      res
+        .status(HttpStatusCode.INTERNAL_SERVER_ERROR)
+        .json({ error: "Failed to get agent decisions" });
+    }
+  },
+);
+
+/**
+ * Returns the goals of the running scenario with their progress.
+ *
+ * @returns JSON response with the scenario's status and goals
+ *
+ * @remarks
+ * Returns 404 when the world has no scenario goals being evaluated.
+ */
+router.get(
+  "/api/sim/goals",
+  spectator,
+  (_req: Request, res: Response): void => {
+    try {
+      const goals = simulationRunner.goalSystem.getGoalsState();
+      if (!goals) {
+        res
+          .status(HttpStatusCode.NOT_FOUND)
+          .json({ error: "No scenario goals in this world" });
+        return;
+      }
+      res.json(goals);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      logger.error("Error getting goals:", errorMessage);
+      res
+        .status(HttpStatusCode.INTERNAL_SERVER_ERROR)
+        .json({ error: "Failed to get goals" });
+    }
+  },
+);
+
+/**
+ * Rebuilds the simulation state at a past tick.
+ *
+ * Loads the nearest save taken at or before the tick and replays the command
+ * journal up to it in an isolated worker. The live simulation is not affected.
+ *
+ * @param req.body.tick - Target tick (0 ≤ tick ≤ current tick)
+ * @returns JSON response with the ReplayResult (state, checksum, base save)
+ *
+ * @remarks
+ * Expensive: runs a full simulation from the base save. Replays are serialized.
+ * `exact` compares the replayed checksum with the one recorded at the tick,
+ * and is null (unverified) when none was recorded.
+ * Returns 409 unless the simulation runs in deterministic mode, and 404 when
+ * no save with a recorded tick exists at or before the target.
+ */
+router.post(
+  "/api/sim/replay",
+  player,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const body = req.body as { tick?: unknown } | undefined;
+      const tick = body?.tick;
+      if (
+        typeof tick !== "number" ||
+        !Number.isInteger(tick) ||
+        tick < 0 ||
+        tick > simulationRunner.getTickCounter()
+      ) {
+        res.status(HttpStatusCode.BAD_REQUEST).json({
+          error: "Invalid tick",
+          currentTick: simulationRunner.getTickCounter(),
+        });
+        return;
+      }
+
+      if (!simulationRunner.isDeterministic()) {
+        res
+          .status(HttpStatusCode.CONFLICT)
+          .json({ error: "Replays require deterministic mode" });
+        return;
+      }
+
+      const result = await simulationRunner.replayToTick(tick);
+      if (!result) {
+        res
+          .status(HttpStatusCode.NOT_FOUND)
+          .json({ error: "No save found at or before the requested tick" });
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      logger.error("Error replaying simulation:", errorMessage);
+      res
+        .status(HttpStatusCode.INTERNAL_SERVER_ERROR)
+        .json({ error: "Failed to replay simulation" });
+    }
+  },
+);
+
+/**
+ * Loads a save into the running simulation, replacing the current world
+ * without restarting the process.
+ *
+ * @param req.params.saveId - Save to load (format: save_<timestamp>)
+ * @returns JSON response with the SaveLoadResult (tick resumed at, agents...)
+ *
+ * @remarks
+ * Side effects: pauses the scheduler while the state is swapped and sends
+ * STATE_LOADED followed by a full snapshot to every `/ws/sim` client.
+ * Returns 404 when the save does not exist and 409 while another load runs.
+ */
+router.post(
+  "/api/sim/load/:saveId",
+  admin,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { saveId } = req.params;
+      if (!isSaveId(saveId)) {
+        res
+          .status(HttpStatusCode.BAD_REQUEST)
+          .json({ error: "Invalid save ID format" });
+        return;
+      }
+
+      if (simulationRunner.isLoadingSave()) {
+        res
+          .status(HttpStatusCode.CONFLICT)
+          .json({ error: "A save is already being loaded" });
+        return;
+      }
+
+      const result = await simulationRunner.loadSave(saveId);
+      if (!result) {
+        res.status(HttpStatusCode.NOT_FOUND).json({ error: "Save not found" });
+        return;
+      }
+
+      res.json({ success: true, ...result });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      logger.error("Error loading save into simulation:", errorMessage);
+      res
+        .status(HttpStatusCode.INTERNAL_SERVER_ERROR)
+        .json({ error: "Failed to load save" });
+    }
+  },
+);
+
+/**
+ * Returns the checksum of the current game state.
+ *
+ * @returns JSON response with tick, checksum, seed and deterministic flag
+ *
+ * @remarks
+ * Hashes the full mutable state on demand; intended for debugging and tooling.
+ */
+router.get(
+  "/api/sim/checksum",
+  spectator,
+  (_req: Request, res: Response): void => {
+    try {
+      res.json({
+        ...simulationRunner.getStateChecksum(),
+        seed: simulationRunner.getSeed(),
+        deterministic: simulationRunner.isDeterministic(),
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      logger.error("Error computing state checksum:", errorMessage);
+      res
+        .status(HttpStatusCode.INTERNAL_SERVER_ERROR)
+        .json({ error: "Failed to compute state checksum" });
+    }
+  },
+);
+
+/**
+ * Lists per-tick checksums recorded in deterministic mode.
+ *
+ * @param req.query.from - First tick (inclusive, optional)
+ * @param req.query.to - Last tick (inclusive, optional)
+ * @returns JSON response with the checksum list
+ *
+ * @remarks
+ * Empty when the simulation is not running in deterministic mode.
+ */
+router.get(
+  "/api/sim/checksums",
+  spectator,
+  (req: Request, res: Response): void => {
+    try {
+      const checksums = simulationRunner.getTickChecksums(
+        parseTickParam(req.query.from),
+        parseTickParam(req.query.to),
+      );
+      res.json({
+        deterministic: simulationRunner.isDeterministic(),
+        checksums,
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      logger.error("Error listing tick checksums:", errorMessage);
+      res
+        .status(HttpStatusCode.INTERNAL_SERVER_ERROR)
+        .json({ error: "Failed to list tick checksums" });
+    }
+  },
+);
+
+/**
+ * Compares externally recorded checksums against the server log.
+ *
+ * @param req.body.checksums - Array of { tick, checksum } to verify
+ * @returns JSON response with `diverged` and the first divergence, if any
+ *
+ * @remarks
+ * Only ticks still retained in the server log are compared.
+ */
+router.post(
+  "/api/sim/checksums/verify",
+  spectator,
+  (req: Request, res: Response): void => {
+    try {
+      const body = req.body as { checksums?: unknown } | undefined;
+      if (!validateTickChecksums(body?.checksums)) {
+        res
+          .status(HttpStatusCode.BAD_REQUEST)
+          .json({ error: "Invalid checksums format" });
+        return;
+      }
+
+      const divergence = findFirstDivergence(
+        simulationRunner.getTickChecksums(),
+        body.checksums,
+      );
+      res.json({ diverged: divergence !== null, divergence });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      logger.error("Error verifying tick checksums:", errorMessage);
+      res
+        .status(HttpStatusCode.INTERNAL_SERVER_ERROR)
+        .json({ error: "Failed to verify tick checksums" });
+    }
+  },
+);
+
 export default router;
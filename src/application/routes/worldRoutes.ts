@@ -1,8 +1,25 @@
 import { Router } from "express";
 import { worldController } from "@/infrastructure/controllers/worldController";
+import { worldHostingController } from "@/infrastructure/controllers/worldHostingController";
+import { Role } from "@/shared/constants/AuthEnums";
+import { requireRole } from "../middleware/auth";
 
 const router = Router();
+const spectator = requireRole(Role.SPECTATOR);
+const admin = requireRole(Role.ADMIN);
 
-router.post("/api/world/chunk", worldController.generateChunk);
+router.post("/api/world/chunk", spectator, worldController.generateChunk);
+
+router.get("/api/worlds", spectator, worldHostingController.listWorlds);
+router.post("/api/worlds", admin, worldHostingController.createWorld);
+router.get("/api/worlds/:id", spectator, worldHostingController.getWorld);
+router.post("/api/worlds/:id/pause", admin, worldHostingController.pauseWorld);
+router.post(
+  "/api/worlds/:id/resume",
+  admin,
+  worldHostingController.resumeWorld,
+);
+router.post("/api/worlds/:id/save", admin, worldHostingController.saveWorld);
+router.delete("/api/worlds/:id", admin, worldHostingController.destroyWorld);
 
 export default router;
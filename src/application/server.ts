@@ -1,89 +1,108 @@
 import "dotenv/config";
+import type { Duplex } from "node:stream";
 import { WebSocketServer, WebSocket } from "ws";
 import app from "./app";
 import { CONFIG } from "../config/config";
-import { container } from "../config/container";
-import { TYPES } from "../config/Types";
-import { SimulationRunner } from "../domain/simulation/core/SimulationRunner";
+import {
+  simulationRunner,
+  worldManager,
+} from "../domain/simulation/core/index";
+import { startSimulation } from "../domain/simulation/core/worlds/bootstrap";
+import { loadScenario } from "../domain/simulation/core/scenarios/scenarioFiles";
+import type { SimulationWorld } from "../domain/simulation/core/worlds/SimulationWorld";
+import { DEFAULT_WORLD_ID } from "../domain/simulation/core/worlds/WorldManager";
 import { detectGPUAvailability } from "../infrastructure/utils/gpuDetector";
 import { encodeMsgPack, decodeMessage } from "../shared/MessagePackCodec";
 import type {
   SimulationCommand,
+  SimulationErrorMessage,
   SimulationRequest,
   SimulationSnapshot,
+  SimulationStreamMessage,
 } from "../shared/types/commands/SimulationCommand";
+import type { AuthError, AuthIdentity } from "../shared/types/auth";
+import type { SaveLoadResult } from "../shared/types/simulation/replay";
 import { ChunkStreamServer } from "../infrastructure/services/chunk/ChunkStreamServer";
+import { SimulationStreamClient } from "../infrastructure/services/stream/SimulationStreamClient";
 import { logger } from "../infrastructure/utils/logger.js";
 import { WebSocketMessageType } from "../shared/constants/WebSocketEnums";
 import { SimulationRequestType } from "../shared/constants/CommandEnums";
+import { StorageType } from "../shared/constants/StatusEnums";
+import { AuthErrorCode, Role } from "../shared/constants/AuthEnums";
+import { CommandProcessor } from "../domain/simulation/core/runner/CommandProcessor";
+import { authService } from "../infrastructure/services/auth/authService";
+import { extractCredential } from "./middleware/auth";
 
 /**
  * Main server entry point.
  *
  * Initializes the simulation runner and sets up HTTP and WebSocket servers.
- * Handles WebSocket upgrades for two endpoints:
+ * Handles WebSocket upgrades for three endpoints:
  * - `/ws/sim` - Real-time simulation state streaming (50Hz snapshots)
+ * - `/ws/sim/:worldId` - The same stream for a hosted world (see WorldManager)
  * - `/ws/chunks` - Asynchronous terrain chunk generation streaming
  *
  * The simulation runner maintains authoritative game state and broadcasts
  * tick snapshots to connected clients via MessagePack encoding.
  *
+ * Clients authenticate on the upgrade request (see middleware/auth) and need
+ * at least the spectator role to connect; each command is then checked
+ * against the role of the connection.
+ *
  * @module application
  */
 
-const simulationRunner = container.get<SimulationRunner>(
-  TYPES.SimulationRunner,
-);
-
 logger.info("🚀 Backend: Starting simulation initialization process...");
 
 import { storageService } from "../infrastructure/services/storage/storageService";
-import { GameState } from "../shared/types/game-types";
 
 let server: ReturnType<typeof app.listen>;
 const simulationWss = new WebSocketServer({ noServer: true });
 const chunkStreamServer = new ChunkStreamServer({ maxInflight: 128 });
-let cachedTickBuffer: Buffer | null = null;
-let cachedTickNumber = -1;
 
-simulationRunner
-  .initialize()
+/**
+ * Sets the scenario of `SIMULATION.SCENARIO` on the default world. It only
+ * takes effect when there is no save to continue.
+ */
+async function useBootScenario(): Promise<void> {
+  const idOrPath = CONFIG.SIMULATION.SCENARIO;
+  if (!idOrPath) return;
+  const scenario = await loadScenario(
+    idOrPath,
+    CONFIG.SIMULATION.SCENARIOS_DIR,
+  );
+  if (!scenario) throw new Error(`Scenario ${idOrPath} not found`);
+  simulationRunner.setScenario(scenario);
+  logger.info(`🎬 Backend: Scenario "${scenario.name}" (${scenario.id})`);
+}
+
+useBootScenario()
+  .then(() => simulationRunner.initialize())
   .then(async () => {
     logger.info("✅ Backend: SimulationRunner initialized successfully");
 
-    const saves = await storageService.listSaves();
-    if (saves.length > 0) {
-      const latestSaveId = saves[0].id;
-      logger.info(`💾 Found existing save: ${latestSaveId}. Loading...`);
-      const saveData = await storageService.getSave(latestSaveId);
-
-      if (saveData && saveData.state) {
-        const gameState = container.get<GameState>(TYPES.GameState);
-        Object.assign(gameState, saveData.state);
-
-        await simulationRunner.ensureInitialFamily();
-        simulationRunner.syncAllAgentSystems();
-
-        logger.info("✅ Backend: State loaded and family verified");
-        simulationRunner.start();
-        logger.info("✅ Backend: Simulation started from save");
-      } else {
-        logger.warn("⚠️ Saved state invalid. Falling back to fresh world.");
-        await initializeFreshWorld();
-      }
-    } else {
-      logger.info("🆕 No valid save found. Initializing fresh world...");
-      await initializeFreshWorld();
-    }
+    await startSimulation(simulationRunner);
 
     detectGPUAvailability();
 
+    if (!authService.enabled) {
+      logger.warn("🔓 Backend: Auth disabled, every client acts as admin");
+    }
+
     server = app.listen(CONFIG.PORT, () => {
       logger.info(`Backend running on http://localhost:${CONFIG.PORT}`);
-      if (!CONFIG.USE_LOCAL_STORAGE) {
-        logger.info(`Using GCS bucket: ${CONFIG.BUCKET_NAME}`);
-      } else {
-        logger.info(`Using local storage: ${CONFIG.LOCAL_SAVES_PATH}`);
+      switch (storageService.storageType) {
+        case StorageType.GCS:
+          logger.info(`Using GCS bucket: ${CONFIG.BUCKET_NAME}`);
+          break;
+        case StorageType.S3:
+          logger.info(`Using S3 bucket: ${CONFIG.S3.BUCKET}`);
+          break;
+        case StorageType.SQLITE:
+          logger.info(`Using SQLite storage: ${CONFIG.SQLITE.PATH}`);
+          break;
+        default:
+          logger.info(`Using local storage: ${CONFIG.LOCAL_SAVES_PATH}`);
       }
     });
 
@@ -94,40 +113,20 @@ simulationRunner
     process.exit(1);
   });
 
-/**
- * Initializes a fresh world with default dimensions and starts the simulation.
- *
- * Creates a new world with 128x128 tiles at 32px per tile and no predefined biomes.
- * After initialization, starts the simulation runner.
- *
- * @remarks
- * Side effects: Initializes world resources and starts simulation tick loop.
- */
-async function initializeFreshWorld(): Promise<void> {
-  return simulationRunner
-    .initializeWorldResources({
-      width: 128,
-      height: 128,
-      tileSize: 32,
-      biomeMap: [],
-    })
-    .then(async () => {
-      logger.info("🌍 Backend: World resources initialized");
-      await simulationRunner.ensureInitialFamily();
-      logger.info("✅ Backend: Initial family ensured");
-      simulationRunner.start();
-      logger.info("✅ Backend: Simulation started and running");
-    });
-}
+/** Path prefix of the per-world simulation streams */
+const WORLD_STREAM_PREFIX = "/ws/sim/";
 
 /**
  * Sets up WebSocket upgrade handlers for HTTP server.
  *
  * Routes WebSocket upgrade requests to appropriate handlers:
  * - `/ws/sim` - Real-time simulation state streaming (50Hz snapshots)
+ * - `/ws/sim/:worldId` - Same stream for a hosted world
  * - `/ws/chunks` - Asynchronous terrain chunk generation streaming
  *
- * Invalid URLs result in socket destruction.
+ * Invalid URLs and unknown worlds result in socket destruction. Clients
+ * whose credentials are invalid, or that lack the spectator role, get a
+ * 401/403 response instead of the upgrade.
  *
  * @remarks
  * Side effects: Registers upgrade event handlers on HTTP server.
@@ -137,9 +136,9 @@ function setupServerUpgrades(): void {
   server.on("upgrade", (request, socket, head) => {
     const host = request.headers.host ?? "localhost";
     const url = request.url ?? "/";
-    let pathname: string;
+    let requestUrl: URL;
     try {
-      pathname = new URL(url, `http://${host}`).pathname;
+      requestUrl = new URL(url, `http://${host}`);
     } catch (error) {
       logger.debug("Invalid URL in WebSocket upgrade request", {
         url,
@@ -149,10 +148,33 @@ function setupServerUpgrades(): void {
       socket.destroy();
       return;
     }
+    const pathname = requestUrl.pathname;
+
+    const auth = authService.authenticate(
+      extractCredential(request.headers, requestUrl),
+    );
+    if (!auth.ok) {
+      rejectUpgrade(socket, auth.error);
+      return;
+    }
+    const denied = authService.authorize(auth.identity, Role.SPECTATOR);
+    if (denied) {
+      rejectUpgrade(socket, denied);
+      return;
+    }
 
-    if (pathname === "/ws/sim") {
+    if (pathname === "/ws/sim" || pathname.startsWith(WORLD_STREAM_PREFIX)) {
+      const world = worldManager.get(
+        pathname === "/ws/sim"
+          ? DEFAULT_WORLD_ID
+          : pathname.slice(WORLD_STREAM_PREFIX.length),
+      );
+      if (!world) {
+        socket.destroy();
+        return;
+      }
       simulationWss.handleUpgrade(request, socket, head, (ws) => {
-        simulationWss.emit("connection", ws, request);
+        handleSimulationConnection(ws, world, auth.identity);
       });
       return;
     }
@@ -167,44 +189,114 @@ function setupServerUpgrades(): void {
 }
 
 /**
- * Handles new WebSocket connections to simulation stream.
+ * Answers an upgrade request with 401, or 403 for FORBIDDEN, and closes
+ * the socket.
+ */
+function rejectUpgrade(socket: Duplex, error: AuthError): void {
+  const status =
+    error.code === AuthErrorCode.FORBIDDEN
+      ? "403 Forbidden"
+      : "401 Unauthorized";
+  const body = JSON.stringify({
+    error: error.message,
+    code: error.code,
+    requiredRole: error.requiredRole,
+  });
+  socket.write(
+    `HTTP/1.1 ${status}\r\n` +
+      "Content-Type: application/json\r\n" +
+      `Content-Length: ${Buffer.byteLength(body)}\r\n` +
+      "Connection: close\r\n\r\n" +
+      body,
+  );
+  socket.destroy();
+}
+
+/**
+ * Handles a new WebSocket connection to a world's simulation stream.
  *
  * On connection:
  * 1. Sends initial full snapshot to client
- * 2. Registers tick handler to broadcast updates (50Hz)
+ * 2. Registers tick handler to stream updates (50Hz)
  * 3. Sets up command message handler for client commands
  * 4. Handles cleanup on disconnect
  *
- * Supports two message types:
+ * Supports these message types:
  * - Commands: SimulationCommand objects that modify game state
  * - Requests: SimulationRequest objects that query state (REQUEST_FULL_STATE, etc.)
+ * - SUBSCRIBE / UNSUBSCRIBE: per-connection tick filter (see SubscriptionFilter)
+ * - ACK: last tick applied by the client (see SimulationStreamClient)
+ *
+ * Commands and requests the connection's role may not send (see
+ * CommandProcessor.requiredRole) are not run: commands get an ERROR and
+ * requests a RESPONSE, both carrying the auth error code.
+ *
+ * When a save is hot-loaded every client gets STATE_LOADED and its stream
+ * starts over with a full snapshot. When the world is destroyed the
+ * connection is closed with code 1001.
  *
  * @remarks
- * Side effects: Registers event listeners on SimulationRunner.
- * Broadcasts game state snapshots at 50Hz to all connected clients.
+ * Side effects: Registers event listeners on the world.
+ * Streams game state snapshots at 50Hz, delta-encoded per connection.
  * Processes commands that modify simulation state.
  */
-simulationWss.on("connection", (ws: WebSocket) => {
-  logger.info("Client connected to simulation");
-
-  const snapshot = simulationRunner.getInitialSnapshot();
-  ws.send(
-    encodeMsgPack({
-      type: WebSocketMessageType.SNAPSHOT,
-      payload: snapshot,
-    }),
+function handleSimulationConnection(
+  ws: WebSocket,
+  world: SimulationWorld,
+  identity: AuthIdentity,
+): void {
+  logger.info(
+    `Client connected to simulation (world "${world.id}", ${identity.subject} as ${identity.role})`,
   );
 
-  const tickHandler = (): void => {
-    if (ws.readyState === WebSocket.OPEN && cachedTickBuffer) {
-      ws.send(cachedTickBuffer);
+  const send = (message: Record<string, unknown>): void => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(encodeMsgPack(message));
+    }
+  };
+
+  const streamClient = new SimulationStreamClient();
+
+  const tickHandler = (snapshot: SimulationSnapshot): void => {
+    if (ws.readyState !== WebSocket.OPEN) return;
+    const payload = streamClient.encodeTick(snapshot);
+    if (payload) {
+      send({ type: WebSocketMessageType.TICK, payload });
     }
   };
 
-  simulationRunner.on("tick", tickHandler);
+  const stateLoadedHandler = (result: SaveLoadResult): void => {
+    streamClient.reset();
+    send({ type: WebSocketMessageType.STATE_LOADED, payload: result });
+  };
+
+  const destroyedHandler = (): void => {
+    ws.close(1001, "World destroyed");
+  };
+
+  let closed = false;
+  world.on("stateLoaded", stateLoadedHandler);
+  world.on("destroyed", destroyedHandler);
+
+  // The tick stream starts once the initial snapshot is out, so it always
+  // comes first
+  world
+    .getInitialSnapshot()
+    .then((snapshot) => {
+      send({ type: WebSocketMessageType.SNAPSHOT, payload: snapshot });
+      if (!closed) world.on("tick", tickHandler);
+    })
+    .catch((err) => {
+      const errorMessage = err instanceof Error ? err.message : "Unknown error";
+      logger.error("Failed to send initial snapshot:", errorMessage);
+      ws.close(1011, "World unavailable");
+    });
 
   ws.on("close", () => {
-    simulationRunner.off("tick", tickHandler);
+    closed = true;
+    world.off("tick", tickHandler);
+    world.off("stateLoaded", stateLoadedHandler);
+    world.off("destroyed", destroyedHandler);
   });
 
   ws.on("message", (data: Buffer) => {
@@ -216,101 +308,166 @@ simulationWss.on("connection", (ws: WebSocket) => {
         !("type" in parsed) ||
         typeof parsed.type !== "string"
       ) {
-        ws.send(
-          encodeMsgPack({
-            type: WebSocketMessageType.ERROR,
-            message: "Invalid command format",
-          }),
-        );
+        send({
+          type: WebSocketMessageType.ERROR,
+          message: "Invalid command format",
+        });
         return;
       }
 
-      const command = parsed as SimulationCommand | SimulationRequest;
+      if (parsed.type === WebSocketMessageType.ACK) {
+        const message = parsed as unknown as Extract<
+          SimulationStreamMessage,
+          { type: WebSocketMessageType.ACK }
+        >;
+        if (!streamClient.acknowledge(message.tick)) {
+          logger.debug(`Unknown ACK tick ${String(message.tick)}, resyncing`);
+        }
+        return;
+      }
 
-      if (command.type.startsWith("REQUEST_")) {
-        const request = command as SimulationRequest;
-        let responsePayload:
-          | SimulationSnapshot
-          | Record<string, unknown>
-          | null = null;
-
-        switch (request.type) {
-          case SimulationRequestType.REQUEST_FULL_STATE:
-            responsePayload = simulationRunner.getInitialSnapshot();
-            break;
-          case SimulationRequestType.REQUEST_ENTITY_DETAILS:
-            responsePayload =
-              (simulationRunner.getEntityDetails(request.entityId) as Record<
-                string,
-                unknown
-              >) || null;
-            break;
-          case SimulationRequestType.REQUEST_PLAYER_ID:
-            responsePayload = { playerId: simulationRunner.getPlayerId() };
-            break;
+      if (
+        parsed.type === WebSocketMessageType.SUBSCRIBE ||
+        parsed.type === WebSocketMessageType.UNSUBSCRIBE
+      ) {
+        const message = parsed as unknown as Exclude<
+          SimulationStreamMessage,
+          { type: WebSocketMessageType.ACK }
+        >;
+        if (message.type === WebSocketMessageType.UNSUBSCRIBE) {
+          streamClient.unsubscribe();
+        } else {
+          const error = streamClient.subscribe(message.subscription);
+          if (error) {
+            send({
+              type: WebSocketMessageType.ERROR,
+              message: `Invalid subscription: ${error}`,
+            });
+            return;
+          }
         }
+        send({
+          type: WebSocketMessageType.SUBSCRIBED,
+          subscription:
+            message.type === WebSocketMessageType.SUBSCRIBE
+              ? message.subscription
+              : null,
+        });
+        return;
+      }
 
-        ws.send(
-          encodeMsgPack({
+      const command = parsed as SimulationCommand | SimulationRequest;
+      const isRequest = command.type.startsWith("REQUEST_");
+
+      const denied = authService.authorize(
+        identity,
+        CommandProcessor.requiredRole(command.type),
+      );
+      if (denied) {
+        logger.warn(
+          `🚫 ${command.type} denied to ${identity.subject}: ${denied.code}`,
+        );
+        if (isRequest) {
+          send({
             type: WebSocketMessageType.RESPONSE,
-            requestId: request.requestId,
-            payload: responsePayload,
-          }),
+            requestId: (command as SimulationRequest).requestId,
+            payload: {
+              error: denied.message,
+              code: denied.code,
+              requiredRole: denied.requiredRole,
+            },
+          });
+        } else {
+          send({
+            type: WebSocketMessageType.ERROR,
+            message: denied.message,
+            code: denied.code,
+            requiredRole: denied.requiredRole,
+            commandType: command.type,
+          } satisfies SimulationErrorMessage);
+        }
+        return;
+      }
+
+      if (isRequest) {
+        respondToRequest(world, command as SimulationRequest, send, () =>
+          streamClient.resync(),
         );
         return;
       }
 
+      CommandProcessor.stampIssuer(command as SimulationCommand, identity.role);
       logger.info(`📨 Received command from client: ${command.type}`, command);
-      const accepted = simulationRunner.enqueueCommand(
-        command as SimulationCommand,
-      );
-      if (!accepted) {
-        logger.warn(`⚠️ Command rejected (queue full): ${command.type}`);
-        ws.send(
-          encodeMsgPack({
+      world
+        .enqueueCommand(command as SimulationCommand)
+        .then((accepted) => {
+          if (!accepted) {
+            logger.warn(`⚠️ Command rejected (queue full): ${command.type}`);
+            send({
+              type: WebSocketMessageType.ERROR,
+              message: "Command queue full",
+            });
+          } else {
+            logger.info(`✅ Command enqueued successfully: ${command.type}`);
+          }
+        })
+        .catch((err) => {
+          const errorMessage =
+            err instanceof Error ? err.message : "Unknown error";
+          logger.error("Failed to enqueue command:", errorMessage);
+          send({
             type: WebSocketMessageType.ERROR,
-            message: "Command queue full",
-          }),
-        );
-      } else {
-        logger.info(`✅ Command enqueued successfully: ${command.type}`);
-      }
+            message: "Failed to enqueue command",
+          });
+        });
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : "Unknown error";
       logger.error("Failed to parse command:", errorMessage);
-      ws.send(
-        encodeMsgPack({
-          type: WebSocketMessageType.ERROR,
-          message: "Failed to parse command",
-        }),
-      );
+      send({
+        type: WebSocketMessageType.ERROR,
+        message: "Failed to parse command",
+      });
     }
   });
-});
+}
 
 /**
- * Broadcasts simulation tick snapshots to all connected WebSocket clients.
+ * Answers a client request with a RESPONSE message.
  *
- * Caches encoded snapshot per tick to avoid re-encoding for multiple clients.
- * Only re-encodes when tick number changes. Broadcasts to all open connections.
+ * Replays and save loads are slow, so every response is sent
+ * asynchronously; errors are reported in the payload rather than as an
+ * ERROR message so the client can match them by requestId.
  *
- * @remarks
- * Performance: Uses cached buffer to minimize MessagePack encoding overhead.
- * Side effects: Sends network messages to all connected clients (50Hz).
+ * @param world - World the connection streams
+ * @param request - Request received from the client
+ * @param send - Sends a message if the connection is still open
+ * @param onFullState - Called when a full snapshot is sent, to resync deltas
  */
-simulationRunner.on("tick", (snapshot: unknown) => {
-  const currentTick = (snapshot as { tick?: number }).tick ?? 0;
-  if (currentTick !== cachedTickNumber || !cachedTickBuffer) {
-    cachedTickBuffer = encodeMsgPack({
-      type: WebSocketMessageType.TICK,
-      payload: snapshot,
+function respondToRequest(
+  world: SimulationWorld,
+  request: SimulationRequest,
+  send: (message: Record<string, unknown>) => void,
+  onFullState: () => void,
+): void {
+  world
+    .request(request)
+    .then((payload) => {
+      if (request.type === SimulationRequestType.REQUEST_FULL_STATE) {
+        onFullState();
+      }
+      send({
+        type: WebSocketMessageType.RESPONSE,
+        requestId: request.requestId,
+        payload,
+      });
+    })
+    .catch((err) => {
+      const errorMessage = err instanceof Error ? err.message : "Unknown error";
+      logger.error("Request failed:", errorMessage);
+      send({
+        type: WebSocketMessageType.RESPONSE,
+        requestId: request.requestId,
+        payload: { error: "Request failed" },
+      });
     });
-    cachedTickNumber = currentTick;
-  }
-
-  for (const client of simulationWss.clients) {
-    if (client.readyState === WebSocket.OPEN) {
-      client.send(cachedTickBuffer!);
-    }
-  }
-});
+}
@@ -21,6 +21,7 @@ export const TYPES = {
   EconomySystem: Symbol.for("EconomySystem"),
 
   RoleSystem: Symbol.for("RoleSystem"),
+  HealthSystem: Symbol.for("HealthSystem"),
   AISystem: Symbol.for("AISystem"),
   ResourceReservationSystem: Symbol.for("ResourceReservationSystem"),
   GovernanceSystem: Symbol.for("GovernanceSystem"),
@@ -35,10 +36,15 @@ export const TYPES = {
   CombatSystem: Symbol.for("CombatSystem"),
 
   RecipeDiscoverySystem: Symbol.for("RecipeDiscoverySystem"),
+  ResearchSystem: Symbol.for("ResearchSystem"),
 
   TaskSystem: Symbol.for("TaskSystem"),
+  GoalSystem: Symbol.for("GoalSystem"),
 
   MarriageSystem: Symbol.for("MarriageSystem"),
+  DialogueSystem: Symbol.for("DialogueSystem"),
+  DivineSystem: Symbol.for("DivineSystem"),
+  LegendSystem: Symbol.for("LegendSystem"),
   ConflictResolutionSystem: Symbol.for("ConflictResolutionSystem"),
 
   AmbientAwarenessSystem: Symbol.for("AmbientAwarenessSystem"),
@@ -3,11 +3,15 @@ import path from "path";
 /**
  * Application configuration loaded from environment variables.
  *
- * Supports multiple storage backends:
+ * Supports multiple storage backends, selected with `STORAGE_BACKEND`:
  * - Google Cloud Storage (GCS) - primary cloud storage
  * - Local filesystem - fallback when GCS credentials unavailable
+ * - S3-compatible object storage (AWS S3, MinIO, R2...)
+ * - SQLite - single database file, for self-hosted servers
  * - NAS (Network Attached Storage) - optional backup via SFTP
  *
+ * Authentication is enabled as soon as API keys or a token secret are set.
+ *
  * @module config
  */
 
@@ -25,6 +29,30 @@ if (process.env.NAS_ENABLED === "true") {
   }
 }
 
+if (process.env.STORAGE_BACKEND === "s3") {
+  const requiredS3Vars = [
+    "S3_BUCKET",
+    "S3_ACCESS_KEY_ID",
+    "S3_SECRET_ACCESS_KEY",
+  ];
+  const missingVars = requiredS3Vars.filter((varName) => !process.env[varName]);
+
+  if (missingVars.length > 0) {
+    throw new Error(
+      `STORAGE_BACKEND is s3 but missing required environment variables: ${missingVars.join(", ")}`,
+    );
+  }
+}
+
+/**
+ * Parses a positive integer setting, falling back to the default when it is
+ * unset, not a number or not positive.
+ */
+function positiveInt(value: string | undefined, fallback: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
 /**
  * Application configuration object.
  *
@@ -33,6 +61,19 @@ if (process.env.NAS_ENABLED === "true") {
  * @property {string} PROJECT_ID - Google Cloud project ID
  * @property {boolean} USE_LOCAL_STORAGE - Whether to use local filesystem instead of GCS
  * @property {string} LOCAL_SAVES_PATH - Local directory path for save files
+ * @property {string|undefined} STORAGE_BACKEND - Save backend: gcs, local, s3 or sqlite (default: gcs or local from USE_LOCAL_STORAGE)
+ * @property {string|undefined} SAVE_ENCODING - Save payload encoding: json or msgpack (default: json)
+ * @property {string|undefined} SAVE_COMPRESSION - Save compression: none, gzip or brotli (default: none)
+ * @property {string|undefined} SAVE_NAMESPACE - Prefix added to every stored object key, set for hosted worlds (default: none)
+ * @property {Object} S3 - S3-compatible storage configuration
+ * @property {string|undefined} S3.ENDPOINT - Endpoint URL (default: AWS S3 for the region)
+ * @property {string} S3.REGION - Signing region (default: us-east-1)
+ * @property {string} S3.BUCKET - Bucket name for saves
+ * @property {string} S3.ACCESS_KEY_ID - Access key ID
+ * @property {string} S3.SECRET_ACCESS_KEY - Secret access key
+ * @property {boolean} S3.FORCE_PATH_STYLE - Use bucket-in-path URLs, required by MinIO (default: true)
+ * @property {Object} SQLITE - SQLite storage configuration
+ * @property {string} SQLITE.PATH - Database file path
  * @property {Object} NAS - Network Attached Storage configuration for backups
  * @property {boolean} NAS.ENABLED - Whether NAS backups are enabled
  * @property {string} NAS.HOST - NAS server hostname
@@ -40,6 +81,21 @@ if (process.env.NAS_ENABLED === "true") {
  * @property {string} NAS.USERNAME - NAS SFTP username
  * @property {string} NAS.PASSWORD - NAS SFTP password
  * @property {string} NAS.BACKUP_PATH - Remote directory path on NAS
+ * @property {Object} SIMULATION - Simulation runtime configuration
+ * @property {string|undefined} SIMULATION.SEED - Base seed for RNG streams
+ * @property {boolean} SIMULATION.DETERMINISTIC - Seeded RNG, logical clock and stepped ticks
+ * @property {number} SIMULATION.CHECKSUM_HISTORY - Per-tick checksums kept in memory (default: 1000)
+ * @property {number} SIMULATION.CHECKSUM_INTERVAL - Steps between state checksums (default: 20, one per simulated second)
+ * @property {number} SIMULATION.MAX_WORLDS - Worlds hosted besides the default one (default: 4)
+ * @property {string|undefined} SIMULATION.SCENARIO - Scenario ID or file the default world starts from when there is no save
+ * @property {string} SIMULATION.SCENARIOS_DIR - Directory of the scenario catalogue (default: scenarios)
+ * @property {number} SIMULATION.DAYS_PER_SEASON - Game days each season lasts; four seasons make a year (default: 7)
+ * @property {Object} AUTH - API authentication configuration
+ * @property {boolean} AUTH.ENABLED - Require credentials for REST and WebSocket clients (default: true when AUTH_API_KEYS or AUTH_TOKEN_SECRET are set)
+ * @property {string} AUTH.API_KEYS - Static keys as comma-separated name:role:key entries
+ * @property {string|undefined} AUTH.TOKEN_SECRET - HMAC secret of session tokens (default: random per process)
+ * @property {number} AUTH.TOKEN_TTL_SECONDS - Lifetime of session tokens (default: 3600)
+ * @property {string} AUTH.ANONYMOUS_ROLE - Role of clients without credentials, or "none" (default: spectator)
  */
 export const CONFIG = {
   PORT: process.env.PORT ? parseInt(process.env.PORT, 10) : 8080,
@@ -51,6 +107,26 @@ export const CONFIG = {
   LOCAL_SAVES_PATH:
     process.env.LOCAL_SAVES_PATH ||
     path.join(process.env.HOME || ".", ".local/share/una-carta-para-isa/saves"),
+  STORAGE_BACKEND: process.env.STORAGE_BACKEND || undefined,
+  SAVE_ENCODING: process.env.SAVE_ENCODING || undefined,
+  SAVE_COMPRESSION: process.env.SAVE_COMPRESSION || undefined,
+  SAVE_NAMESPACE: process.env.SAVE_NAMESPACE || undefined,
+  S3: {
+    ENDPOINT: process.env.S3_ENDPOINT || undefined,
+    REGION: process.env.S3_REGION || "us-east-1",
+    BUCKET: process.env.S3_BUCKET || "",
+    ACCESS_KEY_ID: process.env.S3_ACCESS_KEY_ID || "",
+    SECRET_ACCESS_KEY: process.env.S3_SECRET_ACCESS_KEY || "",
+    FORCE_PATH_STYLE: process.env.S3_FORCE_PATH_STYLE !== "false",
+  },
+  SQLITE: {
+    PATH:
+      process.env.SQLITE_SAVES_PATH ||
+      path.join(
+        process.env.HOME || ".",
+        ".local/share/una-carta-para-isa/saves.sqlite",
+      ),
+  },
   NAS: {
     ENABLED: process.env.NAS_ENABLED === "true",
     HOST: process.env.NAS_HOST || "",
@@ -59,4 +135,29 @@ export const CONFIG = {
     PASSWORD: process.env.NAS_PASSWORD || "",
     BACKUP_PATH: process.env.NAS_PATH || "",
   },
+  SIMULATION: {
+    SEED: process.env.SIM_SEED || undefined,
+    DETERMINISTIC: process.env.SIM_DETERMINISTIC === "true",
+    CHECKSUM_HISTORY: positiveInt(process.env.SIM_CHECKSUM_HISTORY, 1000),
+    CHECKSUM_INTERVAL: positiveInt(process.env.SIM_CHECKSUM_INTERVAL, 20),
+    MAX_WORLDS: process.env.SIM_MAX_WORLDS
+      ? parseInt(process.env.SIM_MAX_WORLDS, 10)
+      : 4,
+    SCENARIO: process.env.SIM_SCENARIO || undefined,
+    SCENARIOS_DIR: process.env.SIM_SCENARIOS_DIR || "scenarios",
+    DAYS_PER_SEASON: process.env.SIM_DAYS_PER_SEASON
+      ? parseInt(process.env.SIM_DAYS_PER_SEASON, 10)
+      : 7,
+  },
+  AUTH: {
+    ENABLED: process.env.AUTH_ENABLED
+      ? process.env.AUTH_ENABLED === "true"
+      : !!(process.env.AUTH_API_KEYS || process.env.AUTH_TOKEN_SECRET),
+    API_KEYS: process.env.AUTH_API_KEYS || "",
+    TOKEN_SECRET: process.env.AUTH_TOKEN_SECRET || undefined,
+    TOKEN_TTL_SECONDS: process.env.AUTH_TOKEN_TTL_SECONDS
+      ? parseInt(process.env.AUTH_TOKEN_TTL_SECONDS, 10)
+      : 3600,
+    ANONYMOUS_ROLE: process.env.AUTH_ANONYMOUS_ROLE || "spectator",
+  },
 };
@@ -20,6 +20,8 @@ import { WorldGenerationService } from "../domain/simulation/systems/world/gener
 import { SimulationRunner } from "../domain/simulation/core/SimulationRunner";
 import { GameState } from "../shared/types/game-types";
 import { createInitialGameState } from "../domain/simulation/core/defaultState";
+import type { SimulationConfig } from "../shared/types/commands/SimulationCommand";
+import { CONFIG } from "./config";
 
 import {
   WorldResourceSystem,
@@ -30,6 +32,7 @@ import {
   InventorySystem,
   EconomySystem,
   RoleSystem,
+  HealthSystem,
   AISystem,
   ResourceReservationSystem,
   GovernanceSystem,
@@ -41,8 +44,13 @@ import {
   ItemGenerationSystem,
   CombatSystem,
   RecipeDiscoverySystem,
+  ResearchSystem,
   TaskSystem,
+  GoalSystem,
   MarriageSystem,
+  DialogueSystem,
+  DivineSystem,
+  LegendSystem,
   ConflictResolutionSystem,
   AmbientAwarenessSystem,
   TimeSystem,
@@ -66,7 +74,14 @@ export const container = new Container();
 
 const initialState = createInitialGameState();
 container.bind<GameState>(TYPES.GameState).toConstantValue(initialState);
-container.bind(TYPES.SimulationConfig).toConstantValue({});
+container
+  .bind<Partial<SimulationConfig>>(TYPES.SimulationConfig)
+  .toConstantValue({
+    seed: CONFIG.SIMULATION.SEED,
+    deterministic: CONFIG.SIMULATION.DETERMINISTIC,
+    checksumHistory: CONFIG.SIMULATION.CHECKSUM_HISTORY,
+    checksumInterval: CONFIG.SIMULATION.CHECKSUM_INTERVAL,
+  });
 
 container
   .bind<StateDirtyTracker>(TYPES.StateDirtyTracker)
@@ -117,6 +132,10 @@ container
   .to(WorldGenerationService)
   .inSingletonScope();
 container.bind<RoleSystem>(TYPES.RoleSystem).to(RoleSystem).inSingletonScope();
+container
+  .bind<HealthSystem>(TYPES.HealthSystem)
+  .to(HealthSystem)
+  .inSingletonScope();
 container.bind<AISystem>(TYPES.AISystem).to(AISystem).inSingletonScope();
 container
   .bind<ResourceReservationSystem>(TYPES.ResourceReservationSystem)
@@ -161,13 +180,30 @@ container
   .bind<RecipeDiscoverySystem>(TYPES.RecipeDiscoverySystem)
   .to(RecipeDiscoverySystem)
   .inSingletonScope();
+container
+  .bind<ResearchSystem>(TYPES.ResearchSystem)
+  .to(ResearchSystem)
+  .inSingletonScope();
 
 container.bind<TaskSystem>(TYPES.TaskSystem).to(TaskSystem).inSingletonScope();
+container.bind<GoalSystem>(TYPES.GoalSystem).to(GoalSystem).inSingletonScope();
 
 container
   .bind<MarriageSystem>(TYPES.MarriageSystem)
   .to(MarriageSystem)
   .inSingletonScope();
+container
+  .bind<DialogueSystem>(TYPES.DialogueSystem)
+  .to(DialogueSystem)
+  .inSingletonScope();
+container
+  .bind<DivineSystem>(TYPES.DivineSystem)
+  .to(DivineSystem)
+  .inSingletonScope();
+container
+  .bind<LegendSystem>(TYPES.LegendSystem)
+  .to(LegendSystem)
+  .inSingletonScope();
 container
   .bind<ConflictResolutionSystem>(TYPES.ConflictResolutionSystem)
   .to(ConflictResolutionSystem)
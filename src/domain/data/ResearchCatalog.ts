@@ -0,0 +1,134 @@
+/**
+ * Catalog of research categories that make up the lineage tech tree.
+ *
+ * Each category groups the recipes it unlocks and lists the categories
+ * that must be completed before it becomes available.
+ *
+ * @module simulation/data/ResearchCatalog
+ */
+
+import type { ResearchCategory } from "@/shared/types/simulation/research";
+import { RecipeId } from "../../shared/constants/RecipeEnums";
+import { ResearchCategoryId } from "../../shared/constants/ResearchEnums";
+
+/**
+ * Static catalog of research categories.
+ */
+export class ResearchCatalog {
+  private static readonly categories: ResearchCategory[] = [
+    {
+      id: ResearchCategoryId.PRIMITIVE_TOOLS,
+      name: "Herramientas Primitivas",
+      description: "Tallar piedra para obtener las primeras herramientas",
+      prerequisites: [],
+      recipes: [
+        RecipeId.STONE_AXE,
+        RecipeId.STONE_PICKAXE,
+        RecipeId.STONE_DAGGER,
+      ],
+      level: 1,
+      icon: "🪓",
+    },
+    {
+      id: ResearchCategoryId.FOOD_PREPARATION,
+      name: "Preparación de Alimentos",
+      description: "Cocinar y moler para aprovechar mejor la comida",
+      prerequisites: [],
+      recipes: [RecipeId.COOK_MEAT, RecipeId.COOK_FISH, RecipeId.GRIND_WHEAT],
+      level: 1,
+      icon: "🍖",
+    },
+    {
+      id: ResearchCategoryId.TEXTILES,
+      name: "Textiles",
+      description: "Curtir pieles y tejer fibras para vestirse",
+      prerequisites: [ResearchCategoryId.PRIMITIVE_TOOLS],
+      recipes: [
+        RecipeId.TAN_LEATHER,
+        RecipeId.WEAVE_CLOTH,
+        RecipeId.CLOTH_SHIRT,
+        RecipeId.LEATHER_VEST,
+      ],
+      level: 2,
+      icon: "🧵",
+    },
+    {
+      id: ResearchCategoryId.CONSTRUCTION,
+      name: "Construcción",
+      description: "Estructuras de madera y piedra más sólidas",
+      prerequisites: [ResearchCategoryId.PRIMITIVE_TOOLS],
+      recipes: [
+        RecipeId.WOODEN_FRAME,
+        RecipeId.STONE_FOUNDATION,
+        RecipeId.DOOR,
+        RecipeId.FIRE_BRICK,
+      ],
+      level: 2,
+      icon: "🧱",
+    },
+    {
+      id: ResearchCategoryId.AGRICULTURE,
+      name: "Agricultura",
+      description: "Transformar cosechas en alimentos elaborados",
+      prerequisites: [ResearchCategoryId.FOOD_PREPARATION],
+      recipes: [RecipeId.BAKE_BREAD, RecipeId.MAKE_STEW],
+      level: 2,
+      icon: "🌾",
+    },
+    {
+      id: ResearchCategoryId.METALLURGY,
+      name: "Metalurgia",
+      description: "Fundir minerales en lingotes",
+      prerequisites: [
+        ResearchCategoryId.PRIMITIVE_TOOLS,
+        ResearchCategoryId.CONSTRUCTION,
+      ],
+      recipes: [RecipeId.SMELT_IRON, RecipeId.SMELT_COPPER],
+      level: 3,
+      icon: "🔥",
+    },
+    {
+      id: ResearchCategoryId.ADVANCED_TOOLS,
+      name: "Herramientas Avanzadas",
+      description: "Herramientas de hierro más duraderas y eficientes",
+      prerequisites: [ResearchCategoryId.METALLURGY],
+      recipes: [RecipeId.IRON_AXE, RecipeId.IRON_PICKAXE],
+      level: 4,
+      icon: "⛏️",
+    },
+    {
+      id: ResearchCategoryId.WARFARE,
+      name: "Arte de la Guerra",
+      description: "Armas y armaduras para defender el linaje",
+      prerequisites: [
+        ResearchCategoryId.METALLURGY,
+        ResearchCategoryId.TEXTILES,
+      ],
+      recipes: [RecipeId.IRON_SWORD, RecipeId.BOW, RecipeId.IRON_HELMET],
+      level: 4,
+      icon: "⚔️",
+    },
+  ];
+
+  static getAllCategories(): ResearchCategory[] {
+    return [...this.categories];
+  }
+
+  static getCategoryById(id: string): ResearchCategory | null {
+    return this.categories.find((c) => c.id === id) || null;
+  }
+
+  /**
+   * Gets the categories whose recipe list contains the given recipe.
+   */
+  static getCategoriesForRecipe(recipeId: string): ResearchCategory[] {
+    return this.categories.filter((c) => c.recipes.includes(recipeId));
+  }
+
+  /**
+   * Gets the categories that list the given category as a prerequisite.
+   */
+  static getDependents(categoryId: string): ResearchCategory[] {
+    return this.categories.filter((c) => c.prerequisites.includes(categoryId));
+  }
+}
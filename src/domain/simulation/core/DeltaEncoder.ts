@@ -3,7 +3,6 @@ import type { SimulationSnapshot } from "../../../shared/types/commands/Simulati
 import type { AgentProfile } from "@/shared/types/simulation/agents";
 import type { SimulationEntity } from "../core/schema";
 import type { Animal } from "@/shared/types/simulation/animals";
-import type { EntityNeedsData } from "@/shared/types/simulation/needs";
 import {
   SnapshotType,
   SystemProperty,
@@ -12,31 +11,87 @@ import {
 /**
  * Delta snapshot containing only changes since the last snapshot.
  * Used to reduce WebSocket payload size by sending only modified data.
+ *
+ * Agents the client already has arrive as `agentPatches` (changed top-level
+ * fields only, `null` for removed fields); new agents arrive whole in
+ * `changes.agents`.
  */
 export interface DeltaSnapshot {
   type: SnapshotType;
   tick: number;
   updatedAt: number;
+  /** Tick of the state this delta applies on top of (deltas only) */
+  baseTick?: number;
+  /** Per-connection message counter, increases by one on every send */
+  sequence?: number;
   events?: unknown[];
   changes?: Partial<GameState>;
+  agentPatches?: Record<string, AgentPatch>;
   changedAgentIds?: string[];
   changedEntityIds?: string[];
+  removedAgentIds?: string[];
+  removedEntityIds?: string[];
 }
 
+export type AgentPatch = { [K in keyof AgentProfile]?: AgentProfile[K] | null };
+
+/**
+ * Serialized field values, shared by every encoder. Snapshot objects are
+ * never mutated once emitted, so each one is serialized at most once no
+ * matter how many connections diff against it.
+ */
+const serializedValues = new WeakMap<object, string>();
+
+/**
+ * GameState sections `detectChanges` diffs field by field, plus the map
+ * sections, which are generated once from the seed and only travel in full
+ * snapshots. Any other section is sent whole whenever the snapshot holds a
+ * new object for it.
+ */
+const DIFFED_SECTIONS = new Set<string>([
+  "world",
+  "terrainTiles",
+  "objectLayers",
+  "roads",
+  "agents",
+  "entities",
+  "zones",
+  "worldResources",
+  "animals",
+  "togetherTime",
+  "dayTime",
+  "cycles",
+  "resources",
+  SystemProperty.INVENTORY,
+  "enhancedCrafting",
+]);
+
 /**
  * Delta encoder for reducing WebSocket snapshot payload size.
  *
- * Compares current state with previous snapshot and sends only changes.
- * Periodically sends full snapshots to ensure client state consistency.
+ * One instance per connection. Deltas are computed against the last state
+ * the client acknowledged (see {@link acknowledge}), so a dropped frame is
+ * repaired by the next delta instead of desyncing the client. Clients that
+ * never acknowledge get deltas against the previous send. Every client gets a
+ * full snapshot every 100 ticks, which also carries sections that systems
+ * mutate in place and deltas therefore cannot see change.
  */
 export class DeltaEncoder {
   private lastFullSnapshot: GameState | null = null;
+  private lastSentTick = -1;
   private ticksSinceFullSnapshot = 0;
+  private sequence = 0;
+  /** Last tick applied by the client; null until its first ACK */
+  private ackedTick: number | null = null;
+  /** Recent sent states by tick, starting at the acked one */
+  private sentStates = new Map<number, GameState>();
   /** Send full snapshot every 100 ticks to ensure consistency */
   private readonly FULL_SNAPSHOT_INTERVAL = 100;
+  /** Unacknowledged sends kept before giving up and sending a full snapshot */
+  private readonly MAX_UNACKED_STATES = 50;
 
   /**
-   * Generates a delta snapshot by comparing with the previous snapshot.
+   * Generates a delta snapshot by comparing with the base snapshot.
    *
    * @param currentSnapshot - Current simulation snapshot
    * @param forceFull - Force a full snapshot regardless of interval
@@ -46,19 +101,22 @@ export class DeltaEncoder {
     currentSnapshot: SimulationSnapshot,
     forceFull = false,
   ): DeltaSnapshot {
+    const base = this.getBase();
     const shouldSendFull =
       forceFull ||
-      !this.lastFullSnapshot ||
+      !base ||
       this.ticksSinceFullSnapshot >= this.FULL_SNAPSHOT_INTERVAL;
 
-    if (shouldSendFull) {
-      this.lastFullSnapshot = currentSnapshot.state;
+    this.remember(currentSnapshot);
+
+    if (shouldSendFull || !base) {
       this.ticksSinceFullSnapshot = 0;
 
       return {
         type: SnapshotType.FULL,
         tick: currentSnapshot.tick,
         updatedAt: currentSnapshot.updatedAt,
+        sequence: ++this.sequence,
         events: currentSnapshot.events,
         changes: currentSnapshot.state,
       };
@@ -66,33 +124,190 @@ export class DeltaEncoder {
 
     this.ticksSinceFullSnapshot++;
 
-    if (!this.lastFullSnapshot) {
-      this.lastFullSnapshot = currentSnapshot.state;
-      return {
-        type: SnapshotType.FULL,
-        tick: currentSnapshot.tick,
-        updatedAt: currentSnapshot.updatedAt,
-        events: currentSnapshot.events,
-        changes: currentSnapshot.state,
-      };
-    }
-
-    const changes = this.detectChanges(
-      this.lastFullSnapshot,
-      currentSnapshot.state,
+    const changes = this.detectChanges(base.state, currentSnapshot.state);
+    const agents = this.diffAgents(
+      base.state.agents,
+      currentSnapshot.state.agents,
     );
+    if (agents.added.length > 0) {
+      changes.agents = agents.added;
+    }
 
-    this.lastFullSnapshot = currentSnapshot.state;
-
-    return {
+    const delta: DeltaSnapshot = {
       type: SnapshotType.DELTA,
       tick: currentSnapshot.tick,
       updatedAt: currentSnapshot.updatedAt,
+      baseTick: base.tick,
+      sequence: ++this.sequence,
       events: currentSnapshot.events,
       changes,
-      changedAgentIds: changes.agents?.map((a) => a.id),
+      changedAgentIds: [
+        ...agents.added.map((a) => a.id),
+        ...Object.keys(agents.patches),
+      ],
       changedEntityIds: changes.entities?.map((e) => e.id),
     };
+
+    if (Object.keys(agents.patches).length > 0) {
+      delta.agentPatches = agents.patches;
+    }
+    if (agents.removed.length > 0) {
+      delta.removedAgentIds = agents.removed;
+    }
+    const removedEntityIds = this.findRemoved(
+      base.state.entities,
+      currentSnapshot.state.entities,
+    );
+    if (removedEntityIds.length > 0) {
+      delta.removedEntityIds = removedEntityIds;
+    }
+
+    return delta;
+  }
+
+  /**
+   * Records the last tick the client applied. Later deltas are computed
+   * against that tick, so frames lost after it are resent.
+   *
+   * @returns false if the tick is unknown (never sent or too old); the next
+   * encode then falls back to a full snapshot
+   */
+  public acknowledge(tick: number): boolean {
+    if (!this.sentStates.has(tick)) {
+      this.forceFullSnapshot();
+      return false;
+    }
+    if (this.ackedTick !== null && tick < this.ackedTick) {
+      return true;
+    }
+
+    this.ackedTick = tick;
+    for (const sentTick of this.sentStates.keys()) {
+      if (sentTick < tick) this.sentStates.delete(sentTick);
+    }
+    return true;
+  }
+
+  public getAckedTick(): number | null {
+    return this.ackedTick;
+  }
+
+  private getBase(): { tick: number; state: GameState } | null {
+    if (this.ackedTick !== null) {
+      const state = this.sentStates.get(this.ackedTick);
+      return state ? { tick: this.ackedTick, state } : null;
+    }
+    return this.lastFullSnapshot
+      ? { tick: this.lastSentTick, state: this.lastFullSnapshot }
+      : null;
+  }
+
+  private remember(snapshot: SimulationSnapshot): void {
+    this.lastFullSnapshot = snapshot.state;
+    this.lastSentTick = snapshot.tick;
+    this.sentStates.set(snapshot.tick, snapshot.state);
+    if (this.sentStates.size <= this.MAX_UNACKED_STATES) return;
+
+    const oldestTick = this.sentStates.keys().next().value as number;
+    this.sentStates.delete(oldestTick);
+    if (oldestTick === this.ackedTick) {
+      // The client stopped acknowledging: resync with a full snapshot
+      this.forceFullSnapshot();
+    }
+  }
+
+  /**
+   * Splits agents into added, removed and field-level patches.
+   */
+  private diffAgents(
+    previous: AgentProfile[] | undefined,
+    current: AgentProfile[] | undefined,
+  ): {
+    added: AgentProfile[];
+    removed: string[];
+    patches: Record<string, AgentPatch>;
+  } {
+    const added: AgentProfile[] = [];
+    const patches: Record<string, AgentPatch> = {};
+    const prevAgentMap = new Map((previous ?? []).map((a) => [a.id, a]));
+
+    for (const agent of current ?? []) {
+      const prevAgent = prevAgentMap.get(agent.id);
+      if (!prevAgent) {
+        added.push(agent);
+        continue;
+      }
+      if (prevAgent === agent) continue;
+
+      const patch = this.diffFields(prevAgent, agent);
+      if (patch) patches[agent.id] = patch;
+    }
+
+    return {
+      added,
+      removed: this.findRemoved(previous, current),
+      patches,
+    };
+  }
+
+  private diffFields(
+    previous: AgentProfile,
+    current: AgentProfile,
+  ): AgentPatch | null {
+    const patch: Record<string, unknown> = {};
+    let changed = false;
+    const prevFields = previous as unknown as Record<string, unknown>;
+    const currentFields = current as unknown as Record<string, unknown>;
+
+    for (const key of Object.keys(currentFields)) {
+      const value = currentFields[key];
+      if (value === undefined) continue;
+      if (!this.isSameValue(prevFields[key], value)) {
+        patch[key] = value;
+        changed = true;
+      }
+    }
+    for (const key of Object.keys(prevFields)) {
+      if (prevFields[key] !== undefined && currentFields[key] === undefined) {
+        patch[key] = null;
+        changed = true;
+      }
+    }
+
+    return changed ? (patch as AgentPatch) : null;
+  }
+
+  private isSameValue(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+    if (
+      a === null ||
+      b === null ||
+      typeof a !== "object" ||
+      typeof b !== "object"
+    ) {
+      return false;
+    }
+    return this.serialize(a) === this.serialize(b);
+  }
+
+  private serialize(value: object): string {
+    let serialized = serializedValues.get(value);
+    if (serialized === undefined) {
+      serialized = JSON.stringify(value);
+      serializedValues.set(value, serialized);
+    }
+    return serialized;
+  }
+
+  private findRemoved(
+    previous: Array<{ id: string }> | undefined,
+    current: Array<{ id: string }> | undefined,
+  ): string[] {
+    if (!previous || previous.length === 0) return [];
+    const currentIds = new Set((current ?? []).map((item) => item.id));
+    return previous
+      .filter((item) => !currentIds.has(item.id))
+      .map((item) => item.id);
   }
 
   /**
@@ -109,18 +324,10 @@ export class DeltaEncoder {
   ): Partial<GameState> {
     const changes: Partial<GameState> = {};
 
-    // @ts-expect-error - prevAgentMap reserved for future use
-    const _prevAgentMap = previous.agents
-      ? new Map(previous.agents.map((a) => [a.id, a]))
-      : new Map<string, AgentProfile>();
     const prevEntityMap = previous.entities
       ? new Map(previous.entities.map((e) => [e.id, e]))
       : new Map<string, SimulationEntity>();
 
-    if (current.agents) {
-      changes.agents = current.agents;
-    }
-
     if (current.entities && previous.entities) {
       const changedEntities = current.entities.filter((entity) => {
         const prevEntity = prevEntityMap.get(entity.id);
@@ -200,6 +407,17 @@ export class DeltaEncoder {
       changes.enhancedCrafting = current.enhancedCrafting;
     }
 
+    const previousSections = previous as unknown as Record<string, unknown>;
+    const currentSections = current as unknown as Record<string, unknown>;
+    const sectionChanges = changes as Record<string, unknown>;
+    for (const key of Object.keys(currentSections)) {
+      if (DIFFED_SECTIONS.has(key)) continue;
+      const value = currentSections[key];
+      if (value !== undefined && value !== previousSections[key]) {
+        sectionChanges[key] = value;
+      }
+    }
+
     return changes;
   }
 
@@ -257,48 +475,6 @@ export class DeltaEncoder {
     return false;
   }
 
-  // @ts-expect-error - hasAgentChanged reserved for future use
-  private hasAgentChanged(
-    prev: AgentProfile & {
-      needs?: EntityNeedsData;
-      health?: number;
-      ai?: unknown;
-    },
-    current: AgentProfile & {
-      needs?: EntityNeedsData;
-      health?: number;
-      ai?: unknown;
-    },
-  ): boolean {
-    if (
-      prev.position?.x !== current.position?.x ||
-      prev.position?.y !== current.position?.y
-    ) {
-      return true;
-    }
-
-    if (prev.needs && current.needs) {
-      const needKeys = Object.keys(current.needs) as Array<
-        keyof EntityNeedsData
-      >;
-      for (const key of needKeys) {
-        if (prev.needs[key] !== current.needs[key]) {
-          return true;
-        }
-      }
-    }
-
-    if (prev.health !== current.health) {
-      return true;
-    }
-
-    if (prev.ai !== current.ai) {
-      return true;
-    }
-
-    return false;
-  }
-
   private hasEntityChanged(
     prev: SimulationEntity & { activity?: string },
     current: SimulationEntity & { activity?: string },
@@ -354,17 +530,22 @@ export class DeltaEncoder {
   }
 
   /**
-   * Resets the encoder, clearing the last full snapshot.
+   * Resets the encoder, clearing the last full snapshot and acknowledgements.
    */
   public reset(): void {
     this.lastFullSnapshot = null;
+    this.lastSentTick = -1;
     this.ticksSinceFullSnapshot = 0;
+    this.ackedTick = null;
+    this.sentStates.clear();
   }
 
   /**
    * Forces the next encodeDelta call to return a full snapshot.
    */
   public forceFullSnapshot(): void {
-    this.ticksSinceFullSnapshot = this.FULL_SNAPSHOT_INTERVAL;
+    this.lastFullSnapshot = null;
+    this.ackedTick = null;
+    this.sentStates.clear();
   }
 }
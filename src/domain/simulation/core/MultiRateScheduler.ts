@@ -1,6 +1,13 @@
 import { performance } from "node:perf_hooks";
 import { logger } from "../../../infrastructure/utils/logger";
-import { updateFrameTime } from "../../../shared/FrameTime";
+import {
+  advanceLogicalClock,
+  getFrameTime,
+  getSimulationTime,
+  isLogicalClockEnabled,
+  updateFrameTime,
+} from "../../../shared/FrameTime";
+import { RandomUtils } from "../../../shared/utils/RandomUtils";
 import { performanceMonitor } from "./PerformanceMonitor";
 import { TickRate } from "../../../shared/constants/SchedulerEnums";
 import type { SchedulerStatsSnapshot } from "./SchedulerTypes";
@@ -66,6 +73,21 @@ export interface SchedulerHooks {
   postTick?: () => void;
   /** Returns current entity count for optimization decisions */
   getEntityCount?: () => number;
+  /** Executes after every step() once all due rates have ticked */
+  postStep?: (step: number) => void;
+}
+
+/**
+ * Scheduler behaviour options.
+ */
+export interface SchedulerOptions {
+  /**
+   * Drives every rate from a single FAST step counter instead of three
+   * independent intervals, runs heavy postTick work inline and never yields
+   * mid-tick. Combined with the logical clock and seeded RNG streams this
+   * makes the order of execution reproducible.
+   */
+  deterministic?: boolean;
 }
 
 /**
@@ -84,21 +106,25 @@ export class MultiRateScheduler {
   private fastHandle?: NodeJS.Timeout;
   private mediumHandle?: NodeJS.Timeout;
   private slowHandle?: NodeJS.Timeout;
+  private stepHandle?: NodeJS.Timeout;
 
   private fastSystems: ScheduledSystem[] = [];
   private mediumSystems: ScheduledSystem[] = [];
   private slowSystems: ScheduledSystem[] = [];
 
-  private lastFastTick = Date.now();
-  private lastMediumTick = Date.now();
-  private lastSlowTick = Date.now();
+  private lastFastTick = getSimulationTime();
+  private lastMediumTick = getSimulationTime();
+  private lastSlowTick = getSimulationTime();
 
   private isTickingFast = false;
   private isTickingMedium = false;
   private isTickingSlow = false;
 
   private isRunning = false;
+  private isStepping = false;
   private tickRates: TickRates;
+  private readonly deterministic: boolean;
+  private stepCount = 0;
 
   private hooks: SchedulerHooks = {};
 
@@ -119,9 +145,38 @@ export class MultiRateScheduler {
    * Creates a new multi-rate scheduler.
    *
    * @param tickRates - Custom tick rates (defaults to DEFAULT_TICK_RATES)
+   * @param options - Scheduler behaviour options
    */
-  constructor(tickRates: TickRates = DEFAULT_TICK_RATES) {
+  constructor(
+    tickRates: TickRates = DEFAULT_TICK_RATES,
+    options: SchedulerOptions = {},
+  ) {
     this.tickRates = tickRates;
+    this.deterministic = options.deterministic ?? false;
+  }
+
+  /**
+   * Whether the scheduler runs in deterministic step mode.
+   */
+  public isDeterministic(): boolean {
+    return this.deterministic;
+  }
+
+  /**
+   * Number of FAST steps executed through step().
+   */
+  public getStepCount(): number {
+    return this.stepCount;
+  }
+
+  /**
+   * Restores the step counter, e.g. after loading a save, so MEDIUM and SLOW
+   * ticks keep falling on the same steps as in the original run.
+   *
+   * @param step - Step count to resume from
+   */
+  public restoreStepCount(step: number): void {
+    this.stepCount = step;
   }
 
   /**
@@ -163,7 +218,7 @@ export class MultiRateScheduler {
    * @returns Current entity count
    */
   private getEntityCount(): number {
-    const now = Date.now();
+    const now = getSimulationTime();
     if (now - this.lastEntityCountUpdate > this.ENTITY_COUNT_CACHE_MS) {
       this.cachedEntityCount = this.hooks.getEntityCount?.() ?? 0;
       this.lastEntityCountUpdate = now;
@@ -182,9 +237,31 @@ export class MultiRateScheduler {
     }
 
     this.isRunning = true;
-    this.lastFastTick = Date.now();
-    this.lastMediumTick = Date.now();
-    this.lastSlowTick = Date.now();
+
+    if (this.deterministic) {
+      this.stepHandle = setInterval(() => {
+        if (this.isStepping) {
+          this.stats.fast.skipped++;
+          return;
+        }
+        this.step().catch((err) => {
+          logger.error("Error in deterministic step:", err);
+        });
+      }, this.tickRates.FAST);
+
+      logger.info("🚀 MultiRateScheduler started (deterministic)", {
+        step: `${this.tickRates.FAST}ms`,
+        systems:
+          this.fastSystems.length +
+          this.mediumSystems.length +
+          this.slowSystems.length,
+      });
+      return;
+    }
+
+    this.lastFastTick = getSimulationTime();
+    this.lastMediumTick = getSimulationTime();
+    this.lastSlowTick = getSimulationTime();
 
     this.fastHandle = setInterval(() => {
       this.tickFast().catch((err) => {
@@ -220,15 +297,108 @@ export class MultiRateScheduler {
     if (this.fastHandle) clearInterval(this.fastHandle);
     if (this.mediumHandle) clearInterval(this.mediumHandle);
     if (this.slowHandle) clearInterval(this.slowHandle);
+    if (this.stepHandle) clearInterval(this.stepHandle);
 
     this.fastHandle = undefined;
     this.mediumHandle = undefined;
     this.slowHandle = undefined;
+    this.stepHandle = undefined;
     this.isRunning = false;
 
     logger.info("🛑 MultiRateScheduler stopped");
   }
 
+  /**
+   * Stops the scheduler and waits for any tick already in progress to
+   * finish, so the caller can safely rewrite the state. Must not be called
+   * from inside a tick.
+   *
+   * @returns Whether the scheduler was running and should be restarted
+   */
+  public async pause(): Promise<boolean> {
+    const wasRunning = this.isRunning;
+    this.stop();
+    while (
+      this.isTickingFast ||
+      this.isTickingMedium ||
+      this.isTickingSlow ||
+      this.isStepping
+    ) {
+      await new Promise((resolve) => setTimeout(resolve, this.tickRates.FAST));
+    }
+    return wasRunning;
+  }
+
+  /**
+   * Advances the simulation by exactly one FAST tick, running MEDIUM and SLOW
+   * ticks whenever they fall due (every MEDIUM/FAST and SLOW/FAST steps).
+   * When the logical clock is enabled it is advanced by the FAST rate first.
+   *
+   * Can be called while the scheduler is stopped to run ticks manually.
+   *
+   * @returns The step number that was executed (1-based)
+   */
+  public async step(): Promise<number> {
+    if (this.isStepping) {
+      throw new Error("MultiRateScheduler.step() is already running");
+    }
+    this.isStepping = true;
+
+    try {
+      if (this.stepCount === 0) {
+        const startTime = getFrameTime();
+        this.lastFastTick = startTime;
+        this.lastMediumTick = startTime;
+        this.lastSlowTick = startTime;
+      }
+
+      if (isLogicalClockEnabled()) {
+        advanceLogicalClock(this.tickRates.FAST);
+      }
+
+      this.stepCount++;
+      const mediumEvery = Math.max(
+        1,
+        Math.round(this.tickRates.MEDIUM / this.tickRates.FAST),
+      );
+      const slowEvery = Math.max(
+        1,
+        Math.round(this.tickRates.SLOW / this.tickRates.FAST),
+      );
+
+      await this.tickFast();
+      if (this.stepCount % mediumEvery === 0) {
+        await this.tickMedium();
+      }
+      if (this.stepCount % slowEvery === 0) {
+        await this.tickSlow();
+      }
+
+      this.hooks.postStep?.(this.stepCount);
+      return this.stepCount;
+    } finally {
+      this.isStepping = false;
+    }
+  }
+
+  /**
+   * Runs the heavy postTick hook.
+   * Deferred to setImmediate normally, inline in deterministic mode so that
+   * snapshot/state sync happen at a reproducible point.
+   */
+  private runHeavyHook(): void {
+    if (!this.hooks.postTickHeavy) return;
+
+    if (this.deterministic) {
+      this.hooks.postTickHeavy();
+      return;
+    }
+
+    setImmediate(() => {
+      this.hooks.postTickHeavy?.();
+    });
+  }
+
   /**
    * Executes FAST rate tick (50ms interval).
    * Updates shared frame time and runs all FAST systems.
@@ -250,7 +420,10 @@ export class MultiRateScheduler {
       performanceMonitor.beginTick(TickRate.FAST);
 
       const preTickStart = performance.now();
-      this.hooks.preTick?.();
+      if (this.hooks.preTick) {
+        const preTick = this.hooks.preTick;
+        RandomUtils.withStream("_lifecycle:preTick", preTick);
+      }
       const preTickDuration = performance.now() - preTickStart;
       if (this.hooks.preTick) {
         performanceMonitor.recordSystemExecution(
@@ -264,11 +437,7 @@ export class MultiRateScheduler {
       await this.executeSystems(this.fastSystems, delta, entityCount);
 
       const postTickStart = performance.now();
-      if (this.hooks.postTickLight) {
-        this.hooks.postTickLight();
-      } else {
-        this.hooks.postTick?.();
-      }
+      this.runLightHook();
       const postTickDuration = performance.now() - postTickStart;
       performanceMonitor.recordSystemExecution(
         TickRate.FAST,
@@ -321,16 +490,9 @@ export class MultiRateScheduler {
       await this.executeSystems(this.mediumSystems, delta, entityCount);
 
       const postTickStart = performance.now();
+      this.runLightHook();
       if (this.hooks.postTickLight) {
-        this.hooks.postTickLight();
-
-        if (this.hooks.postTickHeavy) {
-          setImmediate(() => {
-            this.hooks.postTickHeavy?.();
-          });
-        }
-      } else {
-        this.hooks.postTick?.();
+        this.runHeavyHook();
       }
       const postTickDuration = performance.now() - postTickStart;
       performanceMonitor.recordSystemExecution(
@@ -381,16 +543,9 @@ export class MultiRateScheduler {
       await this.executeSystems(this.slowSystems, delta, entityCount);
 
       const postTickStart = performance.now();
+      this.runLightHook();
       if (this.hooks.postTickLight) {
-        this.hooks.postTickLight();
-
-        if (this.hooks.postTickHeavy) {
-          setImmediate(() => {
-            this.hooks.postTickHeavy?.();
-          });
-        }
-      } else {
-        this.hooks.postTick?.();
+        this.runHeavyHook();
       }
       const postTickDuration = performance.now() - postTickStart;
       performanceMonitor.recordSystemExecution(
@@ -415,6 +570,17 @@ export class MultiRateScheduler {
     }
   }
 
+  /**
+   * Runs the lightweight postTick hook (or the legacy postTick fallback)
+   * inside its own RNG stream.
+   */
+  private runLightHook(): void {
+    const hook = this.hooks.postTickLight ?? this.hooks.postTick;
+    if (hook) {
+      RandomUtils.withStream("_lifecycle:postTick", hook);
+    }
+  }
+
   /**
    * Executes all systems in the given list with the provided delta time.
    * Skips disabled systems and systems that don't meet minimum entity requirements.
@@ -440,13 +606,15 @@ export class MultiRateScheduler {
       }
 
       const elapsedInTick = performance.now() - tickStartTime;
-      if (elapsedInTick > this.MAX_TICK_TIME_MS) {
+      if (!this.deterministic && elapsedInTick > this.MAX_TICK_TIME_MS) {
         await new Promise<void>((resolve) => setImmediate(resolve));
       }
 
       try {
         const start = performance.now();
-        const result = system.update(deltaMs);
+        const result = RandomUtils.withStream(system.name, () =>
+          system.update(deltaMs),
+        );
         if (result instanceof Promise) {
           const systemStartTime = performance.now();
           await result;
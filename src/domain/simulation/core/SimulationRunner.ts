@@ -1,10 +1,10 @@
 import { EventEmitter } from "node:events";
 import type { GameState } from "@/shared/types/game-types";
 import type { ILifeCyclePort } from "../ports";
-import { cloneGameState } from "./defaultState";
 import { EntityIndex } from "./EntityIndex";
 import { SharedSpatialIndex } from "./SharedSpatialIndex";
 import { AgentRegistry } from "../systems/agents/AgentRegistry";
+import { AnimalRegistry } from "../systems/world/animals/AnimalRegistry";
 import { WorldGenerationService } from "../systems/world/generation/worldGenerationService";
 import { logger } from "../../../infrastructure/utils/logger";
 
@@ -17,6 +17,7 @@ import {
   InventorySystem,
   EconomySystem,
   RoleSystem,
+  HealthSystem,
   AISystem,
   ResourceReservationSystem,
   GovernanceSystem,
@@ -27,8 +28,13 @@ import {
   AnimalSystem,
   ItemGenerationSystem,
   RecipeDiscoverySystem,
+  ResearchSystem,
   TaskSystem,
+  GoalSystem,
   MarriageSystem,
+  DialogueSystem,
+  DivineSystem,
+  LegendSystem,
   ConflictResolutionSystem,
   CombatSystem,
   AmbientAwarenessSystem,
@@ -43,7 +49,10 @@ import { simulationEvents } from "./events";
 import { BatchedEventEmitter } from "./BatchedEventEmitter";
 
 import { EntityType } from "../../../shared/constants/EntityEnums";
-import { SystemName } from "../../../shared/constants/SystemEnums";
+import {
+  PersistedSystem,
+  SystemName,
+} from "../../../shared/constants/SystemEnums";
 
 import { GPUComputeService } from "./GPUComputeService";
 import { StateDirtyTracker } from "./StateDirtyTracker";
@@ -51,7 +60,23 @@ import { MultiRateScheduler } from "./MultiRateScheduler";
 import { TickRate } from "../../../shared/constants/SchedulerEnums";
 import { performanceMonitor } from "./PerformanceMonitor";
 import { MetricsCollector } from "./MetricsCollector";
-import { storageService } from "../../../infrastructure/services/storage/storageService";
+import {
+  storageService,
+  type SaveData,
+} from "../../../infrastructure/services/storage/storageService";
+import { RandomUtils } from "../../../shared/utils/RandomUtils";
+import {
+  disableLogicalClock,
+  enableLogicalClock,
+  getFrameTime,
+  getSimulationTime,
+  isLogicalClockEnabled,
+} from "../../../shared/FrameTime";
+import {
+  ChecksumLog,
+  computeStateChecksum,
+  type TickChecksum,
+} from "./StateChecksum";
 import type {
   SimulationCommand,
   SimulationConfig,
@@ -66,6 +91,19 @@ import { CommandProcessor } from "./runner/CommandProcessor";
 import { SnapshotManager } from "./runner/SnapshotManager";
 import { EventRegistry } from "./runner/EventRegistry";
 import { WorldLoader } from "../systems/world/WorldLoader";
+import { ScenarioLoader } from "../systems/world/ScenarioLoader";
+import { toScenarioState } from "./scenarios/parseScenario";
+import type { Scenario } from "../../../shared/types/simulation/scenario";
+import { CommandJournal } from "./runner/CommandJournal";
+import { ReplayService } from "./runner/ReplayService";
+import { SystemStateRegistry } from "./runner/SystemStateRegistry";
+import type {
+  CommandJournalEntry,
+  PersistedSystemState,
+  ReplayResult,
+  SaveLoadResult,
+  SimulationClockState,
+} from "../../../shared/types/simulation/replay";
 
 /**
  * Main simulation orchestrator and coordinator.
@@ -93,11 +131,20 @@ export class SimulationRunner {
 
   private eventRegistry: EventRegistry;
   private worldLoader: WorldLoader;
+  private scenarioLoader: ScenarioLoader;
   private commandProcessor: CommandProcessor;
   private snapshotManager: SnapshotManager;
+  private commandJournal: CommandJournal;
+  private replayService: ReplayService;
+  private systemStateRegistry?: SystemStateRegistry;
 
   private lastStateSync = 0;
 
+  private readonly deterministic: boolean;
+  private readonly persistence: boolean;
+  private readonly checksumLog: ChecksumLog;
+  private readonly checksumInterval: number;
+
   /**
    * Synchronizes system states to the main GameState.
    * Throttled to run periodically (e.g. 250ms) to save CPU.
@@ -162,6 +209,8 @@ export class SimulationRunner {
 
   @inject(TYPES.RoleSystem) public readonly roleSystem!: RoleSystem;
 
+  @inject(TYPES.HealthSystem) public readonly healthSystem!: HealthSystem;
+
   @inject(TYPES.AISystem) public readonly aiSystem!: AISystem;
 
   @inject(TYPES.ResourceReservationSystem)
@@ -191,10 +240,21 @@ export class SimulationRunner {
   @inject(TYPES.RecipeDiscoverySystem)
   public readonly _recipeDiscoverySystem!: RecipeDiscoverySystem;
 
+  @inject(TYPES.ResearchSystem)
+  public readonly researchSystem!: ResearchSystem;
+
   @inject(TYPES.TaskSystem) public readonly taskSystem!: TaskSystem;
 
+  @inject(TYPES.GoalSystem) public readonly goalSystem!: GoalSystem;
+
   @inject(TYPES.MarriageSystem) public readonly marriageSystem!: MarriageSystem;
 
+  @inject(TYPES.DialogueSystem) public readonly dialogueSystem!: DialogueSystem;
+
+  @inject(TYPES.DivineSystem) public readonly divineSystem!: DivineSystem;
+
+  @inject(TYPES.LegendSystem) public readonly legendSystem!: LegendSystem;
+
   @inject(TYPES.ConflictResolutionSystem)
   public readonly conflictResolutionSystem!: ConflictResolutionSystem;
 
@@ -221,6 +281,9 @@ export class SimulationRunner {
   @inject(TYPES.SharedSpatialIndex)
   public readonly sharedSpatialIndex!: SharedSpatialIndex;
 
+  @inject(TYPES.AnimalRegistry)
+  private readonly animalRegistry!: AnimalRegistry;
+
   @inject(TYPES.ChunkLoadingSystem)
   public readonly chunkLoadingSystem!: ChunkLoadingSystem;
 
@@ -236,8 +299,22 @@ export class SimulationRunner {
   private readonly INDEX_REBUILD_INTERVAL_FAST = 5;
 
   private readonly AUTO_SAVE_INTERVAL_MS = 60000;
+  /** Ancestors recorded in each save, at most */
+  private readonly MAX_SAVE_LINEAGE = 100;
+
+  /** Logical clock origin for deterministic runs (2024-01-01T00:00:00Z) */
+  private readonly DETERMINISTIC_EPOCH_MS = 1704067200000;
 
   private autoSaveInterval?: NodeJS.Timeout;
+  private loadInProgress = false;
+  /** Save the current timeline continues from and its ancestors, parent first */
+  private saveLineage: string[] = [];
+  /** Seed given in the configuration, which takes precedence over a scenario's */
+  private readonly configuredSeed?: string;
+  /** Scenario a fresh world is set up from */
+  private scenario: Scenario | null = null;
+  /** Scheduled systems currently disabled by the scenario in the state */
+  private scenarioDisabledSystems = new Set<string>();
 
   constructor(
     @inject(TYPES.GameState) state: GameState,
@@ -247,14 +324,32 @@ export class SimulationRunner {
     this.state = state;
 
     this.maxCommandQueue = _config?.maxCommandQueue ?? 200;
+    this.deterministic = _config?.deterministic ?? false;
+    this.persistence = _config?.persistence ?? true;
+    this.checksumLog = new ChecksumLog(_config?.checksumHistory ?? 1000);
+    this.checksumInterval = Math.max(1, _config?.checksumInterval ?? 20);
+    this.configuredSeed = _config?.seed;
+
+    if (this.deterministic) {
+      RandomUtils.configureSeed(_config?.seed ?? "0");
+      enableLogicalClock(this.DETERMINISTIC_EPOCH_MS);
+      logger.info(
+        `🎲 Deterministic mode enabled (seed: ${RandomUtils.getSeed()})`,
+      );
+    } else if (_config?.seed !== undefined) {
+      RandomUtils.configureSeed(_config.seed);
+    }
 
-    this.scheduler = new MultiRateScheduler({
-      FAST: 50,
+    this.scheduler = new MultiRateScheduler(
+      {
+        FAST: 50,
 
-      MEDIUM: 250,
+        MEDIUM: 250,
 
-      SLOW: 1000,
-    });
+        SLOW: 1000,
+      },
+      { deterministic: this.deterministic },
+    );
 
     this.metricsCollector = new MetricsCollector();
 
@@ -262,10 +357,16 @@ export class SimulationRunner {
 
     this.worldLoader = new WorldLoader(this);
 
+    this.scenarioLoader = new ScenarioLoader(this);
+
     this.commandProcessor = new CommandProcessor(this);
 
     this.snapshotManager = new SnapshotManager(this);
 
+    this.commandJournal = new CommandJournal(this.persistence);
+
+    this.replayService = new ReplayService(this);
+
     this.scheduleAutoSaves();
   }
 
@@ -281,6 +382,10 @@ export class SimulationRunner {
    * Saves are dispatched asynchronously so the tick loop never blocks.
    */
   private scheduleAutoSaves(): void {
+    // Deterministic runs save from postStep at logical-time intervals instead,
+    // so that the sync done by saveSimulation lands on the same tick every run.
+    if (this.deterministic || !this.persistence) return;
+
     this.autoSaveInterval = setInterval(() => {
       this.saveSimulation().catch((err) => {
         logger.error("Auto-save failed:", err);
@@ -292,10 +397,10 @@ export class SimulationRunner {
    * Saves the current simulation state to storage.
    *
    * @remarks
-   * Clones the authoritative state before persisting it asynchronously via the
-   * storage service. Callers may await the returned promise for logging
-   * purposes, but the simulation loop can safely fire-and-forget without race
-   * conditions because mutation occurs on the cloned snapshot.
+   * The storage service encodes the live state synchronously before its
+   * first await, so no clone is taken and the simulation loop can safely
+   * fire-and-forget: later mutations never reach the stored save. The command
+   * journal is flushed while the save is written.
    *
    * @returns {Promise<void>}
    */
@@ -306,8 +411,6 @@ export class SimulationRunner {
       // AISystem sync is automatic, no longer needed
       this.socialSystem.syncToGameState();
 
-      const stateClone = cloneGameState(this.state);
-
       const saveData = {
         timestamp: Date.now(),
         gameTime: this.timeSystem.getCurrentTime().timestamp,
@@ -318,20 +421,79 @@ export class SimulationRunner {
             : 0,
           cycles: this.tickCounter,
         },
-        state: stateClone,
+        state: this.state,
+        tick: this.tickCounter,
+        clock: this.getClockState(),
+        systems: this.serializeSystemStates(),
+        lineage: this.getSaveLineage(),
       };
 
-      const { saveId, size } = await storageService.saveGame(saveData);
+      const [{ saveId, size, rawSize }] = await Promise.all([
+        storageService.saveGame(saveData),
+        this.commandJournal.flush(),
+      ]);
+      this.continueFromSave(saveId, saveData.lineage);
 
       const duration = performance.now() - startTime;
       logger.info(
-        `💾 Game saved: ${saveId} (${(size / 1024).toFixed(2)} KB) in ${duration.toFixed(2)}ms`,
+        `💾 Game saved: ${saveId} (${(size / 1024).toFixed(2)} KB, ${(rawSize / 1024).toFixed(2)} KB raw) in ${duration.toFixed(2)}ms`,
       );
     } catch (error) {
       logger.error("Failed to save simulation:", error);
     }
   }
 
+  /**
+   * Lineage to record in the next save: the save the current timeline
+   * continues from, then its ancestors.
+   */
+  public getSaveLineage(): string[] {
+    return [...this.saveLineage];
+  }
+
+  /**
+   * Marks the current timeline as continuing from a save, which becomes the
+   * parent of the next one.
+   *
+   * @param saveId - Save just written or loaded
+   * @param lineage - Lineage recorded in that save
+   */
+  public continueFromSave(saveId: string, lineage: string[] = []): void {
+    this.saveLineage = [saveId, ...lineage].slice(0, this.MAX_SAVE_LINEAGE);
+  }
+
+  /**
+   * Serializes the private state of the persistable systems, one versioned
+   * section per system, for `SaveData.systems`.
+   */
+  public serializeSystemStates(): Record<string, PersistedSystemState> {
+    return this.systemStates.serialize();
+  }
+
+  /**
+   * Systems whose private state is stored in saves. Built on first use
+   * because the systems are property-injected after construction.
+   */
+  private get systemStates(): SystemStateRegistry {
+    if (!this.systemStateRegistry) {
+      const registry = new SystemStateRegistry();
+      registry.register(PersistedSystem.AI, this.aiSystem);
+      registry.register(PersistedSystem.COMBAT, this.combatSystem);
+      registry.register(PersistedSystem.MARRIAGE, this.marriageSystem);
+      registry.register(
+        PersistedSystem.RESOURCE_RESERVATION,
+        this.resourceReservationSystem,
+      );
+      registry.register(
+        PersistedSystem.SHARED_KNOWLEDGE,
+        this.sharedKnowledgeSystem,
+      );
+      registry.register(PersistedSystem.RESEARCH, this.researchSystem);
+      this.systemStateRegistry = registry;
+    }
+    return this.systemStateRegistry;
+  }
+
   /**
    * Initializes the simulation runner and all dependent systems.
    *
@@ -372,6 +534,7 @@ export class SimulationRunner {
       aiSystem: this.aiSystem,
       roleSystem: this.roleSystem,
       taskSystem: this.taskSystem,
+      divinePort: this.divineSystem,
     });
 
     this.needsSystem.setDependencies({
@@ -379,6 +542,11 @@ export class SimulationRunner {
 
       inventorySystem: this.inventorySystem,
       socialSystem: this.socialSystem,
+      divinePort: this.divineSystem,
+    });
+
+    this.productionSystem.setDependencies({
+      divinePort: this.divineSystem,
     });
 
     this.aiSystem.setDependencies({
@@ -396,6 +564,9 @@ export class SimulationRunner {
 
     this.eventRegistry.setupEventListeners();
 
+    if (this.scenario) {
+      this.state.scenario = toScenarioState(this.scenario);
+    }
     await this.ensureInitialFamily();
 
     this.syncAllAgentSystems();
@@ -403,6 +574,7 @@ export class SimulationRunner {
     logger.info("📅 SimulationRunner: Registering systems in scheduler...");
     this.registerSystemsInScheduler();
     this.configureSchedulerHooks();
+    this.applyScenarioSystems();
 
     logger.info("✅ SimulationRunner: Initialization completed successfully", {
       agentsCount: this.state.agents.length,
@@ -457,7 +629,7 @@ export class SimulationRunner {
       },
 
       postTickHeavy: () => {
-        const now = Date.now();
+        const now = getSimulationTime();
 
         if (now - this.lastStateSync >= 250) {
           this.syncState();
@@ -466,6 +638,8 @@ export class SimulationRunner {
 
         this.snapshotManager.generateSnapshotThrottled();
 
+        this.commandJournal.maybeFlush();
+
         performanceMonitor.setSchedulerStats(this.scheduler.getStats());
 
         performanceMonitor.setGameLogicStats({
@@ -488,6 +662,25 @@ export class SimulationRunner {
           (this.animalSystem?.getAnimals().size ?? 0)
         );
       },
+
+      postStep: (step: number) => {
+        if (!this.deterministic) return;
+
+        // Hashing the whole state is too costly for every 50 ms step
+        if (step % this.checksumInterval === 0) {
+          this.checksumLog.record(
+            this.tickCounter,
+            computeStateChecksum(this.state),
+          );
+        }
+
+        const autoSaveEvery = this.AUTO_SAVE_INTERVAL_MS / 50;
+        if (this.persistence && step % autoSaveEvery === 0) {
+          this.saveSimulation().catch((err) => {
+            logger.error("Auto-save failed:", err);
+          });
+        }
+      },
     });
   }
 
@@ -510,6 +703,7 @@ export class SimulationRunner {
     registry.register(SystemName.TRADE, this.economySystem);
     registry.register(SystemName.WORLD_QUERY, this.worldQueryService);
     registry.register(SystemName.ROLE, this.roleSystem);
+    registry.register(SystemName.HEALTH, this.healthSystem);
 
     logger.info("🔧 SimulationRunner: Systems registered in SystemRegistry");
   }
@@ -669,6 +863,41 @@ export class SimulationRunner {
       enabled: true,
     });
 
+    this.scheduler.registerSystem({
+      name: "DialogueSystem",
+      rate: TickRate.SLOW,
+      update: () => this.dialogueSystem.update(),
+      enabled: true,
+    });
+
+    this.scheduler.registerSystem({
+      name: "DivineSystem",
+      rate: TickRate.SLOW,
+      update: (delta: number) => this.divineSystem.update(delta),
+      enabled: true,
+    });
+
+    this.scheduler.registerSystem({
+      name: "LegendSystem",
+      rate: TickRate.SLOW,
+      update: (delta: number) => this.legendSystem.update(delta),
+      enabled: true,
+    });
+
+    this.scheduler.registerSystem({
+      name: "HealthSystem",
+      rate: TickRate.SLOW,
+      update: (delta: number) => this.healthSystem.update(delta),
+      enabled: true,
+    });
+
+    this.scheduler.registerSystem({
+      name: "GoalSystem",
+      rate: TickRate.SLOW,
+      update: (delta: number) => this.goalSystem.update(delta),
+      enabled: true,
+    });
+
     this.scheduler.registerSystem({
       name: "ConflictResolutionSystem",
       rate: TickRate.SLOW,
@@ -691,6 +920,13 @@ export class SimulationRunner {
       enabled: true,
     });
 
+    this.scheduler.registerSystem({
+      name: "ResearchSystem",
+      rate: TickRate.SLOW,
+      update: (delta: number) => this.researchSystem.update(delta),
+      enabled: true,
+    });
+
     this.scheduler.registerSystem({
       name: "RecipeDiscoverySystem",
       rate: TickRate.SLOW,
@@ -715,7 +951,7 @@ export class SimulationRunner {
     logger.info("📋 All systems registered in multi-rate scheduler", {
       fast: 2,
       medium: 9,
-      slow: 16,
+      slow: 22,
     });
   }
 
@@ -731,6 +967,64 @@ export class SimulationRunner {
     await this.worldLoader.ensureInitialFamily();
   }
 
+  /**
+   * Sets the scenario a fresh world is set up from. Must be called before
+   * initialize(). The scenario's seed applies unless one was configured.
+   *
+   * @param scenario - Validated scenario
+   */
+  public setScenario(scenario: Scenario): void {
+    this.scenario = scenario;
+    if (
+      scenario.world?.seed !== undefined &&
+      this.configuredSeed === undefined
+    ) {
+      RandomUtils.configureSeed(scenario.world.seed);
+      logger.info(
+        `🎲 Seed set by scenario ${scenario.id}: ${scenario.world.seed}`,
+      );
+    }
+  }
+
+  /**
+   * Returns the scenario a fresh world is set up from, if any.
+   */
+  public getScenario(): Scenario | null {
+    return this.scenario;
+  }
+
+  /**
+   * Spawns the starting population of a fresh world once its terrain is
+   * generated: the scenario's agents, zones, relations and animals, with the
+   * founding family and starter infrastructure for the parts it leaves out.
+   */
+  public async populateWorld(): Promise<void> {
+    if (this.scenario) {
+      await this.scenarioLoader.populate(this.scenario);
+    } else {
+      await this.ensureInitialFamily();
+    }
+  }
+
+  /**
+   * Disables the scheduled systems listed by the scenario in the state and
+   * re-enables those a previous scenario disabled.
+   */
+  private applyScenarioSystems(): void {
+    const disabled = new Set(this.state.scenario?.disabledSystems ?? []);
+    for (const name of this.scenarioDisabledSystems) {
+      if (!disabled.has(name)) this.scheduler.setSystemEnabled(name, true);
+    }
+    for (const name of disabled) {
+      if (this.scenarioDisabledSystems.has(name)) continue;
+      if (!this.scheduler.setSystemEnabled(name, false)) {
+        logger.warn(`⚠️ Scenario disables unknown system "${name}"`);
+        disabled.delete(name);
+      }
+    }
+    this.scenarioDisabledSystems = disabled;
+  }
+
   /**
    * Synchronizes all agent-related systems with the current gameState agents.
    * Call this after loading a saved state to ensure all agents have their
@@ -792,6 +1086,8 @@ export class SimulationRunner {
     height: number;
     tileSize: number;
     biomeMap: string[][];
+    /** Seed of the terrain noise (default: 12345) */
+    seed?: number;
   }): Promise<void> {
     await this.worldLoader.initializeWorldResources(worldConfig);
 
@@ -799,7 +1095,7 @@ export class SimulationRunner {
       width: worldConfig.width,
       height: worldConfig.height,
       tileSize: worldConfig.tileSize,
-      seed: 12345,
+      seed: worldConfig.seed ?? 12345,
       noise: {
         temperature: {
           scale: 0.0005,
@@ -824,6 +1120,7 @@ export class SimulationRunner {
   }
 
   private gpuStatsInterval?: NodeJS.Timeout;
+  private paused = false;
 
   /**
    * Starts the simulation using the multi-rate scheduler.
@@ -852,6 +1149,7 @@ export class SimulationRunner {
     if (this.scheduler) {
       this.scheduler.stop();
     }
+    this.paused = false;
 
     if (this.tickHandle) {
       clearInterval(this.tickHandle);
@@ -870,6 +1168,316 @@ export class SimulationRunner {
 
     this.snapshotManager.cleanup();
     this.eventRegistry.cleanup();
+
+    if (this.deterministic) {
+      disableLogicalClock();
+    }
+  }
+
+  /**
+   * Pauses the tick loop, waiting for a tick in progress to finish. Commands
+   * keep queueing and auto-saves keep running while paused.
+   *
+   * @returns False if the simulation was not running
+   */
+  public async pause(): Promise<boolean> {
+    const wasRunning = await this.scheduler.pause();
+    if (wasRunning) this.paused = true;
+    return wasRunning;
+  }
+
+  /**
+   * Resumes a simulation paused with `pause()`.
+   *
+   * @returns False if the simulation was not paused
+   */
+  public resume(): boolean {
+    if (!this.paused) return false;
+    this.paused = false;
+    this.scheduler.start();
+    return true;
+  }
+
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Whether the runner was configured for deterministic execution.
+   */
+  public isDeterministic(): boolean {
+    return this.deterministic;
+  }
+
+  /**
+   * Returns the base RNG seed, or null when running unseeded.
+   */
+  public getSeed(): string | null {
+    return RandomUtils.getSeed();
+  }
+
+  /**
+   * Records a command in the journal as it is applied.
+   * Called by the CommandProcessor right before dispatching.
+   *
+   * @param command - Command being applied on the current tick
+   */
+  public recordAppliedCommand(command: SimulationCommand): void {
+    this.commandJournal.record(this.tickCounter, command);
+  }
+
+  /**
+   * Returns journaled commands applied after `fromTick` up to `toTick`.
+   *
+   * @param fromTick - Lower bound (exclusive)
+   * @param toTick - Upper bound (inclusive)
+   */
+  public getJournalEntries(
+    fromTick: number,
+    toTick: number,
+  ): CommandJournalEntry[] {
+    return this.commandJournal.getEntriesBetween(fromTick, toTick);
+  }
+
+  /**
+   * Captures the runtime clock stored alongside saves.
+   */
+  public getClockState(): SimulationClockState {
+    return {
+      tick: this.tickCounter,
+      step: this.scheduler.getStepCount(),
+      logicalTime: isLogicalClockEnabled() ? getFrameTime() : undefined,
+      rng: RandomUtils.exportState() ?? undefined,
+      deterministic: this.deterministic,
+    };
+  }
+
+  /**
+   * Restores runtime bookkeeping after a save has been loaded into the state,
+   * or prepares a fresh timeline when booting without a save.
+   *
+   * - Loads the persisted command journal and discards entries recorded after
+   *   the save (they belong to an abandoned timeline)
+   * - Restores the tick counter, scheduler step and, in deterministic mode,
+   *   the logical clock and RNG streams
+   * - Imports tasks and marriages from the state and restores the private
+   *   state of the persistable systems
+   * - Disables the scheduled systems the save's scenario leaves out
+   *
+   * Must be called before start().
+   *
+   * @param save - Loaded save, or null for a fresh world
+   * @param saveId - ID of the loaded save, recorded as the next save's parent
+   */
+  public async restoreRuntime(
+    save: SaveData | null,
+    saveId?: string,
+  ): Promise<void> {
+    if (!save) {
+      this.saveLineage = [];
+      if (this.persistence) {
+        await storageService.clearJournal();
+      }
+      return;
+    }
+
+    if (saveId) this.continueFromSave(saveId, save.lineage);
+    this.restoreClock(save);
+    this.taskSystem.importFromGameState(this.state.tasks);
+    this.marriageSystem.importFromGameState(this.state.marriage);
+    this.restoreSystemStates(save);
+    this.applyScenarioSystems();
+    await this.commandJournal.load();
+    await this.commandJournal.rewindTo(this.tickCounter);
+    logger.info(`⏱️ Runtime restored at tick ${this.tickCounter}`);
+  }
+
+  /**
+   * Whether a save is being loaded into the simulation right now.
+   */
+  public isLoadingSave(): boolean {
+    return this.loadInProgress;
+  }
+
+  /**
+   * Loads a save into the running simulation without restarting the process.
+   *
+   * Pauses the scheduler (waiting for the tick in progress), replaces the
+   * state contents in place, clears and rebuilds the registries, indices and
+   * system maps derived from them, restores the runtime clock and the
+   * persistable systems' private state, and resumes.
+   * Queued commands targeted the previous world and are dropped. Emits
+   * `stateLoaded` with the result so stream clients start over from a full
+   * snapshot.
+   *
+   * @param saveId - Save to load
+   * @returns Load result, or null if the save does not exist or has no state
+   * @throws Error if another load is in progress
+   */
+  public async loadSave(saveId: string): Promise<SaveLoadResult | null> {
+    if (this.loadInProgress) {
+      throw new Error("A save is already being loaded");
+    }
+    this.loadInProgress = true;
+    const startTime = performance.now();
+
+    try {
+      const save = await storageService.getSave(saveId);
+      if (!save?.state) return null;
+
+      const wasRunning = await this.scheduler.pause();
+      let droppedCommands: number;
+      try {
+        droppedCommands = this.replaceState(save.state as GameState);
+        this.continueFromSave(saveId, save.lineage);
+        this.restoreClock(save);
+        await this.ensureInitialFamily();
+        this.syncAllAgentSystems();
+        this.restoreSystemStates(save);
+        this.applyScenarioSystems();
+        await this.commandJournal.flush();
+        await this.commandJournal.rewindTo(this.tickCounter);
+      } finally {
+        if (wasRunning) this.scheduler.start();
+      }
+
+      const result: SaveLoadResult = {
+        saveId,
+        tick: this.tickCounter,
+        agentCount: this.state.agents.length,
+        droppedCommands,
+        durationMs: performance.now() - startTime,
+      };
+      logger.info(
+        `📂 Save ${saveId} loaded at tick ${result.tick} in ${result.durationMs.toFixed(2)}ms`,
+      );
+      this.emitter.emit("stateLoaded", result);
+      return result;
+    } finally {
+      this.loadInProgress = false;
+    }
+  }
+
+  /**
+   * Restores the tick counter, scheduler step and, in deterministic mode,
+   * the logical clock and RNG streams from a save.
+   */
+  private restoreClock(save: SaveData): void {
+    const clock = save.clock;
+    this.tickCounter = clock?.tick ?? save.tick ?? 0;
+    if (clock) {
+      this.scheduler.restoreStepCount(clock.step);
+      if (this.deterministic) {
+        if (clock.logicalTime !== undefined) {
+          enableLogicalClock(clock.logicalTime);
+        }
+        if (clock.rng) {
+          RandomUtils.importState(clock.rng);
+        }
+      }
+    }
+  }
+
+  /**
+   * Hands each persistable system its section of the save; systems without
+   * one are cleared.
+   */
+  private restoreSystemStates(save: SaveData): void {
+    const restored = this.systemStates.restore(save.systems);
+    logger.info(
+      `🧩 System state restored for: ${restored.join(", ") || "none"}`,
+    );
+  }
+
+  /**
+   * Swaps the contents of the live state for a loaded one and rebuilds what
+   * was derived from the previous contents: per-agent system maps, the
+   * animal registry, tasks, marriages, the entity and spatial indices and
+   * the snapshot cache. The state object itself is kept because every
+   * system holds a reference to it.
+   *
+   * @returns Number of queued commands dropped
+   */
+  private replaceState(next: GameState): number {
+    for (const agent of this.state.agents ?? []) {
+      this.needsSystem.removeEntityNeeds(agent.id);
+      this.aiSystem.clearAgent(agent.id);
+      this.movementSystem.removeEntityMovement(agent.id);
+      this.inventorySystem.removeAgentInventory(agent.id);
+    }
+
+    const current = this.state as unknown as Record<string, unknown>;
+    for (const key of Object.keys(current)) {
+      delete current[key];
+    }
+    Object.assign(this.state, next);
+
+    this.animalRegistry.clear();
+    this.animalRegistry.importFromGameState(this.state.animals?.animals ?? []);
+    this.taskSystem.importFromGameState(this.state.tasks);
+    this.marriageSystem.importFromGameState(this.state.marriage);
+
+    this.agentRegistry.rebuildProfileIndex();
+    this.entityIndex.markDirty();
+    this.entityIndex.rebuild(this.state);
+    this.entityIndex.syncAgentsToEntities(this.state);
+    this.sharedSpatialIndex.clear();
+    this.sharedSpatialIndex.rebuildIfNeeded(
+      this.state.entities || [],
+      this.animalSystem.getAnimals(),
+    );
+
+    this.snapshotManager.cleanup();
+    this.capturedEvents = [];
+    return this.commands.splice(0).length;
+  }
+
+  /**
+   * Rebuilds the simulation state at a past tick from the nearest save and
+   * the command journal, without touching the live simulation.
+   *
+   * @param tick - Target tick (must not exceed the current tick)
+   * @returns Replay result, or null when no save exists at or before the tick
+   */
+  public replayToTick(tick: number): Promise<ReplayResult | null> {
+    return this.replayService.replayToTick(tick);
+  }
+
+  /**
+   * Advances the simulation by a number of FAST steps without waiting for
+   * wall-clock intervals. Intended for deterministic runs, tests and tools;
+   * should not be mixed with a running scheduler.
+   *
+   * @param count - Number of FAST steps to run
+   * @returns Tick counter after the last step
+   */
+  public async advanceSteps(count = 1): Promise<number> {
+    for (let i = 0; i < count; i++) {
+      await this.scheduler.step();
+    }
+    return this.tickCounter;
+  }
+
+  /**
+   * Computes the checksum of the current game state.
+   *
+   * @returns Current tick and its state checksum
+   */
+  public getStateChecksum(): TickChecksum {
+    return {
+      tick: this.tickCounter,
+      checksum: computeStateChecksum(this.state),
+    };
+  }
+
+  /**
+   * Returns per-tick checksums recorded in deterministic mode.
+   *
+   * @param fromTick - First tick (inclusive)
+   * @param toTick - Last tick (inclusive)
+   */
+  public getTickChecksums(fromTick?: number, toTick?: number): TickChecksum[] {
+    return this.checksumLog.range(fromTick, toTick);
   }
 
   /**
@@ -981,7 +1589,8 @@ export class SimulationRunner {
    *
    * Searches across multiple entity types: agents, animals, zones (buildings),
    * and world resources. Returns comprehensive data including needs, inventory,
-   * social connections, and AI state for agents.
+   * social connections, legend record, health, AI state and recent AI
+   * decisions (with their scored candidates) for agents.
    *
    * @param entityId - ID of the entity to retrieve
    * @returns Entity details object or null if not found
@@ -995,6 +1604,9 @@ export class SimulationRunner {
       const social = this.socialSystem.getSocialConnections(entityId);
       const activeTask = this.aiSystem.getActiveTask(entityId);
       const pendingTasks = this.aiSystem.getPendingTasks(entityId);
+      const legend = this.legendSystem.getRecord(entityId) ?? null;
+      const health = this.healthSystem.getHealthDetails(entityId);
+      const decisions = this.aiSystem.getDecisionTraces(entityId);
 
       return {
         type: EntityType.AGENT,
@@ -1003,6 +1615,8 @@ export class SimulationRunner {
         role,
         inventory,
         social,
+        legend,
+        health,
         ai: activeTask
           ? {
               currentGoal: activeTask,
@@ -1012,9 +1626,10 @@ export class SimulationRunner {
                 target: activeTask.target,
               },
               offDuty: false,
-              lastDecisionTime: Date.now(),
+              lastDecisionTime: getSimulationTime(),
             }
           : null,
+        decisions,
       };
     }
 
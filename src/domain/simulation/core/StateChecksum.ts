@@ -0,0 +1,202 @@
+import { createHash } from "node:crypto";
+import type { GameState } from "@/shared/types/game-types";
+
+/**
+ * Checksum recorded for a single simulation tick.
+ */
+export interface TickChecksum {
+  tick: number;
+  checksum: string;
+}
+
+/**
+ * First point where two checksum sequences disagree.
+ * `expected` or `actual` is undefined when one sequence has no entry for the tick.
+ */
+export interface ChecksumDivergence {
+  tick: number;
+  expected?: string;
+  actual?: string;
+}
+
+/**
+ * GameState sections excluded from checksums.
+ * They are generated once from the map seed and never mutated by systems,
+ * and hashing them every tick would dominate the cost.
+ */
+const EXCLUDED_SECTIONS = new Set<string>([
+  "world",
+  "terrainTiles",
+  "objectLayers",
+  "roads",
+]);
+
+/**
+ * Serializes a value with sorted object keys so that property insertion
+ * order does not change the output. Maps are written as sorted entry lists,
+ * Sets as sorted value lists, and undefined/function values are skipped.
+ *
+ * @param value - Value to serialize
+ * @returns Canonical string representation
+ */
+export function canonicalStringify(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "null";
+  }
+
+  switch (typeof value) {
+    case "number":
+      return Number.isFinite(value) ? String(value) : `"${String(value)}"`;
+    case "string":
+      return JSON.stringify(value);
+    case "boolean":
+      return value ? "true" : "false";
+    case "bigint":
+      return `"${value.toString()}n"`;
+    case "function":
+    case "symbol":
+      return "null";
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalStringify(item)).join(",")}]`;
+  }
+
+  if (value instanceof Map) {
+    const entries = Array.from(value.entries()).map(
+      ([key, entry]) =>
+        `[${canonicalStringify(key)},${canonicalStringify(entry)}]`,
+    );
+    entries.sort();
+    return `{"$map":[${entries.join(",")}]}`;
+  }
+
+  if (value instanceof Set) {
+    const items = Array.from(value.values()).map((item) =>
+      canonicalStringify(item),
+    );
+    items.sort();
+    return `{"$set":[${items.join(",")}]}`;
+  }
+
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+
+  const record = value as Record<string, unknown>;
+  const parts: string[] = [];
+  for (const key of Object.keys(record).sort()) {
+    const entry = record[key];
+    if (entry === undefined || typeof entry === "function") continue;
+    parts.push(`${JSON.stringify(key)}:${canonicalStringify(entry)}`);
+  }
+  return `{${parts.join(",")}}`;
+}
+
+/**
+ * Computes a SHA-256 checksum of the mutable parts of the game state.
+ *
+ * @param state - Game state to hash
+ * @returns Hex-encoded checksum
+ */
+export function computeStateChecksum(state: GameState): string {
+  const hash = createHash("sha256");
+  const record = state as unknown as Record<string, unknown>;
+
+  for (const key of Object.keys(record).sort()) {
+    if (EXCLUDED_SECTIONS.has(key)) continue;
+    const section = record[key];
+    if (section === undefined || typeof section === "function") continue;
+    hash.update(JSON.stringify(key));
+    hash.update(":");
+    hash.update(canonicalStringify(section));
+    hash.update(";");
+  }
+
+  return hash.digest("hex");
+}
+
+/**
+ * Finds the first tick where two checksum sequences differ.
+ * Only ticks present in both sequences are compared, so a partial
+ * sequence recorded by a client can be verified against the server log.
+ *
+ * @param expected - Reference checksums
+ * @param actual - Checksums to verify
+ * @returns First divergence, or null when all shared ticks match
+ */
+export function findFirstDivergence(
+  expected: TickChecksum[],
+  actual: TickChecksum[],
+): ChecksumDivergence | null {
+  const actualByTick = new Map<number, string>();
+  for (const entry of actual) {
+    actualByTick.set(entry.tick, entry.checksum);
+  }
+
+  const sorted = [...expected].sort((a, b) => a.tick - b.tick);
+  for (const entry of sorted) {
+    const other = actualByTick.get(entry.tick);
+    if (other !== undefined && other !== entry.checksum) {
+      return { tick: entry.tick, expected: entry.checksum, actual: other };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Bounded, tick-ordered log of state checksums.
+ */
+export class ChecksumLog {
+  private entries: TickChecksum[] = [];
+
+  /**
+   * @param capacity - Maximum number of checksums kept (oldest are dropped)
+   */
+  constructor(private readonly capacity = 1000) {}
+
+  /**
+   * Records a checksum, replacing any previous entry for ticks at or after it.
+   */
+  public record(tick: number, checksum: string): void {
+    while (
+      this.entries.length > 0 &&
+      this.entries[this.entries.length - 1].tick >= tick
+    ) {
+      this.entries.pop();
+    }
+    this.entries.push({ tick, checksum });
+    if (this.entries.length > this.capacity) {
+      this.entries.splice(0, this.entries.length - this.capacity);
+    }
+  }
+
+  /**
+   * Returns the checksum recorded for a tick, if still retained.
+   */
+  public get(tick: number): string | undefined {
+    return this.entries.find((entry) => entry.tick === tick)?.checksum;
+  }
+
+  /**
+   * Returns checksums in the inclusive tick range.
+   */
+  public range(fromTick = 0, toTick = Number.MAX_SAFE_INTEGER): TickChecksum[] {
+    return this.entries.filter(
+      (entry) => entry.tick >= fromTick && entry.tick <= toTick,
+    );
+  }
+
+  public latest(): TickChecksum | undefined {
+    return this.entries[this.entries.length - 1];
+  }
+
+  public clear(): void {
+    this.entries = [];
+  }
+
+  public size(): number {
+    return this.entries.length;
+  }
+}
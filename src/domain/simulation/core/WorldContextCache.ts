@@ -3,6 +3,7 @@ import type { GameState, Zone } from "@/shared/types/game-types";
 import { ZoneType } from "@/shared/constants/ZoneEnums";
 import { TYPES } from "@/config/Types";
 import { InventorySystem } from "../../systems/economy/InventorySystem";
+import { getSimulationTime } from "../../../shared/FrameTime";
 
 type InventoryTotals = {
   wood: number;
@@ -70,7 +71,7 @@ export class WorldContextCache {
   ) {}
 
   public getInventoryStats(): InventoryTotalsSnapshot {
-    const now = Date.now();
+    const now = getSimulationTime();
     if (
       !this.inventoryCache ||
       now - this.inventoryCache.timestamp > this.INVENTORY_TTL
@@ -90,7 +91,7 @@ export class WorldContextCache {
   }
 
   public getZonesMetadata(): ZonesMetadata {
-    const now = Date.now();
+    const now = getSimulationTime();
     if (!this.zonesCache || now - this.zonesCache.timestamp > this.ZONE_TTL) {
       this.zonesCache = {
         data: this.computeZonesMetadata(),
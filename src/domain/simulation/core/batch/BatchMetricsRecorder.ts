@@ -0,0 +1,139 @@
+import type { EventEmitter } from "node:events";
+import { GameEventType } from "../../../../shared/constants/EventEnums";
+import type { GameState } from "../../../../shared/types/game-types";
+import type {
+  BatchGoalsSample,
+  BatchSample,
+} from "../../../../shared/types/simulation/batch";
+import type { GoalsState } from "../../../../shared/types/simulation/goals";
+import type { EntityNeedsData } from "../../../../shared/types/simulation/needs";
+
+/**
+ * Collects the metrics of a batch run.
+ *
+ * Births, deaths and combat engagements are counted from the event bus while
+ * attached; population, needs and resource stocks are read from the state
+ * when sampling. Deaths are counted once per agent: NeedsSystem and
+ * LifeCycleSystem both announce the same death. The founders of a fresh
+ * world are announced as births on the first tick and are not counted.
+ * The scenario outcome is read from `state.goals` when present.
+ */
+export class BatchMetricsRecorder {
+  private conflicts = 0;
+  private readonly founders = new Set<string>();
+  private readonly born = new Set<string>();
+  private readonly dead = new Set<string>();
+  private readonly samples: BatchSample[] = [];
+
+  private readonly onBirth = (data: { entityId?: string }): void => {
+    const id = data?.entityId;
+    if (id && !this.founders.has(id)) this.born.add(id);
+  };
+
+  private readonly onDeath = (data: {
+    agentId?: string;
+    entityId?: string;
+  }): void => {
+    const id = data?.agentId ?? data?.entityId;
+    if (id) this.dead.add(id);
+  };
+
+  private readonly onCombat = (): void => {
+    this.conflicts++;
+  };
+
+  constructor(private readonly events: EventEmitter) {}
+
+  /**
+   * Starts counting events.
+   *
+   * @param founders - IDs of the agents the run starts with
+   */
+  public attach(founders: Iterable<string> = []): void {
+    for (const id of founders) this.founders.add(id);
+    this.events.on(GameEventType.AGENT_BIRTH, this.onBirth);
+    this.events.on(GameEventType.AGENT_DEATH, this.onDeath);
+    this.events.on(GameEventType.COMBAT_ENGAGED, this.onCombat);
+  }
+
+  public detach(): void {
+    this.events.off(GameEventType.AGENT_BIRTH, this.onBirth);
+    this.events.off(GameEventType.AGENT_DEATH, this.onDeath);
+    this.events.off(GameEventType.COMBAT_ENGAGED, this.onCombat);
+  }
+
+  /**
+   * Records the metrics at a tick.
+   *
+   * @param tick - Current tick
+   * @param state - Current game state
+   * @param needs - Needs of every entity, living or not
+   */
+  public sample(
+    tick: number,
+    state: GameState,
+    needs: Map<string, EntityNeedsData>,
+  ): BatchSample {
+    const living = state.agents.filter((agent) => !agent.isDead);
+    const sample: BatchSample = {
+      tick,
+      population: living.length,
+      births: this.born.size,
+      deaths: this.dead.size,
+      conflicts: this.conflicts,
+      needs: averageNeeds(
+        living
+          .map((agent) => needs.get(agent.id))
+          .filter((n) => n !== undefined),
+      ),
+      resources: resourceStocks(state),
+    };
+    if (state.goals) sample.goals = goalsOutcome(state.goals);
+    this.samples.push(sample);
+    return sample;
+  }
+
+  public getSamples(): BatchSample[] {
+    return [...this.samples];
+  }
+}
+
+function averageNeeds(entries: EntityNeedsData[]): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const needs of entries) {
+    for (const [key, value] of Object.entries(needs)) {
+      if (typeof value === "number") totals[key] = (totals[key] ?? 0) + value;
+    }
+  }
+  for (const key of Object.keys(totals)) {
+    totals[key] /= entries.length;
+  }
+  return totals;
+}
+
+function goalsOutcome(goals: GoalsState): BatchGoalsSample {
+  const victory = goals.goals.filter((goal) => goal.kind === "victory");
+  return {
+    won: goals.status === "won" ? 1 : 0,
+    lost: goals.status === "lost" ? 1 : 0,
+    progress:
+      victory.length === 0
+        ? 0
+        : victory.reduce((sum, goal) => sum + goal.progress, 0) /
+          victory.length,
+  };
+}
+
+function resourceStocks(state: GameState): Record<string, number> {
+  const stocks: Record<string, number> = {};
+  for (const [key, value] of Object.entries(state.resources?.materials ?? {})) {
+    if (typeof value === "number") stocks[key] = value;
+  }
+  if (typeof state.resources?.energy === "number") {
+    stocks.energy = state.resources.energy;
+  }
+  if (typeof state.resources?.currency === "number") {
+    stocks.currency = state.resources.currency;
+  }
+  return stocks;
+}
@@ -0,0 +1,109 @@
+import "reflect-metadata";
+import { parentPort, workerData } from "node:worker_threads";
+import { performance } from "node:perf_hooks";
+import { container } from "../../../../config/container";
+import { TYPES } from "../../../../config/Types";
+import { WorkerMessageType } from "../../../../shared/constants/WebSocketEnums";
+import type { SimulationConfig } from "../../../../shared/types/commands/SimulationCommand";
+import type {
+  BatchRunOptions,
+  BatchRunResult,
+} from "../../../../shared/types/simulation/batch";
+import type { NeedsSystem } from "../../systems/agents/needs/NeedsSystem";
+import { simulationEvents } from "../events";
+import type { SimulationRunner } from "../SimulationRunner";
+import { prepareFreshWorld } from "../worlds/bootstrap";
+import { BatchMetricsRecorder } from "./BatchMetricsRecorder";
+
+/**
+ * Message a batch run worker posts when it is done.
+ */
+export interface BatchRunWorkerResponse {
+  type: WorkerMessageType.RESULT;
+  ok: boolean;
+  result?: BatchRunResult;
+  error?: string;
+}
+
+/**
+ * Worker thread running one headless batch run.
+ *
+ * Like the replay worker, it gets private copies of the container, event bus,
+ * RNG streams and logical clock, so runs with different seeds can share a
+ * process. The run is deterministic and never persisted: a fresh world is
+ * generated from the seed and stepped as fast as possible, without starting
+ * the wall-clock scheduler.
+ */
+async function run(options: BatchRunOptions): Promise<BatchRunResult> {
+  const start = performance.now();
+
+  container
+    .rebindSync<Partial<SimulationConfig>>(TYPES.SimulationConfig)
+    .toConstantValue({
+      deterministic: true,
+      seed: options.seed,
+      persistence: false,
+    });
+
+  const runner = container.get<SimulationRunner>(TYPES.SimulationRunner);
+  const needsSystem = container.get<NeedsSystem>(TYPES.NeedsSystem);
+  if (options.scenario) runner.setScenario(options.scenario);
+  await runner.initialize();
+  await prepareFreshWorld(runner, {
+    width: options.width,
+    height: options.height,
+  });
+
+  const recorder = new BatchMetricsRecorder(simulationEvents);
+  recorder.attach(runner.state.agents.map((agent) => agent.id));
+  try {
+    const sample = (): void => {
+      recorder.sample(
+        runner.getTickCounter(),
+        runner.state,
+        needsSystem.getAllNeeds(),
+      );
+    };
+
+    const firstTick = runner.getTickCounter();
+    const lastTick = firstTick + options.ticks;
+    let nextSample = firstTick + options.sampleEvery;
+    sample();
+    while (runner.getTickCounter() < lastTick) {
+      await runner.advanceSteps(1);
+      const tick = runner.getTickCounter();
+      if (tick >= nextSample || tick >= lastTick) {
+        sample();
+        nextSample = tick + options.sampleEvery;
+      }
+    }
+
+    return {
+      seed: options.seed,
+      ticks: options.ticks,
+      durationMs: performance.now() - start,
+      samples: recorder.getSamples(),
+    };
+  } finally {
+    recorder.detach();
+    runner.stop();
+  }
+}
+
+run(workerData as BatchRunOptions)
+  .then((result) => {
+    const response: BatchRunWorkerResponse = {
+      type: WorkerMessageType.RESULT,
+      ok: true,
+      result,
+    };
+    parentPort?.postMessage(response);
+  })
+  .catch((error: unknown) => {
+    const response: BatchRunWorkerResponse = {
+      type: WorkerMessageType.RESULT,
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+    parentPort?.postMessage(response);
+  });
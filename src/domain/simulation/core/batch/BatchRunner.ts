@@ -0,0 +1,112 @@
+import type { Worker } from "node:worker_threads";
+import type {
+  BatchRunOptions,
+  BatchRunResult,
+} from "../../../../shared/types/simulation/batch";
+import { spawnModuleWorker } from "../runner/moduleWorker";
+import type { BatchRunWorkerResponse } from "./BatchRunWorker";
+
+/**
+ * Starts the thread of a run. Replaceable in tests.
+ */
+export type BatchRunWorkerFactory = (
+  options: BatchRunOptions,
+  verbose: boolean,
+) => Worker;
+
+export interface BatchRunnerOptions {
+  /** Runs in flight at once */
+  parallel: number;
+  /** Pass the runs' simulation logs through to this process */
+  verbose?: boolean;
+  /** Called as each run finishes, in completion order */
+  onRunComplete?: (result: BatchRunResult) => void;
+}
+
+const spawnBatchRunWorker: BatchRunWorkerFactory = (options, verbose) => {
+  const worker = spawnModuleWorker("./BatchRunWorker", import.meta.url, {
+    name: `batch-${options.seed}`,
+    workerData: options,
+    stdout: !verbose,
+    stderr: !verbose,
+  });
+  if (!verbose) {
+    worker.stdout.resume();
+    worker.stderr.resume();
+  }
+  return worker;
+};
+
+/**
+ * Runs headless simulations, one worker per seed, at most `parallel` at a
+ * time.
+ *
+ * @param runs - Settings of every run
+ * @param options - Pool settings
+ * @returns Results in the order of `runs`
+ * @throws Error from the first run that fails; runs in flight are awaited
+ */
+export async function runBatch(
+  runs: BatchRunOptions[],
+  options: BatchRunnerOptions,
+  createWorker: BatchRunWorkerFactory = spawnBatchRunWorker,
+): Promise<BatchRunResult[]> {
+  const results = new Array<BatchRunResult>(runs.length);
+  let next = 0;
+  let failure: Error | null = null;
+
+  const lane = async (): Promise<void> => {
+    while (next < runs.length && !failure) {
+      const index = next++;
+      try {
+        results[index] = await runInWorker(
+          runs[index],
+          options.verbose ?? false,
+          createWorker,
+        );
+        options.onRunComplete?.(results[index]);
+      } catch (error) {
+        failure ??= error instanceof Error ? error : new Error(String(error));
+      }
+    }
+  };
+
+  const lanes = Math.max(1, Math.min(options.parallel, runs.length));
+  await Promise.all(Array.from({ length: lanes }, () => lane()));
+  if (failure) throw failure;
+  return results;
+}
+
+function runInWorker(
+  run: BatchRunOptions,
+  verbose: boolean,
+  createWorker: BatchRunWorkerFactory,
+): Promise<BatchRunResult> {
+  const worker = createWorker(run, verbose);
+
+  return new Promise<BatchRunResult>((resolve, reject) => {
+    let settled = false;
+    const settle = (error: Error | null, result?: BatchRunResult): void => {
+      if (settled) return;
+      settled = true;
+      void worker.terminate();
+      if (error || !result) {
+        reject(error ?? new Error(`Run ${run.seed} returned no result`));
+      } else {
+        resolve(result);
+      }
+    };
+
+    worker.on("message", (response: BatchRunWorkerResponse) => {
+      if (response.ok && response.result) {
+        settle(null, response.result);
+      } else {
+        settle(new Error(`Run ${run.seed} failed: ${response.error}`));
+      }
+    });
+    worker.on("error", (error: Error) => settle(error));
+    worker.on("exit", (code) => {
+      settle(new Error(`Run ${run.seed} worker exited with code ${code}`));
+    });
+  });
+}
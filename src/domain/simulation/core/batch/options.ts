@@ -0,0 +1,210 @@
+import type { BatchRunOptions } from "../../../../shared/types/simulation/batch";
+import type { Scenario } from "../../../../shared/types/simulation/scenario";
+
+/** Output files a batch writes */
+export type BatchOutputFormat = "csv" | "json" | "both";
+
+/**
+ * Flags of the batch command line, unvalidated except for types.
+ */
+export interface BatchCliArgs {
+  ticks?: number;
+  seeds?: string[];
+  seed?: string;
+  runs?: number;
+  width?: number;
+  height?: number;
+  sampleEvery?: number;
+  parallel?: number;
+  scenario?: string;
+  out?: string;
+  format?: BatchOutputFormat;
+  baseline?: string;
+  verbose: boolean;
+  help: boolean;
+}
+
+/**
+ * Everything a batch needs to run, after merging flags over the scenario.
+ */
+export interface BatchPlan {
+  /** ID of the scenario */
+  scenario: string | null;
+  runs: BatchRunOptions[];
+  parallel: number;
+  out: string;
+  format: BatchOutputFormat;
+  baseline: string | null;
+  verbose: boolean;
+}
+
+const DEFAULTS = {
+  seed: "batch",
+  runs: 1,
+  ticks: 1000,
+  width: 128,
+  height: 128,
+  sampleEvery: 20,
+  out: "batch-results",
+  format: "both" as BatchOutputFormat,
+};
+
+/** Largest world side accepted, in tiles */
+const MAX_WORLD_SIZE = 1024;
+
+const NUMBER_FLAGS = [
+  "ticks",
+  "runs",
+  "width",
+  "height",
+  "sample-every",
+  "parallel",
+] as const;
+
+/**
+ * Parses `--flag value` pairs.
+ *
+ * @throws Error on unknown flags, missing values or non-numeric numbers
+ */
+export function parseBatchArgs(argv: string[]): BatchCliArgs {
+  const args: BatchCliArgs = { verbose: false, help: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    if (flag === "--verbose") {
+      args.verbose = true;
+      continue;
+    }
+    if (flag === "--help" || flag === "-h") {
+      args.help = true;
+      continue;
+    }
+    if (!flag.startsWith("--")) {
+      throw new Error(`Unexpected argument "${flag}"`);
+    }
+
+    const name = flag.slice(2);
+    const value = argv[i + 1];
+    if (value === undefined || value.startsWith("--")) {
+      throw new Error(`Missing value for ${flag}`);
+    }
+    i++;
+
+    if ((NUMBER_FLAGS as readonly string[]).includes(name)) {
+      const number = Number(value);
+      if (!Number.isFinite(number)) {
+        throw new Error(`${flag} must be a number`);
+      }
+      const key = name === "sample-every" ? "sampleEvery" : name;
+      (args as unknown as Record<string, number>)[key] = number;
+      continue;
+    }
+
+    switch (name) {
+      case "seeds":
+        args.seeds = value
+          .split(",")
+          .map((seed) => seed.trim())
+          .filter((seed) => seed.length > 0);
+        break;
+      case "seed":
+        args.seed = value;
+        break;
+      case "scenario":
+        args.scenario = value;
+        break;
+      case "out":
+        args.out = value;
+        break;
+      case "baseline":
+        args.baseline = value;
+        break;
+      case "format":
+        if (value !== "csv" && value !== "json" && value !== "both") {
+          throw new Error("--format must be csv, json or both");
+        }
+        args.format = value;
+        break;
+      default:
+        throw new Error(`Unknown flag ${flag}`);
+    }
+  }
+
+  return args;
+}
+
+/**
+ * Merges the flags over the scenario and defaults into the runs to execute.
+ * The scenario contributes its world size, its seed as the base seed and
+ * its `batch` section. Explicit seeds win over `runs`; otherwise seeds are
+ * `<seed>-1` to `<seed>-<runs>`, or just `<seed>` for a single run.
+ *
+ * @param args - Parsed flags
+ * @param scenario - Scenario given with `--scenario`, if any
+ * @param cpuCount - Default parallelism
+ * @throws Error if a setting is out of range
+ */
+export function resolveBatchPlan(
+  args: BatchCliArgs,
+  scenario: Scenario | null,
+  cpuCount: number,
+): BatchPlan {
+  const ticks = args.ticks ?? scenario?.batch?.ticks ?? DEFAULTS.ticks;
+  const width = args.width ?? scenario?.world?.width ?? DEFAULTS.width;
+  const height = args.height ?? scenario?.world?.height ?? DEFAULTS.height;
+  const sampleEvery =
+    args.sampleEvery ?? scenario?.batch?.sampleEvery ?? DEFAULTS.sampleEvery;
+  const parallel = args.parallel ?? cpuCount;
+
+  requirePositiveInteger("ticks", ticks);
+  requirePositiveInteger("sample-every", sampleEvery);
+  requirePositiveInteger("parallel", parallel);
+  for (const [name, size] of [
+    ["width", width],
+    ["height", height],
+  ] as const) {
+    requirePositiveInteger(name, size);
+    if (size > MAX_WORLD_SIZE) {
+      throw new Error(`${name} must be at most ${MAX_WORLD_SIZE}`);
+    }
+  }
+
+  const seeds = resolveSeeds(args, scenario);
+  return {
+    scenario: scenario?.id ?? null,
+    runs: seeds.map((seed) => {
+      const run: BatchRunOptions = { seed, ticks, width, height, sampleEvery };
+      if (scenario) run.scenario = scenario;
+      return run;
+    }),
+    parallel,
+    out: args.out ?? DEFAULTS.out,
+    format: args.format ?? DEFAULTS.format,
+    baseline: args.baseline ?? null,
+    verbose: args.verbose,
+  };
+}
+
+function resolveSeeds(args: BatchCliArgs, scenario: Scenario | null): string[] {
+  const explicit =
+    args.seeds ?? (args.runs ? undefined : scenario?.batch?.seeds);
+  if (explicit) {
+    if (explicit.length === 0) throw new Error("seeds must not be empty");
+    if (new Set(explicit).size !== explicit.length) {
+      throw new Error("seeds must be unique");
+    }
+    return explicit;
+  }
+
+  const base = args.seed ?? scenario?.world?.seed ?? DEFAULTS.seed;
+  const runs = args.runs ?? scenario?.batch?.runs ?? DEFAULTS.runs;
+  requirePositiveInteger("runs", runs);
+  if (runs === 1) return [base];
+  return Array.from({ length: runs }, (_, i) => `${base}-${i + 1}`);
+}
+
+function requirePositiveInteger(name: string, value: number): void {
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+}
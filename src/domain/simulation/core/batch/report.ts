@@ -0,0 +1,136 @@
+import type {
+  BatchMetricChange,
+  BatchMetricSummary,
+  BatchReport,
+  BatchRunResult,
+  BatchSample,
+} from "../../../../shared/types/simulation/batch";
+
+/**
+ * Flattens a sample into named metrics: `population`, `births`, `deaths`,
+ * `conflicts`, `needs.<need>`, `resources.<stock>` and, for scenarios with
+ * goals, `goals.won`, `goals.lost` and `goals.progress`.
+ */
+export function flattenSample(sample: BatchSample): Record<string, number> {
+  const metrics: Record<string, number> = {
+    population: sample.population,
+    births: sample.births,
+    deaths: sample.deaths,
+    conflicts: sample.conflicts,
+  };
+  for (const [key, value] of Object.entries(sample.needs)) {
+    metrics[`needs.${key}`] = value;
+  }
+  for (const [key, value] of Object.entries(sample.resources)) {
+    metrics[`resources.${key}`] = value;
+  }
+  if (sample.goals) {
+    metrics["goals.won"] = sample.goals.won;
+    metrics["goals.lost"] = sample.goals.lost;
+    metrics["goals.progress"] = sample.goals.progress;
+  }
+  return metrics;
+}
+
+/**
+ * Renders the time series of a run as CSV, one row per sample. Columns are
+ * the union of every sample's metrics; missing values are left empty.
+ */
+export function samplesToCsv(samples: BatchSample[]): string {
+  const rows = samples.map((sample) => flattenSample(sample));
+  const columns: string[] = [];
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!columns.includes(key)) columns.push(key);
+    }
+  }
+
+  const lines = [["tick", ...columns].join(",")];
+  rows.forEach((row, index) => {
+    const values = columns.map((column) =>
+      row[column] === undefined ? "" : formatNumber(row[column]),
+    );
+    lines.push([String(samples[index].tick), ...values].join(","));
+  });
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Mean, extremes and population standard deviation of a set of values.
+ */
+export function summarize(values: number[]): BatchMetricSummary {
+  if (values.length === 0) return { mean: 0, min: 0, max: 0, stdDev: 0 };
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance =
+    values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return {
+    mean,
+    min: Math.min(...values),
+    max: Math.max(...values),
+    stdDev: Math.sqrt(variance),
+  };
+}
+
+/**
+ * Aggregates the final sample of every run.
+ *
+ * @param runs - Finished runs
+ * @param settings - Scenario name and world settings shared by the runs
+ */
+export function buildBatchReport(
+  runs: BatchRunResult[],
+  settings: Pick<BatchReport, "scenario" | "ticks" | "width" | "height">,
+): BatchReport {
+  const finals: Record<string, Record<string, number>> = {};
+  for (const run of runs) {
+    const last = run.samples[run.samples.length - 1];
+    if (!last) continue;
+    for (const [metric, value] of Object.entries(flattenSample(last))) {
+      (finals[metric] ??= {})[run.seed] = value;
+    }
+  }
+
+  const summary: Record<string, BatchMetricSummary> = {};
+  for (const [metric, bySeed] of Object.entries(finals)) {
+    summary[metric] = summarize(Object.values(bySeed));
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    ...settings,
+    seeds: runs.map((run) => run.seed),
+    finals,
+    summary,
+  };
+}
+
+/**
+ * Compares the mean of every metric against a baseline report, e.g. one
+ * produced before changing a decay or fertility constant.
+ */
+export function compareBatchReports(
+  baseline: BatchReport,
+  current: BatchReport,
+): Record<string, BatchMetricChange> {
+  const comparison: Record<string, BatchMetricChange> = {};
+  const metrics = new Set([
+    ...Object.keys(baseline.summary),
+    ...Object.keys(current.summary),
+  ]);
+  for (const metric of metrics) {
+    const before = baseline.summary[metric]?.mean ?? 0;
+    const after = current.summary[metric]?.mean ?? 0;
+    const delta = after - before;
+    comparison[metric] = {
+      baseline: before,
+      current: after,
+      delta,
+      relative: before === 0 ? null : delta / Math.abs(before),
+    };
+  }
+  return comparison;
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(4);
+}
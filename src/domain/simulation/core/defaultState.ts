@@ -6,6 +6,7 @@ import type {
 import { InteractionType } from "../../../shared/constants/InteractionEnums";
 import { WeatherType } from "../../../shared/constants/AmbientEnums";
 import { logger } from "../../../infrastructure/utils/logger";
+import { getSimulationTime } from "../../../shared/FrameTime";
 
 /**
  * Default resource values for new game states.
@@ -50,13 +51,13 @@ export function createInitialConversation(now: number): ConversationState {
  * @returns Fresh game state ready for simulation
  */
 export function createInitialGameState(): GameState {
-  const now = Date.now();
+  const now = getSimulationTime();
   return {
     agents: [],
     entities: [],
     resonance: 0,
     cycles: 0,
-    lastSave: Date.now(),
+    lastSave: getSimulationTime(),
     time: 0,
     dayTime: 0,
     togetherTime: 0,
@@ -230,6 +231,7 @@ export function cloneGameStateDelta(
   cloned.togetherTime = state.togetherTime;
   cloned.cycles = state.cycles;
   cloned.weather = structuredClone(state.weather);
+  cloned.calendar = structuredClone(state.calendar);
   cloned.resources = structuredClone(state.resources);
 
   return cloned;
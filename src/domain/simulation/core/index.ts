@@ -1,10 +1,16 @@
 import { SimulationRunner } from "./SimulationRunner";
 import { container } from "../../../config/container";
 import { TYPES } from "../../../config/Types";
+import { LocalWorld } from "./worlds/LocalWorld";
+import { DEFAULT_WORLD_ID, WorldManager } from "./worlds/WorldManager";
 
 export const simulationRunner = container.get<SimulationRunner>(
   TYPES.SimulationRunner,
 );
 
+export const worldManager = new WorldManager(
+  new LocalWorld(DEFAULT_WORLD_ID, simulationRunner, true),
+);
+
 export type { SimulationCommand } from "../../../shared/types/commands/SimulationCommand";
 export type { SimulationSnapshot } from "../../../shared/types/commands/SimulationCommand";
@@ -0,0 +1,179 @@
+import { logger } from "../../../../infrastructure/utils/logger";
+import { storageService } from "../../../../infrastructure/services/storage/storageService";
+import type { SimulationCommand } from "../../../../shared/types/commands/SimulationCommand";
+import type { CommandJournalEntry } from "../../../../shared/types/simulation/replay";
+
+/**
+ * Append-only journal of applied simulation commands.
+ *
+ * Every command processed by the CommandProcessor is recorded with the tick it
+ * was applied on. Entries are kept in memory for replay and flushed to storage
+ * in chunks, so a past state can be rebuilt from the nearest save plus the
+ * commands applied after it. Entries older than every retained save are
+ * dropped once save rotation trims them from storage.
+ *
+ * Storage writes (flushes and rewinds) run one after another on a single
+ * promise chain, so a rewind never races a flush already in progress.
+ */
+export class CommandJournal {
+  private entries: CommandJournalEntry[] = [];
+  private pending: CommandJournalEntry[] = [];
+  private nextSeq = 0;
+  private lastFlush = Date.now();
+  private writes: Promise<unknown> = Promise.resolve();
+  private queuedWrites = 0;
+  private trimmedTick = -1;
+
+  /** Minimum time between periodic flushes */
+  private readonly FLUSH_INTERVAL_MS = 5000;
+  /** Flush immediately once this many entries are pending */
+  private readonly FLUSH_BATCH_SIZE = 100;
+
+  /**
+   * @param persist - Whether entries are written to storage (disabled in replay sandboxes)
+   */
+  constructor(private readonly persist = true) {}
+
+  /**
+   * Records an applied command.
+   *
+   * @param tick - Tick the command was applied on
+   * @param command - The command
+   * @returns The recorded entry
+   */
+  public record(tick: number, command: SimulationCommand): CommandJournalEntry {
+    const entry: CommandJournalEntry = {
+      seq: this.nextSeq++,
+      tick,
+      appliedAt: Date.now(),
+      command: structuredClone(command),
+    };
+    this.entries.push(entry);
+    if (this.persist) {
+      this.pending.push(entry);
+    }
+    return entry;
+  }
+
+  /**
+   * Returns entries applied in the tick range.
+   *
+   * @param fromTick - First tick (exclusive)
+   * @param toTick - Last tick (inclusive)
+   */
+  public getEntriesBetween(
+    fromTick: number,
+    toTick: number,
+  ): CommandJournalEntry[] {
+    return this.entries.filter(
+      (entry) => entry.tick > fromTick && entry.tick <= toTick,
+    );
+  }
+
+  public size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Loads persisted entries from storage. Called once at boot.
+   */
+  public async load(): Promise<void> {
+    if (!this.persist) return;
+
+    const persisted = await storageService.loadJournal();
+    this.entries = [...persisted, ...this.entries];
+    this.nextSeq = this.entries.reduce(
+      (next, entry) => Math.max(next, entry.seq + 1),
+      this.nextSeq,
+    );
+    logger.info(`📜 Command journal loaded (${persisted.length} entries)`);
+  }
+
+  /**
+   * Discards every entry applied after the given tick.
+   * Used when a save is loaded: commands recorded after it belong to a
+   * timeline that no longer exists and would collide with new ticks.
+   *
+   * Waits for any flush in progress, then replaces the persisted journal
+   * with the retained entries, pending ones included.
+   *
+   * @param tick - Tick of the loaded save
+   */
+  public async rewindTo(tick: number): Promise<void> {
+    const before = this.entries.length;
+    this.entries = this.entries.filter((entry) => entry.tick <= tick);
+    const discarded = before - this.entries.length;
+    if (discarded === 0 || !this.persist) return;
+
+    logger.info(
+      `📜 Command journal rewound to tick ${tick} (${discarded} entries discarded)`,
+    );
+    await this.queueWrite(async () => {
+      // Also drops entries a failed flush put back after the rewind
+      this.pending = [];
+      await storageService.replaceJournal(this.entries, this.nextSeq);
+    });
+  }
+
+  /**
+   * Flushes pending entries if the batch is full or the interval elapsed.
+   * Fire-and-forget; errors are logged and entries retried on the next flush.
+   */
+  public maybeFlush(): void {
+    this.trimToStorage();
+    if (this.pending.length === 0 || this.queuedWrites > 0) return;
+
+    const now = Date.now();
+    if (
+      this.pending.length < this.FLUSH_BATCH_SIZE &&
+      now - this.lastFlush < this.FLUSH_INTERVAL_MS
+    ) {
+      return;
+    }
+
+    this.flush().catch((err) => {
+      logger.error("Command journal flush failed:", err);
+    });
+  }
+
+  /**
+   * Writes all pending entries to storage, after any write in progress.
+   * Resolves once every entry recorded before the call is persisted.
+   */
+  public flush(): Promise<void> {
+    return this.queueWrite(async () => {
+      if (this.pending.length === 0) return;
+
+      const batch = this.pending;
+      this.pending = [];
+      try {
+        await storageService.appendJournalChunk(batch);
+        this.lastFlush = Date.now();
+      } catch (error) {
+        this.pending = [...batch, ...this.pending];
+        throw error;
+      }
+    });
+  }
+
+  private queueWrite(write: () => Promise<void>): Promise<void> {
+    this.queuedWrites++;
+    const run = this.writes.then(write).finally(() => {
+      this.queuedWrites--;
+    });
+    this.writes = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Drops in-memory entries that save rotation trimmed from storage.
+   */
+  private trimToStorage(): void {
+    if (!this.persist) return;
+
+    const trimmedTick = storageService.getJournalTrimmedTick();
+    if (trimmedTick <= this.trimmedTick) return;
+    this.trimmedTick = trimmedTick;
+    this.entries = this.entries.filter((entry) => entry.tick > trimmedTick);
+  }
+}
@@ -7,22 +7,31 @@ import type {
   NeedsCommandPayload,
   RecipeCommandPayload,
   SocialCommandPayload,
+  ResearchCommandPayload,
   WorldResourceCommandPayload,
+  DialogueCommandPayload,
   BuildingCommandPayload,
   ReputationCommandPayload,
   TaskCommandPayload,
   ConflictCommandPayload,
+  DivineCommandPayload,
+  MarketCommandPayload,
 } from "../../../../shared/types/commands/SimulationCommand";
 import {
   SimulationCommandType,
+  SimulationRequestType,
   NeedsCommandType,
   RecipeCommandType,
   SocialCommandType,
+  ResearchCommandType,
   WorldResourceCommandType,
+  DialogueCommandType,
   BuildingCommandType,
   ReputationCommandType,
   TaskCommandType,
   ConflictCommandType,
+  DivineCommandType,
+  MarketCommandType,
   TimeCommandType,
   AgentCommandType,
   AnimalCommandType,
@@ -33,10 +42,81 @@ import type { NeedsConfig } from "@/shared/types/simulation/needs";
 import type { TaskType, TaskMetadata } from "@/shared/types/simulation/tasks";
 import type { BuildingLabel } from "@/shared/types/simulation/buildings";
 import { ActionType } from "../../../../shared/constants/AIEnums";
+import { GodId } from "../../../../shared/constants/DivineEnums";
+import { Role } from "../../../../shared/constants/AuthEnums";
+import { hasRole } from "../../../../infrastructure/services/auth/authService";
+import { Season } from "../../../../shared/constants/TimeEnums";
+
+/**
+ * Least role allowed to send each command and request. Spectators only
+ * watch; players drive agents and the economy; admins bend the world
+ * itself (time, spawning, resources, saves).
+ */
+const REQUIRED_ROLES: Record<
+  SimulationCommandType | SimulationRequestType,
+  Role
+> = {
+  [SimulationCommandType.PING]: Role.SPECTATOR,
+  [SimulationRequestType.REQUEST_FULL_STATE]: Role.SPECTATOR,
+  [SimulationRequestType.REQUEST_ENTITY_DETAILS]: Role.SPECTATOR,
+  [SimulationRequestType.REQUEST_PLAYER_ID]: Role.SPECTATOR,
+
+  [SimulationCommandType.GATHER_RESOURCE]: Role.PLAYER,
+  [SimulationCommandType.AGENT_COMMAND]: Role.PLAYER,
+  [SimulationCommandType.ANIMAL_COMMAND]: Role.PLAYER,
+  [SimulationCommandType.RECIPE_COMMAND]: Role.PLAYER,
+  [SimulationCommandType.SOCIAL_COMMAND]: Role.PLAYER,
+  [SimulationCommandType.RESEARCH_COMMAND]: Role.PLAYER,
+  [SimulationCommandType.DIALOGUE_COMMAND]: Role.PLAYER,
+  [SimulationCommandType.BUILDING_COMMAND]: Role.PLAYER,
+  [SimulationCommandType.REPUTATION_COMMAND]: Role.PLAYER,
+  [SimulationCommandType.TASK_COMMAND]: Role.PLAYER,
+  [SimulationCommandType.CONFLICT_COMMAND]: Role.PLAYER,
+  [SimulationCommandType.DIVINE_COMMAND]: Role.PLAYER,
+  [SimulationCommandType.MARKET_COMMAND]: Role.PLAYER,
+  [SimulationRequestType.REQUEST_STATE_AT_TICK]: Role.PLAYER,
+
+  [SimulationCommandType.SET_TIME_SCALE]: Role.ADMIN,
+  [SimulationCommandType.APPLY_RESOURCE_DELTA]: Role.ADMIN,
+  [SimulationCommandType.GIVE_RESOURCE]: Role.ADMIN,
+  [SimulationCommandType.SPAWN_AGENT]: Role.ADMIN,
+  [SimulationCommandType.KILL_AGENT]: Role.ADMIN,
+  [SimulationCommandType.NEEDS_COMMAND]: Role.ADMIN,
+  [SimulationCommandType.WORLD_RESOURCE_COMMAND]: Role.ADMIN,
+  [SimulationCommandType.TIME_COMMAND]: Role.ADMIN,
+  [SimulationCommandType.FORCE_EMERGENCE_EVALUATION]: Role.ADMIN,
+  [SimulationCommandType.SAVE_GAME]: Role.ADMIN,
+  [SimulationRequestType.REQUEST_LOAD_SAVE]: Role.ADMIN,
+};
 
 export class CommandProcessor {
   constructor(private runner: SimulationRunner) {}
 
+  /**
+   * Least role allowed to send a command or request. Unknown types require
+   * admin, so new commands are locked down until given a role.
+   */
+  public static requiredRole(type: string): Role {
+    return (
+      REQUIRED_ROLES[type as SimulationCommandType | SimulationRequestType] ??
+      Role.ADMIN
+    );
+  }
+
+  /**
+   * Records on an authorized command the role of the client that sent it,
+   * for commands whose permission also depends on the payload (market
+   * orders on behalf of an agent). Overwrites whatever the client sent.
+   */
+  public static stampIssuer(
+    command: SimulationCommand,
+    role: Role | null,
+  ): void {
+    if (command.type === SimulationCommandType.MARKET_COMMAND) {
+      command.issuerRole = role ?? undefined;
+    }
+  }
+
   public process(commands: SimulationCommand[]): void {
     if (commands.length > 0) {
       logger.info(`🎯 Processing ${commands.length} command(s)`);
@@ -45,6 +125,7 @@ export class CommandProcessor {
       const command = commands.shift();
       if (!command) break;
       logger.info(`📝 Processing command: ${command.type}`, command);
+      this.runner.recordAppliedCommand(command);
       try {
         this.dispatchCommand(command);
       } catch (error) {
@@ -104,13 +185,13 @@ export class CommandProcessor {
         this.handleSocialCommand(command);
         break;
       case SimulationCommandType.RESEARCH_COMMAND:
-        logger.warn("RESEARCH_COMMAND ignored - system removed");
+        this.handleResearchCommand(command);
         break;
       case SimulationCommandType.WORLD_RESOURCE_COMMAND:
         this.handleWorldResourceCommand(command);
         break;
       case SimulationCommandType.DIALOGUE_COMMAND:
-        logger.warn("DIALOGUE_COMMAND ignored - system removed");
+        this.handleDialogueCommand(command);
         break;
       case SimulationCommandType.BUILDING_COMMAND:
         this.handleBuildingCommand(command);
@@ -124,6 +205,12 @@ export class CommandProcessor {
       case SimulationCommandType.CONFLICT_COMMAND:
         this.handleConflictCommand(command);
         break;
+      case SimulationCommandType.DIVINE_COMMAND:
+        this.handleDivineCommand(command);
+        break;
+      case SimulationCommandType.MARKET_COMMAND:
+        this.handleMarketCommand(command);
+        break;
       case SimulationCommandType.TIME_COMMAND:
         this.handleTimeCommand(command);
         break;
@@ -376,6 +463,27 @@ export class CommandProcessor {
     }
   }
 
+  private handleResearchCommand(
+    command: Extract<SimulationCommand, { type: "RESEARCH_COMMAND" }>,
+  ): void {
+    const payload = command.payload ?? ({} as ResearchCommandPayload);
+    const lineageId = this.runner.resolveLineageId(payload.lineageId);
+    switch (command.command) {
+      case ResearchCommandType.INITIALIZE_LINEAGE:
+        this.runner.researchSystem.initializeLineage(lineageId);
+        break;
+      case ResearchCommandType.RECIPE_DISCOVERED:
+        if (payload.recipeId) {
+          this.runner.researchSystem.recordRecipeDiscovery(
+            lineageId,
+            payload.recipeId,
+            payload.discoveredBy,
+          );
+        }
+        break;
+    }
+  }
+
   private handleWorldResourceCommand(
     command: Extract<SimulationCommand, { type: "WORLD_RESOURCE_COMMAND" }>,
   ): void {
@@ -401,6 +509,22 @@ export class CommandProcessor {
     }
   }
 
+  private handleDialogueCommand(
+    command: Extract<SimulationCommand, { type: "DIALOGUE_COMMAND" }>,
+  ): void {
+    const payload = command.payload ?? ({} as DialogueCommandPayload);
+    switch (command.command) {
+      case DialogueCommandType.RESPOND_TO_CARD:
+        if (payload.cardId && payload.choiceId) {
+          this.runner.dialogueSystem.respondToCard(
+            payload.cardId,
+            payload.choiceId,
+          );
+        }
+        break;
+    }
+  }
+
   private handleBuildingCommand(
     command: Extract<SimulationCommand, { type: "BUILDING_COMMAND" }>,
   ): void {
@@ -531,6 +655,19 @@ export class CommandProcessor {
         logger.warn("TimeSystem.setWeather not available");
       }
     }
+
+    if (
+      command.command === TimeCommandType.SET_SEASON &&
+      command.payload?.season
+    ) {
+      const season = command.payload.season;
+      if (!Object.values(Season).includes(season)) {
+        logger.warn(`Unknown season ${String(season)} in TIME_COMMAND`);
+        return;
+      }
+      this.runner.timeSystem.setSeason(season);
+      logger.info(`Season set to ${season} via TIME_COMMAND`);
+    }
   }
 
   private applyResourceDelta(delta: Partial<GameResources["materials"]>): void {
@@ -561,4 +698,73 @@ export class CommandProcessor {
         break;
     }
   }
+
+  private handleDivineCommand(
+    command: Extract<SimulationCommand, { type: "DIVINE_COMMAND" }>,
+  ): void {
+    const payload = command.payload ?? ({} as DivineCommandPayload);
+    switch (command.command) {
+      case DivineCommandType.GRANT_BLESSING:
+        if (payload.blessingType && payload.target) {
+          this.runner.divineSystem.grantBlessing(
+            payload.godId ?? GodId.ISA,
+            payload.blessingType,
+            payload.target,
+            payload.durationMs,
+          );
+        }
+        break;
+      case DivineCommandType.REVOKE_BLESSING:
+        if (payload.blessingId) {
+          this.runner.divineSystem.revokeBlessing(payload.blessingId);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Orders move the agent's money, so players may only trade for the player
+   * agent; trading for any other agent takes an admin.
+   */
+  private handleMarketCommand(
+    command: Extract<SimulationCommand, { type: "MARKET_COMMAND" }>,
+  ): void {
+    const payload = command.payload ?? ({} as MarketCommandPayload);
+    if (!payload.agentId) return;
+    if (
+      payload.agentId !== this.runner.getPlayerId() &&
+      !hasRole(command.issuerRole ?? null, Role.ADMIN)
+    ) {
+      logger.warn(
+        `🚫 ${command.command} for ${payload.agentId} denied: only admins trade for other agents`,
+      );
+      return;
+    }
+    switch (command.command) {
+      case MarketCommandType.PLACE_ORDER:
+        if (
+          payload.orderType &&
+          payload.resource &&
+          typeof payload.amount === "number"
+        ) {
+          this.runner.economySystem.placeOrder(
+            payload.agentId,
+            payload.orderType,
+            payload.resource,
+            payload.amount,
+            payload.priceLimit,
+            payload.ttlMs,
+          );
+        }
+        break;
+      case MarketCommandType.CANCEL_ORDER:
+        if (payload.orderId) {
+          this.runner.economySystem.cancelOrder(
+            payload.orderId,
+            payload.agentId,
+          );
+        }
+        break;
+    }
+  }
 }
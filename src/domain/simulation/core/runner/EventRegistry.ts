@@ -11,6 +11,7 @@ import { RoleType } from "../../../../shared/constants/RoleEnums";
 import { LifeStage } from "../../../../shared/constants/AgentEnums";
 import { ActionType, NeedType } from "../../../../shared/constants/AIEnums";
 import { TimeOfDayPhase } from "../../../../shared/constants/TimeEnums";
+import { getSimulationTime } from "../../../../shared/FrameTime";
 /**
  * Central registry for simulation event listeners.
  *
@@ -111,7 +112,7 @@ export class EventRegistry {
               food: inventory.food,
               water: inventory.water,
             },
-            timestamp: Date.now(),
+            timestamp: getSimulationTime(),
           });
         }
         this.runner.inventorySystem.removeAgentInventory(agentId);
@@ -591,7 +592,7 @@ export class EventRegistry {
       this.runner.capturedEvents.push({
         type: eventName as GameEventType,
         payload: payload as SimulationEventPayload | undefined,
-        timestamp: Date.now(),
+        timestamp: getSimulationTime(),
       });
     };
 
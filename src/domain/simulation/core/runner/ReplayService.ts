@@ -0,0 +1,145 @@
+import { logger } from "../../../../infrastructure/utils/logger";
+import {
+  storageService,
+  type SaveMetadata,
+} from "../../../../infrastructure/services/storage/storageService";
+import { WorkerMessageType } from "../../../../shared/constants/WebSocketEnums";
+import type { ReplayResult } from "../../../../shared/types/simulation/replay";
+import type { SimulationRunner } from "../SimulationRunner";
+import type { ReplayWorkerRequest, ReplayWorkerResponse } from "./ReplayWorker";
+import { spawnModuleWorker } from "./moduleWorker";
+
+/**
+ * Picks the save to start a replay from: the latest save taken at or before
+ * the target tick. Saves without a recorded tick are ignored.
+ *
+ * @param saves - Available saves
+ * @param targetTick - Tick to rebuild
+ * @returns Base save metadata, or null if none qualifies
+ */
+export function selectReplayBase(
+  saves: SaveMetadata[],
+  targetTick: number,
+): SaveMetadata | null {
+  let best: SaveMetadata | null = null;
+  for (const save of saves) {
+    if (save.tick === undefined || save.tick > targetTick) continue;
+    if (!best || save.tick > (best.tick ?? -1)) {
+      best = save;
+    }
+  }
+  return best;
+}
+
+/**
+ * Rebuilds past simulation states ("time travel").
+ *
+ * Loads the nearest save at or before the requested tick and replays the
+ * command journal on top of it inside a dedicated worker thread, leaving the
+ * live simulation untouched. Replays are serialized because each one runs a
+ * full simulation.
+ *
+ * Only saves recorded in deterministic mode can be replayed: other runs used
+ * unseeded RNG and wall-clock time, so re-running them cannot reproduce the
+ * past. A replay is verified against the checksum the live run recorded at
+ * the target tick, and reported unverified when there is none (checksums are
+ * only kept every few steps and for a limited history).
+ */
+export class ReplayService {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /** Abort a replay that has not finished after this long */
+  private readonly REPLAY_TIMEOUT_MS = 120000;
+
+  constructor(private runner: SimulationRunner) {}
+
+  /**
+   * Rebuilds the state at the given tick.
+   *
+   * @param targetTick - Tick to rebuild (must not be in the future)
+   * @returns Replay result, or null when no save exists at or before the tick
+   */
+  public replayToTick(targetTick: number): Promise<ReplayResult | null> {
+    const run = this.queue.then(() => this.runReplay(targetTick));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async runReplay(targetTick: number): Promise<ReplayResult | null> {
+    const saves = await storageService.listSaves();
+    const base = selectReplayBase(saves, targetTick);
+    if (!base || base.tick === undefined) {
+      return null;
+    }
+
+    const save = await storageService.getSave(base.id);
+    if (!save?.state) {
+      return null;
+    }
+    if (!save.clock?.deterministic) {
+      throw new Error(
+        `Save ${base.id} was not recorded in deterministic mode and cannot be replayed`,
+      );
+    }
+
+    const entries = this.runner.getJournalEntries(base.tick, targetTick);
+    logger.info(
+      `⏪ Replaying from ${base.id} (tick ${base.tick}) to tick ${targetTick} with ${entries.length} command(s)`,
+    );
+
+    const result = await this.runWorker({
+      type: WorkerMessageType.REPLAY,
+      save,
+      saveId: base.id,
+      entries,
+      targetTick,
+      seed: save.clock.rng?.seed ?? this.runner.getSeed() ?? "0",
+      expectedChecksum:
+        this.runner.getTickChecksums(targetTick, targetTick)[0]?.checksum ??
+        null,
+    });
+
+    logger.info(
+      `⏪ Replay reached tick ${result.tick} in ${result.durationMs.toFixed(0)}ms`,
+    );
+    return result;
+  }
+
+  private runWorker(request: ReplayWorkerRequest): Promise<ReplayResult> {
+    const worker = spawnModuleWorker("./ReplayWorker", import.meta.url, {
+      name: "replay-worker",
+    });
+
+    return new Promise<ReplayResult>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        reject(new Error(`Replay timed out after ${this.REPLAY_TIMEOUT_MS}ms`));
+        void worker.terminate();
+      }, this.REPLAY_TIMEOUT_MS);
+
+      const finish = (): void => {
+        clearTimeout(timeout);
+        void worker.terminate();
+      };
+
+      worker.on("message", (response: ReplayWorkerResponse) => {
+        if (response.type !== WorkerMessageType.RESULT) return;
+        finish();
+        if (response.ok && response.result) {
+          resolve(response.result);
+        } else {
+          reject(new Error(response.error ?? "Replay failed"));
+        }
+      });
+      worker.on("error", (error) => {
+        finish();
+        reject(error);
+      });
+      worker.on("exit", (code) => {
+        clearTimeout(timeout);
+        reject(new Error(`Replay worker exited with code ${code}`));
+      });
+
+      worker.postMessage(request);
+    });
+  }
+}
@@ -0,0 +1,123 @@
+import "reflect-metadata";
+import { parentPort } from "node:worker_threads";
+import { performance } from "node:perf_hooks";
+import { container } from "../../../../config/container";
+import { TYPES } from "../../../../config/Types";
+import { WorkerMessageType } from "../../../../shared/constants/WebSocketEnums";
+import type { GameState } from "../../../../shared/types/game-types";
+import type { SimulationConfig } from "../../../../shared/types/commands/SimulationCommand";
+import type {
+  CommandJournalEntry,
+  ReplayResult,
+} from "../../../../shared/types/simulation/replay";
+import type { SaveData } from "../../../../infrastructure/services/storage/storageService";
+import type { SimulationRunner } from "../SimulationRunner";
+import { cloneGameState } from "../defaultState";
+
+export interface ReplayWorkerRequest {
+  type: WorkerMessageType.REPLAY;
+  save: SaveData;
+  saveId: string;
+  entries: CommandJournalEntry[];
+  targetTick: number;
+  seed: string;
+  /** Checksum the live run recorded at the target tick, if any */
+  expectedChecksum: string | null;
+}
+
+export interface ReplayWorkerResponse {
+  type: WorkerMessageType.RESULT;
+  ok: boolean;
+  result?: ReplayResult;
+  error?: string;
+}
+
+/**
+ * Worker thread that rebuilds a past simulation state.
+ *
+ * Runs in its own module graph so the sandbox runner gets private copies of
+ * the container, the global event bus, the RNG streams and the logical clock,
+ * none of which can leak into the live simulation. Loads the base save,
+ * restores its runtime clock and steps the simulation, re-applying journaled
+ * commands on the tick they were originally applied. The result is only
+ * reported exact when its checksum matches the one the live run recorded.
+ */
+async function replay(request: ReplayWorkerRequest): Promise<ReplayResult> {
+  const start = performance.now();
+
+  container
+    .rebindSync<Partial<SimulationConfig>>(TYPES.SimulationConfig)
+    .toConstantValue({
+      deterministic: true,
+      seed: request.seed,
+      persistence: false,
+    });
+
+  const runner = container.get<SimulationRunner>(TYPES.SimulationRunner);
+  await runner.initialize();
+
+  const gameState = container.get<GameState>(TYPES.GameState);
+  Object.assign(gameState, request.save.state);
+  await runner.ensureInitialFamily();
+  runner.syncAllAgentSystems();
+  await runner.restoreRuntime(request.save, request.saveId);
+
+  const baseTick = runner.getTickCounter();
+  const pending = [...request.entries].sort((a, b) => a.seq - b.seq);
+  let commandsApplied = 0;
+
+  try {
+    while (runner.getTickCounter() < request.targetTick) {
+      while (pending.length > 0 && pending[0].tick <= runner.getTickCounter()) {
+        const entry = pending.shift();
+        if (!entry) break;
+        runner.enqueueCommand(entry.command);
+        commandsApplied++;
+      }
+      await runner.advanceSteps(1);
+    }
+
+    const checksum = runner.getStateChecksum();
+    const expectedChecksum =
+      checksum.tick === request.targetTick ? request.expectedChecksum : null;
+    return {
+      requestedTick: request.targetTick,
+      tick: checksum.tick,
+      baseSaveId: request.saveId,
+      baseTick,
+      commandsApplied,
+      checksum: checksum.checksum,
+      expectedChecksum,
+      exact:
+        expectedChecksum === null
+          ? null
+          : checksum.checksum === expectedChecksum,
+      durationMs: performance.now() - start,
+      state: cloneGameState(runner.state),
+    };
+  } finally {
+    runner.stop();
+  }
+}
+
+parentPort?.on("message", (message: ReplayWorkerRequest) => {
+  if (message.type !== WorkerMessageType.REPLAY) return;
+
+  replay(message)
+    .then((result) => {
+      const response: ReplayWorkerResponse = {
+        type: WorkerMessageType.RESULT,
+        ok: true,
+        result,
+      };
+      parentPort?.postMessage(response);
+    })
+    .catch((error: unknown) => {
+      const response: ReplayWorkerResponse = {
+        type: WorkerMessageType.RESULT,
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+      parentPort?.postMessage(response);
+    });
+});
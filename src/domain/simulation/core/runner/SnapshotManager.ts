@@ -1,24 +1,24 @@
-import { Worker } from "node:worker_threads";
 import { logger } from "../../../../infrastructure/utils/logger";
 import { StateCache } from "../StateCache";
-import { DeltaEncoder } from "../DeltaEncoder";
 import type { SimulationRunner } from "../SimulationRunner";
 import { cloneGameState } from "../defaultState";
 import type { SimulationSnapshot } from "../../../../shared/types/commands/SimulationCommand";
-import { WorkerMessageType } from "../../../../shared/constants/WebSocketEnums";
-
+import { getSimulationTime } from "../../../../shared/FrameTime";
+
+/**
+ * Builds the snapshots streamed to clients.
+ *
+ * Emits a full `SimulationSnapshot` on the runner's "tick" event; delta
+ * encoding is done per connection (see DeltaEncoder), so emitted snapshots
+ * must never be mutated afterwards.
+ */
 export class SnapshotManager {
   private stateCache: StateCache;
-  private deltaEncoder: DeltaEncoder;
   private lastSnapshotTime = 0;
   private readonly SNAPSHOT_INTERVAL_MS = 250;
-  private snapshotWorker?: Worker;
-  private snapshotWorkerReady = false;
 
   constructor(private runner: SimulationRunner) {
     this.stateCache = new StateCache();
-    this.deltaEncoder = new DeltaEncoder();
-    this.initializeSnapshotWorker();
   }
 
   /**
@@ -29,81 +29,13 @@ export class SnapshotManager {
     return this.runner.stateDirtyTracker;
   }
 
-  private initializeSnapshotWorker(): void {
-    try {
-      const readyType = WorkerMessageType.READY;
-      const snapshotType = WorkerMessageType.SNAPSHOT;
-      const shutdownType = WorkerMessageType.SHUTDOWN;
-      const errorType = WorkerMessageType.ERROR;
-      const workerCode = `
-        const { parentPort } = require('worker_threads');
-        if (!parentPort) throw new Error('SnapshotWorker inline requires parentPort');
-        parentPort.postMessage({ type: '${readyType}' });
-        parentPort.on('message', (msg) => {
-          try {
-            if (msg && msg.type === '${snapshotType}' && msg.data) {
-              const serialized = JSON.stringify(msg.data);
-              parentPort.postMessage({ type: 'snapshot-ready', data: serialized, size: serialized.length });
-            } else if (msg && msg.type === '${shutdownType}') {
-              process.exit(0);
-            }
-          } catch (err) {
-            parentPort.postMessage({ type: '${errorType}', error: (err && err.message) || String(err) });
-          }
-        });
-      `;
-
-      this.snapshotWorker = new Worker(workerCode, { eval: true });
-
-      this.snapshotWorker.on("message", (rawMessage: unknown) => {
-        const message = rawMessage as {
-          type: string;
-          data?: string;
-          error?: string;
-        };
-        if (message.type === WorkerMessageType.READY) {
-          this.snapshotWorkerReady = true;
-          logger.info("🧵 Snapshot worker thread ready");
-        } else if (message.type === "snapshot-ready" && message.data) {
-          try {
-            const parsed: unknown = JSON.parse(message.data as string);
-            this.runner.emit("tick", parsed);
-          } catch (err) {
-            logger.error("Failed to parse snapshot from worker:", err);
-          }
-        } else if (message.type === WorkerMessageType.ERROR) {
-          logger.error("Snapshot worker error:", message.error);
-        }
-      });
-
-      this.snapshotWorker.on("error", (error) => {
-        logger.error("Snapshot worker thread error:", error);
-        this.snapshotWorkerReady = false;
-      });
-
-      this.snapshotWorker.on("exit", (code) => {
-        if (code !== 0) {
-          logger.warn(`Snapshot worker stopped with exit code ${code}`);
-        }
-        this.snapshotWorkerReady = false;
-      });
-    } catch (error) {
-      logger.error("Failed to initialize snapshot worker:", error);
-      this.snapshotWorkerReady = false;
-    }
-  }
-
   public generateSnapshotThrottled(): void {
-    const now = Date.now();
+    const now = getSimulationTime();
     if (now - this.lastSnapshotTime < this.SNAPSHOT_INTERVAL_MS) {
       return;
     }
     this.lastSnapshotTime = now;
 
-    if (!this.snapshotWorkerReady || !this.snapshotWorker) {
-      return;
-    }
-
     const currentTick = this.runner.getTickCounter();
 
     const dirtySections = this.dirtyTracker.flush();
@@ -152,7 +84,7 @@ export class SnapshotManager {
               ? { type: activeTask.type, target: activeTask.target }
               : undefined,
             offDuty: false,
-            lastDecisionTime: Date.now(),
+            lastDecisionTime: getSimulationTime(),
             personality: {},
             memory: serializedMemory,
           };
@@ -164,12 +96,15 @@ export class SnapshotManager {
           this.runner.combatSystem ||
           this.runner.taskSystem
         ) {
+          // Copies: the systems keep appending to these arrays
           history = {
-            economy: this.runner.economySystem?.getTransactionHistory(agent.id),
-            combat: this.runner.combatSystem?.getPersonalCombatHistory(
-              agent.id,
-            ),
-            work: this.runner.taskSystem?.getWorkHistory(agent.id),
+            economy: this.runner.economySystem
+              ?.getTransactionHistory(agent.id)
+              .slice(),
+            combat: this.runner.combatSystem
+              ?.getPersonalCombatHistory(agent.id)
+              .slice(),
+            work: this.runner.taskSystem?.getWorkHistory(agent.id).slice(),
           };
         }
 
@@ -226,21 +161,8 @@ export class SnapshotManager {
       events,
     };
 
-    const delta = this.deltaEncoder.encodeDelta(fullSnapshot);
-
-    if (!delta) return;
-
-    const snapshotData = {
-      tick: currentTick,
-      time: now,
-      delta,
-      events,
-    };
-
-    this.snapshotWorker.postMessage({
-      type: WorkerMessageType.SNAPSHOT,
-      data: snapshotData,
-    });
+    // Deferred so per-connection encoding does not run inside the tick
+    setImmediate(() => this.runner.emit("tick", fullSnapshot));
   }
 
   public getInitialSnapshot(): SimulationSnapshot {
@@ -252,11 +174,6 @@ export class SnapshotManager {
     snapshotState.genealogy =
       this.runner._genealogySystem?.getSerializedFamilyTree() ?? {};
 
-    snapshotState.legends = {
-      records: new Map(),
-      activeLegends: [],
-    };
-
     if (!snapshotState.socialGraph) {
       snapshotState.socialGraph = this.runner.socialSystem.getGraphSnapshot();
     }
@@ -296,7 +213,7 @@ export class SnapshotManager {
               ? { type: activeTask.type, target: activeTask.target }
               : undefined,
             offDuty: false,
-            lastDecisionTime: Date.now(),
+            lastDecisionTime: getSimulationTime(),
             personality: {},
             memory: serializedMemory,
           };
@@ -352,7 +269,7 @@ export class SnapshotManager {
 
     return {
       tick: this.runner.getTickCounter(),
-      updatedAt: Date.now(),
+      updatedAt: getSimulationTime(),
       state: snapshotState,
       events,
     };
@@ -367,11 +284,6 @@ export class SnapshotManager {
   }
 
   public cleanup(): void {
-    if (this.snapshotWorker) {
-      this.snapshotWorker.postMessage({ type: WorkerMessageType.SHUTDOWN });
-      this.snapshotWorker.terminate();
-      this.snapshotWorker = undefined;
-      this.snapshotWorkerReady = false;
-    }
+    this.stateCache.reset();
   }
 }
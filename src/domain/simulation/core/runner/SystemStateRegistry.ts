@@ -0,0 +1,88 @@
+import { logger } from "../../../../infrastructure/utils/logger";
+import type { Persistable } from "../../ports";
+import type { PersistedSystemState } from "../../../../shared/types/simulation/replay";
+
+/**
+ * Systems whose private state travels with saves, keyed by section name.
+ *
+ * `serialize()` collects one versioned section per system. `restore()` hands
+ * every system its section, upgrading older versions through
+ * `migrateState` when the system provides it. Systems without a usable
+ * section (missing, newer than this server, unmigratable or failing to
+ * restore) are cleared, so nothing from a previous world survives a load.
+ */
+export class SystemStateRegistry {
+  private readonly systems = new Map<string, Persistable>();
+
+  /**
+   * @throws Error if the section name is already taken
+   */
+  public register<T>(name: string, system: Persistable<T>): void {
+    if (this.systems.has(name)) {
+      throw new Error(`System state section "${name}" is already registered`);
+    }
+    this.systems.set(name, system as Persistable);
+  }
+
+  public serialize(): Record<string, PersistedSystemState> {
+    const sections: Record<string, PersistedSystemState> = {};
+    for (const [name, system] of this.systems) {
+      sections[name] = {
+        version: system.persistenceVersion,
+        data: system.serialize(),
+      };
+    }
+    return sections;
+  }
+
+  /**
+   * Restores every registered system from the sections of a save.
+   *
+   * @param sections - `SaveData.systems`, absent in older saves
+   * @returns Names of the systems restored from their section
+   */
+  public restore(
+    sections: Record<string, PersistedSystemState> | undefined,
+  ): string[] {
+    const restored: string[] = [];
+    for (const [name, system] of this.systems) {
+      const data = this.resolveSection(name, system, sections?.[name]);
+      try {
+        system.restore(data);
+        if (data !== null) restored.push(name);
+      } catch (error) {
+        logger.error(`Failed to restore "${name}" system state:`, error);
+        system.restore(null);
+      }
+    }
+    return restored;
+  }
+
+  private resolveSection(
+    name: string,
+    system: Persistable,
+    section: PersistedSystemState | undefined,
+  ): unknown {
+    if (!section) return null;
+
+    if (section.version === system.persistenceVersion) {
+      return section.data;
+    }
+    if (section.version < system.persistenceVersion && system.migrateState) {
+      try {
+        return system.migrateState(section.data, section.version);
+      } catch (error) {
+        logger.warn(
+          `Discarding "${name}" system state: migration from v${section.version} failed:`,
+          error,
+        );
+        return null;
+      }
+    }
+
+    logger.warn(
+      `Discarding "${name}" system state v${section.version} (expected v${system.persistenceVersion})`,
+    );
+    return null;
+  }
+}
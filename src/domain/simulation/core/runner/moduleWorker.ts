@@ -0,0 +1,41 @@
+import { existsSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { Worker, type WorkerOptions } from "node:worker_threads";
+
+/**
+ * Spawns a worker thread running a module of this codebase.
+ *
+ * The compiled `.js` module is used when it exists. In development the
+ * module is TypeScript; worker execArgv does not honour `--import tsx` on
+ * Node 20, so a small eval bootstrap registers tsx inside the thread before
+ * importing the module.
+ *
+ * @param module - Module path without extension, e.g. `./ReplayWorker`
+ * @param base - URL the path is relative to, usually `import.meta.url`
+ * @param options - Worker options
+ */
+export function spawnModuleWorker(
+  module: string,
+  base: string,
+  options: WorkerOptions,
+): Worker {
+  const script = resolveModuleScript(module, base);
+  if (!script.pathname.endsWith(".ts")) {
+    return new Worker(script, options);
+  }
+
+  const bootstrap = `import("tsx/esm/api").then(({ register }) => { register(); return import(${JSON.stringify(script.href)}); });`;
+  return new Worker(bootstrap, { ...options, eval: true });
+}
+
+function resolveModuleScript(module: string, base: string): URL {
+  const jsUrl = new URL(`${module}.js`, base);
+  try {
+    if (existsSync(fileURLToPath(jsUrl))) {
+      return jsUrl;
+    }
+  } catch {
+    // Not a file URL: fall back to .ts, the worker reports it if missing
+  }
+  return new URL(`${module}.ts`, base);
+}
@@ -0,0 +1,535 @@
+import { LifeStage, Sex } from "../../../../shared/constants/AgentEnums";
+import { AnimalType } from "../../../../shared/constants/AnimalEnums";
+import { BuildingType } from "../../../../shared/constants/BuildingEnums";
+import {
+  ResourceType,
+  WorldResourceType,
+} from "../../../../shared/constants/ResourceEnums";
+import {
+  StockpileType,
+  ZoneType,
+} from "../../../../shared/constants/ZoneEnums";
+import {
+  LEGEND_TIERS,
+  type LegendTier,
+} from "../../../../shared/types/simulation/legends";
+import type {
+  Scenario,
+  ScenarioAgent,
+  ScenarioAnimalGroup,
+  ScenarioCondition,
+  ScenarioConditions,
+  ScenarioRelation,
+  ScenarioState,
+  ScenarioZone,
+} from "../../../../shared/types/simulation/scenario";
+
+const SCENARIO_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/;
+
+/** Largest world side accepted, in tiles */
+const MAX_WORLD_SIZE = 1024;
+const MAX_AGENTS = 500;
+const MAX_ANIMALS_PER_GROUP = 500;
+
+const TRAIT_KEYS = [
+  "cooperation",
+  "aggression",
+  "diligence",
+  "curiosity",
+  "bravery",
+  "intelligence",
+  "charisma",
+  "stamina",
+  "neuroticism",
+] as const;
+
+export function isScenarioId(value: unknown): value is string {
+  return typeof value === "string" && SCENARIO_ID_PATTERN.test(value);
+}
+
+type Fields = Record<string, unknown>;
+
+function fail(message: string): never {
+  throw new Error(`Invalid scenario: ${message}`);
+}
+
+function object(value: unknown, path: string): Fields {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    fail(`${path} must be an object`);
+  }
+  return value as Fields;
+}
+
+function list(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) fail(`${path} must be a list`);
+  return value;
+}
+
+function text(value: unknown, path: string): string {
+  if (typeof value !== "string" || value.length === 0) {
+    fail(`${path} must be a non-empty string`);
+  }
+  return value;
+}
+
+function number(
+  value: unknown,
+  path: string,
+  min = -Infinity,
+  max = Infinity,
+): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    fail(`${path} must be a number`);
+  }
+  if (value < min || value > max) {
+    fail(`${path} must be between ${min} and ${max}`);
+  }
+  return value;
+}
+
+function integer(
+  value: unknown,
+  path: string,
+  min: number,
+  max = Infinity,
+): number {
+  const result = number(value, path, min, max);
+  if (!Number.isInteger(result)) fail(`${path} must be an integer`);
+  return result;
+}
+
+function oneOf<T extends string>(
+  value: unknown,
+  path: string,
+  allowed: Record<string, T>,
+): T {
+  const values = Object.values(allowed);
+  if (!values.includes(value as T)) {
+    fail(`${path} must be one of ${values.join(", ")}`);
+  }
+  return value as T;
+}
+
+function point(value: unknown, path: string): { x: number; y: number } {
+  const fields = object(value, path);
+  return {
+    x: number(fields.x, `${path}.x`, 0),
+    y: number(fields.y, `${path}.y`, 0),
+  };
+}
+
+function parseAgent(value: unknown, path: string): ScenarioAgent {
+  const fields = object(value, path);
+  const agent: ScenarioAgent = { id: text(fields.id, `${path}.id`) };
+
+  if (fields.name !== undefined) agent.name = text(fields.name, `${path}.name`);
+  if (fields.sex !== undefined)
+    agent.sex = oneOf(fields.sex, `${path}.sex`, Sex);
+  if (fields.ageYears !== undefined) {
+    agent.ageYears = number(fields.ageYears, `${path}.ageYears`, 0, 200);
+  }
+  if (fields.lifeStage !== undefined) {
+    agent.lifeStage = oneOf(fields.lifeStage, `${path}.lifeStage`, LifeStage);
+  }
+  if (fields.immortal !== undefined) {
+    if (typeof fields.immortal !== "boolean") {
+      fail(`${path}.immortal must be a boolean`);
+    }
+    agent.immortal = fields.immortal;
+  }
+  if (fields.traits !== undefined) {
+    const traits = object(fields.traits, `${path}.traits`);
+    agent.traits = {};
+    for (const key of Object.keys(traits)) {
+      if (!(TRAIT_KEYS as readonly string[]).includes(key)) {
+        fail(`${path}.traits.${key} is not a trait`);
+      }
+      agent.traits[key as (typeof TRAIT_KEYS)[number]] = number(
+        traits[key],
+        `${path}.traits.${key}`,
+        0,
+        1,
+      );
+    }
+  }
+  if (fields.position !== undefined) {
+    agent.position = point(fields.position, `${path}.position`);
+  }
+  if (fields.parents !== undefined) {
+    const parents = object(fields.parents, `${path}.parents`);
+    agent.parents = {};
+    if (parents.father !== undefined) {
+      agent.parents.father = text(parents.father, `${path}.parents.father`);
+    }
+    if (parents.mother !== undefined) {
+      agent.parents.mother = text(parents.mother, `${path}.parents.mother`);
+    }
+  }
+  return agent;
+}
+
+function parseRelation(value: unknown, path: string): ScenarioRelation {
+  const fields = object(value, path);
+  const between = list(fields.between, `${path}.between`);
+  if (between.length !== 2) fail(`${path}.between must name two agents`);
+  const relation: ScenarioRelation = {
+    between: [
+      text(between[0], `${path}.between[0]`),
+      text(between[1], `${path}.between[1]`),
+    ],
+  };
+  if (relation.between[0] === relation.between[1]) {
+    fail(`${path}.between must name two different agents`);
+  }
+  if (fields.affinity !== undefined) {
+    relation.affinity = number(fields.affinity, `${path}.affinity`, -1, 1);
+  }
+  if (fields.bond !== undefined) {
+    if (fields.bond !== "family" && fields.bond !== "marriage") {
+      fail(`${path}.bond must be family or marriage`);
+    }
+    relation.bond = fields.bond;
+  }
+  if (relation.affinity === undefined && relation.bond === undefined) {
+    fail(`${path} must set an affinity or a bond`);
+  }
+  return relation;
+}
+
+function parseZone(value: unknown, path: string): ScenarioZone {
+  const fields = object(value, path);
+  const zone: ScenarioZone = {
+    type: oneOf(fields.type, `${path}.type`, ZoneType),
+    x: number(fields.x, `${path}.x`, 0),
+    y: number(fields.y, `${path}.y`, 0),
+    width: number(fields.width, `${path}.width`, 1),
+    height: number(fields.height, `${path}.height`, 1),
+  };
+  if (fields.id !== undefined) zone.id = text(fields.id, `${path}.id`);
+  if (fields.building !== undefined) {
+    zone.building = oneOf(fields.building, `${path}.building`, BuildingType);
+  }
+  if (fields.props !== undefined) {
+    const props = object(fields.props, `${path}.props`);
+    for (const [key, prop] of Object.entries(props)) {
+      if (typeof prop !== "number" && typeof prop !== "string") {
+        fail(`${path}.props.${key} must be a number or a string`);
+      }
+    }
+    zone.props = props as ScenarioZone["props"];
+  }
+  if (fields.stockpile !== undefined) {
+    const stockpile = object(fields.stockpile, `${path}.stockpile`);
+    zone.stockpile = {};
+    if (stockpile.type !== undefined) {
+      zone.stockpile.type = oneOf(
+        stockpile.type,
+        `${path}.stockpile.type`,
+        StockpileType,
+      );
+    }
+    if (stockpile.capacity !== undefined) {
+      zone.stockpile.capacity = integer(
+        stockpile.capacity,
+        `${path}.stockpile.capacity`,
+        1,
+      );
+    }
+    if (stockpile.contents !== undefined) {
+      const contents = object(stockpile.contents, `${path}.stockpile.contents`);
+      zone.stockpile.contents = {};
+      for (const [key, amount] of Object.entries(contents)) {
+        const resource = oneOf(
+          key,
+          `${path}.stockpile.contents.${key}`,
+          ResourceType,
+        );
+        zone.stockpile.contents[resource] = integer(
+          amount,
+          `${path}.stockpile.contents.${key}`,
+          0,
+        );
+      }
+    }
+  }
+  return zone;
+}
+
+function parseAnimalGroup(value: unknown, path: string): ScenarioAnimalGroup {
+  const fields = object(value, path);
+  const group: ScenarioAnimalGroup = {
+    type: oneOf(fields.type, `${path}.type`, AnimalType),
+    count: integer(fields.count, `${path}.count`, 0, MAX_ANIMALS_PER_GROUP),
+  };
+  if (fields.near !== undefined)
+    group.near = point(fields.near, `${path}.near`);
+  if (fields.radius !== undefined) {
+    group.radius = number(fields.radius, `${path}.radius`, 0);
+  }
+  return group;
+}
+
+function parseCondition(value: unknown, path: string): ScenarioCondition {
+  const fields = object(value, path);
+  switch (fields.type) {
+    case "population": {
+      const condition: ScenarioCondition = { type: "population" };
+      if (fields.min !== undefined) {
+        condition.min = integer(fields.min, `${path}.min`, 0);
+      }
+      if (fields.max !== undefined) {
+        condition.max = integer(fields.max, `${path}.max`, 0);
+      }
+      if (condition.min === undefined && condition.max === undefined) {
+        fail(`${path} must set min or max`);
+      }
+      return condition;
+    }
+    case "survive_days":
+      return {
+        type: "survive_days",
+        days: number(fields.days, `${path}.days`, 0),
+      };
+    case "building": {
+      const condition: ScenarioCondition = {
+        type: "building",
+        building: oneOf(fields.building, `${path}.building`, BuildingType),
+      };
+      if (fields.count !== undefined) {
+        condition.count = integer(fields.count, `${path}.count`, 1);
+      }
+      return condition;
+    }
+    case "legend": {
+      if (!LEGEND_TIERS.includes(fields.tier as LegendTier)) {
+        fail(`${path}.tier must be one of ${LEGEND_TIERS.join(", ")}`);
+      }
+      const condition: ScenarioCondition = {
+        type: "legend",
+        tier: fields.tier as LegendTier,
+      };
+      if (fields.count !== undefined) {
+        condition.count = integer(fields.count, `${path}.count`, 1);
+      }
+      return condition;
+    }
+    case "no_starvation":
+      return {
+        type: "no_starvation",
+        days: number(fields.days, `${path}.days`, 0),
+      };
+    default:
+      fail(
+        `${path}.type must be one of population, survive_days, building, legend, no_starvation`,
+      );
+  }
+}
+
+function parseConditions(
+  value: unknown,
+  path: string,
+): Partial<ScenarioConditions> {
+  const fields = object(value, path);
+  const conditions: Partial<ScenarioConditions> = {};
+  for (const key of ["victory", "failure"] as const) {
+    if (fields[key] === undefined) continue;
+    conditions[key] = list(fields[key], `${path}.${key}`).map((item, i) =>
+      parseCondition(item, `${path}.${key}[${i}]`),
+    );
+  }
+  return conditions;
+}
+
+function requireUnique(ids: string[], path: string): void {
+  const seen = new Set<string>();
+  for (const id of ids) {
+    if (seen.has(id)) fail(`${path} has a duplicate ID "${id}"`);
+    seen.add(id);
+  }
+}
+
+/**
+ * Validates a scenario read from a file or a request body.
+ *
+ * Unknown top-level sections are rejected so typos do not silently fall
+ * back to defaults. Relations and parents must name scenario agents; with no
+ * `agents` section they may also name the founding family.
+ *
+ * @throws Error naming the first invalid field, e.g.
+ *   `agents[2].traits.aggression must be between 0 and 1`
+ */
+export function parseScenario(value: unknown): Scenario {
+  const fields = object(value, "scenario");
+  const known = [
+    "id",
+    "name",
+    "description",
+    "world",
+    "agents",
+    "relations",
+    "zones",
+    "animals",
+    "resourceAbundance",
+    "systems",
+    "conditions",
+    "batch",
+  ];
+  for (const key of Object.keys(fields)) {
+    if (!known.includes(key)) fail(`${key} is not a scenario section`);
+  }
+
+  if (!isScenarioId(fields.id)) {
+    fail("id must be lowercase letters, digits and dashes");
+  }
+  const scenario: Scenario = {
+    id: fields.id,
+    name: text(fields.name, "name"),
+  };
+  if (fields.description !== undefined) {
+    scenario.description = text(fields.description, "description");
+  }
+
+  if (fields.world !== undefined) {
+    const world = object(fields.world, "world");
+    scenario.world = {};
+    for (const key of ["width", "height"] as const) {
+      if (world[key] === undefined) continue;
+      scenario.world[key] = integer(
+        world[key],
+        `world.${key}`,
+        16,
+        MAX_WORLD_SIZE,
+      );
+    }
+    if (world.seed !== undefined) {
+      scenario.world.seed = text(world.seed, "world.seed");
+    }
+    if (world.terrainSeed !== undefined) {
+      scenario.world.terrainSeed = integer(
+        world.terrainSeed,
+        "world.terrainSeed",
+        0,
+      );
+    }
+  }
+
+  if (fields.agents !== undefined) {
+    const agents = list(fields.agents, "agents");
+    if (agents.length > MAX_AGENTS)
+      fail(`agents must be at most ${MAX_AGENTS}`);
+    scenario.agents = agents.map((agent, i) =>
+      parseAgent(agent, `agents[${i}]`),
+    );
+    requireUnique(
+      scenario.agents.map((agent) => agent.id),
+      "agents",
+    );
+  }
+  const agentIds = new Set(scenario.agents?.map((agent) => agent.id) ?? []);
+  const checkAgent = (id: string, path: string): void => {
+    if (scenario.agents && !agentIds.has(id)) {
+      fail(`${path} names an unknown agent "${id}"`);
+    }
+  };
+  scenario.agents?.forEach((agent, i) => {
+    if (agent.parents?.father) {
+      checkAgent(agent.parents.father, `agents[${i}].parents.father`);
+    }
+    if (agent.parents?.mother) {
+      checkAgent(agent.parents.mother, `agents[${i}].parents.mother`);
+    }
+  });
+
+  if (fields.relations !== undefined) {
+    scenario.relations = list(fields.relations, "relations").map((item, i) => {
+      const relation = parseRelation(item, `relations[${i}]`);
+      checkAgent(relation.between[0], `relations[${i}].between[0]`);
+      checkAgent(relation.between[1], `relations[${i}].between[1]`);
+      return relation;
+    });
+  }
+
+  if (fields.zones !== undefined) {
+    scenario.zones = list(fields.zones, "zones").map((zone, i) =>
+      parseZone(zone, `zones[${i}]`),
+    );
+    requireUnique(
+      scenario.zones.flatMap((zone) => (zone.id ? [zone.id] : [])),
+      "zones",
+    );
+  }
+
+  if (fields.animals !== undefined) {
+    scenario.animals = list(fields.animals, "animals").map((group, i) =>
+      parseAnimalGroup(group, `animals[${i}]`),
+    );
+  }
+
+  if (fields.resourceAbundance !== undefined) {
+    const abundance = object(fields.resourceAbundance, "resourceAbundance");
+    scenario.resourceAbundance = {};
+    for (const [key, fraction] of Object.entries(abundance)) {
+      const type = oneOf(key, `resourceAbundance.${key}`, WorldResourceType);
+      scenario.resourceAbundance[type] = number(
+        fraction,
+        `resourceAbundance.${key}`,
+        0,
+        1,
+      );
+    }
+  }
+
+  if (fields.systems !== undefined) {
+    const systems = object(fields.systems, "systems");
+    scenario.systems = {};
+    if (systems.disabled !== undefined) {
+      scenario.systems.disabled = list(
+        systems.disabled,
+        "systems.disabled",
+      ).map((name, i) => text(name, `systems.disabled[${i}]`));
+    }
+  }
+
+  if (fields.conditions !== undefined) {
+    scenario.conditions = parseConditions(fields.conditions, "conditions");
+  }
+
+  if (fields.batch !== undefined) {
+    const batch = object(fields.batch, "batch");
+    scenario.batch = {};
+    if (batch.seeds !== undefined) {
+      scenario.batch.seeds = list(batch.seeds, "batch.seeds").map((seed, i) =>
+        text(seed, `batch.seeds[${i}]`),
+      );
+    }
+    for (const key of ["runs", "ticks", "sampleEvery"] as const) {
+      if (batch[key] === undefined) continue;
+      scenario.batch[key] = integer(batch[key], `batch.${key}`, 1);
+    }
+  }
+
+  return scenario;
+}
+
+/**
+ * The part of a scenario kept in the game state.
+ */
+export function toScenarioState(scenario: Scenario): ScenarioState {
+  const state: ScenarioState = {
+    id: scenario.id,
+    name: scenario.name,
+    replacesFamily: scenario.agents !== undefined,
+    replacesInfrastructure: scenario.zones !== undefined,
+    replacesAnimals: scenario.animals !== undefined,
+    resourceAbundance: { ...scenario.resourceAbundance },
+    disabledSystems: [...(scenario.systems?.disabled ?? [])],
+    conditions: {
+      victory: [...(scenario.conditions?.victory ?? [])],
+      failure: [...(scenario.conditions?.failure ?? [])],
+    },
+  };
+  if (scenario.description !== undefined) {
+    state.description = scenario.description;
+  }
+  return state;
+}
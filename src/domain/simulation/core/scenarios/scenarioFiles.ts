@@ -0,0 +1,110 @@
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import type {
+  Scenario,
+  ScenarioSummary,
+} from "../../../../shared/types/simulation/scenario";
+import { isScenarioId, parseScenario } from "./parseScenario";
+
+const SCENARIO_EXTENSIONS = [".yaml", ".yml", ".json"];
+
+/**
+ * Parses the text of a scenario file, as YAML or as JSON by extension.
+ *
+ * @param text - File contents
+ * @param fileName - Name used to pick the format and in error messages
+ * @throws Error if the file is malformed or the scenario is invalid
+ */
+export function parseScenarioText(text: string, fileName: string): Scenario {
+  let value: unknown;
+  try {
+    value =
+      path.extname(fileName) === ".json"
+        ? JSON.parse(text)
+        : (parseYaml(text) as unknown);
+  } catch (error) {
+    throw new Error(
+      `Cannot read ${fileName}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  try {
+    return parseScenario(value);
+  } catch (error) {
+    throw new Error(
+      `${fileName}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Reads a scenario from a path, or by ID from the catalogue directory
+ * (`<dir>/<id>.yaml`, `.yml` or `.json`).
+ *
+ * @param idOrPath - Scenario ID or file path
+ * @param dir - Catalogue directory
+ * @returns The scenario, or null if no file matches
+ * @throws Error if the file is malformed or the scenario is invalid
+ */
+export async function loadScenario(
+  idOrPath: string,
+  dir: string,
+): Promise<Scenario | null> {
+  const candidates = isScenarioId(idOrPath)
+    ? SCENARIO_EXTENSIONS.map((ext) => path.join(dir, `${idOrPath}${ext}`))
+    : [idOrPath];
+
+  for (const file of candidates) {
+    let text: string;
+    try {
+      text = await readFile(file, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") continue;
+      throw error;
+    }
+    return parseScenarioText(text, path.basename(file));
+  }
+  return null;
+}
+
+/**
+ * Lists the valid scenarios of the catalogue directory, sorted by ID.
+ * Invalid files are skipped; a missing directory is an empty catalogue.
+ *
+ * @param dir - Catalogue directory
+ * @param onInvalid - Called with the error of every skipped file
+ */
+export async function listScenarios(
+  dir: string,
+  onInvalid?: (file: string, error: Error) => void,
+): Promise<ScenarioSummary[]> {
+  let files: string[];
+  try {
+    files = await readdir(dir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  const summaries: ScenarioSummary[] = [];
+  for (const file of files.sort()) {
+    if (!SCENARIO_EXTENSIONS.includes(path.extname(file))) continue;
+    try {
+      const scenario = parseScenarioText(
+        await readFile(path.join(dir, file), "utf8"),
+        file,
+      );
+      const summary: ScenarioSummary = { id: scenario.id, name: scenario.name };
+      if (scenario.description !== undefined) {
+        summary.description = scenario.description;
+      }
+      summaries.push(summary);
+    } catch (error) {
+      onInvalid?.(
+        file,
+        error instanceof Error ? error : new Error(String(error)),
+      );
+    }
+  }
+  return summaries.sort((a, b) => a.id.localeCompare(b.id));
+}
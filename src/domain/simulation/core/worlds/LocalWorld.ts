@@ -0,0 +1,80 @@
+import { WorldStatus } from "../../../../shared/constants/StatusEnums";
+import type {
+  SimulationCommand,
+  SimulationRequest,
+  SimulationSnapshot,
+} from "../../../../shared/types/commands/SimulationCommand";
+import type { WorldInfo } from "../../../../shared/types/simulation/worlds";
+import type { SimulationRunner } from "../SimulationRunner";
+import {
+  answerSimulationRequest,
+  type SimulationRequestPayload,
+} from "./requests";
+import type { SimulationWorld, SimulationWorldEvents } from "./SimulationWorld";
+
+/**
+ * The world of a runner living on the calling thread: the default world,
+ * and the one inside each world worker.
+ */
+export class LocalWorld implements SimulationWorld {
+  private readonly createdAt = Date.now();
+
+  constructor(
+    public readonly id: string,
+    private readonly runner: SimulationRunner,
+    private readonly isDefault = false,
+  ) {}
+
+  on<E extends keyof SimulationWorldEvents>(
+    event: E,
+    listener: SimulationWorldEvents[E],
+  ): void {
+    this.runner.on(event, listener);
+  }
+
+  off<E extends keyof SimulationWorldEvents>(
+    event: E,
+    listener: SimulationWorldEvents[E],
+  ): void {
+    this.runner.off(event, listener);
+  }
+
+  getInfo(): Promise<WorldInfo> {
+    return Promise.resolve({
+      id: this.id,
+      status: this.runner.isPaused() ? WorldStatus.PAUSED : WorldStatus.RUNNING,
+      tick: this.runner.getTickCounter(),
+      population: this.runner.state.agents.filter((agent) => !agent.isDead)
+        .length,
+      deterministic: this.runner.isDeterministic(),
+      seed: this.runner.getSeed(),
+      scenario: this.runner.state.scenario?.id ?? null,
+      createdAt: this.createdAt,
+      isDefault: this.isDefault,
+    });
+  }
+
+  getInitialSnapshot(): Promise<SimulationSnapshot> {
+    return Promise.resolve(this.runner.getInitialSnapshot());
+  }
+
+  request(request: SimulationRequest): Promise<SimulationRequestPayload> {
+    return answerSimulationRequest(this.runner, request);
+  }
+
+  enqueueCommand(command: SimulationCommand): Promise<boolean> {
+    return Promise.resolve(this.runner.enqueueCommand(command));
+  }
+
+  pause(): Promise<boolean> {
+    return this.runner.pause();
+  }
+
+  resume(): Promise<boolean> {
+    return Promise.resolve(this.runner.resume());
+  }
+
+  save(): Promise<void> {
+    return this.runner.saveSimulation();
+  }
+}
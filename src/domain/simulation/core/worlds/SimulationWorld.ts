@@ -0,0 +1,68 @@
+import type {
+  SimulationCommand,
+  SimulationRequest,
+  SimulationSnapshot,
+} from "../../../../shared/types/commands/SimulationCommand";
+import type { SaveLoadResult } from "../../../../shared/types/simulation/replay";
+import type { WorldInfo } from "../../../../shared/types/simulation/worlds";
+import type { SimulationRequestPayload } from "./requests";
+
+/**
+ * Events a world emits to the connections streaming it.
+ */
+export interface SimulationWorldEvents {
+  /** A tick finished */
+  tick: (snapshot: SimulationSnapshot) => void;
+  /** A save was hot-loaded; streams must start over with a full snapshot */
+  stateLoaded: (result: SaveLoadResult) => void;
+  /** The world was destroyed; connections should close */
+  destroyed: () => void;
+}
+
+/**
+ * A simulation hosted by the server, either the default one running on the
+ * main thread or one running in its own worker.
+ *
+ * Every operation is asynchronous so callers do not need to know where the
+ * world runs.
+ */
+export interface SimulationWorld {
+  readonly id: string;
+
+  on<E extends keyof SimulationWorldEvents>(
+    event: E,
+    listener: SimulationWorldEvents[E],
+  ): void;
+  off<E extends keyof SimulationWorldEvents>(
+    event: E,
+    listener: SimulationWorldEvents[E],
+  ): void;
+
+  getInfo(): Promise<WorldInfo>;
+  getInitialSnapshot(): Promise<SimulationSnapshot>;
+
+  /**
+   * Answers a client request, reporting failures in the payload.
+   */
+  request(request: SimulationRequest): Promise<SimulationRequestPayload>;
+
+  /**
+   * @returns False if the command queue is full
+   */
+  enqueueCommand(command: SimulationCommand): Promise<boolean>;
+
+  /**
+   * @returns False if the world was not running
+   */
+  pause(): Promise<boolean>;
+
+  /**
+   * @returns False if the world was not paused
+   */
+  resume(): Promise<boolean>;
+
+  /**
+   * Writes a save to the world's save slot.
+   */
+  save(): Promise<void>;
+}
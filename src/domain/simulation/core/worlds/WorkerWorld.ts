@@ -0,0 +1,277 @@
+import { EventEmitter } from "node:events";
+import type { Worker } from "node:worker_threads";
+import { logger } from "../../../../infrastructure/utils/logger";
+import {
+  StorageFilePrefix,
+  WorldStatus,
+} from "../../../../shared/constants/StatusEnums";
+import {
+  WorkerMessageType,
+  WorldWorkerCall,
+} from "../../../../shared/constants/WebSocketEnums";
+import type {
+  SimulationCommand,
+  SimulationRequest,
+  SimulationSnapshot,
+} from "../../../../shared/types/commands/SimulationCommand";
+import type {
+  WorldInfo,
+  WorldOptions,
+} from "../../../../shared/types/simulation/worlds";
+import { spawnModuleWorker } from "../runner/moduleWorker";
+import type { SimulationRequestPayload } from "./requests";
+import type { SimulationWorld, SimulationWorldEvents } from "./SimulationWorld";
+import type {
+  WorldWorkerData,
+  WorldWorkerEvent,
+  WorldWorkerMessage,
+} from "./WorldWorker";
+
+/**
+ * Starts the thread of a world. Replaceable in tests.
+ */
+export type WorldWorkerFactory = (
+  data: WorldWorkerData,
+  saveNamespace: string,
+) => Worker;
+
+interface PendingCall {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Storage namespace of a world: its saves, tags and journal are stored as
+ * `world_<id>.save_...` and so on, next to the default world's objects.
+ */
+export function getWorldSaveNamespace(worldId: string): string {
+  return `${StorageFilePrefix.WORLD}${worldId}.`;
+}
+
+const spawnWorldWorker: WorldWorkerFactory = (data, saveNamespace) =>
+  spawnModuleWorker("./WorldWorker", import.meta.url, {
+    name: `world-${data.worldId}`,
+    workerData: data,
+    env: { ...process.env, SAVE_NAMESPACE: saveNamespace },
+  });
+
+/**
+ * A world running in its own worker thread (see WorldWorker).
+ *
+ * Operations are forwarded as calls and answered asynchronously. Ticks are
+ * only sent by the worker while something listens to `tick` here, so idle
+ * worlds cost no snapshot copies between threads.
+ */
+export class WorkerWorld implements SimulationWorld {
+  /** Time the worker gets to save and stop before being terminated */
+  private readonly SHUTDOWN_TIMEOUT_MS = 30000;
+
+  private readonly emitter = new EventEmitter();
+  private readonly pending = new Map<number, PendingCall>();
+  private nextCallId = 1;
+  private worker?: Worker;
+  private terminating = false;
+  private info: WorldInfo;
+
+  constructor(
+    public readonly id: string,
+    private readonly options: WorldOptions = {},
+    private readonly createWorker: WorldWorkerFactory = spawnWorldWorker,
+  ) {
+    this.info = {
+      id,
+      status: WorldStatus.STARTING,
+      tick: 0,
+      population: 0,
+      deterministic: options.deterministic ?? false,
+      seed: options.seed ?? options.scenario?.world?.seed ?? null,
+      scenario: options.scenario?.id ?? null,
+      createdAt: Date.now(),
+      isDefault: false,
+    };
+  }
+
+  /**
+   * Spawns the worker and waits until its simulation is running.
+   *
+   * @throws Error if the world fails to start
+   */
+  public start(): Promise<WorldInfo> {
+    const worker = this.createWorker(
+      { worldId: this.id, options: this.options },
+      getWorldSaveNamespace(this.id),
+    );
+    this.worker = worker;
+
+    return new Promise<WorldInfo>((resolve, reject) => {
+      worker.on("message", (event: WorldWorkerEvent) => {
+        switch (event.type) {
+          case WorkerMessageType.READY:
+            this.info = { ...event.info, createdAt: this.info.createdAt };
+            resolve(this.info);
+            break;
+          case WorkerMessageType.ERROR:
+            reject(new Error(event.error));
+            void this.terminate();
+            break;
+          default:
+            this.handleEvent(event);
+        }
+      });
+      worker.on("error", (error) => {
+        logger.error(`World "${this.id}" worker failed:`, error);
+        reject(error);
+      });
+      worker.on("exit", (code) => {
+        reject(new Error(`World worker exited with code ${code}`));
+        this.handleExit(code);
+      });
+    });
+  }
+
+  /**
+   * Saves and stops the world, then terminates its worker. Connections get
+   * `destroyed`.
+   */
+  public async destroy(): Promise<void> {
+    if (!this.worker) return;
+    try {
+      await Promise.race([
+        this.call(WorldWorkerCall.SHUTDOWN),
+        new Promise((_, reject) =>
+          setTimeout(
+            () => reject(new Error("Shutdown timed out")),
+            this.SHUTDOWN_TIMEOUT_MS,
+          ).unref(),
+        ),
+      ]);
+    } catch (error) {
+      logger.warn(`World "${this.id}" did not shut down cleanly:`, error);
+    }
+    await this.terminate();
+  }
+
+  on<E extends keyof SimulationWorldEvents>(
+    event: E,
+    listener: SimulationWorldEvents[E],
+  ): void {
+    this.emitter.on(event, listener);
+    if (event === "tick" && this.emitter.listenerCount("tick") === 1) {
+      this.post({ type: WorkerMessageType.STREAM, enabled: true });
+    }
+  }
+
+  off<E extends keyof SimulationWorldEvents>(
+    event: E,
+    listener: SimulationWorldEvents[E],
+  ): void {
+    this.emitter.off(event, listener);
+    if (event === "tick" && this.emitter.listenerCount("tick") === 0) {
+      this.post({ type: WorkerMessageType.STREAM, enabled: false });
+    }
+  }
+
+  async getInfo(): Promise<WorldInfo> {
+    if (
+      this.info.status === WorldStatus.STARTING ||
+      this.info.status === WorldStatus.STOPPED
+    ) {
+      return { ...this.info };
+    }
+    const info = await this.call<WorldInfo>(WorldWorkerCall.STATUS);
+    this.info = { ...info, createdAt: this.info.createdAt };
+    return { ...this.info };
+  }
+
+  getInitialSnapshot(): Promise<SimulationSnapshot> {
+    return this.call<SimulationSnapshot>(WorldWorkerCall.SNAPSHOT);
+  }
+
+  request(request: SimulationRequest): Promise<SimulationRequestPayload> {
+    return this.call<SimulationRequestPayload>(
+      WorldWorkerCall.REQUEST,
+      request,
+    );
+  }
+
+  enqueueCommand(command: SimulationCommand): Promise<boolean> {
+    return this.call<boolean>(WorldWorkerCall.COMMAND, command);
+  }
+
+  pause(): Promise<boolean> {
+    return this.call<boolean>(WorldWorkerCall.PAUSE);
+  }
+
+  resume(): Promise<boolean> {
+    return this.call<boolean>(WorldWorkerCall.RESUME);
+  }
+
+  save(): Promise<void> {
+    return this.call<void>(WorldWorkerCall.SAVE);
+  }
+
+  private call<T>(call: WorldWorkerCall, args?: unknown): Promise<T> {
+    if (!this.worker || this.info.status === WorldStatus.STOPPED) {
+      return Promise.reject(new Error(`World "${this.id}" is not running`));
+    }
+    const callId = this.nextCallId++;
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(callId, {
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      });
+      this.post({ type: WorkerMessageType.CALL, callId, call, args });
+    });
+  }
+
+  private post(message: WorldWorkerMessage): void {
+    this.worker?.postMessage(message);
+  }
+
+  private handleEvent(event: WorldWorkerEvent): void {
+    switch (event.type) {
+      case WorkerMessageType.RESULT: {
+        const pending = this.pending.get(event.callId);
+        if (!pending) return;
+        this.pending.delete(event.callId);
+        if (event.ok) {
+          pending.resolve(event.result);
+        } else {
+          pending.reject(new Error(event.error ?? "World call failed"));
+        }
+        break;
+      }
+      case WorkerMessageType.TICK:
+        this.emitter.emit("tick", event.snapshot);
+        break;
+      case WorkerMessageType.STATE_LOADED:
+        this.emitter.emit("stateLoaded", event.result);
+        break;
+    }
+  }
+
+  private handleExit(code: number): void {
+    if (this.info.status === WorldStatus.STOPPED) return;
+    if (code !== 0 && !this.terminating) {
+      logger.warn(`World "${this.id}" worker exited with code ${code}`);
+    }
+    this.info = { ...this.info, status: WorldStatus.STOPPED };
+    this.worker = undefined;
+
+    const error = new Error(`World "${this.id}" stopped`);
+    for (const pending of this.pending.values()) {
+      pending.reject(error);
+    }
+    this.pending.clear();
+    this.emitter.emit("destroyed");
+    this.emitter.removeAllListeners();
+  }
+
+  private async terminate(): Promise<void> {
+    const worker = this.worker;
+    if (!worker) return;
+    this.terminating = true;
+    const code = await worker.terminate();
+    this.handleExit(code);
+  }
+}
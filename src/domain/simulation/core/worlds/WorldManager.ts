@@ -0,0 +1,182 @@
+import { randomUUID } from "node:crypto";
+import { CONFIG } from "../../../../config/config";
+import { logger } from "../../../../infrastructure/utils/logger";
+import type {
+  WorldInfo,
+  WorldOptions,
+} from "../../../../shared/types/simulation/worlds";
+import { isScenarioId } from "../scenarios/parseScenario";
+import type { SimulationWorld } from "./SimulationWorld";
+import { WorkerWorld } from "./WorkerWorld";
+
+/** ID of the world served at `/ws/sim` and `/api/sim` */
+export const DEFAULT_WORLD_ID = "default";
+
+const WORLD_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/;
+
+/**
+ * A validated request to create a world.
+ */
+export interface WorldCreateRequest {
+  id: string;
+  options: WorldOptions;
+  /** Scenario ID in the catalogue, or an inline scenario still to validate */
+  scenario?: string | Record<string, unknown>;
+}
+
+/**
+ * A world the manager can start and destroy.
+ */
+export interface HostedWorld extends SimulationWorld {
+  start(): Promise<WorldInfo>;
+  destroy(): Promise<void>;
+}
+
+/**
+ * Validates the body of a world creation request: an optional `id` (lowercase
+ * letters, digits and dashes, at most 32 characters; generated when absent),
+ * an optional string `seed`, an optional boolean `deterministic` and an
+ * optional `scenario`, given as a catalogue ID or as an inline object.
+ *
+ * @returns The request, or null if the body is invalid
+ */
+export function parseWorldCreateRequest(
+  value: unknown,
+): WorldCreateRequest | null {
+  const body = (value ?? {}) as Record<string, unknown>;
+  if (typeof body !== "object" || Array.isArray(body)) return null;
+
+  const { id, seed, deterministic, scenario } = body;
+  if (id !== undefined && (typeof id !== "string" || !isWorldId(id))) {
+    return null;
+  }
+  if (seed !== undefined && (typeof seed !== "string" || seed.length > 100)) {
+    return null;
+  }
+  if (deterministic !== undefined && typeof deterministic !== "boolean") {
+    return null;
+  }
+  if (
+    scenario !== undefined &&
+    !isScenarioId(scenario) &&
+    (typeof scenario !== "object" ||
+      scenario === null ||
+      Array.isArray(scenario))
+  ) {
+    return null;
+  }
+
+  const options: WorldOptions = {};
+  if (seed !== undefined) options.seed = seed;
+  if (deterministic !== undefined) options.deterministic = deterministic;
+  const request: WorldCreateRequest = {
+    id: id ?? randomUUID().slice(0, 8),
+    options,
+  };
+  if (scenario !== undefined) {
+    request.scenario = scenario as string | Record<string, unknown>;
+  }
+  return request;
+}
+
+export function isWorldId(value: string): boolean {
+  return WORLD_ID_PATTERN.test(value);
+}
+
+/**
+ * Worlds hosted by this process.
+ *
+ * The default world is the main-thread runner and lives as long as the
+ * process. Every other world runs in its own worker with its own container,
+ * tick loop and save slot, and is created and destroyed over the API, up to
+ * `SIMULATION.MAX_WORLDS` at a time. A destroyed world keeps its saves, so
+ * creating a world with the same ID resumes it.
+ */
+export class WorldManager {
+  private readonly worlds = new Map<string, HostedWorld>();
+
+  constructor(
+    private readonly defaultWorld: SimulationWorld,
+    private readonly maxWorlds = CONFIG.SIMULATION.MAX_WORLDS,
+    private readonly createWorld: (
+      id: string,
+      options: WorldOptions,
+    ) => HostedWorld = (id, options) => new WorkerWorld(id, options),
+  ) {}
+
+  public get(id: string): SimulationWorld | undefined {
+    return id === DEFAULT_WORLD_ID ? this.defaultWorld : this.worlds.get(id);
+  }
+
+  public has(id: string): boolean {
+    return this.get(id) !== undefined;
+  }
+
+  /**
+   * Whether another world can be created.
+   */
+  public hasCapacity(): boolean {
+    return this.worlds.size < this.maxWorlds;
+  }
+
+  /**
+   * Info of every world, the default one first.
+   */
+  public list(): Promise<WorldInfo[]> {
+    return Promise.all(
+      [this.defaultWorld, ...this.worlds.values()].map((world) =>
+        world.getInfo(),
+      ),
+    );
+  }
+
+  /**
+   * Creates a world and waits until its simulation is running. The ID is
+   * taken as soon as this is called.
+   *
+   * @throws Error if the ID is taken, the limit is reached or the world
+   *   fails to start
+   */
+  public async create(
+    id: string,
+    options: WorldOptions = {},
+  ): Promise<WorldInfo> {
+    if (this.has(id)) {
+      throw new Error(`World "${id}" already exists`);
+    }
+    if (!this.hasCapacity()) {
+      throw new Error(`World limit reached (${this.maxWorlds})`);
+    }
+
+    const world = this.createWorld(id, options);
+    this.worlds.set(id, world);
+    try {
+      const info = await world.start();
+      logger.info(`🌐 World "${id}" created`);
+      return info;
+    } catch (error) {
+      this.worlds.delete(id);
+      await world.destroy();
+      throw error;
+    }
+  }
+
+  /**
+   * Saves, stops and forgets a world.
+   *
+   * @returns False if no such world exists
+   * @throws Error for the default world
+   */
+  public async destroy(id: string): Promise<boolean> {
+    if (id === DEFAULT_WORLD_ID) {
+      throw new Error("The default world cannot be destroyed");
+    }
+    const world = this.worlds.get(id);
+    if (!world) return false;
+
+    this.worlds.delete(id);
+    await world.destroy();
+    logger.info(`🌐 World "${id}" destroyed`);
+    return true;
+  }
+}
@@ -0,0 +1,179 @@
+import "reflect-metadata";
+import { parentPort, workerData } from "node:worker_threads";
+import { container } from "../../../../config/container";
+import { TYPES } from "../../../../config/Types";
+import { CONFIG } from "../../../../config/config";
+import { logger } from "../../../../infrastructure/utils/logger";
+import {
+  WorkerMessageType,
+  WorldWorkerCall,
+} from "../../../../shared/constants/WebSocketEnums";
+import type {
+  SimulationCommand,
+  SimulationConfig,
+  SimulationRequest,
+  SimulationSnapshot,
+} from "../../../../shared/types/commands/SimulationCommand";
+import type { SaveLoadResult } from "../../../../shared/types/simulation/replay";
+import type {
+  WorldInfo,
+  WorldOptions,
+} from "../../../../shared/types/simulation/worlds";
+import type { SimulationRunner } from "../SimulationRunner";
+import { startSimulation } from "./bootstrap";
+import { LocalWorld } from "./LocalWorld";
+
+/**
+ * Passed as `workerData` when spawning a world worker.
+ */
+export interface WorldWorkerData {
+  worldId: string;
+  options: WorldOptions;
+}
+
+/**
+ * Messages from the host to a world worker.
+ */
+export type WorldWorkerMessage =
+  | {
+      type: WorkerMessageType.CALL;
+      callId: number;
+      call: WorldWorkerCall;
+      args?: unknown;
+    }
+  | { type: WorkerMessageType.STREAM; enabled: boolean };
+
+/**
+ * Messages from a world worker to its host.
+ */
+export type WorldWorkerEvent =
+  | { type: WorkerMessageType.READY; info: WorldInfo }
+  | { type: WorkerMessageType.ERROR; error: string }
+  | {
+      type: WorkerMessageType.RESULT;
+      callId: number;
+      ok: boolean;
+      result?: unknown;
+      error?: string;
+    }
+  | { type: WorkerMessageType.TICK; snapshot: SimulationSnapshot }
+  | { type: WorkerMessageType.STATE_LOADED; result: SaveLoadResult };
+
+/**
+ * Worker thread hosting one world.
+ *
+ * Like the replay worker, it runs in its own module graph, so the world gets
+ * private copies of the container, the global event bus, the RNG streams and
+ * the logical clock. Storage is namespaced by the host through
+ * `SAVE_NAMESPACE`, which gives the world its own save slot and journal.
+ * Ticks are only forwarded while the host has clients streaming the world.
+ */
+const { worldId, options } = workerData as WorldWorkerData;
+
+let runner: SimulationRunner | undefined;
+let streaming = false;
+
+function post(event: WorldWorkerEvent): void {
+  parentPort?.postMessage(event);
+}
+
+async function boot(): Promise<LocalWorld> {
+  container
+    .rebindSync<Partial<SimulationConfig>>(TYPES.SimulationConfig)
+    .toConstantValue({
+      seed:
+        options.seed ?? options.scenario?.world?.seed ?? CONFIG.SIMULATION.SEED,
+      deterministic: options.deterministic ?? CONFIG.SIMULATION.DETERMINISTIC,
+      checksumHistory: CONFIG.SIMULATION.CHECKSUM_HISTORY,
+      checksumInterval: CONFIG.SIMULATION.CHECKSUM_INTERVAL,
+    });
+
+  runner = container.get<SimulationRunner>(TYPES.SimulationRunner);
+  if (options.scenario) runner.setScenario(options.scenario);
+  await runner.initialize();
+  await startSimulation(runner);
+
+  runner.on("tick", (snapshot: SimulationSnapshot) => {
+    if (streaming) post({ type: WorkerMessageType.TICK, snapshot });
+  });
+  runner.on("stateLoaded", (result: SaveLoadResult) => {
+    post({ type: WorkerMessageType.STATE_LOADED, result });
+  });
+
+  return new LocalWorld(worldId, runner);
+}
+
+async function shutdown(): Promise<void> {
+  if (!runner) return;
+  await runner.saveSimulation();
+  runner.stop();
+}
+
+function dispatch(
+  world: LocalWorld,
+  call: WorldWorkerCall,
+  args: unknown,
+): Promise<unknown> {
+  switch (call) {
+    case WorldWorkerCall.SNAPSHOT:
+      return world.getInitialSnapshot();
+    case WorldWorkerCall.REQUEST:
+      return world.request(args as SimulationRequest);
+    case WorldWorkerCall.COMMAND:
+      return world.enqueueCommand(args as SimulationCommand);
+    case WorldWorkerCall.STATUS:
+      return world.getInfo();
+    case WorldWorkerCall.PAUSE:
+      return world.pause();
+    case WorldWorkerCall.RESUME:
+      return world.resume();
+    case WorldWorkerCall.SAVE:
+      return world.save();
+    case WorldWorkerCall.SHUTDOWN:
+      return shutdown();
+    default:
+      return Promise.reject(new Error(`Unknown world call "${String(call)}"`));
+  }
+}
+
+const ready = boot();
+
+ready
+  .then(async (world) => {
+    logger.info(`🌐 World "${worldId}" running in worker`);
+    post({ type: WorkerMessageType.READY, info: await world.getInfo() });
+  })
+  .catch((error: unknown) => {
+    logger.error(`❌ World "${worldId}" failed to start:`, error);
+    post({
+      type: WorkerMessageType.ERROR,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  });
+
+parentPort?.on("message", (message: WorldWorkerMessage) => {
+  if (message.type === WorkerMessageType.STREAM) {
+    streaming = message.enabled;
+    return;
+  }
+  if (message.type !== WorkerMessageType.CALL) return;
+
+  ready
+    .then((world) => dispatch(world, message.call, message.args))
+    .then((result) => {
+      post({
+        type: WorkerMessageType.RESULT,
+        callId: message.callId,
+        ok: true,
+        result,
+      });
+    })
+    .catch((error: unknown) => {
+      post({
+        type: WorkerMessageType.RESULT,
+        callId: message.callId,
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+});
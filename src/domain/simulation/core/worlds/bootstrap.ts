@@ -0,0 +1,81 @@
+import { logger } from "../../../../infrastructure/utils/logger";
+import { storageService } from "../../../../infrastructure/services/storage/storageService";
+import type { GameState } from "../../../../shared/types/game-types";
+import type { SimulationRunner } from "../SimulationRunner";
+
+/**
+ * Starts an initialized runner from the latest save in its storage, or from
+ * a fresh world when there is no usable save. A fresh world is set up from
+ * the runner's scenario when it has one, and is 128x128 by default.
+ *
+ * @param runner - Runner whose `initialize()` has completed
+ * @returns ID of the save the simulation continues from, or null for a fresh world
+ */
+export async function startSimulation(
+  runner: SimulationRunner,
+): Promise<string | null> {
+  const saves = await storageService.listSaves();
+  if (saves.length > 0) {
+    const latestSaveId = saves[0].id;
+    logger.info(`💾 Found existing save: ${latestSaveId}. Loading...`);
+    const saveData = await storageService.getSave(latestSaveId);
+
+    if (saveData && saveData.state) {
+      const savedState = saveData.state as GameState;
+      Object.assign(runner.state, savedState);
+      runner.state.scenario = savedState.scenario;
+
+      await runner.ensureInitialFamily();
+      runner.syncAllAgentSystems();
+      await runner.restoreRuntime(saveData, latestSaveId);
+
+      logger.info("✅ Backend: State loaded and family verified");
+      runner.start();
+      logger.info("✅ Backend: Simulation started from save");
+      return latestSaveId;
+    }
+    logger.warn("⚠️ Saved state invalid. Falling back to fresh world.");
+  } else {
+    logger.info("🆕 No valid save found. Initializing fresh world...");
+  }
+
+  await startFreshWorld(runner);
+  return null;
+}
+
+/**
+ * Initializes a fresh world and starts the simulation.
+ */
+async function startFreshWorld(runner: SimulationRunner): Promise<void> {
+  await prepareFreshWorld(runner);
+  runner.start();
+  logger.info("✅ Backend: Simulation started and running");
+}
+
+/**
+ * Generates the terrain and the starting population of a fresh world without
+ * starting the simulation.
+ *
+ * The world is 128x128 tiles at 32px per tile, or the size of the runner's
+ * scenario, with no predefined biomes.
+ *
+ * @param runner - Runner whose `initialize()` has completed
+ * @param size - World size in tiles, overriding the scenario's
+ */
+export async function prepareFreshWorld(
+  runner: SimulationRunner,
+  size?: { width: number; height: number },
+): Promise<void> {
+  const world = runner.getScenario()?.world;
+  await runner.initializeWorldResources({
+    width: size?.width ?? world?.width ?? 128,
+    height: size?.height ?? world?.height ?? 128,
+    tileSize: 32,
+    biomeMap: [],
+    seed: world?.terrainSeed,
+  });
+  logger.info("🌍 Backend: World resources initialized");
+  await runner.restoreRuntime(null);
+  await runner.populateWorld();
+  logger.info("✅ Backend: Initial population ensured");
+}
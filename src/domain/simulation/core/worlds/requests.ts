@@ -0,0 +1,94 @@
+import { logger } from "../../../../infrastructure/utils/logger";
+import { isSaveId } from "../../../../infrastructure/services/storage/storageService";
+import { SimulationRequestType } from "../../../../shared/constants/CommandEnums";
+import type {
+  SimulationRequest,
+  SimulationSnapshot,
+} from "../../../../shared/types/commands/SimulationCommand";
+import type { SimulationRunner } from "../SimulationRunner";
+
+/**
+ * Payload of a RESPONSE message.
+ */
+export type SimulationRequestPayload =
+  SimulationSnapshot | Record<string, unknown> | null;
+
+/**
+ * Answers a client request against a runner.
+ *
+ * Never rejects: failures are reported as `{ error }` in the payload so the
+ * client can match them by requestId. Unknown request types answer null.
+ *
+ * @param runner - Runner of the world the request targets
+ * @param request - Request received from the client
+ */
+export async function answerSimulationRequest(
+  runner: SimulationRunner,
+  request: SimulationRequest,
+): Promise<SimulationRequestPayload> {
+  switch (request.type) {
+    case SimulationRequestType.REQUEST_FULL_STATE:
+      return runner.getInitialSnapshot();
+    case SimulationRequestType.REQUEST_ENTITY_DETAILS:
+      return runner.getEntityDetails(request.entityId) || null;
+    case SimulationRequestType.REQUEST_PLAYER_ID:
+      return { playerId: runner.getPlayerId() };
+    case SimulationRequestType.REQUEST_STATE_AT_TICK:
+      return replay(runner, request.tick);
+    case SimulationRequestType.REQUEST_LOAD_SAVE:
+      return load(runner, request.saveId);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Loads a save into the running simulation.
+ */
+async function load(
+  runner: SimulationRunner,
+  saveId: unknown,
+): Promise<Record<string, unknown>> {
+  if (!isSaveId(saveId)) {
+    return { error: "Invalid save ID format" };
+  }
+  if (runner.isLoadingSave()) {
+    return { error: "A save is already being loaded" };
+  }
+
+  try {
+    const result = await runner.loadSave(saveId);
+    return result ? { ...result } : { error: "Save not found" };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : "Unknown error";
+    logger.error("Load request failed:", errorMessage);
+    return { error: "Failed to load save" };
+  }
+}
+
+/**
+ * Rebuilds the state at a past tick. Replays are slow, which is why every
+ * request is answered asynchronously.
+ */
+async function replay(
+  runner: SimulationRunner,
+  tick: number,
+): Promise<Record<string, unknown>> {
+  if (!Number.isInteger(tick) || tick < 0 || tick > runner.getTickCounter()) {
+    return { error: "Invalid tick", currentTick: runner.getTickCounter() };
+  }
+  if (!runner.isDeterministic()) {
+    return { error: "Replays require deterministic mode" };
+  }
+
+  try {
+    const result = await runner.replayToTick(tick);
+    return result
+      ? { ...result }
+      : { error: "No save found at or before the requested tick" };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : "Unknown error";
+    logger.error("Replay request failed:", errorMessage);
+    return { error: "Failed to replay simulation" };
+  }
+}
@@ -17,6 +17,7 @@ import type {
   ResourceType,
   Inventory,
 } from "@/shared/types/simulation/economy";
+import type { BlessingType } from "@/shared/types/simulation/divine";
 
 /**
  * Port for LifeCycleSystem operations
@@ -109,9 +110,15 @@ export interface IInventoryPort {
   getAgentInventory(agentId: string): Inventory | undefined;
 
   /**
-   * Adds resources to agent's inventory
+   * Adds resources to agent's inventory. Food may name its FoodCatalog id,
+   * which sets how fast it spoils.
    */
-  addResource(agentId: string, resource: ResourceType, amount: number): boolean;
+  addResource(
+    agentId: string,
+    resource: ResourceType,
+    amount: number,
+    foodId?: string,
+  ): boolean;
 
   /**
    * Removes resources from agent's inventory
@@ -310,3 +317,49 @@ export interface IHouseholdPort {
    */
   removeAgentFromHousehold(agentId: string): void;
 }
+
+/**
+ * Port for DivineSystem operations
+ *
+ * Lets systems apply active blessings without depending on the
+ * concrete DivineSystem.
+ */
+export interface IDivinePort {
+  /**
+   * Combined magnitude of the active blessings of a type that cover an agent
+   * (1.0 when none apply)
+   */
+  getBlessingMultiplier(agentId: string, type: BlessingType): number;
+}
+
+/**
+ * Contract for systems whose private runtime state is stored in saves
+ *
+ * Each registered system gets its own section in `SaveData.systems`, tagged
+ * with `persistenceVersion`, so its shape can evolve without bumping the
+ * save format.
+ */
+export interface Persistable<T = unknown> {
+  /**
+   * Version of the shape returned by serialize(); bump it whenever old data
+   * can no longer be restored as-is
+   */
+  readonly persistenceVersion: number;
+
+  /**
+   * Returns a JSON-safe copy of the system state
+   */
+  serialize(): T;
+
+  /**
+   * Replaces the system state with serialized data, or clears it when the
+   * save has nothing usable for this system
+   */
+  restore(data: T | null): void;
+
+  /**
+   * Upgrades data written by an older persistenceVersion. Without it, older
+   * sections are discarded.
+   */
+  migrateState?(data: unknown, fromVersion: number): T;
+}
@@ -26,6 +26,7 @@ import type { AgentProfile } from "@/shared/types/simulation/agents";
 import type { AIState } from "@/shared/types/simulation/ai";
 import type { EntityNeedsData } from "@/shared/types/simulation/needs";
 import type { Inventory } from "@/shared/types/simulation/economy";
+import { getSimulationTime } from "../../../../shared/FrameTime";
 
 /**
  * Movement state interface (compatible with MovementSystem.EntityMovementState)
@@ -393,7 +394,7 @@ export class AgentRegistry {
     cellSize: number;
     cells: Map<string, AgentProfile[]>;
   } | null {
-    const now = Date.now();
+    const now = getSimulationTime();
     if (
       !this.agentSpatialCache ||
       now - this.agentSpatialCache.timestamp > this.AGENT_SPATIAL_CACHE_TTL
@@ -22,6 +22,7 @@ import { logger } from "@/infrastructure/utils/logger";
 import { injectable, inject } from "inversify";
 import { TYPES } from "../../../../config/Types";
 import { SystemProperty } from "../../../../shared/constants/SystemEnums";
+import { getSimulationTime } from "../../../../shared/FrameTime";
 
 const DESIRE_THRESHOLDS: Partial<
   Record<NeedType, { high: number; low?: number }>
@@ -78,11 +79,11 @@ export class AmbientAwarenessSystem {
         worldPulseRate: 1,
         weatherBias: WeatherType.CLEAR,
       },
-      lastUpdated: Date.now(),
+      lastUpdated: getSimulationTime(),
     };
 
     this.resourceSnapshot = {
-      updatedAt: Date.now(),
+      updatedAt: getSimulationTime(),
       desires: [],
       fields: [],
       stats: {
@@ -96,7 +97,7 @@ export class AmbientAwarenessSystem {
   }
 
   public update(_deltaMs: number): void {
-    const now = Date.now();
+    const now = getSimulationTime();
     const wellbeing = this.computeWellbeing();
     const ambientState = this.computeAmbientState(wellbeing);
 
@@ -23,6 +23,7 @@ import {
   type EquipmentStats,
 } from "../../../data/EquipmentStats";
 import { RoleType } from "../../../../shared/constants/RoleEnums";
+import { getSimulationTime } from "../../../../shared/FrameTime";
 
 /**
  * A stored tool with quantity tracking.
@@ -101,7 +102,7 @@ export class EquipmentSystem {
     if (!this.equipmentByAgent.has(agentId)) {
       this.equipmentByAgent.set(agentId, {
         slots: {},
-        lastChanged: Date.now(),
+        lastChanged: getSimulationTime(),
       });
     }
   }
@@ -123,7 +124,7 @@ export class EquipmentSystem {
 
     const previousItem = equipment.slots[slot];
     equipment.slots[slot] = itemId;
-    equipment.lastChanged = Date.now();
+    equipment.lastChanged = getSimulationTime();
 
     return previousItem;
   }
@@ -140,7 +141,7 @@ export class EquipmentSystem {
 
     const previousItem = equipment.slots[slot];
     delete equipment.slots[slot];
-    equipment.lastChanged = Date.now();
+    equipment.lastChanged = getSimulationTime();
 
     return previousItem;
   }
@@ -299,12 +300,12 @@ export class EquipmentSystem {
     const existing = this.toolStorage.get(itemId);
     if (existing) {
       existing.quantity += quantity;
-      existing.lastAdded = Date.now();
+      existing.lastAdded = getSimulationTime();
     } else {
       this.toolStorage.set(itemId, {
         itemId,
         quantity,
-        lastAdded: Date.now(),
+        lastAdded: getSimulationTime(),
       });
     }
     logger.debug(`🔧 [ToolStorage] Deposited ${quantity}x ${itemId}`);
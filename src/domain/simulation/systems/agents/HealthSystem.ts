@@ -0,0 +1,614 @@
+import type { GameState } from "@/shared/types/game-types";
+import type {
+  AgentHealthDetails,
+  AgentHealthRecord,
+  DiseaseConfig,
+  DiseaseId,
+  HealthState,
+  Wound,
+  WoundCause,
+} from "@/shared/types/simulation/health";
+import type {
+  AgentPredispositions,
+  AgentProfile,
+} from "@/shared/types/simulation/agents";
+import type { SimulationEntity } from "../../core/schema";
+import { simulationEvents, GameEventType } from "../../core/events";
+import { logger } from "../../../../infrastructure/utils/logger";
+import { RandomUtils } from "../../../../shared/utils/RandomUtils";
+import { NeedType } from "../../../../shared/constants/AIEnums";
+import { EntityType } from "../../../../shared/constants/EntityEnums";
+import { RoleType } from "../../../../shared/constants/RoleEnums";
+import { ZoneType } from "../../../../shared/constants/ZoneEnums";
+import { getAnimalConfig } from "../world/config/AnimalConfigs";
+import { AgentGenetics } from "../lifecycle/AgentGenetics";
+import type { NeedsSystem } from "./needs/NeedsSystem";
+import type { RoleSystem } from "./RoleSystem";
+import type { LifeCycleSystem } from "../lifecycle/LifeCycleSystem";
+import type { AnimalSystem } from "../world/animals/AnimalSystem";
+import type { SharedSpatialIndex } from "../../core/SharedSpatialIndex";
+import type { StateDirtyTracker } from "../../core/StateDirtyTracker";
+
+import { injectable, inject, optional } from "inversify";
+import { TYPES } from "../../../../config/Types";
+import { getSimulationTime } from "../../../../shared/FrameTime";
+
+export const DISEASES: Record<DiseaseId, DiseaseConfig> = {
+  fever: {
+    id: "fever",
+    name: "Fiebre",
+    contagion: 0.02,
+    spreadRadius: 60,
+    healthDrain: 0.05,
+    energyDrain: 0.05,
+    recoveryTime: 240000,
+    immunityTime: 1200000,
+  },
+  dysentery: {
+    id: "dysentery",
+    name: "Disentería",
+    contagion: 0.005,
+    spreadRadius: 30,
+    healthDrain: 0.08,
+    energyDrain: 0.1,
+    recoveryTime: 180000,
+    immunityTime: 600000,
+  },
+  infection: {
+    id: "infection",
+    name: "Herida infectada",
+    contagion: 0,
+    spreadRadius: 0,
+    healthDrain: 0.1,
+    energyDrain: 0.03,
+    recoveryTime: 300000,
+    immunityTime: 0,
+  },
+};
+
+const HEALTH_CONFIG = {
+  maxHealth: 100,
+  /** Health a wound gives back per second as it heals, without care */
+  woundHealPerSecond: 0.05,
+  /** Health regained per second by agents with no illness nor wound */
+  naturalRegenPerSecond: 0.02,
+  /** Hygiene below which agents risk fever and infected wounds */
+  hygieneRiskThreshold: 30,
+  /** Chance per second of catching fever at zero hygiene */
+  lowHygieneFeverChance: 0.002,
+  /** Chance per second of a wound getting infected at zero hygiene */
+  woundInfectionChance: 0.005,
+  /** Chance of getting hurt when killing prey, and predators */
+  huntWoundChance: 0.1,
+  predatorHuntWoundChance: 0.4,
+  /** Severity of hunting wounds from animals without an attack damage */
+  huntWoundSeverity: 5,
+  /** Extra recovery speed inside a medical zone */
+  medicalZoneBonus: 1,
+  /** Extra recovery speed next to a healer, times the healer's efficiency */
+  healerBonus: 1,
+  healerRange: 80,
+};
+
+/**
+ * HealthSystem — diseases, wounds and recovery.
+ *
+ * Responsibilities:
+ * - Record wounds from combat hits (COMBAT_HIT) and hunts (ANIMAL_HUNTED)
+ *   and heal them over time, giving the health back
+ * - Spread contagious diseases to agents nearby, found through the
+ *   SharedSpatialIndex; agents with poor hygiene catch them more easily
+ * - Make agents ill from risk factors: poor hygiene brings fever and
+ *   infects wounds, spoiled food (FOOD_POISONING) brings dysentery
+ * - Drain health and energy while ill; agents whose health runs out die
+ * - Speed up recovery inside medical zones and next to healers
+ * - Apply the heritable immunity and healing of each agent's genome
+ * - Make agents immune to a disease for a while after they recover
+ *
+ * State lives in `gameState.health`, so it survives saves and shows up in
+ * snapshots. Health itself stays in the entity stats, shared with combat.
+ *
+ * Events emitted: DISEASE_CONTRACTED, DISEASE_RECOVERED, AGENT_WOUNDED,
+ * WOUND_HEALED
+ */
+@injectable()
+export class HealthSystem {
+  public readonly name = "health";
+  private woundCounter = 0;
+
+  constructor(
+    @inject(TYPES.GameState) private readonly gameState: GameState,
+    @inject(TYPES.NeedsSystem)
+    @optional()
+    private readonly needsSystem?: NeedsSystem,
+    @inject(TYPES.RoleSystem)
+    @optional()
+    private readonly roleSystem?: RoleSystem,
+    @inject(TYPES.SharedSpatialIndex)
+    @optional()
+    private readonly spatialIndex?: SharedSpatialIndex,
+    @inject(TYPES.LifeCycleSystem)
+    @optional()
+    private readonly lifeCycleSystem?: LifeCycleSystem,
+    @inject(TYPES.AnimalSystem)
+    @optional()
+    private readonly animalSystem?: AnimalSystem,
+    @inject(TYPES.StateDirtyTracker)
+    @optional()
+    private readonly dirtyTracker?: StateDirtyTracker,
+  ) {
+    this.setupEventListeners();
+  }
+
+  private setupEventListeners(): void {
+    simulationEvents.on(
+      GameEventType.COMBAT_HIT,
+      (data: { targetId: string; damage: number }) => {
+        this.addWound(data.targetId, data.damage, "combat");
+      },
+    );
+
+    simulationEvents.on(
+      GameEventType.ANIMAL_HUNTED,
+      (data: { animalId: string; hunterId: string }) => {
+        const animal = this.animalSystem?.getAnimal(data.animalId);
+        const config = animal ? getAnimalConfig(animal.type) : undefined;
+        const chance = config?.isPredator
+          ? HEALTH_CONFIG.predatorHuntWoundChance
+          : HEALTH_CONFIG.huntWoundChance;
+        if (!RandomUtils.chance(chance)) return;
+
+        const severity =
+          config?.attackDamage ?? HEALTH_CONFIG.huntWoundSeverity;
+        if (this.addWound(data.hunterId, severity, "hunting")) {
+          this.changeHealth(data.hunterId, -severity);
+        }
+      },
+    );
+
+    simulationEvents.on(
+      GameEventType.FOOD_POISONING,
+      (data: { agentId: string }) => {
+        this.infect(data.agentId, "dysentery");
+      },
+    );
+  }
+
+  public update(deltaMs: number): void {
+    const seconds = Math.max(0, deltaMs) / 1000;
+    if (seconds === 0) return;
+    const now = getSimulationTime();
+    const state = this.getState();
+    const entities = new Map(
+      (this.gameState.entities ?? []).map((e) => [e.id, e]),
+    );
+
+    for (const agent of this.gameState.agents ?? []) {
+      if (agent.isDead) continue;
+      this.applyRiskFactors(agent, seconds);
+    }
+    this.spreadDiseases(seconds);
+
+    const deaths: string[] = [];
+    for (const agent of this.gameState.agents ?? []) {
+      if (agent.isDead) continue;
+      const record = state.records[agent.id];
+      const entity = entities.get(agent.id);
+      if (record) {
+        if (this.updateRecord(agent, record, entity, seconds, now)) {
+          deaths.push(agent.id);
+        }
+      } else if (entity) {
+        this.changeHealth(
+          agent.id,
+          HEALTH_CONFIG.naturalRegenPerSecond * seconds,
+          entity,
+        );
+      }
+    }
+
+    for (const agentId of deaths) {
+      logger.info(`💀 [HealthSystem] ${agentId} died of illness`);
+      delete state.records[agentId];
+      this.lifeCycleSystem?.removeAgent(agentId);
+    }
+
+    for (const agentId of Object.keys(state.records)) {
+      const agent = this.findAgent(agentId);
+      if (!agent || agent.isDead) delete state.records[agentId];
+    }
+
+    this.dirtyTracker?.markDirty("health");
+  }
+
+  /**
+   * Makes an agent ill, unless they already have the disease or are immune.
+   *
+   * @param sourceId - Agent who passed the disease on, if any
+   * @returns Whether the agent fell ill
+   */
+  public infect(
+    agentId: string,
+    diseaseId: DiseaseId,
+    sourceId?: string,
+  ): boolean {
+    const agent = this.findAgent(agentId);
+    if (!agent || agent.isDead) return false;
+
+    const now = getSimulationTime();
+    const record = this.getOrCreateRecord(agentId);
+    if (record.illnesses.some((i) => i.diseaseId === diseaseId)) return false;
+    if ((record.immunities[diseaseId] ?? 0) > now) return false;
+
+    record.illnesses.push({ diseaseId, contractedAt: now, recovery: 0 });
+    logger.debug(`🤒 [HealthSystem] ${agentId} caught ${diseaseId}`);
+    simulationEvents.emit(GameEventType.DISEASE_CONTRACTED, {
+      agentId,
+      diseaseId,
+      sourceId,
+      timestamp: now,
+    });
+    return true;
+  }
+
+  /**
+   * Records a wound. It does not lower health: the damage is taken when the
+   * wound is inflicted, and given back as it heals.
+   *
+   * @returns The wound, or null if the agent is unknown
+   */
+  public addWound(
+    agentId: string,
+    severity: number,
+    cause: WoundCause,
+  ): Wound | null {
+    const agent = this.findAgent(agentId);
+    if (!agent || agent.isDead || severity <= 0) return null;
+
+    const now = getSimulationTime();
+    const wound: Wound = {
+      id: `wound_${++this.woundCounter}_${now}`,
+      cause,
+      severity,
+      inflictedAt: now,
+    };
+    this.getOrCreateRecord(agentId).wounds.push(wound);
+    simulationEvents.emit(GameEventType.AGENT_WOUNDED, {
+      agentId,
+      woundId: wound.id,
+      cause,
+      severity,
+      timestamp: now,
+    });
+    return wound;
+  }
+
+  public getRecord(agentId: string): AgentHealthRecord | undefined {
+    return this.gameState.health?.records[agentId];
+  }
+
+  public getHealth(agentId: string): number {
+    const entity = this.gameState.entities?.find((e) => e.id === agentId);
+    return entity?.stats?.health ?? HEALTH_CONFIG.maxHealth;
+  }
+
+  public getMaxHealth(): number {
+    return HEALTH_CONFIG.maxHealth;
+  }
+
+  /**
+   * Diseases of an agent and the total severity of their wounds, or
+   * undefined if they have neither.
+   */
+  public getAilments(
+    agentId: string,
+  ): { diseases: DiseaseId[]; woundSeverity: number } | undefined {
+    const record = this.getRecord(agentId);
+    if (!record) return undefined;
+    const diseases = record.illnesses.map((i) => i.diseaseId);
+    const woundSeverity = record.wounds.reduce((sum, w) => sum + w.severity, 0);
+    if (diseases.length === 0 && woundSeverity <= 0) return undefined;
+    return { diseases, woundSeverity };
+  }
+
+  public getHealthDetails(agentId: string): AgentHealthDetails {
+    const record = this.getRecord(agentId);
+    return {
+      health: this.getHealth(agentId),
+      maxHealth: HEALTH_CONFIG.maxHealth,
+      illnesses:
+        record?.illnesses.map((i) => ({
+          ...i,
+          name: DISEASES[i.diseaseId].name,
+        })) ?? [],
+      wounds: record?.wounds ?? [],
+      immunities: record?.immunities ?? {},
+    };
+  }
+
+  public findNearestMedicalZone(position: {
+    x: number;
+    y: number;
+  }): { id: string; x: number; y: number } | undefined {
+    let nearest: { id: string; x: number; y: number } | undefined;
+    let bestDistSq = Infinity;
+    for (const zone of this.gameState.zones ?? []) {
+      if (zone.type !== ZoneType.MEDICAL) continue;
+      const x = zone.bounds.x + zone.bounds.width / 2;
+      const y = zone.bounds.y + zone.bounds.height / 2;
+      const distSq = (x - position.x) ** 2 + (y - position.y) ** 2;
+      if (distSq < bestDistSq) {
+        bestDistSq = distSq;
+        nearest = { id: zone.id, x, y };
+      }
+    }
+    return nearest;
+  }
+
+  /**
+   * Speed at which an agent recovers from diseases and wounds; 1 without
+   * care.
+   */
+  public getRecoveryMultiplier(agentId: string): number {
+    const agent = this.findAgent(agentId);
+    if (!agent?.position) return 1;
+
+    let multiplier = 1;
+    if (this.isInMedicalZone(agent.position)) {
+      multiplier += HEALTH_CONFIG.medicalZoneBonus;
+    }
+    multiplier +=
+      HEALTH_CONFIG.healerBonus * this.getNearbyHealerEfficiency(agent);
+    return multiplier;
+  }
+
+  /**
+   * Heals wounds, advances illnesses and expires immunities of an agent.
+   *
+   * @returns Whether the agent died; the caller removes them
+   */
+  private updateRecord(
+    agent: AgentProfile,
+    record: AgentHealthRecord,
+    entity: SimulationEntity | undefined,
+    seconds: number,
+    now: number,
+  ): boolean {
+    const care = this.getRecoveryMultiplier(agent.id);
+    const { healing } = this.getPredispositions(agent);
+
+    let healed = 0;
+    for (const wound of record.wounds) {
+      const amount = Math.min(
+        wound.severity,
+        HEALTH_CONFIG.woundHealPerSecond * care * healing * seconds,
+      );
+      wound.severity -= amount;
+      healed += amount;
+      if (wound.severity <= 0) {
+        simulationEvents.emit(GameEventType.WOUND_HEALED, {
+          agentId: agent.id,
+          woundId: wound.id,
+          cause: wound.cause,
+          timestamp: now,
+        });
+      }
+    }
+    record.wounds = record.wounds.filter((w) => w.severity > 0);
+
+    let drain = 0;
+    for (const illness of record.illnesses) {
+      const disease = DISEASES[illness.diseaseId];
+      drain += disease.healthDrain * seconds;
+      this.needsSystem?.modifyNeed(
+        agent.id,
+        NeedType.ENERGY,
+        -disease.energyDrain * seconds,
+      );
+      illness.recovery = Math.min(
+        1,
+        illness.recovery + ((seconds * 1000) / disease.recoveryTime) * care,
+      );
+      if (illness.recovery >= 1) {
+        if (disease.immunityTime > 0) {
+          record.immunities[disease.id] = now + disease.immunityTime;
+        }
+        logger.debug(
+          `💊 [HealthSystem] ${agent.id} recovered from ${disease.id}`,
+        );
+        simulationEvents.emit(GameEventType.DISEASE_RECOVERED, {
+          agentId: agent.id,
+          diseaseId: disease.id,
+          immuneUntil: record.immunities[disease.id],
+          timestamp: now,
+        });
+      }
+    }
+    record.illnesses = record.illnesses.filter((i) => i.recovery < 1);
+
+    for (const [diseaseId, until] of Object.entries(record.immunities)) {
+      if ((until ?? 0) <= now) {
+        delete record.immunities[diseaseId as DiseaseId];
+      }
+    }
+
+    if (entity) {
+      const regen =
+        record.illnesses.length === 0 && record.wounds.length === 0
+          ? HEALTH_CONFIG.naturalRegenPerSecond * seconds
+          : 0;
+      const health = this.changeHealth(
+        agent.id,
+        healed + regen - drain,
+        entity,
+      );
+      if (health <= 0 && !entity.immortal) return true;
+    }
+
+    if (
+      record.illnesses.length === 0 &&
+      record.wounds.length === 0 &&
+      Object.keys(record.immunities).length === 0
+    ) {
+      delete this.getState().records[agent.id];
+    }
+    return false;
+  }
+
+  /**
+   * Poor hygiene brings fever, and infects the wounds of hurt agents.
+   */
+  private applyRiskFactors(agent: AgentProfile, seconds: number): void {
+    const agentId = agent.id;
+    const hygiene = this.needsSystem?.getNeeds(agentId)?.hygiene;
+    if (hygiene === undefined || hygiene >= HEALTH_CONFIG.hygieneRiskThreshold)
+      return;
+
+    const risk =
+      (1 - hygiene / HEALTH_CONFIG.hygieneRiskThreshold) /
+      this.getPredispositions(agent).immunity;
+    if (
+      RandomUtils.chance(HEALTH_CONFIG.lowHygieneFeverChance * risk * seconds)
+    ) {
+      this.infect(agentId, "fever");
+    }
+    if (
+      this.getRecord(agentId)?.wounds.length &&
+      RandomUtils.chance(HEALTH_CONFIG.woundInfectionChance * risk * seconds)
+    ) {
+      this.infect(agentId, "infection");
+    }
+  }
+
+  /**
+   * Passes contagious diseases to the agents around each ill agent. Agents
+   * with poor hygiene catch them up to twice as easily.
+   */
+  private spreadDiseases(seconds: number): void {
+    if (!this.spatialIndex) return;
+
+    for (const record of Object.values(this.getState().records)) {
+      const position =
+        this.spatialIndex.getPosition(record.agentId) ??
+        this.findAgent(record.agentId)?.position;
+      if (!position) continue;
+
+      for (const illness of [...record.illnesses]) {
+        const disease = DISEASES[illness.diseaseId];
+        if (disease.contagion <= 0) continue;
+
+        const nearby = this.spatialIndex.queryRadius(
+          position,
+          disease.spreadRadius,
+          EntityType.AGENT,
+        );
+        for (const { entity: agentId } of nearby) {
+          if (agentId === record.agentId) continue;
+          const hygiene = this.needsSystem?.getNeeds(agentId)?.hygiene ?? 100;
+          const susceptibility =
+            (2 - hygiene / 100) /
+            this.getPredispositions(this.findAgent(agentId)).immunity;
+          if (
+            RandomUtils.chance(disease.contagion * susceptibility * seconds)
+          ) {
+            this.infect(agentId, disease.id, record.agentId);
+          }
+        }
+        this.spatialIndex.releaseResults(nearby);
+      }
+    }
+  }
+
+  /**
+   * Efficiency of the best healer near an agent, 0 if none. Healers do not
+   * tend to themselves.
+   */
+  private getNearbyHealerEfficiency(agent: AgentProfile): number {
+    if (!this.spatialIndex || !this.roleSystem || !agent.position) return 0;
+
+    const nearby = this.spatialIndex.queryRadius(
+      agent.position,
+      HEALTH_CONFIG.healerRange,
+      EntityType.AGENT,
+    );
+    let best = 0;
+    for (const { entity: agentId } of nearby) {
+      if (agentId === agent.id) continue;
+      const role = this.roleSystem.getAgentRole(agentId);
+      if (role?.roleType === RoleType.HEALER) {
+        best = Math.max(best, role.efficiency);
+      }
+    }
+    this.spatialIndex.releaseResults(nearby);
+    return best;
+  }
+
+  /**
+   * Heritable immunity and healing of an agent; 1 for agents without genome.
+   */
+  private getPredispositions(agent?: AgentProfile): AgentPredispositions {
+    return agent?.genome
+      ? AgentGenetics.expressPredispositions(agent.genome)
+      : { immunity: 1, healing: 1 };
+  }
+
+  private isInMedicalZone(position: { x: number; y: number }): boolean {
+    return (this.gameState.zones ?? []).some(
+      (zone) =>
+        zone.type === ZoneType.MEDICAL &&
+        position.x >= zone.bounds.x &&
+        position.x <= zone.bounds.x + zone.bounds.width &&
+        position.y >= zone.bounds.y &&
+        position.y <= zone.bounds.y + zone.bounds.height,
+    );
+  }
+
+  /**
+   * Changes the health of an agent, kept between 0 and the maximum.
+   *
+   * @returns The new health
+   */
+  private changeHealth(
+    agentId: string,
+    delta: number,
+    entity?: SimulationEntity,
+  ): number {
+    const target =
+      entity ?? this.gameState.entities?.find((e) => e.id === agentId);
+    if (!target) return HEALTH_CONFIG.maxHealth;
+
+    const current = target.stats?.health ?? HEALTH_CONFIG.maxHealth;
+    const health = Math.max(
+      0,
+      Math.min(HEALTH_CONFIG.maxHealth, current + delta),
+    );
+    if (health === current) return health;
+    if (target.stats) {
+      target.stats.health = health;
+    } else {
+      target.stats = { health };
+    }
+    return health;
+  }
+
+  private findAgent(agentId: string): AgentProfile | undefined {
+    return this.gameState.agents?.find((a) => a.id === agentId);
+  }
+
+  private getOrCreateRecord(agentId: string): AgentHealthRecord {
+    const state = this.getState();
+    let record = state.records[agentId];
+    if (!record) {
+      record = { agentId, illnesses: [], wounds: [], immunities: {} };
+      state.records[agentId] = record;
+    }
+    return record;
+  }
+
+  private getState(): HealthState {
+    if (!this.gameState.health) {
+      this.gameState.health = { records: {} };
+    }
+    return this.gameState.health;
+  }
+}
@@ -149,10 +149,27 @@ const ROLE_DEFINITIONS: RoleConfig[] = [
     preferredZoneType: ZoneType.WORK,
     workShifts: [WorkShift.MORNING, WorkShift.AFTERNOON],
   },
+  {
+    type: RoleTypeEnum.HEALER,
+    name: "Sanador",
+    description: "Cuida de enfermos y heridos",
+    primaryResource: undefined,
+    requirements: {
+      minAge: 18,
+      traits: { cooperation: 0.6 },
+    },
+    efficiency: {
+      base: 0.6,
+      traitBonus: { cooperation: 0.3, curiosity: 0.2 },
+    },
+    preferredZoneType: ZoneType.MEDICAL,
+    workShifts: [WorkShift.MORNING, WorkShift.AFTERNOON, WorkShift.EVENING],
+  },
 ];
 
 import { injectable, inject, optional } from "inversify";
 import { TYPES } from "../../../../config/Types";
+import { getSimulationTime } from "../../../../shared/FrameTime";
 
 @injectable()
 export class RoleSystem extends EventEmitter {
@@ -168,7 +185,7 @@ export class RoleSystem extends EventEmitter {
     rest: [],
   };
   private currentShift: WorkShift = WorkShift.MORNING;
-  private lastUpdate = Date.now();
+  private lastUpdate = getSimulationTime();
   private lastStatsUpdate = 0;
   private lastReassignment = 0;
   private agentRegistry?: AgentRegistry;
@@ -187,7 +204,7 @@ export class RoleSystem extends EventEmitter {
       satisfactionDecayPerSecond: 0.0005,
     };
 
-    const now = Date.now();
+    const now = getSimulationTime();
     this.lastUpdate = now;
     this.lastStatsUpdate = now;
     this.lastReassignment = now;
@@ -198,7 +215,7 @@ export class RoleSystem extends EventEmitter {
   public update(_delta: number): void {
     void _delta;
     void _delta;
-    const now = Date.now();
+    const now = getSimulationTime();
     const dt = (now - this.lastUpdate) / 1000;
     if (dt < 1) return;
     this.lastUpdate = now;
@@ -256,7 +273,7 @@ export class RoleSystem extends EventEmitter {
         previousShift,
         currentShift: this.currentShift,
         agentsInShift: this.schedule[this.currentShift],
-        timestamp: Date.now(),
+        timestamp: getSimulationTime(),
       });
     }
   }
@@ -464,7 +481,7 @@ export class RoleSystem extends EventEmitter {
     const role: AgentRole = {
       agentId: agent.id,
       roleType: selectedRole.type,
-      assignedAt: Date.now(),
+      assignedAt: getSimulationTime(),
       currentShift: this.currentShift,
       efficiency,
       experience: 0,
@@ -483,7 +500,7 @@ export class RoleSystem extends EventEmitter {
       roleType: selectedRole.type,
       roleName: selectedRole.name,
       efficiency: role.efficiency,
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
     });
 
     return { success: true, agentId: agent.id, roleType: selectedRole.type };
@@ -532,6 +549,7 @@ export class RoleSystem extends EventEmitter {
       [RoleTypeEnum.GATHERER]: 15,
       [RoleTypeEnum.GUARD]: 8,
       [RoleTypeEnum.HUNTER]: 10,
+      [RoleTypeEnum.HEALER]: 3,
     };
     return limits[roleType as RoleType] || 5;
   }
@@ -588,7 +606,7 @@ export class RoleSystem extends EventEmitter {
     const role: AgentRole = {
       agentId,
       roleType: newRole,
-      assignedAt: Date.now(),
+      assignedAt: getSimulationTime(),
       currentShift: this.currentShift,
       efficiency,
       experience: existing?.experience || 0,
@@ -606,7 +624,7 @@ export class RoleSystem extends EventEmitter {
       newRole: newRole,
       roleName: roleDef.name,
       efficiency: role.efficiency,
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
     });
 
     return { success: true, agentId, roleType: newRole };
@@ -670,13 +688,14 @@ export class RoleSystem extends EventEmitter {
       [RoleTypeEnum.LOGGER]: 0.15,
       [RoleTypeEnum.QUARRYMAN]: 0.1,
       [RoleTypeEnum.MINER]: 0.08,
-      [RoleTypeEnum.BUILDER]: 0.15,
+      [RoleTypeEnum.BUILDER]: 0.12,
       [RoleTypeEnum.FARMER]: 0.13,
       [RoleTypeEnum.GATHERER]: 0.13,
       [RoleTypeEnum.GUARD]: 0.08,
       [RoleTypeEnum.HUNTER]: 0.1,
       [RoleTypeEnum.CRAFTSMAN]: 0.05,
       [RoleTypeEnum.LEADER]: 0.02,
+      [RoleTypeEnum.HEALER]: 0.03,
       [RoleTypeEnum.IDLE]: 0.01,
     };
 
@@ -799,7 +818,7 @@ export class RoleSystem extends EventEmitter {
         previousRole: change.currentRole,
         newRole: change.newRole,
         score: change.score,
-        timestamp: Date.now(),
+        timestamp: getSimulationTime(),
       });
     }
   }
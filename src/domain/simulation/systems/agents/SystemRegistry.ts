@@ -193,6 +193,21 @@ export interface IRoleSystem extends ISystem {
   getRoleConfig(roleType: string): unknown | undefined;
 }
 
+/**
+ * Sistema de salud
+ */
+export interface IHealthSystem extends ISystem {
+  getHealth(agentId: string): number;
+  getMaxHealth(): number;
+  getAilments(
+    agentId: string,
+  ): { diseases: string[]; woundSeverity: number } | undefined;
+  findNearestMedicalZone(position: {
+    x: number;
+    y: number;
+  }): { id: string; x: number; y: number } | undefined;
+}
+
 @injectable()
 export class SystemRegistry {
   private systems = new Map<string, ISystem>();
@@ -207,6 +222,7 @@ export class SystemRegistry {
   public trade?: ITradeSystem;
   public worldQuery?: IWorldQuerySystem;
   public role?: IRoleSystem;
+  public health?: IHealthSystem;
 
   constructor() {
     logger.info("🔧 SystemRegistry: Initialized");
@@ -249,6 +265,9 @@ export class SystemRegistry {
       case SystemName.ROLE:
         this.role = system as unknown as IRoleSystem;
         break;
+      case SystemName.HEALTH:
+        this.health = system as unknown as IHealthSystem;
+        break;
     }
 
     logger.debug(`SystemRegistry: Registered system '${name}'`);
@@ -321,6 +340,9 @@ export class SystemRegistry {
       case SystemName.WORLD_QUERY:
         this.worldQuery = undefined;
         break;
+      case SystemName.HEALTH:
+        this.health = undefined;
+        break;
     }
 
     logger.debug(`SystemRegistry: Unregistered system '${name}'`);
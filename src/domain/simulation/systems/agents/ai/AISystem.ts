@@ -28,11 +28,13 @@ import { TaskQueue } from "./TaskQueue";
 import { runAllDetectors } from "./detectors";
 import { LifeStage } from "@/shared/constants/AgentEnums";
 import { NeedType } from "@/shared/constants/AIEnums";
+import { RoleType } from "@/shared/constants/RoleEnums";
 import { ZoneType } from "@/shared/constants/ZoneEnums";
 import { EquipmentSlot } from "@/shared/constants/EquipmentEnums";
 import { WeaponId } from "@/shared/constants/CraftingEnums";
 import { WorldResourceType } from "@/shared/constants/ResourceEnums";
 import { ItemId } from "@/shared/constants/ItemEnums";
+import type { TimeOfDayPhase } from "@/shared/constants/TimeEnums";
 import {
   handleGather,
   handleAttack,
@@ -46,7 +48,8 @@ import {
   handleDeposit,
   handleTrade,
 } from "./handlers";
-import type { DetectorContext, HandlerContext } from "./types";
+import type { DecisionTrace, DetectorContext, HandlerContext } from "./types";
+import { getConsiderationWeights, scoreTasks } from "./UtilityScorer";
 import {
   type AgentTask,
   TaskType,
@@ -70,6 +73,8 @@ import {
   type ZonesMetadata,
 } from "@/domain/simulation/core/WorldContextCache";
 import { getAnimalConfig } from "../../world/config/AnimalConfigs";
+import type { Persistable } from "../../../ports";
+import { getSimulationTime } from "../../../../../shared/FrameTime";
 
 export interface AISystemDeps {
   gameState: GameState;
@@ -91,6 +96,10 @@ export interface AISystemConfig {
   maxTasksPerAgent: number;
   /** Debug logging */
   debug: boolean;
+  /** Decisiones recientes que se guardan por agente */
+  decisionTraceSize: number;
+  /** Candidatas que se guardan en cada decisión */
+  decisionTraceCandidates: number;
 }
 
 /**
@@ -114,11 +123,23 @@ export interface AIAgentMemory {
   lastExploreTime: number;
 }
 
+/**
+ * Estado privado del AISystem guardado en los saves. Los Set/Map de la
+ * memoria se guardan como arrays (pares clave-valor en los Map).
+ */
+export interface AISystemPersistedState {
+  activeTasks: Record<string, AgentTask>;
+  queues: Record<string, AgentTask[]>;
+  memories: Record<string, Record<string, unknown>>;
+}
+
 const DEFAULT_CONFIG: AISystemConfig = {
   updateInterval: 500, // Base interval - higher for better scalability with 50+ agents
   priorityBoost: 0.1,
   maxTasksPerAgent: 10,
   debug: false,
+  decisionTraceSize: 20,
+  decisionTraceCandidates: 5,
 };
 
 /**
@@ -162,7 +183,12 @@ const PRIORITY_INTERVALS = {
  * ```
  */
 @injectable()
-export class AISystem extends EventEmitter {
+export class AISystem
+  extends EventEmitter
+  implements Persistable<AISystemPersistedState>
+{
+  public readonly persistenceVersion = 1;
+
   private gameState: GameState;
   private agentRegistry?: AgentRegistry;
   private needsSystem?: NeedsSystem;
@@ -181,6 +207,9 @@ export class AISystem extends EventEmitter {
   /** Memoria persistente por agente */
   private agentMemories = new Map<string, AIAgentMemory>();
 
+  /** Últimas decisiones de cada agente, de la más antigua a la más reciente */
+  private decisionTraces = new Map<string, DecisionTrace[]>();
+
   /**
    * Caché de contextos de detección con TTL de 2000ms
    * Increased from 500ms for better scalability with 1000+ agents
@@ -285,7 +314,7 @@ export class AISystem extends EventEmitter {
    */
   public recordExploration(agentId: string): void {
     const memory = this.getAgentMemory(agentId);
-    memory.lastExploreTime = Date.now();
+    memory.lastExploreTime = getSimulationTime();
   }
 
   /**
@@ -306,7 +335,7 @@ export class AISystem extends EventEmitter {
       successfulActivities: new Map<string, unknown>(),
       failedAttempts: new Map<string, unknown>(),
       failedTargets: new Map<string, unknown>(),
-      lastMemoryCleanup: Date.now(),
+      lastMemoryCleanup: getSimulationTime(),
       lastExploreTime: 0,
     };
   }
@@ -503,13 +532,13 @@ export class AISystem extends EventEmitter {
    * Usa jitter inicial para distribuir updates y evitar sincronización.
    */
   public updateAgent(agentId: string, _deltaTimeMs: number): void {
-    const now = Date.now();
+    const now = getSimulationTime();
     let last = this.lastUpdate.get(agentId);
 
     // Initialize with random offset to stagger agent updates
     // This prevents all agents from updating on the same tick
     if (last === undefined) {
-      const stagger = Math.floor(Math.random() * this.config.updateInterval);
+      const stagger = RandomUtils.intRange(0, this.config.updateInterval - 1);
       last = now - stagger;
       this.lastUpdate.set(agentId, last);
     }
@@ -526,9 +555,7 @@ export class AISystem extends EventEmitter {
       existingTask.priority >= TASK_PRIORITIES.HIGH ||
       this.hasUrgentNeeds(agentId);
 
-    if (needsFullUpdate) {
-      this.runDetectors(agentId);
-    }
+    const trace = needsFullUpdate ? this.runDetectors(agentId) : undefined;
     // else: agent has low-priority active task and no urgent needs
     // Skip detector run entirely - task will continue and detectors run next full cycle
 
@@ -565,6 +592,15 @@ export class AISystem extends EventEmitter {
     }
 
     const task = this.activeTask.get(agentId);
+    if (trace && task) {
+      trace.chosen = {
+        taskId: task.id,
+        type: task.type,
+        priority: task.priority,
+        source: task.source,
+        continued: task === existingTask,
+      };
+    }
     if (task) {
       this.executeTask(agentId, task);
     }
@@ -682,7 +718,7 @@ export class AISystem extends EventEmitter {
         target: task.target,
         params: task.params,
         source: task.source ?? "ai_system",
-        createdAt: task.createdAt ?? Date.now(),
+        createdAt: task.createdAt ?? getSimulationTime(),
         expiresAt: task.expiresAt,
       },
       position,
@@ -724,13 +760,19 @@ export class AISystem extends EventEmitter {
    * Ejecuta detectores internos como backup.
    * Los sistemas externos deberían emitir tareas directamente,
    * pero los detectores sirven como fallback.
+   *
+   * Las tareas se encolan con su puntuación de utilidad como prioridad.
+   * Devuelve el registro de la decisión si hubo candidatas.
    */
-  private runDetectors(agentId: string): void {
+  private runDetectors(agentId: string): DecisionTrace | undefined {
     const ctx = this.buildDetectorContext(agentId);
-    if (!ctx) return;
+    if (!ctx) return undefined;
 
     const tasks = runAllDetectors(ctx);
+    const scored = scoreTasks(tasks, ctx);
+    const scores = new Map(scored.map((c) => [c.taskId, c.score]));
     for (const task of tasks) {
+      task.priority = scores.get(task.id) ?? task.priority;
       this.taskQueue.enqueue(
         agentId,
         task as AgentTask,
@@ -743,6 +785,29 @@ export class AISystem extends EventEmitter {
         `[AISystem] runDetectors ${agentId}: ${tasks.length} tasks enqueued, types=${tasks.map((t) => t.type).join(",")}`,
       );
     }
+
+    if (scored.length === 0) return undefined;
+    return this.recordDecision(agentId, {
+      timestamp: ctx.now,
+      weights: getConsiderationWeights(ctx.traits),
+      candidates: scored.slice(0, this.config.decisionTraceCandidates),
+    });
+  }
+
+  /**
+   * Guarda una decisión y descarta las que exceden decisionTraceSize.
+   */
+  private recordDecision(agentId: string, trace: DecisionTrace): DecisionTrace {
+    let traces = this.decisionTraces.get(agentId);
+    if (!traces) {
+      traces = [];
+      this.decisionTraces.set(agentId, traces);
+    }
+    traces.push(trace);
+    if (traces.length > this.config.decisionTraceSize) {
+      traces.splice(0, traces.length - this.config.decisionTraceSize);
+    }
+    return trace;
   }
 
   /**
@@ -752,7 +817,7 @@ export class AISystem extends EventEmitter {
    */
   private buildDetectorContext(agentId: string): DetectorContext | null {
     // Verificar caché primero
-    const now = Date.now();
+    const now = getSimulationTime();
     const cached = this.contextCache.get(agentId);
     if (cached && now - cached.timestamp < this.CONTEXT_CACHE_TTL) {
       return cached.context;
@@ -936,6 +1001,7 @@ export class AISystem extends EventEmitter {
     }
 
     const isWorkHours = this.calculateIsWorkHours();
+    const timeOfDay = this.getTimeOfDay();
 
     const equippedWeapon = equipmentSystem.getEquippedItem(
       agentId,
@@ -944,11 +1010,10 @@ export class AISystem extends EventEmitter {
     const hasWeapon =
       equippedWeapon !== undefined && equippedWeapon !== WeaponId.UNARMED;
 
-    const agentNeeds = this.needsSystem?.getNeeds(agentId);
-
-    const health =
-      (agentNeeds as Record<string, number | undefined>)?.health ?? 100;
-    const maxHealth = 100;
+    const healthSystem = this.systemRegistry?.health;
+    const health = healthSystem?.getHealth(agentId) ?? 100;
+    const maxHealth = healthSystem?.getMaxHealth() ?? 100;
+    const ailments = healthSystem?.getAilments(agentId);
 
     let roleType: string | undefined;
     const roleSystem = this.systemRegistry?.role;
@@ -957,6 +1022,11 @@ export class AISystem extends EventEmitter {
       roleType = agentRole?.roleType;
     }
 
+    const nearestMedicalZone =
+      ailments || roleType === RoleType.HEALER
+        ? healthSystem?.findNearestMedicalZone(position)
+        : undefined;
+
     const craftingSystem = this.systemRegistry?.crafting;
     let canCraftClub = false;
     let canCraftDagger = false;
@@ -1088,8 +1158,10 @@ export class AISystem extends EventEmitter {
       agentId,
       position,
       needs,
-      now: Date.now(),
+      now: getSimulationTime(),
       isWorkHours,
+      timeOfDay,
+      traits: this.agentRegistry?.getProfile(agentId)?.traits,
       inventoryLoad,
       inventoryCapacity,
       depositZoneId,
@@ -1101,6 +1173,8 @@ export class AISystem extends EventEmitter {
       equippedWeapon: equippedWeapon ?? WeaponId.UNARMED,
       health,
       maxHealth,
+      ailments,
+      nearestMedicalZone,
       roleType,
 
       canCraftClub,
@@ -1442,6 +1516,7 @@ export class AISystem extends EventEmitter {
     this.taskQueue.clear(agentId);
     this.lastUpdate.delete(agentId);
     this.agentMemories.delete(agentId);
+    this.decisionTraces.delete(agentId);
   }
 
   /**
@@ -1458,6 +1533,14 @@ export class AISystem extends EventEmitter {
     return this.taskQueue.getTasks(agentId);
   }
 
+  /**
+   * Obtiene las últimas decisiones de un agente, de la más reciente a la
+   * más antigua, con las candidatas mejor puntuadas y su desglose.
+   */
+  public getDecisionTraces(agentId: string): readonly DecisionTrace[] {
+    return [...(this.decisionTraces.get(agentId) ?? [])].reverse();
+  }
+
   /**
    * Obtiene estadísticas del sistema.
    */
@@ -1472,6 +1555,71 @@ export class AISystem extends EventEmitter {
     };
   }
 
+  /**
+   * Copia de las tareas activas, las colas y la memoria de cada agente.
+   */
+  public serialize(): AISystemPersistedState {
+    const activeTasks: Record<string, AgentTask> = {};
+    for (const [agentId, task] of this.activeTask) {
+      activeTasks[agentId] = { ...task };
+    }
+
+    const memories: Record<string, Record<string, unknown>> = {};
+    for (const [agentId, memory] of this.agentMemories) {
+      const serialized: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(memory)) {
+        serialized[key] =
+          value instanceof Set
+            ? Array.from(value)
+            : value instanceof Map
+              ? Array.from(value.entries())
+              : value;
+      }
+      memories[agentId] = serialized;
+    }
+
+    return { activeTasks, queues: this.taskQueue.serialize(), memories };
+  }
+
+  /**
+   * Reemplaza tareas, colas y memorias por las de un save. Los campos de
+   * memoria que falten toman el valor de una memoria vacía.
+   */
+  public restore(data: AISystemPersistedState | null): void {
+    this.activeTask.clear();
+    this.lastUpdate.clear();
+    this.agentMemories.clear();
+    this.decisionTraces.clear();
+    this.contextCache.clear();
+    this.taskQueue.restore(data?.queues ?? {});
+    if (!data) return;
+
+    for (const [agentId, task] of Object.entries(data.activeTasks)) {
+      this.activeTask.set(agentId, { ...task });
+    }
+
+    for (const [agentId, serialized] of Object.entries(data.memories)) {
+      const memory = this.createEmptyMemory() as unknown as Record<
+        string,
+        unknown
+      >;
+      for (const [key, empty] of Object.entries(memory)) {
+        const value = serialized[key];
+        if (value === undefined) continue;
+        if (empty instanceof Set) {
+          if (Array.isArray(value)) memory[key] = new Set(value);
+        } else if (empty instanceof Map) {
+          if (Array.isArray(value)) {
+            memory[key] = new Map(value as Array<[string, unknown]>);
+          }
+        } else {
+          memory[key] = value;
+        }
+      }
+      this.agentMemories.set(agentId, memory as unknown as AIAgentMemory);
+    }
+  }
+
   /**
    * Cleanup del sistema.
    */
@@ -1481,6 +1629,17 @@ export class AISystem extends EventEmitter {
     this.removeAllListeners();
   }
 
+  /**
+   * Fase del día según el TimeSystem, si está disponible.
+   */
+  private getTimeOfDay(): TimeOfDayPhase | undefined {
+    try {
+      return this.timeSystem?.getCurrentTime().phase;
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * Determina si es hora de trabajo basándose en el TimeSystem.
    * Horas de trabajo: 6:00 - 18:00 (día completo)
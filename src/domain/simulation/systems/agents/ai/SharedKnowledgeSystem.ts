@@ -7,6 +7,8 @@ import type { SharedSpatialIndex } from "../../../core/SharedSpatialIndex";
 import type { AgentRegistry } from "../../agents/AgentRegistry";
 import { EntityType } from "../../../../../shared/constants/EntityEnums";
 import { logger } from "../../../../../infrastructure/utils/logger";
+import type { Persistable } from "../../../ports";
+import { getSimulationTime } from "../../../../../shared/FrameTime";
 
 export interface ResourceAlert {
   id: string;
@@ -31,6 +33,20 @@ export interface ThreatAlert {
   notifiedAgents: Set<string>;
 }
 
+type PersistedAlert<T extends { notifiedAgents: Set<string> }> = Omit<
+  T,
+  "notifiedAgents"
+> & { notifiedAgents: string[] };
+
+/**
+ * Alerts saved with the world, with their notified agents as arrays.
+ */
+export interface SharedKnowledgePersistedState {
+  resourceAlerts: PersistedAlert<ResourceAlert>[];
+  threatAlerts: PersistedAlert<ThreatAlert>[];
+  alertSeq: number;
+}
+
 /**
  * System for sharing knowledge and alerts among agents.
  *
@@ -44,7 +60,12 @@ export interface ThreatAlert {
  * can benefit from discoveries and warnings of their peers.
  */
 @injectable()
-export class SharedKnowledgeSystem extends EventEmitter {
+export class SharedKnowledgeSystem
+  extends EventEmitter
+  implements Persistable<SharedKnowledgePersistedState>
+{
+  public readonly persistenceVersion = 1;
+
   private gameState: GameState;
   private spatialIndex?: SharedSpatialIndex;
   private agentRegistry?: AgentRegistry;
@@ -91,8 +112,8 @@ export class SharedKnowledgeSystem extends EventEmitter {
       resourceType,
       position,
       reportedBy: agentId,
-      reportedAt: Date.now(),
-      expiresAt: Date.now() + this.RESOURCE_ALERT_DURATION,
+      reportedAt: getSimulationTime(),
+      expiresAt: getSimulationTime() + this.RESOURCE_ALERT_DURATION,
       notifiedAgents: new Set([agentId]),
     };
 
@@ -105,7 +126,7 @@ export class SharedKnowledgeSystem extends EventEmitter {
       resourceId,
       resourceType,
       position,
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
     });
   }
 
@@ -131,8 +152,8 @@ export class SharedKnowledgeSystem extends EventEmitter {
       threatType,
       position,
       reportedBy: agentId,
-      reportedAt: Date.now(),
-      expiresAt: Date.now() + this.THREAT_ALERT_DURATION,
+      reportedAt: getSimulationTime(),
+      expiresAt: getSimulationTime() + this.THREAT_ALERT_DURATION,
       severity,
       notifiedAgents: new Set([agentId]),
     };
@@ -147,7 +168,7 @@ export class SharedKnowledgeSystem extends EventEmitter {
       threatType,
       position,
       severity,
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
     });
   }
 
@@ -255,7 +276,7 @@ export class SharedKnowledgeSystem extends EventEmitter {
    * @returns Array of resource alerts the agent has been notified about
    */
   public getKnownResourceAlerts(agentId: string): ResourceAlert[] {
-    const now = Date.now();
+    const now = getSimulationTime();
     const alerts: ResourceAlert[] = [];
 
     for (const alert of this.resourceAlerts.values()) {
@@ -275,7 +296,7 @@ export class SharedKnowledgeSystem extends EventEmitter {
    * @returns Array of threat alerts the agent has been notified about
    */
   public getKnownThreatAlerts(agentId: string): ThreatAlert[] {
-    const now = Date.now();
+    const now = getSimulationTime();
     const alerts: ThreatAlert[] = [];
 
     for (const alert of this.threatAlerts.values()) {
@@ -293,7 +314,7 @@ export class SharedKnowledgeSystem extends EventEmitter {
    * Should be called periodically by the simulation loop.
    */
   public update(): void {
-    const now = Date.now();
+    const now = getSimulationTime();
 
     if (now % 10000 < 1000) {
       const stats = this.getStats();
@@ -315,6 +336,43 @@ export class SharedKnowledgeSystem extends EventEmitter {
     }
   }
 
+  public serialize(): SharedKnowledgePersistedState {
+    return {
+      resourceAlerts: Array.from(this.resourceAlerts.values(), (alert) => ({
+        ...alert,
+        position: { ...alert.position },
+        notifiedAgents: Array.from(alert.notifiedAgents),
+      })),
+      threatAlerts: Array.from(this.threatAlerts.values(), (alert) => ({
+        ...alert,
+        position: { ...alert.position },
+        notifiedAgents: Array.from(alert.notifiedAgents),
+      })),
+      alertSeq: this.alertSeq,
+    };
+  }
+
+  public restore(data: SharedKnowledgePersistedState | null): void {
+    this.resourceAlerts.clear();
+    this.threatAlerts.clear();
+    this.alertSeq = data?.alertSeq ?? 0;
+
+    for (const alert of data?.resourceAlerts ?? []) {
+      this.resourceAlerts.set(alert.id, {
+        ...alert,
+        position: { ...alert.position },
+        notifiedAgents: new Set(alert.notifiedAgents),
+      });
+    }
+    for (const alert of data?.threatAlerts ?? []) {
+      this.threatAlerts.set(alert.id, {
+        ...alert,
+        position: { ...alert.position },
+        notifiedAgents: new Set(alert.notifiedAgents),
+      });
+    }
+  }
+
   /**
    * Gets stats about current alerts for monitoring.
    */
@@ -323,7 +381,7 @@ export class SharedKnowledgeSystem extends EventEmitter {
     activeThreatAlerts: number;
     totalAgentsNotified: number;
   } {
-    const now = Date.now();
+    const now = getSimulationTime();
     let activeResourceAlerts = 0;
     let activeThreatAlerts = 0;
     const notifiedAgents = new Set<string>();
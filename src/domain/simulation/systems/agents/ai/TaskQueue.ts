@@ -14,6 +14,7 @@ import {
   isTaskExpired,
   isTaskTerminal,
 } from "@/shared/types/simulation/unifiedTasks";
+import { getSimulationTime } from "../../../../../shared/FrameTime";
 
 /**
  * Task Queue Configuration
@@ -149,7 +150,7 @@ export class TaskQueue {
 
       if (terminal || expired) {
         logger.debug(
-          `[TaskQueue] ${agentId} skipped task ${task.type}: terminal=${terminal}, expired=${expired}, expiresAt=${task.expiresAt}, now=${Date.now()}, status=${task.status}`,
+          `[TaskQueue] ${agentId} skipped task ${task.type}: terminal=${terminal}, expired=${expired}, expiresAt=${task.expiresAt}, now=${getSimulationTime()}, status=${task.status}`,
         );
         continue;
       }
@@ -263,7 +264,7 @@ export class TaskQueue {
     const queue = this.queues.get(agentId);
     if (!queue) return 0;
 
-    const now = Date.now();
+    const now = getSimulationTime();
     const before = queue.length;
 
     const filtered = queue.filter(
@@ -309,6 +310,34 @@ export class TaskQueue {
     };
   }
 
+  /**
+   * Copy of every agent's queue, in priority order.
+   */
+  public serialize(): Record<string, AgentTask[]> {
+    const queues: Record<string, AgentTask[]> = {};
+    for (const [agentId, queue] of this.queues) {
+      if (queue.length > 0) {
+        queues[agentId] = queue.map((task) => ({ ...task }));
+      }
+    }
+    return queues;
+  }
+
+  /**
+   * Replaces all queues with serialized ones.
+   */
+  public restore(queues: Record<string, AgentTask[]>): void {
+    this.queues.clear();
+    for (const [agentId, queue] of Object.entries(queues)) {
+      this.queues.set(
+        agentId,
+        queue
+          .map((task) => ({ ...task }))
+          .sort((a, b) => b.priority - a.priority),
+      );
+    }
+  }
+
   /**
    * Find the correct index to insert a task based on priority.
    * Higher priority tasks come first.
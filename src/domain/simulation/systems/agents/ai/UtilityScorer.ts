@@ -0,0 +1,298 @@
+/**
+ * @fileoverview Puntuación de utilidad de las tareas candidatas
+ *
+ * Los detectores proponen tareas con prioridades fijas (TASK_PRIORITIES).
+ * Este módulo ajusta esas prioridades según factores ponderados del agente:
+ * necesidades, rasgos, rol, distancia, riesgo y hora del día.
+ *
+ * Cada factor da un valor entre -1 y 1. Su peso sale de un peso base
+ * modificado por los rasgos del agente (p. ej. la valentía reduce el peso
+ * del riesgo). La puntuación final es la prioridad del detector más la suma
+ * ponderada, con un ajuste acotado para no desplazar a las urgencias.
+ *
+ * @module domain/simulation/systems/agents/ai/UtilityScorer
+ */
+
+import { RoleType } from "@/shared/constants/RoleEnums";
+import { TimeOfDayPhase } from "@/shared/constants/TimeEnums";
+import type { AgentTraits } from "@/shared/types/simulation/agents";
+import {
+  type ConsiderationName,
+  type ConsiderationScore,
+  type DetectorContext,
+  type ScoredCandidate,
+  type Task,
+  TaskType,
+  TASK_PRIORITIES,
+} from "./types";
+
+/** Cambio de prioridad por unidad de valor × peso de un factor */
+const MAX_ADJUSTMENT = 0.05;
+
+/** Cambio máximo de prioridad sumando todos los factores */
+const MAX_TOTAL_ADJUSTMENT = 0.2;
+
+/** Distancia a partir de la cual la tarea se considera lejana del todo */
+const FAR_DISTANCE = 600;
+
+const CONSIDERATIONS: readonly ConsiderationName[] = [
+  "needs",
+  "traits",
+  "role",
+  "distance",
+  "risk",
+  "timeOfDay",
+];
+
+const BASE_WEIGHTS: Record<ConsiderationName, number> = {
+  needs: 1,
+  traits: 0.6,
+  role: 0.6,
+  distance: 0.5,
+  risk: 0.8,
+  timeOfDay: 0.4,
+};
+
+/**
+ * Cuánto cambia cada rasgo el peso de cada factor. Un rasgo en 1 suma el
+ * valor indicado al multiplicador del peso; en 0 lo resta; en 0.5 no cambia.
+ */
+export const TRAIT_WEIGHT_PROFILES: Partial<
+  Record<keyof AgentTraits, Partial<Record<ConsiderationName, number>>>
+> = {
+  diligence: { role: 1, timeOfDay: 0.6 },
+  curiosity: { distance: -0.8 },
+  bravery: { risk: -1 },
+  neuroticism: { risk: 1, needs: 0.6 },
+  aggression: { risk: -0.6 },
+  cooperation: { role: 0.4 },
+};
+
+/** Rasgos que hacen más atractiva cada tarea */
+const TASK_TRAIT_AFFINITY: Partial<Record<TaskType, (keyof AgentTraits)[]>> = {
+  [TaskType.ATTACK]: ["aggression", "bravery"],
+  [TaskType.HUNT]: ["bravery", "aggression"],
+  [TaskType.FLEE]: ["neuroticism"],
+  [TaskType.EXPLORE]: ["curiosity"],
+  [TaskType.GATHER]: ["diligence"],
+  [TaskType.BUILD]: ["diligence"],
+  [TaskType.CRAFT]: ["diligence"],
+  [TaskType.DEPOSIT]: ["diligence"],
+  [TaskType.SOCIALIZE]: ["cooperation", "charisma"],
+  [TaskType.ASSIST]: ["cooperation", "charisma"],
+  [TaskType.TRADE]: ["charisma", "intelligence"],
+};
+
+/** Tareas propias de cada rol */
+const ROLE_TASKS: Partial<Record<RoleType, readonly TaskType[]>> = {
+  [RoleType.LOGGER]: [TaskType.GATHER, TaskType.DEPOSIT],
+  [RoleType.QUARRYMAN]: [TaskType.GATHER, TaskType.DEPOSIT],
+  [RoleType.MINER]: [TaskType.GATHER, TaskType.DEPOSIT],
+  [RoleType.GATHERER]: [TaskType.GATHER, TaskType.DEPOSIT],
+  [RoleType.FARMER]: [TaskType.GATHER, TaskType.DEPOSIT],
+  [RoleType.BUILDER]: [TaskType.BUILD, TaskType.DEPOSIT],
+  [RoleType.GUARD]: [TaskType.ATTACK],
+  [RoleType.HUNTER]: [TaskType.HUNT, TaskType.DEPOSIT],
+  [RoleType.CRAFTSMAN]: [TaskType.CRAFT],
+  [RoleType.LEADER]: [TaskType.SOCIALIZE, TaskType.TRADE],
+  [RoleType.HEALER]: [TaskType.ASSIST],
+};
+
+const WORK_TASKS: ReadonlySet<TaskType> = new Set([
+  TaskType.GATHER,
+  TaskType.DEPOSIT,
+  TaskType.BUILD,
+  TaskType.CRAFT,
+  TaskType.HUNT,
+  TaskType.TRADE,
+]);
+
+const NIGHT_PHASES: ReadonlySet<TimeOfDayPhase> = new Set([
+  TimeOfDayPhase.NIGHT,
+  TimeOfDayPhase.DEEP_NIGHT,
+]);
+
+/**
+ * Peso de cada factor para un agente según sus rasgos.
+ */
+export function getConsiderationWeights(
+  traits?: Readonly<AgentTraits>,
+): Record<ConsiderationName, number> {
+  const weights = { ...BASE_WEIGHTS };
+  if (!traits) return weights;
+
+  for (const name of CONSIDERATIONS) {
+    let multiplier = 1;
+    for (const [trait, profile] of Object.entries(TRAIT_WEIGHT_PROFILES)) {
+      const value = traits[trait as keyof AgentTraits];
+      const delta = profile[name];
+      if (value === undefined || delta === undefined) continue;
+      multiplier += 2 * (value - 0.5) * delta;
+    }
+    weights[name] = Math.max(0, BASE_WEIGHTS[name] * multiplier);
+  }
+  return weights;
+}
+
+/**
+ * Puntúa una tarea candidata.
+ *
+ * Las tareas críticas (prioridad ≥ CRITICAL) pueden subir pero nunca bajar,
+ * para que ningún rasgo impida atender la supervivencia.
+ */
+export function scoreTask(
+  task: Task,
+  ctx: DetectorContext,
+  weights: Record<ConsiderationName, number> = getConsiderationWeights(
+    ctx.traits,
+  ),
+): ScoredCandidate {
+  const considerations: ConsiderationScore[] = CONSIDERATIONS.map((name) => {
+    const value = clamp(EVALUATORS[name](task, ctx), -1, 1);
+    const weight = weights[name];
+    return {
+      name,
+      value,
+      weight,
+      contribution: value * weight * MAX_ADJUSTMENT,
+    };
+  });
+
+  let adjustment = clamp(
+    considerations.reduce((sum, c) => sum + c.contribution, 0),
+    -MAX_TOTAL_ADJUSTMENT,
+    MAX_TOTAL_ADJUSTMENT,
+  );
+  if (task.priority >= TASK_PRIORITIES.CRITICAL) {
+    adjustment = Math.max(0, adjustment);
+  }
+
+  return {
+    taskId: task.id,
+    type: task.type,
+    source: task.source,
+    basePriority: task.priority,
+    score: clamp(task.priority + adjustment, 0, 1),
+    considerations,
+  };
+}
+
+/**
+ * Puntúa todas las tareas y las devuelve de mayor a menor puntuación.
+ */
+export function scoreTasks(
+  tasks: readonly Task[],
+  ctx: DetectorContext,
+): ScoredCandidate[] {
+  const weights = getConsiderationWeights(ctx.traits);
+  return tasks
+    .map((task) => scoreTask(task, ctx, weights))
+    .sort((a, b) => b.score - a.score);
+}
+
+type Evaluator = (task: Task, ctx: DetectorContext) => number;
+
+const EVALUATORS: Record<ConsiderationName, Evaluator> = {
+  /**
+   * Favorece la tarea que atiende una necesidad apremiante y penaliza el
+   * resto mientras el hambre, la sed o el cansancio aprieten.
+   */
+  needs: (task, ctx) => {
+    const needType =
+      task.params?.needType ??
+      (task.type === TaskType.REST ? "energy" : undefined);
+    if (needType) {
+      return 2 * needUrgency(ctx, needType) - 1;
+    }
+    return -Math.max(
+      needUrgency(ctx, "hunger"),
+      needUrgency(ctx, "thirst"),
+      needUrgency(ctx, "energy"),
+    );
+  },
+
+  traits: (task, ctx) => {
+    const affinity = TASK_TRAIT_AFFINITY[task.type];
+    if (!affinity || !ctx.traits) return 0;
+    const values = affinity.map((trait) => ctx.traits?.[trait] ?? 0.5);
+    return 2 * average(values) - 1;
+  },
+
+  role: (task, ctx) => {
+    const roleTasks = ROLE_TASKS[ctx.roleType as RoleType];
+    if (!roleTasks) return 0;
+    if (roleTasks.includes(task.type)) return 1;
+    return WORK_TASKS.has(task.type) ? -0.5 : 0;
+  },
+
+  distance: (task, ctx) => {
+    const target = task.target?.position;
+    if (!target) return 0;
+    const distance = Math.hypot(
+      target.x - ctx.position.x,
+      target.y - ctx.position.y,
+    );
+    return 1 - 2 * Math.min(1, distance / FAR_DISTANCE);
+  },
+
+  /** Enfrentarse es buena idea con salud y arma, y mala bajo amenaza */
+  risk: (task, ctx) => {
+    const healthRatio = (ctx.health ?? 100) / (ctx.maxHealth ?? 100);
+    const threat = ctx.threatLevel ?? 0;
+    const danger = Math.max(
+      threat,
+      (ctx.nearbyPredators?.length ?? 0) > 0 ? 0.5 : 0,
+    );
+    const fightOdds = healthRatio - threat + (ctx.hasWeapon ? 0.3 : -0.3);
+
+    switch (task.type) {
+      case TaskType.ATTACK:
+      case TaskType.HUNT:
+        return fightOdds;
+      case TaskType.FLEE:
+        return -fightOdds;
+      case TaskType.EXPLORE:
+      case TaskType.GATHER:
+        return -danger;
+      default:
+        return 0;
+    }
+  },
+
+  timeOfDay: (task, ctx) => {
+    const isNight =
+      ctx.timeOfDay !== undefined && NIGHT_PHASES.has(ctx.timeOfDay);
+
+    if (task.type === TaskType.REST) return isNight ? 1 : 0;
+    if (task.type === TaskType.EXPLORE && isNight) return -1;
+    if (WORK_TASKS.has(task.type)) {
+      if (ctx.isWorkHours === undefined) return 0;
+      return ctx.isWorkHours ? 0.5 : -0.5;
+    }
+    if (task.type === TaskType.SOCIALIZE && ctx.isWorkHours === false) {
+      return 0.5;
+    }
+    return 0;
+  },
+};
+
+/**
+ * Urgencia (0-1) de una necesidad: 1 cuando está agotada. La salud se mide
+ * contra la salud máxima; el resto de necesidades va de 0 a 100.
+ */
+function needUrgency(ctx: DetectorContext, needType: string): number {
+  if (needType === "health") {
+    return 1 - clamp((ctx.health ?? 100) / (ctx.maxHealth ?? 100), 0, 1);
+  }
+  const key = needType.replace(/_(\w)/g, (_, c: string) => c.toUpperCase());
+  const value = ctx.needs?.[key as keyof NonNullable<DetectorContext["needs"]>];
+  return value === undefined ? 0 : 1 - clamp(value / 100, 0, 1);
+}
+
+function average(values: readonly number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
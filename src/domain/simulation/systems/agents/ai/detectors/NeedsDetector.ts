@@ -33,6 +33,7 @@ const THRESHOLDS = {
 } as const;
 
 const PRIORITIES = SIMULATION_CONSTANTS.PRIORITIES;
+const HEALTH = SIMULATION_CONSTANTS.HEALTH;
 
 const NEEDS_TASK_TTL_MS = 15000;
 
@@ -216,6 +217,9 @@ export function detectNeeds(ctx: DetectorContext): Task[] {
     );
   }
 
+  const careTask = detectCare(ctx);
+  if (careTask) tasks.push(careTask);
+
   if (tasks.length > 0 && RandomUtils.chance(0.1)) {
     logger.debug(
       `[NeedsDetector] ${ctx.agentId}: ${tasks.length} tasks generated. ` +
@@ -225,3 +229,37 @@ export function detectNeeds(ctx: DetectorContext): Task[] {
 
   return tasks;
 }
+
+/**
+ * Agentes enfermos o malheridos buscan cuidados: descansan en la zona médica
+ * más cercana, o donde están si no hay ninguna y su salud es baja.
+ */
+function detectCare(ctx: DetectorContext): Task | undefined {
+  const ailments = ctx.ailments;
+  if (!ailments) return undefined;
+
+  const isIll = ailments.diseases.length > 0;
+  if (!isIll && ailments.woundSeverity < HEALTH.MIN_WOUND_SEVERITY) {
+    return undefined;
+  }
+
+  const healthRatio = (ctx.health ?? 100) / (ctx.maxHealth ?? 100);
+  const zone = ctx.nearestMedicalZone;
+  if (!zone && healthRatio >= HEALTH.REST_HEALTH_THRESHOLD) return undefined;
+
+  let priority: number = PRIORITIES.NORMAL;
+  if (healthRatio < HEALTH.URGENT_CARE_THRESHOLD) priority = PRIORITIES.URGENT;
+  else if (isIll) priority = PRIORITIES.HIGH;
+
+  return createTask({
+    agentId: ctx.agentId,
+    type: TaskType.REST,
+    priority,
+    target: zone
+      ? { zoneId: zone.id, position: { x: zone.x, y: zone.y } }
+      : undefined,
+    params: { needType: "health", action: "seek_care" },
+    source: "needs:care",
+    ttlMs: NEEDS_TASK_TTL_MS,
+  });
+}
@@ -129,6 +129,15 @@ export function detectWork(ctx: DetectorContext): Task[] {
     case RoleType.BUILDER:
       break;
 
+    case RoleType.HEALER:
+      // Healers tend the sick in the medical zone, or gather if there is none
+      if (ctx.nearestMedicalZone) {
+        tasks.push(...detectCareWork(ctx));
+      } else {
+        tasks.push(...detectGatherWork(ctx));
+      }
+      break;
+
     case SocialStatus.WARRIOR:
     case RoleType.GUARD:
       tasks.push(...detectPatrolWork(ctx));
@@ -415,6 +424,22 @@ function detectPatrolWork(ctx: DetectorContext): Task[] {
   return tasks;
 }
 
+function detectCareWork(ctx: DetectorContext): Task[] {
+  const zone = ctx.nearestMedicalZone;
+  if (!zone) return [];
+
+  return [
+    createTask({
+      agentId: ctx.agentId,
+      type: TaskType.EXPLORE,
+      priority: TASK_PRIORITIES.LOW,
+      target: { zoneId: zone.id, position: { x: zone.x, y: zone.y } },
+      params: { reason: "tend_patients" },
+      source: "detector:work:care",
+    }),
+  ];
+}
+
 function calculateWorkPriority(ctx: DetectorContext): number {
   let priority = TASK_PRIORITIES.NORMAL;
 
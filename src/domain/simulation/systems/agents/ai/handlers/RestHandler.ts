@@ -14,14 +14,16 @@ import {
   inProgressResult,
   successResult,
 } from "../types";
+import { moveToPosition, isAtTarget } from "./MoveHandler";
 import { ActivityType } from "../../../../../../shared/constants/MovementEnums";
 import { HandlerResultStatus } from "@/shared/constants/StatusEnums";
 
 /**
  * Maneja el descanso delegando al NeedsSystem.
+ * Si la tarea tiene un destino (p. ej. una zona médica), primero va hasta él.
  */
 export function handleRest(ctx: HandlerContext): HandlerExecutionResult {
-  const { systems, agentId, task } = ctx;
+  const { systems, agentId, task, position } = ctx;
 
   if (task.type !== TaskType.REST) {
     return errorResult("Wrong task type");
@@ -31,6 +33,10 @@ export function handleRest(ctx: HandlerContext): HandlerExecutionResult {
     return errorResult("NeedsSystem not available");
   }
 
+  if (task.target?.position && !isAtTarget(position, task.target.position)) {
+    return moveToPosition(ctx, task.target.position);
+  }
+
   if (systems.movement) {
     systems.movement.startActivity(agentId, ActivityType.RESTING, 5000);
   }
@@ -32,7 +32,22 @@ export {
   isTaskExpired,
 } from "@/shared/types/simulation/unifiedTasks";
 
-export type { Task, DetectorContext, HandlerContext } from "./types";
+export type {
+  Task,
+  DetectorContext,
+  HandlerContext,
+  ConsiderationName,
+  ConsiderationScore,
+  ScoredCandidate,
+  DecisionTrace,
+} from "./types";
+
+export {
+  scoreTask,
+  scoreTasks,
+  getConsiderationWeights,
+  TRAIT_WEIGHT_PROFILES,
+} from "./UtilityScorer";
 
 export { TaskQueue, type TaskQueueConfig } from "./TaskQueue";
 
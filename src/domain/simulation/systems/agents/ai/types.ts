@@ -17,6 +17,9 @@
 import { NeedType, GoalType, ActionType } from "@/shared/constants/AIEnums";
 import type { HandlerResult, SystemRegistry } from "../SystemRegistry";
 import { HandlerResultStatus } from "@/shared/constants/StatusEnums";
+import type { TimeOfDayPhase } from "@/shared/constants/TimeEnums";
+import type { AgentTraits } from "@/shared/types/simulation/agents";
+import { getSimulationTime } from "../../../../../shared/FrameTime";
 
 export type { HandlerResult } from "../SystemRegistry";
 
@@ -161,6 +164,13 @@ export interface DetectorContext {
 
   readonly health?: number;
   readonly maxHealth?: number;
+  /** Enfermedades y gravedad total de las heridas, si el agente tiene alguna */
+  readonly ailments?: Readonly<{
+    diseases: readonly string[];
+    woundSeverity: number;
+  }>;
+  /** Zona médica más cercana (para buscar cuidados) */
+  readonly nearestMedicalZone?: { id: string; x: number; y: number };
 
   readonly inventory?: Readonly<Record<string, number>>;
   readonly inventoryLoad?: number;
@@ -286,6 +296,59 @@ export interface DetectorContext {
     aggression?: number;
     sociability?: number;
   }>;
+  /** Rasgos del agente, usados por la puntuación de utilidad */
+  readonly traits?: Readonly<AgentTraits>;
+  /** Fase del día actual */
+  readonly timeOfDay?: TimeOfDayPhase;
+}
+
+/**
+ * Factores que la puntuación de utilidad pondera para cada tarea candidata.
+ */
+export type ConsiderationName =
+  "needs" | "traits" | "role" | "distance" | "risk" | "timeOfDay";
+
+/**
+ * Aporte de un factor a la puntuación de una tarea.
+ * `value` va de -1 (desaconseja la tarea) a 1 (la favorece).
+ */
+export interface ConsiderationScore {
+  name: ConsiderationName;
+  value: number;
+  weight: number;
+  /** Cambio que produce en la prioridad: value × weight × ajuste máximo */
+  contribution: number;
+}
+
+/**
+ * Tarea candidata con su prioridad de detector y su puntuación final.
+ */
+export interface ScoredCandidate {
+  taskId: string;
+  type: TaskType;
+  source: string;
+  basePriority: number;
+  score: number;
+  considerations: ConsiderationScore[];
+}
+
+/**
+ * Registro de una decisión de un agente: las mejores candidatas con el
+ * desglose de su puntuación y la tarea que quedó activa.
+ */
+export interface DecisionTrace {
+  timestamp: number;
+  /** Pesos de cada factor según los rasgos del agente */
+  weights: Record<ConsiderationName, number>;
+  candidates: ScoredCandidate[];
+  chosen?: {
+    taskId: string;
+    type: string;
+    priority: number;
+    source?: string;
+    /** La tarea ya estaba activa antes de esta decisión */
+    continued: boolean;
+  };
 }
 
 /**
@@ -358,7 +421,7 @@ let taskIdCounter = 0;
  * Crea una nueva tarea con ID único
  */
 export function createTask(params: CreateTaskParams): Task {
-  const now = Date.now();
+  const now = getSimulationTime();
   return {
     id: `task_${++taskIdCounter}_${now}`,
     agentId: params.agentId,
@@ -376,7 +439,10 @@ export function createTask(params: CreateTaskParams): Task {
 /**
  * Verifica si una tarea ha expirado
  */
-export function isTaskExpired(task: Task, now: number = Date.now()): boolean {
+export function isTaskExpired(
+  task: Task,
+  now: number = getSimulationTime(),
+): boolean {
   return task.expiresAt !== undefined && now >= task.expiresAt;
 }
 
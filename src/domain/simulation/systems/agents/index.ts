@@ -24,6 +24,7 @@ export { AgentRegistry } from "./AgentRegistry";
 export type { MovementState } from "./AgentRegistry";
 
 export { RoleSystem } from "./RoleSystem";
+export { HealthSystem } from "./HealthSystem";
 export { EquipmentSystem, equipmentSystem } from "./EquipmentSystem";
 export { AmbientAwarenessSystem } from "./AmbientAwarenessSystem";
 
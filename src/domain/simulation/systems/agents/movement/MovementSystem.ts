@@ -12,7 +12,10 @@ import type { GPUComputeService } from "../../../core/GPUComputeService";
 import type { StateDirtyTracker } from "../../../core/StateDirtyTracker";
 import type { AgentRegistry } from "../../agents/AgentRegistry";
 import type { IMovementSystem } from "../../agents/SystemRegistry";
-import { getFrameTime } from "../../../../../shared/FrameTime";
+import {
+  getFrameTime,
+  getSimulationTime,
+} from "../../../../../shared/FrameTime";
 import { WORLD_CONFIG } from "../../../../../shared/constants/WorldConfig";
 import {
   estimateTravelTime,
@@ -599,7 +602,7 @@ export class MovementSystem extends EventEmitter implements IMovementSystem {
       return false;
     }
 
-    const now = Date.now();
+    const now = getSimulationTime();
     if (state.isPathfinding) {
       if (
         state.pathfindingStartTime &&
@@ -644,7 +647,7 @@ export class MovementSystem extends EventEmitter implements IMovementSystem {
             entityId,
             targetZoneId,
             reason: "no_path_found",
-            timestamp: Date.now(),
+            timestamp: getSimulationTime(),
           });
 
           simulationEvents.emit(GameEventType.AGENT_ACTION_COMPLETE, {
@@ -660,7 +663,7 @@ export class MovementSystem extends EventEmitter implements IMovementSystem {
           `🚶 [moveToZone] ${entityId}: Pathfinding SUCCESS, path length=${pathResult.path.length}, distance=${pathResult.distance.toFixed(0)}`,
         );
 
-        const now = Date.now();
+        const now = getSimulationTime();
         const travelTime = estimateTravelTime(
           pathResult.distance,
           state.fatigue,
@@ -709,7 +712,7 @@ export class MovementSystem extends EventEmitter implements IMovementSystem {
       SIMULATION_CONSTANTS.MOVEMENT.FATIGUE_PENALTY_MULTIPLIER,
     );
 
-    const now = Date.now();
+    const now = getSimulationTime();
 
     state.isMoving = true;
     state.targetZone = undefined;
@@ -876,7 +879,7 @@ export class MovementSystem extends EventEmitter implements IMovementSystem {
     const localGridHeight = Math.abs(endGrid.y - startGrid.y) + 11;
 
     const pathKey = `${startGrid.x},${startGrid.y}->${endGrid.x},${endGrid.y}`;
-    const now = Date.now();
+    const now = getSimulationTime();
     const cached = this.pathCache.get(pathKey);
 
     if (cached && now - cached.timestamp < this.PATH_CACHE_DURATION) {
@@ -985,7 +988,7 @@ export class MovementSystem extends EventEmitter implements IMovementSystem {
   }
 
   private getOptimizedGrid(): number[][] {
-    const now = Date.now();
+    const now = getSimulationTime();
 
     if (
       this.cachedGrid &&
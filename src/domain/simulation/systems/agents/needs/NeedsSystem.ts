@@ -3,7 +3,7 @@ import { GameState } from "@/shared/types/game-types";
 import { EntityNeedsData, NeedsConfig } from "@/shared/types/simulation/needs";
 import { simulationEvents, GameEventType } from "../../../core/events";
 import { logger } from "@/infrastructure/utils/logger";
-import type { ILifeCyclePort } from "../../../ports";
+import type { ILifeCyclePort, IDivinePort } from "../../../ports";
 
 import type { InventorySystem } from "../../economy/InventorySystem";
 import type { SocialSystem } from "../../social/SocialSystem";
@@ -18,7 +18,11 @@ import type { INeedsSystem } from "../../agents/SystemRegistry";
 import type { StateDirtyTracker } from "../../../core/StateDirtyTracker";
 import type { WorldQueryService } from "../../world/WorldQueryService";
 import type { TerrainSystem } from "../../world/TerrainSystem";
-import { getFrameTime } from "../../../../../shared/FrameTime";
+import type { TimeSystem } from "../../core/TimeSystem";
+import {
+  getFrameTime,
+  getSimulationTime,
+} from "../../../../../shared/FrameTime";
 import { performance } from "perf_hooks";
 import { performanceMonitor } from "../../../core/PerformanceMonitor";
 import { FoodCatalog } from "../../../../data/FoodCatalog";
@@ -71,6 +75,7 @@ export class NeedsSystem extends EventEmitter implements INeedsSystem {
 
   private inventorySystem?: InventorySystem;
   private socialSystem?: SocialSystem;
+  private divinePort?: IDivinePort;
 
   private respawnQueue = new Map<string, number>();
 
@@ -101,6 +106,7 @@ export class NeedsSystem extends EventEmitter implements INeedsSystem {
   private agentRegistry?: AgentRegistry;
   private worldQueryService?: WorldQueryService;
   private terrainSystem?: TerrainSystem;
+  private timeSystem?: TimeSystem;
 
   private entityActions = new Map<string, string>();
 
@@ -133,6 +139,9 @@ export class NeedsSystem extends EventEmitter implements INeedsSystem {
     @inject(TYPES.TerrainSystem)
     @optional()
     terrainSystem?: TerrainSystem,
+    @inject(TYPES.TimeSystem)
+    @optional()
+    timeSystem?: TimeSystem,
   ) {
     super();
     this.gameState = gameState;
@@ -142,6 +151,7 @@ export class NeedsSystem extends EventEmitter implements INeedsSystem {
     this.agentRegistry = agentRegistry;
     this.worldQueryService = worldQueryService;
     this.terrainSystem = terrainSystem;
+    this.timeSystem = timeSystem;
     this.config = {
       decayRates: {
         [NeedType.HUNGER]: 0.12, // Reduced from 0.2 to prevent starvation
@@ -197,10 +207,12 @@ export class NeedsSystem extends EventEmitter implements INeedsSystem {
     lifeCyclePort?: ILifeCyclePort;
     inventorySystem?: InventorySystem;
     socialSystem?: SocialSystem;
+    divinePort?: IDivinePort;
   }): void {
     if (systems.lifeCyclePort) this.lifeCyclePort = systems.lifeCyclePort;
     if (systems.inventorySystem) this.inventorySystem = systems.inventorySystem;
     if (systems.socialSystem) this.socialSystem = systems.socialSystem;
+    if (systems.divinePort) this.divinePort = systems.divinePort;
   }
 
   public setEntityAction(entityId: string, actionType: string): void {
@@ -391,8 +403,12 @@ export class NeedsSystem extends EventEmitter implements INeedsSystem {
     const divineModifiers = new Float32Array(entityCount);
     const decayRates = new Float32Array(7);
     decayRates[0] = this.config.decayRates.hunger;
-    decayRates[1] = this.config.decayRates.thirst;
-    decayRates[2] = this.config.decayRates.energy;
+    decayRates[1] =
+      this.config.decayRates.thirst *
+      this.getSeasonDecayMultiplier(NeedType.THIRST);
+    decayRates[2] =
+      this.config.decayRates.energy *
+      this.getSeasonDecayMultiplier(NeedType.ENERGY);
     decayRates[3] = this.config.decayRates.hygiene;
     decayRates[4] = this.config.decayRates.social;
     decayRates[5] = this.config.decayRates.fun;
@@ -403,7 +419,7 @@ export class NeedsSystem extends EventEmitter implements INeedsSystem {
       const entityId = entityIdArray[i];
       ageMultipliers[i] = this.getAgeDecayMultiplier(entityId);
 
-      divineModifiers[i] = 1.0;
+      divineModifiers[i] = this.getDivineDecayModifier(entityId);
     }
 
     await this.batchProcessor.applyDecayBatch(
@@ -480,14 +496,10 @@ export class NeedsSystem extends EventEmitter implements INeedsSystem {
     if (needs.hunger < HUNGER_THRESHOLD && inv.food > 0) {
       const urgency = needs.hunger < HUNGER_CRITICAL ? 2 : 1;
       const toConsume = Math.min(urgency, inv.food);
-      const removed = this.inventorySystem.removeFromAgent(
-        entityId,
-        ResourceType.FOOD,
-        toConsume,
-      );
+      const { eaten: removed, nourishment } = this.eatFood(entityId, toConsume);
 
       if (removed > 0) {
-        const hungerRestore = removed * 15;
+        const hungerRestore = nourishment * 15;
         needs.hunger = Math.min(100, needs.hunger + hungerRestore);
 
         logger.debug(
@@ -500,7 +512,7 @@ export class NeedsSystem extends EventEmitter implements INeedsSystem {
           amount: removed,
           needType: NeedType.HUNGER,
           newValue: needs.hunger,
-          timestamp: Date.now(),
+          timestamp: getSimulationTime(),
         });
       }
     }
@@ -528,7 +540,7 @@ export class NeedsSystem extends EventEmitter implements INeedsSystem {
           amount: removed,
           needType: NeedType.THIRST,
           newValue: needs.thirst,
-          timestamp: Date.now(),
+          timestamp: getSimulationTime(),
         });
       }
     }
@@ -554,9 +566,9 @@ export class NeedsSystem extends EventEmitter implements INeedsSystem {
       const gatherResult = this.tryGatherFromNearbyResource(entityId, NeedType.HUNGER);
       if (gatherResult.gathered) {
         // Immediately consume the gathered food
-        const removed = this.inventorySystem.removeFromAgent(entityId, ResourceType.FOOD, 1);
-        if (removed > 0) {
-          const hungerRestore = 20;
+        const { eaten, nourishment } = this.eatFood(entityId, 1);
+        if (eaten > 0) {
+          const hungerRestore = nourishment * 20;
           needs.hunger = Math.min(100, needs.hunger + hungerRestore);
           logger.debug(
             `🍎 ${entityId} gathered and ate food from ${gatherResult.resourceId} → hunger: ${needs.hunger.toFixed(1)}`,
@@ -664,7 +676,10 @@ export class NeedsSystem extends EventEmitter implements INeedsSystem {
     const cacheKey = `${Math.floor(position.x / 100)},${Math.floor(position.y / 100)}`;
 
     const cached = this.zoneCache.get(cacheKey);
-    if (cached && Date.now() - cached.timestamp < this.ZONE_CACHE_TTL) {
+    if (
+      cached &&
+      getSimulationTime() - cached.timestamp < this.ZONE_CACHE_TTL
+    ) {
       return cached.zones;
     }
 
@@ -677,7 +692,7 @@ export class NeedsSystem extends EventEmitter implements INeedsSystem {
 
     this.zoneCache.set(cacheKey, {
       zones,
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
     });
 
     return zones;
@@ -755,7 +770,7 @@ export class NeedsSystem extends EventEmitter implements INeedsSystem {
       agentId: entityId,
       cause,
       needs: { ...needs },
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
     });
 
     if (this.config.allowRespawn) {
@@ -767,7 +782,7 @@ export class NeedsSystem extends EventEmitter implements INeedsSystem {
   }
 
   private scheduleRespawn(entityId: string, delayMs: number): void {
-    const respawnTime = Date.now() + delayMs;
+    const respawnTime = getSimulationTime() + delayMs;
     this.respawnQueue.set(entityId, respawnTime);
   }
 
@@ -805,12 +820,11 @@ export class NeedsSystem extends EventEmitter implements INeedsSystem {
         const waterSources =
           this.worldQueryService.findResourcesByType(WorldResourceType.WATER_SOURCE);
         if (waterSources.length > 0) {
-          const randomWater =
-            waterSources[Math.floor(Math.random() * waterSources.length)];
+          const randomWater = RandomUtils.element(waterSources);
           if (randomWater?.position) {
             // Spawn 50-100 units away from water
-            const offsetX = (Math.random() - 0.5) * 100;
-            const offsetY = (Math.random() - 0.5) * 100;
+            const offsetX = RandomUtils.floatRange(-50, 50);
+            const offsetY = RandomUtils.floatRange(-50, 50);
             respawnPosition = {
               x: Math.max(
                 50,
@@ -856,7 +870,7 @@ export class NeedsSystem extends EventEmitter implements INeedsSystem {
 
     simulationEvents.emit(GameEventType.AGENT_RESPAWNED, {
       agentId: entityId,
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
       position: respawnPosition, // Include valid position for movement system
     });
   }
@@ -933,6 +947,18 @@ export class NeedsSystem extends EventEmitter implements INeedsSystem {
     needs.energy = Math.min(100, needs.energy + emergencyRest);
   }
 
+  /**
+   * Resilience blessings slow need decay in proportion to their magnitude.
+   */
+  private getDivineDecayModifier(entityId: string): number {
+    if (!this.divinePort) return 1.0;
+    const resilience = this.divinePort.getBlessingMultiplier(
+      entityId,
+      "resilience",
+    );
+    return resilience > 0 ? 1 / resilience : 1.0;
+  }
+
   private applyNeedDecay(
     needs: EntityNeedsData,
     deltaSeconds: number,
@@ -940,10 +966,15 @@ export class NeedsSystem extends EventEmitter implements INeedsSystem {
     action: string = ActionType.IDLE,
   ): void {
     const ageMultiplier = this.getAgeDecayMultiplier(entityId);
+    const divineModifier = this.getDivineDecayModifier(entityId);
     const divineModifiers = this.config.decayRates;
 
     for (const [need, rate] of Object.entries(divineModifiers)) {
-      let finalRate = rate * ageMultiplier;
+      let finalRate =
+        rate *
+        ageMultiplier *
+        divineModifier *
+        this.getSeasonDecayMultiplier(need);
 
       if (need === NeedType.ENERGY) {
         if (action === ActionType.SLEEP) finalRate = -5.0;
@@ -962,6 +993,17 @@ export class NeedsSystem extends EventEmitter implements INeedsSystem {
     }
   }
 
+  /**
+   * Summer heat makes agents thirstier and winter cold tires them sooner.
+   */
+  private getSeasonDecayMultiplier(need: string): number {
+    if (!this.timeSystem) return 1.0;
+    const effects = this.timeSystem.getSeasonEffects();
+    if (need === NeedType.THIRST) return effects.thirstDecay;
+    if (need === NeedType.ENERGY) return effects.energyDecay;
+    return 1.0;
+  }
+
   private getAgeDecayMultiplier(entityId: string): number {
     if (!this.lifeCyclePort) return 1.0;
     const agent = this.lifeCyclePort.getAgent(entityId);
@@ -1208,7 +1250,7 @@ export class NeedsSystem extends EventEmitter implements INeedsSystem {
           agentId: entityId,
           need,
           value,
-          timestamp: Date.now(),
+          timestamp: getSimulationTime(),
         });
       }
     }
@@ -1500,13 +1542,13 @@ export class NeedsSystem extends EventEmitter implements INeedsSystem {
 
       if (needType === NeedType.HUNGER || needType === ResourceType.FOOD) {
         if (inventory && inventory.food > 0) {
-          this.inventorySystem.removeFromAgent(agentId, ResourceType.FOOD, 1);
-          this.satisfyNeed(agentId, NeedType.HUNGER, 25);
+          const restored = this.eatFood(agentId, 1).nourishment * 25;
+          this.satisfyNeed(agentId, NeedType.HUNGER, restored);
           return {
             status: HandlerResultStatus.COMPLETED,
             system: SystemName.NEEDS,
             message: "Consumed food from inventory",
-            data: { needType: NeedType.HUNGER, restored: 25 },
+            data: { needType: NeedType.HUNGER, restored },
           };
         }
       }
@@ -1527,15 +1569,15 @@ export class NeedsSystem extends EventEmitter implements INeedsSystem {
       const gatherResult = this.tryGatherFromNearbyResource(agentId, needType);
       if (gatherResult.gathered) {
         if (needType === NeedType.HUNGER || needType === ResourceType.FOOD) {
-          this.inventorySystem.removeFromAgent(agentId, ResourceType.FOOD, 1);
-          this.satisfyNeed(agentId, NeedType.HUNGER, 25);
+          const restored = this.eatFood(agentId, 1).nourishment * 25;
+          this.satisfyNeed(agentId, NeedType.HUNGER, restored);
           return {
             status: HandlerResultStatus.COMPLETED,
             system: SystemName.NEEDS,
             message: `Gathered and consumed food from ${gatherResult.resourceId}`,
             data: {
               needType: NeedType.HUNGER,
-              restored: 25,
+              restored,
               source: RestoreSource.WORLD,
             },
           };
@@ -1564,6 +1606,48 @@ export class NeedsSystem extends EventEmitter implements INeedsSystem {
     };
   }
 
+  /**
+   * Eats food from an agent's inventory, the oldest fresh food first.
+   * Spoiled food nourishes half as much and may cause food poisoning.
+   *
+   * @returns Units eaten, and how many units of fresh food they are worth
+   */
+  private eatFood(
+    entityId: string,
+    amount: number,
+  ): { eaten: number; nourishment: number } {
+    const portions = this.inventorySystem?.eatFood(entityId, amount) ?? [];
+    let eaten = 0;
+    let spoiled = 0;
+    for (const portion of portions) {
+      eaten += portion.amount;
+      if (portion.spoiled) spoiled += portion.amount;
+    }
+
+    let poisoned = 0;
+    for (let i = 0; i < spoiled; i++) {
+      if (
+        RandomUtils.chance(
+          SIMULATION_CONSTANTS.RESOURCES.SPOILED_FOOD_SICKNESS_CHANCE,
+        )
+      ) {
+        poisoned++;
+      }
+    }
+    if (poisoned > 0) {
+      const needs = this.entityNeeds.get(entityId);
+      if (needs) needs.energy = Math.max(0, needs.energy - poisoned * 10);
+      logger.debug(`🤢 ${entityId} got food poisoning from spoiled food`);
+      simulationEvents.emit(GameEventType.FOOD_POISONING, {
+        agentId: entityId,
+        amount: poisoned,
+        timestamp: getSimulationTime(),
+      });
+    }
+
+    return { eaten, nourishment: eaten - spoiled / 2 };
+  }
+
   /**
    * Try to gather resources from a nearby world resource OR water tile.
    * Used when agent inventory is empty but agent is near a resource source.
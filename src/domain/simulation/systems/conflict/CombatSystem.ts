@@ -1,4 +1,3 @@
-import { randomUUID } from "node:crypto";
 import { RandomUtils } from "@/shared/utils/RandomUtils";
 import type { GameState } from "@/shared/types/game-types";
 import { simulationEvents, GameEventType } from "../../core/events";
@@ -25,7 +24,7 @@ import { EquipmentSlot } from "../../../../shared/constants/EquipmentEnums";
 
 import type { AnimalSystem } from "../world/animals/AnimalSystem";
 import type { ConflictResolutionSystem } from "./ConflictResolutionSystem";
-import { getFrameTime } from "../../../../shared/FrameTime";
+import { getFrameTime, getSimulationTime } from "../../../../shared/FrameTime";
 import { performance } from "node:perf_hooks";
 import { performanceMonitor } from "../../core/PerformanceMonitor";
 import type { GPUComputeService } from "../../core/GPUComputeService";
@@ -64,6 +63,16 @@ export interface PersonalCombatEvent {
   timestamp: number;
 }
 
+/**
+ * Per-agent combat state saved with the world. The combat log itself lives
+ * in `GameState.combatLog`.
+ */
+export interface CombatPersistedState {
+  lastAttackAt: Record<string, number>;
+  equippedWeapons: Record<string, WeaponId>;
+  personalCombatHistory: Record<string, PersonalCombatEvent[]>;
+}
+
 import { injectable, inject, optional } from "inversify";
 import { TYPES } from "../../../../config/Types";
 import { SharedSpatialIndex } from "../../core/SharedSpatialIndex";
@@ -74,6 +83,7 @@ import { ActionType } from "../../../../shared/constants/AIEnums";
 import { HandlerResultStatus } from "@/shared/constants/StatusEnums";
 import { GoalDomain } from "@/shared/constants/AIEnums";
 import { SystemName } from "@/shared/constants/SystemEnums";
+import type { Persistable } from "../../ports";
 
 /**
  * System for managing combat between entities.
@@ -90,10 +100,14 @@ import { SystemName } from "@/shared/constants/SystemEnums";
  * @see WeaponCatalog for weapon definitions
  */
 @injectable()
-export class CombatSystem implements ICombatSystem {
+export class CombatSystem
+  implements ICombatSystem, Persistable<CombatPersistedState>
+{
+  public readonly persistenceVersion = 1;
+
   private readonly config: CombatConfig;
 
-  private lastUpdate = Date.now();
+  private lastUpdate = getSimulationTime();
   private readonly lastAttackAt = new Map<string, number>();
   private readonly equippedWeapons = new Map<string, WeaponId>();
   private readonly maxLogEntries = 200;
@@ -155,7 +169,7 @@ export class CombatSystem implements ICombatSystem {
     event: Omit<PersonalCombatEvent, "timestamp">,
   ): void {
     const history = this.personalCombatHistory.get(agentId) || [];
-    history.unshift({ ...event, timestamp: Date.now() });
+    history.unshift({ ...event, timestamp: getSimulationTime() });
     if (history.length > 10) {
       history.pop();
     }
@@ -813,8 +827,8 @@ export class CombatSystem implements ICombatSystem {
   ): T {
     return {
       ...entry,
-      id: randomUUID(),
-      timestamp: Date.now(),
+      id: `combat_${getSimulationTime()}_${RandomUtils.float().toString(36).slice(2, 11)}`,
+      timestamp: getSimulationTime(),
     } as T;
   }
 
@@ -1041,4 +1055,44 @@ export class CombatSystem implements ICombatSystem {
 
     return lastAttack !== undefined && now - lastAttack < 10000;
   }
+
+  public serialize(): CombatPersistedState {
+    const personalCombatHistory: Record<string, PersonalCombatEvent[]> = {};
+    for (const [agentId, history] of this.personalCombatHistory) {
+      personalCombatHistory[agentId] = history.map((event) => ({ ...event }));
+    }
+    return {
+      lastAttackAt: Object.fromEntries(this.lastAttackAt),
+      equippedWeapons: Object.fromEntries(this.equippedWeapons),
+      personalCombatHistory,
+    };
+  }
+
+  /**
+   * Restores cooldowns, weapons and personal histories, and re-attaches the
+   * combat log to the current `GameState.combatLog`.
+   */
+  public restore(data: CombatPersistedState | null): void {
+    this.lastAttackAt.clear();
+    this.equippedWeapons.clear();
+    this.personalCombatHistory.clear();
+    this.combatLog = this.state.combatLog ?? [];
+    this.state.combatLog = this.combatLog;
+    if (!data) return;
+
+    for (const [agentId, at] of Object.entries(data.lastAttackAt)) {
+      this.lastAttackAt.set(agentId, at);
+    }
+    for (const [agentId, weaponId] of Object.entries(data.equippedWeapons)) {
+      this.equippedWeapons.set(agentId, weaponId);
+    }
+    for (const [agentId, history] of Object.entries(
+      data.personalCombatHistory,
+    )) {
+      this.personalCombatHistory.set(
+        agentId,
+        history.map((event) => ({ ...event })),
+      );
+    }
+  }
 }
@@ -25,6 +25,7 @@ import { ZoneType } from "../../../../shared/constants/ZoneEnums";
 import { logger } from "@/infrastructure/utils/logger";
 import { injectable, inject } from "inversify";
 import { TYPES } from "../../../../config/Types";
+import { getSimulationTime } from "../../../../shared/FrameTime";
 
 const CONFLICT_CONFIG = {
   truce: {
@@ -113,7 +114,7 @@ export class ConflictResolutionSystem {
     damage: number;
   }): { shouldProposeTruce: boolean; cardId?: string; reason?: string } {
     if (!this.firstConflictTime) {
-      this.firstConflictTime = Date.now();
+      this.firstConflictTime = getSimulationTime();
     }
 
     const lowHealth =
@@ -129,7 +130,7 @@ export class ConflictResolutionSystem {
       return { shouldProposeTruce: false };
     }
 
-    const cardId = `truce_${data.attackerId}_${data.targetId}_${Date.now()}`;
+    const cardId = `truce_${data.attackerId}_${data.targetId}_${getSimulationTime()}`;
     this.activeCards.set(cardId, { aId: data.attackerId, bId: data.targetId });
 
     const reason: MediationAttempt["reason"] = lowHealth
@@ -139,7 +140,7 @@ export class ConflictResolutionSystem {
         : ExplorationType.DEFAULT;
 
     const mediation: MediationAttempt = {
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
       cardId,
       attackerId: data.attackerId,
       targetId: data.targetId,
@@ -158,7 +159,7 @@ export class ConflictResolutionSystem {
       reason,
       remainingHealth: data.remaining,
       damage: data.damage,
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
     });
 
     return { shouldProposeTruce: true, cardId, reason };
@@ -193,7 +194,7 @@ export class ConflictResolutionSystem {
     }
 
     const conflict: ConflictRecord = {
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
       attackerId: aId,
       targetId: bId,
       resolved: resolution !== ConflictResolution.CONTINUED,
@@ -221,14 +222,14 @@ export class ConflictResolutionSystem {
         attackerId: aId,
         targetId: bId,
         truceBonus,
-        timestamp: Date.now(),
+        timestamp: getSimulationTime(),
       });
     } else if (choice === ConflictResolutionChoice.CONTINUE) {
       simulationEvents.emit(GameEventType.CONFLICT_TRUCE_REJECTED, {
         cardId,
         attackerId: aId,
         targetId: bId,
-        timestamp: Date.now(),
+        timestamp: getSimulationTime(),
       });
     }
 
@@ -242,7 +243,7 @@ export class ConflictResolutionSystem {
   }
 
   public update(): void {
-    const now = Date.now();
+    const now = getSimulationTime();
 
     const activeCardsCount = this.activeCards.size;
     const activeConflictsCount = this.getActiveConflicts().length;
@@ -304,7 +305,7 @@ export class ConflictResolutionSystem {
   }
 
   public getActiveConflicts(): ActiveConflict[] {
-    const now = Date.now();
+    const now = getSimulationTime();
     return Array.from(this.activeCards.entries()).map(
       ([cardId, meta]: [string, { aId: string; bId: string }]) => ({
         cardId,
@@ -375,12 +376,12 @@ export class ConflictResolutionSystem {
     }
 
     if (!this.firstViolationTime) {
-      this.firstViolationTime = Date.now();
+      this.firstViolationTime = getSimulationTime();
     }
 
     const violation: NormViolation = {
-      id: `${attackerId}_${targetId}_${Date.now()}`,
-      timestamp: Date.now(),
+      id: `${attackerId}_${targetId}_${getSimulationTime()}`,
+      timestamp: getSimulationTime(),
       attackerId,
       targetId,
       zoneId,
@@ -396,7 +397,7 @@ export class ConflictResolutionSystem {
     }
 
     const sanction: SanctionRecord = {
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
       agentId: attackerId,
       violationType: "violence_in_protected_zone",
       reputationPenalty: -0.04,
@@ -414,7 +415,7 @@ export class ConflictResolutionSystem {
       targetId,
       zoneId,
       zoneType,
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
     });
 
     simulationEvents.emit(GameEventType.NORM_SANCTION_APPLIED, {
@@ -423,7 +424,7 @@ export class ConflictResolutionSystem {
       reputationPenalty: sanction.reputationPenalty,
       trustPenalty: sanction.trustPenalty,
       truceDuration: sanction.truceDuration,
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
     });
 
     return {
@@ -439,7 +440,7 @@ export class ConflictResolutionSystem {
     distance: number,
   ): void {
     const dispatch: GuardDispatch = {
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
       guardId,
       targetLocation,
       zoneId,
@@ -501,7 +502,7 @@ export class ConflictResolutionSystem {
 
   public getNormCompliance(): NormComplianceStats {
     const protectedZones = this.getProtectedZones();
-    const now = Date.now();
+    const now = getSimulationTime();
     const dayMs = 24 * 60 * 60 * 1000;
     const elapsedDays = this.firstViolationTime
       ? Math.max(1, (now - this.firstViolationTime) / dayMs)
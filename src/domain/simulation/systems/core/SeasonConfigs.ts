@@ -0,0 +1,115 @@
+import type {
+  BiomeClimate,
+  SeasonEffects,
+} from "@/shared/types/simulation/seasons";
+import { Season } from "../../../../shared/constants/TimeEnums";
+import { WeatherType } from "../../../../shared/constants/AmbientEnums";
+import { BiomeType } from "../../../../shared/constants/BiomeEnums";
+
+/** Seasons in calendar order */
+export const SEASON_ORDER: readonly Season[] = [
+  Season.SPRING,
+  Season.SUMMER,
+  Season.AUTUMN,
+  Season.WINTER,
+];
+
+/**
+ * Fraction of the year at midsummer, where temperatures peak: the middle of
+ * the second season. Midwinter is half a year later.
+ */
+export const MIDSUMMER_YEAR_FRACTION = 0.375;
+
+export const SEASON_EFFECTS: Record<Season, SeasonEffects> = {
+  [Season.SPRING]: {
+    resourceRegrowth: 1.5,
+    farmYield: 1.0,
+    animalBreeding: true,
+    energyDecay: 1.0,
+    thirstDecay: 1.0,
+    weatherWeights: {
+      [WeatherType.CLEAR]: 0.35,
+      [WeatherType.CLOUDY]: 0.3,
+      [WeatherType.RAINY]: 0.25,
+      [WeatherType.STORMY]: 0.05,
+      [WeatherType.FOGGY]: 0.05,
+      [WeatherType.SNOWY]: 0,
+    },
+  },
+  [Season.SUMMER]: {
+    resourceRegrowth: 1.0,
+    farmYield: 1.3,
+    animalBreeding: true,
+    energyDecay: 1.0,
+    thirstDecay: 1.35,
+    weatherWeights: {
+      [WeatherType.CLEAR]: 0.55,
+      [WeatherType.CLOUDY]: 0.2,
+      [WeatherType.RAINY]: 0.08,
+      [WeatherType.STORMY]: 0.12,
+      [WeatherType.FOGGY]: 0.05,
+      [WeatherType.SNOWY]: 0,
+    },
+  },
+  [Season.AUTUMN]: {
+    resourceRegrowth: 0.6,
+    farmYield: 1.1,
+    animalBreeding: false,
+    energyDecay: 1.1,
+    thirstDecay: 0.9,
+    weatherWeights: {
+      [WeatherType.CLEAR]: 0.3,
+      [WeatherType.CLOUDY]: 0.3,
+      [WeatherType.RAINY]: 0.2,
+      [WeatherType.STORMY]: 0.05,
+      [WeatherType.FOGGY]: 0.15,
+      [WeatherType.SNOWY]: 0,
+    },
+  },
+  [Season.WINTER]: {
+    resourceRegrowth: 0.2,
+    farmYield: 0.3,
+    animalBreeding: false,
+    energyDecay: 1.35,
+    thirstDecay: 0.8,
+    weatherWeights: {
+      [WeatherType.CLEAR]: 0.3,
+      [WeatherType.CLOUDY]: 0.3,
+      [WeatherType.RAINY]: 0.05,
+      [WeatherType.STORMY]: 0.05,
+      [WeatherType.FOGGY]: 0.1,
+      [WeatherType.SNOWY]: 0.2,
+    },
+  },
+};
+
+/**
+ * Climate of the world as a whole (the `weather.temperature` of the game
+ * state), and of biomes without a curve of their own.
+ */
+export const DEFAULT_CLIMATE: BiomeClimate = {
+  mean: 15,
+  seasonalAmplitude: 10,
+  dailyAmplitude: 10,
+};
+
+export const BIOME_CLIMATES: Partial<Record<BiomeType, BiomeClimate>> = {
+  [BiomeType.GRASSLAND]: DEFAULT_CLIMATE,
+  [BiomeType.VILLAGE]: DEFAULT_CLIMATE,
+  [BiomeType.FOREST]: { mean: 13, seasonalAmplitude: 9, dailyAmplitude: 6 },
+  [BiomeType.DESERT]: { mean: 27, seasonalAmplitude: 8, dailyAmplitude: 15 },
+  [BiomeType.TUNDRA]: { mean: -4, seasonalAmplitude: 14, dailyAmplitude: 5 },
+  [BiomeType.MOUNTAIN]: { mean: 4, seasonalAmplitude: 12, dailyAmplitude: 8 },
+  [BiomeType.MOUNTAINOUS]: {
+    mean: 4,
+    seasonalAmplitude: 12,
+    dailyAmplitude: 8,
+  },
+  [BiomeType.SWAMP]: { mean: 18, seasonalAmplitude: 6, dailyAmplitude: 4 },
+  [BiomeType.WETLAND]: { mean: 17, seasonalAmplitude: 7, dailyAmplitude: 4 },
+  [BiomeType.BEACH]: { mean: 19, seasonalAmplitude: 7, dailyAmplitude: 5 },
+  [BiomeType.OCEAN]: { mean: 14, seasonalAmplitude: 4, dailyAmplitude: 1 },
+  [BiomeType.RIVER]: { mean: 13, seasonalAmplitude: 8, dailyAmplitude: 3 },
+  [BiomeType.LAKE]: { mean: 13, seasonalAmplitude: 7, dailyAmplitude: 2 },
+  [BiomeType.MYSTICAL]: { mean: 16, seasonalAmplitude: 3, dailyAmplitude: 3 },
+};
@@ -3,11 +3,26 @@ import type { GameState } from "@/shared/types/game-types";
 import { simulationEvents, GameEventType } from "../../core/events";
 import { injectable, inject, unmanaged } from "inversify";
 import { TYPES } from "../../../../config/Types";
-import { TimeOfDayPhase } from "../../../../shared/constants/TimeEnums";
+import type {
+  BiomeClimate,
+  CalendarState,
+  SeasonEffects,
+} from "@/shared/types/simulation/seasons";
+import { CONFIG } from "../../../../config/config";
+import { Season, TimeOfDayPhase } from "../../../../shared/constants/TimeEnums";
 import { WeatherType } from "../../../../shared/constants/AmbientEnums";
+import type { BiomeType } from "../../../../shared/constants/BiomeEnums";
 import { WorkShift } from "../../../../shared/constants/RoleEnums";
 import { logger } from "@/infrastructure/utils/logger";
 import { RandomUtils } from "@/shared/utils/RandomUtils";
+import {
+  BIOME_CLIMATES,
+  DEFAULT_CLIMATE,
+  MIDSUMMER_YEAR_FRACTION,
+  SEASON_EFFECTS,
+  SEASON_ORDER,
+} from "./SeasonConfigs";
+import { getSimulationTime } from "../../../../shared/FrameTime";
 
 export interface TimeOfDay {
   hour: number;
@@ -45,6 +60,7 @@ interface TimeConfig {
   weatherChangeIntervalMs: number;
   weatherDurationMin: number;
   weatherDurationMax: number;
+  daysPerSeason: number;
 }
 
 const DEFAULT_CONFIG: TimeConfig = {
@@ -54,13 +70,34 @@ const DEFAULT_CONFIG: TimeConfig = {
   weatherChangeIntervalMs: 300000,
   weatherDurationMin: 180000,
   weatherDurationMax: 900000,
+  daysPerSeason: CONFIG.SIMULATION.DAYS_PER_SEASON,
 };
 
+/**
+ * TimeSystem — game clock, annual calendar and weather.
+ *
+ * Responsibilities:
+ * - Advance the time of day (phase, light level, temperature)
+ * - Advance the calendar each game midnight: seasons of `daysPerSeason`
+ *   days, four per year, starting in spring. The calendar lives in
+ *   `gameState.calendar`, so it shows up in snapshots and survives saves
+ * - Change the weather at random, weighted by season and kept consistent
+ *   with the temperature (no snow when warm, no rain when freezing)
+ * - Model temperature per biome: a yearly curve peaking at midsummer plus
+ *   a daily one peaking at midday (see SeasonConfigs)
+ *
+ * Other systems read the season through `getSeasonEffects()`: resource
+ * regrowth, farm yields, animal breeding and need decay.
+ *
+ * Events emitted: TIME_CHANGED, TIME_WEATHER_CHANGED, SEASON_CHANGED
+ */
 @injectable()
 export class TimeSystem extends EventEmitter {
   @inject(TYPES.GameState)
   private gameState!: GameState;
   private config: TimeConfig;
+  /** Calendar used until the game state is injected */
+  private calendar: CalendarState;
   private currentTime: TimeOfDay;
   private currentWeather: WeatherCondition;
   private lastTimeUpdate = 0;
@@ -71,15 +108,24 @@ export class TimeSystem extends EventEmitter {
   constructor(@unmanaged() config?: Partial<TimeConfig>) {
     super();
     this.config = { ...DEFAULT_CONFIG, ...config };
+    if (
+      !Number.isInteger(this.config.daysPerSeason) ||
+      this.config.daysPerSeason < 1
+    ) {
+      throw new Error(
+        `daysPerSeason must be a positive integer, got ${this.config.daysPerSeason}`,
+      );
+    }
+    this.calendar = this.calendarAt(0);
     this.currentTime = this.createInitialTime();
     this.currentWeather = this.createInitialWeather();
-    this.lastTimeUpdate = Date.now();
-    this.lastWeatherChange = Date.now();
+    this.lastTimeUpdate = getSimulationTime();
+    this.lastWeatherChange = getSimulationTime();
   }
 
   public update(_deltaMs: number): void {
     void _deltaMs;
-    const now = Date.now();
+    const now = getSimulationTime();
 
     if (now - this.lastTimeUpdate >= this.TIME_UPDATE_INTERVAL) {
       this.updateTime();
@@ -112,7 +158,7 @@ export class TimeSystem extends EventEmitter {
         this.config.startHour,
         WeatherType.CLEAR,
       ),
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
     };
   }
 
@@ -133,7 +179,8 @@ export class TimeSystem extends EventEmitter {
     const realMinutesPerGameMinute = this.config.minutesPerGameHour / 60;
     const realMillisPerGameMinute = realMinutesPerGameMinute * 60 * 1000;
 
-    const timeSinceLastUpdate = Date.now() - this.currentTime.timestamp;
+    const timeSinceLastUpdate =
+      getSimulationTime() - this.currentTime.timestamp;
     const gameMinutesToAdd = Math.floor(
       timeSinceLastUpdate / realMillisPerGameMinute,
     );
@@ -143,8 +190,12 @@ export class TimeSystem extends EventEmitter {
 
       if (this.currentTime.minute >= 60) {
         const hoursToAdd = Math.floor(this.currentTime.minute / 60);
+        const hours = this.currentTime.hour + hoursToAdd;
         this.currentTime.minute = this.currentTime.minute % 60;
-        this.currentTime.hour = (this.currentTime.hour + hoursToAdd) % 24;
+        this.currentTime.hour = hours % 24;
+        if (hours >= 24) {
+          this.advanceDays(Math.floor(hours / 24));
+        }
       }
 
       this.currentTime.phase = this.getPhaseFromTime(this.currentTime.hour);
@@ -155,20 +206,20 @@ export class TimeSystem extends EventEmitter {
         this.currentTime.hour,
         this.currentWeather.type,
       );
-      this.currentTime.timestamp = Date.now();
+      this.currentTime.timestamp = getSimulationTime();
 
       this.gameState.timeOfDay = this.currentTime.phase;
       if (this.gameState.weather) {
         this.gameState.weather.current = this.currentWeather.type;
         this.gameState.weather.temperature = this.currentTime.temperature;
         this.gameState.weather.visibility = this.currentWeather.visibility;
-        this.gameState.weather.lastChange = Date.now();
+        this.gameState.weather.lastChange = getSimulationTime();
         this.gameState.weather.duration = this.currentWeather.duration;
       }
 
       simulationEvents.emit(GameEventType.TIME_CHANGED, {
         time: { ...this.currentTime },
-        timestamp: Date.now(),
+        timestamp: getSimulationTime(),
       });
     }
   }
@@ -193,8 +244,19 @@ export class TimeSystem extends EventEmitter {
     }
   }
 
-  private calculateTemperature(hour: number, weatherType: WeatherType): number {
-    const baseTemp = 15 + Math.sin(((hour - 6) / 24) * 2 * Math.PI) * 10;
+  private calculateTemperature(
+    hour: number,
+    weatherType: WeatherType,
+    climate: BiomeClimate = DEFAULT_CLIMATE,
+  ): number {
+    const yearFraction =
+      (this.getCalendarState().day + hour / 24) /
+      (this.config.daysPerSeason * SEASON_ORDER.length);
+    const baseTemp =
+      climate.mean +
+      Math.cos((yearFraction - MIDSUMMER_YEAR_FRACTION) * 2 * Math.PI) *
+        climate.seasonalAmplitude +
+      Math.sin(((hour - 6) / 24) * 2 * Math.PI) * climate.dailyAmplitude;
     const weatherModifiers: Record<WeatherType, number> = {
       [WeatherType.CLEAR]: 0,
       [WeatherType.CLOUDY]: -3,
@@ -233,6 +295,7 @@ export class TimeSystem extends EventEmitter {
         newWeatherType,
       );
     }
+    newWeatherType = this.matchTemperature(newWeatherType);
 
     this.currentWeather = {
       type: newWeatherType,
@@ -256,7 +319,7 @@ export class TimeSystem extends EventEmitter {
       this.gameState.weather.current = this.currentWeather.type;
       this.gameState.weather.temperature = this.currentTime.temperature;
       this.gameState.weather.visibility = this.currentWeather.visibility;
-      this.gameState.weather.lastChange = Date.now();
+      this.gameState.weather.lastChange = getSimulationTime();
       this.gameState.weather.duration = this.currentWeather.duration;
     }
 
@@ -265,18 +328,13 @@ export class TimeSystem extends EventEmitter {
       weather: { ...this.currentWeather },
       time: { ...this.currentTime },
       effects,
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
     });
   }
 
   private getWeatherProbabilities(): Record<WeatherType, number> {
     const base: Record<WeatherType, number> = {
-      [WeatherType.CLEAR]: 0.4,
-      [WeatherType.CLOUDY]: 0.3,
-      [WeatherType.RAINY]: 0.15,
-      [WeatherType.STORMY]: 0.05,
-      [WeatherType.FOGGY]: 0.1,
-      [WeatherType.SNOWY]: 0.0,
+      ...this.getSeasonEffects().weatherWeights,
     };
 
     if (
@@ -285,12 +343,29 @@ export class TimeSystem extends EventEmitter {
     ) {
       base[WeatherType.RAINY] += 0.1;
       base[WeatherType.FOGGY] += 0.1;
-      base[WeatherType.CLEAR] -= 0.2;
+      base[WeatherType.CLEAR] = Math.max(0, base[WeatherType.CLEAR] - 0.2);
     }
 
     return base;
   }
 
+  /**
+   * Turns snow into rain above 2 °C, and rain into snow below 0 °C.
+   */
+  private matchTemperature(weatherType: WeatherType): WeatherType {
+    const temperature = this.calculateTemperature(
+      this.currentTime.hour,
+      WeatherType.CLEAR,
+    );
+    if (weatherType === WeatherType.SNOWY && temperature > 2) {
+      return WeatherType.RAINY;
+    }
+    if (weatherType === WeatherType.RAINY && temperature < 0) {
+      return WeatherType.SNOWY;
+    }
+    return weatherType;
+  }
+
   private isAbruptWeatherChange(
     current: WeatherType,
     next: WeatherType,
@@ -406,6 +481,10 @@ export class TimeSystem extends EventEmitter {
     } else if (time.phase === TimeOfDayPhase.MIDDAY) {
       effects.needsMultipliers.thirst *= 1.2;
     }
+
+    const season = this.getSeasonEffects();
+    effects.needsMultipliers.energy *= season.energyDecay;
+    effects.needsMultipliers.thirst *= season.thirstDecay;
     if (
       weather.type === WeatherType.RAINY ||
       weather.type === WeatherType.STORMY
@@ -441,6 +520,95 @@ export class TimeSystem extends EventEmitter {
     return this.calculateEnvironmentalEffects();
   }
 
+  /**
+   * Real time a game day lasts, in ms.
+   */
+  public getDayLengthMs(): number {
+    return this.config.minutesPerGameHour * 24 * 60 * 1000;
+  }
+
+  public getCalendar(): CalendarState {
+    return { ...this.getCalendarState() };
+  }
+
+  public getSeason(): Season {
+    return this.getCalendarState().season;
+  }
+
+  public getSeasonEffects(): SeasonEffects {
+    return SEASON_EFFECTS[this.getSeason()];
+  }
+
+  /**
+   * Current temperature of a biome, in °C, with the current weather.
+   * Biomes without a curve of their own follow the world's.
+   */
+  public getBiomeTemperature(biome: BiomeType): number {
+    return this.calculateTemperature(
+      this.currentTime.hour,
+      this.currentWeather.type,
+      BIOME_CLIMATES[biome] ?? DEFAULT_CLIMATE,
+    );
+  }
+
+  /**
+   * Jumps to the first day of a season, later in the current year or in
+   * the next one.
+   */
+  public setSeason(season: Season): void {
+    const calendar = this.getCalendarState();
+    const target = SEASON_ORDER.indexOf(season);
+    const current = SEASON_ORDER.indexOf(calendar.season);
+    const seasonsAhead =
+      (target - current + SEASON_ORDER.length) % SEASON_ORDER.length;
+    if (seasonsAhead === 0) return;
+    this.advanceDays(
+      seasonsAhead * this.config.daysPerSeason - calendar.dayOfSeason,
+    );
+  }
+
+  /**
+   * The calendar of the game state, created when the world (or the save it
+   * was loaded from) has none yet.
+   */
+  private getCalendarState(): CalendarState {
+    const gameState = this.gameState as GameState | undefined;
+    if (!gameState) return this.calendar;
+    gameState.calendar ??= this.calendar;
+    return gameState.calendar;
+  }
+
+  private calendarAt(day: number): CalendarState {
+    const daysPerSeason = this.config.daysPerSeason;
+    const seasonIndex = Math.floor(day / daysPerSeason);
+    return {
+      day,
+      year: Math.floor(seasonIndex / SEASON_ORDER.length) + 1,
+      season: SEASON_ORDER[seasonIndex % SEASON_ORDER.length],
+      dayOfSeason: day % daysPerSeason,
+      daysPerSeason,
+    };
+  }
+
+  private advanceDays(days: number): void {
+    const calendar = this.getCalendarState();
+    const previousSeason = calendar.season;
+    Object.assign(calendar, this.calendarAt(calendar.day + days));
+
+    if (calendar.season !== previousSeason) {
+      logger.info(
+        `🍂 [TimeSystem] ${previousSeason} → ${calendar.season} (year ${calendar.year})`,
+      );
+      simulationEvents.emit(GameEventType.SEASON_CHANGED, {
+        season: calendar.season,
+        previousSeason,
+        year: calendar.year,
+        day: calendar.day,
+        effects: this.getSeasonEffects(),
+      });
+    }
+  }
+
   public getTimeString(): string {
     const h = this.currentTime.hour.toString().padStart(2, "0");
     const m = this.currentTime.minute.toString().padStart(2, "0");
@@ -472,7 +640,7 @@ export class TimeSystem extends EventEmitter {
       this.currentTime.hour,
       this.currentWeather.type,
     );
-    this.currentTime.timestamp = Date.now();
+    this.currentTime.timestamp = getSimulationTime();
   }
 
   public setWeather(weatherType: WeatherType): void {
@@ -495,6 +663,8 @@ export class TimeSystem extends EventEmitter {
     return {
       time: this.getTimeString(),
       phase: this.currentTime.phase,
+      season: this.getSeason(),
+      year: this.getCalendarState().year,
       temperature: `${this.currentTime.temperature}°C`,
       weather: this.currentWeather.type,
       lightLevel: Math.round(this.currentTime.lightLevel * 100),
@@ -1,8 +1,10 @@
-import type { GameState, Zone } from "@/shared/types/game-types";
+import type { GameState, MarketState, Zone } from "@/shared/types/game-types";
 import type {
   EconomyConfig,
   ResourceType,
   MarketConfig,
+  MarketOrder,
+  MarketPricePoint,
 } from "@/shared/types/simulation/economy";
 import { ResourceType as ResourceTypeEnum } from "../../../../shared/constants/ResourceEnums";
 import { ZoneType } from "../../../../shared/constants/ZoneEnums";
@@ -10,6 +12,15 @@ import { RoleType } from "../../../../shared/constants/RoleEnums";
 import { InventorySystem } from "./InventorySystem";
 import { SocialSystem } from "../social/SocialSystem";
 import { RoleSystem } from "../agents/RoleSystem";
+import {
+  MarketOrderBook,
+  type MarketFill,
+  type MarketSettlement,
+} from "./MarketOrderBook";
+import {
+  MarketOrderStatus,
+  MarketOrderType,
+} from "../../../../shared/constants/EconomyEnums";
 
 import { simulationEvents, GameEventType } from "../../core/events";
 import { logger } from "../../../../infrastructure/utils/logger";
@@ -51,6 +62,15 @@ const DEFAULT_MARKET_CONFIG: MarketConfig = {
   },
 };
 
+/** Resources traded on the order book */
+const MARKET_RESOURCES: ResourceTypeEnum[] = [
+  ResourceTypeEnum.WOOD,
+  ResourceTypeEnum.STONE,
+  ResourceTypeEnum.FOOD,
+  ResourceTypeEnum.WATER,
+  ResourceTypeEnum.METAL,
+];
+
 export interface TransactionRecord {
   type: "income" | "expense";
   amount: number;
@@ -66,6 +86,7 @@ import type { AgentRegistry } from "../agents/AgentRegistry";
 import type { HandlerResult, ITradeSystem } from "../agents/SystemRegistry";
 import { HandlerResultStatus } from "@/shared/constants/StatusEnums";
 import { GoalDomain } from "@/shared/constants/AIEnums";
+import { getSimulationTime } from "../../../../shared/FrameTime";
 
 /**
  * System for managing economic activities: resource production, salaries, market pricing, and trading.
@@ -73,8 +94,10 @@ import { GoalDomain } from "@/shared/constants/AIEnums";
  * Features:
  * - Resource yield calculations based on work duration
  * - Salary payment system for agents with roles
- * - Dynamic pricing based on resource scarcity (merged from MarketSystem)
- * - Automatic trading between agents
+ * - Dynamic pricing based on resource scarcity (merged from MarketSystem),
+ *   pulled towards the last clearing price of the order book
+ * - Order-book market: agents and the player post bids/asks, matched every
+ *   update (see MarketOrderBook) and settled through inventories and money
  * - Yield residuals for fractional resource accumulation
  *
  * @see RoleSystem for agent role assignments
@@ -92,7 +115,7 @@ export class EconomySystem implements ITradeSystem {
   private marketConfig: MarketConfig;
   private yieldResiduals = new Map<string, number>();
   private transactionHistory = new Map<string, TransactionRecord[]>();
-  private lastUpdate = Date.now();
+  private lastUpdate = getSimulationTime();
   private lastLogTime = 0;
   private readonly UPDATE_INTERVAL_MS = 10000;
   private lastSalaryPayment = 0;
@@ -100,15 +123,25 @@ export class EconomySystem implements ITradeSystem {
   private entityIndex?: EntityIndex;
   private agentRegistry?: AgentRegistry;
 
-  private recentTrades = new Map<string, number>();
-  private readonly TRADE_COOLDOWN_MS = 60000; // Increased from 30s to 60s for scalability
+  private orderBook: MarketOrderBook;
+  private orderCounter = 0;
+  private orderCursor = 0;
 
-  /** Throttle auto-trading to run every N ms instead of every tick */
+  /** Throttle agent order posting to run every N ms instead of every tick */
   private lastAutoTradeTime = 0;
   private readonly AUTO_TRADE_INTERVAL_MS = 30000; // Trade every 30 seconds for scalability
 
-  /** Maximum cells to process per auto-trade cycle for scalability */
-  private readonly MAX_CELLS_PER_TRADE = 5;
+  /** Maximum agents evaluated per order-posting cycle for scalability */
+  private readonly MAX_AGENTS_PER_ORDER_CYCLE = 50;
+  private readonly SURPLUS_STOCK = 15;
+  private readonly SHORTAGE_STOCK = 3;
+  private readonly AGENT_ORDER_SIZE = 5;
+  private readonly AGENT_ORDER_TTL_MS = 60000;
+  private readonly ORDER_TTL_MS = 300000;
+  /** Weight of the last clearing price in getResourcePrice */
+  private readonly MARKET_PRICE_WEIGHT = 0.5;
+  private readonly MAX_PRICE_HISTORY = 100;
+  private readonly MAX_MARKET_TRANSACTIONS = 200;
 
   constructor(
     @inject(TYPES.GameState) state: GameState,
@@ -124,6 +157,7 @@ export class EconomySystem implements ITradeSystem {
     this.agentRegistry = agentRegistry;
     this.config = DEFAULT_ECONOMY_CONFIG;
     this.marketConfig = DEFAULT_MARKET_CONFIG;
+    this.orderBook = new MarketOrderBook(() => this.getMarketState().orders);
   }
 
   public getTransactionHistory(agentId: string): TransactionRecord[] {
@@ -142,7 +176,7 @@ export class EconomySystem implements ITradeSystem {
       type,
       amount,
       reason,
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
       relatedEntityId,
     });
     if (history.length > 10) {
@@ -156,7 +190,7 @@ export class EconomySystem implements ITradeSystem {
   }
 
   public update(_delta: number): void {
-    const now = Date.now();
+    const now = getSimulationTime();
 
     if (now - this.lastUpdate >= this.UPDATE_INTERVAL_MS) {
       this.cleanupOldResiduals();
@@ -181,41 +215,41 @@ export class EconomySystem implements ITradeSystem {
   }
 
   private updateMarket(): void {
-    // Throttle auto-trading to reduce tick impact with 1000+ agents
-    const now = Date.now();
+    const now = getSimulationTime();
+    const market = this.getMarketState();
+
+    // Throttle agent order posting to reduce tick impact with 1000+ agents
     if (now - this.lastAutoTradeTime >= this.AUTO_TRADE_INTERVAL_MS) {
-      this.autoTradeAmongAgents();
+      this.postAgentOrders(now);
       this.lastAutoTradeTime = now;
     }
 
-    if (!this.state.market) {
-      this.state.market = {
-        orders: [],
-        transactions: [],
-        prices: {},
-      };
-    }
+    this.clearMarket(now);
 
     const prices: Record<string, number> = {};
-    const resourceTypes = [
-      ResourceTypeEnum.WOOD,
-      ResourceTypeEnum.STONE,
-      ResourceTypeEnum.FOOD,
-      ResourceTypeEnum.WATER,
-      ResourceTypeEnum.METAL,
-    ];
-    for (const resource of resourceTypes) {
+    for (const resource of MARKET_RESOURCES) {
       prices[resource] = this.getResourcePrice(resource);
     }
-    this.state.market.prices = prices;
+    market.prices = prices;
   }
 
+  /**
+   * Price per unit of a resource: the scarcity price, pulled towards the
+   * last clearing price of the order book once the resource has traded.
+   */
   public getResourcePrice(resource: ResourceTypeEnum): number {
-    const scarcity = this.computeScarcityMultiplier(resource);
-    return Math.max(
-      1,
-      Math.round(this.marketConfig.basePrices[resource] * scarcity),
-    );
+    const scarcityPrice =
+      this.marketConfig.basePrices[resource] *
+      this.computeScarcityMultiplier(resource);
+    const history = this.state.market?.priceHistory?.[resource];
+    const lastClearing = history?.[history.length - 1]?.price;
+
+    const price =
+      lastClearing === undefined
+        ? scarcityPrice
+        : scarcityPrice * (1 - this.MARKET_PRICE_WEIGHT) +
+          lastClearing * this.MARKET_PRICE_WEIGHT;
+    return Math.max(1, Math.round(price));
   }
 
   private computeScarcityMultiplier(resource: ResourceTypeEnum): number {
@@ -287,143 +321,268 @@ export class EconomySystem implements ITradeSystem {
   }
 
   /**
-   * Auto-trades between agents using spatial partitioning.
-   * Optimized from O(n²) to O(n × k) where k = avg agents per cell.
+   * Posts a bid or ask to the order book. Orders are matched on the next
+   * market clearing; goods and money are only checked at settlement.
+   *
+   * @param agentId - Agent placing the order
+   * @param type - BUY (bid) or SELL (ask)
+   * @param resource - Traded resource
+   * @param amount - Units to trade (rounded down, must be at least 1)
+   * @param priceLimit - Max price to pay / min price to accept per unit
+   * @param ttlMs - Time before the order expires
+   * @returns The order, or null if invalid
    */
-  private autoTradeAmongAgents(): void {
-    const entities: Array<{ id: string; position?: { x: number; y: number } }> =
-      [];
-    if (this.agentRegistry) {
-      for (const profile of this.agentRegistry.getAllProfiles()) {
-        if (!profile.isDead) {
-          entities.push({
-            id: profile.id,
-            position: this.agentRegistry.getPosition(profile.id),
-          });
-        }
-      }
-    } else if (this.state.entities) {
-      entities.push(
-        ...this.state.entities.map((e) => ({
-          id: e.id,
-          position: e.position,
-        })),
+  public placeOrder(
+    agentId: string,
+    type: MarketOrderType,
+    resource: ResourceTypeEnum,
+    amount: number,
+    priceLimit?: number,
+    ttlMs = this.ORDER_TTL_MS,
+  ): MarketOrder | null {
+    const units = Math.floor(amount);
+    if (!MARKET_RESOURCES.includes(resource) || units < 1) {
+      logger.warn(
+        `🔄 [MARKET] Rejected ${type} order from ${agentId}: ${amount} ${resource}`,
       );
+      return null;
+    }
+    if (priceLimit !== undefined && !(priceLimit > 0)) {
+      return null;
     }
-    if (entities.length < 2) return;
 
-    const now = Date.now();
+    const now = getSimulationTime();
+    const order: MarketOrder = {
+      id: `order_${now}_${++this.orderCounter}`,
+      agentId,
+      type,
+      resource,
+      amount: units,
+      priceLimit:
+        priceLimit === undefined
+          ? undefined
+          : Math.max(1, Math.round(priceLimit)),
+      filledAmount: 0,
+      timestamp: now,
+      expiresAt: now + ttlMs,
+      status: MarketOrderStatus.ACTIVE,
+    };
+    this.orderBook.add(order);
+    return order;
+  }
+
+  /**
+   * Cancels an open order, only if `agentId` placed it.
+   *
+   * @returns False if the order is not open or belongs to another agent
+   */
+  public cancelOrder(orderId: string, agentId: string): boolean {
+    return this.orderBook.cancel(orderId, agentId);
+  }
+
+  public getOrderBook(resource: ResourceTypeEnum): {
+    bids: MarketOrder[];
+    asks: MarketOrder[];
+  } {
+    return this.orderBook.getBook(resource);
+  }
+
+  public getPriceHistory(resource: ResourceTypeEnum): MarketPricePoint[] {
+    return [...(this.state.market?.priceHistory?.[resource] ?? [])];
+  }
 
-    // Cleanup old trades
-    for (const [key, timestamp] of this.recentTrades) {
-      if (now - timestamp > this.TRADE_COOLDOWN_MS) {
-        this.recentTrades.delete(key);
+  /**
+   * Matches the order book of every resource, settles the fills and records
+   * transactions, trade history and clearing prices.
+   */
+  private clearMarket(now: number): void {
+    const market = this.getMarketState();
+    this.orderBook.prune(now);
+
+    for (const resource of MARKET_RESOURCES) {
+      const fills = this.orderBook.match(
+        resource,
+        this.getResourcePrice(resource),
+        (fill) => this.settleFill(fill),
+      );
+      if (fills.length === 0) continue;
+
+      let volume = 0;
+      let value = 0;
+      for (const fill of fills) {
+        volume += fill.amount;
+        value += fill.amount * fill.pricePerUnit;
+        this.recordFill(fill, now);
       }
+
+      const history = market.priceHistory![resource] ?? [];
+      history.push({ timestamp: now, price: value / volume, volume });
+      if (history.length > this.MAX_PRICE_HISTORY) history.shift();
+      market.priceHistory![resource] = history;
+    }
+
+    this.orderBook.prune(now);
+  }
+
+  /**
+   * Moves goods from seller to buyer and money from buyer to seller.
+   */
+  private settleFill(fill: MarketFill): MarketSettlement {
+    const { bid, ask, resource, amount } = fill;
+    const totalPrice = fill.pricePerUnit * amount;
+    if (!this.canAfford(bid.agentId, totalPrice)) return "buyer_failed";
+
+    try {
+      this.inventorySystem.transferBetweenAgents(ask.agentId, bid.agentId, {
+        [resource]: amount,
+      });
+    } catch {
+      // Missing stock is the seller's fault; missing space or inventory, the buyer's
+      const sellerStock =
+        this.inventorySystem.getAgentInventory(ask.agentId)?.[resource] ?? 0;
+      return sellerStock < amount ? "seller_failed" : "buyer_failed";
     }
 
-    // Spatial partitioning: group agents by grid cells (500x500 units)
-    const CELL_SIZE = 500;
-    const spatialGrid = new Map<string, Array<{ id: string }>>();
+    if (!this.transferMoney(bid.agentId, ask.agentId, totalPrice)) {
+      this.inventorySystem.transferBetweenAgents(bid.agentId, ask.agentId, {
+        [resource]: amount,
+      });
+      return "buyer_failed";
+    }
 
-    for (const entity of entities) {
-      if (!entity.position) continue;
+    return "settled";
+  }
 
-      const cellX = Math.floor(entity.position.x / CELL_SIZE);
-      const cellY = Math.floor(entity.position.y / CELL_SIZE);
-      const cellKey = `${cellX},${cellY}`;
+  private recordFill(fill: MarketFill, now: number): void {
+    const market = this.getMarketState();
+    const totalPrice = fill.amount * fill.pricePerUnit;
+
+    market.transactions.push({
+      id: `tx_${fill.bid.id}_${fill.ask.id}_${fill.bid.filledAmount}`,
+      buyerId: fill.bid.agentId,
+      sellerId: fill.ask.agentId,
+      resource: fill.resource,
+      amount: fill.amount,
+      pricePerUnit: fill.pricePerUnit,
+      totalPrice,
+      timestamp: now,
+    });
+    if (market.transactions.length > this.MAX_MARKET_TRANSACTIONS) {
+      market.transactions.shift();
+    }
 
-      if (!spatialGrid.has(cellKey)) {
-        spatialGrid.set(cellKey, []);
+    if (!this.state.trade) {
+      this.state.trade = {
+        offers: [],
+        history: [],
+        stats: { activeOffers: 0, totalTrades: 0, avgTradeValue: 0 },
+      };
+    }
+    const trade = this.state.trade;
+    trade.history.push({
+      sellerId: fill.ask.agentId,
+      buyerId: fill.bid.agentId,
+      timestamp: now,
+      items: [fill.resource],
+      value: totalPrice,
+    });
+    if (trade.history.length > this.MAX_MARKET_TRANSACTIONS) {
+      trade.history.shift();
+    }
+    trade.stats.avgTradeValue =
+      (trade.stats.avgTradeValue * trade.stats.totalTrades + totalPrice) /
+      (trade.stats.totalTrades + 1);
+    trade.stats.totalTrades++;
+
+    logger.debug(
+      `🔄 [MARKET] ${fill.ask.agentId} sold ${fill.amount} ${fill.resource} to ${fill.bid.agentId} at ${fill.pricePerUnit}`,
+    );
+    simulationEvents.emit(GameEventType.TRADE_COMPLETED, {
+      buyerId: fill.bid.agentId,
+      sellerId: fill.ask.agentId,
+      resourceType: fill.resource,
+      quantity: fill.amount,
+      totalPrice,
+      timestamp: now,
+    });
+  }
+
+  /**
+   * Agents with a surplus post asks and agents running short post bids at
+   * the current price. Evaluates a rotating slice of agents per cycle.
+   */
+  private postAgentOrders(now: number): void {
+    const agentIds: string[] = [];
+    if (this.agentRegistry) {
+      for (const profile of this.agentRegistry.getAllProfiles()) {
+        if (!profile.isDead) agentIds.push(profile.id);
       }
-      spatialGrid.get(cellKey)!.push({ id: entity.id });
-    }
-
-    // Trade only within cells and adjacent cells
-    // Limit cells processed per cycle for scalability
-    let cellsProcessed = 0;
-    let tradesAttempted = 0;
-    const MAX_TRADES_ATTEMPTS = 50; // Hard limit on trade attempts
-    const MAX_SELLERS_PER_CELL = 5; // Only check first N sellers per cell
-    
-    for (const [cellKey, cellAgents] of spatialGrid) {
-      if (cellsProcessed >= this.MAX_CELLS_PER_TRADE) break;
-      if (tradesAttempted >= MAX_TRADES_ATTEMPTS) break;
-      if (cellAgents.length < 2) continue;
-      cellsProcessed++;
-
-      const [cellX, cellY] = cellKey.split(",").map(Number);
-
-      // Get agents in this cell + 8 adjacent cells
-      const nearbyAgents: Array<{ id: string }> = [...cellAgents];
-      for (let dx = -1; dx <= 1; dx++) {
-        for (let dy = -1; dy <= 1; dy++) {
-          if (dx === 0 && dy === 0) continue;
-          const adjacentKey = `${cellX + dx},${cellY + dy}`;
-          const adjacentAgents = spatialGrid.get(adjacentKey);
-          if (adjacentAgents) {
-            nearbyAgents.push(...adjacentAgents);
-          }
-        }
+    } else if (this.state.agents) {
+      for (const agent of this.state.agents) {
+        if (!agent.isDead) agentIds.push(agent.id);
       }
+    }
+    if (agentIds.length < 2) return;
 
-      // Trade within nearby agents (reduced search space)
-      // Limit sellers checked per cell for scalability
-      const sellersToCheck = Math.min(cellAgents.length, MAX_SELLERS_PER_CELL);
-      for (let i = 0; i < sellersToCheck; i++) {
-        if (tradesAttempted >= MAX_TRADES_ATTEMPTS) break;
-        const seller = cellAgents[i];
-        if (!seller || !seller.id) continue;
-
-        const sellerInv = this.inventorySystem.getAgentInventory(seller.id);
-        if (!sellerInv) continue;
-        
-        tradesAttempted++; // Count each seller evaluation
-
-        for (const resource of [
-          ResourceTypeEnum.WOOD,
-          ResourceTypeEnum.STONE,
-          ResourceTypeEnum.FOOD,
-          ResourceTypeEnum.WATER,
-          ResourceTypeEnum.METAL,
-        ]) {
-          const sellerStock = sellerInv[resource] || 0;
-          if (sellerStock < 15) continue;
-
-          for (const buyer of nearbyAgents) {
-            if (seller.id === buyer.id) continue;
-            if (!buyer || !buyer.id) continue;
-
-            const tradeKey = [seller.id, buyer.id, resource].sort().join(":");
-            if (this.recentTrades.has(tradeKey)) continue;
-
-            const buyerInv = this.inventorySystem.getAgentInventory(buyer.id);
-            if (!buyerInv || (buyerInv[resource] || 0) > 3) continue;
-
-            const tradeAmount = Math.min(5, sellerStock);
-            const price = this.getResourcePrice(resource);
-            const cost = price * tradeAmount;
-
-            if (!this.canAfford(buyer.id, cost)) continue;
-
-            const removed = this.inventorySystem.removeFromAgent(
-              seller.id,
-              resource,
-              tradeAmount,
-            );
-            if (removed > 0) {
-              this.inventorySystem.addResource(buyer.id, resource, removed);
-              this.transferMoney(buyer.id, seller.id, cost);
-              this.recentTrades.set(tradeKey, now);
-
-              logger.debug(
-                `🔄 [MARKET] Auto-trade: ${seller.id} sold ${removed} ${resource} to ${buyer.id} for ${cost}`,
-              );
-              return;
-            }
-          }
+    const openOrders = new Set<string>();
+    for (const order of this.getMarketState().orders) {
+      openOrders.add(`${order.agentId}:${order.resource}`);
+    }
+
+    const count = Math.min(agentIds.length, this.MAX_AGENTS_PER_ORDER_CYCLE);
+    for (let i = 0; i < count; i++) {
+      const agentId = agentIds[(this.orderCursor + i) % agentIds.length];
+      const inventory = this.inventorySystem.getAgentInventory(agentId);
+      if (!inventory) continue;
+
+      for (const resource of MARKET_RESOURCES) {
+        if (openOrders.has(`${agentId}:${resource}`)) continue;
+
+        const stock = inventory[resource] || 0;
+        const price = this.getResourcePrice(resource);
+        if (stock >= this.SURPLUS_STOCK) {
+          this.placeOrder(
+            agentId,
+            MarketOrderType.SELL,
+            resource,
+            Math.min(this.AGENT_ORDER_SIZE, stock),
+            price,
+            this.AGENT_ORDER_TTL_MS,
+          );
+        } else if (
+          stock <= this.SHORTAGE_STOCK &&
+          this.canAfford(agentId, price * this.AGENT_ORDER_SIZE)
+        ) {
+          this.placeOrder(
+            agentId,
+            MarketOrderType.BUY,
+            resource,
+            this.AGENT_ORDER_SIZE,
+            price,
+            this.AGENT_ORDER_TTL_MS,
+          );
         }
       }
     }
+    this.orderCursor = (this.orderCursor + count) % agentIds.length;
+
+    logger.debug(
+      `🔄 [MARKET] ${count} agents evaluated, ${this.getMarketState().orders.length} open orders (t=${now})`,
+    );
+  }
+
+  private getMarketState(): MarketState {
+    if (!this.state.market) {
+      this.state.market = {
+        orders: [],
+        transactions: [],
+        prices: {},
+      };
+    }
+    if (!this.state.market.priceHistory) {
+      this.state.market.priceHistory = {};
+    }
+    return this.state.market;
   }
 
   private cleanupOldResiduals(): void {
@@ -481,7 +640,7 @@ export class EconomySystem implements ITradeSystem {
 
     simulationEvents.emit(GameEventType.ECONOMY_RESERVATIONS_UPDATE, {
       economy: this.state.economy,
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
     });
   }
 
@@ -520,7 +679,7 @@ export class EconomySystem implements ITradeSystem {
           agentId: agent.id,
           amount: baseSalary,
           role: role.roleType,
-          timestamp: Date.now(),
+          timestamp: getSimulationTime(),
         });
       }
     }
@@ -725,7 +884,7 @@ export class EconomySystem implements ITradeSystem {
       amount,
       newBalance: entity.stats.money,
       type: "add",
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
     });
 
     return true;
@@ -767,7 +926,7 @@ export class EconomySystem implements ITradeSystem {
       amount: -amount,
       newBalance: entity.stats.money,
       type: "remove",
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
     });
 
     return true;
@@ -798,7 +957,7 @@ export class EconomySystem implements ITradeSystem {
       fromId,
       toId,
       amount,
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
     });
 
     return true;
@@ -875,7 +1034,7 @@ export class EconomySystem implements ITradeSystem {
       resourceType: itemId,
       quantity,
       totalPrice: totalCost,
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
     });
 
     return {
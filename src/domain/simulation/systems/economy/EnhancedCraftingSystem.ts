@@ -46,6 +46,7 @@ import { TYPES } from "../../../../config/Types";
 import { RecipeDiscoverySystem } from "./RecipeDiscoverySystem";
 import { HandlerResultStatus } from "@/shared/constants/StatusEnums";
 import { GoalDomain } from "@/shared/constants/AIEnums";
+import { getSimulationTime } from "../../../../shared/FrameTime";
 
 @injectable()
 export class EnhancedCraftingSystem implements ICraftingSystem {
@@ -72,7 +73,7 @@ export class EnhancedCraftingSystem implements ICraftingSystem {
     private readonly recipeDiscovery?: RecipeDiscoverySystem,
   ) {
     this.config = DEFAULT_CONFIG;
-    this.now = (): number => Date.now();
+    this.now = (): number => getSimulationTime();
   }
 
   public update(): void {
@@ -0,0 +1,207 @@
+import type { FoodBatch, Inventory } from "@/shared/types/simulation/economy";
+import { FoodCatalog } from "../../../data/FoodCatalog";
+import { SIMULATION_CONSTANTS } from "../../../../shared/constants/SimulationConstants";
+import { ZoneType } from "../../../../shared/constants/ZoneEnums";
+import { getSimulationTime } from "../../../../shared/FrameTime";
+
+/** Food added this soon after the newest batch joins it, ms */
+const BATCH_MERGE_WINDOW_MS = 10_000;
+
+/** Spoilage speed of food in stockpiles standing in these zones */
+const ZONE_SPOILAGE_RATES: Partial<Record<string, number>> = {
+  [ZoneType.STORAGE]: 0.5,
+  [ZoneType.KITCHEN]: 0.4,
+};
+
+/** Spoilage speed at or below each world temperature (°C), coldest first */
+const COLD_SPOILAGE_RATES: ReadonlyArray<{
+  maxTemperature: number;
+  rate: number;
+}> = [
+  { maxTemperature: 0, rate: 0.2 },
+  { maxTemperature: 8, rate: 0.5 },
+  { maxTemperature: 15, rate: 0.8 },
+];
+
+/**
+ * Tracks the food of an inventory as batches with production timestamps,
+ * each spoiling after the `spoilTime` of its food.
+ *
+ * `Inventory.food` stays the total and every function here keeps it in step
+ * with the batches. Code that changes `food` directly is reconciled the next
+ * time the batches are used: extra food counts as produced then, missing
+ * food is taken from the oldest batches.
+ */
+export class FoodSpoilage {
+  /**
+   * Shelf life of a food in ms: its `spoilTime` in the FoodCatalog, or the
+   * default for generic food and catalog foods without one.
+   */
+  public static getSpoilTime(foodId?: string): number {
+    const spoilTime = foodId
+      ? FoodCatalog.getFoodById(foodId)?.spoilTime
+      : undefined;
+    return (
+      spoilTime ?? SIMULATION_CONSTANTS.RESOURCES.DEFAULT_FOOD_SPOIL_TIME_MS
+    );
+  }
+
+  /**
+   * Speed at which food ages; 1 is real time.
+   *
+   * @param temperature - World temperature (°C), when known
+   * @param zoneType - Type of the zone the food is stored in, if any
+   */
+  public static getSpoilageRate(
+    temperature?: number,
+    zoneType?: string,
+  ): number {
+    const zoneRate = (zoneType && ZONE_SPOILAGE_RATES[zoneType]) || 1;
+    const cold =
+      temperature === undefined
+        ? undefined
+        : COLD_SPOILAGE_RATES.find((c) => temperature <= c.maxTemperature);
+    return zoneRate * (cold?.rate ?? 1);
+  }
+
+  /**
+   * Adds freshly produced food. Food added shortly after the newest batch,
+   * before it has started to age, joins it, so frequent small harvests do
+   * not pile up batches.
+   */
+  public static add(
+    inventory: Inventory,
+    amount: number,
+    now: number,
+    foodId?: string,
+  ): void {
+    if (amount <= 0) return;
+    const batches = this.sync(inventory, now);
+    inventory.food += amount;
+
+    const newest = batches[batches.length - 1];
+    if (
+      newest &&
+      newest.age === 0 &&
+      now - newest.producedAt < BATCH_MERGE_WINDOW_MS &&
+      !newest.spoiled &&
+      newest.foodId === foodId
+    ) {
+      newest.amount += amount;
+      return;
+    }
+    batches.push(
+      foodId === undefined
+        ? { amount, producedAt: now, age: 0 }
+        : { foodId, amount, producedAt: now, age: 0 },
+    );
+  }
+
+  /**
+   * Takes food out, fresh food before spoiled food and the oldest of each
+   * first.
+   *
+   * @returns The portions taken, with the age they had
+   */
+  public static take(
+    inventory: Inventory,
+    amount: number,
+    now: number = getSimulationTime(),
+  ): FoodBatch[] {
+    const batches = this.sync(inventory, now);
+    const taken: FoodBatch[] = [];
+    let remaining = Math.min(amount, inventory.food);
+
+    for (const spoiled of [false, true]) {
+      for (const batch of batches) {
+        if (remaining <= 0) break;
+        if (Boolean(batch.spoiled) !== spoiled || batch.amount <= 0) continue;
+        const portion = Math.min(batch.amount, remaining);
+        batch.amount -= portion;
+        remaining -= portion;
+        taken.push({ ...batch, amount: portion });
+      }
+    }
+
+    inventory.foodBatches = batches.filter((b) => b.amount > 0);
+    inventory.food -= taken.reduce((sum, b) => sum + b.amount, 0);
+    return taken;
+  }
+
+  /**
+   * Stores food taken from another inventory, keeping its age.
+   */
+  public static put(inventory: Inventory, portions: FoodBatch[]): void {
+    const batches = this.sync(inventory, getSimulationTime());
+    for (const portion of portions) {
+      if (portion.amount <= 0) continue;
+      inventory.food += portion.amount;
+      const index = batches.findIndex((b) => b.producedAt > portion.producedAt);
+      batches.splice(index === -1 ? batches.length : index, 0, {
+        ...portion,
+      });
+    }
+  }
+
+  /**
+   * Ages the fresh batches and marks those past their shelf life as spoiled.
+   *
+   * @param since - When food was last aged; newer batches age from when
+   * they were produced
+   * @param rate - From {@link getSpoilageRate}
+   * @returns Amount of food that spoiled
+   */
+  public static age(
+    inventory: Inventory,
+    now: number,
+    since: number,
+    rate: number,
+  ): number {
+    let spoiled = 0;
+    for (const batch of this.sync(inventory, now)) {
+      if (batch.spoiled) continue;
+      batch.age += Math.max(0, now - Math.max(since, batch.producedAt)) * rate;
+      if (batch.age >= this.getSpoilTime(batch.foodId)) {
+        batch.spoiled = true;
+        spoiled += batch.amount;
+      }
+    }
+    return spoiled;
+  }
+
+  /**
+   * Takes out all spoiled food.
+   *
+   * @returns Amount removed
+   */
+  public static removeSpoiled(inventory: Inventory): number {
+    const batches = this.sync(inventory, getSimulationTime());
+    let removed = 0;
+    for (const batch of batches) {
+      if (batch.spoiled) removed += batch.amount;
+    }
+    inventory.foodBatches = batches.filter((b) => !b.spoiled);
+    inventory.food -= removed;
+    return removed;
+  }
+
+  /**
+   * Reconciles the batches with `inventory.food` and returns them.
+   */
+  private static sync(inventory: Inventory, now: number): FoodBatch[] {
+    const batches = (inventory.foodBatches ??= []);
+    let excess = batches.reduce((sum, b) => sum + b.amount, 0) - inventory.food;
+
+    if (excess < 0) {
+      batches.push({ amount: -excess, producedAt: now, age: 0 });
+    }
+    while (excess > 0 && batches.length > 0) {
+      const oldest = batches[0];
+      const removed = Math.min(oldest.amount, excess);
+      oldest.amount -= removed;
+      excess -= removed;
+      if (oldest.amount <= 0) batches.shift();
+    }
+    return batches;
+  }
+}
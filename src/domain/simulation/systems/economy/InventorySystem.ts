@@ -1,4 +1,5 @@
 import {
+  FoodBatch,
   Inventory,
   Stockpile,
   ResourceType,
@@ -19,6 +20,9 @@ import { EntityType } from "../../../../shared/constants/EntityEnums";
 import { ResourceState } from "../../../../shared/constants/ResourceEnums";
 import { HandlerResultStatus } from "@/shared/constants/StatusEnums";
 import { getResourceConfig } from "../world/config/WorldResourceConfigs";
+import { FoodSpoilage } from "./FoodSpoilage";
+import { simulationEvents, GameEventType } from "../../core/events";
+import { getSimulationTime } from "../../../../shared/FrameTime";
 
 /**
  * System for managing agent inventories and zone stockpiles.
@@ -28,6 +32,8 @@ import { getResourceConfig } from "../world/config/WorldResourceConfigs";
  * - Zone-based stockpiles for shared storage
  * - Resource transfer between agents and stockpiles
  * - Automatic deprecation of old inventories
+ * - Food spoilage per batch (see {@link FoodSpoilage}): spoiled food in
+ *   stockpiles becomes compost, agents keep theirs and risk eating it
  * - Resource type management (wood, stone, food, water)
  *
  * @see ResourceType for available resource types
@@ -40,6 +46,7 @@ export class InventorySystem implements IInventorySystem {
   private stockpilesByZone = new Map<string, Set<string>>();
 
   private lastDeprecationCheck = 0;
+  private lastSpoilageCheck = 0;
   private readonly DEPRECATION_INTERVAL =
     SIMULATION_CONSTANTS.TIMING.DEPRECATION_INTERVAL_MS;
   private readonly DEFAULT_AGENT_CAPACITY =
@@ -79,7 +86,7 @@ export class InventorySystem implements IInventorySystem {
       iron_ore: 0,
       copper_ore: 0,
       capacity: capacity ?? this.DEFAULT_AGENT_CAPACITY,
-      lastUpdateTime: Date.now(),
+      lastUpdateTime: getSimulationTime(),
     };
     this.agentInventories.set(agentId, inventory);
     return inventory;
@@ -90,7 +97,7 @@ export class InventorySystem implements IInventorySystem {
     type: Stockpile["type"],
     capacity?: number,
   ): Stockpile {
-    const id = `stockpile_${zoneId}_${Date.now()}_${RandomUtils.float().toString(36).substr(2, 9)}`;
+    const id = `stockpile_${zoneId}_${getSimulationTime()}_${RandomUtils.float().toString(36).substr(2, 9)}`;
     const stockpile: Stockpile = {
       id,
       zoneId,
@@ -104,11 +111,11 @@ export class InventorySystem implements IInventorySystem {
         iron_ore: 0,
         copper_ore: 0,
         capacity: capacity ?? this.DEFAULT_STOCKPILE_CAPACITY,
-        lastUpdateTime: Date.now(),
+        lastUpdateTime: getSimulationTime(),
       },
       capacity: capacity ?? this.DEFAULT_STOCKPILE_CAPACITY,
       type,
-      lastUpdateTime: Date.now(),
+      lastUpdateTime: getSimulationTime(),
     };
     this.stockpiles.set(stockpile.id, stockpile);
 
@@ -184,10 +191,17 @@ export class InventorySystem implements IInventorySystem {
     return totals;
   }
 
+  /**
+   * Adds resources to an agent's inventory, up to its capacity.
+   *
+   * @param foodId - FoodCatalog id of added food, which sets how fast it
+   * spoils; generic food when omitted
+   */
   public addResource(
     agentId: string,
     resource: ResourceType,
     amount: number,
+    foodId?: string,
   ): boolean {
     const inv = this.agentInventories.get(agentId);
     if (!inv) {
@@ -212,14 +226,24 @@ export class InventorySystem implements IInventorySystem {
       return false;
     }
 
-    inv[resource] += toAdd;
+    if (resource === ResourceType.FOOD) {
+      FoodSpoilage.add(inv, toAdd, getSimulationTime(), foodId);
+    } else {
+      inv[resource] += toAdd;
+    }
     return true;
   }
 
+  /**
+   * Adds resources to a stockpile, up to its capacity.
+   *
+   * @param foodId - FoodCatalog id of added food, as in {@link addResource}
+   */
   public addToStockpile(
     stockpileId: string,
     resource: ResourceType,
     amount: number,
+    foodId?: string,
   ): boolean {
     const sp = this.stockpiles.get(stockpileId);
     if (!sp) return false;
@@ -236,7 +260,11 @@ export class InventorySystem implements IInventorySystem {
 
     if (toAdd <= 0) return false;
 
-    sp.inventory[resource] += toAdd;
+    if (resource === ResourceType.FOOD) {
+      FoodSpoilage.add(sp.inventory, toAdd, getSimulationTime(), foodId);
+    } else {
+      sp.inventory[resource] += toAdd;
+    }
     return true;
   }
 
@@ -257,7 +285,11 @@ export class InventorySystem implements IInventorySystem {
 
     for (const [resource, amount] of entries) {
       if (!amount) continue;
-      sp.inventory[resource] -= amount;
+      if (resource === ResourceType.FOOD) {
+        FoodSpoilage.take(sp.inventory, amount);
+      } else {
+        sp.inventory[resource] -= amount;
+      }
     }
 
     return true;
@@ -271,11 +303,45 @@ export class InventorySystem implements IInventorySystem {
     const inv = this.agentInventories.get(agentId);
     if (!inv) return 0;
 
+    if (resource === ResourceType.FOOD) {
+      return FoodSpoilage.take(inv, amount).reduce(
+        (sum, b) => sum + b.amount,
+        0,
+      );
+    }
     const removed = Math.min(amount, inv[resource]);
     inv[resource] -= removed;
     return removed;
   }
 
+  /**
+   * Takes food out of an agent's inventory to eat it: the oldest fresh food
+   * first, spoiled food only when there is nothing else.
+   *
+   * @returns The portions eaten, empty when the agent has no food
+   */
+  public eatFood(agentId: string, amount: number): FoodBatch[] {
+    const inv = this.agentInventories.get(agentId);
+    if (!inv) return [];
+    return FoodSpoilage.take(inv, amount);
+  }
+
+  /**
+   * Takes compost from the stockpiles of a zone.
+   *
+   * @returns Amount taken
+   */
+  public takeCompost(zoneId: string, amount: number): number {
+    let taken = 0;
+    for (const sp of this.getStockpilesInZone(zoneId)) {
+      const portion = Math.min(sp.compost ?? 0, amount - taken);
+      if (portion <= 0) continue;
+      sp.compost = (sp.compost ?? 0) - portion;
+      taken += portion;
+    }
+    return taken;
+  }
+
   public consumeFromAgent(
     agentId: string,
     resources: Partial<Record<ResourceType, number>>,
@@ -292,7 +358,11 @@ export class InventorySystem implements IInventorySystem {
 
     for (const [resource, amount] of Object.entries(resources)) {
       if (!amount || amount <= 0) continue;
-      inv[resource as ResourceType] -= amount;
+      if (resource === ResourceType.FOOD) {
+        FoodSpoilage.take(inv, amount);
+      } else {
+        inv[resource as ResourceType] -= amount;
+      }
     }
 
     return true;
@@ -354,8 +424,12 @@ export class InventorySystem implements IInventorySystem {
       const canStore = Math.min(canTake, availableSpace);
 
       if (canStore > 0) {
-        this.removeFromAgent(agentId, resource, canStore);
-        this.addToStockpile(stockpileId, resource, canStore);
+        if (resource === ResourceType.FOOD) {
+          FoodSpoilage.put(sp.inventory, FoodSpoilage.take(inv, canStore));
+        } else {
+          this.removeFromAgent(agentId, resource, canStore);
+          this.addToStockpile(stockpileId, resource, canStore);
+        }
         transferred[resource] = canStore;
         logger.debug(
           `📦 [TRANSFER] ${agentId} -> stockpile: ${resource}=${canStore}`,
@@ -458,13 +532,17 @@ export class InventorySystem implements IInventorySystem {
       if (!amount || amount <= 0) continue;
       const resourceType = resource as ResourceType;
 
-      fromInv[resourceType] -= amount;
-      toInv[resourceType] += amount;
+      if (resourceType === ResourceType.FOOD) {
+        FoodSpoilage.put(toInv, FoodSpoilage.take(fromInv, amount));
+      } else {
+        fromInv[resourceType] -= amount;
+        toInv[resourceType] += amount;
+      }
       transferred[resourceType] = amount;
     }
 
-    fromInv.lastUpdateTime = Date.now();
-    toInv.lastUpdateTime = Date.now();
+    fromInv.lastUpdateTime = getSimulationTime();
+    toInv.lastUpdateTime = getSimulationTime();
 
     logger.debug(
       `💱 [Inventory] Transfer: ${fromAgentId} → ${toAgentId} | ${JSON.stringify(transferred)}`,
@@ -496,7 +574,7 @@ export class InventorySystem implements IInventorySystem {
 
   public update(): void {
     const startTime = performance.now();
-    const now = Date.now();
+    const now = getSimulationTime();
 
     this.syncInventoriesWithAgents();
 
@@ -518,28 +596,64 @@ export class InventorySystem implements IInventorySystem {
       `[InventorySystem] update() - Agents: ${statsDebug.totalAgentInventories}, inAgents: food=${statsDebug.inAgents.food}, water=${statsDebug.inAgents.water}, wood=${statsDebug.inAgents.wood}, stone=${statsDebug.inAgents.stone}`,
     );
 
-    const FOOD_DECAY_RATE = 0.02;
+    this.spoilFood(now);
+
     const WATER_DECAY_RATE = 0.01;
 
     for (const sp of this.stockpiles.values()) {
-      const foodLoss = Math.floor(sp.inventory.food * FOOD_DECAY_RATE);
       const waterLoss = Math.floor(sp.inventory.water * WATER_DECAY_RATE);
-
-      if (foodLoss > 0)
-        sp.inventory.food = Math.max(0, sp.inventory.food - foodLoss);
       if (waterLoss > 0)
         sp.inventory.water = Math.max(0, sp.inventory.water - waterLoss);
     }
 
     for (const inv of this.agentInventories.values()) {
-      const foodLoss = Math.floor(inv.food * FOOD_DECAY_RATE);
       const waterLoss = Math.floor(inv.water * WATER_DECAY_RATE);
-
-      if (foodLoss > 0) inv.food = Math.max(0, inv.food - foodLoss);
       if (waterLoss > 0) inv.water = Math.max(0, inv.water - waterLoss);
     }
   }
 
+  /**
+   * Ages stored food. Storage and kitchen zones and cold weather slow it
+   * down; spoiled food in stockpiles becomes compost.
+   */
+  private spoilFood(now: number): void {
+    const since = this.lastSpoilageCheck;
+    this.lastSpoilageCheck = now;
+    const temperature = this.gameState?.weather?.temperature;
+    const zoneTypes = new Map<string, string>(
+      (this.gameState?.zones ?? []).map((zone) => [zone.id, zone.type]),
+    );
+
+    for (const sp of this.stockpiles.values()) {
+      const rate = FoodSpoilage.getSpoilageRate(
+        temperature,
+        zoneTypes.get(sp.zoneId),
+      );
+      FoodSpoilage.age(sp.inventory, now, since, rate);
+      const compost = FoodSpoilage.removeSpoiled(sp.inventory);
+      if (compost <= 0) continue;
+
+      sp.compost = (sp.compost ?? 0) + compost;
+      simulationEvents.emit(GameEventType.FOOD_SPOILED, {
+        stockpileId: sp.id,
+        zoneId: sp.zoneId,
+        amount: compost,
+        compost: sp.compost,
+      });
+    }
+
+    const agentRate = FoodSpoilage.getSpoilageRate(temperature);
+    for (const [agentId, inv] of this.agentInventories) {
+      const spoiled = FoodSpoilage.age(inv, now, since, agentRate);
+      if (spoiled > 0) {
+        simulationEvents.emit(GameEventType.FOOD_SPOILED, {
+          agentId,
+          amount: spoiled,
+        });
+      }
+    }
+  }
+
   /**
    * Syncs internal inventory state to gameState for snapshot broadcasting.
    * Called every tick to ensure clients receive up-to-date inventory data.
@@ -573,6 +687,7 @@ export class InventorySystem implements IInventorySystem {
         capacity: stockpile.capacity,
         type: stockpile.type,
         zoneId: stockpile.zoneId,
+        compost: stockpile.compost,
       };
     }
     this.gameState.inventory!.stockpiles = stockpilesObj;
@@ -743,6 +858,7 @@ export class InventorySystem implements IInventorySystem {
         agentId,
         primaryType,
         primaryAmount,
+        yieldConfig.foodId,
       );
 
       // Process secondary yields (e.g., iron_ore, copper_ore from rocks)
@@ -0,0 +1,192 @@
+/**
+ * Order book and matching engine for the resource market.
+ *
+ * Orders are kept in the array owned by `gameState.market`, so the book
+ * travels with snapshots and saves. Matching follows price-time priority:
+ * the highest bid meets the lowest ask, earlier orders first on equal price.
+ *
+ * @module domain/simulation/systems/economy/MarketOrderBook
+ */
+
+import type { MarketOrder } from "@/shared/types/simulation/economy";
+import type { ResourceType } from "../../../../shared/constants/ResourceEnums";
+import {
+  MarketOrderStatus,
+  MarketOrderType,
+} from "../../../../shared/constants/EconomyEnums";
+
+/**
+ * Outcome of settling one fill. When a side cannot settle (no money, no
+ * goods, no space), its order is cancelled and matching continues.
+ */
+export type MarketSettlement = "settled" | "buyer_failed" | "seller_failed";
+
+export interface MarketFill {
+  bid: MarketOrder;
+  ask: MarketOrder;
+  resource: ResourceType;
+  amount: number;
+  pricePerUnit: number;
+}
+
+export class MarketOrderBook {
+  constructor(private readonly getOrders: () => MarketOrder[]) {}
+
+  public add(order: MarketOrder): void {
+    this.getOrders().push(order);
+  }
+
+  public get(orderId: string): MarketOrder | undefined {
+    return this.getOrders().find((o) => o.id === orderId);
+  }
+
+  /**
+   * Units still open on an order.
+   */
+  public static remaining(order: MarketOrder): number {
+    return order.amount - (order.filledAmount ?? 0);
+  }
+
+  /**
+   * Active orders of a resource, each side sorted by priority.
+   */
+  public getBook(resource: ResourceType): {
+    bids: MarketOrder[];
+    asks: MarketOrder[];
+  } {
+    const bids: MarketOrder[] = [];
+    const asks: MarketOrder[] = [];
+    for (const order of this.getOrders()) {
+      if (order.resource !== resource) continue;
+      if (order.status !== MarketOrderStatus.ACTIVE) continue;
+      if (order.type === MarketOrderType.BUY) bids.push(order);
+      else asks.push(order);
+    }
+
+    bids.sort(
+      (a, b) =>
+        (b.priceLimit ?? Infinity) - (a.priceLimit ?? Infinity) ||
+        a.timestamp - b.timestamp,
+    );
+    asks.sort(
+      (a, b) =>
+        (a.priceLimit ?? 0) - (b.priceLimit ?? 0) || a.timestamp - b.timestamp,
+    );
+    return { bids, asks };
+  }
+
+  /**
+   * Matches the crossing orders of a resource.
+   *
+   * A fill trades at the limit of the earlier order (the one resting in the
+   * book). Orders without a limit take the other side's price; two orders
+   * without a limit trade at `referencePrice`. Agents never trade with
+   * themselves.
+   *
+   * @param resource - Resource to clear
+   * @param referencePrice - Price used when neither side sets a limit
+   * @param settle - Moves goods and money for a fill
+   * @returns Fills that settled
+   */
+  public match(
+    resource: ResourceType,
+    referencePrice: number,
+    settle: (fill: MarketFill) => MarketSettlement,
+  ): MarketFill[] {
+    const { bids, asks } = this.getBook(resource);
+    const fills: MarketFill[] = [];
+
+    for (const bid of bids) {
+      for (const ask of asks) {
+        if (bid.status !== MarketOrderStatus.ACTIVE) break;
+        if (ask.status !== MarketOrderStatus.ACTIVE) continue;
+        if (ask.agentId === bid.agentId) continue;
+        if ((bid.priceLimit ?? Infinity) < (ask.priceLimit ?? 0)) break;
+
+        const fill: MarketFill = {
+          bid,
+          ask,
+          resource,
+          amount: Math.min(
+            MarketOrderBook.remaining(bid),
+            MarketOrderBook.remaining(ask),
+          ),
+          pricePerUnit: this.getFillPrice(bid, ask, referencePrice),
+        };
+
+        const result = settle(fill);
+        if (result === "buyer_failed") {
+          bid.status = MarketOrderStatus.CANCELLED;
+          break;
+        }
+        if (result === "seller_failed") {
+          ask.status = MarketOrderStatus.CANCELLED;
+          continue;
+        }
+
+        this.applyFill(bid, fill.amount);
+        this.applyFill(ask, fill.amount);
+        fills.push(fill);
+      }
+    }
+
+    return fills;
+  }
+
+  /**
+   * Cancels an active order placed by `agentId`; orders of other agents are
+   * left alone.
+   */
+  public cancel(orderId: string, agentId: string): boolean {
+    const order = this.get(orderId);
+    if (!order || order.status !== MarketOrderStatus.ACTIVE) return false;
+    if (order.agentId !== agentId) return false;
+    order.status = MarketOrderStatus.CANCELLED;
+    return true;
+  }
+
+  /**
+   * Expires stale orders and drops every order that is no longer active.
+   *
+   * @returns Number of orders expired
+   */
+  public prune(now: number): number {
+    const orders = this.getOrders();
+    let expired = 0;
+    for (const order of orders) {
+      if (
+        order.status === MarketOrderStatus.ACTIVE &&
+        order.expiresAt !== undefined &&
+        order.expiresAt <= now
+      ) {
+        order.status = MarketOrderStatus.EXPIRED;
+        expired++;
+      }
+    }
+
+    const active = orders.filter((o) => o.status === MarketOrderStatus.ACTIVE);
+    orders.length = 0;
+    orders.push(...active);
+    return expired;
+  }
+
+  private getFillPrice(
+    bid: MarketOrder,
+    ask: MarketOrder,
+    referencePrice: number,
+  ): number {
+    if (bid.priceLimit === undefined && ask.priceLimit === undefined) {
+      return referencePrice;
+    }
+    if (bid.priceLimit === undefined) return ask.priceLimit ?? referencePrice;
+    if (ask.priceLimit === undefined) return bid.priceLimit;
+    return bid.timestamp <= ask.timestamp ? bid.priceLimit : ask.priceLimit;
+  }
+
+  private applyFill(order: MarketOrder, amount: number): void {
+    order.filledAmount = (order.filledAmount ?? 0) + amount;
+    if (order.filledAmount >= order.amount) {
+      order.status = MarketOrderStatus.COMPLETED;
+    }
+  }
+}
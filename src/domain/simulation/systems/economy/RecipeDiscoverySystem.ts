@@ -8,7 +8,10 @@ import { RecipesCatalog } from "../../../data/RecipesCatalog";
 import { BiomeRecipesCatalog } from "../../../data/BiomeRecipesCatalog";
 import { WeaponId } from "@/shared/constants/CraftingEnums";
 import { injectable, inject } from "inversify";
+import { RandomUtils } from "@/shared/utils/RandomUtils";
 import { TYPES } from "../../../../config/Types";
+import { simulationEvents, GameEventType } from "../../core/events";
+import { getSimulationTime } from "../../../../shared/FrameTime";
 
 const BASIC_RECIPES = [
   "wood_to_plank",
@@ -28,7 +31,7 @@ export class RecipeDiscoverySystem {
 
   constructor(@inject(TYPES.GameState) gameState: GameState) {
     this.gameState = gameState;
-    this.random = Math.random;
+    this.random = (): number => RandomUtils.float();
     this.initializeBasicRecipes();
   }
 
@@ -114,7 +117,7 @@ export class RecipeDiscoverySystem {
 
     const knownRecipe: AgentKnownRecipe = {
       recipeId,
-      discoveredAt: Date.now(),
+      discoveredAt: getSimulationTime(),
       timesUsed: 0,
       successRate: recipe.successRate || 1.0,
       proficiency: 0,
@@ -126,7 +129,7 @@ export class RecipeDiscoverySystem {
       agentId,
       recipeId,
       method: "learning",
-      discoveredAt: Date.now(),
+      discoveredAt: getSimulationTime(),
     };
   }
 
@@ -171,7 +174,7 @@ export class RecipeDiscoverySystem {
 
     if (success) {
       const event = this.teachRecipe(agentId, recipe.id);
-      this.discoveredRecipes.add(recipe.id);
+      this.registerDiscovery(recipe.id, agentId);
 
       if (!recipe.discoveredBy) {
         recipe.discoveredBy = [];
@@ -263,6 +266,29 @@ export class RecipeDiscoverySystem {
     return event;
   }
 
+  /**
+   * Marks a recipe as discovered globally (e.g. unlocked through research).
+   * Emits RECIPE_DISCOVERED when an agent is credited with a new discovery.
+   *
+   * @param recipeId - Recipe to register
+   * @param discoveredBy - Agent credited with the discovery
+   * @returns True if the recipe exists and was not already discovered
+   */
+  public registerDiscovery(recipeId: string, discoveredBy?: string): boolean {
+    if (!RecipesCatalog.getRecipeById(recipeId)) return false;
+    if (this.discoveredRecipes.has(recipeId)) return false;
+    this.discoveredRecipes.add(recipeId);
+
+    if (discoveredBy) {
+      simulationEvents.emit(GameEventType.RECIPE_DISCOVERED, {
+        agentId: discoveredBy,
+        recipeId,
+        timestamp: getSimulationTime(),
+      });
+    }
+    return true;
+  }
+
   public getGloballyDiscoveredRecipes(): string[] {
     return Array.from(this.discoveredRecipes);
   }
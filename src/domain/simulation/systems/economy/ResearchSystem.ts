@@ -0,0 +1,450 @@
+import { GameState, ResearchState } from "@/shared/types/game-types";
+import type {
+  LineageResearchStats,
+  ResearchCategory,
+  ResearchNode,
+  TechTreeState,
+} from "@/shared/types/simulation/research";
+import type { AgentProfile } from "@/shared/types/simulation/agents";
+import { ResearchCatalog } from "../../../data/ResearchCatalog";
+import { simulationEvents, GameEventType } from "../../core/events";
+import { logger } from "../../../../infrastructure/utils/logger";
+import type { RecipeDiscoverySystem } from "./RecipeDiscoverySystem";
+import type { GenealogySystem } from "../social/GenealogySystem";
+import type { StateDirtyTracker } from "../../core/StateDirtyTracker";
+import type { Persistable } from "../../ports";
+
+import { injectable, inject, optional } from "inversify";
+import { TYPES } from "../../../../config/Types";
+import { getSimulationTime } from "../../../../shared/FrameTime";
+
+interface LineageResearch {
+  lineageId: string;
+  initializedAt: number;
+  /** Unlocked categories, keyed by category ID */
+  nodes: Map<string, ResearchNode>;
+  completed: Set<string>;
+}
+
+/**
+ * Research progress of every lineage, as stored in saves.
+ */
+export interface ResearchPersistedState {
+  lineages: Array<{
+    lineageId: string;
+    initializedAt: number;
+    nodes: ResearchNode[];
+    completed: string[];
+  }>;
+}
+
+/**
+ * ResearchSystem — per-lineage progress through the tech tree.
+ *
+ * Responsibilities:
+ * - Track which research categories each lineage has unlocked and completed
+ * - Accumulate passive research from living lineage members (scaled by curiosity)
+ *   into the lowest-level unfinished category
+ * - Credit recipe discoveries to the categories that contain the recipe
+ * - On completion, teach the category's recipes to the lineage through
+ *   RecipeDiscoverySystem and unlock categories whose prerequisites are met
+ * - Publish `gameState.research` (tech tree of the primary lineage + stats)
+ *
+ * Lineages known to GenealogySystem are initialized automatically; others can
+ * be created with INITIALIZE_LINEAGE and then include every living agent.
+ *
+ * Events emitted: RESEARCH_CATEGORY_UNLOCKED, RESEARCH_CATEGORY_COMPLETED
+ */
+@injectable()
+export class ResearchSystem implements Persistable<ResearchPersistedState> {
+  public readonly persistenceVersion = 1;
+
+  private gameState: GameState;
+  private lineages = new Map<string, LineageResearch>();
+
+  /** Progress added per second by a living member with curiosity 0.5 */
+  private readonly RESEARCH_RATE_PER_MEMBER = 0.002;
+  /** Progress credited to a category when one of its recipes is discovered */
+  private readonly DISCOVERY_PROGRESS_SHARE = 0.5;
+  private readonly MAX_SPECIALIZATIONS = 3;
+
+  constructor(
+    @inject(TYPES.GameState) gameState: GameState,
+    @inject(TYPES.RecipeDiscoverySystem)
+    private readonly recipeDiscoverySystem: RecipeDiscoverySystem,
+    @inject(TYPES.GenealogySystem)
+    @optional()
+    private readonly genealogySystem?: GenealogySystem,
+    @inject(TYPES.StateDirtyTracker)
+    @optional()
+    private readonly dirtyTracker?: StateDirtyTracker,
+  ) {
+    this.gameState = gameState;
+  }
+
+  /**
+   * Starts tracking research for a lineage. Categories without
+   * prerequisites are unlocked immediately.
+   *
+   * @param lineageId - Lineage to initialize
+   * @returns False if the lineage was already initialized
+   */
+  public initializeLineage(lineageId: string): boolean {
+    if (this.lineages.has(lineageId)) return false;
+
+    const lineage: LineageResearch = {
+      lineageId,
+      initializedAt: getSimulationTime(),
+      nodes: new Map(),
+      completed: new Set(),
+    };
+    this.lineages.set(lineageId, lineage);
+
+    for (const category of ResearchCatalog.getAllCategories()) {
+      if (category.prerequisites.length === 0) {
+        this.unlockCategory(lineage, category);
+      }
+    }
+
+    logger.info(`🔬 [ResearchSystem] Lineage ${lineageId} initialized`);
+    this.publishState();
+    return true;
+  }
+
+  /**
+   * Registers a recipe discovery and credits it to the lineage's unlocked
+   * categories that contain the recipe. Unknown lineages are initialized
+   * on the fly.
+   *
+   * @param lineageId - Lineage that made the discovery
+   * @param recipeId - Discovered recipe
+   * @param discoveredBy - Agent credited with the discovery
+   * @returns True if at least one category received progress
+   */
+  public recordRecipeDiscovery(
+    lineageId: string,
+    recipeId: string,
+    discoveredBy?: string,
+  ): boolean {
+    this.initializeLineage(lineageId);
+    const lineage = this.lineages.get(lineageId);
+    if (!lineage) return false;
+
+    this.recipeDiscoverySystem.registerDiscovery(recipeId, discoveredBy);
+    if (discoveredBy) {
+      this.recipeDiscoverySystem.teachRecipe(discoveredBy, recipeId);
+    }
+
+    let credited = false;
+    for (const category of ResearchCatalog.getCategoriesForRecipe(recipeId)) {
+      const node = lineage.nodes.get(category.id);
+      if (!node || lineage.completed.has(category.id)) continue;
+      if (node.recipesDiscovered.includes(recipeId)) continue;
+
+      node.recipesDiscovered.push(recipeId);
+      if (discoveredBy && !node.contributors.includes(discoveredBy)) {
+        node.contributors.push(discoveredBy);
+      }
+      this.addProgress(
+        lineage,
+        category,
+        this.DISCOVERY_PROGRESS_SHARE / category.recipes.length,
+      );
+      credited = true;
+    }
+
+    if (credited) {
+      this.publishState();
+    }
+    return credited;
+  }
+
+  public update(deltaMs: number): void {
+    this.syncGenealogyLineages();
+
+    const seconds = deltaMs / 1000;
+    for (const lineage of this.lineages.values()) {
+      const members = this.getLivingMembers(lineage.lineageId);
+
+      const category = this.getFocusCategory(lineage);
+      if (category && members.length > 0 && seconds > 0) {
+        const node = lineage.nodes.get(category.id);
+        let amount = 0;
+        for (const member of members) {
+          const curiosity = member.traits?.curiosity ?? 0.5;
+          amount += this.RESEARCH_RATE_PER_MEMBER * (0.5 + curiosity) * seconds;
+          if (node && !node.contributors.includes(member.id)) {
+            node.contributors.push(member.id);
+          }
+        }
+        this.addProgress(lineage, category, amount);
+      }
+
+      this.teachCompletedRecipes(lineage, members);
+    }
+
+    this.publishState();
+  }
+
+  public isCategoryUnlocked(lineageId: string, categoryId: string): boolean {
+    return this.lineages.get(lineageId)?.nodes.has(categoryId) ?? false;
+  }
+
+  public isCategoryCompleted(lineageId: string, categoryId: string): boolean {
+    return this.lineages.get(lineageId)?.completed.has(categoryId) ?? false;
+  }
+
+  public getNode(
+    lineageId: string,
+    categoryId: string,
+  ): ResearchNode | undefined {
+    return this.lineages.get(lineageId)?.nodes.get(categoryId);
+  }
+
+  public getLineageIds(): string[] {
+    return Array.from(this.lineages.keys());
+  }
+
+  public getLineageStats(lineageId: string): LineageResearchStats | null {
+    const lineage = this.lineages.get(lineageId);
+    if (!lineage) return null;
+
+    const categories = ResearchCatalog.getAllCategories();
+    let progressSum = 0;
+    lineage.nodes.forEach((node) => {
+      progressSum += node.progress;
+    });
+
+    const specializations = categories
+      .filter((c) => lineage.completed.has(c.id))
+      .sort((a, b) => b.level - a.level)
+      .slice(0, this.MAX_SPECIALIZATIONS)
+      .map((c) => c.id);
+
+    return {
+      totalCategories: categories.length,
+      unlockedCategories: lineage.nodes.size,
+      completedCategories: lineage.completed.size,
+      totalProgress:
+        categories.length > 0 ? progressSum / categories.length : 0,
+      specializations,
+    };
+  }
+
+  /**
+   * Builds the tech tree as seen by a lineage. Without a lineage, only the
+   * root categories are shown as unlocked.
+   */
+  public getTechTree(lineageId?: string): TechTreeState {
+    const lineage = lineageId ? this.lineages.get(lineageId) : undefined;
+    const categories = ResearchCatalog.getAllCategories();
+
+    return {
+      nodes: categories.map((category) => {
+        const node = lineage?.nodes.get(category.id);
+        return {
+          category,
+          unlocked: lineage
+            ? node !== undefined
+            : category.prerequisites.length === 0,
+          completed: lineage?.completed.has(category.id) ?? false,
+          progress: node?.progress ?? 0,
+        };
+      }),
+      connections: categories.flatMap((category) =>
+        category.prerequisites.map((from) => ({ from, to: category.id })),
+      ),
+    };
+  }
+
+  public cleanup(): void {
+    this.lineages.clear();
+  }
+
+  public serialize(): ResearchPersistedState {
+    return {
+      lineages: Array.from(this.lineages.values()).map((lineage) => ({
+        lineageId: lineage.lineageId,
+        initializedAt: lineage.initializedAt,
+        nodes: Array.from(lineage.nodes.values()).map((node) => ({
+          ...node,
+          recipesDiscovered: [...node.recipesDiscovered],
+          contributors: [...node.contributors],
+        })),
+        completed: Array.from(lineage.completed),
+      })),
+    };
+  }
+
+  /**
+   * Replaces every lineage's progress with the saved one and republishes
+   * `gameState.research`. Without data all progress is cleared; lineages
+   * known to GenealogySystem start over on the next update.
+   */
+  public restore(data: ResearchPersistedState | null): void {
+    this.lineages.clear();
+    for (const saved of data?.lineages ?? []) {
+      this.lineages.set(saved.lineageId, {
+        lineageId: saved.lineageId,
+        initializedAt: saved.initializedAt,
+        nodes: new Map(
+          saved.nodes.map((node) => [
+            node.categoryId,
+            {
+              ...node,
+              recipesDiscovered: [...node.recipesDiscovered],
+              contributors: [...node.contributors],
+            },
+          ]),
+        ),
+        completed: new Set(saved.completed),
+      });
+    }
+    this.publishState();
+  }
+
+  private unlockCategory(
+    lineage: LineageResearch,
+    category: ResearchCategory,
+  ): void {
+    if (lineage.nodes.has(category.id)) return;
+
+    lineage.nodes.set(category.id, {
+      categoryId: category.id,
+      unlockedAt: getSimulationTime(),
+      progress: 0,
+      recipesDiscovered: [],
+      contributors: [],
+    });
+
+    simulationEvents.emit(GameEventType.RESEARCH_CATEGORY_UNLOCKED, {
+      lineageId: lineage.lineageId,
+      categoryId: category.id,
+      timestamp: getSimulationTime(),
+    });
+  }
+
+  private addProgress(
+    lineage: LineageResearch,
+    category: ResearchCategory,
+    amount: number,
+  ): void {
+    const node = lineage.nodes.get(category.id);
+    if (!node || lineage.completed.has(category.id)) return;
+
+    node.progress = Math.min(1, node.progress + amount);
+    if (node.progress >= 1) {
+      this.completeCategory(lineage, category);
+    }
+  }
+
+  private completeCategory(
+    lineage: LineageResearch,
+    category: ResearchCategory,
+  ): void {
+    lineage.completed.add(category.id);
+
+    for (const recipeId of category.recipes) {
+      this.recipeDiscoverySystem.registerDiscovery(recipeId);
+    }
+    this.teachCompletedRecipes(
+      lineage,
+      this.getLivingMembers(lineage.lineageId),
+    );
+
+    logger.info(
+      `🔬 [ResearchSystem] ${lineage.lineageId} completed ${category.id}`,
+    );
+    simulationEvents.emit(GameEventType.RESEARCH_CATEGORY_COMPLETED, {
+      lineageId: lineage.lineageId,
+      categoryId: category.id,
+      recipes: category.recipes,
+      timestamp: getSimulationTime(),
+    });
+
+    for (const dependent of ResearchCatalog.getDependents(category.id)) {
+      const ready = dependent.prerequisites.every((id) =>
+        lineage.completed.has(id),
+      );
+      if (ready) {
+        this.unlockCategory(lineage, dependent);
+      }
+    }
+  }
+
+  /**
+   * Teaches the recipes of completed categories to lineage members that do
+   * not know them yet (covers members born after the completion).
+   */
+  private teachCompletedRecipes(
+    lineage: LineageResearch,
+    members: AgentProfile[],
+  ): void {
+    for (const categoryId of lineage.completed) {
+      const category = ResearchCatalog.getCategoryById(categoryId);
+      if (!category) continue;
+      for (const member of members) {
+        for (const recipeId of category.recipes) {
+          this.recipeDiscoverySystem.teachRecipe(member.id, recipeId);
+        }
+      }
+    }
+  }
+
+  /**
+   * The unlocked, unfinished category with the lowest level receives
+   * passive research. Ties keep catalog order.
+   */
+  private getFocusCategory(
+    lineage: LineageResearch,
+  ): ResearchCategory | undefined {
+    let focus: ResearchCategory | undefined;
+    for (const categoryId of lineage.nodes.keys()) {
+      if (lineage.completed.has(categoryId)) continue;
+      const category = ResearchCatalog.getCategoryById(categoryId);
+      if (category && (!focus || category.level < focus.level)) {
+        focus = category;
+      }
+    }
+    return focus;
+  }
+
+  private getLivingMembers(lineageId: string): AgentProfile[] {
+    const agents = this.gameState.agents ?? [];
+    const genealogyLineage = this.genealogySystem
+      ?.getFamilyTree()
+      .lineages.get(lineageId);
+
+    if (!genealogyLineage) {
+      return agents.filter((agent) => !agent.isDead);
+    }
+
+    const living = new Set(genealogyLineage.livingMembers);
+    return agents.filter((agent) => !agent.isDead && living.has(agent.id));
+  }
+
+  private syncGenealogyLineages(): void {
+    if (!this.genealogySystem) return;
+    for (const lineageId of this.genealogySystem
+      .getFamilyTree()
+      .lineages.keys()) {
+      if (!this.lineages.has(lineageId)) {
+        this.initializeLineage(lineageId);
+      }
+    }
+  }
+
+  private publishState(): void {
+    const lineageIds = this.getLineageIds();
+    const research: ResearchState = {
+      techTree: this.getTechTree(lineageIds[0]),
+      lineages: lineageIds.flatMap((lineageId) => {
+        const stats = this.getLineageStats(lineageId);
+        return stats ? [{ lineageId, stats }] : [];
+      }),
+    };
+
+    this.gameState.research = research;
+    this.dirtyTracker?.markDirty("research");
+  }
+}
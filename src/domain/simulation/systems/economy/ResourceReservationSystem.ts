@@ -12,11 +12,21 @@ interface Reservation {
   timestamp: number;
 }
 
+/**
+ * Reservations held when the save was taken.
+ */
+export interface ResourceReservationPersistedState {
+  reservations: Reservation[];
+}
+
 import { injectable, inject } from "inversify";
 import { TYPES } from "../../../../config/Types";
+import type { Persistable } from "../../ports";
+import { getSimulationTime } from "../../../../shared/FrameTime";
 
 @injectable()
-export class ResourceReservationSystem {
+export class ResourceReservationSystem implements Persistable<ResourceReservationPersistedState> {
+  public readonly persistenceVersion = 1;
   private reservations = new Map<string, Reservation>();
   private readonly now: () => number;
   private lastCleanup = 0;
@@ -27,7 +37,7 @@ export class ResourceReservationSystem {
     @inject(TYPES.InventorySystem)
     private readonly inventorySystem: InventorySystem,
   ) {
-    this.now = (): number => Date.now();
+    this.now = (): number => getSimulationTime();
     this.setupEventListeners();
   }
 
@@ -197,6 +207,26 @@ export class ResourceReservationSystem {
     this.cleanupStaleReservations();
   }
 
+  public serialize(): ResourceReservationPersistedState {
+    return {
+      reservations: Array.from(this.reservations.values(), (reservation) => ({
+        ...reservation,
+        cost: { ...reservation.cost },
+      })),
+    };
+  }
+
+  public restore(data: ResourceReservationPersistedState | null): void {
+    this.reservations.clear();
+    for (const reservation of data?.reservations ?? []) {
+      this.reservations.set(reservation.taskId, {
+        ...reservation,
+        cost: { ...reservation.cost },
+      });
+    }
+    this.broadcastUpdate();
+  }
+
   private hasSufficientResources(cost: ResourceCost): boolean {
     const available = this.getAvailableResources(false);
     return available.wood >= cost.wood && available.stone >= cost.stone;
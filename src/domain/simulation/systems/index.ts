@@ -5,21 +5,22 @@
  * Central re-export for all simulation systems.
  * Systems are logically grouped by domain for easy discovery.
  *
- * TOTAL SYSTEMS: 27 main systems organized in 8 logical domains
+ * TOTAL SYSTEMS: 33 main systems organized in 8 logical domains
  *
  * ┌─────────────────────────────────────────────────────────────────────────┐
  * │ DOMAIN           │ SYSTEMS                                             │
  * ├─────────────────────────────────────────────────────────────────────────┤
- * │ AGENTS (5)       │ AI, Needs, Movement, Role, Equipment                │
+ * │ AGENTS (6)       │ AI, Needs, Movement, Role, Equipment, Health        │
  * │ WORLD (7)        │ WorldResource, ItemGeneration, Production, Animal,  │
  * │                  │ AmbientAwareness, Terrain, ChunkLoading             │
- * │ SOCIAL (5)       │ Social, Marriage, Household, Reputation, Genealogy  │
- * │ ECONOMY (5)      │ Economy, Inventory, EnhancedCrafting,               │
- * │                  │ RecipeDiscovery, ResourceReservation                │
+ * │ SOCIAL (8)       │ Social, Marriage, Household, Reputation, Genealogy, │
+ * │                  │ Dialogue, Divine, Legend                            │
+ * │ ECONOMY (6)      │ Economy, Inventory, EnhancedCrafting,               │
+ * │                  │ RecipeDiscovery, Research, ResourceReservation      │
  * │ CONFLICT (2)     │ Combat, ConflictResolution                          │
  * │ STRUCTURES (2)   │ Building, Governance                                │
  * │ LIFECYCLE (1)    │ LifeCycle                                           │
- * │ OBJECTIVES (1)   │ Task                                                │
+ * │ OBJECTIVES (2)   │ Task, Goal                                          │
  * │ CORE (1)         │ Time                                                │
  * └─────────────────────────────────────────────────────────────────────────┘
  *
@@ -31,7 +32,7 @@
  *
  * MERGED/ELIMINATED:
  * - InteractionGameSystem → eliminated (minimal functionality)
- * - LivingLegendsSystem → eliminated (decorative only)
+ * - LivingLegendsSystem → replaced by LegendSystem (deeds, tiers, stories)
  * - BuildingMaintenanceSystem → merged into BuildingSystem
  * - SharedKnowledgeSystem → moved to ai/ (internal infrastructure)
  * - QuestSystem → eliminated (narrative quests not needed for simulation)
@@ -48,6 +49,7 @@ export { NeedsBatchProcessor } from "./agents/needs/NeedsBatchProcessor";
 export { MovementSystem } from "./agents/movement/MovementSystem";
 export { MovementBatchProcessor } from "./agents/movement/MovementBatchProcessor";
 export { RoleSystem } from "./agents/RoleSystem";
+export { HealthSystem } from "./agents/HealthSystem";
 export {
   EquipmentSystem,
   equipmentSystem,
@@ -101,6 +103,9 @@ export type {
 export { SocialSystem } from "./social/SocialSystem";
 export { MarriageSystem } from "./social/MarriageSystem";
 export { HouseholdSystem } from "./social/HouseholdSystem";
+export { DialogueSystem } from "./social/DialogueSystem";
+export { DivineSystem } from "./social/DivineSystem";
+export { LegendSystem } from "./social/LegendSystem";
 
 export { GenealogySystem } from "./social/GenealogySystem";
 
@@ -108,6 +113,7 @@ export { EconomySystem } from "./economy/EconomySystem";
 export { InventorySystem } from "./economy/InventorySystem";
 export { EnhancedCraftingSystem } from "./economy/EnhancedCraftingSystem";
 export { RecipeDiscoverySystem } from "./economy/RecipeDiscoverySystem";
+export { ResearchSystem } from "./economy/ResearchSystem";
 export { ResourceReservationSystem } from "./economy/ResourceReservationSystem";
 
 export { CombatSystem } from "./conflict/CombatSystem";
@@ -119,5 +125,6 @@ export { GovernanceSystem } from "./structures/GovernanceSystem";
 export { LifeCycleSystem } from "./lifecycle/LifeCycleSystem";
 
 export { TaskSystem } from "./objectives/TaskSystem";
+export { GoalSystem } from "./objectives/GoalSystem";
 
 export { TimeSystem } from "./core/TimeSystem";
@@ -0,0 +1,254 @@
+import type {
+  AgentAppearance,
+  AgentGenome,
+  AgentPhysique,
+  AgentPredispositions,
+  AgentTraits,
+  Allele,
+  Gene,
+  PersonalityGene,
+} from "@/shared/types/simulation/agents";
+import { RandomUtils } from "@/shared/utils/RandomUtils";
+
+/** Chance of each inherited allele mutating */
+const MUTATION_RATE = 0.05;
+
+type Range = readonly [min: number, max: number];
+
+/** Alleles of each appearance gene; darker colors and short hair dominate */
+const APPEARANCE_ALLELES: Record<keyof AgentAppearance, Allele<string>[]> = {
+  skinColor: [
+    { value: "#8d5524", dominant: true },
+    { value: "#c68642", dominant: true },
+    { value: "#e0ac69", dominant: false },
+    { value: "#f5d0b0", dominant: false },
+    { value: "#ffdbac", dominant: false },
+  ],
+  hairColor: [
+    { value: "#000000", dominant: true },
+    { value: "#4a3b2a", dominant: true },
+    { value: "#915f6d", dominant: false },
+    { value: "#b55239", dominant: false },
+    { value: "#e6cea8", dominant: false },
+  ],
+  eyeColor: [
+    { value: "#634e34", dominant: true },
+    { value: "#497665", dominant: true },
+    { value: "#3d671d", dominant: false },
+    { value: "#1c7847", dominant: false },
+    { value: "#2e536f", dominant: false },
+  ],
+  hairStyle: [
+    { value: "short", dominant: true },
+    { value: "braids", dominant: true },
+    { value: "long", dominant: false },
+    { value: "ponytail", dominant: false },
+    { value: "bald", dominant: false },
+  ],
+};
+
+const PERSONALITY_RANGES: Record<PersonalityGene, Range> = {
+  cooperation: [0, 1],
+  aggression: [0, 1],
+  diligence: [0, 1],
+  curiosity: [0, 1],
+  bravery: [0, 1],
+  intelligence: [0, 1],
+  charisma: [0, 1],
+  neuroticism: [0, 1],
+};
+
+const PHYSICAL_RANGES: Record<keyof AgentPhysique, Range> = {
+  lifespan: [0.85, 1.15],
+  fertility: [0.7, 1.3],
+  stamina: [0, 1],
+};
+
+const PREDISPOSITION_RANGES: Record<keyof AgentPredispositions, Range> = {
+  immunity: [0.7, 1.3],
+  healing: [0.7, 1.3],
+};
+
+/**
+ * Genetics of agents: genomes of dominant and recessive alleles, inherited
+ * one allele per gene from each parent with occasional mutation.
+ *
+ * A dominant allele masks a recessive one. Two numeric alleles of the same
+ * dominance blend; two appearance alleles of the same dominance show the
+ * first, and alleles are stored in random order.
+ *
+ * @see AnimalGenetics for the simpler genes of animals
+ */
+export class AgentGenetics {
+  /**
+   * Random genome for an agent without parents.
+   *
+   * @param phenotype - Traits and appearance the agent must show. Their
+   * genes get two identical alleles, so children inherit them.
+   */
+  public static generateRandomGenome(
+    phenotype: {
+      traits?: Partial<AgentTraits>;
+      appearance?: Partial<AgentAppearance>;
+    } = {},
+  ): AgentGenome {
+    const traits = phenotype.traits ?? {};
+    const appearance = phenotype.appearance ?? {};
+
+    return {
+      appearance: mapGenes(APPEARANCE_ALLELES, (alleles, key) => {
+        const value = appearance[key];
+        return value === undefined
+          ? [randomAllele(alleles), randomAllele(alleles)]
+          : homozygous(value);
+      }),
+      personality: mapGenes(PERSONALITY_RANGES, (range, key) =>
+        this.randomNumericGene(range, traits[key]),
+      ),
+      physical: mapGenes(PHYSICAL_RANGES, (range, key) =>
+        this.randomNumericGene(
+          range,
+          key === "stamina" ? traits.stamina : undefined,
+        ),
+      ),
+      predispositions: mapGenes(PREDISPOSITION_RANGES, (range) =>
+        this.randomNumericGene(range),
+      ),
+    };
+  }
+
+  /**
+   * Genome of a child: one allele of each gene from each parent.
+   */
+  public static breedGenome(
+    father: AgentGenome,
+    mother: AgentGenome,
+  ): AgentGenome {
+    return {
+      appearance: mapGenes(APPEARANCE_ALLELES, (alleles, key) =>
+        this.inheritGene(father.appearance[key], mother.appearance[key], (a) =>
+          RandomUtils.chance(MUTATION_RATE) ? randomAllele(alleles) : a,
+        ),
+      ),
+      personality: mapGenes(PERSONALITY_RANGES, (range, key) =>
+        this.inheritGene(
+          father.personality[key],
+          mother.personality[key],
+          (a) => mutateNumeric(a, range),
+        ),
+      ),
+      physical: mapGenes(PHYSICAL_RANGES, (range, key) =>
+        this.inheritGene(father.physical[key], mother.physical[key], (a) =>
+          mutateNumeric(a, range),
+        ),
+      ),
+      predispositions: mapGenes(PREDISPOSITION_RANGES, (range, key) =>
+        this.inheritGene(
+          father.predispositions[key],
+          mother.predispositions[key],
+          (a) => mutateNumeric(a, range),
+        ),
+      ),
+    };
+  }
+
+  /**
+   * Traits shown by a genome, stamina included.
+   */
+  public static expressTraits(genome: AgentGenome): AgentTraits {
+    const personality = mapGenes(genome.personality, expressNumeric);
+    return {
+      ...personality,
+      stamina: expressNumeric(genome.physical.stamina),
+    };
+  }
+
+  public static expressAppearance(genome: AgentGenome): AgentAppearance {
+    return mapGenes(genome.appearance, ([a, b]) =>
+      a.dominant || !b.dominant ? a.value : b.value,
+    );
+  }
+
+  public static expressPhysique(genome: AgentGenome): AgentPhysique {
+    return mapGenes(genome.physical, expressNumeric);
+  }
+
+  public static expressPredispositions(
+    genome: AgentGenome,
+  ): AgentPredispositions {
+    return mapGenes(genome.predispositions, expressNumeric);
+  }
+
+  /**
+   * Fitness of a genome from its physique and predispositions, around 1
+   * for an average genome.
+   */
+  public static calculateFitness(genome: AgentGenome): number {
+    const physique = this.expressPhysique(genome);
+    const predispositions = this.expressPredispositions(genome);
+    return (
+      physique.lifespan * 0.25 +
+      physique.fertility * 0.25 +
+      (0.5 + physique.stamina) * 0.15 +
+      predispositions.immunity * 0.2 +
+      predispositions.healing * 0.15
+    );
+  }
+
+  private static randomNumericGene(range: Range, value?: number): Gene {
+    if (value !== undefined) return homozygous(value);
+    const random = (): Allele => ({
+      value: RandomUtils.floatRange(range[0], range[1]),
+      dominant: RandomUtils.chance(0.5),
+    });
+    return [random(), random()];
+  }
+
+  private static inheritGene<T>(
+    father: Gene<T>,
+    mother: Gene<T>,
+    mutate: (allele: Allele<T>) => Allele<T>,
+  ): Gene<T> {
+    const fromFather = mutate({ ...RandomUtils.elementOrThrow(father) });
+    const fromMother = mutate({ ...RandomUtils.elementOrThrow(mother) });
+    return RandomUtils.chance(0.5)
+      ? [fromFather, fromMother]
+      : [fromMother, fromFather];
+  }
+}
+
+function mapGenes<K extends string, T, U>(
+  genes: Record<K, T>,
+  map: (gene: T, key: K) => U,
+): Record<K, U> {
+  const result = {} as Record<K, U>;
+  for (const key of Object.keys(genes) as K[]) {
+    result[key] = map(genes[key], key);
+  }
+  return result;
+}
+
+function randomAllele<T>(alleles: Allele<T>[]): Allele<T> {
+  return { ...RandomUtils.elementOrThrow(alleles) };
+}
+
+function homozygous<T>(value: T): Gene<T> {
+  return [
+    { value, dominant: true },
+    { value, dominant: true },
+  ];
+}
+
+function expressNumeric([a, b]: Gene): number {
+  if (a.dominant !== b.dominant) return a.dominant ? a.value : b.value;
+  return (a.value + b.value) / 2;
+}
+
+function mutateNumeric(allele: Allele, [min, max]: Range): Allele {
+  if (!RandomUtils.chance(MUTATION_RATE)) return allele;
+  const shift = (RandomUtils.float() - 0.5) * 0.2 * (max - min);
+  return {
+    ...allele,
+    value: Math.max(min, Math.min(max, allele.value + shift)),
+  };
+}
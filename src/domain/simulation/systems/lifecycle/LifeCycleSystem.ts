@@ -4,7 +4,8 @@ import { GameState } from "@/shared/types/game-types";
 import {
   AgentProfile,
   AgentTraits,
-  AgentAppearance,
+  AgentGenome,
+  AgentPhysique,
   LifeStage,
   Sex,
   SocialStatus,
@@ -20,12 +21,14 @@ import type {
   ISocialPort,
   IHouseholdPort,
   IMovementPort,
+  IDivinePort,
 } from "../../ports";
 import type { MarriageSystem } from "../social/MarriageSystem";
 import type { GenealogySystem } from "../social/GenealogySystem";
 
 import type { RoleSystem } from "../agents/RoleSystem";
 import { RandomUtils } from "../../../../shared/utils/RandomUtils";
+import { AgentGenetics } from "./AgentGenetics";
 
 interface LifeCycleConfig {
   secondsPerYear: number;
@@ -46,6 +49,7 @@ import { TYPES } from "../../../../config/Types";
 import type { EntityIndex } from "../../core/EntityIndex";
 import type { TaskSystem } from "../objectives/TaskSystem";
 import type { AgentRegistry } from "../agents/AgentRegistry";
+import { getSimulationTime } from "../../../../shared/FrameTime";
 
 /**
  * System for managing agent lifecycle: birth, aging, death, and reproduction.
@@ -53,6 +57,7 @@ import type { AgentRegistry } from "../agents/AgentRegistry";
  * Features:
  * - Age progression with life stages (child, adult, elder)
  * - Reproduction with fertility windows and cooldowns
+ * - Genetic inheritance of traits, appearance and physique (AgentGenetics)
  * - Death handling with respawn support
  * - Resource consumption over time
  * - Role assignment on reaching adulthood
@@ -82,6 +87,7 @@ export class LifeCycleSystem extends EventEmitter {
   private _movementSystem?: IMovementPort;
   private _roleSystem?: RoleSystem;
   private _taskSystem?: TaskSystem;
+  private divinePort?: IDivinePort;
   private dependenciesChecked = false;
   private entityIndex?: EntityIndex;
   private agentRegistry?: AgentRegistry;
@@ -148,6 +154,7 @@ export class LifeCycleSystem extends EventEmitter {
     movementSystem?: IMovementPort;
     roleSystem?: RoleSystem;
     taskSystem?: TaskSystem;
+    divinePort?: IDivinePort;
   }): void {
     if (systems.needsSystem) this.needsSystem = systems.needsSystem;
     if (systems.aiSystem) this._aiSystem = systems.aiSystem;
@@ -160,6 +167,7 @@ export class LifeCycleSystem extends EventEmitter {
 
     if (systems.movementSystem) this._movementSystem = systems.movementSystem;
     if (systems.taskSystem) this._taskSystem = systems.taskSystem;
+    if (systems.divinePort) this.divinePort = systems.divinePort;
     if (systems.roleSystem) {
       this._roleSystem = systems.roleSystem;
       this.assignRolesToEligibleAdults();
@@ -216,7 +224,7 @@ export class LifeCycleSystem extends EventEmitter {
         });
       }
 
-      if (!agent.immortal && agent.ageYears > this.config.maxAge) {
+      if (!agent.immortal && agent.ageYears > this.getMaxAge(agent)) {
         this.removeAgent(agent.id);
         continue;
       }
@@ -226,10 +234,10 @@ export class LifeCycleSystem extends EventEmitter {
       }
     }
 
-    void this.tryBreeding(Date.now());
+    void this.tryBreeding(getSimulationTime());
     this.processHousingAssignments();
 
-    const now = Date.now();
+    const now = getSimulationTime();
     const ROLE_REBALANCE_INTERVAL = 120000;
     if (!this.lastRoleRebalance) {
       this.lastRoleRebalance = now;
@@ -493,9 +501,20 @@ export class LifeCycleSystem extends EventEmitter {
       );
     }
 
+    // Fertility blessings and genes shorten the wait before the pair can
+    // conceive again
+    const blessing = Math.max(
+      this.divinePort?.getBlessingMultiplier(fatherId, "fertility_boost") ?? 1,
+      this.divinePort?.getBlessingMultiplier(motherId, "fertility_boost") ?? 1,
+    );
+    const fertility =
+      (blessing *
+        (this.getPhysique(father).fertility +
+          this.getPhysique(mother).fertility)) /
+      2;
     this.reproductionCooldown.set(
       pairKey,
-      now + this.config.reproductionCooldownSec * 1000,
+      now + (this.config.reproductionCooldownSec * 1000) / fertility,
     );
 
     simulationEvents.emit(GameEventType.REPRODUCTION_SUCCESS, {
@@ -523,19 +542,14 @@ export class LifeCycleSystem extends EventEmitter {
     const id = partial.id ?? `agent_${++this.spawnCounter}`;
     logger.info(`🧑 Spawning agent ${id} (${partial.name || "unnamed"})`);
 
-    let traits = this.randomTraits();
-    let appearance = this.generateRandomAppearance();
-
-    if (partial.parents?.father && partial.parents?.mother) {
-      traits = this.inheritTraits(
-        partial.parents.father,
-        partial.parents.mother,
-      );
-      appearance = this.inheritAppearance(
-        partial.parents.father,
-        partial.parents.mother,
-      );
-    }
+    const genome =
+      partial.genome ??
+      (partial.parents?.father && partial.parents?.mother
+        ? this.inheritGenome(partial.parents.father, partial.parents.mother)
+        : AgentGenetics.generateRandomGenome({
+            traits: partial.traits,
+            appearance: partial.appearance,
+          }));
 
     const profile: AgentProfile = {
       id,
@@ -544,12 +558,13 @@ export class LifeCycleSystem extends EventEmitter {
       ageYears: 0,
       lifeStage: LifeStage.CHILD,
       generation: partial.generation || 0,
-      birthTimestamp: Date.now(),
+      birthTimestamp: getSimulationTime(),
       immortal: false,
-      traits,
-      appearance,
       socialStatus: SocialStatus.COMMONER,
       ...partial,
+      traits: AgentGenetics.expressTraits(genome),
+      appearance: AgentGenetics.expressAppearance(genome),
+      genome,
     };
 
     const world = this.gameState.worldSize ?? { width: 2000, height: 2000 };
@@ -667,74 +682,45 @@ export class LifeCycleSystem extends EventEmitter {
     }
   }
 
-  private randomTraits(): AgentTraits {
-    return {
-      cooperation: RandomUtils.float(),
-      diligence: RandomUtils.float(),
-      curiosity: RandomUtils.float(),
-      aggression: RandomUtils.float(),
-    };
-  }
-
-  private inheritTraits(fatherId: string, motherId: string): AgentTraits {
+  /**
+   * Genome of a child: from the parents' genomes, or random if a parent is
+   * unknown.
+   */
+  private inheritGenome(fatherId: string, motherId: string): AgentGenome {
     const father = this.getAgent(fatherId);
     const mother = this.getAgent(motherId);
+    if (!father || !mother) return AgentGenetics.generateRandomGenome();
 
-    if (!father || !mother) return this.randomTraits();
-
-    const mix = (a: number, b: number): number => {
-      const base = (a + b) / 2;
-      const mutation = (RandomUtils.float() - 0.5) * 0.2;
-      return Math.max(0, Math.min(1, base + mutation));
-    };
-
-    return {
-      cooperation: mix(father.traits.cooperation, mother.traits.cooperation),
-      aggression: mix(father.traits.aggression, mother.traits.aggression),
-      curiosity: mix(father.traits.curiosity, mother.traits.curiosity),
-      diligence: mix(father.traits.diligence, mother.traits.diligence),
-    };
+    return AgentGenetics.breedGenome(
+      this.getGenome(father),
+      this.getGenome(mother),
+    );
   }
 
-  private generateRandomAppearance(): AgentAppearance {
-    const skinColors = ["#f5d0b0", "#e0ac69", "#8d5524", "#c68642", "#ffdbac"];
-    const hairColors = ["#000000", "#4a3b2a", "#b55239", "#e6cea8", "#915f6d"];
-    const eyeColors = ["#634e34", "#2e536f", "#3d671d", "#1c7847", "#497665"];
-    const hairStyles = ["short", "long", "bald", "ponytail", "braids"];
-
-    return {
-      skinColor: RandomUtils.element(skinColors) || "#f5d0b0",
-      hairColor: RandomUtils.element(hairColors) || "#000000",
-      eyeColor: RandomUtils.element(eyeColors) || "#634e34",
-      hairStyle: RandomUtils.element(hairStyles) || "short",
-    };
+  /**
+   * Genome of an agent. Agents from saves made before genetics get one
+   * matching their traits and appearance.
+   */
+  private getGenome(agent: AgentProfile): AgentGenome {
+    agent.genome ??= AgentGenetics.generateRandomGenome({
+      traits: agent.traits,
+      appearance: agent.appearance,
+    });
+    return agent.genome;
   }
 
-  private inheritAppearance(
-    fatherId: string,
-    motherId: string,
-  ): AgentAppearance {
-    const father = this.getAgent(fatherId);
-    const mother = this.getAgent(motherId);
-
-    if (!father?.appearance || !mother?.appearance) {
-      return this.generateRandomAppearance();
-    }
+  private getPhysique(agent: AgentProfile): AgentPhysique {
+    return agent.genome
+      ? AgentGenetics.expressPhysique(agent.genome)
+      : { lifespan: 1, fertility: 1, stamina: agent.traits.stamina ?? 0.5 };
+  }
 
-    return {
-      skinColor: RandomUtils.chance(0.5)
-        ? father.appearance.skinColor
-        : mother.appearance.skinColor,
-      hairColor: RandomUtils.chance(0.5)
-        ? father.appearance.hairColor
-        : mother.appearance.hairColor,
-      eyeColor: RandomUtils.chance(0.5)
-        ? father.appearance.eyeColor
-        : mother.appearance.eyeColor,
-      hairStyle: RandomUtils.chance(0.5)
-        ? father.appearance.hairStyle
-        : mother.appearance.hairStyle,
-    };
+  /**
+   * Age at which an agent dies of old age, longer or shorter with their
+   * lifespan genes.
+   */
+  public getMaxAge(agent: AgentProfile): number {
+    return this.config.maxAge * this.getPhysique(agent).lifespan;
   }
 
   /**
@@ -813,7 +799,7 @@ export class LifeCycleSystem extends EventEmitter {
             food: inv.food,
             water: inv.water,
           },
-          timestamp: Date.now(),
+          timestamp: getSimulationTime(),
         });
       }
       this.inventorySystem.removeAgentInventory(agentId);
@@ -0,0 +1,232 @@
+import type { GameState } from "@/shared/types/game-types";
+import type { GoalProgress, GoalsState } from "@/shared/types/simulation/goals";
+import { LEGEND_TIERS } from "@/shared/types/simulation/legends";
+import type {
+  ScenarioCondition,
+  ScenarioState,
+} from "@/shared/types/simulation/scenario";
+import { simulationEvents, GameEventType } from "../../core/events";
+import { logger } from "../../../../infrastructure/utils/logger";
+import type { TimeSystem } from "../core/TimeSystem";
+import type { StateDirtyTracker } from "../../core/StateDirtyTracker";
+
+import { injectable, inject, optional } from "inversify";
+import { TYPES } from "../../../../config/Types";
+
+/** GOAL_PROGRESS is emitted each time a goal's progress crosses a step */
+const PROGRESS_STEP = 0.05;
+
+/**
+ * GoalSystem — victory and failure conditions of the running scenario.
+ *
+ * Responsibilities:
+ * - Evaluate the conditions of `gameState.scenario` every slow tick:
+ *   population bounds, days survived, finished buildings, legend tiers and
+ *   days without starvation deaths
+ * - Keep the progress of each condition in `gameState.goals`, so it shows up
+ *   in snapshots and survives saves
+ * - Decide the scenario: won when every victory condition holds at once,
+ *   lost as soon as a failure condition holds
+ *
+ * Days are game days of the TimeSystem clock, counted with the scheduler's
+ * deltas from when the world started running. Worlds without a scenario, or
+ * whose scenario has no conditions, are not evaluated.
+ *
+ * Events emitted: GOAL_PROGRESS, GOAL_COMPLETED (victory conditions),
+ * SCENARIO_WON, SCENARIO_LOST
+ */
+@injectable()
+export class GoalSystem {
+  private gameState: GameState;
+
+  constructor(
+    @inject(TYPES.GameState) gameState: GameState,
+    @inject(TYPES.TimeSystem) private timeSystem: TimeSystem,
+    @inject(TYPES.StateDirtyTracker)
+    @optional()
+    private dirtyTracker?: StateDirtyTracker,
+  ) {
+    this.gameState = gameState;
+    this.setupEventListeners();
+  }
+
+  private setupEventListeners(): void {
+    simulationEvents.on(
+      GameEventType.AGENT_DEATH,
+      (data: { cause?: string }) => {
+        const goals = this.gameState.goals;
+        if (data?.cause === "starvation" && goals?.status === "active") {
+          goals.lastStarvationMs = goals.elapsedMs;
+        }
+      },
+    );
+  }
+
+  public update(deltaMs: number): void {
+    const scenario = this.gameState.scenario;
+    if (!scenario) return;
+    const { victory, failure } = scenario.conditions;
+    if (victory.length === 0 && failure.length === 0) return;
+
+    const state = this.getOrCreateState(scenario);
+    if (state.status !== "active") return;
+    state.elapsedMs += Math.max(0, deltaMs);
+
+    for (const goal of state.goals) {
+      this.evaluateGoal(goal, state);
+    }
+
+    const failed = state.goals.find((g) => g.kind === "failure" && g.met);
+    const victoryGoals = state.goals.filter((g) => g.kind === "victory");
+    if (failed) {
+      this.finish(state, "lost", failed);
+    } else if (victoryGoals.length > 0 && victoryGoals.every((g) => g.met)) {
+      this.finish(state, "won");
+    }
+
+    this.dirtyTracker?.markDirty("goals");
+  }
+
+  public getGoalsState(): GoalsState | undefined {
+    return this.gameState.goals;
+  }
+
+  private evaluateGoal(goal: GoalProgress, state: GoalsState): void {
+    const previous = goal.progress;
+    goal.progress = this.measure(goal.condition, state);
+    goal.met = goal.progress >= 1;
+
+    if (
+      Math.floor(goal.progress / PROGRESS_STEP) !==
+      Math.floor(previous / PROGRESS_STEP)
+    ) {
+      simulationEvents.emit(GameEventType.GOAL_PROGRESS, {
+        scenarioId: state.scenarioId,
+        goalId: goal.id,
+        kind: goal.kind,
+        progress: goal.progress,
+      });
+    }
+
+    if (goal.met && goal.completedAt === undefined) {
+      goal.completedAt = state.elapsedMs;
+      if (goal.kind === "victory") {
+        simulationEvents.emit(GameEventType.GOAL_COMPLETED, {
+          scenarioId: state.scenarioId,
+          goalId: goal.id,
+          condition: goal.condition,
+          elapsedMs: state.elapsedMs,
+        });
+      }
+    }
+  }
+
+  /**
+   * How close a condition is to holding, from 0 to 1; it holds at 1.
+   */
+  private measure(condition: ScenarioCondition, state: GoalsState): number {
+    const dayMs = this.timeSystem.getDayLengthMs();
+
+    switch (condition.type) {
+      case "population": {
+        const alive = this.gameState.agents.filter((a) => !a.isDead).length;
+        if (condition.min !== undefined && alive < condition.min) {
+          return alive / condition.min;
+        }
+        if (condition.max !== undefined && alive > condition.max) {
+          return condition.max / alive;
+        }
+        return 1;
+      }
+      case "survive_days":
+        return ratio(state.elapsedMs, condition.days * dayMs);
+      case "building": {
+        const built = (this.gameState.zones ?? []).filter(
+          (z) =>
+            z.metadata?.buildingType === condition.building &&
+            z.metadata.underConstruction !== true,
+        ).length;
+        return ratio(built, condition.count ?? 1);
+      }
+      case "legend": {
+        const minTier = LEGEND_TIERS.indexOf(condition.tier);
+        const reached = Object.values(
+          this.gameState.legends?.records ?? {},
+        ).filter((r) => LEGEND_TIERS.indexOf(r.legendTier) >= minTier).length;
+        return ratio(reached, condition.count ?? 1);
+      }
+      case "no_starvation":
+        return ratio(
+          state.elapsedMs - (state.lastStarvationMs ?? 0),
+          condition.days * dayMs,
+        );
+    }
+  }
+
+  private finish(
+    state: GoalsState,
+    status: "won" | "lost",
+    failed?: GoalProgress,
+  ): void {
+    state.status = status;
+    state.endedAt = state.elapsedMs;
+    const days = (state.elapsedMs / this.timeSystem.getDayLengthMs()).toFixed(
+      1,
+    );
+
+    if (status === "won") {
+      logger.info(
+        `🏆 [GoalSystem] Scenario ${state.scenarioId} won on day ${days}`,
+      );
+      simulationEvents.emit(GameEventType.SCENARIO_WON, {
+        scenarioId: state.scenarioId,
+        elapsedMs: state.elapsedMs,
+      });
+    } else {
+      logger.info(
+        `💀 [GoalSystem] Scenario ${state.scenarioId} lost on day ${days} (${failed?.condition.type})`,
+      );
+      simulationEvents.emit(GameEventType.SCENARIO_LOST, {
+        scenarioId: state.scenarioId,
+        goalId: failed?.id,
+        condition: failed?.condition,
+        elapsedMs: state.elapsedMs,
+      });
+    }
+  }
+
+  /**
+   * Goals of the current scenario, starting over when the state holds the
+   * goals of another one.
+   */
+  private getOrCreateState(scenario: ScenarioState): GoalsState {
+    if (this.gameState.goals?.scenarioId === scenario.id) {
+      return this.gameState.goals;
+    }
+
+    const goals: GoalProgress[] = [];
+    for (const kind of ["victory", "failure"] as const) {
+      scenario.conditions[kind].forEach((condition, index) => {
+        goals.push({
+          id: `${kind}_${index}`,
+          kind,
+          condition,
+          progress: 0,
+          met: false,
+        });
+      });
+    }
+    this.gameState.goals = {
+      scenarioId: scenario.id,
+      status: "active",
+      elapsedMs: 0,
+      lastStarvationMs: null,
+      goals,
+    };
+    return this.gameState.goals;
+  }
+}
+
+function ratio(value: number, target: number): number {
+  return target <= 0 ? 1 : Math.min(1, Math.max(0, value / target));
+}
@@ -1,7 +1,7 @@
 import { GameState, type TaskState } from "@/shared/types/game-types";
 import { Task, TaskCreationParams } from "@/shared/types/simulation/tasks";
 import { simulationEvents, GameEventType } from "../../core/events";
-import { getFrameTime } from "../../../../shared/FrameTime";
+import { getFrameTime, getSimulationTime } from "../../../../shared/FrameTime";
 
 import { injectable, inject, optional } from "inversify";
 import { TYPES } from "../../../../config/Types";
@@ -147,7 +147,7 @@ export class TaskSystem {
 
     const task: Task = {
       id: `task_${++this.seq}`,
-      createdAt: Date.now(),
+      createdAt: getSimulationTime(),
       progress: 0,
       completed: false,
       ...params,
@@ -160,7 +160,7 @@ export class TaskSystem {
       taskType: task.type,
       zoneId: task.zoneId,
       requiredWork: task.requiredWork,
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
     });
 
     this.tasksDirty = true;
@@ -211,7 +211,7 @@ export class TaskSystem {
       task.requiredWork,
       task.progress + finalContribution,
     );
-    task.lastContribution = Date.now();
+    task.lastContribution = getSimulationTime();
 
     const completed = task.progress >= task.requiredWork;
     if (completed) {
@@ -228,7 +228,7 @@ export class TaskSystem {
       requiredWork: task.requiredWork,
       completed,
       contributors: Array.from(task.contributors.keys()),
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
     });
 
     if (completed) {
@@ -237,8 +237,8 @@ export class TaskSystem {
       simulationEvents.emit(GameEventType.TASK_COMPLETED, {
         taskId,
         completedBy: Array.from(task.contributors.keys()),
-        completedAt: Date.now(),
-        timestamp: Date.now(),
+        completedAt: getSimulationTime(),
+        timestamp: getSimulationTime(),
       });
     }
 
@@ -280,7 +280,7 @@ export class TaskSystem {
         taskId: task.id,
         taskType: task.type,
         contribution,
-        timestamp: Date.now(),
+        timestamp: getSimulationTime(),
       });
 
       if (history.length > 10) {
@@ -385,7 +385,7 @@ export class TaskSystem {
   }
 
   public getStalledTasks(thresholdMs = 300000): Task[] {
-    const now = Date.now();
+    const now = getSimulationTime();
     return Array.from(this.tasks.values()).filter((task) => {
       if (task.completed || !task.lastContribution) return false;
       return now - task.lastContribution > thresholdMs;
@@ -508,10 +508,10 @@ export class TaskSystem {
       completedBy: task.contributors
         ? Array.from(task.contributors.keys())
         : [],
-      completedAt: Date.now(),
+      completedAt: getSimulationTime(),
       cancelled: true,
       reason,
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
     });
   }
 
@@ -522,6 +522,31 @@ export class TaskSystem {
     this.statsDirty = true;
   }
 
+  /**
+   * Replaces the tasks with serialized ones from gameState (for loading saves).
+   */
+  public importFromGameState(state: TaskState | undefined): void {
+    this.cleanup();
+    for (const task of state?.tasks ?? []) {
+      this.tasks.set(task.id, {
+        ...task,
+        createdAt: task.createdAt ?? getFrameTime(),
+        metadata: task.metadata as Task["metadata"],
+        contributors: task.contributors
+          ? new Map(
+              task.contributors.map(({ agentId, contribution }) => [
+                agentId,
+                contribution,
+              ]),
+            )
+          : undefined,
+      });
+      const seq = Number.parseInt(task.id.replace(/^task_/, ""), 10);
+      if (Number.isFinite(seq)) this.seq = Math.max(this.seq, seq);
+    }
+    logger.info(`📋 [TaskSystem] Imported ${this.tasks.size} tasks`);
+  }
+
   public syncTasksState(): boolean {
     const state = this.ensureTaskState();
     let changed = false;
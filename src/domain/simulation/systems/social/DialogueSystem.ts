@@ -0,0 +1,496 @@
+import { GameState } from "@/shared/types/game-types";
+import { RandomUtils } from "@/shared/utils/RandomUtils";
+import type {
+  DialogueCard,
+  DialogueChoice,
+  DialogueStateSnapshot,
+} from "@/shared/types/simulation/ambient";
+import {
+  DialogueCardType,
+  DialogueOutcome,
+  DialoguePriority,
+  DialogueTone,
+} from "../../../../shared/constants/AmbientEnums";
+import { ConflictResolutionChoice } from "../../../../shared/constants/ConflictEnums";
+import { NeedType } from "../../../../shared/constants/AIEnums";
+import { ResourceType } from "../../../../shared/constants/ResourceEnums";
+import { simulationEvents, GameEventType } from "../../core/events";
+import { logger } from "../../../../infrastructure/utils/logger";
+import type { NeedsSystem } from "../agents/needs/NeedsSystem";
+import type { SocialSystem } from "./SocialSystem";
+import type { InventorySystem } from "../economy/InventorySystem";
+import type { ConflictResolutionSystem } from "../conflict/ConflictResolutionSystem";
+import type { StateDirtyTracker } from "../../core/StateDirtyTracker";
+
+import { injectable, inject, optional } from "inversify";
+import { TYPES } from "../../../../config/Types";
+import { getSimulationTime } from "../../../../shared/FrameTime";
+
+const DIALOGUE_CONFIG = {
+  maxActiveCards: 3,
+  maxQueuedCards: 10,
+  maxHistory: 50,
+  /** Minimum time before the same trigger can raise a new card */
+  triggerCooldownMs: 120000,
+  durations: {
+    starvation: 45000,
+    marriage: 60000,
+    /** Matches ConflictResolutionSystem's truce card display time */
+    conflict: 20000,
+  },
+} as const;
+
+const PRIORITY_ORDER: Record<DialoguePriority, number> = {
+  [DialoguePriority.URGENT]: 3,
+  [DialoguePriority.HIGH]: 2,
+  [DialoguePriority.MEDIUM]: 1,
+  [DialoguePriority.LOW]: 0,
+};
+
+/**
+ * DialogueSystem — contextual decision cards for the player.
+ *
+ * Responsibilities:
+ * - Turn simulation events into cards: starvation (NEED_CRITICAL hunger),
+ *   new marriages (MARRIAGE_ACCEPTED) and truce proposals raised by
+ *   ConflictResolutionSystem (CONFLICT_TRUCE_PROPOSED)
+ * - Keep a bounded set of active cards and a priority queue for the rest
+ * - Apply the chosen option through NeedsSystem, SocialSystem,
+ *   InventorySystem and ConflictResolutionSystem
+ * - Expire unanswered cards after their duration
+ *
+ * State lives in `gameState.dialogueState`, so active, queued and past cards
+ * travel with saves and are picked up again after a load.
+ */
+@injectable()
+export class DialogueSystem {
+  private gameState: GameState;
+  private lastTriggered = new Map<string, number>();
+
+  constructor(
+    @inject(TYPES.GameState) gameState: GameState,
+    @inject(TYPES.NeedsSystem) @optional() private needsSystem?: NeedsSystem,
+    @inject(TYPES.SocialSystem) @optional() private socialSystem?: SocialSystem,
+    @inject(TYPES.InventorySystem)
+    @optional()
+    private inventorySystem?: InventorySystem,
+    @inject(TYPES.ConflictResolutionSystem)
+    @optional()
+    private conflictResolutionSystem?: ConflictResolutionSystem,
+    @inject(TYPES.StateDirtyTracker)
+    @optional()
+    private dirtyTracker?: StateDirtyTracker,
+  ) {
+    this.gameState = gameState;
+    this.setupEventListeners();
+  }
+
+  private setupEventListeners(): void {
+    simulationEvents.on(
+      GameEventType.NEED_CRITICAL,
+      (data: { agentId: string; need: string; value: number }) => {
+        if (data.need !== NeedType.HUNGER) return;
+        this.enqueueCard(this.createStarvationCard(data.agentId, data.value), [
+          "starvation",
+          data.agentId,
+        ]);
+      },
+    );
+
+    simulationEvents.on(
+      GameEventType.MARRIAGE_ACCEPTED,
+      (data: { proposerId: string; targetId: string; groupId: string }) => {
+        this.enqueueCard(
+          this.createMarriageCard(data.proposerId, data.targetId),
+          ["marriage", data.proposerId, data.targetId],
+        );
+      },
+    );
+
+    simulationEvents.on(
+      GameEventType.CONFLICT_TRUCE_PROPOSED,
+      (data: {
+        cardId: string;
+        attackerId: string;
+        targetId: string;
+        reason: string;
+      }) => {
+        this.enqueueCard(this.createConflictCard(data), [
+          "conflict",
+          data.cardId,
+        ]);
+      },
+    );
+  }
+
+  /**
+   * Adds a card to the active set, or to the queue when all slots are taken.
+   *
+   * @param card - Card to present
+   * @param triggerKey - Parts identifying the trigger, used for the cooldown
+   * @returns False if the trigger is cooling down or the queue is full
+   */
+  public enqueueCard(card: DialogueCard, triggerKey?: string[]): boolean {
+    const now = getSimulationTime();
+    const key = triggerKey?.join(":");
+    if (key) {
+      const last = this.lastTriggered.get(key);
+      if (
+        last !== undefined &&
+        now - last < DIALOGUE_CONFIG.triggerCooldownMs
+      ) {
+        return false;
+      }
+    }
+
+    const state = this.getState();
+    const queue = state.queue ?? [];
+    if (
+      state.active.length >= DIALOGUE_CONFIG.maxActiveCards &&
+      queue.length >= DIALOGUE_CONFIG.maxQueuedCards
+    ) {
+      return false;
+    }
+
+    if (key) {
+      this.lastTriggered.set(key, now);
+    }
+
+    if (state.active.length < DIALOGUE_CONFIG.maxActiveCards) {
+      state.active.push(card);
+    } else {
+      queue.push(card);
+      queue.sort(
+        (a, b) => PRIORITY_ORDER[b.priority] - PRIORITY_ORDER[a.priority],
+      );
+      state.queue = queue;
+    }
+
+    state.queueSize = queue.length;
+    state.lastGeneratedAt = now;
+    this.dirtyTracker?.markDirty("dialogueState");
+    logger.debug(`💬 [DialogueSystem] Card ${card.id} (${card.type}) queued`);
+    return true;
+  }
+
+  /**
+   * Applies the consequences of a choice and archives the card.
+   *
+   * @param cardId - Active card being answered
+   * @param choiceId - Selected choice
+   * @returns True if the card and choice exist
+   */
+  public respondToCard(cardId: string, choiceId: string): boolean {
+    const state = this.getState();
+    const index = state.active.findIndex((card) => card.id === cardId);
+    if (index === -1) return false;
+
+    const card = state.active[index];
+    const choice = card.choices?.find((c) => c.id === choiceId);
+    if (!choice) return false;
+
+    this.applyChoice(card, choice);
+
+    state.active.splice(index, 1);
+    card.resolvedChoiceId = choice.id;
+    card.resolvedAt = getSimulationTime();
+    this.archive(card);
+    this.promoteQueued();
+
+    logger.info(
+      `💬 [DialogueSystem] Card ${cardId} answered with "${choice.id}" (${choice.outcome})`,
+    );
+    return true;
+  }
+
+  public update(): void {
+    const state = this.getState();
+    const now = getSimulationTime();
+
+    const expired = state.active.filter(
+      (card) => now - card.timestamp > card.duration,
+    );
+    if (expired.length > 0) {
+      state.active = state.active.filter((card) => !expired.includes(card));
+      for (const card of expired) {
+        card.expired = true;
+        this.archive(card);
+      }
+    }
+
+    if (state.queue && state.queue.length > 0) {
+      state.queue = state.queue.filter(
+        (card) => now - card.timestamp <= card.duration,
+      );
+    }
+
+    this.promoteQueued();
+  }
+
+  public getActiveCards(): DialogueCard[] {
+    return [...this.getState().active];
+  }
+
+  public getCard(cardId: string): DialogueCard | undefined {
+    const state = this.getState();
+    return (
+      state.active.find((card) => card.id === cardId) ??
+      state.queue?.find((card) => card.id === cardId) ??
+      state.history.find((card) => card.id === cardId)
+    );
+  }
+
+  public cleanup(): void {
+    this.lastTriggered.clear();
+  }
+
+  private applyChoice(card: DialogueCard, choice: DialogueChoice): void {
+    const { effects } = choice;
+    const [first, second] = card.participants;
+
+    if (effects.needs && this.needsSystem) {
+      for (const agentId of card.participants) {
+        for (const [need, delta] of Object.entries(effects.needs)) {
+          if (typeof delta === "number") {
+            this.needsSystem.modifyNeed(agentId, need, delta);
+          }
+        }
+      }
+    }
+
+    if (
+      typeof effects.relationship === "number" &&
+      first &&
+      second &&
+      this.socialSystem
+    ) {
+      this.socialSystem.modifyAffinity(first, second, effects.relationship);
+    }
+
+    if (effects.resources && first && this.inventorySystem) {
+      for (const [resource, amount] of Object.entries(effects.resources)) {
+        if (typeof amount !== "number" || amount === 0) continue;
+        if (amount > 0) {
+          this.inventorySystem.addResource(
+            first,
+            resource as ResourceType,
+            amount,
+          );
+        } else {
+          this.inventorySystem.removeFromAgent(
+            first,
+            resource as ResourceType,
+            -amount,
+          );
+        }
+      }
+    }
+
+    if (effects.conflictResolution && this.conflictResolutionSystem) {
+      this.conflictResolutionSystem.resolveConflict(
+        card.id,
+        effects.conflictResolution,
+      );
+    }
+  }
+
+  private archive(card: DialogueCard): void {
+    const state = this.getState();
+    state.history.push(card);
+    if (state.history.length > DIALOGUE_CONFIG.maxHistory) {
+      state.history.splice(
+        0,
+        state.history.length - DIALOGUE_CONFIG.maxHistory,
+      );
+    }
+    this.dirtyTracker?.markDirty("dialogueState");
+  }
+
+  private promoteQueued(): void {
+    const state = this.getState();
+    const queue = state.queue ?? [];
+    while (
+      queue.length > 0 &&
+      state.active.length < DIALOGUE_CONFIG.maxActiveCards
+    ) {
+      const next = queue.shift();
+      if (!next) break;
+      next.timestamp = getSimulationTime();
+      state.active.push(next);
+      this.dirtyTracker?.markDirty("dialogueState");
+    }
+    state.queue = queue;
+    state.queueSize = queue.length;
+  }
+
+  private getState(): DialogueStateSnapshot {
+    if (!this.gameState.dialogueState) {
+      this.gameState.dialogueState = {
+        active: [],
+        history: [],
+        queue: [],
+        queueSize: 0,
+        lastGeneratedAt: 0,
+      };
+    }
+    return this.gameState.dialogueState;
+  }
+
+  private getAgentName(agentId: string): string {
+    return (
+      this.gameState.agents?.find((agent) => agent.id === agentId)?.name ??
+      agentId
+    );
+  }
+
+  private createCardId(prefix: string): string {
+    return `dialogue_${prefix}_${getSimulationTime()}_${RandomUtils.float().toString(36).slice(2, 8)}`;
+  }
+
+  private createStarvationCard(agentId: string, hunger: number): DialogueCard {
+    const name = this.getAgentName(agentId);
+    return {
+      id: this.createCardId("starvation"),
+      title: "Hambre",
+      content: `${name} lleva demasiado tiempo sin comer (hambre ${Math.round(hunger)}). ¿Qué hacemos?`,
+      type: DialogueCardType.EVENT,
+      priority: DialoguePriority.URGENT,
+      participants: [agentId],
+      triggerCondition: GameEventType.NEED_CRITICAL,
+      emotionalTone: DialogueTone.WORRIED,
+      duration: DIALOGUE_CONFIG.durations.starvation,
+      timestamp: getSimulationTime(),
+      choices: [
+        {
+          id: "share_rations",
+          text: "Repartir raciones de las reservas",
+          outcome: DialogueOutcome.POSITIVE,
+          effects: {
+            needs: { [NeedType.HUNGER]: 30, [NeedType.MENTAL_HEALTH]: 5 },
+            resources: { [ResourceType.FOOD]: 3 },
+          },
+        },
+        {
+          id: "forage",
+          text: "Que salga a buscar comida",
+          outcome: DialogueOutcome.NEUTRAL,
+          effects: {
+            needs: { [NeedType.HUNGER]: 10, [NeedType.ENERGY]: -10 },
+          },
+        },
+        {
+          id: "endure",
+          text: "Tendrá que aguantar",
+          outcome: DialogueOutcome.NEGATIVE,
+          effects: {
+            needs: { [NeedType.MENTAL_HEALTH]: -15 },
+          },
+        },
+      ],
+    };
+  }
+
+  private createMarriageCard(
+    proposerId: string,
+    targetId: string,
+  ): DialogueCard {
+    const a = this.getAgentName(proposerId);
+    const b = this.getAgentName(targetId);
+    return {
+      id: this.createCardId("marriage"),
+      title: "Boda",
+      content: `${a} y ${b} han decidido unir sus vidas.`,
+      type: DialogueCardType.INTERACTION,
+      priority: DialoguePriority.MEDIUM,
+      participants: [proposerId, targetId],
+      triggerCondition: GameEventType.MARRIAGE_ACCEPTED,
+      emotionalTone: DialogueTone.HAPPY,
+      duration: DIALOGUE_CONFIG.durations.marriage,
+      timestamp: getSimulationTime(),
+      choices: [
+        {
+          id: "celebrate",
+          text: "¡Celebrarlo con todos!",
+          outcome: DialogueOutcome.POSITIVE,
+          effects: {
+            needs: { [NeedType.FUN]: 20, [NeedType.SOCIAL]: 15 },
+            relationship: 0.2,
+          },
+        },
+        {
+          id: "wedding_gift",
+          text: "Regalarles provisiones para su hogar",
+          outcome: DialogueOutcome.POSITIVE,
+          effects: {
+            relationship: 0.1,
+            resources: { [ResourceType.FOOD]: 5, [ResourceType.WOOD]: 5 },
+          },
+        },
+        {
+          id: "back_to_work",
+          text: "Hay trabajo que hacer",
+          outcome: DialogueOutcome.NEUTRAL,
+          effects: {
+            needs: { [NeedType.FUN]: -5 },
+          },
+        },
+      ],
+    };
+  }
+
+  /**
+   * Conflict cards reuse the truce card ID from ConflictResolutionSystem so
+   * the answer resolves that conflict.
+   */
+  private createConflictCard(data: {
+    cardId: string;
+    attackerId: string;
+    targetId: string;
+    reason: string;
+  }): DialogueCard {
+    const attacker = this.getAgentName(data.attackerId);
+    const target = this.getAgentName(data.targetId);
+    return {
+      id: data.cardId,
+      title: "Pelea",
+      content: `${attacker} y ${target} están peleando. ¿Intervenimos?`,
+      type: DialogueCardType.EVENT,
+      priority: DialoguePriority.HIGH,
+      participants: [data.attackerId, data.targetId],
+      triggerCondition: data.reason,
+      emotionalTone: DialogueTone.WORRIED,
+      duration: DIALOGUE_CONFIG.durations.conflict,
+      timestamp: getSimulationTime(),
+      choices: [
+        {
+          id: ConflictResolutionChoice.TRUCE_ACCEPT,
+          text: "Proponer una tregua",
+          outcome: DialogueOutcome.POSITIVE,
+          effects: {
+            relationship: 0.1,
+            conflictResolution: ConflictResolutionChoice.TRUCE_ACCEPT,
+          },
+        },
+        {
+          id: ConflictResolutionChoice.APOLOGIZE,
+          text: `Pedir a ${attacker} que se disculpe`,
+          outcome: DialogueOutcome.POSITIVE,
+          effects: {
+            relationship: 0.2,
+            needs: { [NeedType.SOCIAL]: 5 },
+            conflictResolution: ConflictResolutionChoice.APOLOGIZE,
+          },
+        },
+        {
+          id: ConflictResolutionChoice.CONTINUE,
+          text: "Que lo resuelvan ellos",
+          outcome: DialogueOutcome.NEGATIVE,
+          effects: {
+            relationship: -0.1,
+            conflictResolution: ConflictResolutionChoice.CONTINUE,
+          },
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,417 @@
+import { GameState } from "@/shared/types/game-types";
+import { RandomUtils } from "@/shared/utils/RandomUtils";
+import type {
+  Blessing,
+  BlessingTarget,
+  BlessingType,
+  DivineFavor,
+  DivineFavorEvent,
+  DivinePower,
+  DivineState,
+} from "@/shared/types/simulation/divine";
+import { GodId } from "../../../../shared/constants/DivineEnums";
+import type { IDivinePort } from "../../ports";
+import type { GenealogySystem } from "./GenealogySystem";
+import type { StateDirtyTracker } from "../../core/StateDirtyTracker";
+import { logger } from "../../../../infrastructure/utils/logger";
+
+import { injectable, inject, optional } from "inversify";
+import { TYPES } from "../../../../config/Types";
+import { getSimulationTime } from "../../../../shared/FrameTime";
+
+interface BlessingDefinition {
+  name: string;
+  description: string;
+  /** God power spent to grant it */
+  cost: number;
+  durationMs: number;
+  magnitude: number;
+}
+
+/**
+ * Blessings the player can grant. Each one is applied by the system that owns
+ * the affected mechanic:
+ * - fertility_boost → LifeCycleSystem (shorter reproduction cooldown)
+ * - productivity_boost → ProductionSystem (yield per worker)
+ * - resilience → NeedsSystem (slower need decay)
+ */
+const BLESSING_CATALOG: Partial<Record<BlessingType, BlessingDefinition>> = {
+  fertility_boost: {
+    name: "Bendición de Fertilidad",
+    description: "Las familias bendecidas conciben con más frecuencia",
+    cost: 40,
+    durationMs: 300000,
+    magnitude: 2,
+  },
+  productivity_boost: {
+    name: "Manos Incansables",
+    description: "Los trabajadores bendecidos producen más en cada turno",
+    cost: 30,
+    durationMs: 180000,
+    magnitude: 1.5,
+  },
+  resilience: {
+    name: "Aguante Divino",
+    description: "Las necesidades de los bendecidos decaen más despacio",
+    cost: 25,
+    durationMs: 240000,
+    magnitude: 1.5,
+  },
+};
+
+const DIVINE_CONFIG = {
+  maxPower: 100,
+  initialPower: 50,
+  /** Power regenerated per second by each god */
+  regenRate: 0.5,
+  maxFavor: 100,
+  /** Favor gained by a lineage for each blessing it receives */
+  favorPerBlessing: 10,
+  /** Favor lost per second while a lineage has no active blessing */
+  favorDecayPerSecond: 0.01,
+  maxHistory: 100,
+} as const;
+
+/**
+ * DivineSystem — god power, blessings and lineage favor.
+ *
+ * Responsibilities:
+ * - Regenerate each god's power over time
+ * - Grant blessings (paid with power) to lineages, agents or everyone
+ * - Expose blessing multipliers to LifeCycle, Production and Needs systems
+ * - Expire blessings and track per-lineage favor with an event log
+ *
+ * State lives in `gameState.divine`, so powers, blessings and favor are part
+ * of snapshots and saves.
+ */
+@injectable()
+export class DivineSystem implements IDivinePort {
+  private gameState: GameState;
+
+  constructor(
+    @inject(TYPES.GameState) gameState: GameState,
+    @inject(TYPES.GenealogySystem)
+    @optional()
+    private readonly genealogySystem?: GenealogySystem,
+    @inject(TYPES.StateDirtyTracker)
+    @optional()
+    private readonly dirtyTracker?: StateDirtyTracker,
+  ) {
+    this.gameState = gameState;
+  }
+
+  /**
+   * Grants a blessing, spending the god's power.
+   *
+   * @param godId - God granting the blessing
+   * @param type - Blessing type (must be in the catalog)
+   * @param target - Lineages, agents or global
+   * @param durationMs - Optional duration override
+   * @returns The blessing, or null if invalid or the god lacks power
+   */
+  public grantBlessing(
+    godId: GodId,
+    type: BlessingType,
+    target: BlessingTarget,
+    durationMs?: number,
+  ): Blessing | null {
+    const definition = BLESSING_CATALOG[type];
+    if (!definition) {
+      logger.warn(`✨ [DivineSystem] Unknown blessing type: ${type}`);
+      return null;
+    }
+    if (!this.isValidTarget(target)) {
+      logger.warn(`✨ [DivineSystem] Blessing ${type} has no target`);
+      return null;
+    }
+
+    const power = this.getPower(godId);
+    if (power.power < definition.cost) {
+      logger.debug(
+        `✨ [DivineSystem] ${godId} lacks power for ${type} (${power.power.toFixed(1)}/${definition.cost})`,
+      );
+      return null;
+    }
+    power.power -= definition.cost;
+
+    const now = getSimulationTime();
+    const duration = durationMs ?? definition.durationMs;
+    const blessing: Blessing = {
+      id: `blessing_${type}_${now}_${RandomUtils.float().toString(36).slice(2, 8)}`,
+      type,
+      name: definition.name,
+      description: definition.description,
+      duration,
+      magnitude: definition.magnitude,
+      appliedAt: now,
+      expiresAt: now + duration,
+      target: {
+        global: target.global || undefined,
+        lineageIds: target.lineageIds ? [...target.lineageIds] : undefined,
+        agentIds: target.agentIds ? [...target.agentIds] : undefined,
+      },
+    };
+
+    const state = this.getState();
+    state.activeBlessings.push(blessing);
+
+    const lineageIds = this.getAffectedLineages(blessing.target);
+    if (lineageIds.length === 0) {
+      this.recordEvent({
+        timestamp: now,
+        type: "blessing_granted",
+        godId,
+        details: { blessingId: blessing.id, blessingType: type },
+      });
+    }
+    for (const lineageId of lineageIds) {
+      const favor = this.getFavor(lineageId);
+      favor.blessings.push(blessing.id);
+      this.recordEvent(
+        {
+          timestamp: now,
+          type: "blessing_granted",
+          godId,
+          lineageId,
+          details: { blessingId: blessing.id, blessingType: type },
+        },
+        favor,
+      );
+      this.changeFavor(
+        favor,
+        godId,
+        DIVINE_CONFIG.favorPerBlessing,
+        "blessing_granted",
+      );
+    }
+
+    logger.info(
+      `✨ [DivineSystem] ${godId} granted ${type} (x${blessing.magnitude}, ${Math.round(duration / 1000)}s)`,
+    );
+    this.dirtyTracker?.markDirty("divine");
+    return blessing;
+  }
+
+  /**
+   * Removes an active blessing before it expires. No power is refunded.
+   */
+  public revokeBlessing(blessingId: string): boolean {
+    const state = this.getState();
+    const index = state.activeBlessings.findIndex((b) => b.id === blessingId);
+    if (index === -1) return false;
+
+    this.removeBlessing(state.activeBlessings[index]);
+    state.activeBlessings.splice(index, 1);
+    this.dirtyTracker?.markDirty("divine");
+    return true;
+  }
+
+  /**
+   * Combined magnitude of the active blessings of a type that cover an agent.
+   * Overlapping blessings stack multiplicatively.
+   */
+  public getBlessingMultiplier(agentId: string, type: BlessingType): number {
+    const blessings = this.gameState.divine?.activeBlessings;
+    if (!blessings || blessings.length === 0) return 1;
+
+    const now = getSimulationTime();
+    let lineageId: string | undefined;
+    let lineageResolved = false;
+    let multiplier = 1;
+
+    for (const blessing of blessings) {
+      if (blessing.type !== type) continue;
+      if (blessing.expiresAt !== undefined && blessing.expiresAt <= now) {
+        continue;
+      }
+
+      const { target } = blessing;
+      let applies =
+        target.global === true || !!target.agentIds?.includes(agentId);
+      if (!applies && target.lineageIds && target.lineageIds.length > 0) {
+        if (!lineageResolved) {
+          lineageId = this.genealogySystem?.getAncestor(agentId)?.lineageId;
+          lineageResolved = true;
+        }
+        applies =
+          lineageId !== undefined && target.lineageIds.includes(lineageId);
+      }
+
+      if (applies) {
+        multiplier *= blessing.magnitude;
+      }
+    }
+
+    return multiplier;
+  }
+
+  public getActiveBlessings(): Blessing[] {
+    return [...(this.gameState.divine?.activeBlessings ?? [])];
+  }
+
+  public getPower(godId: GodId): DivinePower {
+    const state = this.getState();
+    let power = state.powers.find((p) => p.godId === godId);
+    if (!power) {
+      power = {
+        godId,
+        power: DIVINE_CONFIG.initialPower,
+        regenRate: DIVINE_CONFIG.regenRate,
+      };
+      state.powers.push(power);
+    }
+    return power;
+  }
+
+  public update(deltaMs: number): void {
+    const state = this.getState();
+    const seconds = Math.max(0, deltaMs) / 1000;
+    const now = getSimulationTime();
+
+    for (const godId of Object.values(GodId)) {
+      const power = this.getPower(godId);
+      power.power = Math.min(
+        DIVINE_CONFIG.maxPower,
+        power.power + power.regenRate * seconds,
+      );
+    }
+
+    const expired = state.activeBlessings.filter(
+      (b) => b.expiresAt !== undefined && b.expiresAt <= now,
+    );
+    if (expired.length > 0) {
+      state.activeBlessings = state.activeBlessings.filter(
+        (b) => !expired.includes(b),
+      );
+      for (const blessing of expired) {
+        this.removeBlessing(blessing);
+        logger.debug(`✨ [DivineSystem] Blessing ${blessing.id} expired`);
+      }
+    }
+
+    for (const favor of state.favor) {
+      if (favor.blessings.length === 0 && favor.favor > 0) {
+        favor.favor = Math.max(
+          0,
+          favor.favor - DIVINE_CONFIG.favorDecayPerSecond * seconds,
+        );
+        this.syncLineageFavor(favor);
+      }
+    }
+
+    this.dirtyTracker?.markDirty("divine");
+  }
+
+  private isValidTarget(target: BlessingTarget): boolean {
+    return (
+      target.global === true ||
+      (target.lineageIds?.length ?? 0) > 0 ||
+      (target.agentIds?.length ?? 0) > 0
+    );
+  }
+
+  /**
+   * Lineages credited with favor for a blessing: the explicit ones plus the
+   * lineages of targeted agents. Global blessings credit every known lineage.
+   */
+  private getAffectedLineages(target: BlessingTarget): string[] {
+    const lineages = new Set<string>(target.lineageIds ?? []);
+    for (const agentId of target.agentIds ?? []) {
+      const lineageId = this.genealogySystem?.getAncestor(agentId)?.lineageId;
+      if (lineageId) lineages.add(lineageId);
+    }
+    if (target.global && this.genealogySystem) {
+      for (const lineageId of this.genealogySystem
+        .getFamilyTree()
+        .lineages.keys()) {
+        lineages.add(lineageId);
+      }
+    }
+    return Array.from(lineages);
+  }
+
+  private removeBlessing(blessing: Blessing): void {
+    for (const favor of this.getState().favor) {
+      favor.blessings = favor.blessings.filter((id) => id !== blessing.id);
+    }
+  }
+
+  private changeFavor(
+    favor: DivineFavor,
+    godId: GodId,
+    delta: number,
+    reason: string,
+  ): void {
+    const previousFavor = favor.favor;
+    favor.favor = Math.max(
+      0,
+      Math.min(DIVINE_CONFIG.maxFavor, favor.favor + delta),
+    );
+    if (favor.favor === previousFavor) return;
+
+    this.recordEvent(
+      {
+        timestamp: getSimulationTime(),
+        type: delta > 0 ? "favor_increased" : "favor_decreased",
+        godId,
+        lineageId: favor.lineageId,
+        details: {
+          favorChange: favor.favor - previousFavor,
+          previousFavor,
+          newFavor: favor.favor,
+          reason,
+        },
+      },
+      favor,
+    );
+    this.syncLineageFavor(favor);
+  }
+
+  private recordEvent(event: DivineFavorEvent, favor?: DivineFavor): void {
+    const state = this.getState();
+    state.history.push(event);
+    if (state.history.length > DIVINE_CONFIG.maxHistory) {
+      state.history.splice(0, state.history.length - DIVINE_CONFIG.maxHistory);
+    }
+    if (favor) {
+      favor.history.push(event);
+      if (favor.history.length > DIVINE_CONFIG.maxHistory) {
+        favor.history.splice(
+          0,
+          favor.history.length - DIVINE_CONFIG.maxHistory,
+        );
+      }
+    }
+  }
+
+  private syncLineageFavor(favor: DivineFavor): void {
+    const lineage = this.genealogySystem
+      ?.getFamilyTree()
+      .lineages.get(favor.lineageId);
+    if (lineage) {
+      lineage.favor = favor.favor;
+    }
+  }
+
+  private getFavor(lineageId: string): DivineFavor {
+    const state = this.getState();
+    let favor = state.favor.find((f) => f.lineageId === lineageId);
+    if (!favor) {
+      favor = { lineageId, favor: 0, blessings: [], history: [] };
+      state.favor.push(favor);
+    }
+    return favor;
+  }
+
+  private getState(): DivineState {
+    if (!this.gameState.divine) {
+      this.gameState.divine = {
+        powers: [],
+        activeBlessings: [],
+        favor: [],
+        history: [],
+      };
+    }
+    return this.gameState.divine;
+  }
+}
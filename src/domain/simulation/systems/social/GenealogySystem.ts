@@ -3,10 +3,15 @@ import type {
   Ancestor,
   FamilyTree,
   GenealogyEvent,
+  GenerationGenetics,
   SerializedFamilyTree,
 } from "@/shared/types/simulation/genealogy";
-import type { AgentProfile } from "@/shared/types/simulation/agents";
+import type {
+  AgentGenome,
+  AgentProfile,
+} from "@/shared/types/simulation/agents";
 import { logger } from "../../../../infrastructure/utils/logger";
+import { AgentGenetics } from "../lifecycle/AgentGenetics";
 
 interface GenealogyConfig {
   mutationRate: number;
@@ -17,6 +22,7 @@ interface GenealogyConfig {
 import { injectable, inject } from "inversify";
 import { TYPES } from "../../../../config/Types";
 import { ActionType } from "../../../../shared/constants/AIEnums";
+import { getSimulationTime } from "../../../../shared/FrameTime";
 
 @injectable()
 export class GenealogySystem {
@@ -41,7 +47,7 @@ export class GenealogySystem {
 
   /** Logs genealogy stats every 10 seconds */
   public logStats(): void {
-    const now = Date.now();
+    const now = getSimulationTime();
     if (now - this.lastLogTime < 10000) return;
     this.lastLogTime = now;
 
@@ -97,6 +103,10 @@ export class GenealogySystem {
       parents: { father: fatherId, mother: motherId },
       children: [],
       traits: agent.traits,
+      genome: agent.genome,
+      fitness: agent.genome
+        ? AgentGenetics.calculateFitness(agent.genome)
+        : undefined,
       lineageId,
     };
 
@@ -111,7 +121,7 @@ export class GenealogySystem {
 
     this.recordEvent({
       type: ActionType.BIRTH,
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
       agentId: agent.id,
       lineageId,
     });
@@ -123,7 +133,7 @@ export class GenealogySystem {
       id,
       surname: "Founder",
       founder: founder.id,
-      foundedAt: Date.now(),
+      foundedAt: getSimulationTime(),
       members: [],
       livingMembers: [],
       generation: founder.generation,
@@ -153,6 +163,42 @@ export class GenealogySystem {
     return this.familyTree;
   }
 
+  /**
+   * Average genetics of each generation, oldest first. Agents without a
+   * genome are left out.
+   */
+  public getGenerationGenetics(): GenerationGenetics[] {
+    const byGeneration = new Map<number, Ancestor[]>();
+    for (const ancestor of this.familyTree.ancestors.values()) {
+      if (!ancestor.genome) continue;
+      const members = byGeneration.get(ancestor.generation) ?? [];
+      members.push(ancestor);
+      byGeneration.set(ancestor.generation, members);
+    }
+
+    return Array.from(byGeneration.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([generation, members]) => {
+        const genomes = members.map((m) => m.genome as AgentGenome);
+        return {
+          generation,
+          count: members.length,
+          averageFitness:
+            members.reduce((sum, m) => sum + (m.fitness ?? 0), 0) /
+            members.length,
+          averageTraits: averageOf(
+            genomes.map((g) => AgentGenetics.expressTraits(g)),
+          ),
+          averagePhysique: averageOf(
+            genomes.map((g) => AgentGenetics.expressPhysique(g)),
+          ),
+          averagePredispositions: averageOf(
+            genomes.map((g) => AgentGenetics.expressPredispositions(g)),
+          ),
+        };
+      });
+  }
+
   public getSerializedFamilyTree(): SerializedFamilyTree {
     const ancestorsArray: Ancestor[] = [];
     this.familyTree.ancestors.forEach((v) => {
@@ -228,9 +274,25 @@ export class GenealogySystem {
 
     this.recordEvent({
       type: ActionType.DEATH,
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
       agentId,
       lineageId: ancestor.lineageId,
     });
   }
 }
+
+/**
+ * Average of each numeric field over a non-empty list of records.
+ */
+function averageOf<T extends object>(values: T[]): T {
+  const totals: Record<string, number> = {};
+  for (const value of values) {
+    for (const [key, n] of Object.entries(value)) {
+      if (typeof n === "number") totals[key] = (totals[key] ?? 0) + n;
+    }
+  }
+  for (const key of Object.keys(totals)) {
+    totals[key] /= values.length;
+  }
+  return totals as T;
+}
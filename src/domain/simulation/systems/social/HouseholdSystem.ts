@@ -11,6 +11,7 @@ import { injectable, inject, optional } from "inversify";
 import { TYPES } from "../../../../config/Types";
 import { ZoneType } from "../../../../shared/constants/ZoneEnums";
 import type { AgentRegistry } from "../agents/AgentRegistry";
+import { getSimulationTime } from "../../../../shared/FrameTime";
 
 const DEFAULT_CONFIG: HouseholdSystemConfig = {
   updateIntervalMs: 5000,
@@ -37,7 +38,7 @@ export class HouseholdSystem {
   private gameState: GameState;
   private config: HouseholdSystemConfig;
   private households = new Map<string, Household>();
-  private lastUpdate = Date.now();
+  private lastUpdate = getSimulationTime();
   private lastLogTime = 0;
   private agentRegistry?: AgentRegistry;
 
@@ -53,7 +54,7 @@ export class HouseholdSystem {
   }
 
   public update(_deltaMs: number): void {
-    const now = Date.now();
+    const now = getSimulationTime();
     if (now - this.lastUpdate < this.config.updateIntervalMs) return;
     this.lastUpdate = now;
 
@@ -177,7 +178,7 @@ export class HouseholdSystem {
     free.members.push({
       agentId,
       role,
-      joinedDate: Date.now(),
+      joinedDate: getSimulationTime(),
     });
 
     simulationEvents.emit(GameEventType.HOUSEHOLD_AGENT_ASSIGNED, {
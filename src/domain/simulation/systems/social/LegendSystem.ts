@@ -0,0 +1,445 @@
+import { GameState, LegendsState } from "@/shared/types/game-types";
+import type {
+  GeneratedStory,
+  LegendDeed,
+  LegendDeedKind,
+  LegendRecord,
+  LegendTier,
+} from "@/shared/types/simulation/legends";
+import type { AgentProfile } from "@/shared/types/simulation/agents";
+import { simulationEvents, GameEventType } from "../../core/events";
+import { logger } from "../../../../infrastructure/utils/logger";
+import type { SocialSystem } from "./SocialSystem";
+import type { StateDirtyTracker } from "../../core/StateDirtyTracker";
+
+import { injectable, inject, optional } from "inversify";
+import { TYPES } from "../../../../config/Types";
+import { getSimulationTime } from "../../../../shared/FrameTime";
+
+const LEGEND_CONFIG = {
+  /** Agents closer than this to the actor witness the deed */
+  witnessRadius: 200,
+  maxWitnesses: 10,
+  /** Extra reputation per witness (10 witnesses double a deed's weight) */
+  witnessBonus: 0.1,
+  /** A deed within this window keeps the trend "rising" */
+  trendWindowMs: 120000,
+  /** Reputation lost per second once the trend turns "falling" */
+  reputationDecayPerSecond: 0.02,
+  maxDeedsPerAgent: 50,
+  maxStoriesPerAgent: 5,
+  deedsPerStory: 3,
+} as const;
+
+const DEED_DEFINITIONS: Record<
+  LegendDeedKind,
+  { type: LegendDeed["type"]; impact: number; title: string }
+> = {
+  kill: { type: "villainous", impact: -15, title: "Sombra Sangrienta" },
+  hunt: { type: "heroic", impact: 3, title: "Terror de las Bestias" },
+  build: { type: "neutral", impact: 8, title: "Mano de Piedra" },
+  marriage: { type: "neutral", impact: 5, title: "Corazón de la Aldea" },
+  discovery: { type: "heroic", impact: 12, title: "Mente Brillante" },
+};
+
+const STORY_MOODS: Partial<Record<LegendDeedKind, GeneratedStory["mood"]>> = {
+  kill: "tragic",
+  marriage: "comedic",
+  discovery: "mysterious",
+};
+
+/** Tiers in ascending order with the reputation needed to reach them */
+const TIERS: Array<{ tier: LegendTier; threshold: number; title?: string }> = [
+  { tier: "unknown", threshold: 0 },
+  { tier: "known", threshold: 10 },
+  { tier: "respected", threshold: 30, title: "Estrella Naciente" },
+  { tier: "renowned", threshold: 60, title: "Orgullo del Linaje" },
+  { tier: "legendary", threshold: 120, title: "Leyenda Viva" },
+  { tier: "mythical", threshold: 250, title: "Mito Eterno" },
+];
+
+/** First tier listed in `activeLegends` */
+const LEGEND_TIER_INDEX = 3;
+
+const STORY_TEMPLATES: Record<
+  GeneratedStory["mood"],
+  { title: string; opening: string; closing: string; auraColor: number }
+> = {
+  epic: {
+    title: "La gesta de {name}",
+    opening: "Cantan los ancianos la historia de {name}, {title}.",
+    closing: "Quienes presenciaron aquello aún lo cuentan junto al fuego.",
+    auraColor: 0xffd700,
+  },
+  tragic: {
+    title: "La sombra de {name}",
+    opening: "Hay nombres que se pronuncian en voz baja, y {name} es uno.",
+    closing: "Nadie en la aldea ha olvidado aquellos días.",
+    auraColor: 0x8b0000,
+  },
+  comedic: {
+    title: "Las andanzas de {name}",
+    opening: "Nadie esperaba gran cosa de {name}, {title}.",
+    closing: "Y todavía hoy se ríen al recordarlo.",
+    auraColor: 0xff8c00,
+  },
+  mysterious: {
+    title: "El secreto de {name}",
+    opening: "Nadie sabe de dónde sacaba {name} sus ideas.",
+    closing: "Algunos dicen que los dioses le hablaban en sueños.",
+    auraColor: 0x9370db,
+  },
+};
+
+/**
+ * LegendSystem — deeds, reputation tiers and chronicle stories.
+ *
+ * Responsibilities:
+ * - Turn simulation events into deeds: kills (COMBAT_KILL against agents),
+ *   hunts (ANIMAL_HUNTED), finished buildings (BUILDING_CONSTRUCTED builders),
+ *   marriages (MARRIAGE_ACCEPTED) and recipe discoveries (RECIPE_DISCOVERED)
+ * - Record nearby agents as witnesses; more witnesses spread the deed further
+ * - Promote agents through legend tiers by reputation and grant titles
+ * - Generate template-based stories on every promotion from "respected" up
+ *
+ * State lives in `gameState.legends`, so records survive saves and show up
+ * in snapshots. Records of dead agents are kept: legends outlive their heroes.
+ *
+ * Events emitted: LEGEND_UPDATE (on tier promotion)
+ */
+@injectable()
+export class LegendSystem {
+  private gameState: GameState;
+  private deedCounter = 0;
+
+  constructor(
+    @inject(TYPES.GameState) gameState: GameState,
+    @inject(TYPES.SocialSystem) @optional() private socialSystem?: SocialSystem,
+    @inject(TYPES.StateDirtyTracker)
+    @optional()
+    private dirtyTracker?: StateDirtyTracker,
+  ) {
+    this.gameState = gameState;
+    this.setupEventListeners();
+  }
+
+  private setupEventListeners(): void {
+    simulationEvents.on(
+      GameEventType.COMBAT_KILL,
+      (data: { attackerId: string; targetId: string }) => {
+        const victim = this.findAgent(data.targetId);
+        if (!victim) return;
+        this.recordDeed(
+          data.attackerId,
+          "kill",
+          `{name} acabó con la vida de ${victim.name}`,
+        );
+      },
+    );
+
+    simulationEvents.on(
+      GameEventType.ANIMAL_HUNTED,
+      (data: { hunterId: string }) => {
+        this.recordDeed(data.hunterId, "hunt", "{name} abatió una presa");
+      },
+    );
+
+    simulationEvents.on(
+      GameEventType.BUILDING_CONSTRUCTED,
+      (data: { label: string; builders?: string[] }) => {
+        for (const builderId of data.builders ?? []) {
+          this.recordDeed(
+            builderId,
+            "build",
+            `{name} levantó con sus manos un ${data.label}`,
+          );
+        }
+      },
+    );
+
+    simulationEvents.on(
+      GameEventType.MARRIAGE_ACCEPTED,
+      (data: { proposerId: string; targetId: string }) => {
+        const pairs: Array<[string, string]> = [
+          [data.proposerId, data.targetId],
+          [data.targetId, data.proposerId],
+        ];
+        for (const [agentId, partnerId] of pairs) {
+          const partner = this.findAgent(partnerId);
+          this.recordDeed(
+            agentId,
+            "marriage",
+            `{name} unió su vida a la de ${partner?.name ?? partnerId}`,
+          );
+        }
+      },
+    );
+
+    simulationEvents.on(
+      GameEventType.RECIPE_DISCOVERED,
+      (data: { agentId: string; recipeId: string }) => {
+        this.recordDeed(
+          data.agentId,
+          "discovery",
+          `{name} descubrió el secreto de ${data.recipeId}`,
+        );
+      },
+    );
+  }
+
+  /**
+   * Records a deed for an agent, collecting witnesses around them and
+   * updating reputation, tier, titles and stories.
+   *
+   * @param agentId - Agent who performed the deed
+   * @param kind - Kind of deed
+   * @param description - Text of the deed; `{name}` is replaced by the agent's name
+   * @returns The recorded deed, or null if the agent is unknown
+   */
+  public recordDeed(
+    agentId: string,
+    kind: LegendDeedKind,
+    description: string,
+  ): LegendDeed | null {
+    const agent = this.findAgent(agentId);
+    if (!agent) return null;
+
+    const now = getSimulationTime();
+    const definition = DEED_DEFINITIONS[kind];
+    const deed: LegendDeed = {
+      id: `deed_${++this.deedCounter}_${now}`,
+      kind,
+      type: definition.type,
+      description: description.replace("{name}", agent.name),
+      impact: definition.impact,
+      timestamp: now,
+      witnesses: this.findWitnesses(agent),
+    };
+
+    const record = this.getOrCreateRecord(agent);
+    record.deeds.push(deed);
+    if (record.deeds.length > LEGEND_CONFIG.maxDeedsPerAgent) {
+      record.deeds.shift();
+    }
+    record.actionsCompleted[kind] = (record.actionsCompleted[kind] ?? 0) + 1;
+
+    const witnessFactor =
+      1 + deed.witnesses.length * LEGEND_CONFIG.witnessBonus;
+    record.reputation += Math.abs(deed.impact) * witnessFactor;
+    record.reputationTrend = "rising";
+    record.lastUpdate = now;
+    record.agentName = agent.name;
+    if (this.socialSystem) {
+      record.relationshipCount = Object.keys(
+        this.socialSystem.getSocialConnections(agentId),
+      ).length;
+    }
+
+    if (!record.titles.includes(definition.title)) {
+      record.titles.push(definition.title);
+      record.currentTitle = definition.title;
+    }
+
+    this.updateTier(record);
+
+    this.publishState();
+    return deed;
+  }
+
+  public update(deltaMs: number): void {
+    const state = this.getState();
+    const now = getSimulationTime();
+    const seconds = Math.max(0, deltaMs) / 1000;
+
+    for (const record of Object.values(state.records)) {
+      const lastDeed = record.deeds[record.deeds.length - 1];
+      if (lastDeed && now - lastDeed.timestamp < LEGEND_CONFIG.trendWindowMs) {
+        record.reputationTrend = "rising";
+        continue;
+      }
+      if (record.reputation <= 0) {
+        record.reputationTrend = "stable";
+        continue;
+      }
+      record.reputationTrend = "falling";
+      record.reputation = Math.max(
+        0,
+        record.reputation - LEGEND_CONFIG.reputationDecayPerSecond * seconds,
+      );
+    }
+
+    this.publishState();
+  }
+
+  public getRecord(agentId: string): LegendRecord | undefined {
+    return this.gameState.legends?.records[agentId];
+  }
+
+  public getLegendsState(): LegendsState {
+    return this.getState();
+  }
+
+  /**
+   * Promotes the record to the highest tier its reputation reaches. Tiers
+   * only go up, so a decaying reputation never demotes a legend.
+   */
+  private updateTier(record: LegendRecord): void {
+    const currentIndex = TIERS.findIndex((t) => t.tier === record.legendTier);
+    let newIndex = currentIndex;
+    while (
+      newIndex + 1 < TIERS.length &&
+      record.reputation >= TIERS[newIndex + 1].threshold
+    ) {
+      newIndex++;
+    }
+    if (newIndex <= currentIndex) return;
+
+    const previousTier = record.legendTier;
+    for (let i = currentIndex + 1; i <= newIndex; i++) {
+      const title = TIERS[i].title;
+      if (title && !record.titles.includes(title)) {
+        record.titles.push(title);
+        record.currentTitle = title;
+      }
+    }
+    record.legendTier = TIERS[newIndex].tier;
+    record.auraIntensity = newIndex / (TIERS.length - 1);
+    record.glowRadius = newIndex * 12;
+    if (newIndex >= LEGEND_TIER_INDEX && record.becameLegendAt === undefined) {
+      record.becameLegendAt = record.lastUpdate;
+    }
+
+    if (TIERS[newIndex].title) {
+      this.generateStory(record);
+    }
+
+    logger.info(
+      `📜 [LegendSystem] ${record.agentName} is now ${record.legendTier} (${record.currentTitle})`,
+    );
+    simulationEvents.emit(GameEventType.LEGEND_UPDATE, {
+      agentId: record.agentId,
+      previousTier,
+      tier: record.legendTier,
+      title: record.currentTitle,
+      timestamp: record.lastUpdate,
+    });
+  }
+
+  private generateStory(record: LegendRecord): void {
+    const deeds = record.deeds.slice(-LEGEND_CONFIG.deedsPerStory);
+    if (deeds.length === 0) return;
+
+    const mood = this.getMood(record);
+    const template = STORY_TEMPLATES[mood];
+    const fill = (text: string): string =>
+      text
+        .replace("{name}", record.agentName)
+        .replace("{title}", record.currentTitle);
+
+    const witnesses = new Set(deeds.flatMap((d) => d.witnesses));
+    const story: GeneratedStory = {
+      id: `story_${record.agentId}_${record.stories.length + 1}`,
+      title: fill(template.title),
+      narrative: [
+        fill(template.opening),
+        ...deeds.map((d) => `${d.description}.`),
+        template.closing,
+      ].join(" "),
+      mood,
+      basedOnDeeds: deeds.map((d) => d.id),
+      generatedAt: record.lastUpdate,
+      popularity: Math.round(witnesses.size + record.reputation / 10),
+    };
+
+    record.stories.push(story);
+    if (record.stories.length > LEGEND_CONFIG.maxStoriesPerAgent) {
+      record.stories.shift();
+    }
+    record.auraColor = template.auraColor;
+  }
+
+  /**
+   * Story mood from the agent's most frequent kind of deed.
+   */
+  private getMood(record: LegendRecord): GeneratedStory["mood"] {
+    let dominant: string | undefined;
+    let best = 0;
+    for (const [kind, count] of Object.entries(record.actionsCompleted)) {
+      if (count > best) {
+        dominant = kind;
+        best = count;
+      }
+    }
+    return dominant
+      ? (STORY_MOODS[dominant as LegendDeedKind] ?? "epic")
+      : "epic";
+  }
+
+  private findWitnesses(actor: AgentProfile): string[] {
+    if (!actor.position) return [];
+    const radiusSq = LEGEND_CONFIG.witnessRadius ** 2;
+    const witnesses: string[] = [];
+
+    for (const agent of this.gameState.agents ?? []) {
+      if (agent.id === actor.id || agent.isDead || !agent.position) continue;
+      const dx = agent.position.x - actor.position.x;
+      const dy = agent.position.y - actor.position.y;
+      if (dx * dx + dy * dy <= radiusSq) {
+        witnesses.push(agent.id);
+        if (witnesses.length >= LEGEND_CONFIG.maxWitnesses) break;
+      }
+    }
+    return witnesses;
+  }
+
+  private findAgent(agentId: string): AgentProfile | undefined {
+    return this.gameState.agents?.find((a) => a.id === agentId);
+  }
+
+  private getOrCreateRecord(agent: AgentProfile): LegendRecord {
+    const state = this.getState();
+    let record = state.records[agent.id];
+    if (!record) {
+      const now = getSimulationTime();
+      record = {
+        agentId: agent.id,
+        agentName: agent.name,
+        reputation: 0,
+        reputationTrend: "stable",
+        titles: [],
+        currentTitle: "",
+        deeds: [],
+        actionsCompleted: {},
+        relationshipCount: 0,
+        auraColor: STORY_TEMPLATES.epic.auraColor,
+        auraIntensity: 0,
+        glowRadius: 0,
+        stories: [],
+        legendTier: "unknown",
+        firstSeen: now,
+        lastUpdate: now,
+      };
+      state.records[agent.id] = record;
+    }
+    return record;
+  }
+
+  private publishState(): void {
+    const state = this.getState();
+    state.activeLegends = Object.values(state.records)
+      .filter(
+        (r) =>
+          TIERS.findIndex((t) => t.tier === r.legendTier) >= LEGEND_TIER_INDEX,
+      )
+      .sort((a, b) => b.reputation - a.reputation)
+      .map((r) => r.agentId);
+    this.dirtyTracker?.markDirty("legends");
+  }
+
+  private getState(): LegendsState {
+    if (!this.gameState.legends) {
+      this.gameState.legends = { records: {}, activeLegends: [] };
+    }
+    return this.gameState.legends;
+  }
+}
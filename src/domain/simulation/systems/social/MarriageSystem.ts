@@ -1,4 +1,4 @@
-import { GameState } from "@/shared/types/game-types";
+import { GameState, type MarriageState } from "@/shared/types/game-types";
 import { RandomUtils } from "@/shared/utils/RandomUtils";
 import {
   MarriageGroup,
@@ -12,6 +12,19 @@ import { logger } from "../../../../infrastructure/utils/logger";
 
 import { injectable, inject } from "inversify";
 import { TYPES } from "../../../../config/Types";
+import type { Persistable } from "../../ports";
+import { getSimulationTime } from "../../../../shared/FrameTime";
+
+/**
+ * MarriageSystem state saved next to `GameState.marriage`, which does not
+ * keep the proposals' target groups nor the event history.
+ */
+export interface MarriagePersistedState {
+  proposals: Array<MarriageProposal & { targetId: string }>;
+  history: MarriageEvent[];
+  groupIdCounter: number;
+  lastProposalCleanup: number;
+}
 
 /**
  * MarriageSystem — group-based marriage and proposal management.
@@ -28,7 +41,9 @@ import { TYPES } from "../../../../config/Types";
  */
 
 @injectable()
-export class MarriageSystem {
+export class MarriageSystem implements Persistable<MarriagePersistedState> {
+  public readonly persistenceVersion = 1;
+
   private gameState: GameState;
   private config: MarriageConfig;
   private marriageGroups = new Map<string, MarriageGroup>();
@@ -128,7 +143,7 @@ export class MarriageSystem {
     this.pendingProposals.set(targetId, {
       proposerId,
       targetGroupId: proposerGroup?.id,
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
     });
 
     logger.debug(`💍 [MARRIAGE] Proposal: ${proposerId} -> ${targetId}`);
@@ -137,7 +152,7 @@ export class MarriageSystem {
       proposerId,
       targetId,
       groupId: proposerGroup?.id,
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
     });
 
     return true;
@@ -176,7 +191,7 @@ export class MarriageSystem {
         agentId: targetId,
         groupId: group.id,
         proposerId: proposal.proposerId,
-        timestamp: Date.now(),
+        timestamp: getSimulationTime(),
       });
     } else {
       group = this.createMarriageGroup([proposal.proposerId, targetId]);
@@ -187,7 +202,7 @@ export class MarriageSystem {
         members: group.members,
         proposerId: proposal.proposerId,
         targetId,
-        timestamp: Date.now(),
+        timestamp: getSimulationTime(),
       });
     }
 
@@ -197,7 +212,7 @@ export class MarriageSystem {
       proposerId: proposal.proposerId,
       targetId,
       groupId: group.id,
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
     });
 
     return { success: true, groupId: group.id };
@@ -219,7 +234,7 @@ export class MarriageSystem {
     simulationEvents.emit(GameEventType.MARRIAGE_REJECTED, {
       proposerId: proposal.proposerId,
       targetId,
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
     });
 
     return true;
@@ -246,7 +261,7 @@ export class MarriageSystem {
       agentId,
       groupId,
       reason,
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
     });
 
     const remainingMembers = group.members.filter((id) => id !== agentId);
@@ -256,7 +271,7 @@ export class MarriageSystem {
       groupId,
       reason,
       remainingMembers,
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
     });
 
     group.members = remainingMembers;
@@ -272,7 +287,7 @@ export class MarriageSystem {
       groupId,
       reason,
       remainingMembers: group.members,
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
     });
 
     return true;
@@ -297,7 +312,7 @@ export class MarriageSystem {
         agentId: memberId,
         deceasedId,
         groupId,
-        timestamp: Date.now(),
+        timestamp: getSimulationTime(),
       });
     }
 
@@ -312,7 +327,7 @@ export class MarriageSystem {
     const group: MarriageGroup = {
       id: groupId,
       members: memberIds,
-      foundedDate: Date.now(),
+      foundedDate: getSimulationTime(),
       cohesion: 1.0 - memberIds.length * this.config.cohesionDecayPerMember,
       sharedResources: RandomUtils.chance(0.7),
       children: [],
@@ -330,7 +345,7 @@ export class MarriageSystem {
     reason?: string,
   ): void {
     const event: MarriageEvent = {
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
       type,
       agentId,
       groupId,
@@ -345,7 +360,7 @@ export class MarriageSystem {
   }
 
   public update(): void {
-    const now = Date.now();
+    const now = getSimulationTime();
 
     const marriedGroups = this.marriageGroups.size;
     const pendingProposals = this.pendingProposals.size;
@@ -530,6 +545,57 @@ export class MarriageSystem {
     };
   }
 
+  /**
+   * Replaces the marriage groups and proposals with the ones from gameState
+   * (for loading saves).
+   */
+  public importFromGameState(marriage: MarriageState | undefined): void {
+    this.cleanup();
+    for (const group of marriage?.groups ?? []) {
+      this.marriageGroups.set(group.id, { ...group });
+      const counter = Number.parseInt(group.id.replace(/^marriage_/, ""), 10);
+      if (Number.isFinite(counter)) {
+        this.groupIdCounter = Math.max(this.groupIdCounter, counter);
+      }
+    }
+    for (const proposal of marriage?.proposals ?? []) {
+      this.pendingProposals.set(proposal.targetId, {
+        proposerId: proposal.proposerId,
+        timestamp: proposal.timestamp,
+      });
+    }
+  }
+
+  public serialize(): MarriagePersistedState {
+    return {
+      proposals: Array.from(this.pendingProposals.entries()).map(
+        ([targetId, proposal]) => ({ targetId, ...proposal }),
+      ),
+      history: this.marriageHistory.map((event) => ({ ...event })),
+      groupIdCounter: this.groupIdCounter,
+      lastProposalCleanup: this.lastProposalCleanup,
+    };
+  }
+
+  /**
+   * Restores proposals, history and counters on top of the groups imported
+   * with importFromGameState. Without data, the proposals imported from the
+   * state are kept and the history is cleared.
+   */
+  public restore(data: MarriagePersistedState | null): void {
+    this.marriageHistory = data
+      ? data.history.map((event) => ({ ...event }))
+      : [];
+    this.lastProposalCleanup = data?.lastProposalCleanup ?? 0;
+    if (!data) return;
+
+    this.groupIdCounter = Math.max(this.groupIdCounter, data.groupIdCounter);
+    this.pendingProposals.clear();
+    for (const { targetId, ...proposal } of data.proposals) {
+      this.pendingProposals.set(targetId, proposal);
+    }
+  }
+
   public cleanup(): void {
     this.marriageGroups.clear();
     this.pendingProposals.clear();
@@ -2,7 +2,7 @@ import { GameState } from "@/shared/types/game-types";
 import { SocialConfig, SocialGroup } from "@/shared/types/simulation/social";
 import { simulationEvents, GameEventType } from "../../core/events";
 import { logger } from "../../../../infrastructure/utils/logger";
-import { getFrameTime } from "../../../../shared/FrameTime";
+import { getFrameTime, getSimulationTime } from "../../../../shared/FrameTime";
 import { performance } from "node:perf_hooks";
 import { TYPES } from "../../../../config/Types";
 import type { StateDirtyTracker } from "../../core/StateDirtyTracker";
@@ -491,7 +491,7 @@ export class SocialSystem implements ISocialSystem {
         agentB: b,
         oldAffinity: currentA,
         newAffinity: newAffinityA,
-        timestamp: Date.now(),
+        timestamp: getSimulationTime(),
       });
     }
   }
@@ -503,7 +503,7 @@ export class SocialSystem implements ISocialSystem {
 
   public imposeTruce(aId: string, bId: string, durationMs: number): void {
     const key = this.pairKey(aId, bId);
-    this.truces.set(key, Date.now() + durationMs);
+    this.truces.set(key, getSimulationTime() + durationMs);
 
     const current = this.getAffinityBetween(aId, bId);
     if (current < 0) {
@@ -541,7 +541,7 @@ export class SocialSystem implements ISocialSystem {
   public isTruceActive(aId: string, bId: string): boolean {
     const key = this.pairKey(aId, bId);
     const expiresAt = this.truces.get(key);
-    return !!expiresAt && expiresAt > Date.now();
+    return !!expiresAt && expiresAt > getSimulationTime();
   }
 
   public setAffinity(aId: string, bId: string, value: number): void {
@@ -576,7 +576,7 @@ export class SocialSystem implements ISocialSystem {
       agentA: aId,
       agentB: bId,
       type: DialogueTone.FRIENDLY,
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
     });
   }
 
@@ -630,7 +630,7 @@ export class SocialSystem implements ISocialSystem {
       agentA: aId,
       agentB: bId,
       bondType: type,
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
     });
   }
 
@@ -736,7 +736,7 @@ export class SocialSystem implements ISocialSystem {
           leaderId: bestLeader.id,
           members: groupMembers,
           cohesion,
-          timestamp: Date.now(),
+          timestamp: getSimulationTime(),
         });
       }
     }
@@ -964,7 +964,7 @@ export class SocialSystem implements ISocialSystem {
     delta: number,
     reason?: string,
   ): void {
-    const now = Date.now();
+    const now = getSimulationTime();
     const r = this.reputation.get(agentId) || {
       value: REPUTATION_CONFIG.initialValues.reputation,
       lastUpdated: now,
@@ -1073,7 +1073,7 @@ export class SocialSystem implements ISocialSystem {
       sourceId: agentId,
       targetId,
       trust: (affinity + 1) / 2, // Convert affinity (-1..1) to trust (0..1)
-      lastUpdated: Date.now(),
+      lastUpdated: getSimulationTime(),
     }));
   }
 
@@ -1111,7 +1111,7 @@ export class SocialSystem implements ISocialSystem {
    */
   private updateReputationDecay(dt: number): void {
     const decay = REPUTATION_CONFIG.decay.perSecond * dt;
-    const now = Date.now();
+    const now = getSimulationTime();
 
     let totalRep = 0;
     let repCount = 0;
@@ -1146,7 +1146,7 @@ export class SocialSystem implements ISocialSystem {
         arr.push({
           targetId,
           value: (affinity + 1) / 2, // affinity to trust conversion
-          lastUpdated: Date.now(),
+          lastUpdated: getSimulationTime(),
         });
       }
       trustArray.push({ sourceId, targets: arr });
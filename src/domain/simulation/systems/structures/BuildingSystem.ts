@@ -99,6 +99,7 @@ import { injectable, inject, optional } from "inversify";
 import { TYPES } from "../../../../config/Types";
 import { SystemProperty } from "../../../../shared/constants/SystemEnums";
 import { HandlerResultStatus } from "@/shared/constants/StatusEnums";
+import { getSimulationTime } from "../../../../shared/FrameTime";
 
 /**
  * System for managing building construction, placement, and maintenance.
@@ -126,7 +127,7 @@ export class BuildingSystem implements IBuildingSystem {
   private taskSystem?: TaskSystem;
 
   private readonly buildingStates = new Map<string, BuildingState>();
-  private lastMaintenanceUpdate = Date.now();
+  private lastMaintenanceUpdate = getSimulationTime();
   private inventorySystem?: InventorySystem;
 
   constructor(
@@ -145,7 +146,7 @@ export class BuildingSystem implements IBuildingSystem {
     inventorySystem?: InventorySystem,
   ) {
     this.config = DEFAULT_CONFIG;
-    this.now = (): number => Date.now();
+    this.now = (): number => getSimulationTime();
     this.taskSystem = taskSystem;
     this.inventorySystem = inventorySystem;
 
@@ -533,8 +534,12 @@ export class BuildingSystem implements IBuildingSystem {
   ): void {
     this.constructionJobs.delete(job.id);
 
+    let builders: string[] = [];
     if (job.taskId && this.taskSystem) {
       const task = this.taskSystem.getTask(job.taskId);
+      if (task?.contributors) {
+        builders = Array.from(task.contributors.keys());
+      }
       if (task && !task.completed) {
         task.completed = true;
         task.progress = task.requiredWork;
@@ -595,6 +600,7 @@ export class BuildingSystem implements IBuildingSystem {
       jobId: job.id,
       zoneId: job.zoneId,
       label: job.label,
+      builders,
       completedAt,
     });
   }
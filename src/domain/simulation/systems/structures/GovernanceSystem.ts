@@ -96,6 +96,7 @@ const DEMAND_SOLUTIONS: Partial<
 import { injectable, inject, optional } from "inversify";
 import { TYPES } from "../../../../config/Types";
 import type { AgentRegistry } from "../agents/AgentRegistry";
+import { getSimulationTime } from "../../../../shared/FrameTime";
 
 @injectable()
 export class GovernanceSystem {
@@ -221,7 +222,7 @@ export class GovernanceSystem {
         timestamp?: number;
       }) => {
         this.recordEvent({
-          timestamp: Date.now(),
+          timestamp: getSimulationTime(),
           type: GovernanceEventType.PRODUCTION_GENERATED,
           details: {
             zoneId: data.zoneId,
@@ -255,7 +256,7 @@ export class GovernanceSystem {
         timestamp?: number;
       }) => {
         this.recordEvent({
-          timestamp: Date.now(),
+          timestamp: getSimulationTime(),
           type: GovernanceEventType.PRODUCTION_WORKER_LOST,
           details: {
             zoneId: data.zoneId,
@@ -266,7 +267,7 @@ export class GovernanceSystem {
         const recentLosses = this.history.filter(
           (e) =>
             e.type === GovernanceEventType.PRODUCTION_WORKER_LOST &&
-            Date.now() - e.timestamp < 60000,
+            getSimulationTime() - e.timestamp < 60000,
         );
         if (recentLosses.length >= 3) {
           this.createDemand(
@@ -283,7 +284,7 @@ export class GovernanceSystem {
   }
 
   public update(_deltaTimeMs: number): void {
-    const now = Date.now();
+    const now = getSimulationTime();
     if (now - this.lastCheck < this.config.checkIntervalMs) {
       return;
     }
@@ -309,7 +310,7 @@ export class GovernanceSystem {
     if (!policy) return;
     policy.enabled = enabled;
     this.recordEvent({
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
       type: GovernanceEventType.POLICY_CHANGED,
       details: { policyId, enabled },
     });
@@ -329,7 +330,7 @@ export class GovernanceSystem {
 
   private checkSettlementNeeds(): void {
     const stats = this.getSettlementStats();
-    const now = Date.now();
+    const now = getSimulationTime();
 
     const foodPolicy = this.policies.get(GovernancePolicyId.FOOD_SECURITY);
     if (foodPolicy?.enabled) {
@@ -436,7 +437,7 @@ export class GovernanceSystem {
       id: `demand_${++this.demandSeq}`,
       type,
       priority: modifiedPriority,
-      detectedAt: Date.now(),
+      detectedAt: getSimulationTime(),
       reason,
       metrics,
       suggestedProject: DEMAND_SOLUTIONS[type]?.project,
@@ -444,7 +445,7 @@ export class GovernanceSystem {
 
     this.demands.set(demand.id, demand);
     this.recordEvent({
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
       type: GovernanceEventType.DEMAND_CREATED,
       details: {
         demandId: demand.id,
@@ -476,7 +477,7 @@ export class GovernanceSystem {
       );
       if (!reserved) {
         this.recordEvent({
-          timestamp: Date.now(),
+          timestamp: getSimulationTime(),
           type: GovernanceEventType.PROJECT_FAILED,
           details: { demandId: demand.id, reason: "insufficient_resources" },
         });
@@ -509,7 +510,7 @@ export class GovernanceSystem {
       DemandType.WATER_SHORTAGE,
     ];
     if (!ongoingDemandTypes.includes(demand.type)) {
-      demand.resolvedAt = Date.now();
+      demand.resolvedAt = getSimulationTime();
       this.recordEvent({
         timestamp: demand.resolvedAt,
         type: GovernanceEventType.DEMAND_RESOLVED,
@@ -525,7 +526,7 @@ export class GovernanceSystem {
       demandId: demand.id,
       action: solution.project,
       cost: solution.cost,
-      timestamp: Date.now(),
+      timestamp: getSimulationTime(),
     } as {
       demandId: string;
       action: GovernanceProjectType;
@@ -636,7 +637,7 @@ export class GovernanceSystem {
       if (result.success) {
         assignedCount++;
         this.recordEvent({
-          timestamp: Date.now(),
+          timestamp: getSimulationTime(),
           type: GovernanceEventType.ROLE_REASSIGNED,
           details: {
             agentId: agent.id,
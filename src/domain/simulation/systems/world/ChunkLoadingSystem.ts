@@ -10,6 +10,7 @@ import type { WorldGenConfig } from "./generation/types";
 import { TileType } from "../../../../shared/constants/TileTypeEnums";
 import { BiomeType } from "../../../../shared/constants/BiomeEnums";
 import { RandomUtils } from "@/shared/utils/RandomUtils";
+import { getSimulationTime } from "../../../../shared/FrameTime";
 
 /**
  * System for dynamically loading chunks around agents.
@@ -65,7 +66,7 @@ export class ChunkLoadingSystem {
       width: undefined as unknown as number,
       height: undefined as unknown as number,
       tileSize: 32,
-      seed: Date.now(),
+      seed: getSimulationTime(),
       noise: {
         temperature: {
           scale: 0.0005,
@@ -94,7 +95,7 @@ export class ChunkLoadingSystem {
    * Periodically checks agent positions and loads nearby chunks
    */
   public update(_deltaMs: number): void {
-    const now = Date.now();
+    const now = getSimulationTime();
 
     if (now - this.lastCheckTime < this.CHECK_INTERVAL_MS) {
       return;
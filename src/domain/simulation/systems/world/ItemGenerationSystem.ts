@@ -22,6 +22,7 @@ import { ZoneType } from "@/shared/constants/ZoneEnums";
 
 import { ResourceType } from "@/shared/constants/ResourceEnums";
 import { BiomeType } from "@/shared/constants/BiomeEnums";
+import { getSimulationTime } from "../../../../shared/FrameTime";
 /**
  * Generates spawn rules based on the base materials catalog.
  *
@@ -124,7 +125,7 @@ export class ItemGenerationSystem {
   public update(_deltaMs: number): void {
     if (!this.config.enableAutoGeneration) return;
 
-    const now = Date.now();
+    const now = getSimulationTime();
     const intervalMs = this.config.generationIntervalSec * 1000;
 
     const zones = this.gameState.zones || [];
@@ -161,7 +162,7 @@ export class ItemGenerationSystem {
     const zoneItemMap = this.zoneItems.get(zone.id);
     if (zoneItemMap?.has(rule.itemId)) {
       const existingItem = zoneItemMap.get(rule.itemId)!;
-      const now = Date.now();
+      const now = getSimulationTime();
 
       if (existingItem.collectedAt) {
         const timeSinceCollected = now - existingItem.collectedAt;
@@ -182,7 +183,7 @@ export class ItemGenerationSystem {
       itemId: rule.itemId,
       quantity,
       zoneId: zone.id,
-      generatedAt: Date.now(),
+      generatedAt: getSimulationTime(),
     };
 
     if (!this.zoneItems.has(zone.id)) {
@@ -211,7 +212,7 @@ export class ItemGenerationSystem {
     }
 
     const collected: Array<{ itemId: string; quantity: number }> = [];
-    const now = Date.now();
+    const now = getSimulationTime();
 
     zoneItemMap.forEach((item, _key) => {
       if (!item.collectedBy) {
@@ -257,7 +258,7 @@ export class ItemGenerationSystem {
       itemId,
       quantity,
       zoneId,
-      generatedAt: Date.now(),
+      generatedAt: getSimulationTime(),
     };
 
     if (!this.zoneItems.has(zoneId)) {
@@ -5,6 +5,7 @@ import { InventorySystem } from "../economy/InventorySystem";
 import { LifeCycleSystem } from "../lifecycle/LifeCycleSystem";
 import { WorldResourceSystem } from "./WorldResourceSystem";
 import { TerrainSystem } from "./TerrainSystem";
+import type { TimeSystem } from "../core/TimeSystem";
 import { simulationEvents, GameEventType } from "../../core/events";
 import { performance } from "perf_hooks";
 import { performanceMonitor } from "../../core/PerformanceMonitor";
@@ -12,13 +13,19 @@ import { ResourceType as ResourceTypeEnum } from "../../../../shared/constants/R
 import { ZoneType } from "../../../../shared/constants/ZoneEnums";
 import { StockpileType } from "../../../../shared/constants/ZoneEnums";
 import { TileType } from "../../../../shared/constants/TileTypeEnums";
+import { FoodId } from "../../../../shared/constants/FoodEnums";
 import { logger } from "@/infrastructure/utils/logger";
+import type { IDivinePort } from "../../ports";
 
 interface ProductionConfig {
   updateIntervalMs: number;
   productionIntervalMs: number;
   maxWorkersPerZone: number;
   baseYieldPerWorker: number;
+  /** Food yield multiplier of a harvest fertilized with compost */
+  compostYieldMultiplier: number;
+  /** FoodCatalog id of the food farms produce, which sets its shelf life */
+  farmFoodId: string;
 }
 
 const DEFAULT_CONFIG: ProductionConfig = {
@@ -26,6 +33,8 @@ const DEFAULT_CONFIG: ProductionConfig = {
   productionIntervalMs: 12_000,
   maxWorkersPerZone: 2,
   baseYieldPerWorker: 4,
+  compostYieldMultiplier: 1.5,
+  farmFoodId: FoodId.BREAD,
 };
 
 export interface ProductionMetadata {
@@ -44,6 +53,7 @@ type MutableZone = Zone & {
 import { injectable, inject, optional } from "inversify";
 import { TYPES } from "../../../../config/Types";
 import { ActionType } from "../../../../shared/constants/AIEnums";
+import { getSimulationTime } from "../../../../shared/FrameTime";
 
 /**
  * System for managing resource production in designated zones.
@@ -65,13 +75,15 @@ export class ProductionSystem {
   private readonly config: ProductionConfig;
   private readonly lastProduction = new Map<string, number>();
   private readonly assignments = new Map<string, Set<string>>();
-  private lastUpdate = Date.now();
+  private lastUpdate = getSimulationTime();
 
   /** Pool de trabajadores disponibles (optimización para ensureAssignments) */
   private idleWorkers = new Set<string>();
   private lastIdlePoolUpdate = 0;
   private readonly IDLE_POOL_UPDATE_INTERVAL = 2000; // ms
 
+  private divinePort?: IDivinePort;
+
   constructor(
     @inject(TYPES.GameState) private readonly state: GameState,
     @inject(TYPES.InventorySystem)
@@ -84,11 +96,23 @@ export class ProductionSystem {
     @inject(TYPES.TerrainSystem)
     @optional()
     private readonly terrainSystem?: TerrainSystem,
+    @inject(TYPES.TimeSystem)
+    @optional()
+    private readonly timeSystem?: TimeSystem,
   ) {
     this.config = DEFAULT_CONFIG;
     this.setupEventListeners();
   }
 
+  /**
+   * Sets system dependencies after construction.
+   *
+   * @param systems - Object containing system dependencies
+   */
+  public setDependencies(systems: { divinePort?: IDivinePort }): void {
+    if (systems.divinePort) this.divinePort = systems.divinePort;
+  }
+
   private setupEventListeners(): void {
     simulationEvents.on(
       GameEventType.AGENT_DEATH,
@@ -122,7 +146,7 @@ export class ProductionSystem {
    * @param _deltaMs - Elapsed time since last update (not used, fixed interval is used instead)
    */
   public update(_deltaMs: number): void {
-    const now = Date.now();
+    const now = getSimulationTime();
     if (now - this.lastUpdate < this.config.updateIntervalMs) {
       return;
     }
@@ -252,7 +276,9 @@ export class ProductionSystem {
 
   /**
    * Executes production logic for a specific zone.
-   * Calculates produced amount based on workers and base yield.
+   * Calculates produced amount based on workers and base yield, scaled per
+   * worker by active productivity blessings. Food yields follow the season
+   * and grow when the zone has compost to spend.
    * May modify terrain visually (e.g., convert grass to farmland).
    *
    * @param zone - Production zone
@@ -273,7 +299,22 @@ export class ProductionSystem {
     const resource = this.getProductionResource(zone);
     if (!resource) return;
 
-    const amount = workers.size * this.config.baseYieldPerWorker;
+    let amount = 0;
+    for (const workerId of workers) {
+      const productivity =
+        this.divinePort?.getBlessingMultiplier(
+          workerId,
+          "productivity_boost",
+        ) ?? 1;
+      amount += this.config.baseYieldPerWorker * productivity;
+    }
+    if (resource === ResourceTypeEnum.FOOD) {
+      amount *= this.timeSystem?.getSeasonEffects().farmYield ?? 1;
+      if (this.inventorySystem.takeCompost(zone.id, 1) > 0) {
+        amount *= this.config.compostYieldMultiplier;
+      }
+    }
+    amount = Math.round(amount);
 
     if (zone.durability !== undefined && zone.durability <= 0) {
       return;
@@ -356,6 +397,11 @@ export class ProductionSystem {
         150,
       );
     }
-    this.inventorySystem.addToStockpile(stockpile.id, resource, amount);
+    this.inventorySystem.addToStockpile(
+      stockpile.id,
+      resource,
+      amount,
+      resource === ResourceTypeEnum.FOOD ? this.config.farmFoodId : undefined,
+    );
   }
 }
@@ -0,0 +1,203 @@
+import { logger } from "../../../../infrastructure/utils/logger";
+import type { Zone } from "@/shared/types/game-types";
+import type { AgentProfile } from "@/shared/types/simulation/agents";
+import type { BuildingLabel } from "@/shared/types/simulation/buildings";
+import type {
+  Scenario,
+  ScenarioAgent,
+  ScenarioAnimalGroup,
+  ScenarioZone,
+} from "@/shared/types/simulation/scenario";
+import type { SimulationRunner } from "../../core/SimulationRunner";
+import { LifeStage, Sex } from "../../../../shared/constants/AgentEnums";
+import type { ResourceType } from "../../../../shared/constants/ResourceEnums";
+import { StockpileType } from "../../../../shared/constants/ZoneEnums";
+import { RandomUtils } from "../../../../shared/utils/RandomUtils";
+import { getSimulationTime } from "../../../../shared/FrameTime";
+
+/** Spread of an animal group around its center when not given, in pixels */
+const DEFAULT_ANIMAL_RADIUS = 300;
+
+/**
+ * Sets up the population of a fresh world from a scenario: agents, zones
+ * and stockpiles, relations and animal groups. Sections the scenario leaves
+ * out fall back to the defaults of WorldLoader.
+ *
+ * Expects the terrain to be generated and `state.scenario` to be set.
+ */
+export class ScenarioLoader {
+  constructor(private runner: SimulationRunner) {}
+
+  public async populate(scenario: Scenario): Promise<void> {
+    const spawned = this.spawnAgents(scenario.agents ?? []);
+    scenario.zones?.forEach((zone, index) =>
+      this.createZone(zone, `zone_${scenario.id}_${index}`),
+    );
+
+    await this.runner.ensureInitialFamily();
+
+    for (const relation of scenario.relations ?? []) {
+      const [a, b] = relation.between;
+      if (relation.bond === "marriage") {
+        this.runner.marriageSystem.proposeMarriage(a, b);
+        this.runner.marriageSystem.acceptProposal(b);
+      }
+      if (relation.bond) {
+        this.runner.socialSystem.registerPermanentBond(a, b, relation.bond);
+      }
+      if (relation.affinity !== undefined) {
+        this.runner.socialSystem.setAffinity(a, b, relation.affinity);
+      }
+    }
+
+    for (const group of scenario.animals ?? []) {
+      this.spawnAnimals(group);
+    }
+
+    logger.info(
+      `🎬 [ScenarioLoader] "${scenario.name}" set up: ${spawned.size} agents, ${scenario.zones?.length ?? 0} zones, ${scenario.relations?.length ?? 0} relations`,
+    );
+  }
+
+  /**
+   * Spawns the scenario's agents, parents first.
+   *
+   * @returns Spawned profiles by scenario ID
+   */
+  private spawnAgents(agents: ScenarioAgent[]): Map<string, AgentProfile> {
+    const spawned = new Map<string, AgentProfile>();
+    const pending = [...agents];
+
+    while (pending.length > 0) {
+      const index = pending.findIndex((agent) =>
+        [agent.parents?.father, agent.parents?.mother].every(
+          (parent) => !parent || spawned.has(parent),
+        ),
+      );
+      if (index === -1) {
+        throw new Error(
+          `Scenario agents have circular parents: ${pending.map((agent) => agent.id).join(", ")}`,
+        );
+      }
+      const [agent] = pending.splice(index, 1);
+      spawned.set(agent.id, this.spawnAgent(agent, spawned));
+    }
+    return spawned;
+  }
+
+  private spawnAgent(
+    agent: ScenarioAgent,
+    spawned: Map<string, AgentProfile>,
+  ): AgentProfile {
+    const father = agent.parents?.father
+      ? spawned.get(agent.parents.father)
+      : undefined;
+    const mother = agent.parents?.mother
+      ? spawned.get(agent.parents.mother)
+      : undefined;
+    const generation =
+      Math.max(-1, father?.generation ?? -1, mother?.generation ?? -1) + 1;
+
+    const spec: Partial<AgentProfile> = {
+      id: agent.id,
+      name: agent.name ?? agent.id,
+      sex: agent.sex ?? Sex.FEMALE,
+      ageYears: agent.ageYears ?? 25,
+      lifeStage: agent.lifeStage ?? LifeStage.ADULT,
+      generation,
+      immortal: agent.immortal ?? false,
+    };
+    if (agent.position) spec.position = { ...agent.position };
+    if (agent.traits) {
+      // Founders get genes for these traits; children inherit their genes
+      // and only show them
+      spec.traits = { ...agent.traits } as AgentProfile["traits"];
+    }
+    if (father || mother) {
+      spec.parents = { father: father?.id, mother: mother?.id };
+    }
+
+    const profile = this.runner.lifeCycleSystem.spawnAgent(spec);
+    if (agent.traits) {
+      Object.assign(profile.traits, agent.traits);
+    }
+    this.runner._genealogySystem.registerBirth(profile, father?.id, mother?.id);
+    return profile;
+  }
+
+  private createZone(spec: ScenarioZone, defaultId: string): void {
+    const id = spec.id ?? defaultId;
+    const zone: Zone = {
+      id,
+      type: spec.type,
+      bounds: { x: spec.x, y: spec.y, width: spec.width, height: spec.height },
+      props: { ...spec.props },
+    };
+    if (spec.building) {
+      zone.metadata = {
+        building: spec.building as BuildingLabel,
+        underConstruction: false,
+        buildingId: `building_${id}`,
+        builtAt: getSimulationTime(),
+        biome: "Grassland",
+        buildingType: spec.building,
+        spriteVariant: 0,
+      };
+    }
+    (this.runner.state.zones ??= []).push(zone);
+
+    if (spec.stockpile) {
+      const stockpile = this.runner.inventorySystem.createStockpile(
+        id,
+        spec.stockpile.type ?? StockpileType.GENERAL,
+        spec.stockpile.capacity ?? 1000,
+      );
+      for (const [resource, amount] of Object.entries(
+        spec.stockpile.contents ?? {},
+      )) {
+        this.runner.inventorySystem.addToStockpile(
+          stockpile.id,
+          resource as ResourceType,
+          amount,
+        );
+      }
+    }
+  }
+
+  private spawnAnimals(group: ScenarioAnimalGroup): void {
+    const center = group.near ?? this.agentCenter();
+    const radius = group.radius ?? DEFAULT_ANIMAL_RADIUS;
+    const world = this.runner.state.worldSize;
+    let count = 0;
+
+    for (let i = 0; i < group.count; i++) {
+      const angle = RandomUtils.floatRange(0, Math.PI * 2);
+      const distance = radius * Math.sqrt(RandomUtils.float());
+      let x = center.x + Math.cos(angle) * distance;
+      let y = center.y + Math.sin(angle) * distance;
+      if (world) {
+        x = Math.min(Math.max(0, x), world.width - 1);
+        y = Math.min(Math.max(0, y), world.height - 1);
+      }
+      if (this.runner.animalSystem.spawnAnimal(group.type, { x, y })) count++;
+    }
+
+    logger.info(
+      `🐾 [ScenarioLoader] Spawned ${count}/${group.count} ${group.type} around (${Math.round(center.x)}, ${Math.round(center.y)})`,
+    );
+  }
+
+  private agentCenter(): { x: number; y: number } {
+    const positions = this.runner.state.agents
+      .map((agent) => agent.position)
+      .filter((position) => position !== undefined);
+    if (positions.length === 0) {
+      const world = this.runner.state.worldSize;
+      return { x: (world?.width ?? 0) / 2, y: (world?.height ?? 0) / 2 };
+    }
+    return {
+      x: positions.reduce((sum, p) => sum + p.x, 0) / positions.length,
+      y: positions.reduce((sum, p) => sum + p.y, 0) / positions.length,
+    };
+  }
+}
@@ -7,6 +7,7 @@ import { logger } from "@/infrastructure/utils/logger";
 import { SystemProperty } from "../../../../shared/constants/SystemEnums";
 import { BiomeType } from "../../../../shared/constants/BiomeEnums";
 import { TileType } from "../../../../shared/constants/TileTypeEnums";
+import { getSimulationTime } from "../../../../shared/FrameTime";
 
 /**
  * Tracks water level per tile for consumption mechanics.
@@ -93,7 +94,7 @@ export class TerrainSystem {
             x,
             y,
             updates,
-            timestamp: Date.now(),
+            timestamp: getSimulationTime(),
           });
           return true;
         }
@@ -177,7 +178,7 @@ export class TerrainSystem {
         type: "water_depleted",
         previousBiome: BiomeType.OCEAN,
         newBiome: BiomeType.GRASSLAND,
-        timestamp: Date.now(),
+        timestamp: getSimulationTime(),
       });
     }
   }
@@ -12,6 +12,7 @@ import {
 import { BuildingType } from "../../../../shared/constants/BuildingEnums";
 import { ResourceType } from "../../../../shared/constants/ResourceEnums";
 import { ControlledEntity } from "@/shared/constants/ControlledEntities";
+import { getSimulationTime } from "../../../../shared/FrameTime";
 
 export class WorldLoader {
   constructor(private runner: SimulationRunner) {}
@@ -21,6 +22,8 @@ export class WorldLoader {
     height: number;
     tileSize: number;
     biomeMap: string[][];
+    /** Seed of the terrain noise (default: 12345) */
+    seed?: number;
   }): Promise<void> {
     logger.info(
       `Generating initial world ${worldConfig.width}x${worldConfig.height}...`,
@@ -51,7 +54,7 @@ export class WorldLoader {
             width: worldConfig.width,
             height: worldConfig.height,
             tileSize: worldConfig.tileSize,
-            seed: 12345,
+            seed: worldConfig.seed ?? 12345,
             noise: {
               temperature: {
                 scale: 0.0005,
@@ -135,7 +138,8 @@ export class WorldLoader {
     }
 
     const mapSeed = this.runner.state.mapSeed;
-    const numericSeed = typeof mapSeed === "number" ? mapSeed : Date.now();
+    const numericSeed =
+      typeof mapSeed === "number" ? mapSeed : getSimulationTime();
 
     this.runner.state.world = {
       ...this.runner.state.world,
@@ -164,12 +168,74 @@ export class WorldLoader {
     );
 
     this.runner.worldResourceSystem.spawnResourcesInWorld({
-      ...worldConfig,
+      width: worldConfig.width,
+      height: worldConfig.height,
+      tileSize: worldConfig.tileSize,
       biomeMap,
     });
   }
 
+  /**
+   * Ensures the founding family, the starter infrastructure and the initial
+   * herds exist, and that every agent has a movement state. Parts replaced
+   * by the world's scenario are skipped.
+   */
   public async ensureInitialFamily(): Promise<void> {
+    const scenario = this.runner.state.scenario;
+    const childrenCreated = scenario?.replacesFamily
+      ? 0
+      : this.ensureFoundingFamily();
+
+    if (
+      !scenario?.replacesInfrastructure &&
+      (!this.runner.state.zones ||
+        this.runner.state.zones.length === 0 ||
+        childrenCreated > 0)
+    ) {
+      this.createInitialInfrastructure();
+    }
+
+    for (const agent of this.runner.state.agents) {
+      try {
+        if (!agent.position) {
+          agent.position = {
+            x: (this.runner.state.worldSize?.width ?? 2048) / 2,
+            y: (this.runner.state.worldSize?.height ?? 2048) / 2,
+          };
+        }
+        const hasState = this.runner.movementSystem.hasMovementState(agent.id);
+        logger.info(
+          `🚶 [WorldLoader] ${agent.id}: hasMovementState=${hasState}, pos=${agent.position.x.toFixed(0)},${agent.position.y.toFixed(0)}`,
+        );
+        if (!hasState) {
+          this.runner.movementSystem.initializeEntityMovement(
+            agent.id,
+            agent.position,
+          );
+          logger.info(
+            `🚶 [WorldLoader] ${agent.id}: Movement state initialized`,
+          );
+        }
+      } catch (err) {
+        logger.warn(
+          `Failed to initialize movement state for agent ${agent.id}: ${
+            err instanceof Error ? err.message : String(err)
+          }`,
+        );
+      }
+    }
+
+    if (!scenario?.replacesAnimals) {
+      this.spawnInitialAnimals();
+    }
+  }
+
+  /**
+   * Spawns Isa, Stev and their six children when missing. Idempotent.
+   *
+   * @returns Number of children created
+   */
+  private ensureFoundingFamily(): number {
     let isa = this.runner.agentRegistry.getProfile("isa");
     if (!isa) {
       isa = this.runner.lifeCycleSystem.spawnAgent({
@@ -271,45 +337,7 @@ export class WorldLoader {
       logger.info(`👶 No new children created (all exist or failed).`);
     }
 
-    if (
-      !this.runner.state.zones ||
-      this.runner.state.zones.length === 0 ||
-      childrenCreated > 0
-    ) {
-      this.createInitialInfrastructure();
-    }
-
-    for (const agent of this.runner.state.agents) {
-      try {
-        if (!agent.position) {
-          agent.position = {
-            x: (this.runner.state.worldSize?.width ?? 2048) / 2,
-            y: (this.runner.state.worldSize?.height ?? 2048) / 2,
-          };
-        }
-        const hasState = this.runner.movementSystem.hasMovementState(agent.id);
-        logger.info(
-          `🚶 [WorldLoader] ${agent.id}: hasMovementState=${hasState}, pos=${agent.position.x.toFixed(0)},${agent.position.y.toFixed(0)}`,
-        );
-        if (!hasState) {
-          this.runner.movementSystem.initializeEntityMovement(
-            agent.id,
-            agent.position,
-          );
-          logger.info(
-            `🚶 [WorldLoader] ${agent.id}: Movement state initialized`,
-          );
-        }
-      } catch (err) {
-        logger.warn(
-          `Failed to initialize movement state for agent ${agent.id}: ${
-            err instanceof Error ? err.message : String(err)
-          }`,
-        );
-      }
-    }
-
-    this.spawnInitialAnimals();
+    return childrenCreated;
   }
 
   /**
@@ -391,7 +419,7 @@ export class WorldLoader {
     this.runner.state.zones = [];
 
     const houseZone: Zone = {
-      id: `zone_house_initial_${Date.now()}`,
+      id: `zone_house_initial_${getSimulationTime()}`,
       type: ZoneType.SHELTER,
       bounds: {
         x: baseX,
@@ -406,8 +434,8 @@ export class WorldLoader {
       metadata: {
         building: BuildingType.HOUSE as BuildingLabel,
         underConstruction: false,
-        buildingId: `building_house_initial_${Date.now()}`,
-        builtAt: Date.now(),
+        buildingId: `building_house_initial_${getSimulationTime()}`,
+        builtAt: getSimulationTime(),
         biome: defaultBiome,
         buildingType: BuildingType.HOUSE,
         spriteVariant: 0,
@@ -415,7 +443,7 @@ export class WorldLoader {
     };
 
     const workbenchZone: Zone = {
-      id: `zone_workbench_initial_${Date.now()}`,
+      id: `zone_workbench_initial_${getSimulationTime()}`,
       type: ZoneType.WORK,
       bounds: {
         x: baseX + 150,
@@ -431,8 +459,8 @@ export class WorldLoader {
         building: "workbench" as BuildingLabel,
         underConstruction: false,
         craftingStation: true,
-        buildingId: `building_workbench_initial_${Date.now()}`,
-        builtAt: Date.now(),
+        buildingId: `building_workbench_initial_${getSimulationTime()}`,
+        builtAt: getSimulationTime(),
         biome: defaultBiome,
         buildingType: BuildingType.WORKBENCH,
         spriteVariant: 0,
@@ -440,7 +468,7 @@ export class WorldLoader {
     };
 
     const storageZone: Zone = {
-      id: `zone_storage_initial_${Date.now()}`,
+      id: `zone_storage_initial_${getSimulationTime()}`,
       type: ZoneType.STORAGE,
       bounds: {
         x: baseX + 150,
@@ -452,8 +480,8 @@ export class WorldLoader {
         capacity: 1000,
       },
       metadata: {
-        buildingId: `building_storage_initial_${Date.now()}`,
-        builtAt: Date.now(),
+        buildingId: `building_storage_initial_${getSimulationTime()}`,
+        builtAt: getSimulationTime(),
         biome: defaultBiome,
         buildingType: BuildingType.STORAGE,
         spriteVariant: 0,
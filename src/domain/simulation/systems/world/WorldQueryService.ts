@@ -27,6 +27,7 @@
 import { injectable, inject, optional } from "inversify";
 import { TYPES } from "../../../../config/Types";
 import { logger } from "@/infrastructure/utils/logger";
+import { RandomUtils } from "@/shared/utils/RandomUtils";
 import type { GameState, Zone } from "@/shared/types/game-types";
 import type { WorldResourceInstance } from "@/shared/types/simulation/worldResources";
 import type { Animal } from "@/shared/types/simulation/animals";
@@ -44,6 +45,7 @@ import { AnimalType } from "../../../../shared/constants/AnimalEnums";
 import { BiomeType } from "../../../../shared/constants/BiomeEnums";
 import { EntityType } from "../../../../shared/constants/EntityEnums";
 import { getAnimalConfig } from "./config/AnimalConfigs";
+import { getSimulationTime } from "../../../../shared/FrameTime";
 
 /**
  * Base interface for all query results
@@ -612,7 +614,7 @@ export class WorldQueryService {
       { biome: BiomeType.LAKE },
     );
 
-    const now = Date.now();
+    const now = getSimulationTime();
     if (!this._lastWaterDebugLog || now - this._lastWaterDebugLog > 30000) {
       this._lastWaterDebugLog = now;
       logger.debug(
@@ -645,7 +647,7 @@ export class WorldQueryService {
     logger.debug(`[WorldQueryService] findNearestWaterTile called at (${x}, ${y}), cache has ${this.waterTilesCache.length} tiles`);
     
     // Refresh cache if expired
-    const now = Date.now();
+    const now = getSimulationTime();
     if (
       now - this.waterTilesCacheTime > this.WATER_CACHE_TTL ||
       this.waterTilesCache.length === 0
@@ -760,7 +762,7 @@ export class WorldQueryService {
     }
 
     this.waterTilesCache = waterTiles;
-    this.waterTilesCacheTime = Date.now();
+    this.waterTilesCacheTime = getSimulationTime();
 
     logger.debug(
       `[WorldQueryService] 💧 Refreshed water tiles cache: ${waterTiles.length} tiles (sampled from ${mapWidth}x${mapHeight} map)`,
@@ -978,7 +980,7 @@ export class WorldQueryService {
     }
 
     // Si no hay agua en todo el mapa, sugerir dirección aleatoria para exploración
-    const angle = Math.random() * Math.PI * 2;
+    const angle = RandomUtils.float() * Math.PI * 2;
     const exploreDistance = 300;
     return {
       x: x + Math.cos(angle) * exploreDistance,
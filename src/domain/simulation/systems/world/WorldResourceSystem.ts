@@ -15,12 +15,14 @@ import {
 import { BiomeType } from "../../../../shared/constants/BiomeEnums";
 import { TileType } from "../../../../shared/constants/TileTypeEnums";
 import { TerrainSystem } from "./TerrainSystem";
+import type { TimeSystem } from "../core/TimeSystem";
 
 import { injectable, inject } from "inversify";
 import { TYPES } from "../../../../config/Types";
 import type { StateDirtyTracker } from "../../core/StateDirtyTracker";
 import { performanceMonitor } from "../../core/PerformanceMonitor";
 import { optional } from "inversify";
+import { getSimulationTime } from "../../../../shared/FrameTime";
 
 @injectable()
 export class WorldResourceSystem {
@@ -39,6 +41,9 @@ export class WorldResourceSystem {
     @inject(TYPES.TerrainSystem)
     @optional()
     private terrainSystem?: TerrainSystem,
+    @inject(TYPES.TimeSystem)
+    @optional()
+    private timeSystem?: TimeSystem,
   ) {
     this.gameState = gameState;
     if (!this.gameState.worldResources) {
@@ -57,7 +62,7 @@ export class WorldResourceSystem {
 
   public update(_dt: number): void {
     const startTime = performance.now();
-    const now = Date.now();
+    const now = getSimulationTime();
 
     if (now - this.lastRegenerationCheck > this.REGENERATION_CHECK_INTERVAL) {
       this.checkRegeneration(now);
@@ -98,6 +103,21 @@ export class WorldResourceSystem {
     this.spatialGrid.remove(id);
   }
 
+  /**
+   * Speed of regrowth in the current season. Nothing regrows while the
+   * resource's biome is below freezing.
+   */
+  private getRegrowthRate(resource: WorldResourceInstance): number {
+    if (!this.timeSystem) return 1;
+    if (
+      resource.biome &&
+      this.timeSystem.getBiomeTemperature(resource.biome) < 0
+    ) {
+      return 0;
+    }
+    return this.timeSystem.getSeasonEffects().resourceRegrowth;
+  }
+
   private checkRegeneration(now: number): void {
     for (const [resourceId, startTime] of this.regenerationTimers) {
       const resource = this.resources.get(resourceId);
@@ -108,8 +128,12 @@ export class WorldResourceSystem {
 
       const config = getResourceConfig(resource.type);
       const regenerationTime = config?.regenerationTime || 60000;
+      const regrowthRate = this.getRegrowthRate(resource);
 
-      if (now - startTime > regenerationTime) {
+      if (
+        regrowthRate > 0 &&
+        now - startTime > regenerationTime / regrowthRate
+      ) {
         resource.state = ResourceState.PRISTINE;
         resource.harvestCount = 0;
         resource.regenerationStartTime = undefined;
@@ -169,7 +193,9 @@ export class WorldResourceSystem {
   ): WorldResourceInstance | undefined {
     // Early validation for null/undefined coordinates
     if (x == null || y == null || !Number.isFinite(x) || !Number.isFinite(y)) {
-      logger.warn(`[WorldRes] getNearestResource called with invalid coords: x=${x}, y=${y}`);
+      logger.warn(
+        `[WorldRes] getNearestResource called with invalid coords: x=${x}, y=${y}`,
+      );
       return undefined;
     }
 
@@ -256,7 +282,11 @@ export class WorldResourceSystem {
 
           for (const config of resourceConfigs) {
             if (RandomUtils.chance(config.spawnProbability!)) {
-              const resource = this.spawnResource(config.type, { x, y }, biome);
+              const resource = this.spawnNaturalResource(
+                config.type,
+                { x, y },
+                biome,
+              );
               if (resource) {
                 spawned++;
                 resourceCounts[config.type] =
@@ -297,7 +327,7 @@ export class WorldResourceSystem {
       return null;
     }
 
-    const id = `resource_${type}_${Date.now()}_${RandomUtils.float().toString(36).substr(2, 5)}`;
+    const id = `resource_${type}_${getSimulationTime()}_${RandomUtils.float().toString(36).substr(2, 5)}`;
 
     const resource: WorldResourceInstance = {
       id,
@@ -307,7 +337,7 @@ export class WorldResourceSystem {
       harvestCount: 0,
       lastHarvestTime: 0,
       biome: biome as BiomeType,
-      spawnedAt: Date.now(),
+      spawnedAt: getSimulationTime(),
     };
 
     this.addResource(resource);
@@ -317,6 +347,23 @@ export class WorldResourceSystem {
     return resource;
   }
 
+  /**
+   * Spawns a node found while generating terrain. The world's scenario may
+   * thin out each type; nodes placed on purpose use spawnResource.
+   */
+  private spawnNaturalResource(
+    type: string,
+    position: { x: number; y: number },
+    biome: string,
+  ): WorldResourceInstance | null {
+    const abundance =
+      this.gameState.scenario?.resourceAbundance[type as WorldResourceType];
+    if (abundance !== undefined && !RandomUtils.chance(abundance)) {
+      return null;
+    }
+    return this.spawnResource(type, position, biome);
+  }
+
   private spawnedChunks = new Set<string>();
 
   /**
@@ -374,7 +421,7 @@ export class WorldResourceSystem {
         if (isWaterTile) {
           // Spawn water source with high probability on water tiles
           if (RandomUtils.chance(0.3)) {
-            const resource = this.spawnResource(
+            const resource = this.spawnNaturalResource(
               WorldResourceType.WATER_SOURCE,
               {
                 x: pixelX + tileSize / 2,
@@ -404,7 +451,7 @@ export class WorldResourceSystem {
                 tileSize * 0.3,
               );
 
-              const resource = this.spawnResource(
+              const resource = this.spawnNaturalResource(
                 resourceType,
                 {
                   x: pixelX + tileSize / 2 + offsetX,
@@ -431,7 +478,7 @@ export class WorldResourceSystem {
                 tileSize * 0.4,
               );
 
-              const resource = this.spawnResource(
+              const resource = this.spawnNaturalResource(
                 resourceType,
                 {
                   x: pixelX + tileSize / 2 + offsetX,
@@ -543,7 +590,7 @@ export class WorldResourceSystem {
     }
 
     resource.harvestCount = (resource.harvestCount || 0) + 1;
-    resource.lastHarvestTime = Date.now();
+    resource.lastHarvestTime = getSimulationTime();
 
     const previousState = resource.state;
 
@@ -584,12 +631,12 @@ export class WorldResourceSystem {
           logger.debug(
             `[WorldResourceSystem] Tile de agua (${resource.linkedTileX}, ${resource.linkedTileY}) agotado temporalmente (ciclo ${resource.depletionCycles}/${MAX_DEPLETION_CYCLES})`,
           );
-          resource.regenerationStartTime = Date.now();
-          this.regenerationTimers.set(resourceId, Date.now());
+          resource.regenerationStartTime = getSimulationTime();
+          this.regenerationTimers.set(resourceId, getSimulationTime());
         }
       } else if (config.canRegenerate) {
-        resource.regenerationStartTime = Date.now();
-        this.regenerationTimers.set(resourceId, Date.now());
+        resource.regenerationStartTime = getSimulationTime();
+        this.regenerationTimers.set(resourceId, getSimulationTime());
       } else {
         delete this.gameState.worldResources![resourceId];
         simulationEvents.emit(GameEventType.RESOURCE_DEPLETED, {
@@ -12,6 +12,7 @@ import {
 import { MapElementType } from "../../../../../shared/constants/MapElementEnums";
 
 import { ResourceType } from "@/shared/constants/ResourceEnums";
+import { getSimulationTime } from "../../../../../shared/FrameTime";
 const BASE_ANIMAL_SPEED = 60;
 
 export class AnimalBehavior {
@@ -151,7 +152,7 @@ export class AnimalBehavior {
 
         animal.currentTarget = null;
         animal.targetPosition = null;
-        animal.stateEndTime = Date.now() + 3000;
+        animal.stateEndTime = getSimulationTime() + 3000;
       } else {
         this.moveToward(
           animal,
@@ -221,7 +222,7 @@ export class AnimalBehavior {
         const attackDamage = (config.attackDamage || 15) * animal.genes.size;
         onDamage(prey.id, attackDamage);
 
-        animal.stateEndTime = Date.now() + 1500;
+        animal.stateEndTime = getSimulationTime() + 1500;
 
         prey.state = AnimalState.FLEEING;
         prey.fleeTarget = animal.id;
@@ -290,7 +291,7 @@ export class AnimalBehavior {
 
         animal.currentTarget = null;
         animal.targetPosition = null;
-        animal.stateEndTime = Date.now() + 3000;
+        animal.stateEndTime = getSimulationTime() + 3000;
       } else {
         this.moveToward(
           animal,
@@ -349,7 +350,7 @@ export class AnimalBehavior {
             Math.max(animal.generation, nearbyMate.generation) + 1;
 
           const offspring: Animal = {
-            id: `animal_${animal.type}_${Date.now()}_${RandomUtils.float()}`,
+            id: `animal_${animal.type}_${getSimulationTime()}_${RandomUtils.float()}`,
             type: animal.type,
             position: offspringPosition,
             state: AnimalState.IDLE,
@@ -364,8 +365,8 @@ export class AnimalBehavior {
             parentIds: [animal.id, nearbyMate.id],
             health: config.maxHealth * offspringGenes.health,
             age: 0,
-            lastReproduction: Date.now() - 60000,
-            spawnedAt: Date.now(),
+            lastReproduction: getSimulationTime() - 60000,
+            spawnedAt: getSimulationTime(),
             targetPosition: null,
             currentTarget: null,
             fleeTarget: null,
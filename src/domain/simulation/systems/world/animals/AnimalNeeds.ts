@@ -1,6 +1,7 @@
 import type { Animal } from "@/shared/types/simulation/animals";
 import { getAnimalConfig } from "../config/AnimalConfigs";
 import { AnimalState } from "../../../../../shared/constants/AnimalEnums";
+import { getSimulationTime } from "../../../../../shared/FrameTime";
 
 export class AnimalNeeds {
   public static updateNeeds(animal: Animal, deltaMinutes: number): void {
@@ -17,7 +18,10 @@ export class AnimalNeeds {
       animal.needs.thirst - config.thirstDecayRate * deltaMinutes,
     );
 
-    if (Date.now() - animal.lastReproduction > config.reproductionCooldown) {
+    if (
+      getSimulationTime() - animal.lastReproduction >
+      config.reproductionCooldown
+    ) {
       animal.needs.reproductiveUrge = Math.min(
         100,
         animal.needs.reproductiveUrge + 15.0 * deltaMinutes,
@@ -68,6 +72,6 @@ export class AnimalNeeds {
 
   public static satisfyReproductiveUrge(animal: Animal): void {
     animal.needs.reproductiveUrge = 0;
-    animal.lastReproduction = Date.now();
+    animal.lastReproduction = getSimulationTime();
   }
 }
@@ -22,6 +22,7 @@ import {
   AnimalType,
   AnimalTargetType,
 } from "../../../../../shared/constants/AnimalEnums";
+import { getSimulationTime } from "../../../../../shared/FrameTime";
 
 /**
  * Grid cell size for spatial indexing (256px cells)
@@ -437,7 +438,7 @@ export class AnimalRegistry {
   /**
    * Removes dead animals and cleans up spatial grid
    */
-  public cleanup(now: number = Date.now()): number {
+  public cleanup(now: number = getSimulationTime()): number {
     if (now - this.lastCleanup < this.CLEANUP_INTERVAL) return 0;
     this.lastCleanup = now;
 
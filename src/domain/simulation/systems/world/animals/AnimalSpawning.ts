@@ -11,6 +11,7 @@ import { simulationEvents, GameEventType } from "../../../core/events";
 import { AnimalState } from "../../../../../shared/constants/AnimalEnums";
 import { BiomeType } from "../../../../../shared/constants/BiomeEnums";
 import { RandomUtils } from "@/shared/utils/RandomUtils";
+import { getSimulationTime } from "../../../../../shared/FrameTime";
 
 export class AnimalSpawning {
   private static nextAnimalId = 1;
@@ -142,7 +143,7 @@ export class AnimalSpawning {
     }
 
     const id = `animal_${type}_${this.nextAnimalId++}`;
-    const now = Date.now();
+    const now = getSimulationTime();
     const animalGenes = genes || AnimalGenetics.generateRandomGenes();
 
     const animal: Animal = {
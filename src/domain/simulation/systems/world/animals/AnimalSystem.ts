@@ -13,8 +13,12 @@ import { AnimalSpawning } from "./AnimalSpawning";
 import { simulationEvents, GameEventType } from "../../../core/events";
 import type { WorldResourceSystem } from "../WorldResourceSystem";
 import type { TerrainSystem } from "../TerrainSystem";
+import type { TimeSystem } from "../../core/TimeSystem";
 import { AnimalBatchProcessor } from "./AnimalBatchProcessor";
-import { getFrameTime } from "../../../../../shared/FrameTime";
+import {
+  getFrameTime,
+  getSimulationTime,
+} from "../../../../../shared/FrameTime";
 import { performance } from "node:perf_hooks";
 import { performanceMonitor } from "../../../core/PerformanceMonitor";
 import { SIMULATION_CONSTANTS } from "../../../../../shared/constants/SimulationConstants";
@@ -60,7 +64,7 @@ export class AnimalSystem {
   @optional()
   private agentRegistry?: AgentRegistry;
 
-  private lastCleanup = Date.now();
+  private lastCleanup = getSimulationTime();
 
   private resourceSearchCache = new Map<
     string,
@@ -139,6 +143,10 @@ export class AnimalSystem {
   @optional()
   private dirtyTracker?: StateDirtyTracker;
 
+  @inject(TYPES.TimeSystem as symbol)
+  @optional()
+  private timeSystem?: TimeSystem;
+
   constructor() {
     this.config = DEFAULT_CONFIG;
 
@@ -557,8 +565,8 @@ export class AnimalSystem {
           if (canForage) {
             animal.state = AnimalState.EATING;
             if (!animal.stateEndTime) {
-              animal.stateEndTime = Date.now() + 2000;
-            } else if (Date.now() > animal.stateEndTime) {
+              animal.stateEndTime = getSimulationTime() + 2000;
+            } else if (getSimulationTime() > animal.stateEndTime) {
               if (
                 terrainType === TileType.TERRAIN_GRASSLAND &&
                 this.terrainSystem
@@ -609,8 +617,8 @@ export class AnimalSystem {
         } else {
           animal.state = AnimalState.DRINKING;
           if (!animal.stateEndTime) {
-            animal.stateEndTime = Date.now() + 2000;
-          } else if (Date.now() > animal.stateEndTime) {
+            animal.stateEndTime = getSimulationTime() + 2000;
+          } else if (getSimulationTime() > animal.stateEndTime) {
             animal.needs.thirst = Math.min(100, animal.needs.thirst + 40);
             animal.state = AnimalState.IDLE;
             animal.stateEndTime = undefined;
@@ -623,8 +631,15 @@ export class AnimalSystem {
     const maturityAge = config.lifespan * 0.2;
     const isMature = animal.age > maturityAge;
     const isHealthyEnough = animal.health > maxHealth * 0.5;
+    const isBreedingSeason =
+      this.timeSystem?.getSeasonEffects().animalBreeding ?? true;
 
-    if (animal.needs.reproductiveUrge > 70 && isMature && isHealthyEnough) {
+    if (
+      animal.needs.reproductiveUrge > 70 &&
+      isMature &&
+      isHealthyEnough &&
+      isBreedingSeason
+    ) {
       animal.state = AnimalState.MATING;
 
       const mates = this.getAnimalsInRadiusCached(
@@ -650,7 +665,7 @@ export class AnimalSystem {
       animal.state === AnimalState.EATING ||
       animal.state === AnimalState.DRINKING
     ) {
-      if (animal.stateEndTime && Date.now() > animal.stateEndTime) {
+      if (animal.stateEndTime && getSimulationTime() > animal.stateEndTime) {
         animal.state = AnimalState.IDLE;
         animal.stateEndTime = undefined;
       }
@@ -952,8 +967,8 @@ export class AnimalSystem {
     if (distance < 40) {
       animal.state = AnimalState.DRINKING;
       if (!animal.stateEndTime) {
-        animal.stateEndTime = Date.now() + 2000;
-      } else if (Date.now() > animal.stateEndTime) {
+        animal.stateEndTime = getSimulationTime() + 2000;
+      } else if (getSimulationTime() > animal.stateEndTime) {
         AnimalNeeds.hydrate(animal, config.waterConsumptionRate * 20);
         animal.state = AnimalState.IDLE;
         animal.stateEndTime = undefined;
@@ -1064,7 +1079,7 @@ export class AnimalSystem {
       };
     }
 
-    const now = Date.now();
+    const now = getSimulationTime();
     if (!this._lastAnimalCountLog || now - this._lastAnimalCountLog > 5000) {
       const totalInRegistry = this.animalRegistry.size;
       logger.info(
@@ -1227,7 +1242,7 @@ export class AnimalSystem {
    * Clean up dead animals via registry
    */
   private cleanupDeadAnimals(): void {
-    const removedCount = this.animalRegistry.cleanup(Date.now());
+    const removedCount = this.animalRegistry.cleanup(getSimulationTime());
     if (removedCount > 0) {
       logger.info(`🧹 Cleaned up ${removedCount} dead animals via registry`);
     }
@@ -1243,7 +1258,7 @@ export class AnimalSystem {
    * Clean caches - removes expired entries AND limits cache size
    */
   private cleanCaches(): void {
-    const now = Date.now();
+    const now = getSimulationTime();
 
     for (const [key, cache] of this.resourceSearchCache.entries()) {
       if (now - cache.timestamp > this.CACHE_DURATION) {
@@ -5,6 +5,7 @@ import {
   ResourceInteractionType,
 } from "../../../../../shared/constants/ResourceEnums";
 import { BiomeType } from "../../../../../shared/constants/BiomeEnums";
+import { FoodId } from "../../../../../shared/constants/FoodEnums";
 import {
   TreeVariant,
   RockVariant,
@@ -228,6 +229,7 @@ export const WORLD_RESOURCE_CONFIGS: Record<string, WorldResourceConfig> = {
         resourceType: ResourceType.FOOD,
         amountMin: 3,
         amountMax: 6,
+        foodId: FoodId.APPLE_PIE,
       },
       depleted: {
         resourceType: ResourceType.FOOD,
@@ -264,6 +266,7 @@ export const WORLD_RESOURCE_CONFIGS: Record<string, WorldResourceConfig> = {
         resourceType: ResourceType.FOOD,
         amountMin: 2,
         amountMax: 5,
+        foodId: FoodId.EGGSALAD,
       },
       depleted: {
         resourceType: ResourceType.FOOD,
@@ -305,6 +308,7 @@ export const WORLD_RESOURCE_CONFIGS: Record<string, WorldResourceConfig> = {
         resourceType: ResourceType.FOOD,
         amountMin: 5,
         amountMax: 10,
+        foodId: FoodId.BREAD,
       },
       depleted: {
         resourceType: ResourceType.FOOD,
@@ -23,6 +23,7 @@ export interface VoronoiRegion {
 }
 
 import { injectable } from "inversify";
+import { getSimulationTime } from "../../../../../shared/FrameTime";
 
 @injectable()
 export class VoronoiGenerator {
@@ -46,7 +47,7 @@ export class VoronoiGenerator {
       return [];
     }
 
-    const rng = seedrandom(seed || `voronoi-${Date.now()}`);
+    const rng = seedrandom(seed || `voronoi-${getSimulationTime()}`);
     const sites = this.poissonDiskSampling(
       width,
       height,
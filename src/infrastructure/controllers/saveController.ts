@@ -1,5 +1,8 @@
 import { Request, Response } from "express";
-import { storageService } from "../services/storage/storageService";
+import {
+  parseSaveTags,
+  storageService,
+} from "../services/storage/storageService";
 import type { SaveData } from "../services/storage/storageService";
 import { logger } from "../utils/logger";
 import { HttpStatusCode } from "../../shared/constants/HttpStatusCodes";
@@ -50,6 +53,9 @@ function validateSaveData(data: unknown): data is SaveData {
  * - Retrieving saves
  * - Saving game state
  * - Deleting saves
+ * - Migrating saves to the current format (dry run by default)
+ * - Naming and tagging saves (exempts them from rotation)
+ * - Comparing two saves
  *
  * All save IDs are sanitized to prevent path traversal attacks.
  */
@@ -135,6 +141,7 @@ export class SaveController {
         success: true,
         saveId: result.saveId,
         size: result.size,
+        rawSize: result.rawSize,
         timestamp: saveData.timestamp,
       });
     } catch (error) {
@@ -182,6 +189,138 @@ export class SaveController {
       });
     }
   }
+
+  /**
+   * Runs the save format migrations on a stored save.
+   *
+   * Body: `{ dryRun?: boolean }`. A dry run (default) only returns the
+   * report; with `dryRun: false` the upgraded save replaces the stored one.
+   * Responds 422 when the save cannot be migrated.
+   */
+  async migrateSave(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const sanitizedId = typeof id === "string" ? sanitizeSaveId(id) : null;
+      if (!sanitizedId) {
+        res.status(HttpStatusCode.BAD_REQUEST).json({
+          error: "Invalid save ID format",
+        });
+        return;
+      }
+
+      const body = req.body as { dryRun?: unknown } | undefined;
+      if (body?.dryRun !== undefined && typeof body.dryRun !== "boolean") {
+        res.status(HttpStatusCode.BAD_REQUEST).json({
+          error: "dryRun must be a boolean",
+        });
+        return;
+      }
+      const dryRun = body?.dryRun ?? true;
+
+      let result: Awaited<ReturnType<typeof storageService.migrateSave>>;
+      try {
+        result = await storageService.migrateSave(sanitizedId);
+      } catch (error) {
+        res.status(HttpStatusCode.UNPROCESSABLE_ENTITY).json({
+          error: error instanceof Error ? error.message : "Migration failed",
+        });
+        return;
+      }
+
+      if (!result) {
+        res.status(HttpStatusCode.NOT_FOUND).json({ error: "Save not found" });
+        return;
+      }
+
+      if (!dryRun) {
+        await storageService.storeMigratedSave(sanitizedId, result.save);
+      }
+
+      res.json({ saveId: sanitizedId, dryRun, report: result.report });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      logger.error("Error migrating save:", errorMessage);
+      res.status(HttpStatusCode.INTERNAL_SERVER_ERROR).json({
+        error: "Failed to migrate save",
+      });
+    }
+  }
+
+  /**
+   * Replaces the name and tags of a save.
+   *
+   * Body: `{ name?: string, tags?: string[] }`. Named or tagged saves are
+   * never rotated out; an empty body returns the save to rotation.
+   */
+  async setSaveTags(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const sanitizedId = typeof id === "string" ? sanitizeSaveId(id) : null;
+      if (!sanitizedId) {
+        res.status(HttpStatusCode.BAD_REQUEST).json({
+          error: "Invalid save ID format",
+        });
+        return;
+      }
+
+      const tags = parseSaveTags(req.body ?? {});
+      if (!tags) {
+        res.status(HttpStatusCode.BAD_REQUEST).json({
+          error: "Invalid save name or tags",
+        });
+        return;
+      }
+
+      const stored = await storageService.setSaveTags(sanitizedId, tags);
+      if (!stored) {
+        res.status(HttpStatusCode.NOT_FOUND).json({ error: "Save not found" });
+        return;
+      }
+
+      res.json({ saveId: sanitizedId, ...stored });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      logger.error("Error tagging save:", errorMessage);
+      res.status(HttpStatusCode.INTERNAL_SERVER_ERROR).json({
+        error: "Failed to tag save",
+      });
+    }
+  }
+
+  /**
+   * Summarises the differences between two saves, `a` being the baseline:
+   * population, resources, buildings, relationships and lineage.
+   */
+  async diffSaves(req: Request, res: Response): Promise<void> {
+    try {
+      const { a, b } = req.params;
+      const idA = typeof a === "string" ? sanitizeSaveId(a) : null;
+      const idB = typeof b === "string" ? sanitizeSaveId(b) : null;
+      if (!idA || !idB) {
+        res.status(HttpStatusCode.BAD_REQUEST).json({
+          error: "Invalid save ID format",
+        });
+        return;
+      }
+
+      const diff = await storageService.diffSaves(idA, idB);
+      if (!diff) {
+        res.status(HttpStatusCode.NOT_FOUND).json({ error: "Save not found" });
+        return;
+      }
+
+      res.json(diff);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      logger.error("Error comparing saves:", errorMessage);
+      res.status(HttpStatusCode.INTERNAL_SERVER_ERROR).json({
+        error: "Failed to compare saves",
+      });
+    }
+  }
 }
 
 export const saveController = new SaveController();
@@ -0,0 +1,74 @@
+import { Request, Response } from "express";
+import { CONFIG } from "../../config/config";
+import { isScenarioId } from "../../domain/simulation/core/scenarios/parseScenario";
+import {
+  listScenarios,
+  loadScenario,
+} from "../../domain/simulation/core/scenarios/scenarioFiles";
+import { logger } from "../utils/logger";
+import { HttpStatusCode } from "../../shared/constants/HttpStatusCodes";
+import type { Scenario } from "../../shared/types/simulation/scenario";
+
+function sendError(res: Response, action: string, error: unknown): void {
+  const errorMessage = error instanceof Error ? error.message : "Unknown error";
+  logger.error(`Error trying to ${action}:`, errorMessage);
+  res.status(HttpStatusCode.INTERNAL_SERVER_ERROR).json({
+    error: `Failed to ${action}`,
+  });
+}
+
+/**
+ * Controller for the scenario catalogue, the scenario files in
+ * `SIMULATION.SCENARIOS_DIR`. Worlds are created from them with
+ * `POST /api/worlds`.
+ */
+export class ScenarioController {
+  /**
+   * Lists the valid scenarios by ID, name and description.
+   */
+  async listScenarios(_req: Request, res: Response): Promise<void> {
+    try {
+      const scenarios = await listScenarios(
+        CONFIG.SIMULATION.SCENARIOS_DIR,
+        (file, error) => {
+          logger.warn(`⚠️ Skipping scenario ${file}: ${error.message}`);
+        },
+      );
+      res.json({ scenarios });
+    } catch (error) {
+      sendError(res, "list scenarios", error);
+    }
+  }
+
+  /**
+   * Returns a scenario in full. Answers 422 when its file is invalid.
+   */
+  async getScenario(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    if (!isScenarioId(id)) {
+      res.status(HttpStatusCode.BAD_REQUEST).json({
+        error: "Invalid scenario ID",
+      });
+      return;
+    }
+
+    let scenario: Scenario | null;
+    try {
+      scenario = await loadScenario(id, CONFIG.SIMULATION.SCENARIOS_DIR);
+    } catch (error) {
+      res.status(HttpStatusCode.UNPROCESSABLE_ENTITY).json({
+        error: error instanceof Error ? error.message : "Invalid scenario",
+      });
+      return;
+    }
+    if (!scenario) {
+      res
+        .status(HttpStatusCode.NOT_FOUND)
+        .json({ error: "Scenario not found" });
+      return;
+    }
+    res.json(scenario);
+  }
+}
+
+export const scenarioController = new ScenarioController();
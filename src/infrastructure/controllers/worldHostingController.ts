@@ -0,0 +1,184 @@
+import { Request, Response } from "express";
+import { worldManager } from "../../domain/simulation/core/index";
+import {
+  DEFAULT_WORLD_ID,
+  parseWorldCreateRequest,
+} from "../../domain/simulation/core/worlds/WorldManager";
+import type { SimulationWorld } from "../../domain/simulation/core/worlds/SimulationWorld";
+import { parseScenario } from "../../domain/simulation/core/scenarios/parseScenario";
+import { loadScenario } from "../../domain/simulation/core/scenarios/scenarioFiles";
+import { CONFIG } from "../../config/config";
+import { logger } from "../utils/logger";
+import { HttpStatusCode } from "../../shared/constants/HttpStatusCodes";
+
+/**
+ * Looks up the world named by `req.params.id`, answering 404 when missing.
+ */
+function findWorld(req: Request, res: Response): SimulationWorld | null {
+  const { id } = req.params;
+  const world = typeof id === "string" ? worldManager.get(id) : undefined;
+  if (!world) {
+    res.status(HttpStatusCode.NOT_FOUND).json({ error: "World not found" });
+    return null;
+  }
+  return world;
+}
+
+function sendError(res: Response, action: string, error: unknown): void {
+  const errorMessage = error instanceof Error ? error.message : "Unknown error";
+  logger.error(`Error trying to ${action}:`, errorMessage);
+  res.status(HttpStatusCode.INTERNAL_SERVER_ERROR).json({
+    error: `Failed to ${action}`,
+  });
+}
+
+/**
+ * Controller for the worlds hosted by this server.
+ *
+ * Each world has its own tick loop and save slot and is streamed at
+ * `/ws/sim/:worldId`. The default world is the one behind `/ws/sim` and
+ * `/api/sim`; it can be paused but not destroyed.
+ */
+export class WorldHostingController {
+  /**
+   * Lists every world, the default one first.
+   */
+  async listWorlds(_req: Request, res: Response): Promise<void> {
+    try {
+      res.json({ worlds: await worldManager.list() });
+    } catch (error) {
+      sendError(res, "list worlds", error);
+    }
+  }
+
+  async getWorld(req: Request, res: Response): Promise<void> {
+    try {
+      const world = findWorld(req, res);
+      if (!world) return;
+      res.json(await world.getInfo());
+    } catch (error) {
+      sendError(res, "get world", error);
+    }
+  }
+
+  /**
+   * Creates a world from `{ id?, seed?, deterministic?, scenario? }` and
+   * answers once its simulation is running. `scenario` is the ID of a
+   * catalogued scenario or an inline one; a `seed` overrides the scenario's.
+   * A world created with the ID of a destroyed one resumes from its latest
+   * save and ignores the scenario.
+   */
+  async createWorld(req: Request, res: Response): Promise<void> {
+    try {
+      const request = parseWorldCreateRequest(req.body);
+      if (!request) {
+        res.status(HttpStatusCode.BAD_REQUEST).json({
+          error: "Invalid world ID or options",
+        });
+        return;
+      }
+      if (worldManager.has(request.id)) {
+        res.status(HttpStatusCode.CONFLICT).json({
+          error: "World already exists",
+        });
+        return;
+      }
+      if (!worldManager.hasCapacity()) {
+        res.status(HttpStatusCode.SERVICE_UNAVAILABLE).json({
+          error: "World limit reached",
+        });
+        return;
+      }
+      if (request.scenario !== undefined) {
+        try {
+          const scenario =
+            typeof request.scenario === "string"
+              ? await loadScenario(
+                  request.scenario,
+                  CONFIG.SIMULATION.SCENARIOS_DIR,
+                )
+              : parseScenario(request.scenario);
+          if (!scenario) {
+            res.status(HttpStatusCode.NOT_FOUND).json({
+              error: "Scenario not found",
+            });
+            return;
+          }
+          request.options.scenario = scenario;
+        } catch (error) {
+          res.status(HttpStatusCode.BAD_REQUEST).json({
+            error: error instanceof Error ? error.message : "Invalid scenario",
+          });
+          return;
+        }
+      }
+
+      const info = await worldManager.create(request.id, request.options);
+      res.status(HttpStatusCode.CREATED).json(info);
+    } catch (error) {
+      sendError(res, "create world", error);
+    }
+  }
+
+  async pauseWorld(req: Request, res: Response): Promise<void> {
+    try {
+      const world = findWorld(req, res);
+      if (!world) return;
+      const paused = await world.pause();
+      res.json({ paused, world: await world.getInfo() });
+    } catch (error) {
+      sendError(res, "pause world", error);
+    }
+  }
+
+  async resumeWorld(req: Request, res: Response): Promise<void> {
+    try {
+      const world = findWorld(req, res);
+      if (!world) return;
+      const resumed = await world.resume();
+      res.json({ resumed, world: await world.getInfo() });
+    } catch (error) {
+      sendError(res, "resume world", error);
+    }
+  }
+
+  /**
+   * Writes a save to the world's own save slot.
+   */
+  async saveWorld(req: Request, res: Response): Promise<void> {
+    try {
+      const world = findWorld(req, res);
+      if (!world) return;
+      await world.save();
+      res.json({ success: true });
+    } catch (error) {
+      sendError(res, "save world", error);
+    }
+  }
+
+  /**
+   * Saves and stops a world, closing its streams. Its saves are kept.
+   */
+  async destroyWorld(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      if (id === DEFAULT_WORLD_ID) {
+        res.status(HttpStatusCode.CONFLICT).json({
+          error: "The default world cannot be destroyed",
+        });
+        return;
+      }
+      const destroyed =
+        typeof id === "string" && (await worldManager.destroy(id));
+      if (!destroyed) {
+        res.status(HttpStatusCode.NOT_FOUND).json({ error: "World not found" });
+        return;
+      }
+      res.json({ success: true });
+    } catch (error) {
+      sendError(res, "destroy world", error);
+    }
+  }
+}
+
+export const worldHostingController = new WorldHostingController();
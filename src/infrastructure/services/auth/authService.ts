@@ -0,0 +1,363 @@
+import {
+  createHash,
+  createHmac,
+  randomBytes,
+  timingSafeEqual,
+} from "node:crypto";
+import { CONFIG } from "../../../config/config";
+import { logger } from "../../utils/logger";
+import { AuthErrorCode, Role } from "../../../shared/constants/AuthEnums";
+import type {
+  AuthError,
+  AuthIdentity,
+  AuthResult,
+  TokenResult,
+} from "../../../shared/types/auth";
+
+/**
+ * A static API key and the role it grants.
+ */
+export interface ApiKey {
+  /** Name the key's holder is known by (token subject, logs) */
+  name: string;
+  role: Role;
+  key: string;
+}
+
+/**
+ * Settings of an {@link AuthService}.
+ */
+export interface AuthOptions {
+  /** When false every client acts as admin */
+  enabled: boolean;
+  apiKeys: ApiKey[];
+  /** HMAC secret session tokens are signed with */
+  tokenSecret: string;
+  /** Longest lifetime of a session token */
+  tokenTtlSeconds: number;
+  /** Role of clients without credentials, null to require them */
+  anonymousRole: Role | null;
+}
+
+/** Roles in ascending order of privilege */
+const ROLE_ORDER: readonly Role[] = [Role.SPECTATOR, Role.PLAYER, Role.ADMIN];
+
+/** API keys shorter than this are rejected as guessable */
+const MIN_API_KEY_LENGTH = 16;
+
+/** Prefix of session tokens, which tells them apart from API keys */
+const TOKEN_VERSION = "v1";
+
+const ANONYMOUS = "anonymous";
+
+export function isRole(value: unknown): value is Role {
+  return ROLE_ORDER.includes(value as Role);
+}
+
+/**
+ * Whether a role may do what the required role may.
+ *
+ * @param role - Role of the client, null when it has none
+ * @param required - Least role allowed
+ */
+export function hasRole(role: Role | null, required: Role): boolean {
+  return (
+    role !== null && ROLE_ORDER.indexOf(role) >= ROLE_ORDER.indexOf(required)
+  );
+}
+
+/**
+ * Parses the API keys of `AUTH_API_KEYS`: comma-separated `name:role:key`
+ * entries.
+ *
+ * @throws Error on a malformed entry, unknown role, short or repeated key.
+ * Messages name the entry, never the key.
+ */
+export function parseApiKeys(value: string): ApiKey[] {
+  const keys: ApiKey[] = [];
+  for (const entry of value.split(",")) {
+    if (entry.trim().length === 0) continue;
+    const [name, role, ...rest] = entry.trim().split(":");
+    const key = rest.join(":");
+    if (!name || !role || !key) {
+      throw new Error(
+        `Invalid AUTH_API_KEYS entry "${name ?? ""}": expected name:role:key`,
+      );
+    }
+    if (!isRole(role)) {
+      throw new Error(
+        `Invalid AUTH_API_KEYS entry "${name}": role must be one of ${ROLE_ORDER.join(", ")}`,
+      );
+    }
+    if (key.length < MIN_API_KEY_LENGTH) {
+      throw new Error(
+        `Invalid AUTH_API_KEYS entry "${name}": key must be at least ${MIN_API_KEY_LENGTH} characters`,
+      );
+    }
+    if (keys.some((k) => k.key === key || k.name === name)) {
+      throw new Error(`Invalid AUTH_API_KEYS entry "${name}": repeated`);
+    }
+    keys.push({ name, role, key });
+  }
+  return keys;
+}
+
+/**
+ * Parses `AUTH_ANONYMOUS_ROLE`: a role, or "none".
+ *
+ * @throws Error on an unknown role
+ */
+export function parseAnonymousRole(value: string): Role | null {
+  if (value === "none") return null;
+  if (!isRole(value)) {
+    throw new Error(
+      `Invalid AUTH_ANONYMOUS_ROLE "${value}": must be none or one of ${ROLE_ORDER.join(", ")}`,
+    );
+  }
+  return value;
+}
+
+/**
+ * Settings from `CONFIG.AUTH`. Without `AUTH_TOKEN_SECRET` tokens are signed
+ * with a random secret and stop being valid when the process restarts.
+ */
+export function authOptionsFromConfig(): AuthOptions {
+  const enabled = CONFIG.AUTH.ENABLED;
+  if (enabled && !CONFIG.AUTH.TOKEN_SECRET) {
+    logger.info(
+      "🔑 AUTH_TOKEN_SECRET not set: session tokens last until the server restarts",
+    );
+  }
+  return {
+    enabled,
+    apiKeys: parseApiKeys(CONFIG.AUTH.API_KEYS),
+    tokenSecret:
+      CONFIG.AUTH.TOKEN_SECRET ?? randomBytes(32).toString("base64url"),
+    tokenTtlSeconds: CONFIG.AUTH.TOKEN_TTL_SECONDS,
+    anonymousRole: parseAnonymousRole(CONFIG.AUTH.ANONYMOUS_ROLE),
+  };
+}
+
+function sha256(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+function fail(code: AuthErrorCode, message: string): AuthResult {
+  return { ok: false, error: { code, message } };
+}
+
+/**
+ * Authenticates API clients and checks their roles.
+ *
+ * Clients present either a static API key or a session token. Tokens are
+ * `v1.<payload>.<signature>`: a base64url JSON payload `{ sub, role, exp }`
+ * signed with HMAC-SHA256, so they are checked without any server-side
+ * session store. Clients holding a key or a token may issue tokens for
+ * their own role or a lower one, e.g. to hand a browser a short-lived
+ * spectator token instead of the key.
+ *
+ * Roles are ordered spectator < player < admin; what each route and
+ * command requires is decided by the callers.
+ */
+export class AuthService {
+  private readonly keyDigests: { entry: ApiKey; digest: Buffer }[];
+
+  constructor(private readonly options: AuthOptions = authOptionsFromConfig()) {
+    this.keyDigests = options.apiKeys.map((entry) => ({
+      entry,
+      digest: sha256(entry.key),
+    }));
+  }
+
+  /** Whether credentials are checked at all */
+  get enabled(): boolean {
+    return this.options.enabled;
+  }
+
+  /**
+   * Establishes who a client is from its credential.
+   *
+   * @param credential - API key or session token; undefined when the client
+   * sent none
+   * @param now - Current time, ms since epoch
+   * @returns The identity, or why the credential was rejected. Missing
+   * credentials are not an error: the client gets the anonymous role.
+   */
+  authenticate(credential: string | undefined, now = Date.now()): AuthResult {
+    if (!this.options.enabled) {
+      return {
+        ok: true,
+        identity: { subject: ANONYMOUS, role: Role.ADMIN, method: "anonymous" },
+      };
+    }
+    if (!credential) {
+      return {
+        ok: true,
+        identity: {
+          subject: ANONYMOUS,
+          role: this.options.anonymousRole,
+          method: "anonymous",
+        },
+      };
+    }
+    if (credential.startsWith(`${TOKEN_VERSION}.`)) {
+      return this.verifyToken(credential, now);
+    }
+
+    const key = this.findApiKey(credential);
+    if (!key) return fail(AuthErrorCode.INVALID_CREDENTIALS, "Invalid API key");
+    return {
+      ok: true,
+      identity: { subject: key.name, role: key.role, method: "api_key" },
+    };
+  }
+
+  /**
+   * Checks that an identity may do something that requires a role. Token
+   * expiry is checked here too, so long-lived WebSocket connections lose
+   * their rights when their token expires.
+   *
+   * @returns null when allowed, otherwise why not
+   */
+  authorize(
+    identity: AuthIdentity,
+    required: Role,
+    now = Date.now(),
+  ): AuthError | null {
+    if (identity.expiresAt !== undefined && now >= identity.expiresAt) {
+      return { code: AuthErrorCode.TOKEN_EXPIRED, message: "Token expired" };
+    }
+    if (hasRole(identity.role, required)) return null;
+    if (identity.role === null) {
+      return {
+        code: AuthErrorCode.UNAUTHENTICATED,
+        message: "Authentication required",
+        requiredRole: required,
+      };
+    }
+    return {
+      code: AuthErrorCode.FORBIDDEN,
+      message: `Requires the ${required} role`,
+      requiredRole: required,
+    };
+  }
+
+  /**
+   * Issues a session token to an authenticated client.
+   *
+   * @param identity - Client asking for the token
+   * @param role - Role of the token (default: the client's); never above it
+   * @param ttlSeconds - Lifetime, capped at `AUTH_TOKEN_TTL_SECONDS` and at
+   * the expiry of the client's own token
+   * @param now - Current time, ms since epoch
+   */
+  issueToken(
+    identity: AuthIdentity,
+    role: Role | null = identity.role,
+    ttlSeconds = this.options.tokenTtlSeconds,
+    now = Date.now(),
+  ): TokenResult {
+    if (identity.method === "anonymous" || identity.role === null) {
+      return {
+        ok: false,
+        error: {
+          code: AuthErrorCode.UNAUTHENTICATED,
+          message: "An API key or token is required to issue tokens",
+        },
+      };
+    }
+    if (role === null || !hasRole(identity.role, role)) {
+      return {
+        ok: false,
+        error: {
+          code: AuthErrorCode.FORBIDDEN,
+          message: `Cannot issue a token above the ${identity.role} role`,
+          requiredRole: role ?? undefined,
+        },
+      };
+    }
+
+    const ttlMs =
+      Math.min(Math.max(1, ttlSeconds), this.options.tokenTtlSeconds) * 1000;
+    const expiresAt = Math.min(now + ttlMs, identity.expiresAt ?? Infinity);
+    const payload = Buffer.from(
+      JSON.stringify({ sub: identity.subject, role, exp: expiresAt }),
+    ).toString("base64url");
+    return {
+      ok: true,
+      session: {
+        token: `${TOKEN_VERSION}.${payload}.${this.sign(payload)}`,
+        subject: identity.subject,
+        role,
+        expiresAt,
+      },
+    };
+  }
+
+  private verifyToken(token: string, now: number): AuthResult {
+    const [, payload, signature, ...extra] = token.split(".");
+    if (!payload || !signature || extra.length > 0) {
+      return fail(AuthErrorCode.INVALID_CREDENTIALS, "Malformed token");
+    }
+
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    if (
+      expected.length !== actual.length ||
+      !timingSafeEqual(expected, actual)
+    ) {
+      return fail(AuthErrorCode.INVALID_CREDENTIALS, "Invalid token signature");
+    }
+
+    let claims: { sub?: unknown; role?: unknown; exp?: unknown };
+    try {
+      claims = JSON.parse(
+        Buffer.from(payload, "base64url").toString("utf8"),
+      ) as typeof claims;
+    } catch {
+      return fail(AuthErrorCode.INVALID_CREDENTIALS, "Malformed token");
+    }
+    if (
+      typeof claims.sub !== "string" ||
+      !isRole(claims.role) ||
+      typeof claims.exp !== "number"
+    ) {
+      return fail(AuthErrorCode.INVALID_CREDENTIALS, "Malformed token");
+    }
+    if (now >= claims.exp) {
+      return fail(AuthErrorCode.TOKEN_EXPIRED, "Token expired");
+    }
+
+    return {
+      ok: true,
+      identity: {
+        subject: claims.sub,
+        role: claims.role,
+        method: "token",
+        expiresAt: claims.exp,
+      },
+    };
+  }
+
+  private sign(payload: string): string {
+    return createHmac("sha256", this.options.tokenSecret)
+      .update(`${TOKEN_VERSION}.${payload}`)
+      .digest("base64url");
+  }
+
+  /**
+   * Finds the key matching a credential. Digests of equal length are
+   * compared in constant time, and every key is compared, so timing does
+   * not reveal which keys exist.
+   */
+  private findApiKey(credential: string): ApiKey | null {
+    const digest = sha256(credential);
+    let found: ApiKey | null = null;
+    for (const { entry, digest: keyDigest } of this.keyDigests) {
+      if (timingSafeEqual(digest, keyDigest)) found = entry;
+    }
+    return found;
+  }
+}
+
+export const authService = new AuthService();
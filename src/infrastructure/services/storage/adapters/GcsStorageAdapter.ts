@@ -0,0 +1,77 @@
+import type { Bucket } from "@google-cloud/storage";
+import type { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { StorageType } from "../../../../shared/constants/StatusEnums";
+import type { SaveStorageAdapter, StoredObject } from "./SaveStorageAdapter";
+
+/**
+ * Stores each object in a Google Cloud Storage bucket.
+ */
+export class GcsStorageAdapter implements SaveStorageAdapter {
+  public readonly type = StorageType.GCS;
+
+  constructor(private readonly bucket: Bucket) {}
+
+  async checkHealth(): Promise<void> {
+    await this.bucket.exists();
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const [files] = await this.bucket.getFiles({ prefix });
+    return Promise.all(
+      files.map(async (file) => {
+        const [metadata] = await file.getMetadata();
+        return {
+          key: file.name,
+          size: Number.parseInt(String(metadata.size ?? "0"), 10),
+          modified: new Date(metadata.updated ?? 0),
+        };
+      }),
+    );
+  }
+
+  async read(key: string): Promise<string | null> {
+    const content = await this.readBuffer(key);
+    return content ? content.toString() : null;
+  }
+
+  async readBuffer(key: string): Promise<Buffer | null> {
+    const file = this.bucket.file(key);
+    const [exists] = await file.exists();
+    if (!exists) return null;
+
+    const [content] = await file.download();
+    return content;
+  }
+
+  async write(key: string, content: string): Promise<number> {
+    const file = this.bucket.file(key);
+    await file.save(content, {
+      contentType: "application/json",
+      metadata: { cacheControl: "no-cache" },
+    });
+    const [metadata] = await file.getMetadata();
+    return Number.parseInt(String(metadata.size ?? "0"), 10);
+  }
+
+  async writeStream(key: string, content: Readable): Promise<number> {
+    const file = this.bucket.file(key);
+    await pipeline(
+      content,
+      file.createWriteStream({
+        contentType: "application/octet-stream",
+        metadata: { cacheControl: "no-cache" },
+      }),
+    );
+    const [metadata] = await file.getMetadata();
+    return Number.parseInt(String(metadata.size ?? "0"), 10);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const file = this.bucket.file(key);
+    const [exists] = await file.exists();
+    if (!exists) return false;
+    await file.delete();
+    return true;
+  }
+}
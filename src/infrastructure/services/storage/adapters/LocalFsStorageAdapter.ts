@@ -0,0 +1,105 @@
+import fs from "fs/promises";
+import { createWriteStream } from "fs";
+import path from "path";
+import type { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { logger } from "@/infrastructure/utils/logger";
+import { StorageType } from "../../../../shared/constants/StatusEnums";
+import type { SaveStorageAdapter, StoredObject } from "./SaveStorageAdapter";
+
+/**
+ * Stores each object as a file in a local directory.
+ */
+export class LocalFsStorageAdapter implements SaveStorageAdapter {
+  public readonly type = StorageType.LOCAL;
+
+  constructor(private readonly directory: string) {}
+
+  async checkHealth(): Promise<void> {
+    await this.ensureDir();
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    await this.ensureDir();
+    const files = await fs.readdir(this.directory);
+    return Promise.all(
+      files
+        .filter((filename) => filename.startsWith(prefix))
+        .map(async (filename) => {
+          const stat = await fs.stat(this.resolve(filename));
+          return { key: filename, size: stat.size, modified: stat.mtime };
+        }),
+    );
+  }
+
+  async read(key: string): Promise<string | null> {
+    try {
+      return await fs.readFile(this.resolve(key), "utf-8");
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async readBuffer(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async write(key: string, content: string): Promise<number> {
+    await this.ensureDir();
+    const filepath = this.resolve(key);
+    await fs.writeFile(filepath, content, "utf-8");
+    const stat = await fs.stat(filepath);
+    return stat.size;
+  }
+
+  async writeStream(key: string, content: Readable): Promise<number> {
+    await this.ensureDir();
+    const filepath = this.resolve(key);
+    // Write next to the target and rename, so readers never see half a file
+    const partialPath = `${filepath}.partial`;
+    try {
+      await pipeline(content, createWriteStream(partialPath));
+      await fs.rename(partialPath, filepath);
+    } catch (error) {
+      await fs.rm(partialPath, { force: true });
+      throw error;
+    }
+    const stat = await fs.stat(filepath);
+    return stat.size;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.resolve(key));
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) return false;
+      throw error;
+    }
+  }
+
+  private resolve(key: string): string {
+    return path.join(this.directory, path.basename(key));
+  }
+
+  private async ensureDir(): Promise<void> {
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+    } catch (error) {
+      logger.debug(
+        `Failed to create local saves directory ${this.directory}:`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException | null)?.code === "ENOENT";
+}
@@ -0,0 +1,55 @@
+import type { Readable } from "stream";
+import type { StorageType } from "../../../../shared/constants/StatusEnums";
+import type { SaveStorageAdapter, StoredObject } from "./SaveStorageAdapter";
+
+/**
+ * Keeps a separate set of objects inside another backend by prefixing every
+ * key with a namespace, e.g. `world_arena.save_1700000000000.json`.
+ *
+ * Keys seen by the caller never include the namespace, so a storage service
+ * on top of it behaves as if it owned the whole backend. Namespaces must not
+ * start with a prefix the service lists (`save_`, `journal_`...), otherwise
+ * an unprefixed service would see the namespaced objects.
+ */
+export class NamespacedStorageAdapter implements SaveStorageAdapter {
+  constructor(
+    private readonly inner: SaveStorageAdapter,
+    public readonly namespace: string,
+  ) {}
+
+  get type(): StorageType {
+    return this.inner.type;
+  }
+
+  checkHealth(): Promise<void> {
+    return this.inner.checkHealth();
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const objects = await this.inner.list(this.namespace + prefix);
+    return objects.map((object) => ({
+      ...object,
+      key: object.key.slice(this.namespace.length),
+    }));
+  }
+
+  read(key: string): Promise<string | null> {
+    return this.inner.read(this.namespace + key);
+  }
+
+  readBuffer(key: string): Promise<Buffer | null> {
+    return this.inner.readBuffer(this.namespace + key);
+  }
+
+  write(key: string, content: string): Promise<number> {
+    return this.inner.write(this.namespace + key, content);
+  }
+
+  writeStream(key: string, content: Readable): Promise<number> {
+    return this.inner.writeStream(this.namespace + key, content);
+  }
+
+  delete(key: string): Promise<boolean> {
+    return this.inner.delete(this.namespace + key);
+  }
+}
@@ -0,0 +1,147 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadBucketCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  paginateListObjectsV2,
+  type S3Client,
+} from "@aws-sdk/client-s3";
+import { Upload } from "@aws-sdk/lib-storage";
+import { Readable } from "stream";
+import { StorageType } from "../../../../shared/constants/StatusEnums";
+import type { SaveStorageAdapter, StoredObject } from "./SaveStorageAdapter";
+
+/** Minimum size of every multipart upload part but the last one */
+const MULTIPART_PART_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Stores each object in an S3-compatible bucket (AWS S3, MinIO, R2...).
+ */
+export class S3StorageAdapter implements SaveStorageAdapter {
+  public readonly type = StorageType.S3;
+
+  constructor(
+    private readonly client: S3Client,
+    private readonly bucket: string,
+  ) {}
+
+  async checkHealth(): Promise<void> {
+    await this.client.send(new HeadBucketCommand({ Bucket: this.bucket }));
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+    const pages = paginateListObjectsV2(
+      { client: this.client },
+      { Bucket: this.bucket, Prefix: prefix },
+    );
+    for await (const page of pages) {
+      for (const object of page.Contents ?? []) {
+        objects.push({
+          key: object.Key ?? "",
+          size: object.Size ?? 0,
+          modified: object.LastModified ?? new Date(0),
+        });
+      }
+    }
+    return objects;
+  }
+
+  async read(key: string): Promise<string | null> {
+    const content = await this.readBuffer(key);
+    return content ? content.toString("utf-8") : null;
+  }
+
+  async readBuffer(key: string): Promise<Buffer | null> {
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+      );
+      if (!response.Body) return Buffer.alloc(0);
+      return Buffer.from(await response.Body.transformToByteArray());
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async write(key: string, content: string): Promise<number> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: content,
+        ContentType: "application/json",
+        CacheControl: "no-cache",
+      }),
+    );
+    return Buffer.byteLength(content, "utf-8");
+  }
+
+  /**
+   * Uploads streams up to one part with a single PUT, larger ones with a
+   * multipart upload that is aborted if the stream fails.
+   */
+  async writeStream(key: string, content: Readable): Promise<number> {
+    let total = 0;
+    const counted = Readable.from(
+      (async function* (): AsyncGenerator<Buffer> {
+        for await (const chunk of content) {
+          const buffer = Buffer.isBuffer(chunk)
+            ? chunk
+            : Buffer.from(chunk as string);
+          total += buffer.length;
+          yield buffer;
+        }
+      })(),
+    );
+
+    await new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.bucket,
+        Key: key,
+        Body: counted,
+        ContentType: "application/octet-stream",
+        CacheControl: "no-cache",
+      },
+      partSize: MULTIPART_PART_SIZE,
+      leavePartsOnError: false,
+    }).done();
+    return total;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    // DELETE succeeds on missing keys, so check existence first
+    try {
+      await this.client.send(
+        new HeadObjectCommand({ Bucket: this.bucket, Key: key }),
+      );
+    } catch (error) {
+      if (isNotFound(error)) return false;
+      throw error;
+    }
+
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: key }),
+    );
+    return true;
+  }
+}
+
+/**
+ * Whether an S3 error means the object does not exist. HEAD responses have
+ * no body, so only their status tells.
+ */
+function isNotFound(error: unknown): boolean {
+  const { name, $metadata } = error as {
+    name?: string;
+    $metadata?: { httpStatusCode?: number };
+  };
+  return (
+    name === "NoSuchKey" ||
+    name === "NotFound" ||
+    $metadata?.httpStatusCode === 404
+  );
+}
@@ -0,0 +1,73 @@
+import type { Readable } from "stream";
+import type { StorageType } from "../../../../shared/constants/StatusEnums";
+
+/**
+ * Metadata of one object held by a storage backend.
+ */
+export interface StoredObject {
+  /** Object name, e.g. `save_1700000000000.json` */
+  key: string;
+  /** Size in bytes */
+  size: number;
+  /** Last modification time */
+  modified: Date;
+}
+
+/**
+ * Key/value backend behind `StorageService`.
+ *
+ * Adapters only move objects around; save naming, encoding, rotation and
+ * NAS backups live in the service, so every backend behaves the same.
+ * Missing objects are reported with `null`/`false`; any other failure throws.
+ */
+export interface SaveStorageAdapter {
+  readonly type: StorageType;
+
+  /**
+   * Checks that the backend is reachable, creating its container (directory,
+   * table...) when possible.
+   */
+  checkHealth(): Promise<void>;
+
+  /**
+   * Lists the objects whose key starts with `prefix`.
+   */
+  list(prefix: string): Promise<StoredObject[]>;
+
+  /**
+   * Reads an object.
+   *
+   * @returns The content, or null if the object does not exist
+   */
+  read(key: string): Promise<string | null>;
+
+  /**
+   * Reads a binary object.
+   *
+   * @returns The content, or null if the object does not exist
+   */
+  readBuffer(key: string): Promise<Buffer | null>;
+
+  /**
+   * Creates or replaces a text object.
+   *
+   * @returns Stored size in bytes
+   */
+  write(key: string, content: string): Promise<number>;
+
+  /**
+   * Creates or replaces a binary object from a stream, uploading it in
+   * chunks where the backend allows it. The object only becomes visible
+   * once the stream ends.
+   *
+   * @returns Stored size in bytes
+   */
+  writeStream(key: string, content: Readable): Promise<number>;
+
+  /**
+   * Deletes an object.
+   *
+   * @returns False if the object did not exist
+   */
+  delete(key: string): Promise<boolean>;
+}
@@ -0,0 +1,149 @@
+import fs from "fs/promises";
+import path from "path";
+import type { Database as SqliteDatabase } from "better-sqlite3";
+import type { Readable } from "stream";
+import { StorageType } from "../../../../shared/constants/StatusEnums";
+import type { SaveStorageAdapter, StoredObject } from "./SaveStorageAdapter";
+
+/**
+ * Stores every object as a row of a single SQLite database file.
+ *
+ * Uses `better-sqlite3`, loaded on first use so other backends keep working
+ * where its native binding could not be built.
+ */
+export class SqliteStorageAdapter implements SaveStorageAdapter {
+  public readonly type = StorageType.SQLITE;
+  private db: Promise<SqliteDatabase> | null = null;
+
+  constructor(private readonly filePath: string) {}
+
+  async checkHealth(): Promise<void> {
+    const db = await this.getDb();
+    db.prepare("SELECT 1").get();
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const db = await this.getDb();
+    const rows = db
+      .prepare<
+        [number, string],
+        { key: string; size: number; modified: number }
+      >("SELECT key, size, modified FROM objects WHERE substr(key, 1, ?) = ?")
+      .all(prefix.length, prefix);
+    return rows.map((row) => ({
+      key: String(row.key),
+      size: Number(row.size),
+      modified: new Date(Number(row.modified)),
+    }));
+  }
+
+  async read(key: string): Promise<string | null> {
+    const db = await this.getDb();
+    const row = db
+      .prepare<[string], { content: string | Buffer }>(
+        "SELECT content FROM objects WHERE key = ?",
+      )
+      .get(key);
+    return row ? row.content.toString() : null;
+  }
+
+  async readBuffer(key: string): Promise<Buffer | null> {
+    const db = await this.getDb();
+    const row = db
+      .prepare<[string], { content: string | Buffer }>(
+        "SELECT content FROM objects WHERE key = ?",
+      )
+      .get(key);
+    if (!row) return null;
+    return typeof row.content === "string"
+      ? Buffer.from(row.content, "utf-8")
+      : row.content;
+  }
+
+  async write(key: string, content: string): Promise<number> {
+    return this.upsert(key, content, Buffer.byteLength(content, "utf-8"));
+  }
+
+  /**
+   * Rows are written whole, so the stream is collected first.
+   */
+  async writeStream(key: string, content: Readable): Promise<number> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of content) {
+      chunks.push(
+        Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as string),
+      );
+    }
+    const blob = Buffer.concat(chunks);
+    return this.upsert(key, blob, blob.length);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const db = await this.getDb();
+    const result = db.prepare("DELETE FROM objects WHERE key = ?").run(key);
+    return result.changes > 0;
+  }
+
+  /**
+   * Closes the database. The next operation reopens it.
+   */
+  async close(): Promise<void> {
+    if (!this.db) return;
+    const db = await this.db;
+    this.db = null;
+    db.close();
+  }
+
+  private async upsert(
+    key: string,
+    content: string | Buffer,
+    size: number,
+  ): Promise<number> {
+    const db = await this.getDb();
+    db.prepare(
+      `INSERT INTO objects (key, content, size, modified) VALUES (?, ?, ?, ?)
+       ON CONFLICT(key) DO UPDATE SET
+         content = excluded.content,
+         size = excluded.size,
+         modified = excluded.modified`,
+    ).run(key, content, size, Date.now());
+    return size;
+  }
+
+  private getDb(): Promise<SqliteDatabase> {
+    if (!this.db) {
+      this.db = this.open().catch((error: unknown) => {
+        this.db = null;
+        throw error;
+      });
+    }
+    return this.db;
+  }
+
+  private async open(): Promise<SqliteDatabase> {
+    let Database: typeof import("better-sqlite3");
+    try {
+      ({ default: Database } = await import("better-sqlite3"));
+    } catch (error) {
+      throw new Error(
+        `SQLite storage requires the better-sqlite3 native module: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    if (this.filePath !== ":memory:") {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    }
+
+    const db = new Database(this.filePath);
+    db.pragma("journal_mode = WAL");
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS objects (
+        key TEXT PRIMARY KEY,
+        content BLOB NOT NULL,
+        size INTEGER NOT NULL,
+        modified INTEGER NOT NULL
+      );
+    `);
+    return db;
+  }
+}
@@ -0,0 +1,86 @@
+import { Storage } from "@google-cloud/storage";
+import { S3Client } from "@aws-sdk/client-s3";
+import { CONFIG } from "../../../../config/config.js";
+import { logger } from "@/infrastructure/utils/logger";
+import { StorageType } from "../../../../shared/constants/StatusEnums";
+import { GcsStorageAdapter } from "./GcsStorageAdapter";
+import { LocalFsStorageAdapter } from "./LocalFsStorageAdapter";
+import { NamespacedStorageAdapter } from "./NamespacedStorageAdapter";
+import { S3StorageAdapter } from "./S3StorageAdapter";
+import type { SaveStorageAdapter } from "./SaveStorageAdapter";
+import { SqliteStorageAdapter } from "./SqliteStorageAdapter";
+
+export type { SaveStorageAdapter, StoredObject } from "./SaveStorageAdapter";
+export {
+  GcsStorageAdapter,
+  LocalFsStorageAdapter,
+  NamespacedStorageAdapter,
+  S3StorageAdapter,
+  SqliteStorageAdapter,
+};
+
+/**
+ * Builds the storage backend selected by `CONFIG.STORAGE_BACKEND`.
+ *
+ * Without `STORAGE_BACKEND`, keeps the historical behaviour: GCS, or the
+ * local filesystem when `USE_LOCAL_STORAGE` is set or GCS cannot be created.
+ * With `SAVE_NAMESPACE`, every key is prefixed with it.
+ *
+ * @throws Error if `STORAGE_BACKEND` is not a known backend
+ */
+export function createSaveStorageAdapter(): SaveStorageAdapter {
+  const adapter = createBackendAdapter();
+  return CONFIG.SAVE_NAMESPACE
+    ? new NamespacedStorageAdapter(adapter, CONFIG.SAVE_NAMESPACE)
+    : adapter;
+}
+
+function createBackendAdapter(): SaveStorageAdapter {
+  const backend =
+    CONFIG.STORAGE_BACKEND ??
+    (CONFIG.USE_LOCAL_STORAGE ? StorageType.LOCAL : StorageType.GCS);
+
+  switch (backend) {
+    case StorageType.LOCAL:
+      return new LocalFsStorageAdapter(CONFIG.LOCAL_SAVES_PATH);
+    case StorageType.S3:
+      return new S3StorageAdapter(createS3Client(), CONFIG.S3.BUCKET);
+    case StorageType.SQLITE:
+      return new SqliteStorageAdapter(CONFIG.SQLITE.PATH);
+    case StorageType.GCS:
+      try {
+        const storage = new Storage({ projectId: CONFIG.PROJECT_ID });
+        return new GcsStorageAdapter(storage.bucket(CONFIG.BUCKET_NAME));
+      } catch (error) {
+        logger.warn("GCS not available, using local storage", {
+          error: error instanceof Error ? error.message : String(error),
+          projectId: CONFIG.PROJECT_ID,
+          bucketName: CONFIG.BUCKET_NAME,
+        });
+        return new LocalFsStorageAdapter(CONFIG.LOCAL_SAVES_PATH);
+      }
+    default:
+      throw new Error(
+        `Unknown STORAGE_BACKEND "${backend}". Expected one of: ${Object.values(StorageType).join(", ")}`,
+      );
+  }
+}
+
+/**
+ * Builds the S3 client from `CONFIG.S3`. Checksums are only sent and
+ * checked where the operation requires them, since S3-compatible services
+ * (MinIO, R2...) do not all support the SDK's default ones.
+ */
+function createS3Client(): S3Client {
+  return new S3Client({
+    endpoint: CONFIG.S3.ENDPOINT,
+    region: CONFIG.S3.REGION,
+    forcePathStyle: CONFIG.S3.FORCE_PATH_STYLE,
+    credentials: {
+      accessKeyId: CONFIG.S3.ACCESS_KEY_ID,
+      secretAccessKey: CONFIG.S3.SECRET_ACCESS_KEY,
+    },
+    requestChecksumCalculation: "WHEN_REQUIRED",
+    responseChecksumValidation: "WHEN_REQUIRED",
+  });
+}
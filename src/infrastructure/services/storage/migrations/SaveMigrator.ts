@@ -0,0 +1,117 @@
+import type { SaveData } from "../storageService";
+import { validateGameState, type SaveFieldIssue } from "./gameStateSchema";
+
+/**
+ * Upgrades a save from `from` to `from + 1`.
+ *
+ * Migrations receive a deep copy of the parsed save and may mutate it.
+ */
+export interface SaveMigration {
+  from: number;
+  description: string;
+  migrate(save: Record<string, unknown>): Record<string, unknown>;
+}
+
+/**
+ * What happened to a save while loading it.
+ */
+export interface SaveMigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  /** Descriptions of the migrations applied, in order */
+  applied: string[];
+  defaulted: SaveFieldIssue[];
+  dropped: SaveFieldIssue[];
+  /** Whether the save carried a state to validate */
+  hasState: boolean;
+}
+
+/**
+ * Ordered registry of save format migrations.
+ *
+ * Saves without `saveFormatVersion` are version 1. Loading a save runs every
+ * migration from its version up to `currentVersion` and then validates the
+ * state against the current `GameState` shape.
+ */
+export class SaveMigrator {
+  private readonly migrations = new Map<number, SaveMigration>();
+
+  constructor(public readonly currentVersion: number) {}
+
+  /**
+   * Adds a migration.
+   *
+   * @throws Error if a migration already exists for that version or it would
+   * upgrade past the current version
+   */
+  public register(migration: SaveMigration): this {
+    if (migration.from < 1 || migration.from >= this.currentVersion) {
+      throw new Error(
+        `Migration from v${migration.from} is outside 1..${this.currentVersion - 1}`,
+      );
+    }
+    if (this.migrations.has(migration.from)) {
+      throw new Error(`Duplicate migration from v${migration.from}`);
+    }
+    this.migrations.set(migration.from, migration);
+    return this;
+  }
+
+  /**
+   * Upgrades a parsed save to the current format. The input is not modified.
+   *
+   * @throws Error if the save is newer than this server or a migration step
+   * is missing
+   */
+  public migrate(raw: SaveData): {
+    save: SaveData;
+    report: SaveMigrationReport;
+  } {
+    const fromVersion = getSaveFormatVersion(raw);
+    if (fromVersion > this.currentVersion) {
+      throw new Error(
+        `Save format v${fromVersion} is newer than supported v${this.currentVersion}`,
+      );
+    }
+
+    let save = structuredClone(raw) as Record<string, unknown>;
+    const applied: string[] = [];
+    for (let version = fromVersion; version < this.currentVersion; version++) {
+      const migration = this.migrations.get(version);
+      if (!migration) {
+        throw new Error(`No migration registered from save format v${version}`);
+      }
+      save = migration.migrate(save);
+      applied.push(`v${version} → v${version + 1}: ${migration.description}`);
+    }
+    save.saveFormatVersion = this.currentVersion;
+
+    const report: SaveMigrationReport = {
+      fromVersion,
+      toVersion: this.currentVersion,
+      applied,
+      defaulted: [],
+      dropped: [],
+      hasState: save.state !== undefined && save.state !== null,
+    };
+
+    if (report.hasState) {
+      const validation = validateGameState(save.state);
+      save.state = validation.state;
+      report.defaulted = validation.defaulted;
+      report.dropped = validation.dropped;
+    }
+
+    return { save: save as SaveData, report };
+  }
+}
+
+/**
+ * Format version of a parsed save; unversioned saves are version 1.
+ */
+export function getSaveFormatVersion(save: SaveData): number {
+  return typeof save.saveFormatVersion === "number" &&
+    Number.isInteger(save.saveFormatVersion)
+    ? save.saveFormatVersion
+    : 1;
+}
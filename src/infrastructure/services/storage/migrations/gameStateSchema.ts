@@ -0,0 +1,234 @@
+import type { GameState } from "../../../../shared/types/game-types";
+import { createInitialGameState } from "../../../../domain/simulation/core/defaultState";
+
+type ValueKind = "array" | "object" | "number" | "string" | "boolean";
+
+/**
+ * Expected shape of one state field. `fields` lists the sub-fields checked
+ * inside an object; unlisted sub-fields are kept as they are.
+ */
+interface FieldSpec {
+  kind: ValueKind;
+  required?: boolean;
+  fields?: Record<string, FieldSpec>;
+}
+
+/**
+ * A field removed or replaced while validating a save.
+ */
+export interface SaveFieldIssue {
+  /** Dotted path inside the state, e.g. `market.orders` */
+  path: string;
+  reason: string;
+}
+
+export interface GameStateValidation {
+  state: GameState;
+  /** Required fields that were missing or invalid and got a default value */
+  defaulted: SaveFieldIssue[];
+  /** Unknown or invalid optional fields that were removed */
+  dropped: SaveFieldIssue[];
+}
+
+/**
+ * Top-level shape of `GameState`. Typed against `keyof GameState`, so adding
+ * or removing a state field fails to compile until the schema follows.
+ */
+const GAME_STATE_SCHEMA: { [K in keyof GameState]-?: FieldSpec } = {
+  agents: { kind: "array", required: true },
+  entities: { kind: "array", required: true },
+  zones: { kind: "array", required: true },
+  resources: {
+    kind: "object",
+    required: true,
+    fields: { materials: { kind: "object", required: true } },
+  },
+  time: { kind: "number", required: true },
+  dayTime: { kind: "number", required: true },
+  togetherTime: { kind: "number", required: true },
+  cycles: { kind: "number", required: true },
+  weather: { kind: "object", required: true },
+  timeOfDay: { kind: "string" },
+  calendar: { kind: "object" },
+  enhancedCrafting: { kind: "object" },
+  worldResources: { kind: "object" },
+  socialGraph: {
+    kind: "object",
+    fields: {
+      groups: { kind: "array", required: true },
+      relationships: { kind: "object", required: true },
+    },
+  },
+  market: {
+    kind: "object",
+    fields: {
+      orders: { kind: "array", required: true },
+      transactions: { kind: "array", required: true },
+      prices: { kind: "object", required: true },
+      priceHistory: { kind: "object" },
+    },
+  },
+  inventory: { kind: "object" },
+  economy: { kind: "object" },
+  roles: { kind: "object" },
+  legends: {
+    kind: "object",
+    fields: {
+      records: { kind: "object", required: true },
+      activeLegends: { kind: "array", required: true },
+    },
+  },
+  health: {
+    kind: "object",
+    fields: { records: { kind: "object", required: true } },
+  },
+  genealogy: { kind: "object" },
+  governance: { kind: "object" },
+  combatLog: { kind: "array" },
+  resourceAttraction: { kind: "object" },
+  crisisForecast: { kind: "object" },
+  ambientMood: { kind: "object" },
+  dialogueState: { kind: "object" },
+  trade: { kind: "object" },
+  marriage: { kind: "object" },
+  conflicts: { kind: "object" },
+  research: { kind: "object" },
+  divine: { kind: "object" },
+  recipes: { kind: "object" },
+  reputation: { kind: "object" },
+  norms: { kind: "object" },
+  animals: { kind: "object" },
+  knowledgeGraph: { kind: "object" },
+  tasks: { kind: "object" },
+  scenario: { kind: "object" },
+  goals: {
+    kind: "object",
+    fields: {
+      status: { kind: "string", required: true },
+      goals: { kind: "array", required: true },
+    },
+  },
+  resonance: { kind: "number" },
+  lastSave: { kind: "number" },
+  connectionAnimation: { kind: "object" },
+  mapElements: { kind: "array" },
+  mapSeed: { kind: "string" },
+  currentConversation: { kind: "object" },
+  terrainTiles: { kind: "array" },
+  world: { kind: "object" },
+  roads: { kind: "array" },
+  objectLayers: { kind: "array" },
+  worldSize: { kind: "object" },
+  generatorVersion: { kind: "string" },
+  playerLevel: { kind: "number" },
+  exploredBiomes: { kind: "array" },
+  unlockedAssets: { kind: "array" },
+};
+
+/**
+ * Checks a loaded state against the current `GameState` shape.
+ *
+ * Unknown top-level fields and optional fields of the wrong type are dropped.
+ * Missing or invalid required fields take the value of a fresh state
+ * (`createInitialGameState`), or an empty array/object when nested.
+ * The input is not modified.
+ */
+export function validateGameState(raw: unknown): GameStateValidation {
+  const defaulted: SaveFieldIssue[] = [];
+  const dropped: SaveFieldIssue[] = [];
+  const source = isKind(raw, "object") ? raw : {};
+  const defaults = createInitialGameState() as unknown as Record<
+    string,
+    unknown
+  >;
+  const state: Record<string, unknown> = {};
+
+  for (const key of Object.keys(source)) {
+    if (!(key in GAME_STATE_SCHEMA) && source[key] !== undefined) {
+      dropped.push({ path: key, reason: "unknown field" });
+    }
+  }
+
+  for (const [key, spec] of Object.entries(GAME_STATE_SCHEMA)) {
+    const value = checkField(
+      key,
+      source[key],
+      spec,
+      () => structuredClone(defaults[key]),
+      defaulted,
+      dropped,
+    );
+    if (value !== undefined) state[key] = value;
+  }
+
+  return { state: state as unknown as GameState, defaulted, dropped };
+}
+
+function checkField(
+  path: string,
+  value: unknown,
+  spec: FieldSpec,
+  getDefault: () => unknown,
+  defaulted: SaveFieldIssue[],
+  dropped: SaveFieldIssue[],
+): unknown {
+  if (value === undefined || value === null) {
+    if (!spec.required) return undefined;
+    defaulted.push({ path, reason: "missing" });
+    return getDefault();
+  }
+
+  if (!isKind(value, spec.kind)) {
+    const reason = `expected ${spec.kind}, got ${describeKind(value)}`;
+    if (!spec.required) {
+      dropped.push({ path, reason });
+      return undefined;
+    }
+    defaulted.push({ path, reason });
+    return getDefault();
+  }
+
+  if (!spec.fields) return value;
+
+  const checked: Record<string, unknown> = {
+    ...(value as Record<string, unknown>),
+  };
+  for (const [key, fieldSpec] of Object.entries(spec.fields)) {
+    const fieldValue = checkField(
+      `${path}.${key}`,
+      checked[key],
+      fieldSpec,
+      () => (fieldSpec.kind === "array" ? [] : {}),
+      defaulted,
+      dropped,
+    );
+    if (fieldValue === undefined) delete checked[key];
+    else checked[key] = fieldValue;
+  }
+  return checked;
+}
+
+function isKind(
+  value: unknown,
+  kind: "object",
+): value is Record<string, unknown>;
+function isKind(value: unknown, kind: ValueKind): boolean;
+function isKind(value: unknown, kind: ValueKind): boolean {
+  switch (kind) {
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return (
+        typeof value === "object" && value !== null && !Array.isArray(value)
+      );
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    default:
+      return typeof value === kind;
+  }
+}
+
+function describeKind(value: unknown): string {
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
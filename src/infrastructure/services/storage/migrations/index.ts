@@ -0,0 +1,53 @@
+import { SaveMigrator } from "./SaveMigrator";
+
+export {
+  SaveMigrator,
+  getSaveFormatVersion,
+  type SaveMigration,
+  type SaveMigrationReport,
+} from "./SaveMigrator";
+export {
+  validateGameState,
+  type GameStateValidation,
+  type SaveFieldIssue,
+} from "./gameStateSchema";
+
+/**
+ * Format version stamped into every new save. Bump it together with a new
+ * migration in `saveMigrator` whenever `SaveData` or `GameState` changes in a
+ * way old saves cannot be read as-is.
+ */
+export const SAVE_FORMAT_VERSION = 2;
+
+/** Fields of `SaveData` that live next to the state, not inside it */
+const SAVE_METADATA_FIELDS = new Set([
+  "timestamp",
+  "gameTime",
+  "stats",
+  "tick",
+  "clock",
+  "systems",
+  "lineage",
+  "saveFormatVersion",
+]);
+
+/**
+ * Migrations applied when loading saves, one per format version.
+ */
+export const saveMigrator = new SaveMigrator(SAVE_FORMAT_VERSION).register({
+  from: 1,
+  description: "move a flattened state into `state`",
+  // POST /api/sim/save used to spread the GameState into the save root
+  migrate: (save) => {
+    if (save.state !== undefined || !Array.isArray(save.agents)) return save;
+
+    const state: Record<string, unknown> = {};
+    for (const key of Object.keys(save)) {
+      if (SAVE_METADATA_FIELDS.has(key)) continue;
+      state[key] = save[key];
+      delete save[key];
+    }
+    save.state = state;
+    return save;
+  },
+});
@@ -0,0 +1,215 @@
+import { Readable } from "stream";
+import zlib from "zlib";
+import { encode, decode } from "@msgpack/msgpack";
+import {
+  SaveCompression,
+  SaveEncoding,
+} from "../../../shared/constants/StatusEnums";
+
+/**
+ * Encoding and compression a save is written with.
+ */
+export interface SaveFormat {
+  encoding: SaveEncoding;
+  compression: SaveCompression;
+}
+
+/**
+ * A save object key split into its ID and format,
+ * e.g. `save_1700000000000.msgpack.br`.
+ */
+export interface SaveKey extends SaveFormat {
+  id: string;
+  key: string;
+}
+
+const COMPRESSION_EXTENSIONS: Record<SaveCompression, string> = {
+  [SaveCompression.NONE]: "",
+  [SaveCompression.GZIP]: ".gz",
+  [SaveCompression.BROTLI]: ".br",
+};
+
+const SAVE_KEY_PATTERN = /^(save_[^.]+)\.(json|msgpack)(?:\.(gz|br))?$/;
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+/**
+ * Validates the configured save format.
+ *
+ * @throws Error if the encoding or compression is unknown
+ */
+export function resolveSaveFormat(
+  encoding: string | undefined,
+  compression: string | undefined,
+): SaveFormat {
+  const format = {
+    encoding: (encoding ?? SaveEncoding.JSON) as SaveEncoding,
+    compression: (compression ?? SaveCompression.NONE) as SaveCompression,
+  };
+  if (!Object.values(SaveEncoding).includes(format.encoding)) {
+    throw new Error(
+      `Unknown SAVE_ENCODING "${encoding}". Expected one of: ${Object.values(SaveEncoding).join(", ")}`,
+    );
+  }
+  if (!Object.values(SaveCompression).includes(format.compression)) {
+    throw new Error(
+      `Unknown SAVE_COMPRESSION "${compression}". Expected one of: ${Object.values(SaveCompression).join(", ")}`,
+    );
+  }
+  return format;
+}
+
+export function getSaveKey(id: string, format: SaveFormat): string {
+  return `${id}.${format.encoding}${COMPRESSION_EXTENSIONS[format.compression]}`;
+}
+
+/**
+ * Every key a save may be stored under, starting with `preferred`.
+ */
+export function getSaveKeys(id: string, preferred: SaveFormat): string[] {
+  const keys = [getSaveKey(id, preferred)];
+  for (const encoding of Object.values(SaveEncoding)) {
+    for (const compression of Object.values(SaveCompression)) {
+      const key = getSaveKey(id, { encoding, compression });
+      if (!keys.includes(key)) keys.push(key);
+    }
+  }
+  return keys;
+}
+
+export function parseSaveKey(key: string): SaveKey | null {
+  const match = SAVE_KEY_PATTERN.exec(key);
+  if (!match) return null;
+  return {
+    key,
+    id: match[1],
+    encoding: match[2] as SaveEncoding,
+    compression:
+      match[3] === "gz"
+        ? SaveCompression.GZIP
+        : match[3] === "br"
+          ? SaveCompression.BROTLI
+          : SaveCompression.NONE,
+  };
+}
+
+/**
+ * Serializes a save into uncompressed chunks, as compact JSON or MessagePack.
+ *
+ * Runs synchronously and holds the whole payload in memory, so the result is
+ * a snapshot of `save` and callers may keep mutating it afterwards; only
+ * compression and upload are streamed (see {@link createSaveStream}).
+ * MessagePack output is split per top-level field and per `state` section,
+ * which keeps each encoder buffer small; the concatenated chunks are one
+ * valid MessagePack map.
+ */
+export function encodeSave(save: object, encoding: SaveEncoding): Buffer[] {
+  if (encoding === SaveEncoding.JSON) {
+    return [Buffer.from(JSON.stringify(save), "utf-8")];
+  }
+
+  const chunks: Buffer[] = [];
+  encodeMapChunks(save, chunks, ["state"]);
+  return chunks;
+}
+
+/**
+ * Streams encoded chunks through the compressor of `compression`, so the
+ * compressed payload is produced as the storage backend consumes it.
+ */
+export function createSaveStream(
+  chunks: Buffer[],
+  compression: SaveCompression,
+): Readable {
+  const source = Readable.from(chunks);
+  switch (compression) {
+    case SaveCompression.GZIP:
+      return source.pipe(zlib.createGzip());
+    case SaveCompression.BROTLI:
+      return source.pipe(
+        zlib.createBrotliCompress({
+          params: { [zlib.constants.BROTLI_PARAM_QUALITY]: 5 },
+        }),
+      );
+    default:
+      return source;
+  }
+}
+
+/**
+ * Decodes a stored save.
+ *
+ * The compression comes from the key extension; gzip is also detected by its
+ * magic bytes. JSON and MessagePack payloads are told apart by content, so a
+ * mislabelled file still loads.
+ *
+ * @returns The decoded value and the uncompressed payload size in bytes
+ */
+export function decodeSave(
+  content: Buffer,
+  format: SaveFormat,
+): { value: unknown; rawSize: number } {
+  let payload = content;
+  if (
+    format.compression === SaveCompression.GZIP ||
+    (content[0] === GZIP_MAGIC[0] && content[1] === GZIP_MAGIC[1])
+  ) {
+    payload = zlib.gunzipSync(content);
+  } else if (format.compression === SaveCompression.BROTLI) {
+    payload = zlib.brotliDecompressSync(content);
+  }
+
+  const value = looksLikeJson(payload)
+    ? (JSON.parse(payload.toString("utf-8")) as unknown)
+    : decode(payload);
+  return { value, rawSize: payload.length };
+}
+
+function looksLikeJson(payload: Buffer): boolean {
+  for (const byte of payload) {
+    // Skip whitespace; MessagePack maps never start with these bytes
+    if (byte === 0x20 || byte === 0x0a || byte === 0x0d || byte === 0x09) {
+      continue;
+    }
+    return byte === 0x7b; // "{"
+  }
+  return false;
+}
+
+function encodeMapChunks(
+  object: object,
+  chunks: Buffer[],
+  nestedKeys: string[] = [],
+): void {
+  const entries = Object.entries(object).filter(
+    ([, value]) => value !== undefined,
+  );
+  chunks.push(mapHeader(entries.length));
+
+  for (const [key, value] of entries) {
+    chunks.push(Buffer.from(encode(key)));
+    if (
+      nestedKeys.includes(key) &&
+      value !== null &&
+      typeof value === "object" &&
+      !Array.isArray(value)
+    ) {
+      encodeMapChunks(value as object, chunks);
+    } else {
+      chunks.push(Buffer.from(encode(value, { ignoreUndefined: true })));
+    }
+  }
+}
+
+function mapHeader(size: number): Buffer {
+  if (size < 16) return Buffer.from([0x80 | size]);
+  if (size < 0x10000) {
+    const header = Buffer.alloc(3);
+    header[0] = 0xde;
+    header.writeUInt16BE(size, 1);
+    return header;
+  }
+  const header = Buffer.alloc(5);
+  header[0] = 0xdf;
+  header.writeUInt32BE(size, 1);
+  return header;
+}
@@ -0,0 +1,215 @@
+import type { GameState } from "../../../shared/types/game-types";
+import type { SaveData } from "./storageService";
+
+/** Agent IDs listed per side of a population diff, at most */
+const MAX_LISTED_AGENTS = 100;
+
+/**
+ * A value in both saves and how it changed from `a` to `b`.
+ */
+export interface ValueChange {
+  a: number;
+  b: number;
+  delta: number;
+}
+
+/**
+ * How two saves relate in the save tree:
+ * - `same`: both IDs are the same save
+ * - `ancestor`: `a` is in the lineage of `b`
+ * - `descendant`: `b` is in the lineage of `a`
+ * - `forked`: both descend from `commonAncestor`
+ * - `unrelated`: no shared save in their recorded lineages
+ */
+export type SaveRelation =
+  "same" | "ancestor" | "descendant" | "forked" | "unrelated";
+
+/**
+ * Summary of the differences between two saves, `a` being the baseline.
+ */
+export interface SaveDiff {
+  a: string;
+  b: string;
+  tick: ValueChange;
+  population: ValueChange & {
+    /** Living agents in `b` that are not alive in `a` */
+    added: string[];
+    /** Living agents in `a` that are not alive in `b` */
+    removed: string[];
+  };
+  /** Global resource stocks, by resource */
+  resources: Record<string, ValueChange>;
+  /** Finished buildings by type, plus those under construction */
+  buildings: {
+    byType: Record<string, ValueChange>;
+    underConstruction: ValueChange;
+  };
+  relationships: {
+    /** Directed relationship entries in the social graph */
+    links: ValueChange;
+    averageAffinity: ValueChange;
+    marriages: ValueChange;
+  };
+  lineage: {
+    relation: SaveRelation;
+    commonAncestor: string | null;
+    /** Parent-first lineages of each save */
+    a: string[];
+    b: string[];
+  };
+}
+
+/**
+ * Compares two saves already upgraded to the current format.
+ *
+ * @param aId - ID of the baseline save
+ * @param bId - ID of the save compared against it
+ */
+export function diffSaves(
+  aId: string,
+  a: SaveData,
+  bId: string,
+  b: SaveData,
+): SaveDiff {
+  const stateA = (a.state ?? {}) as Partial<GameState>;
+  const stateB = (b.state ?? {}) as Partial<GameState>;
+
+  const livingA = livingAgentIds(stateA);
+  const livingB = livingAgentIds(stateB);
+  const buildingsA = countBuildings(stateA);
+  const buildingsB = countBuildings(stateB);
+  const socialA = summarizeRelationships(stateA);
+  const socialB = summarizeRelationships(stateB);
+
+  return {
+    a: aId,
+    b: bId,
+    tick: change(a.clock?.tick ?? a.tick ?? 0, b.clock?.tick ?? b.tick ?? 0),
+    population: {
+      ...change(livingA.size, livingB.size),
+      added: [...livingB]
+        .filter((id) => !livingA.has(id))
+        .slice(0, MAX_LISTED_AGENTS),
+      removed: [...livingA]
+        .filter((id) => !livingB.has(id))
+        .slice(0, MAX_LISTED_AGENTS),
+    },
+    resources: compareRecords(resourceStocks(stateA), resourceStocks(stateB)),
+    buildings: {
+      byType: compareRecords(buildingsA.byType, buildingsB.byType),
+      underConstruction: change(
+        buildingsA.underConstruction,
+        buildingsB.underConstruction,
+      ),
+    },
+    relationships: {
+      links: change(socialA.links, socialB.links),
+      averageAffinity: change(socialA.averageAffinity, socialB.averageAffinity),
+      marriages: change(socialA.marriages, socialB.marriages),
+    },
+    lineage: compareLineage(aId, a.lineage ?? [], bId, b.lineage ?? []),
+  };
+}
+
+function change(a: number, b: number): ValueChange {
+  return { a, b, delta: b - a };
+}
+
+function compareRecords(
+  a: Record<string, number>,
+  b: Record<string, number>,
+): Record<string, ValueChange> {
+  const result: Record<string, ValueChange> = {};
+  for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    result[key] = change(a[key] ?? 0, b[key] ?? 0);
+  }
+  return result;
+}
+
+function livingAgentIds(state: Partial<GameState>): Set<string> {
+  return new Set(
+    (state.agents ?? [])
+      .filter((agent) => !agent.isDead)
+      .map((agent) => agent.id),
+  );
+}
+
+function resourceStocks(state: Partial<GameState>): Record<string, number> {
+  const resources = state.resources;
+  if (!resources) return {};
+
+  const stocks: Record<string, number> = {};
+  for (const [key, value] of Object.entries(resources.materials ?? {})) {
+    if (typeof value === "number") stocks[key] = value;
+  }
+  if (typeof resources.energy === "number") stocks.energy = resources.energy;
+  if (typeof resources.currency === "number") {
+    stocks.currency = resources.currency;
+  }
+  return stocks;
+}
+
+function countBuildings(state: Partial<GameState>): {
+  byType: Record<string, number>;
+  underConstruction: number;
+} {
+  const byType: Record<string, number> = {};
+  let underConstruction = 0;
+  for (const zone of state.zones ?? []) {
+    const building = zone.metadata?.building;
+    if (typeof building !== "string") continue;
+    if (zone.metadata?.underConstruction === true) {
+      underConstruction++;
+    } else {
+      byType[building] = (byType[building] ?? 0) + 1;
+    }
+  }
+  return { byType, underConstruction };
+}
+
+function summarizeRelationships(state: Partial<GameState>): {
+  links: number;
+  averageAffinity: number;
+  marriages: number;
+} {
+  let links = 0;
+  let total = 0;
+  for (const targets of Object.values(state.socialGraph?.relationships ?? {})) {
+    for (const affinity of Object.values(targets ?? {})) {
+      if (typeof affinity !== "number") continue;
+      links++;
+      total += affinity;
+    }
+  }
+  return {
+    links,
+    averageAffinity: links > 0 ? total / links : 0,
+    marriages: state.marriage?.groups?.length ?? 0,
+  };
+}
+
+function compareLineage(
+  aId: string,
+  aLineage: string[],
+  bId: string,
+  bLineage: string[],
+): SaveDiff["lineage"] {
+  const lineage = { a: aLineage, b: bLineage };
+  if (aId === bId) {
+    return { relation: "same", commonAncestor: aId, ...lineage };
+  }
+  if (bLineage.includes(aId)) {
+    return { relation: "ancestor", commonAncestor: aId, ...lineage };
+  }
+  if (aLineage.includes(bId)) {
+    return { relation: "descendant", commonAncestor: bId, ...lineage };
+  }
+
+  const inB = new Set(bLineage);
+  const common = aLineage.find((id) => inB.has(id)) ?? null;
+  return {
+    relation: common ? "forked" : "unrelated",
+    commonAncestor: common,
+    ...lineage,
+  };
+}
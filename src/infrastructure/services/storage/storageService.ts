@@ -1,14 +1,115 @@
-import { Storage, Bucket } from "@google-cloud/storage";
 import SftpClient from "ssh2-sftp-client";
-import fs from "fs/promises";
-import path from "path";
+import { Transform, type Readable } from "stream";
 import { CONFIG } from "../../../config/config.js";
 import { logger } from "@/infrastructure/utils/logger";
 import {
+  SaveCompression,
+  SaveEncoding,
   StorageStatus,
   StorageType,
   StorageFilePrefix,
 } from "../../../shared/constants/StatusEnums";
+import type {
+  CommandJournalEntry,
+  PersistedSystemState,
+  SimulationClockState,
+} from "../../../shared/types/simulation/replay";
+import {
+  createSaveStorageAdapter,
+  type SaveStorageAdapter,
+  type StoredObject,
+} from "./adapters";
+import {
+  SAVE_FORMAT_VERSION,
+  getSaveFormatVersion,
+  saveMigrator,
+  type SaveMigrationReport,
+} from "./migrations";
+import { diffSaves, type SaveDiff } from "./saveDiff";
+import {
+  createSaveStream,
+  decodeSave,
+  encodeSave,
+  getSaveKey,
+  getSaveKeys,
+  parseSaveKey,
+  resolveSaveFormat,
+  type SaveFormat,
+  type SaveKey,
+} from "./saveCodec";
+
+const SAVE_ID_PATTERN = /^save_\d+$/;
+const SAVE_TAG_PATTERN = /^[\w.-]{1,40}$/;
+const MAX_SAVE_NAME_LENGTH = 100;
+const MAX_SAVE_TAGS = 20;
+/** Untagged saves kept by rotation */
+const MAX_ROTATED_SAVES = 10;
+const JOURNAL_BASE_KEY = `${StorageFilePrefix.JOURNAL_BASE}.json`;
+
+/**
+ * Whether `id` is a well-formed save ID (`save_<timestamp>`).
+ */
+export function isSaveId(id: unknown): id is string {
+  return typeof id === "string" && SAVE_ID_PATTERN.test(id);
+}
+
+/**
+ * Name and tags of a save. Saves with either are exempt from rotation.
+ */
+export interface SaveTags {
+  name?: string;
+  tags: string[];
+}
+
+/**
+ * Validates user-provided save tags: an optional non-empty `name` and up to
+ * 20 tags of letters, digits, `_`, `-` or `.`. Duplicate tags are dropped.
+ *
+ * @returns The tags, or null if the input is invalid
+ */
+export function parseSaveTags(value: unknown): SaveTags | null {
+  if (!value || typeof value !== "object") return null;
+  const { name, tags } = value as { name?: unknown; tags?: unknown };
+
+  if (
+    name !== undefined &&
+    (typeof name !== "string" ||
+      name.trim().length === 0 ||
+      name.length > MAX_SAVE_NAME_LENGTH)
+  ) {
+    return null;
+  }
+  if (
+    tags !== undefined &&
+    (!Array.isArray(tags) ||
+      tags.length > MAX_SAVE_TAGS ||
+      !tags.every(
+        (tag) => typeof tag === "string" && SAVE_TAG_PATTERN.test(tag),
+      ))
+  ) {
+    return null;
+  }
+
+  return {
+    ...(name !== undefined ? { name: name.trim() } : {}),
+    tags: [...new Set((tags as string[] | undefined) ?? [])],
+  };
+}
+
+function getSaveTagsKey(id: string): string {
+  return `${StorageFilePrefix.SAVE_TAGS}${id}.json`;
+}
+
+function getJournalChunkKey(firstSeq: number): string {
+  return `${StorageFilePrefix.JOURNAL}${String(firstSeq).padStart(12, "0")}.json`;
+}
+
+/**
+ * Sequence number of the first entry of a journal chunk, from its key.
+ */
+function getJournalChunkSeq(key: string): number {
+  return parseInt(key.slice(StorageFilePrefix.JOURNAL.length), 10);
+}
 
 /**
  * Game statistics for save metadata.
@@ -32,60 +133,88 @@ export interface SaveMetadata {
   timestamp: number;
   gameTime: number;
   stats: GameStats;
+  /** Stored (encoded and compressed) size in bytes */
   size: number;
+  /** Uncompressed payload size in bytes */
+  rawSize: number;
+  encoding: SaveEncoding;
+  compression: SaveCompression;
   modified: string;
+  /** Simulation tick the save was taken on (absent in older saves) */
+  tick?: number;
+  /** Format version the save was written with (1 for unversioned saves) */
+  saveFormatVersion: number;
+  name?: string;
+  tags: string[];
+  /** Save this one branched from */
+  parentId?: string;
 }
 
 /**
  * Complete save data structure.
  *
  * @property state - GameState (typed as unknown to avoid circular dependency)
+ * @property tick - Simulation tick the save was taken on
+ * @property clock - Runtime clock used to resume or replay from this save
+ * @property lineage - Saves this one descends from, parent first
+ * @property saveFormatVersion - Format version, stamped by `saveGame`
  */
 export interface SaveData {
   timestamp: number;
   gameTime: number;
   stats: GameStats;
   state?: unknown;
+  tick?: number;
+  clock?: SimulationClockState;
+  /** Private state of the persistable systems, keyed by section name */
+  systems?: Record<string, PersistedSystemState>;
+  lineage?: string[];
+  saveFormatVersion?: number;
   [key: string]: string | number | GameStats | unknown | undefined;
 }
 
 /**
  * Service for saving and loading game state.
  *
- * Supports both Google Cloud Storage (GCS) and local filesystem storage.
- * Automatically falls back to local storage if GCS is unavailable.
+ * Save naming, encoding, validation, rotation and NAS backups live here; the
+ * bytes go through a {@link SaveStorageAdapter} (GCS, local filesystem,
+ * S3-compatible or SQLite) chosen from configuration.
+ *
+ * Saves are written as JSON or MessagePack, optionally gzip/brotli
+ * compressed, as set by `SAVE_ENCODING`/`SAVE_COMPRESSION`. Every format is
+ * readable regardless of the configured one.
  *
  * @see CONFIG for storage configuration
+ * @see createSaveStorageAdapter for backend selection
  */
 export class StorageService {
-  private bucket: Bucket | null = null;
-  private useGCS: boolean = false;
-
-  constructor() {
-    if (!CONFIG.USE_LOCAL_STORAGE) {
-      try {
-        const storage = new Storage({
-          projectId: CONFIG.PROJECT_ID,
-        });
-        this.bucket = storage.bucket(CONFIG.BUCKET_NAME);
-        this.useGCS = true;
-      } catch (error) {
-        logger.warn("GCS not available, using local storage", {
-          error: error instanceof Error ? error.message : String(error),
-          projectId: CONFIG.PROJECT_ID,
-          bucketName: CONFIG.BUCKET_NAME,
-        });
-      }
-    }
+  /** Journal writes, chained so rewrites never interleave with appends */
+  private journalWrites: Promise<unknown> = Promise.resolve();
+  /** Journal entries up to this tick were dropped with rotated saves */
+  private journalTrimmedTick = -1;
+  /** Tick of each known save (null for saves without one) */
+  private readonly saveTicks = new Map<string, number | null>();
+
+  constructor(
+    private readonly adapter: SaveStorageAdapter = createSaveStorageAdapter(),
+    private readonly format: SaveFormat = resolveSaveFormat(
+      CONFIG.SAVE_ENCODING,
+      CONFIG.SAVE_COMPRESSION,
+    ),
+  ) {}
+
+  /** Backend the saves are stored in */
+  get storageType(): StorageType {
+    return this.adapter.type;
   }
 
   /**
    * Checks storage service health.
    *
-   * @returns Health status with storage type (gcs or local)
+   * @returns Health status with the active storage backend
    *
    * @remarks
-   * Side effects: May perform network I/O for GCS or filesystem I/O for local storage.
+   * Side effects: Performs I/O against the storage backend.
    * Used by health check endpoints.
    */
   async isHealthy(): Promise<{
@@ -93,195 +222,198 @@ export class StorageService {
     timestamp: number;
     storage: StorageType;
   }> {
-    if (this.useGCS && this.bucket) {
-      await this.bucket.exists();
-      return {
-        status: StorageStatus.OK,
-        timestamp: Date.now(),
-        storage: StorageType.GCS,
-      };
-    } else {
-      await this.ensureLocalDir();
-      return {
-        status: StorageStatus.OK,
-        timestamp: Date.now(),
-        storage: StorageType.LOCAL,
-      };
-    }
+    await this.adapter.checkHealth();
+    return {
+      status: StorageStatus.OK,
+      timestamp: Date.now(),
+      storage: this.adapter.type,
+    };
   }
 
   /**
    * Lists all available save files with metadata.
    *
-   * Saves are sorted by timestamp (newest first). Supports both GCS and local storage.
+   * Saves are sorted by timestamp (newest first). Invalid saves are skipped.
    *
    * @returns Array of save metadata sorted by timestamp (newest first)
    *
    * @remarks
-   * Side effects: May perform I/O operations to list files from storage.
-   * For GCS, this queries the bucket. For local storage, this reads the directory.
+   * Side effects: Lists and reads every save from the storage backend.
    */
   async listSaves(): Promise<SaveMetadata[]> {
-    let saves: SaveMetadata[] = [];
-
-    if (this.useGCS && this.bucket) {
-      const [files] = await this.bucket.getFiles({
-        prefix: StorageFilePrefix.SAVE,
-      });
-      const gcsEntries = await Promise.all(
-        files
-          .filter((f) => f.name.endsWith(".json"))
-          .map(async (file) => {
-            const [metadata] = await file.getMetadata();
-            const [content] = await file.download();
-            const parsed = this.safelyParseSaveData(content.toString());
-            if (!parsed) {
-              logger.warn("Skipping invalid save from GCS", {
-                file: file.name,
-              });
-              return null;
-            }
-
-            return {
-              id: file.name.replace(".json", ""),
-              timestamp: parsed.timestamp,
-              gameTime: parsed.gameTime,
-              stats: parsed.stats,
-              size: Number.parseInt(String(metadata.size ?? "0"), 10),
-              modified: metadata.updated ?? new Date().toISOString(),
-            } satisfies SaveMetadata;
-          }),
-      );
+    const [objects, tagsById] = await Promise.all([
+      this.listSaveObjects(),
+      this.listSaveTags(),
+    ]);
+    const entries = await Promise.all(
+      objects.map(async ({ object, saveKey }) => {
+        let stored: Awaited<ReturnType<StorageService["readStoredSave"]>>;
+        try {
+          stored = await this.readStoredSave(saveKey);
+        } catch (error) {
+          logger.warn("Skipping unreadable save", {
+            key: object.key,
+            storage: this.adapter.type,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return null;
+        }
+        const parsed = stored?.save;
+        if (!stored || !parsed) {
+          logger.warn("Skipping invalid save", {
+            key: object.key,
+            storage: this.adapter.type,
+          });
+          return null;
+        }
 
-      saves = gcsEntries.reduce<SaveMetadata[]>((acc, entry) => {
-        if (entry) acc.push(entry);
-        return acc;
-      }, []);
-    } else {
-      await this.ensureLocalDir();
-      const files = await fs.readdir(CONFIG.LOCAL_SAVES_PATH);
-      const localEntries = await Promise.all(
-        files
-          .filter(
-            (f) => f.endsWith(".json") && f.startsWith(StorageFilePrefix.SAVE),
-          )
-          .map(async (filename) => {
-            const filepath = path.join(CONFIG.LOCAL_SAVES_PATH, filename);
-            const content = await fs.readFile(filepath, "utf-8");
-            const stat = await fs.stat(filepath);
-            const parsed = this.safelyParseSaveData(content);
-            if (!parsed) {
-              logger.warn("Skipping invalid local save", { filename });
-              return null;
-            }
-
-            return {
-              id: filename.replace(".json", ""),
-              timestamp: parsed.timestamp,
-              gameTime: parsed.gameTime,
-              stats: parsed.stats,
-              size: stat.size,
-              modified: stat.mtime.toISOString(),
-            } satisfies SaveMetadata;
-          }),
-      );
+        this.saveTicks.set(saveKey.id, parsed.tick ?? null);
+        return {
+          id: saveKey.id,
+          timestamp: parsed.timestamp,
+          gameTime: parsed.gameTime,
+          stats: parsed.stats,
+          tick: parsed.tick,
+          saveFormatVersion: getSaveFormatVersion(parsed),
+          ...(tagsById.get(saveKey.id) ?? { tags: [] }),
+          parentId: Array.isArray(parsed.lineage)
+            ? parsed.lineage[0]
+            : undefined,
+          size: object.size,
+          rawSize: stored.rawSize,
+          encoding: saveKey.encoding,
+          compression: saveKey.compression,
+          modified: object.modified.toISOString(),
+        } satisfies SaveMetadata;
+      }),
+    );
 
-      saves = localEntries.reduce<SaveMetadata[]>((acc, entry) => {
-        if (entry) acc.push(entry);
-        return acc;
-      }, []);
-    }
+    const saves = entries.reduce<SaveMetadata[]>((acc, entry) => {
+      if (entry) acc.push(entry);
+      return acc;
+    }, []);
 
     return saves.sort((a, b) => b.timestamp - a.timestamp);
   }
 
   /**
-   * Retrieves a saved game by ID.
+   * Retrieves a saved game by ID, upgraded to the current save format.
    *
    * @param id - Save file ID (format: save_<timestamp>)
    * @returns Save data if found, null otherwise
    *
    * @remarks
-   * Side effects: Performs I/O to read from GCS bucket or local filesystem.
-   * Returns null if save doesn't exist or is corrupted.
+   * Side effects: Reads from the storage backend.
+   * Returns null if save doesn't exist, is corrupted, cannot be read or
+   * cannot be migrated. Migrated fields are logged, the stored save is not
+   * rewritten.
    */
   async getSave(id: string): Promise<SaveData | null> {
-    if (this.useGCS && this.bucket) {
-      const file = this.bucket.file(`${id}.json`);
-      const [exists] = await file.exists();
-      if (!exists) return null;
-
-      const [content] = await file.download();
-      const parsed = this.safelyParseSaveData(content.toString());
-      if (!parsed) {
-        logger.warn("Invalid save data received from GCS", { id });
-        return null;
-      }
-      return parsed;
-    } else {
-      const filepath = path.join(CONFIG.LOCAL_SAVES_PATH, `${id}.json`);
-      try {
-        const content = await fs.readFile(filepath, "utf-8");
-        const parsed = this.safelyParseSaveData(content);
-        if (!parsed) {
-          logger.warn("Invalid save data read from local storage", { id });
-          return null;
-        }
-        return parsed;
-      } catch (error) {
-        logger.warn("Error reading save file from local storage", {
-          id,
-          error: error instanceof Error ? error.message : String(error),
-        });
-        return null;
+    const raw = await this.readSave(id);
+    if (!raw) return null;
+
+    try {
+      const { save, report } = saveMigrator.migrate(raw);
+      if (
+        report.applied.length > 0 ||
+        report.defaulted.length > 0 ||
+        report.dropped.length > 0
+      ) {
+        logger.warn("Save upgraded on load", { id, ...report });
       }
+      return save;
+    } catch (error) {
+      logger.warn("Save cannot be migrated", {
+        id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
     }
   }
 
+  /**
+   * Runs the save migrations on a stored save without loading or
+   * rewriting it.
+   *
+   * @param id - Save file ID (format: save_<timestamp>)
+   * @returns The upgraded save and its report, or null if the save is missing
+   * @throws Error if the save cannot be migrated
+   */
+  async migrateSave(
+    id: string,
+  ): Promise<{ save: SaveData; report: SaveMigrationReport } | null> {
+    const raw = await this.readSave(id);
+    if (!raw) return null;
+    return saveMigrator.migrate(raw);
+  }
+
+  /**
+   * Replaces a stored save with its upgraded version from `migrateSave`.
+   * Unlike `saveGame`, it keeps the save ID and skips rotation and backups.
+   * The save is rewritten in the configured format.
+   *
+   * @returns Stored size in bytes
+   */
+  async storeMigratedSave(id: string, save: SaveData): Promise<number> {
+    const { key, size } = await this.writeSave(
+      id,
+      encodeSave(save, this.format.encoding),
+    );
+    await Promise.all(
+      getSaveKeys(id, this.format)
+        .filter((other) => other !== key)
+        .map((other) => this.adapter.delete(other)),
+    );
+    return size;
+  }
+
   /**
    * Saves game state to storage.
    *
-   * Saves to GCS or local filesystem based on configuration.
    * Automatically triggers NAS backup if enabled (async, non-blocking).
-   * Triggers cleanup of old saves (keeps 10 most recent, async, non-blocking).
+   * Triggers cleanup of old saves (keeps the 10 most recent untagged ones,
+   * async, non-blocking), which also trims the command journal.
    *
    * @param {SaveData} saveData - Complete game state to save
+   * @param {SaveTags} [tags] - Name and tags that exempt the save from rotation
    * @returns {Promise<Object>} Save operation result
    * @returns {string} returns.saveId - Generated save ID (save_<timestamp>)
-   * @returns {number} returns.size - Size of saved file in bytes
+   * @returns {number} returns.size - Stored size in bytes
+   * @returns {number} returns.rawSize - Uncompressed payload size in bytes
+   *
+   * @remarks
+   * `saveData` is encoded before the first await, so callers may keep
+   * mutating it once this returns its promise.
    */
   async saveGame(
     saveData: SaveData,
-  ): Promise<{ saveId: string; size: number }> {
+    tags?: SaveTags,
+  ): Promise<{ saveId: string; size: number; rawSize: number }> {
     const saveId = `${StorageFilePrefix.SAVE}${saveData.timestamp}`;
-    const content = JSON.stringify(saveData, null, 2);
-    let size = 0;
-
-    if (this.useGCS && this.bucket) {
-      const file = this.bucket.file(`${saveId}.json`);
-      await file.save(content, {
-        contentType: "application/json",
-        metadata: { cacheControl: "no-cache" },
-      });
-      const [metadata] = await file.getMetadata();
-      size = parseInt(String(metadata.size || "0"));
-    } else {
-      await this.ensureLocalDir();
-      const filepath = path.join(CONFIG.LOCAL_SAVES_PATH, `${saveId}.json`);
-      await fs.writeFile(filepath, content, "utf-8");
-      const stat = await fs.stat(filepath);
-      size = stat.size;
+    const chunks = encodeSave(
+      { ...saveData, saveFormatVersion: SAVE_FORMAT_VERSION },
+      this.format.encoding,
+    );
+    const rawSize = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const { key, size, content } = await this.writeSave(
+      saveId,
+      chunks,
+      CONFIG.NAS.ENABLED,
+    );
+    this.saveTicks.set(saveId, saveData.tick ?? null);
+    if (tags) {
+      await this.writeSaveTags(saveId, tags);
     }
 
-    if (CONFIG.NAS.ENABLED) {
-      this.backupToNAS(saveId, content).catch((err) =>
+    if (content) {
+      this.backupToNAS(key, content).catch((err) =>
         logger.error("NAS backup error:", err),
       );
     }
 
     this.cleanOldSaves().catch((err) => logger.error("Cleanup error:", err));
 
-    return { saveId, size };
+    return { saveId, size, rawSize };
   }
 
   /**
@@ -291,28 +423,425 @@ export class StorageService {
    * @returns True if save was deleted, false if it didn't exist
    *
    * @remarks
-   * Side effects: Performs I/O to delete from GCS bucket or local filesystem.
+   * Side effects: Deletes from the storage backend.
    * This operation is irreversible.
    */
   async deleteSave(id: string): Promise<boolean> {
-    if (this.useGCS && this.bucket) {
-      const file = this.bucket.file(`${id}.json`);
-      const [exists] = await file.exists();
-      if (!exists) return false;
-      await file.delete();
-      return true;
-    } else {
-      const filepath = path.join(CONFIG.LOCAL_SAVES_PATH, `${id}.json`);
+    try {
+      const deleted = await Promise.all(
+        getSaveKeys(id, this.format).map((key) => this.adapter.delete(key)),
+      );
+      await this.adapter.delete(getSaveTagsKey(id));
+      this.saveTicks.delete(id);
+      return deleted.includes(true);
+    } catch (error) {
+      logger.warn("Error deleting save file", {
+        id,
+        storage: this.adapter.type,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Replaces the name and tags of a stored save. Empty tags without a name
+   * return the save to rotation.
+   *
+   * @returns The stored tags, or null if the save does not exist
+   */
+  async setSaveTags(id: string, tags: SaveTags): Promise<SaveTags | null> {
+    const exists = (await this.listSaveObjects()).some(
+      ({ saveKey }) => saveKey.id === id,
+    );
+    if (!exists) return null;
+
+    await this.writeSaveTags(id, tags);
+    return tags;
+  }
+
+  /**
+   * Compares two saves: population, resources, buildings, relationships and
+   * how they relate in the save tree.
+   *
+   * @param a - Baseline save ID
+   * @param b - Save ID compared against the baseline
+   * @returns The diff, or null if either save is missing or unreadable
+   */
+  async diffSaves(a: string, b: string): Promise<SaveDiff | null> {
+    const [saveA, saveB] = await Promise.all([
+      this.getSave(a),
+      this.getSave(b),
+    ]);
+    if (!saveA || !saveB) return null;
+    return diffSaves(a, saveA, b, saveB);
+  }
+
+  /**
+   * Persists a chunk of command journal entries.
+   *
+   * @param entries - Entries to persist, in sequence order
+   *
+   * @remarks
+   * Side effects: Writes one `journal_<seq>.json` object per chunk.
+   */
+  async appendJournalChunk(entries: CommandJournalEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    await this.queueJournalWrite(() =>
+      this.adapter.write(
+        getJournalChunkKey(entries[0].seq),
+        JSON.stringify(entries),
+      ),
+    );
+  }
+
+  /**
+   * Loads every persisted command journal entry.
+   *
+   * @returns Entries sorted by sequence number
+   *
+   * @remarks
+   * Side effects: Reads the journal base and chunks from the storage backend.
+   * Unreadable chunks are skipped with a warning.
+   */
+  async loadJournal(): Promise<CommandJournalEntry[]> {
+    return (await this.readJournal()).entries;
+  }
+
+  /**
+   * Replaces the persisted journal with the given entries, e.g. after a save
+   * is loaded and later entries belong to an abandoned timeline.
+   *
+   * @param entries - Entries to keep
+   * @param nextSeq - Sequence number of the next entry to be appended
+   *
+   * @remarks
+   * Side effects: Writes the journal base, then deletes the chunks it
+   * supersedes. Chunks left behind by an interruption are ignored on load.
+   */
+  async replaceJournal(
+    entries: CommandJournalEntry[],
+    nextSeq: number,
+  ): Promise<void> {
+    await this.queueJournalWrite(async () => {
+      const chunks = await this.listObjects(StorageFilePrefix.JOURNAL);
+      await this.writeJournalBase(
+        entries.filter((entry) => entry.tick > this.journalTrimmedTick),
+        nextSeq,
+        chunks,
+      );
+    });
+  }
+
+  /**
+   * Deletes every persisted command journal chunk.
+   *
+   * @remarks
+   * Side effects: Irreversibly removes journal objects from storage.
+   */
+  async clearJournal(): Promise<void> {
+    await this.queueJournalWrite(async () => {
+      const objects = await this.listObjects(StorageFilePrefix.JOURNAL);
+      await Promise.all([
+        this.adapter.delete(JOURNAL_BASE_KEY),
+        ...objects.map((object) => this.adapter.delete(object.key)),
+      ]);
+    });
+  }
+
+  /**
+   * Tick up to which journal entries were dropped because no retained save
+   * precedes them, or -1 if none were.
+   */
+  getJournalTrimmedTick(): number {
+    return this.journalTrimmedTick;
+  }
+
+  private queueJournalWrite<T>(write: () => Promise<T>): Promise<T> {
+    const run = this.journalWrites.then(write);
+    this.journalWrites = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Reads the journal base plus the chunks appended after it.
+   */
+  private async readJournal(): Promise<{
+    entries: CommandJournalEntry[];
+    nextSeq: number;
+    chunks: StoredObject[];
+  }> {
+    const baseContent = await this.adapter.read(JOURNAL_BASE_KEY);
+    const base = baseContent ? this.safelyParseJournalBase(baseContent) : null;
+    const entries = [...(base?.entries ?? [])];
+    let nextSeq = base?.nextSeq ?? 0;
+
+    const chunks = await this.listObjects(StorageFilePrefix.JOURNAL);
+    for (const object of chunks) {
+      const content = await this.adapter.read(object.key);
+      if (!content) continue;
+      for (const entry of this.safelyParseJournalChunk(content)) {
+        // Entries below the base's sequence were superseded by it
+        if (base && entry.seq < base.nextSeq) continue;
+        entries.push(entry);
+        nextSeq = Math.max(nextSeq, entry.seq + 1);
+      }
+    }
+
+    return { entries: entries.sort((a, b) => a.seq - b.seq), nextSeq, chunks };
+  }
+
+  /**
+   * Writes the journal base and deletes the chunks it supersedes. Must run
+   * inside `queueJournalWrite`.
+   */
+  private async writeJournalBase(
+    entries: CommandJournalEntry[],
+    nextSeq: number,
+    chunks: StoredObject[],
+  ): Promise<void> {
+    await this.adapter.write(
+      JOURNAL_BASE_KEY,
+      JSON.stringify({ nextSeq, entries }),
+    );
+    await Promise.all(
+      chunks
+        .filter((object) => getJournalChunkSeq(object.key) < nextSeq)
+        .map((object) => this.adapter.delete(object.key)),
+    );
+  }
+
+  /**
+   * Drops persisted journal entries applied at or before `tick`; replays
+   * start from a save, so they only need entries after the oldest one.
+   */
+  private async trimJournal(tick: number): Promise<void> {
+    if (tick <= this.journalTrimmedTick) return;
+
+    await this.queueJournalWrite(async () => {
+      const { entries, nextSeq, chunks } = await this.readJournal();
+      const kept = entries.filter((entry) => entry.tick > tick);
+      if (kept.length < entries.length) {
+        await this.writeJournalBase(kept, nextSeq, chunks);
+      }
+    });
+    this.journalTrimmedTick = tick;
+  }
+
+  /**
+   * Reads and decodes a stored save as written, without migrating it.
+   * Tries the configured format first, then every other one.
+   */
+  private async readSave(id: string): Promise<SaveData | null> {
+    for (const key of getSaveKeys(id, this.format)) {
+      const saveKey = parseSaveKey(key);
+      if (!saveKey) continue;
+
+      let stored: Awaited<ReturnType<StorageService["readStoredSave"]>>;
       try {
-        await fs.unlink(filepath);
-        return true;
+        stored = await this.readStoredSave(saveKey);
       } catch (error) {
-        logger.warn("Error deleting save file from local storage", {
+        logger.warn("Error reading save file", {
           id,
+          storage: this.adapter.type,
           error: error instanceof Error ? error.message : String(error),
         });
-        return false;
+        return null;
+      }
+      if (!stored) continue;
+
+      if (!stored.save) {
+        logger.warn("Invalid save data read from storage", {
+          id,
+          storage: this.adapter.type,
+        });
+        return null;
       }
+      return stored.save;
+    }
+    return null;
+  }
+
+  /**
+   * Reads one stored save object.
+   *
+   * @returns The save (null if it cannot be decoded) and its uncompressed
+   * size, or null if the object does not exist
+   */
+  private async readStoredSave(
+    saveKey: SaveKey,
+  ): Promise<{ save: SaveData | null; rawSize: number } | null> {
+    if (
+      saveKey.encoding === SaveEncoding.JSON &&
+      saveKey.compression === SaveCompression.NONE
+    ) {
+      const content = await this.adapter.read(saveKey.key);
+      if (content === null) return null;
+      return {
+        save: this.safelyParseSaveData(content),
+        rawSize: Buffer.byteLength(content, "utf-8"),
+      };
+    }
+
+    const content = await this.adapter.readBuffer(saveKey.key);
+    if (content === null) return null;
+    try {
+      const { value, rawSize } = decodeSave(content, saveKey);
+      return { save: this.isSaveData(value) ? value : null, rawSize };
+    } catch (error) {
+      logger.debug("Failed to decode save data", {
+        key: saveKey.key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return { save: null, rawSize: 0 };
+    }
+  }
+
+  /**
+   * Writes encoded save chunks in the configured format. Uncompressed JSON
+   * is written as a text object; anything else is compressed and uploaded
+   * as a stream over the chunks.
+   *
+   * @param keepContent - Also return the stored bytes (for NAS backups)
+   */
+  private async writeSave(
+    id: string,
+    chunks: Buffer[],
+    keepContent = false,
+  ): Promise<{ key: string; size: number; content?: Buffer }> {
+    const key = getSaveKey(id, this.format);
+    if (
+      this.format.encoding === SaveEncoding.JSON &&
+      this.format.compression === SaveCompression.NONE
+    ) {
+      const content = Buffer.concat(chunks);
+      const size = await this.adapter.write(key, content.toString("utf-8"));
+      return { key, size, content: keepContent ? content : undefined };
+    }
+
+    const stored: Buffer[] = [];
+    let stream: Readable = createSaveStream(chunks, this.format.compression);
+    if (keepContent) {
+      stream = stream.pipe(
+        new Transform({
+          transform(chunk: Buffer, _encoding, callback): void {
+            stored.push(chunk);
+            callback(null, chunk);
+          },
+        }),
+      );
+    }
+    const size = await this.adapter.writeStream(key, stream);
+    return {
+      key,
+      size,
+      content: keepContent ? Buffer.concat(stored) : undefined,
+    };
+  }
+
+  /**
+   * Lists the stored saves, in any format.
+   */
+  private async listSaveObjects(): Promise<
+    Array<{ object: StoredObject; saveKey: SaveKey }>
+  > {
+    const objects = await this.adapter.list(StorageFilePrefix.SAVE);
+    return objects.flatMap((object) => {
+      const saveKey = parseSaveKey(object.key);
+      return saveKey ? [{ object, saveKey }] : [];
+    });
+  }
+
+  /**
+   * Stores the tags of a save next to it, or removes them when empty.
+   */
+  private async writeSaveTags(id: string, tags: SaveTags): Promise<void> {
+    if (tags.name === undefined && tags.tags.length === 0) {
+      await this.adapter.delete(getSaveTagsKey(id));
+      return;
+    }
+    await this.adapter.write(getSaveTagsKey(id), JSON.stringify(tags));
+  }
+
+  /**
+   * Reads the tags of every tagged save, keyed by save ID.
+   */
+  private async listSaveTags(): Promise<Map<string, SaveTags>> {
+    const objects = await this.listObjects(StorageFilePrefix.SAVE_TAGS);
+    const entries = await Promise.all(
+      objects.map(async ({ key }) => {
+        const id = key.slice(
+          StorageFilePrefix.SAVE_TAGS.length,
+          -".json".length,
+        );
+        const content = await this.adapter.read(key);
+        const tags = content ? this.safelyParseSaveTags(content) : null;
+        return tags ? ([id, tags] as const) : null;
+      }),
+    );
+    return new Map(entries.filter((entry) => entry !== null));
+  }
+
+  /**
+   * Lists the JSON objects of one kind (journal chunks, save tags).
+   */
+  private async listObjects(
+    prefix: StorageFilePrefix,
+  ): Promise<StoredObject[]> {
+    const objects = await this.adapter.list(prefix);
+    return objects.filter((object) => object.key.endsWith(".json"));
+  }
+
+  private safelyParseJournalChunk(rawContent: string): CommandJournalEntry[] {
+    try {
+      return this.filterJournalEntries(JSON.parse(rawContent));
+    } catch (error) {
+      logger.warn("Skipping invalid journal chunk", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  private filterJournalEntries(value: unknown): CommandJournalEntry[] {
+    if (!Array.isArray(value)) return [];
+    return value.filter(
+      (entry: unknown): entry is CommandJournalEntry =>
+        !!entry &&
+        typeof entry === "object" &&
+        typeof (entry as Record<string, unknown>).seq === "number" &&
+        typeof (entry as Record<string, unknown>).tick === "number" &&
+        typeof (entry as Record<string, unknown>).command === "object",
+    );
+  }
+
+  private safelyParseJournalBase(
+    rawContent: string,
+  ): { nextSeq: number; entries: CommandJournalEntry[] } | null {
+    try {
+      const parsed = JSON.parse(rawContent) as Record<string, unknown>;
+      if (typeof parsed?.nextSeq !== "number") return null;
+      return {
+        nextSeq: parsed.nextSeq,
+        entries: this.filterJournalEntries(parsed.entries),
+      };
+    } catch (error) {
+      logger.warn("Skipping invalid journal base", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  private safelyParseSaveTags(rawContent: string): SaveTags | null {
+    try {
+      return parseSaveTags(JSON.parse(rawContent));
+    } catch (error) {
+      logger.warn("Skipping invalid save tags", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
     }
   }
 
@@ -342,28 +871,17 @@ export class StorageService {
     }
   }
 
-  private async ensureLocalDir(): Promise<void> {
-    try {
-      await fs.mkdir(CONFIG.LOCAL_SAVES_PATH, { recursive: true });
-    } catch (error) {
-      logger.debug(
-        `Failed to create local saves directory ${CONFIG.LOCAL_SAVES_PATH}:`,
-        error instanceof Error ? error.message : String(error),
-      );
-    }
-  }
-
   /**
    * Backs up save file to Network Attached Storage via SFTP.
    *
    * Creates remote directory if it doesn't exist.
    * Non-blocking operation - errors are logged but don't fail the save.
    *
-   * @param {string} saveId - Save file ID
-   * @param {string} content - JSON content to backup
+   * @param {string} key - Save object key
+   * @param {Buffer} content - Stored save content to backup
    * @returns {Promise<boolean>} True if backup succeeded
    */
-  private async backupToNAS(saveId: string, content: string): Promise<boolean> {
+  private async backupToNAS(key: string, content: Buffer): Promise<boolean> {
     const sftp = new SftpClient();
     try {
       await sftp.connect({
@@ -378,8 +896,8 @@ export class StorageService {
         await sftp.mkdir(CONFIG.NAS.BACKUP_PATH, true);
       }
 
-      const remotePath = `${CONFIG.NAS.BACKUP_PATH}/${saveId}.json`;
-      await sftp.put(Buffer.from(content), remotePath);
+      const remotePath = `${CONFIG.NAS.BACKUP_PATH}/${CONFIG.SAVE_NAMESPACE ?? ""}${key}`;
+      await sftp.put(content, remotePath);
 
       logger.info(`📦 Backup to NAS: ${remotePath}`);
       return true;
@@ -394,63 +912,73 @@ export class StorageService {
   }
 
   /**
-   * Cleans up old save files, keeping only the 10 most recent.
+   * Cleans up old save files, keeping only the 10 most recent untagged ones.
+   * Named or tagged saves are never rotated out. Then drops the command
+   * journal entries no retained save can be replayed with.
    *
-   * Works with both GCS and local storage.
    * Non-blocking operation - errors are logged but don't affect saves.
    */
   private async cleanOldSaves(): Promise<void> {
     try {
-      if (this.useGCS && this.bucket) {
-        const [gcsFiles] = await this.bucket.getFiles({
-          prefix: StorageFilePrefix.SAVE,
-        });
-        if (gcsFiles.length <= 10) return;
-
-        const filesWithMeta = await Promise.all(
-          gcsFiles.map(async (file) => {
-            const [metadata] = await file.getMetadata();
-            return {
-              file,
-              updated: new Date(metadata.updated || 0).getTime(),
-            };
-          }),
+      const [objects, tagsById] = await Promise.all([
+        this.listSaveObjects(),
+        this.listSaveTags(),
+      ]);
+      let retained = objects;
+      const saves = objects.filter(({ saveKey }) => !tagsById.has(saveKey.id));
+      if (saves.length > MAX_ROTATED_SAVES) {
+        saves.sort(
+          (a, b) => b.object.modified.getTime() - a.object.modified.getTime(),
         );
-
-        filesWithMeta.sort((a, b) => b.updated - a.updated);
-        const toDelete = filesWithMeta.slice(10);
-        await Promise.all(toDelete.map(({ file }) => file.delete()));
-        logger.info(`Cleaned ${toDelete.length} old saves from GCS`);
-      } else {
-        await this.ensureLocalDir();
-        const localFiles = await fs.readdir(CONFIG.LOCAL_SAVES_PATH);
-        const saveFiles = localFiles.filter(
-          (f) => f.endsWith(".json") && f.startsWith(StorageFilePrefix.SAVE),
+        const toDelete = saves.slice(MAX_ROTATED_SAVES);
+        await Promise.all(
+          toDelete.map(({ object }) => this.adapter.delete(object.key)),
         );
-
-        if (saveFiles.length <= 10) return;
-
-        const filesWithMeta = await Promise.all(
-          saveFiles.map(async (filename) => {
-            const filepath = path.join(CONFIG.LOCAL_SAVES_PATH, filename);
-            const stat = await fs.stat(filepath);
-            return {
-              filename,
-              filepath,
-              updated: stat.mtime.getTime(),
-            };
-          }),
+        toDelete.forEach(({ saveKey }) => this.saveTicks.delete(saveKey.id));
+        retained = objects.filter((save) => !toDelete.includes(save));
+        logger.info(
+          `Cleaned ${toDelete.length} old saves from ${this.adapter.type} storage`,
         );
+      }
 
-        filesWithMeta.sort((a, b) => b.updated - a.updated);
-        const toDelete = filesWithMeta.slice(10);
-        await Promise.all(toDelete.map(({ filepath }) => fs.unlink(filepath)));
-        logger.info(`Cleaned ${toDelete.length} old saves from local storage`);
+      const oldestTick = await this.getOldestSaveTick(
+        retained.map(({ saveKey }) => saveKey),
+      );
+      if (oldestTick !== null) {
+        await this.trimJournal(oldestTick);
       }
     } catch (error) {
       logger.error("Error cleaning old saves:", error);
     }
   }
+
+  /**
+   * Lowest tick among the given saves, reading the saves whose tick is not
+   * known yet. Saves without a tick cannot start a replay and are ignored;
+   * null when a save cannot be read, so nothing it may need gets trimmed.
+   */
+  private async getOldestSaveTick(saveKeys: SaveKey[]): Promise<number | null> {
+    let oldest: number | null = null;
+    for (const saveKey of saveKeys) {
+      if (!this.saveTicks.has(saveKey.id)) {
+        try {
+          const stored = await this.readStoredSave(saveKey);
+          this.saveTicks.set(saveKey.id, stored?.save?.tick ?? null);
+        } catch (error) {
+          logger.warn("Error reading save tick", {
+            key: saveKey.key,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return null;
+        }
+      }
+      const tick = this.saveTicks.get(saveKey.id);
+      if (tick != null && (oldest === null || tick < oldest)) {
+        oldest = tick;
+      }
+    }
+    return oldest;
+  }
 }
 
 export const storageService = new StorageService();
@@ -0,0 +1,116 @@
+import {
+  DeltaEncoder,
+  type DeltaSnapshot,
+} from "../../../domain/simulation/core/DeltaEncoder";
+import type {
+  SimulationEvent,
+  SimulationSnapshot,
+} from "../../../shared/types/commands/SimulationCommand";
+import { SnapshotType } from "../../../shared/constants/SystemEnums";
+import { SubscriptionFilter } from "./SubscriptionFilter";
+
+/**
+ * Tick payload sent to a `/ws/sim` client inside a TICK message.
+ */
+export interface SimulationTickPayload {
+  tick: number;
+  time: number;
+  delta: DeltaSnapshot;
+  events?: SimulationEvent[];
+}
+
+/**
+ * Stream state of one `/ws/sim` connection: its delta encoder, the ticks it
+ * acknowledged and its optional subscription filter.
+ *
+ * Protocol: every TICK carries `delta.sequence` (+1 per message) and, for
+ * deltas, `delta.baseTick`. The client sends `ACK { tick }` after applying a
+ * tick; from then on deltas are built against the acked tick, so the client
+ * recovers from a lost frame by acking the last tick it applied. ACKs for
+ * unknown ticks make the next message a full snapshot.
+ */
+export class SimulationStreamClient {
+  private readonly encoder = new DeltaEncoder();
+  private subscription: SubscriptionFilter | null = null;
+
+  /**
+   * Sets the subscription filter.
+   *
+   * @returns An error message if the subscription is invalid
+   */
+  public subscribe(raw: unknown): string | null {
+    const result = SubscriptionFilter.parse(raw);
+    if (typeof result === "string") return result;
+
+    this.subscription = result;
+    // The client's state was built with the previous filter
+    this.encoder.forceFullSnapshot();
+    return null;
+  }
+
+  public unsubscribe(): void {
+    this.subscription = null;
+    this.encoder.forceFullSnapshot();
+  }
+
+  /**
+   * Records the last tick applied by the client.
+   *
+   * @returns false if the tick is unknown; the next tick will be full
+   */
+  public acknowledge(tick: unknown): boolean {
+    if (typeof tick !== "number" || !Number.isInteger(tick)) return false;
+    return this.encoder.acknowledge(tick);
+  }
+
+  /**
+   * Sends the next message as a full snapshot (e.g. after REQUEST_FULL_STATE).
+   */
+  public resync(): void {
+    this.encoder.forceFullSnapshot();
+  }
+
+  /**
+   * Starts the stream over after a save was loaded: acknowledged ticks
+   * belong to the previous world, so the next message is a full snapshot.
+   */
+  public reset(): void {
+    this.encoder.reset();
+  }
+
+  /**
+   * Encodes a tick for this client.
+   *
+   * @returns The payload, or null when the subscription leaves nothing to send
+   */
+  public encodeTick(
+    snapshot: SimulationSnapshot,
+  ): SimulationTickPayload | null {
+    let events = snapshot.events ?? [];
+    if (this.subscription) {
+      events = this.subscription.filterEvents(events, snapshot.state);
+
+      if (!this.subscription.includesState) {
+        if (events.length === 0) return null;
+        return {
+          tick: snapshot.tick,
+          time: snapshot.updatedAt,
+          delta: {
+            type: SnapshotType.DELTA,
+            tick: snapshot.tick,
+            updatedAt: snapshot.updatedAt,
+            events,
+          },
+          events,
+        };
+      }
+    }
+
+    const state = this.subscription
+      ? this.subscription.filterState(snapshot.state)
+      : snapshot.state;
+    const delta = this.encoder.encodeDelta({ ...snapshot, state, events });
+
+    return { tick: snapshot.tick, time: snapshot.updatedAt, delta, events };
+  }
+}
@@ -0,0 +1,279 @@
+import type {
+  SimulationEvent,
+  SimulationSubscription,
+} from "../../../shared/types/commands/SimulationCommand";
+import type { GameState } from "../../../shared/types/game-types";
+import type { WorldResourceInstance } from "../../../shared/types/simulation/worldResources";
+import { ALL_GAME_EVENT_TYPES } from "../../../shared/constants/EventEnums";
+
+type Viewport = NonNullable<SimulationSubscription["viewport"]>;
+type Point = { x: number; y: number };
+
+const MAX_FILTER_ITEMS = 1000;
+
+/**
+ * Filters the tick stream of a single `/ws/sim` connection.
+ *
+ * Events pass when they match the type filters, involve a followed agent and
+ * happen inside the viewport. Events without a location (weather, time...)
+ * are never dropped by the viewport. In the state, `agentIds` restricts
+ * agents and entities, and `viewport` restricts agents, entities, animals,
+ * world resources and zones. Other sections are forwarded untouched.
+ *
+ * The state is filtered before delta encoding, so an agent entering the
+ * viewport reaches the client whole and one leaving it is sent as removed.
+ *
+ * @see SimulationSubscription for the SUBSCRIBE message payload
+ */
+export class SubscriptionFilter {
+  private readonly eventTypes?: Set<string>;
+  private readonly eventCategories?: string[];
+  private readonly agentIds?: Set<string>;
+  private readonly viewport?: Viewport;
+  private readonly includeState: boolean;
+
+  private constructor(subscription: SimulationSubscription) {
+    if (subscription.eventTypes) {
+      this.eventTypes = new Set(subscription.eventTypes);
+    }
+    if (subscription.eventCategories) {
+      this.eventCategories = subscription.eventCategories.map(
+        (category) => `${category.toUpperCase()}_`,
+      );
+    }
+    if (subscription.agentIds) {
+      this.agentIds = new Set(subscription.agentIds);
+    }
+    this.viewport = subscription.viewport;
+    this.includeState = subscription.includeState ?? true;
+  }
+
+  /**
+   * Validates an untrusted SUBSCRIBE payload.
+   *
+   * @returns The filter, or an error message describing the invalid field
+   */
+  public static parse(raw: unknown): SubscriptionFilter | string {
+    if (!raw || typeof raw !== "object") {
+      return "Subscription must be an object";
+    }
+    const subscription = raw as Record<string, unknown>;
+
+    const { eventTypes, eventCategories, agentIds, viewport, includeState } =
+      subscription;
+
+    if (eventTypes !== undefined) {
+      if (
+        !isStringArray(eventTypes) ||
+        !eventTypes.every((type) =>
+          (ALL_GAME_EVENT_TYPES as string[]).includes(type),
+        )
+      ) {
+        return "eventTypes must be a list of GameEventType values";
+      }
+    }
+    if (eventCategories !== undefined && !isStringArray(eventCategories)) {
+      return "eventCategories must be a list of strings";
+    }
+    if (agentIds !== undefined && !isStringArray(agentIds)) {
+      return "agentIds must be a list of strings";
+    }
+    if (viewport !== undefined && !isViewport(viewport)) {
+      return "viewport must be { x, y, width, height } with a positive size";
+    }
+    if (includeState !== undefined && typeof includeState !== "boolean") {
+      return "includeState must be a boolean";
+    }
+
+    return new SubscriptionFilter(subscription as SimulationSubscription);
+  }
+
+  /** Whether the client wants state deltas or only events */
+  public get includesState(): boolean {
+    return this.includeState;
+  }
+
+  /**
+   * Keeps the events this subscription asked for.
+   *
+   * @param events - Events of the tick
+   * @param state - Unfiltered state of the tick, used to locate agents
+   */
+  public filterEvents(
+    events: SimulationEvent[],
+    state: GameState,
+  ): SimulationEvent[] {
+    const agentPositions = new Map<string, Point>();
+    if (this.viewport) {
+      for (const agent of state.agents ?? []) {
+        if (agent.position) agentPositions.set(agent.id, agent.position);
+      }
+    }
+    return events.filter((event) => this.matchesEvent(event, agentPositions));
+  }
+
+  private matchesEvent(
+    event: SimulationEvent,
+    agentPositions: Map<string, Point>,
+  ): boolean {
+    if (this.eventTypes || this.eventCategories) {
+      const byType = this.eventTypes?.has(event.type) ?? false;
+      const byCategory =
+        this.eventCategories?.some((prefix) => event.type.startsWith(prefix)) ??
+        false;
+      if (!byType && !byCategory) return false;
+    }
+
+    if (!this.agentIds && !this.viewport) return true;
+
+    const involved = getInvolvedIds(event.payload);
+
+    if (this.agentIds && !involved.some((id) => this.agentIds!.has(id))) {
+      return false;
+    }
+
+    if (this.viewport) {
+      const position = getEventPosition(event.payload);
+      if (position) return this.inViewport(position);
+
+      const located = involved.filter((id) => agentPositions.has(id));
+      if (located.length > 0) {
+        return located.some((id) => this.inViewport(agentPositions.get(id)!));
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Restricts the positioned sections of a state. Returns a shallow copy;
+   * the input is not modified.
+   */
+  public filterState(state: GameState): GameState {
+    if (!this.agentIds && !this.viewport) return state;
+    return this.filterChanges(state) as GameState;
+  }
+
+  private filterChanges(changes: Partial<GameState>): Partial<GameState> {
+    const filtered: Partial<GameState> = { ...changes };
+
+    if (changes.agents) {
+      filtered.agents = changes.agents.filter(
+        (agent) => this.isFollowed(agent.id) && this.inViewport(agent.position),
+      );
+    }
+
+    if (changes.entities) {
+      filtered.entities = changes.entities.filter(
+        (entity) =>
+          this.isFollowed(entity.id) &&
+          this.inViewport(entity.position ?? entity),
+      );
+    }
+
+    if (!this.viewport) return filtered;
+
+    if (changes.animals) {
+      filtered.animals = {
+        ...changes.animals,
+        animals: (changes.animals.animals ?? []).filter((animal) =>
+          this.inViewport(animal.position),
+        ),
+      };
+    }
+
+    if (changes.worldResources) {
+      const resources: Record<string, WorldResourceInstance> = {};
+      for (const [id, resource] of Object.entries(changes.worldResources)) {
+        if (this.inViewport(resource.position)) resources[id] = resource;
+      }
+      filtered.worldResources = resources;
+    }
+
+    if (changes.zones) {
+      const viewport = this.viewport;
+      filtered.zones = changes.zones.filter(
+        (zone) =>
+          zone.bounds.x < viewport.x + viewport.width &&
+          zone.bounds.x + zone.bounds.width > viewport.x &&
+          zone.bounds.y < viewport.y + viewport.height &&
+          zone.bounds.y + zone.bounds.height > viewport.y,
+      );
+    }
+
+    return filtered;
+  }
+
+  private isFollowed(id: string): boolean {
+    return !this.agentIds || this.agentIds.has(id);
+  }
+
+  private inViewport(position?: Point): boolean {
+    if (!this.viewport) return true;
+    if (!position) return false;
+    const { x, y, width, height } = this.viewport;
+    return (
+      position.x >= x &&
+      position.x < x + width &&
+      position.y >= y &&
+      position.y < y + height
+    );
+  }
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.length <= MAX_FILTER_ITEMS &&
+    value.every((item) => typeof item === "string")
+  );
+}
+
+function isViewport(value: unknown): value is Viewport {
+  if (!value || typeof value !== "object") return false;
+  const { x, y, width, height } = value as Record<string, unknown>;
+  return (
+    Number.isFinite(x) &&
+    Number.isFinite(y) &&
+    typeof width === "number" &&
+    typeof height === "number" &&
+    width > 0 &&
+    height > 0
+  );
+}
+
+/**
+ * IDs referenced by an event payload: top-level string fields and string
+ * lists (agentId, targetId, builders...).
+ */
+function getInvolvedIds(payload: unknown): string[] {
+  if (!payload || typeof payload !== "object") return [];
+  const ids: string[] = [];
+  for (const value of Object.values(payload)) {
+    if (typeof value === "string") {
+      ids.push(value);
+    } else if (Array.isArray(value)) {
+      for (const item of value) {
+        if (typeof item === "string") ids.push(item);
+      }
+    }
+  }
+  return ids;
+}
+
+function getEventPosition(payload: unknown): Point | undefined {
+  if (!payload || typeof payload !== "object") return undefined;
+  const { position, x, y } = payload as Record<string, unknown>;
+  if (
+    position &&
+    typeof position === "object" &&
+    typeof (position as Point).x === "number" &&
+    typeof (position as Point).y === "number"
+  ) {
+    return position as Point;
+  }
+  if (typeof x === "number" && typeof y === "number") {
+    return { x, y };
+  }
+  return undefined;
+}
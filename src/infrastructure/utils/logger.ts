@@ -1,7 +1,6 @@
 /* eslint-disable no-console */
 import * as fs from "fs";
 import * as path from "path";
-import { RandomUtils } from "@/shared/utils/RandomUtils";
 
 /**
  * Advanced logging utility for the backend with behavior analysis support.
@@ -116,7 +115,9 @@ const DEFAULT_CONFIG: LoggerConfig = {
  * Generate a unique ID for log entries.
  */
 function generateLogId(): string {
-  return `${Date.now()}-${RandomUtils.float().toString(36).substring(2, 9)}`;
+  // Math.random on purpose: log volume depends on the configured level and
+  // must not consume the seeded simulation RNG streams.
+  return `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 }
 
 /**
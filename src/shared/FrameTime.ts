@@ -10,6 +10,14 @@
 
 let _frameTimestamp = 0;
 
+/**
+ * Logical clock state for deterministic runs.
+ * While enabled, simulation time only moves when the scheduler advances it
+ * explicitly. Date.now() is left alone: auth, journaling, logging and HTTP
+ * keep running on wall time.
+ */
+let _logicalTime: number | null = null;
+
 /**
  * Gets the current frame timestamp.
  * Use this instead of Date.now() within systems.
@@ -21,6 +29,9 @@ let _frameTimestamp = 0;
  * @returns Current frame timestamp
  */
 export function getFrameTime(): number {
+  if (_logicalTime !== null) {
+    return _logicalTime;
+  }
   const realNow = Date.now();
   if (realNow - _frameTimestamp > 100) {
     _frameTimestamp = realNow;
@@ -28,6 +39,18 @@ export function getFrameTime(): number {
   return _frameTimestamp;
 }
 
+/**
+ * Gets the current simulation time, uncached: the logical clock in
+ * deterministic runs, the wall clock otherwise.
+ * Use this instead of Date.now() for anything that ends up in the
+ * simulation state, so replays observe the same values.
+ *
+ * @returns Current simulation timestamp
+ */
+export function getSimulationTime(): number {
+  return _logicalTime ?? Date.now();
+}
+
 /**
  * Updates the frame timestamp.
  * Should only be called by the scheduler at the start of each tick.
@@ -35,10 +58,55 @@ export function getFrameTime(): number {
  * @returns Updated timestamp
  */
 export function updateFrameTime(): number {
+  if (_logicalTime !== null) {
+    _frameTimestamp = _logicalTime;
+    return _frameTimestamp;
+  }
   _frameTimestamp = Date.now();
   return _frameTimestamp;
 }
 
+/**
+ * Switches to a logical clock starting at the given timestamp, until
+ * disableLogicalClock() is called.
+ *
+ * @param startMs - Initial logical timestamp in milliseconds
+ */
+export function enableLogicalClock(startMs: number): void {
+  _logicalTime = startMs;
+  _frameTimestamp = startMs;
+}
+
+/**
+ * Advances the logical clock.
+ *
+ * @param ms - Milliseconds to advance
+ * @returns New logical timestamp
+ * @throws Error if the logical clock is not enabled
+ */
+export function advanceLogicalClock(ms: number): number {
+  if (_logicalTime === null) {
+    throw new Error("Logical clock is not enabled");
+  }
+  _logicalTime += ms;
+  _frameTimestamp = _logicalTime;
+  return _logicalTime;
+}
+
+/**
+ * Returns to wall-clock time.
+ */
+export function disableLogicalClock(): void {
+  _logicalTime = null;
+}
+
+/**
+ * Whether the logical clock is currently driving frame time.
+ */
+export function isLogicalClockEnabled(): boolean {
+  return _logicalTime !== null;
+}
+
 /**
  * Alias for compatibility - returns the current frame timestamp.
  */
@@ -0,0 +1,35 @@
+/**
+ * Authentication and authorization enumerations.
+ *
+ * Defines the roles of API clients and the codes of rejected credentials
+ * and permissions.
+ *
+ * @module shared/constants/AuthEnums
+ */
+
+/**
+ * Enumeration of client roles, from least to most privileged. Each role may
+ * do everything the roles before it may.
+ */
+export enum Role {
+  /** Watches the simulation: state, streams and read-only endpoints */
+  SPECTATOR = "spectator",
+  /** Plays: gameplay commands on agents, buildings, trade... */
+  PLAYER = "player",
+  /** Runs the server: saves, worlds, time and god-mode commands */
+  ADMIN = "admin",
+}
+
+/**
+ * Enumeration of authentication and authorization error codes.
+ */
+export enum AuthErrorCode {
+  /** No credentials, and anonymous clients may not do this */
+  UNAUTHENTICATED = "UNAUTHENTICATED",
+  /** Unknown API key, or a session token with a bad format or signature */
+  INVALID_CREDENTIALS = "INVALID_CREDENTIALS",
+  /** Session token past its expiry */
+  TOKEN_EXPIRED = "TOKEN_EXPIRED",
+  /** Authenticated, but the role is below the one required */
+  FORBIDDEN = "FORBIDDEN",
+}
@@ -29,6 +29,8 @@ export enum SimulationCommandType {
   REPUTATION_COMMAND = "REPUTATION_COMMAND",
   TASK_COMMAND = "TASK_COMMAND",
   CONFLICT_COMMAND = "CONFLICT_COMMAND",
+  DIVINE_COMMAND = "DIVINE_COMMAND",
+  MARKET_COMMAND = "MARKET_COMMAND",
   TIME_COMMAND = "TIME_COMMAND",
   FORCE_EMERGENCE_EVALUATION = "FORCE_EMERGENCE_EVALUATION",
   SAVE_GAME = "SAVE_GAME",
@@ -86,6 +88,22 @@ export enum DialogueCommandType {
   RESPOND_TO_CARD = "RESPOND_TO_CARD",
 }
 
+/**
+ * Enumeration of divine command types.
+ */
+export enum DivineCommandType {
+  GRANT_BLESSING = "GRANT_BLESSING",
+  REVOKE_BLESSING = "REVOKE_BLESSING",
+}
+
+/**
+ * Enumeration of market command types.
+ */
+export enum MarketCommandType {
+  PLACE_ORDER = "PLACE_ORDER",
+  CANCEL_ORDER = "CANCEL_ORDER",
+}
+
 /**
  * Enumeration of building command types.
  */
@@ -124,6 +142,7 @@ export enum ConflictCommandType {
  */
 export enum TimeCommandType {
   SET_WEATHER = "SET_WEATHER",
+  SET_SEASON = "SET_SEASON",
 }
 
 /**
@@ -151,4 +170,6 @@ export enum SimulationRequestType {
   REQUEST_FULL_STATE = "REQUEST_FULL_STATE",
   REQUEST_ENTITY_DETAILS = "REQUEST_ENTITY_DETAILS",
   REQUEST_PLAYER_ID = "REQUEST_PLAYER_ID",
+  REQUEST_STATE_AT_TICK = "REQUEST_STATE_AT_TICK",
+  REQUEST_LOAD_SAVE = "REQUEST_LOAD_SAVE",
 }
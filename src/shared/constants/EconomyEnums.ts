@@ -21,6 +21,7 @@ export enum MarketOrderStatus {
   ACTIVE = "active",
   COMPLETED = "completed",
   CANCELLED = "cancelled",
+  EXPIRED = "expired",
 }
 
 /**
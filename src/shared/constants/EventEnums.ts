@@ -19,6 +19,8 @@ export enum GameEventType {
   RESOURCE_CONSUMED = "RESOURCE_CONSUMED",
   RESOURCE_DISCOVERED = "RESOURCE_DISCOVERED",
   RESOURCES_DEPOSITED = "RESOURCES_DEPOSITED",
+  FOOD_SPOILED = "FOOD_SPOILED",
+  FOOD_POISONING = "FOOD_POISONING",
 
   AGENT_BIRTH = "AGENT_BIRTH",
   AGENT_DEATH = "AGENT_DEATH",
@@ -89,6 +91,7 @@ export enum GameEventType {
   TERRAIN_MODIFIED = "TERRAIN_MODIFIED",
   TIME_WEATHER_CHANGED = "TIME_WEATHER_CHANGED",
   TIME_CHANGED = "TIME_CHANGED",
+  SEASON_CHANGED = "SEASON_CHANGED",
 
   LEGEND_UPDATE = "LEGEND_UPDATE",
   REPUTATION_UPDATED = "REPUTATION_UPDATED",
@@ -115,10 +118,19 @@ export enum GameEventType {
   NEED_SATISFIED = "NEED_SATISFIED",
   CRISIS_IMMEDIATE_WARNING = "CRISIS_IMMEDIATE_WARNING",
 
+  DISEASE_CONTRACTED = "DISEASE_CONTRACTED",
+  DISEASE_RECOVERED = "DISEASE_RECOVERED",
+  AGENT_WOUNDED = "AGENT_WOUNDED",
+  WOUND_HEALED = "WOUND_HEALED",
+
   KNOWLEDGE_LEARNED = "KNOWLEDGE_LEARNED",
   KNOWLEDGE_SHARED = "KNOWLEDGE_SHARED",
   KNOWLEDGE_ADDED = "KNOWLEDGE_ADDED",
 
+  RESEARCH_CATEGORY_UNLOCKED = "RESEARCH_CATEGORY_UNLOCKED",
+  RESEARCH_CATEGORY_COMPLETED = "RESEARCH_CATEGORY_COMPLETED",
+  RECIPE_DISCOVERED = "RECIPE_DISCOVERED",
+
   THREAT_DETECTED = "THREAT_DETECTED",
 
   TASK_CREATED = "TASK_CREATED",
@@ -130,6 +142,11 @@ export enum GameEventType {
   QUEST_STARTED = "QUEST_STARTED",
   QUEST_FAILED = "QUEST_FAILED",
 
+  GOAL_PROGRESS = "GOAL_PROGRESS",
+  GOAL_COMPLETED = "GOAL_COMPLETED",
+  SCENARIO_WON = "SCENARIO_WON",
+  SCENARIO_LOST = "SCENARIO_LOST",
+
   ROLE_ASSIGNED = "ROLE_ASSIGNED",
   ROLE_REASSIGNED = "ROLE_REASSIGNED",
   ROLE_SHIFT_CHANGED = "ROLE_SHIFT_CHANGED",
@@ -0,0 +1,21 @@
+/**
+ * Research type enumerations for the simulation system.
+ *
+ * Defines the categories of the lineage tech tree.
+ *
+ * @module shared/constants/ResearchEnums
+ */
+
+/**
+ * Enumeration of research category IDs.
+ */
+export enum ResearchCategoryId {
+  PRIMITIVE_TOOLS = "primitive_tools",
+  FOOD_PREPARATION = "food_preparation",
+  TEXTILES = "textiles",
+  CONSTRUCTION = "construction",
+  AGRICULTURE = "agriculture",
+  METALLURGY = "metallurgy",
+  ADVANCED_TOOLS = "advanced_tools",
+  WARFARE = "warfare",
+}
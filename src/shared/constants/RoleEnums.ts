@@ -32,6 +32,7 @@ export enum RoleType {
   HUNTER = "hunter",
   CRAFTSMAN = "craftsman",
   LEADER = "leader",
+  HEALER = "healer",
   IDLE = "idle",
 }
 
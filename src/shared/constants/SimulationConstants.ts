@@ -157,6 +157,18 @@ export const SIMULATION_CONSTANTS = {
     BASE_DAMAGE_MULTIPLIER: 1.0,
   } as const,
 
+  /**
+   * Health care thresholds.
+   */
+  HEALTH: {
+    /** Health ratio below which ill or wounded agents seek care urgently (30%). */
+    URGENT_CARE_THRESHOLD: 0.3,
+    /** Health ratio below which they rest where they are when there is no medical zone (50%). */
+    REST_HEALTH_THRESHOLD: 0.5,
+    /** Total wound severity from which wounded agents seek care. */
+    MIN_WOUND_SEVERITY: 10,
+  } as const,
+
   /**
    * Inventory system thresholds.
    */
@@ -247,8 +259,10 @@ export const SIMULATION_CONSTANTS = {
    * Resource decay and consumption rates.
    */
   RESOURCES: {
-    /** Food decay rate per tick. */
-    FOOD_DECAY_RATE: 0.02,
+    /** Shelf life of food without a catalog spoilTime (harvests, farms), ms. */
+    DEFAULT_FOOD_SPOIL_TIME_MS: 300000,
+    /** Chance that eating a unit of spoiled food causes food poisoning. */
+    SPOILED_FOOD_SICKNESS_CHANCE: 0.5,
     /** Water decay rate per tick. */
     WATER_DECAY_RATE: 0.01,
     /** Resource consumption rates per tick. */
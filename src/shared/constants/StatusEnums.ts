@@ -26,17 +26,50 @@ export enum StorageStatus {
 export enum StorageType {
   GCS = "gcs",
   LOCAL = "local",
+  S3 = "s3",
+  SQLITE = "sqlite",
 }
 
 /**
  * Type representing all possible storage type values.
  */
 
+/**
+ * Enumeration of save payload encodings.
+ */
+export enum SaveEncoding {
+  JSON = "json",
+  MSGPACK = "msgpack",
+}
+
+/**
+ * Enumeration of save compression algorithms.
+ */
+export enum SaveCompression {
+  NONE = "none",
+  GZIP = "gzip",
+  BROTLI = "brotli",
+}
+
 /**
  * Enumeration of storage file prefixes.
  */
 export enum StorageFilePrefix {
   SAVE = "save_",
+  JOURNAL = "journal_",
+  JOURNAL_BASE = "journal-base",
+  SAVE_TAGS = "tags_",
+  WORLD = "world_",
+}
+
+/**
+ * Enumeration of hosted world lifecycle states.
+ */
+export enum WorldStatus {
+  STARTING = "starting",
+  RUNNING = "running",
+  PAUSED = "paused",
+  STOPPED = "stopped",
 }
 
 /**
@@ -51,6 +51,19 @@ export enum SystemName {
   WORLD_QUERY = "worldQuery",
   TRADE = "trade",
   ROLE = "role",
+  HEALTH = "health",
+}
+
+/**
+ * Enumeration of the system state sections stored in saves.
+ */
+export enum PersistedSystem {
+  AI = "ai",
+  COMBAT = "combat",
+  MARRIAGE = "marriage",
+  RESOURCE_RESERVATION = "resourceReservation",
+  SHARED_KNOWLEDGE = "sharedKnowledge",
+  RESEARCH = "research",
 }
 
 /**
@@ -1,7 +1,7 @@
 /**
  * Time-related enumerations for the simulation system.
  *
- * Defines all time-related types including time of day phases.
+ * Defines all time-related types including time of day phases and seasons.
  *
  * @module shared/constants/TimeEnums
  */
@@ -20,6 +20,16 @@ export enum TimeOfDayPhase {
   DEEP_NIGHT = "deep_night",
 }
 
+/**
+ * Enumeration of seasons, in calendar order. Every year starts in spring.
+ */
+export enum Season {
+  SPRING = "spring",
+  SUMMER = "summer",
+  AUTUMN = "autumn",
+  WINTER = "winter",
+}
+
 /**
  * Type representing all possible time of day phase values.
  */
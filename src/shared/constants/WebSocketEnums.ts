@@ -15,6 +15,16 @@ export enum WebSocketMessageType {
   ERROR = "ERROR",
   RESPONSE = "RESPONSE",
   TICK = "TICK",
+  /** Client → server: restrict the tick stream to a subscription */
+  SUBSCRIBE = "SUBSCRIBE",
+  /** Client → server: go back to the unfiltered tick stream */
+  UNSUBSCRIBE = "UNSUBSCRIBE",
+  /** Server → client: acknowledges SUBSCRIBE / UNSUBSCRIBE */
+  SUBSCRIBED = "SUBSCRIBED",
+  /** Client → server: last tick applied, base for the next deltas */
+  ACK = "ACK",
+  /** Server → client: a save was loaded; the next TICK is a full snapshot */
+  STATE_LOADED = "STATE_LOADED",
 }
 
 /**
@@ -48,6 +58,29 @@ export enum WorkerMessageType {
   ERROR = "error",
   SNAPSHOT = "snapshot",
   SHUTDOWN = "shutdown",
+  REPLAY = "replay",
+  /** Host → world worker: invoke a WorldWorkerCall, answered with RESULT */
+  CALL = "call",
+  /** Host → world worker: start or stop forwarding ticks */
+  STREAM = "stream",
+  /** World worker → host: snapshot of a finished tick */
+  TICK = "tick",
+  /** World worker → host: a save was hot-loaded */
+  STATE_LOADED = "stateLoaded",
+}
+
+/**
+ * Enumeration of the operations a world worker runs for its host.
+ */
+export enum WorldWorkerCall {
+  SNAPSHOT = "snapshot",
+  REQUEST = "request",
+  COMMAND = "command",
+  STATUS = "status",
+  PAUSE = "pause",
+  RESUME = "resume",
+  SAVE = "save",
+  SHUTDOWN = "shutdown",
 }
 
 /**
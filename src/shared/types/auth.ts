@@ -0,0 +1,48 @@
+import type { AuthErrorCode, Role } from "../constants/AuthEnums";
+
+/**
+ * Who a request or WebSocket connection acts as.
+ */
+export interface AuthIdentity {
+  /** API key name or token subject; "anonymous" without credentials */
+  subject: string;
+  /** Role granted, null for anonymous clients when anonymous access is off */
+  role: Role | null;
+  /** How the identity was established */
+  method: "api_key" | "token" | "anonymous";
+  /** Expiry of the session token, ms since epoch */
+  expiresAt?: number;
+}
+
+/**
+ * Why a client was not allowed to do something.
+ */
+export interface AuthError {
+  code: AuthErrorCode;
+  message: string;
+  /** Least role that would have been allowed, for FORBIDDEN */
+  requiredRole?: Role;
+}
+
+/**
+ * Outcome of authenticating a credential.
+ */
+export type AuthResult =
+  { ok: true; identity: AuthIdentity } | { ok: false; error: AuthError };
+
+/**
+ * A signed session token and what it grants.
+ */
+export interface SessionToken {
+  token: string;
+  subject: string;
+  role: Role;
+  /** Expiry, ms since epoch */
+  expiresAt: number;
+}
+
+/**
+ * Outcome of issuing a session token.
+ */
+export type TokenResult =
+  { ok: true; session: SessionToken } | { ok: false; error: AuthError };
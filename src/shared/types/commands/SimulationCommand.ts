@@ -9,10 +9,18 @@ import { BiomeType } from "../../constants/BiomeEnums";
 import { NeedType } from "../../constants/AIEnums";
 import { Sex } from "../../constants/AgentEnums";
 import { WeatherType } from "../../constants/AmbientEnums";
+import type { Season } from "../../constants/TimeEnums";
 import { ActivityType } from "../../constants/MovementEnums";
 import { AnimalType } from "../../constants/AnimalEnums";
 import { BuildingType } from "../../constants/BuildingEnums";
 import { SystemProperty } from "../../constants/SystemEnums";
+import { GodId } from "../../constants/DivineEnums";
+import { MarketOrderType } from "../../constants/EconomyEnums";
+import type { AuthErrorCode, Role } from "../../constants/AuthEnums";
+import type {
+  BlessingTarget,
+  BlessingType,
+} from "../../../shared/types/simulation/divine";
 
 export type ResourcesState = NonNullable<GameState[SystemProperty.RESOURCES]>;
 
@@ -171,6 +179,25 @@ export interface ConflictCommandPayload {
   choice?: ConflictResolutionChoice;
 }
 
+export interface DivineCommandPayload {
+  godId?: GodId;
+  blessingType?: BlessingType;
+  target?: BlessingTarget;
+  durationMs?: number;
+  blessingId?: string;
+}
+
+export interface MarketCommandPayload {
+  /** Agent trading, also required to cancel its orders */
+  agentId?: string;
+  orderType?: MarketOrderType;
+  resource?: ResourceType;
+  amount?: number;
+  priceLimit?: number;
+  ttlMs?: number;
+  orderId?: string;
+}
+
 export interface PingPayload {
   message?: string;
   timestamp?: number;
@@ -213,6 +240,8 @@ import {
   AgentCommandType,
   AnimalCommandType,
   ConflictCommandType,
+  DivineCommandType,
+  MarketCommandType,
 } from "../../constants/CommandEnums";
 import { ConflictResolutionChoice } from "../../constants/ConflictEnums";
 import type { TaskType } from "../../../shared/types/simulation/tasks";
@@ -300,10 +329,25 @@ export type SimulationCommand =
       command: ConflictCommandType;
       payload?: ConflictCommandPayload;
     }
+  | {
+      type: SimulationCommandType.DIVINE_COMMAND;
+      command: DivineCommandType;
+      payload?: DivineCommandPayload;
+    }
+  | {
+      type: SimulationCommandType.MARKET_COMMAND;
+      command: MarketCommandType;
+      payload?: MarketCommandPayload;
+      /**
+       * Role of the client that sent it, set by the server once authorized
+       * (see CommandProcessor.stampIssuer); the client's value is ignored
+       */
+      issuerRole?: Role;
+    }
   | {
       type: SimulationCommandType.TIME_COMMAND;
       command: TimeCommandType;
-      payload?: { weatherType: WeatherType };
+      payload?: { weatherType?: WeatherType; season?: Season };
     }
   | {
       type: SimulationCommandType.FORCE_EMERGENCE_EVALUATION;
@@ -314,9 +358,20 @@ export type SimulationCommand =
 export interface SimulationConfig {
   tickIntervalMs: number;
   maxCommandQueue: number;
+  /** Base seed for per-system RNG streams */
+  seed?: string;
+  /** Run with seeded RNG, a logical clock and step-driven scheduling */
+  deterministic?: boolean;
+  /** Number of per-tick checksums retained in deterministic mode */
+  checksumHistory?: number;
+  /** Steps between state checksums in deterministic mode; 1 records every step */
+  checksumInterval?: number;
+  /** Auto-saves and command journal persistence (disabled in replay sandboxes) */
+  persistence?: boolean;
 }
 
 import { SimulationRequestType } from "../../constants/CommandEnums";
+import { WebSocketMessageType } from "../../constants/WebSocketEnums";
 
 export type SimulationRequest =
   | {
@@ -331,4 +386,53 @@ export type SimulationRequest =
   | {
       type: SimulationRequestType.REQUEST_PLAYER_ID;
       requestId: string;
+    }
+  | {
+      type: SimulationRequestType.REQUEST_STATE_AT_TICK;
+      requestId: string;
+      tick: number;
+    }
+  | {
+      type: SimulationRequestType.REQUEST_LOAD_SAVE;
+      requestId: string;
+      saveId: string;
     };
+
+/**
+ * Per-connection filter for the `/ws/sim` tick stream, sent with a
+ * SUBSCRIBE message. Omitted fields do not filter; the ones present must
+ * all match.
+ */
+export interface SimulationSubscription {
+  /** Exact event types to receive */
+  eventTypes?: GameEventType[];
+  /** Event type prefixes, e.g. "COMBAT" matches COMBAT_HIT and COMBAT_KILL */
+  eventCategories?: string[];
+  /** Agents to follow: restricts agents/entities and agent-related events */
+  agentIds?: string[];
+  /** World rectangle: restricts every positioned section and event */
+  viewport?: { x: number; y: number; width: number; height: number };
+  /** Send state deltas with the events (default true) */
+  includeState?: boolean;
+}
+
+export type SimulationStreamMessage =
+  | {
+      type: WebSocketMessageType.SUBSCRIBE;
+      subscription: SimulationSubscription;
+    }
+  | { type: WebSocketMessageType.UNSUBSCRIBE }
+  | { type: WebSocketMessageType.ACK; tick: number };
+
+/**
+ * ERROR message sent to a simulation stream client. Commands its role may
+ * not send are answered with the auth error code and the role required.
+ */
+export interface SimulationErrorMessage {
+  type: WebSocketMessageType.ERROR;
+  message: string;
+  code?: AuthErrorCode;
+  requiredRole?: Role;
+  /** Type of the command that was rejected */
+  commandType?: string;
+}
@@ -17,9 +17,17 @@ import type {
   ResourceAttractionSnapshot,
 } from "./simulation/ambient";
 import type { AgentProfile } from "./simulation/agents";
+import type { ScenarioState } from "./simulation/scenario";
+import type { GoalsState } from "./simulation/goals";
+import type { CalendarState } from "./simulation/seasons";
+import type { HealthState } from "./simulation/health";
 import type { SimulationEntity } from "@/domain/simulation/core/schema";
 import type { SocialGroup } from "./simulation/social";
-import type { MarketOrder, Transaction } from "./simulation/economy";
+import type {
+  MarketOrder,
+  MarketPricePoint,
+  Transaction,
+} from "./simulation/economy";
 import type { AgentRole } from "./simulation/roles";
 import type { LegendRecord } from "./simulation/legends";
 import type { FamilyTree, SerializedFamilyTree } from "./simulation/genealogy";
@@ -64,6 +72,7 @@ import type {
 } from "./simulation/conflict";
 import type { Animal } from "./simulation/animals";
 import type { TechTreeState } from "./simulation/research";
+import type { DivineState } from "./simulation/divine";
 import type { SerializedReputationData } from "./simulation/reputation";
 import type {
   NormViolation,
@@ -213,9 +222,13 @@ export interface ObjectLayer {
 }
 
 export interface MarketState {
+  /** Open orders of the order book */
   orders: MarketOrder[];
+  /** Most recent trades, oldest first */
   transactions: Transaction[];
   prices: Record<string, number>;
+  /** Clearing prices per resource, oldest first */
+  priceHistory?: Record<string, MarketPricePoint[]>;
 }
 
 export interface SocialGraphState {
@@ -229,7 +242,9 @@ export interface RolesState {
 }
 
 export interface LegendsState {
-  records: Map<string, LegendRecord>;
+  /** Legend records keyed by agent ID */
+  records: Record<string, LegendRecord>;
+  /** Agents at "renowned" tier or above, most reputed first */
   activeLegends: string[];
 }
 
@@ -238,6 +253,7 @@ export interface StockpileSnapshot {
   capacity: number;
   type: StockpileType;
   zoneId: string;
+  compost?: number;
 }
 
 export interface InventoryState {
@@ -457,6 +473,7 @@ export interface GameState {
   cycles: number;
   weather: WeatherState;
   timeOfDay?: TimeOfDayPhase;
+  calendar?: CalendarState;
   enhancedCrafting?: EnhancedCraftingState;
   worldResources?: Record<string, WorldResourceInstance>;
   socialGraph?: SocialGraphState;
@@ -465,6 +482,7 @@ export interface GameState {
   economy?: EconomyState;
   roles?: RolesState;
   legends?: LegendsState;
+  health?: HealthState;
   genealogy?: FamilyTree | SerializedFamilyTree;
   governance?: GovernanceSnapshot;
   combatLog?: CombatLogEntry[];
@@ -477,12 +495,15 @@ export interface GameState {
 
   conflicts?: ConflictState;
   research?: ResearchState;
+  divine?: DivineState;
   recipes?: RecipeState;
   reputation?: ReputationState;
   norms?: NormsState;
   animals?: AnimalState;
   knowledgeGraph?: KnowledgeGraphState;
   tasks?: TaskState;
+  scenario?: ScenarioState;
+  goals?: GoalsState;
 
   resonance?: number;
   lastSave?: number;
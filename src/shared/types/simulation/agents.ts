@@ -28,6 +28,54 @@ export interface AgentAppearance {
   eyeColor: string;
 }
 
+/**
+ * One copy of a gene. Dominant alleles mask recessive ones.
+ */
+export interface Allele<T = number> {
+  value: T;
+  dominant: boolean;
+}
+
+/** The two alleles of a gene, one from each parent */
+export type Gene<T = number> = [Allele<T>, Allele<T>];
+
+/** Personality traits coded by genes; stamina is a physical gene */
+export type PersonalityGene = Exclude<keyof AgentTraits, "stamina">;
+
+/**
+ * Physical stats coded by genes.
+ */
+export interface AgentPhysique {
+  /** Multiplier of the maximum age */
+  lifespan: number;
+  /** Multiplier of how often the agent can have children */
+  fertility: number;
+  /** Expressed as the `stamina` trait, 0-1 */
+  stamina: number;
+}
+
+/**
+ * Heritable predispositions, as multipliers around 1.
+ */
+export interface AgentPredispositions {
+  /** Divides the chance of catching diseases */
+  immunity: number;
+  /** Multiplier of how fast wounds heal */
+  healing: number;
+}
+
+/**
+ * Genes of an agent. Traits, appearance, physique and predispositions are
+ * expressed from them, and children get one allele of each gene from each
+ * parent.
+ */
+export interface AgentGenome {
+  appearance: Record<keyof AgentAppearance, Gene<string>>;
+  personality: Record<PersonalityGene, Gene>;
+  physical: Record<keyof AgentPhysique, Gene>;
+  predispositions: Record<keyof AgentPredispositions, Gene>;
+}
+
 export interface AgentProfile {
   id: string;
   name: string;
@@ -40,6 +88,8 @@ export interface AgentProfile {
   isDead?: boolean;
   traits: AgentTraits;
   appearance?: AgentAppearance;
+  /** Agents from saves made before genetics have none until they breed */
+  genome?: AgentGenome;
   socialStatus?: SocialStatus;
   parents?: {
     father?: string;
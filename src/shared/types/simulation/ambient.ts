@@ -11,6 +11,7 @@ import {
   DialogueOutcome,
   WeatherType,
 } from "../../../shared/constants/AmbientEnums";
+import { ConflictResolutionChoice } from "../../../shared/constants/ConflictEnums";
 
 export interface NeedDesireSnapshot {
   agentId: string;
@@ -128,6 +129,10 @@ export interface DialogueChoice {
     relationship?: number;
     unlocksMission?: string;
     moveTo?: string;
+    /** Resources added to (or, if negative, taken from) the first participant */
+    resources?: Partial<Record<ResourceType, number>>;
+    /** Resolves the conflict the card was raised for */
+    conflictResolution?: ConflictResolutionChoice;
   };
 }
 
@@ -154,11 +159,18 @@ export interface DialogueCard {
   duration: number;
   consequences?: DialogueConsequences;
   timestamp: number;
+  /** Choice picked by the player, once answered */
+  resolvedChoiceId?: string;
+  resolvedAt?: number;
+  /** True when the card timed out without an answer */
+  expired?: boolean;
 }
 
 export interface DialogueStateSnapshot {
   active: DialogueCard[];
   history: DialogueCard[];
+  /** Cards waiting for a free slot, highest priority first */
+  queue?: DialogueCard[];
   queueSize: number;
   lastGeneratedAt: number;
 }
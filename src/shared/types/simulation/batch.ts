@@ -0,0 +1,99 @@
+import type { Scenario } from "./scenario";
+
+/**
+ * Settings of one headless batch run.
+ */
+export interface BatchRunOptions {
+  /** Base seed for RNG streams */
+  seed: string;
+  /** Ticks of the simulation tick counter to advance */
+  ticks: number;
+  /** World size in tiles */
+  width: number;
+  height: number;
+  /** A sample is taken every this many ticks, and after the last one */
+  sampleEvery: number;
+  /** Scenario the world is set up from; the run's seed and size override its own */
+  scenario?: Scenario;
+}
+
+/**
+ * Metrics of a run at one tick. Births, deaths and conflicts are cumulative
+ * since the run started.
+ */
+export interface BatchSample {
+  tick: number;
+  /** Living agents */
+  population: number;
+  births: number;
+  deaths: number;
+  /** Combat engagements */
+  conflicts: number;
+  /** Average of each need over living agents */
+  needs: Record<string, number>;
+  /** Stock of each material plus energy and currency */
+  resources: Record<string, number>;
+  /** Scenario outcome so far, when the scenario has goals */
+  goals?: BatchGoalsSample;
+}
+
+/**
+ * Scenario outcome in a sample. `won` and `lost` are 0 or 1, so their mean
+ * across runs is the win and loss rate.
+ */
+export interface BatchGoalsSample {
+  won: number;
+  lost: number;
+  /** Average progress of the victory conditions, from 0 to 1 */
+  progress: number;
+}
+
+/**
+ * Time series of a finished run.
+ */
+export interface BatchRunResult {
+  seed: string;
+  ticks: number;
+  durationMs: number;
+  samples: BatchSample[];
+}
+
+/**
+ * Distribution of a metric's final value across runs.
+ */
+export interface BatchMetricSummary {
+  mean: number;
+  min: number;
+  max: number;
+  stdDev: number;
+}
+
+/**
+ * Change of a metric's mean against a baseline report.
+ */
+export interface BatchMetricChange {
+  baseline: number;
+  current: number;
+  delta: number;
+  /** Delta relative to the baseline, null when the baseline is zero */
+  relative: number | null;
+}
+
+/**
+ * Aggregate of a batch: final metrics of every run summarized by metric.
+ */
+export interface BatchReport {
+  /** ISO time the report was written */
+  generatedAt: string;
+  /** ID of the scenario the runs were set up from */
+  scenario: string | null;
+  ticks: number;
+  width: number;
+  height: number;
+  seeds: string[];
+  /** Final value of every metric, by metric then seed */
+  finals: Record<string, Record<string, number>>;
+  summary: Record<string, BatchMetricSummary>;
+  /** Present when the batch was compared against a baseline report */
+  comparison?: Record<string, BatchMetricChange>;
+}
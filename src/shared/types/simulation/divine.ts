@@ -66,3 +66,11 @@ export interface DivineFavor {
   blessings: string[];
   history: DivineFavorEvent[];
 }
+
+export interface DivineState {
+  powers: DivinePower[];
+  activeBlessings: Blessing[];
+  favor: DivineFavor[];
+  /** Most recent favor events across all lineages, oldest first */
+  history: DivineFavorEvent[];
+}
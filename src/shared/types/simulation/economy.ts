@@ -10,9 +10,27 @@ import {
  */
 export { ResourceType };
 
+/**
+ * Food produced at the same time, which spoils together.
+ */
+export interface FoodBatch {
+  /** FoodCatalog id; generic food (hunting, scenario stock) has none */
+  foodId?: string;
+  amount: number;
+  /** When the food was produced, ms since epoch */
+  producedAt: number;
+  /**
+   * Shelf life used up, ms. Grows slower than real time in storage and in
+   * the cold; the food spoils when it reaches the food's `spoilTime`.
+   */
+  age: number;
+  spoiled?: boolean;
+}
+
 export interface Inventory {
   wood: number;
   stone: number;
+  /** Total food, fresh and spoiled */
   food: number;
   water: number;
   rare_materials: number;
@@ -21,6 +39,8 @@ export interface Inventory {
   copper_ore: number;
   capacity: number;
   lastUpdateTime?: number;
+  /** Age of the food, oldest first */
+  foodBatches?: FoodBatch[];
 }
 
 export interface Stockpile {
@@ -30,6 +50,8 @@ export interface Stockpile {
   capacity: number;
   type: StockpileType;
   lastUpdateTime?: number;
+  /** Spoiled food turned into compost, which fertilizes farms */
+  compost?: number;
 }
 
 export interface EconomyConfig {
@@ -80,11 +102,24 @@ export interface MarketOrder {
   type: MarketOrderType;
   resource: ResourceType;
   amount: number;
+  /** Price per unit; orders without a limit trade at the counterparty's price */
   priceLimit?: number;
+  /** Units already traded; the order completes when it reaches `amount` */
+  filledAmount?: number;
   timestamp: number;
+  expiresAt?: number;
   status: MarketOrderStatus;
 }
 
+/**
+ * Volume-weighted price of the trades of one resource in one clearing.
+ */
+export interface MarketPricePoint {
+  timestamp: number;
+  price: number;
+  volume: number;
+}
+
 export interface InventoryItem {
   type: ResourceType;
   amount: number;
@@ -1,4 +1,9 @@
-import { AgentTraits } from "./agents";
+import {
+  AgentGenome,
+  AgentPhysique,
+  AgentPredispositions,
+  AgentTraits,
+} from "./agents";
 
 export interface Lineage {
   id: string;
@@ -32,6 +37,10 @@ export interface Ancestor {
   };
   children: string[];
   traits: AgentTraits;
+  /** Absent for agents born before genetics */
+  genome?: AgentGenome;
+  /** From AgentGenetics.calculateFitness */
+  fitness?: number;
   lineageId: string;
 }
 
@@ -67,6 +76,20 @@ export interface TraitInheritance {
   mutation?: number;
 }
 
+/**
+ * Average genetics of the agents born in a generation, to follow selection
+ * over generations.
+ */
+export interface GenerationGenetics {
+  generation: number;
+  /** Agents of the generation with a genome */
+  count: number;
+  averageFitness: number;
+  averageTraits: AgentTraits;
+  averagePhysique: AgentPhysique;
+  averagePredispositions: AgentPredispositions;
+}
+
 export interface LineageStats {
   lineageId: string;
   surname: string;
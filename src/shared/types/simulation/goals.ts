@@ -0,0 +1,36 @@
+import type { ScenarioCondition } from "./scenario";
+
+/**
+ * Progress of one scenario condition.
+ */
+export interface GoalProgress {
+  /** `victory_<index>` or `failure_<index>` */
+  id: string;
+  kind: "victory" | "failure";
+  condition: ScenarioCondition;
+  /** How close the condition is to holding, from 0 to 1 */
+  progress: number;
+  /** Whether the condition holds at the last evaluation */
+  met: boolean;
+  /** Game time the condition first held, in ms since the world started */
+  completedAt?: number;
+}
+
+/**
+ * Goals of the running scenario, evaluated every slow tick.
+ *
+ * The scenario is won when every victory condition holds at once and lost
+ * as soon as any failure condition holds; after that it is no longer
+ * evaluated.
+ */
+export interface GoalsState {
+  scenarioId: string;
+  status: "active" | "won" | "lost";
+  /** Game time the world has been running, in ms */
+  elapsedMs: number;
+  /** Game time of the last starvation death, null if none */
+  lastStarvationMs: number | null;
+  goals: GoalProgress[];
+  /** Game time the scenario was won or lost */
+  endedAt?: number;
+}
@@ -0,0 +1,68 @@
+/**
+ * Diseases agents can catch.
+ */
+export type DiseaseId = "fever" | "dysentery" | "infection";
+
+/**
+ * How a disease spreads, harms and heals.
+ */
+export interface DiseaseConfig {
+  id: DiseaseId;
+  name: string;
+  /** Chance per second of infecting each agent within `spreadRadius`; 0 if not contagious */
+  contagion: number;
+  spreadRadius: number;
+  /** Health lost per second */
+  healthDrain: number;
+  /** Energy lost per second */
+  energyDrain: number;
+  /** Time to recover without care, ms */
+  recoveryTime: number;
+  /** How long an agent who recovered cannot catch it again, ms */
+  immunityTime: number;
+}
+
+export interface Illness {
+  diseaseId: DiseaseId;
+  contractedAt: number;
+  /** From 0 when contracted to 1 when recovered */
+  recovery: number;
+}
+
+export type WoundCause = "combat" | "hunting";
+
+export interface Wound {
+  id: string;
+  cause: WoundCause;
+  /** Health still to recover as the wound heals */
+  severity: number;
+  inflictedAt: number;
+}
+
+/**
+ * Diseases, wounds and immunities of an agent. Agents who never fell ill
+ * nor got hurt have no record.
+ */
+export interface AgentHealthRecord {
+  agentId: string;
+  illnesses: Illness[];
+  wounds: Wound[];
+  /** Time each immunity ends, by disease */
+  immunities: Partial<Record<DiseaseId, number>>;
+}
+
+export interface HealthState {
+  /** Health records keyed by agent ID */
+  records: Record<string, AgentHealthRecord>;
+}
+
+/**
+ * Health of an agent as shown in entity details.
+ */
+export interface AgentHealthDetails {
+  health: number;
+  maxHealth: number;
+  illnesses: Array<Illness & { name: string }>;
+  wounds: Wound[];
+  immunities: Partial<Record<DiseaseId, number>>;
+}
@@ -9,7 +9,8 @@ export interface LegendRecord {
 
   deeds: LegendDeed[];
 
-  actionsCompleted: Map<string, number>;
+  /** Deed counts by kind (kill, hunt, build, marriage, discovery) */
+  actionsCompleted: Record<string, number>;
   relationshipCount: number;
 
   auraColor: number;
@@ -30,8 +31,25 @@ export interface LegendRecord {
   becameLegendAt?: number;
 }
 
+export type LegendTier = LegendRecord["legendTier"];
+
+/** Legend tiers in ascending order */
+export const LEGEND_TIERS: readonly LegendTier[] = [
+  "unknown",
+  "known",
+  "respected",
+  "renowned",
+  "legendary",
+  "mythical",
+];
+
+/** Simulation events that count as deeds */
+export type LegendDeedKind =
+  "kill" | "hunt" | "build" | "marriage" | "discovery";
+
 export interface LegendDeed {
   id: string;
+  kind?: LegendDeedKind;
   type: "heroic" | "villainous" | "neutral";
   description: string;
   impact: number;
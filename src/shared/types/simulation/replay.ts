@@ -0,0 +1,73 @@
+import type { SimulationCommand } from "../commands/SimulationCommand";
+import type { GameState } from "../game-types";
+import type { RandomStreamsState } from "../../utils/RandomUtils";
+
+/**
+ * A command as applied by the CommandProcessor, stamped with the tick it ran on.
+ */
+export interface CommandJournalEntry {
+  /** Monotonic sequence number across restarts */
+  seq: number;
+  /** Tick counter value when the command was applied */
+  tick: number;
+  /** Wall-clock (or logical) time when the command was applied */
+  appliedAt: number;
+  command: SimulationCommand;
+}
+
+/**
+ * Runtime clock captured in saves so a loaded run continues on the same tick
+ * and, in deterministic mode, with the same RNG sequences.
+ */
+export interface SimulationClockState {
+  tick: number;
+  step: number;
+  logicalTime?: number;
+  rng?: RandomStreamsState;
+  /** Whether the run was deterministic (absent in older saves) */
+  deterministic?: boolean;
+}
+
+/**
+ * Private state of one system stored in a save, versioned independently of
+ * the save format.
+ */
+export interface PersistedSystemState {
+  version: number;
+  data: unknown;
+}
+
+/**
+ * Result of rebuilding a past state from a save plus the command journal.
+ */
+export interface ReplayResult {
+  requestedTick: number;
+  /** Tick actually reached (first tick at or after the requested one) */
+  tick: number;
+  baseSaveId: string;
+  baseTick: number;
+  commandsApplied: number;
+  checksum: string;
+  /** Checksum the live run recorded at `tick`, null when it recorded none */
+  expectedChecksum: string | null;
+  /**
+   * Whether `checksum` matches `expectedChecksum`; null when there was no
+   * recorded checksum to compare against and the replay is unverified
+   */
+  exact: boolean | null;
+  durationMs: number;
+  state: GameState;
+}
+
+/**
+ * Result of loading a save into the running simulation.
+ */
+export interface SaveLoadResult {
+  saveId: string;
+  /** Tick the simulation resumed at */
+  tick: number;
+  agentCount: number;
+  /** Queued commands dropped because they targeted the previous world */
+  droppedCommands: number;
+  durationMs: number;
+}
@@ -0,0 +1,178 @@
+import type { LifeStage, Sex } from "../../constants/AgentEnums";
+import type { AnimalType } from "../../constants/AnimalEnums";
+import type { BuildingType } from "../../constants/BuildingEnums";
+import type {
+  ResourceType,
+  WorldResourceType,
+} from "../../constants/ResourceEnums";
+import type { StockpileType, ZoneType } from "../../constants/ZoneEnums";
+import type { AgentTraits } from "./agents";
+import type { LegendTier } from "./legends";
+
+/**
+ * An agent present when the scenario starts.
+ */
+export interface ScenarioAgent {
+  /** Referenced by relations and parents */
+  id: string;
+  name?: string;
+  /** Default: female */
+  sex?: Sex;
+  /** Default: 25 */
+  ageYears?: number;
+  /** Default: adult */
+  lifeStage?: LifeStage;
+  immortal?: boolean;
+  /** Missing traits are rolled at random */
+  traits?: Partial<AgentTraits>;
+  /** World position in pixels; a valid random one when absent */
+  position?: { x: number; y: number };
+  /** IDs of other scenario agents */
+  parents?: { father?: string; mother?: string };
+}
+
+/**
+ * A relationship between two starting agents.
+ */
+export interface ScenarioRelation {
+  between: [string, string];
+  /** Affinity from -1 (enemies) to 1 (close friends) */
+  affinity?: number;
+  /** Permanent bond; `marriage` also forms a marriage group */
+  bond?: "family" | "marriage";
+}
+
+/**
+ * A stockpile inside a pre-placed zone.
+ */
+export interface ScenarioStockpile {
+  /** Default: general */
+  type?: StockpileType;
+  /** Default: 1000 */
+  capacity?: number;
+  contents?: Partial<Record<ResourceType, number>>;
+}
+
+/**
+ * A pre-placed zone, optionally a finished building.
+ */
+export interface ScenarioZone {
+  /** Default: `zone_<index>` */
+  id?: string;
+  type: ZoneType;
+  building?: BuildingType;
+  /** Bounds in pixels */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  props?: Record<string, number | string>;
+  stockpile?: ScenarioStockpile;
+}
+
+/**
+ * Animals spawned when the scenario starts.
+ */
+export interface ScenarioAnimalGroup {
+  type: AnimalType;
+  count: number;
+  /** Center of the group in pixels; the agents' center when absent */
+  near?: { x: number; y: number };
+  /** Spread around the center in pixels (default: 300) */
+  radius?: number;
+}
+
+/**
+ * A condition checked against the running world. Days are game days of the
+ * TimeSystem clock, counted from when the world started running.
+ */
+export type ScenarioCondition =
+  /** Living agents within the bounds */
+  | { type: "population"; min?: number; max?: number }
+  | { type: "survive_days"; days: number }
+  /** Finished buildings of a type (default count: 1) */
+  | { type: "building"; building: BuildingType; count?: number }
+  /** Agents that reached a legend tier or a higher one (default count: 1) */
+  | { type: "legend"; tier: LegendTier; count?: number }
+  /** Days in a row without a starvation death, e.g. a season */
+  | { type: "no_starvation"; days: number };
+
+export interface ScenarioConditions {
+  /** All must hold to win */
+  victory: ScenarioCondition[];
+  /** Any one loses the scenario */
+  failure: ScenarioCondition[];
+}
+
+/**
+ * Settings the batch CLI takes from a scenario; its flags override them.
+ */
+export interface ScenarioBatchSettings {
+  seeds?: string[];
+  runs?: number;
+  ticks?: number;
+  sampleEvery?: number;
+}
+
+/**
+ * Declarative description of a starting world.
+ *
+ * Each section replaces the matching default when present: `agents` the
+ * founding family, `zones` the starter buildings and stockpile, `animals`
+ * the initial herds around the agents.
+ */
+export interface Scenario {
+  /** Lowercase letters, digits and dashes; also the file name */
+  id: string;
+  name: string;
+  description?: string;
+  world?: {
+    /** In tiles (default: 128) */
+    width?: number;
+    height?: number;
+    /** Base seed for RNG streams */
+    seed?: string;
+    /** Seed of the terrain noise (default: 12345) */
+    terrainSeed?: number;
+  };
+  agents?: ScenarioAgent[];
+  relations?: ScenarioRelation[];
+  zones?: ScenarioZone[];
+  animals?: ScenarioAnimalGroup[];
+  /**
+   * Fraction of the natural resource nodes that spawn, by type, from 0 to 1
+   * (default: 1). Applies to the initial world and to chunks loaded later.
+   */
+  resourceAbundance?: Partial<Record<WorldResourceType, number>>;
+  /** Scheduled systems to leave disabled, by name (e.g. `CombatSystem`) */
+  systems?: { disabled?: string[] };
+  conditions?: Partial<ScenarioConditions>;
+  batch?: ScenarioBatchSettings;
+}
+
+/**
+ * The part of a scenario that stays in the game state and is saved with it.
+ */
+export interface ScenarioState {
+  id: string;
+  name: string;
+  description?: string;
+  /** Whether the founding family is replaced by the scenario's agents */
+  replacesFamily: boolean;
+  /** Whether the starter buildings are replaced by the scenario's zones */
+  replacesInfrastructure: boolean;
+  /** Whether the initial herds are replaced by the scenario's animals */
+  replacesAnimals: boolean;
+  resourceAbundance: Partial<Record<WorldResourceType, number>>;
+  disabledSystems: string[];
+  conditions: ScenarioConditions;
+}
+
+/**
+ * Entry of the scenario catalogue.
+ */
+export interface ScenarioSummary {
+  id: string;
+  name: string;
+  description?: string;
+}
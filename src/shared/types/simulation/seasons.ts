@@ -0,0 +1,47 @@
+import type { WeatherType } from "../../constants/AmbientEnums";
+import type { Season } from "../../constants/TimeEnums";
+
+/**
+ * Position of the world in the annual calendar, kept in the game state so
+ * it shows up in snapshots and survives saves.
+ */
+export interface CalendarState {
+  /** Game days elapsed since the world started */
+  day: number;
+  /** Starts at 1 */
+  year: number;
+  season: Season;
+  /** Day within the season, from 0 */
+  dayOfSeason: number;
+  daysPerSeason: number;
+}
+
+/**
+ * How a season changes world behavior.
+ */
+export interface SeasonEffects {
+  /** Speed of world resource regrowth; 0 stops it */
+  resourceRegrowth: number;
+  /** Multiplier of food production in farm zones */
+  farmYield: number;
+  /** Whether animals mate */
+  animalBreeding: boolean;
+  /** Multiplier of agent energy decay */
+  energyDecay: number;
+  /** Multiplier of agent thirst decay */
+  thirstDecay: number;
+  /** Relative chance of each weather type when the weather changes */
+  weatherWeights: Record<WeatherType, number>;
+}
+
+/**
+ * Temperature curve of a biome, in °C.
+ */
+export interface BiomeClimate {
+  /** Yearly mean */
+  mean: number;
+  /** Deviation from the mean at midsummer (+) and midwinter (−) */
+  seasonalAmplitude: number;
+  /** Deviation from the seasonal value at midday (+) and midnight (−) */
+  dailyAmplitude: number;
+}
@@ -14,6 +14,7 @@ import { Position } from "../game-types";
 import { RandomUtils } from "@/shared/utils/RandomUtils";
 
 import { GoalType, ActionType } from "@/shared/constants/AIEnums";
+import { getSimulationTime } from "@/shared/FrameTime";
 
 /**
  * Unified Task Types
@@ -273,8 +274,8 @@ export const TASK_TIMEOUTS: Record<TaskType, number> = {
  * Create a new task with defaults
  */
 export function createTask(params: CreateTaskParams): AgentTask {
-  const id = `task_${Date.now()}_${RandomUtils.float().toString(36).slice(2, 7)}`;
-  const now = Date.now();
+  const id = `task_${getSimulationTime()}_${RandomUtils.float().toString(36).slice(2, 7)}`;
+  const now = getSimulationTime();
 
   return {
     id,
@@ -290,7 +291,7 @@ export function createTask(params: CreateTaskParams): AgentTask {
  */
 export function isTaskExpired(
   task: AgentTask,
-  now: number = Date.now(),
+  now: number = getSimulationTime(),
 ): boolean {
   return task.expiresAt !== undefined && now >= task.expiresAt;
 }
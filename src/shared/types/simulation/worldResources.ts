@@ -18,6 +18,8 @@ export interface ResourceYield {
   amountMax: number;
   rareMaterialsChance?: number;
   secondaryYields?: ResourceYield[];
+  /** FoodCatalog id of the food yielded, which sets how fast it spoils */
+  foodId?: string;
 }
 
 export interface WorldResourceConfig {
@@ -0,0 +1,34 @@
+import type { WorldStatus } from "../../constants/StatusEnums";
+import type { Scenario } from "./scenario";
+
+/**
+ * Settings of a world created over the API. Worlds with the same seed in
+ * deterministic mode evolve identically until their commands differ.
+ */
+export interface WorldOptions {
+  /** Base seed for RNG streams (default: the server seed) */
+  seed?: string;
+  /** Seeded RNG, logical clock and stepped ticks (default: the server setting) */
+  deterministic?: boolean;
+  /** Scenario the world is set up from unless it resumes a save */
+  scenario?: Scenario;
+}
+
+/**
+ * Public description of a hosted world.
+ */
+export interface WorldInfo {
+  id: string;
+  status: WorldStatus;
+  tick: number;
+  /** Living agents */
+  population: number;
+  deterministic: boolean;
+  seed: string | null;
+  /** ID of the scenario the world was set up from */
+  scenario: string | null;
+  /** Epoch ms when the world was started in this process */
+  createdAt: number;
+  /** Whether this is the world served at `/ws/sim` and `/api/sim` */
+  isDefault: boolean;
+}
@@ -1,34 +1,153 @@
+import seedrandom from "seedrandom";
+
+/**
+ * Name of the stream used when no system has claimed one.
+ */
+const DEFAULT_STREAM = "default";
+
+type StreamPRNG = seedrandom.StatefulPRNG<seedrandom.State.Arc4>;
+
+let baseSeed: string | null = null;
+let activeStream = DEFAULT_STREAM;
+const streams = new Map<string, StreamPRNG>();
+
+/**
+ * Serializable snapshot of every seeded stream, stored in saves so that a
+ * resumed or replayed run continues each sequence where it left off.
+ */
+export interface RandomStreamsState {
+  seed: string;
+  streams: Record<string, seedrandom.State.Arc4>;
+}
+
 /**
  * Shared utility for random number generation.
  * Centralizes RNG to allow for easier seeding and testing in the future.
+ *
+ * Unseeded, every call falls through to Math.random(). Once a seed is
+ * configured, draws come from a named seedrandom stream derived from the
+ * seed and the currently active stream name. The scheduler activates one
+ * stream per system, so adding a random call to one system never shifts
+ * the sequence observed by another.
  */
 export class RandomUtils {
+  /**
+   * Configures the base seed for all streams and discards existing streams.
+   *
+   * @param seed - Base seed, or null to go back to Math.random()
+   */
+  public static configureSeed(seed: string | number | null): void {
+    baseSeed = seed === null ? null : String(seed);
+    streams.clear();
+    activeStream = DEFAULT_STREAM;
+  }
+
+  /**
+   * Returns the configured base seed, or null when running unseeded.
+   */
+  public static getSeed(): string | null {
+    return baseSeed;
+  }
+
+  /**
+   * Whether draws currently come from seeded streams.
+   */
+  public static isSeeded(): boolean {
+    return baseSeed !== null;
+  }
+
+  /**
+   * Runs a function with the given stream active.
+   * Only the synchronous portion of the function is covered.
+   *
+   * @param name - Stream name (usually the system name)
+   * @param fn - Function to run
+   * @returns Whatever the function returns
+   */
+  public static withStream<T>(name: string, fn: () => T): T {
+    const previous = activeStream;
+    activeStream = name;
+    try {
+      return fn();
+    } finally {
+      activeStream = previous;
+    }
+  }
+
+  /**
+   * Returns the name of the stream that will serve the next draw.
+   */
+  public static getActiveStream(): string {
+    return activeStream;
+  }
+
+  /**
+   * Exports the internal state of every stream created so far.
+   *
+   * @returns Streams state, or null when running unseeded
+   */
+  public static exportState(): RandomStreamsState | null {
+    if (baseSeed === null) return null;
+
+    const exported: Record<string, seedrandom.State.Arc4> = {};
+    for (const [name, stream] of streams) {
+      exported[name] = stream.state();
+    }
+    return { seed: baseSeed, streams: exported };
+  }
+
+  /**
+   * Restores a previously exported streams state.
+   * Streams not present in the state start fresh from the seed.
+   *
+   * @param state - State produced by exportState()
+   */
+  public static importState(state: RandomStreamsState): void {
+    RandomUtils.configureSeed(state.seed);
+    for (const [name, streamState] of Object.entries(state.streams)) {
+      streams.set(name, seedrandom("", { state: streamState }));
+    }
+  }
+
+  private static next(): number {
+    if (baseSeed === null) {
+      return Math.random();
+    }
+
+    let stream = streams.get(activeStream);
+    if (!stream) {
+      stream = seedrandom(`${baseSeed}:${activeStream}`, { state: true });
+      streams.set(activeStream, stream);
+    }
+    return stream();
+  }
+
   /**
    * Returns a random floating-point number between 0 (inclusive) and 1 (exclusive).
    */
   public static float(): number {
-    return Math.random();
+    return RandomUtils.next();
   }
 
   /**
    * Returns a random floating-point number between min (inclusive) and max (exclusive).
    */
   public static floatRange(min: number, max: number): number {
-    return min + Math.random() * (max - min);
+    return min + RandomUtils.next() * (max - min);
   }
 
   /**
    * Returns a random integer between min (inclusive) and max (inclusive).
    */
   public static intRange(min: number, max: number): number {
-    return Math.floor(Math.random() * (max - min + 1)) + min;
+    return Math.floor(RandomUtils.next() * (max - min + 1)) + min;
   }
 
   /**
    * Returns true with the specified probability (0-1).
    */
   public static chance(probability: number): boolean {
-    return Math.random() < probability;
+    return RandomUtils.next() < probability;
   }
 
   /**
@@ -36,7 +155,7 @@ export class RandomUtils {
    */
   public static element<T>(array: T[]): T | undefined {
     if (array.length === 0) return undefined;
-    return array[Math.floor(Math.random() * array.length)];
+    return array[Math.floor(RandomUtils.next() * array.length)];
   }
 
   /**
@@ -44,7 +163,7 @@ export class RandomUtils {
    */
   public static elementOrThrow<T>(array: T[]): T {
     if (array.length === 0) throw new Error("Array is empty");
-    return array[Math.floor(Math.random() * array.length)];
+    return array[Math.floor(RandomUtils.next() * array.length)];
   }
 
   /**
@@ -52,7 +171,7 @@ export class RandomUtils {
    */
   public static shuffle<T>(array: T[]): T[] {
     for (let i = array.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = Math.floor(RandomUtils.next() * (i + 1));
       [array[i], array[j]] = [array[j], array[i]];
     }
     return array;
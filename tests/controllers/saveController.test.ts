@@ -1,13 +1,20 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { Request, Response } from 'express';
 
-vi.mock('../../src/infrastructure/services/storage/storageService.ts', () => ({
+vi.mock('../../src/infrastructure/services/storage/storageService.ts', async (importOriginal) => ({
+  parseSaveTags: (
+    await importOriginal<typeof import('../../src/infrastructure/services/storage/storageService.ts')>()
+  ).parseSaveTags,
   storageService: {
     isHealthy: vi.fn(),
     listSaves: vi.fn(),
     getSave: vi.fn(),
     saveGame: vi.fn(),
     deleteSave: vi.fn(),
+    migrateSave: vi.fn(),
+    storeMigratedSave: vi.fn(),
+    setSaveTags: vi.fn(),
+    diffSaves: vi.fn(),
   },
 }));
 
@@ -116,7 +123,7 @@ describe('SaveController', () => {
     it('debe guardar juego válido', async () => {
       const mockSaveData = { timestamp: 1000, gameTime: 100, stats: {} };
       mockReq.body = mockSaveData;
-      const mockResult = { saveId: 'save_1000', size: 500 };
+      const mockResult = { saveId: 'save_1000', size: 500, rawSize: 1200 };
       vi.mocked(storageService.saveGame).mockResolvedValue(mockResult);
 
       await saveController.saveGame(mockReq as Request, mockRes as Response);
@@ -126,6 +133,7 @@ describe('SaveController', () => {
         success: true,
         saveId: mockResult.saveId,
         size: mockResult.size,
+        rawSize: mockResult.rawSize,
         timestamp: mockSaveData.timestamp,
       });
     });
@@ -190,5 +198,117 @@ describe('SaveController', () => {
       expect(mockRes.json).toHaveBeenCalledWith({ error: 'Failed to delete save' });
     });
   });
-});
 
+  describe('migrateSave', () => {
+    const report = {
+      fromVersion: 1,
+      toVersion: 2,
+      applied: ['v1 → v2: move a flattened state into `state`'],
+      defaulted: [],
+      dropped: [{ path: 'legacyField', reason: 'unknown field' }],
+      hasState: true,
+    };
+
+    it('debe retornar el informe sin reescribir el save por defecto', async () => {
+      mockReq.params = { id: 'save_1' };
+      vi.mocked(storageService.migrateSave).mockResolvedValue({
+        save: { timestamp: 1, gameTime: 0, stats: {} },
+        report,
+      });
+
+      await saveController.migrateSave(mockReq as Request, mockRes as Response);
+
+      expect(storageService.migrateSave).toHaveBeenCalledWith('save_1');
+      expect(storageService.storeMigratedSave).not.toHaveBeenCalled();
+      expect(mockRes.json).toHaveBeenCalledWith({ saveId: 'save_1', dryRun: true, report });
+    });
+
+    it('debe reescribir el save con dryRun false', async () => {
+      const save = { timestamp: 1, gameTime: 0, stats: {}, saveFormatVersion: 2 };
+      mockReq.params = { id: 'save_1' };
+      mockReq.body = { dryRun: false };
+      vi.mocked(storageService.migrateSave).mockResolvedValue({ save, report });
+
+      await saveController.migrateSave(mockReq as Request, mockRes as Response);
+
+      expect(storageService.storeMigratedSave).toHaveBeenCalledWith('save_1', save);
+    });
+
+    it('debe retornar 422 si el save no se puede migrar', async () => {
+      mockReq.params = { id: 'save_1' };
+      vi.mocked(storageService.migrateSave).mockRejectedValue(
+        new Error('Save format v9 is newer than supported v2'),
+      );
+
+      await saveController.migrateSave(mockReq as Request, mockRes as Response);
+
+      expect(mockRes.status).toHaveBeenCalledWith(422);
+    });
+
+    it('debe retornar 404 si el save no existe', async () => {
+      mockReq.params = { id: 'save_999' };
+      vi.mocked(storageService.migrateSave).mockResolvedValue(null);
+
+      await saveController.migrateSave(mockReq as Request, mockRes as Response);
+
+      expect(mockRes.status).toHaveBeenCalledWith(404);
+    });
+  });
+
+  describe('setSaveTags', () => {
+    it('debe guardar nombre y etiquetas sin duplicados', async () => {
+      mockReq.params = { id: 'save_1' };
+      mockReq.body = { name: ' Antes de la sequía ', tags: ['fork', 'fork', 'balance-v2'] };
+      vi.mocked(storageService.setSaveTags).mockImplementation(async (_id, tags) => tags);
+
+      await saveController.setSaveTags(mockReq as Request, mockRes as Response);
+
+      expect(storageService.setSaveTags).toHaveBeenCalledWith('save_1', {
+        name: 'Antes de la sequía',
+        tags: ['fork', 'balance-v2'],
+      });
+      expect(mockRes.json).toHaveBeenCalledWith({
+        saveId: 'save_1',
+        name: 'Antes de la sequía',
+        tags: ['fork', 'balance-v2'],
+      });
+    });
+
+    it('debe retornar 400 con etiquetas inválidas y 404 si el save no existe', async () => {
+      mockReq.params = { id: 'save_1' };
+      mockReq.body = { tags: ['con espacios'] };
+
+      await saveController.setSaveTags(mockReq as Request, mockRes as Response);
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+
+      mockReq.body = { tags: [] };
+      vi.mocked(storageService.setSaveTags).mockResolvedValue(null);
+      await saveController.setSaveTags(mockReq as Request, mockRes as Response);
+      expect(mockRes.status).toHaveBeenCalledWith(404);
+    });
+  });
+
+  describe('diffSaves', () => {
+    it('debe retornar la comparación de dos saves', async () => {
+      const diff = { a: 'save_1', b: 'save_2' };
+      mockReq.params = { a: 'save_1', b: 'save_2' };
+      vi.mocked(storageService.diffSaves).mockResolvedValue(diff as never);
+
+      await saveController.diffSaves(mockReq as Request, mockRes as Response);
+
+      expect(storageService.diffSaves).toHaveBeenCalledWith('save_1', 'save_2');
+      expect(mockRes.json).toHaveBeenCalledWith(diff);
+    });
+
+    it('debe retornar 400 con IDs inválidos y 404 si falta un save', async () => {
+      mockReq.params = { a: 'save_1', b: '../etc' };
+      await saveController.diffSaves(mockReq as Request, mockRes as Response);
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+
+      mockReq.params = { a: 'save_1', b: 'save_404' };
+      vi.mocked(storageService.diffSaves).mockResolvedValue(null);
+      await saveController.diffSaves(mockReq as Request, mockRes as Response);
+      expect(mockRes.status).toHaveBeenCalledWith(404);
+    });
+  });
+});
@@ -0,0 +1,292 @@
+import { EventEmitter } from "node:events";
+import { describe, it, expect } from "vitest";
+import type { Worker } from "node:worker_threads";
+import { BatchMetricsRecorder } from "../../src/domain/simulation/core/batch/BatchMetricsRecorder";
+import { runBatch } from "../../src/domain/simulation/core/batch/BatchRunner";
+import {
+  parseBatchArgs,
+  resolveBatchPlan,
+} from "../../src/domain/simulation/core/batch/options";
+import { parseScenario } from "../../src/domain/simulation/core/scenarios/parseScenario";
+import {
+  buildBatchReport,
+  compareBatchReports,
+  flattenSample,
+  samplesToCsv,
+} from "../../src/domain/simulation/core/batch/report";
+import { WorkerMessageType } from "../../src/shared/constants/WebSocketEnums";
+import { GameEventType } from "../../src/shared/constants/EventEnums";
+import type { GameState } from "../../src/shared/types/game-types";
+import type {
+  BatchRunOptions,
+  BatchRunResult,
+  BatchSample,
+} from "../../src/shared/types/simulation/batch";
+import type { EntityNeedsData } from "../../src/shared/types/simulation/needs";
+
+function needs(hunger: number): EntityNeedsData {
+  return {
+    hunger,
+    thirst: 100,
+    energy: 100,
+    hygiene: 100,
+    social: 100,
+    fun: 100,
+    mentalHealth: 100,
+  };
+}
+
+function state(agents: { id: string; isDead?: boolean }[]): GameState {
+  return {
+    agents,
+    resources: {
+      energy: 10,
+      currency: 5,
+      materials: { wood: 3, food: 7 },
+    },
+  } as unknown as GameState;
+}
+
+function sample(tick: number, population: number): BatchSample {
+  return {
+    tick,
+    population,
+    births: 0,
+    deaths: 0,
+    conflicts: 0,
+    needs: { hunger: 50.5 },
+    resources: { food: 2 },
+  };
+}
+
+function run(seed: string, population: number): BatchRunResult {
+  return {
+    seed,
+    ticks: 10,
+    durationMs: 1,
+    samples: [sample(0, 2), sample(10, population)],
+  };
+}
+
+describe("BatchMetricsRecorder", () => {
+  it("debe contar nacimientos, muertes y combates sin repetir ni contar fundadores", () => {
+    const events = new EventEmitter();
+    const recorder = new BatchMetricsRecorder(events);
+    recorder.attach(["a", "b"]);
+
+    events.emit(GameEventType.AGENT_BIRTH, { entityId: "a" });
+    events.emit(GameEventType.AGENT_BIRTH, { entityId: "c" });
+    events.emit(GameEventType.AGENT_DEATH, { agentId: "b", cause: "hunger" });
+    events.emit(GameEventType.AGENT_DEATH, {
+      entityId: "b",
+      reason: "removed",
+    });
+    events.emit(GameEventType.COMBAT_ENGAGED, {
+      attackerId: "a",
+      targetId: "c",
+    });
+
+    const result = recorder.sample(
+      5,
+      state([{ id: "a" }, { id: "b", isDead: true }, { id: "c" }]),
+      new Map([
+        ["a", needs(80)],
+        ["b", needs(0)],
+        ["c", needs(40)],
+      ]),
+    );
+
+    expect(result).toMatchObject({
+      tick: 5,
+      population: 2,
+      births: 1,
+      deaths: 1,
+      conflicts: 1,
+    });
+    expect(result.needs.hunger).toBe(60);
+    expect(result.resources).toEqual({
+      wood: 3,
+      food: 7,
+      energy: 10,
+      currency: 5,
+    });
+
+    recorder.detach();
+    events.emit(GameEventType.COMBAT_ENGAGED, {});
+    expect(recorder.sample(6, state([]), new Map()).conflicts).toBe(1);
+  });
+
+  it("debe registrar el resultado de los objetivos del escenario", () => {
+    const recorder = new BatchMetricsRecorder(new EventEmitter());
+    const withGoals = state([{ id: "a" }]);
+    withGoals.goals = {
+      scenarioId: "x",
+      status: "won",
+      elapsedMs: 1000,
+      lastStarvationMs: null,
+      goals: [
+        { id: "victory_0", kind: "victory", condition: { type: "survive_days", days: 1 }, progress: 1, met: true },
+        { id: "victory_1", kind: "victory", condition: { type: "population", min: 4 }, progress: 0.5, met: false },
+        { id: "failure_0", kind: "failure", condition: { type: "population", max: 0 }, progress: 0, met: false },
+      ],
+    };
+
+    const result = recorder.sample(1, withGoals, new Map());
+
+    expect(result.goals).toEqual({ won: 1, lost: 0, progress: 0.75 });
+    expect(flattenSample(result)).toMatchObject({ "goals.won": 1, "goals.progress": 0.75 });
+    expect(recorder.sample(2, state([]), new Map()).goals).toBeUndefined();
+  });
+});
+
+describe("batch report", () => {
+  it("debe escribir una fila CSV por muestra con métricas aplanadas", () => {
+    const csv = samplesToCsv([sample(0, 2), sample(20, 3)]);
+
+    expect(csv.split("\n")).toEqual([
+      "tick,population,births,deaths,conflicts,needs.hunger,resources.food",
+      "0,2,0,0,0,50.5000,2",
+      "20,3,0,0,0,50.5000,2",
+      "",
+    ]);
+  });
+
+  it("debe resumir los valores finales de cada semilla y compararlos con una línea base", () => {
+    const settings = { scenario: null, ticks: 10, width: 32, height: 32 };
+    const baseline = buildBatchReport([run("a", 4), run("b", 8)], settings);
+    const report = buildBatchReport([run("a", 9), run("b", 9)], settings);
+
+    expect(baseline.seeds).toEqual(["a", "b"]);
+    expect(baseline.finals.population).toEqual({ a: 4, b: 8 });
+    expect(baseline.summary.population).toEqual({
+      mean: 6,
+      min: 4,
+      max: 8,
+      stdDev: 2,
+    });
+
+    const comparison = compareBatchReports(baseline, report);
+    expect(comparison.population).toEqual({
+      baseline: 6,
+      current: 9,
+      delta: 3,
+      relative: 0.5,
+    });
+    expect(comparison.deaths.relative).toBeNull();
+  });
+});
+
+describe("batch options", () => {
+  it("debe leer las opciones de la línea de comandos", () => {
+    const args = parseBatchArgs([
+      "--ticks",
+      "500",
+      "--seeds",
+      "a, b",
+      "--sample-every",
+      "5",
+      "--format",
+      "csv",
+      "--verbose",
+    ]);
+
+    expect(args).toMatchObject({
+      ticks: 500,
+      seeds: ["a", "b"],
+      sampleEvery: 5,
+      format: "csv",
+      verbose: true,
+    });
+    expect(() => parseBatchArgs(["--ticks", "x"])).toThrow();
+    expect(() => parseBatchArgs(["--ticks"])).toThrow();
+    expect(() => parseBatchArgs(["--nope", "1"])).toThrow();
+    expect(() => parseBatchArgs(["--format", "xml"])).toThrow();
+  });
+
+  it("debe combinar las opciones con el escenario y generar semillas", () => {
+    const scenario = parseScenario({
+      id: "hambruna",
+      name: "Hambruna",
+      world: { width: 64, seed: "s" },
+      batch: { runs: 3, ticks: 200 },
+    });
+
+    const plan = resolveBatchPlan(
+      parseBatchArgs(["--ticks", "100"]),
+      scenario,
+      2,
+    );
+
+    expect(plan.scenario).toBe("hambruna");
+    expect(plan.parallel).toBe(2);
+    expect(plan.runs.map((r) => r.seed)).toEqual(["s-1", "s-2", "s-3"]);
+    expect(plan.runs[0]).toMatchObject({ ticks: 100, width: 64, height: 128 });
+    expect(plan.runs[0].scenario?.id).toBe("hambruna");
+
+    const explicit = resolveBatchPlan(
+      parseBatchArgs(["--seeds", "x,y"]),
+      scenario,
+      1,
+    );
+    expect(explicit.runs.map((r) => r.seed)).toEqual(["x", "y"]);
+  });
+
+  it("debe rechazar valores inválidos", () => {
+    expect(() =>
+      resolveBatchPlan(parseBatchArgs(["--ticks", "0"]), null, 1),
+    ).toThrow();
+    expect(() =>
+      resolveBatchPlan(parseBatchArgs(["--width", "5000"]), null, 1),
+    ).toThrow();
+    expect(() =>
+      resolveBatchPlan(parseBatchArgs(["--seeds", "a,a"]), null, 1),
+    ).toThrow();
+  });
+});
+
+describe("runBatch", () => {
+  function options(seed: string): BatchRunOptions {
+    return { seed, ticks: 10, width: 32, height: 32, sampleEvery: 5 };
+  }
+
+  it("debe limitar las ejecuciones simultáneas y devolver los resultados en orden", async () => {
+    let active = 0;
+    let maxActive = 0;
+    const createWorker = (settings: BatchRunOptions): Worker => {
+      const worker = new EventEmitter() as EventEmitter & {
+        terminate: () => Promise<number>;
+      };
+      worker.terminate = async () => 0;
+      active++;
+      maxActive = Math.max(maxActive, active);
+      setTimeout(
+        () => {
+          active--;
+          worker.emit("message", {
+            type: WorkerMessageType.RESULT,
+            ok: settings.seed !== "bad",
+            result: settings.seed === "bad" ? undefined : run(settings.seed, 1),
+            error: "boom",
+          });
+        },
+        settings.seed === "a" ? 20 : 1,
+      );
+      return worker as unknown as Worker;
+    };
+
+    const completed: string[] = [];
+    const results = await runBatch(
+      ["a", "b", "c"].map(options),
+      { parallel: 2, onRunComplete: (result) => completed.push(result.seed) },
+      createWorker,
+    );
+
+    expect(results.map((result) => result.seed)).toEqual(["a", "b", "c"]);
+    expect(completed).toEqual(["b", "c", "a"]);
+    expect(maxActive).toBe(2);
+
+    await expect(
+      runBatch([options("bad")], { parallel: 1 }, createWorker),
+    ).rejects.toThrow("Run bad failed: boom");
+  });
+});
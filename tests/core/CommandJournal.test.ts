@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { CommandJournal } from "../../src/domain/simulation/core/runner/CommandJournal";
+import { storageService } from "../../src/infrastructure/services/storage/storageService";
+import type { SimulationCommand } from "../../src/shared/types/commands/SimulationCommand";
+import { SimulationCommandType } from "../../src/shared/constants/CommandEnums";
+
+vi.mock("../../src/infrastructure/services/storage/storageService", () => ({
+  storageService: {
+    appendJournalChunk: vi.fn().mockResolvedValue(undefined),
+    loadJournal: vi.fn().mockResolvedValue([]),
+    replaceJournal: vi.fn().mockResolvedValue(undefined),
+    getJournalTrimmedTick: vi.fn(() => -1),
+  },
+}));
+
+const pause = { type: SimulationCommandType.PING } as SimulationCommand;
+
+describe("CommandJournal", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("debe registrar comandos con tick y secuencia", () => {
+    const journal = new CommandJournal();
+    const first = journal.record(10, pause);
+    const second = journal.record(12, pause);
+
+    expect(first.tick).toBe(10);
+    expect(second.seq).toBe(first.seq + 1);
+    expect(journal.size()).toBe(2);
+  });
+
+  it("debe filtrar por rango de ticks (desde exclusivo, hasta inclusivo)", () => {
+    const journal = new CommandJournal();
+    journal.record(5, pause);
+    journal.record(10, pause);
+    journal.record(15, pause);
+
+    const ticks = journal.getEntriesBetween(5, 15).map((entry) => entry.tick);
+    expect(ticks).toEqual([10, 15]);
+  });
+
+  it("debe persistir las entradas pendientes al hacer flush", async () => {
+    const journal = new CommandJournal();
+    journal.record(1, pause);
+    journal.record(2, pause);
+
+    await journal.flush();
+    await journal.flush();
+
+    expect(storageService.appendJournalChunk).toHaveBeenCalledTimes(1);
+    expect(
+      vi.mocked(storageService.appendJournalChunk).mock.calls[0][0],
+    ).toHaveLength(2);
+  });
+
+  it("no debe persistir cuando la persistencia está desactivada", async () => {
+    const journal = new CommandJournal(false);
+    journal.record(1, pause);
+
+    await journal.flush();
+
+    expect(storageService.appendJournalChunk).not.toHaveBeenCalled();
+  });
+
+  it("debe continuar la secuencia tras cargar entradas persistidas", async () => {
+    vi.mocked(storageService.loadJournal).mockResolvedValueOnce([
+      { seq: 7, tick: 3, appliedAt: 0, command: pause },
+    ]);
+    const journal = new CommandJournal();
+    await journal.load();
+
+    expect(journal.record(4, pause).seq).toBe(8);
+  });
+
+  it("debe descartar entradas posteriores al rebobinar", async () => {
+    const journal = new CommandJournal();
+    journal.record(1, pause);
+    journal.record(5, pause);
+    journal.record(9, pause);
+
+    await journal.rewindTo(5);
+
+    expect(journal.size()).toBe(2);
+    expect(storageService.replaceJournal).toHaveBeenCalledWith(
+      journal.getEntriesBetween(-1, 5),
+      3,
+    );
+  });
+
+  it("debe esperar al flush en curso antes de completar otro", async () => {
+    let finishFirst!: () => void;
+    vi.mocked(storageService.appendJournalChunk).mockImplementationOnce(
+      () => new Promise<void>((resolve) => (finishFirst = resolve)),
+    );
+    const journal = new CommandJournal();
+    journal.record(1, pause);
+    const first = journal.flush();
+    await vi.waitFor(() =>
+      expect(storageService.appendJournalChunk).toHaveBeenCalledTimes(1),
+    );
+    journal.record(2, pause);
+
+    let secondDone = false;
+    const second = journal.flush().then(() => (secondDone = true));
+    await Promise.resolve();
+    expect(secondDone).toBe(false);
+
+    finishFirst();
+    await Promise.all([first, second]);
+    const calls = vi.mocked(storageService.appendJournalChunk).mock.calls;
+    expect(calls.map(([batch]) => batch.map((e) => e.tick))).toEqual([[1], [2]]);
+  });
+
+  it("no debe recuperar entradas descartadas si falla el flush en curso al rebobinar", async () => {
+    let failFlush!: (error: Error) => void;
+    vi.mocked(storageService.appendJournalChunk).mockImplementationOnce(
+      () => new Promise<void>((_, reject) => (failFlush = reject)),
+    );
+    const journal = new CommandJournal();
+    journal.record(1, pause);
+    journal.record(9, pause);
+    const flush = journal.flush().catch(() => undefined);
+    await vi.waitFor(() =>
+      expect(storageService.appendJournalChunk).toHaveBeenCalledTimes(1),
+    );
+
+    const rewind = journal.rewindTo(5);
+    failFlush(new Error("disk full"));
+    await Promise.all([flush, rewind]);
+    await journal.flush();
+
+    expect(storageService.replaceJournal).toHaveBeenCalledTimes(1);
+    const [kept] = vi.mocked(storageService.replaceJournal).mock.calls[0];
+    expect(kept.map((e) => e.tick)).toEqual([1]);
+    expect(storageService.appendJournalChunk).toHaveBeenCalledTimes(1);
+  });
+
+  it("debe soltar de memoria lo recortado con la rotación de saves", () => {
+    const journal = new CommandJournal();
+    journal.record(10, pause);
+    journal.record(30, pause);
+    vi.mocked(storageService.getJournalTrimmedTick).mockReturnValue(20);
+
+    journal.maybeFlush();
+
+    expect(journal.getEntriesBetween(-1, 100).map((e) => e.tick)).toEqual([30]);
+    vi.mocked(storageService.getJournalTrimmedTick).mockReturnValue(-1);
+  });
+});
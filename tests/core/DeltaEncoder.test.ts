@@ -253,5 +253,141 @@ describe("DeltaEncoder", () => {
       expect(delta.type).toBe("full");
     });
   });
-});
 
+  describe("Parches de agentes", () => {
+    const withAgents = (agents: Array<Record<string, unknown>>): GameState =>
+      ({ ...gameState, agents }) as unknown as GameState;
+
+    it("debe enviar solo los campos modificados de agentes conocidos", () => {
+      deltaEncoder.encodeDelta(
+        createSnapshot(
+          withAgents([
+            { id: "agent-1", name: "Isa", position: { x: 0, y: 0 }, mood: 1 },
+            { id: "agent-2", name: "Stev", position: { x: 5, y: 5 } },
+          ]),
+          1,
+        ),
+      );
+
+      const delta = deltaEncoder.encodeDelta(
+        createSnapshot(
+          withAgents([
+            { id: "agent-1", name: "Isa", position: { x: 3, y: 0 } },
+            { id: "agent-3", name: "Nuevo", position: { x: 9, y: 9 } },
+          ]),
+          2,
+        ),
+      );
+
+      expect(delta.agentPatches).toEqual({
+        "agent-1": { position: { x: 3, y: 0 }, mood: null },
+      });
+      expect(delta.changes?.agents?.map((a) => a.id)).toEqual(["agent-3"]);
+      expect(delta.removedAgentIds).toEqual(["agent-2"]);
+      expect(delta.changedAgentIds).toEqual(["agent-3", "agent-1"]);
+    });
+
+    it("no debe incluir agentes sin cambios", () => {
+      deltaEncoder.encodeDelta(
+        createSnapshot(withAgents([{ id: "agent-1", position: { x: 0, y: 0 } }]), 1),
+      );
+
+      const delta = deltaEncoder.encodeDelta(
+        createSnapshot(withAgents([{ id: "agent-1", position: { x: 0, y: 0 } }]), 2),
+      );
+
+      expect(delta.agentPatches).toBeUndefined();
+      expect(delta.changes?.agents).toBeUndefined();
+    });
+  });
+
+  describe("Confirmaciones (ACK)", () => {
+    const atX = (x: number): GameState =>
+      ({
+        ...gameState,
+        agents: [{ id: "agent-1", position: { x, y: 0 } }],
+      }) as unknown as GameState;
+
+    it("debe calcular los deltas desde el último tick confirmado", () => {
+      deltaEncoder.encodeDelta(createSnapshot(atX(0), 1));
+      expect(deltaEncoder.acknowledge(1)).toBe(true);
+
+      deltaEncoder.encodeDelta(createSnapshot(atX(5), 2));
+      const delta = deltaEncoder.encodeDelta(createSnapshot(atX(5), 3));
+
+      expect(delta.type).toBe("delta");
+      expect(delta.baseTick).toBe(1);
+      expect(delta.agentPatches?.["agent-1"]).toEqual({
+        position: { x: 5, y: 0 },
+      });
+    });
+
+    it("debe incrementar la secuencia en cada envío", () => {
+      const first = deltaEncoder.encodeDelta(createSnapshot(atX(0), 1));
+      const second = deltaEncoder.encodeDelta(createSnapshot(atX(1), 2));
+
+      expect(second.sequence).toBe(first.sequence! + 1);
+      expect(second.baseTick).toBe(1);
+    });
+
+    it("debe volver a un snapshot completo con un ACK desconocido", () => {
+      deltaEncoder.encodeDelta(createSnapshot(atX(0), 1));
+
+      expect(deltaEncoder.acknowledge(42)).toBe(false);
+      expect(deltaEncoder.encodeDelta(createSnapshot(atX(1), 2)).type).toBe(
+        "full",
+      );
+    });
+
+    it("debe resincronizar periódicamente también a clientes que confirman", () => {
+      const types: string[] = [];
+      for (let tick = 1; tick <= 150; tick++) {
+        types.push(
+          deltaEncoder.encodeDelta(createSnapshot(atX(tick), tick)).type,
+        );
+        deltaEncoder.acknowledge(tick);
+      }
+
+      expect(types.filter((type) => type === "full")).toHaveLength(2);
+    });
+
+    it("debe enviar a clientes que confirman los cambios de cualquier sección", () => {
+      const withMarket = (price: number): GameState =>
+        ({
+          ...atX(0),
+          market: { orders: [], prices: { food: price } },
+        }) as unknown as GameState;
+
+      deltaEncoder.encodeDelta(createSnapshot(withMarket(1), 1));
+      deltaEncoder.acknowledge(1);
+      const state = withMarket(2);
+      const changed = deltaEncoder.encodeDelta(createSnapshot(state, 2));
+      deltaEncoder.acknowledge(2);
+      const unchanged = deltaEncoder.encodeDelta(
+        createSnapshot({ ...state, agents: atX(1).agents }, 3),
+      );
+
+      expect(changed.type).toBe("delta");
+      expect(changed.changes?.market).toEqual({
+        orders: [],
+        prices: { food: 2 },
+      });
+      expect(unchanged.changes?.market).toBeUndefined();
+    });
+
+    it("debe resincronizar cuando el cliente deja de confirmar", () => {
+      deltaEncoder.encodeDelta(createSnapshot(atX(0), 1));
+      deltaEncoder.acknowledge(1);
+
+      const types: string[] = [];
+      for (let tick = 2; tick <= 60; tick++) {
+        types.push(
+          deltaEncoder.encodeDelta(createSnapshot(atX(tick), tick)).type,
+        );
+      }
+
+      expect(types).toContain("full");
+      expect(deltaEncoder.getAckedTick()).toBeNull();
+    });
+  });
+});
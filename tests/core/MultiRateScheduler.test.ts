@@ -287,5 +287,70 @@ describe("MultiRateScheduler", () => {
       expect(list.find((s) => s.name === "system2")).toBeDefined();
     });
   });
-});
+  describe("step (modo determinista)", () => {
+    it("debe ejecutar MEDIUM y SLOW cuando les corresponde", async () => {
+      const fast = vi.fn();
+      const medium = vi.fn();
+      const slow = vi.fn();
+      const postStep = vi.fn();
+      const stepper = new MultiRateScheduler(DEFAULT_TICK_RATES, {
+        deterministic: true,
+      });
+      stepper.registerSystem({ name: "f", rate: "FAST", update: fast, enabled: true });
+      stepper.registerSystem({ name: "m", rate: "MEDIUM", update: medium, enabled: true });
+      stepper.registerSystem({ name: "s", rate: "SLOW", update: slow, enabled: true });
+      stepper.setHooks({ postStep });
+
+      for (let i = 0; i < 20; i++) {
+        await stepper.step();
+      }
+
+      expect(fast).toHaveBeenCalledTimes(20);
+      expect(medium).toHaveBeenCalledTimes(4);
+      expect(slow).toHaveBeenCalledTimes(1);
+      expect(postStep).toHaveBeenLastCalledWith(20);
+      expect(stepper.getStepCount()).toBe(20);
+    });
+
+    it("debe ejecutar postTickHeavy de forma síncrona", async () => {
+      const postTickHeavy = vi.fn();
+      const stepper = new MultiRateScheduler(DEFAULT_TICK_RATES, {
+        deterministic: true,
+      });
+      stepper.setHooks({ postTickLight: vi.fn(), postTickHeavy });
+
+      for (let i = 0; i < 5; i++) {
+        await stepper.step();
+      }
+
+      expect(postTickHeavy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("pause", () => {
+    it("debe esperar al tick en curso antes de resolver", async () => {
+      let release: () => void = () => undefined;
+      const update = vi.fn(
+        () => new Promise<void>((resolve) => (release = resolve)),
+      );
+      scheduler.registerSystem({ name: "slow-update", rate: "FAST", update, enabled: true });
+      scheduler.start();
+      await vi.advanceTimersByTimeAsync(DEFAULT_TICK_RATES.FAST);
+      expect(update).toHaveBeenCalledTimes(1);
 
+      let paused = false;
+      const pause = scheduler.pause().then((wasRunning) => {
+        paused = true;
+        return wasRunning;
+      });
+      await vi.advanceTimersByTimeAsync(DEFAULT_TICK_RATES.FAST * 3);
+      expect(paused).toBe(false);
+
+      release();
+      await vi.advanceTimersByTimeAsync(DEFAULT_TICK_RATES.FAST);
+      expect(await pause).toBe(true);
+      expect(update).toHaveBeenCalledTimes(1);
+      expect(await scheduler.pause()).toBe(false);
+    });
+  });
+});
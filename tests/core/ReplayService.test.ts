@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  ReplayService,
+  selectReplayBase,
+} from "../../src/domain/simulation/core/runner/ReplayService";
+import {
+  storageService,
+  type SaveMetadata,
+} from "../../src/infrastructure/services/storage/storageService";
+import type { SimulationRunner } from "../../src/domain/simulation/core/SimulationRunner";
+
+function save(id: string, tick?: number): SaveMetadata {
+  return {
+    id,
+    timestamp: 0,
+    gameTime: 0,
+    stats: {},
+    size: 0,
+    modified: "",
+    tick,
+  };
+}
+
+describe("selectReplayBase", () => {
+  it("debe elegir el guardado más reciente anterior al tick objetivo", () => {
+    const saves = [save("a", 100), save("b", 300), save("c", 200)];
+    expect(selectReplayBase(saves, 250)?.id).toBe("c");
+  });
+
+  it("debe aceptar un guardado exactamente en el tick objetivo", () => {
+    expect(selectReplayBase([save("a", 100)], 100)?.id).toBe("a");
+  });
+
+  it("debe ignorar guardados sin tick", () => {
+    expect(selectReplayBase([save("legacy")], 500)).toBeNull();
+  });
+
+  it("debe devolver null si todos los guardados son posteriores", () => {
+    expect(selectReplayBase([save("a", 100)], 50)).toBeNull();
+  });
+});
+
+describe("ReplayService", () => {
+  const runner = {
+    getJournalEntries: vi.fn(() => []),
+    getTickChecksums: vi.fn((from: number) =>
+      from === 40 ? [{ tick: 40, checksum: "abc" }] : [],
+    ),
+    getSeed: vi.fn(() => "seed"),
+  } as unknown as SimulationRunner;
+
+  function mockSave(deterministic?: boolean): void {
+    vi.spyOn(storageService, "listSaves").mockResolvedValue([save("a", 10)]);
+    vi.spyOn(storageService, "getSave").mockResolvedValue({
+      timestamp: 1,
+      gameTime: 1,
+      stats: {},
+      state: {},
+      clock: { tick: 10, step: 10, deterministic },
+    });
+  }
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("debe rechazar guardados que no se grabaron en modo determinista", async () => {
+    mockSave(undefined);
+    const service = new ReplayService(runner);
+    const runWorker = vi.fn();
+    (service as any).runWorker = runWorker;
+
+    await expect(service.replayToTick(40)).rejects.toThrow(
+      "not recorded in deterministic mode",
+    );
+    expect(runWorker).not.toHaveBeenCalled();
+  });
+
+  it("debe pasar al worker el checksum registrado en el tick objetivo", async () => {
+    mockSave(true);
+    const service = new ReplayService(runner);
+    const runWorker = vi.fn().mockResolvedValue({ tick: 40, durationMs: 1 });
+    (service as any).runWorker = runWorker;
+
+    await service.replayToTick(40);
+    await service.replayToTick(30);
+
+    expect(runWorker.mock.calls[0][0]).toMatchObject({
+      saveId: "a",
+      targetTick: 40,
+      expectedChecksum: "abc",
+    });
+    expect(runWorker.mock.calls[1][0].expectedChecksum).toBeNull();
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  parseScenario,
+  toScenarioState,
+} from "../../src/domain/simulation/core/scenarios/parseScenario";
+import {
+  listScenarios,
+  loadScenario,
+} from "../../src/domain/simulation/core/scenarios/scenarioFiles";
+
+describe("parseScenario", () => {
+  it("debe aceptar un escenario completo y resumirlo para el estado", () => {
+    const scenario = parseScenario({
+      id: "sequia",
+      name: "Sequía",
+      world: { width: 64, height: 48, seed: "s", terrainSeed: 7 },
+      agents: [{ id: "ana", sex: "female", traits: { aggression: 0.1 } }],
+      zones: [{ type: "storage", x: 0, y: 0, width: 10, height: 10, stockpile: { contents: { water: 5 } } }],
+      resourceAbundance: { water_source: 0.2 },
+      systems: { disabled: ["CombatSystem"] },
+      conditions: {
+        victory: [{ type: "survive_days", days: 10 }],
+        failure: [{ type: "population", max: 0 }],
+      },
+    });
+
+    expect(scenario.world).toEqual({ width: 64, height: 48, seed: "s", terrainSeed: 7 });
+    expect(toScenarioState(scenario)).toEqual({
+      id: "sequia",
+      name: "Sequía",
+      replacesFamily: true,
+      replacesInfrastructure: true,
+      replacesAnimals: false,
+      resourceAbundance: { water_source: 0.2 },
+      disabledSystems: ["CombatSystem"],
+      conditions: {
+        victory: [{ type: "survive_days", days: 10 }],
+        failure: [{ type: "population", max: 0 }],
+      },
+    });
+  });
+
+  it("debe rechazar escenarios inválidos nombrando el campo", () => {
+    const base = { id: "x", name: "X" };
+    expect(() => parseScenario([])).toThrow("scenario must be an object");
+    expect(() => parseScenario({ ...base, id: "Mal ID" })).toThrow("id");
+    expect(() => parseScenario({ ...base, extra: 1 })).toThrow("extra is not a scenario section");
+    expect(() =>
+      parseScenario({ ...base, agents: [{ id: "a", traits: { aggression: 2 } }] }),
+    ).toThrow("agents[0].traits.aggression must be between 0 and 1");
+    expect(() => parseScenario({ ...base, agents: [{ id: "a" }, { id: "a" }] })).toThrow("duplicate");
+    expect(() =>
+      parseScenario({ ...base, agents: [{ id: "a" }], relations: [{ between: ["a", "b"], affinity: 1 }] }),
+    ).toThrow('relations[0].between[1] names an unknown agent "b"');
+    expect(() =>
+      parseScenario({ ...base, zones: [{ type: "castle", x: 0, y: 0, width: 1, height: 1 }] }),
+    ).toThrow("zones[0].type must be one of");
+    expect(() => parseScenario({ ...base, resourceAbundance: { gold: 1 } })).toThrow("resourceAbundance.gold");
+    expect(() =>
+      parseScenario({ ...base, conditions: { victory: [{ type: "fame" }] } }),
+    ).toThrow("conditions.victory[0].type");
+    expect(() =>
+      parseScenario({ ...base, conditions: { failure: [{ type: "legend", tier: "hero" }] } }),
+    ).toThrow("conditions.failure[0].tier must be one of");
+    expect(() => parseScenario({ ...base, world: { width: 4 } })).toThrow("world.width");
+  });
+});
+
+describe("scenario files", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "scenarios-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("debe cargar escenarios YAML y JSON por ID o por ruta", async () => {
+    await writeFile(
+      path.join(dir, "aldea.yaml"),
+      "id: aldea\nname: Aldea\nagents:\n  - { id: ana, ageYears: 30 }\n",
+    );
+    await writeFile(
+      path.join(dir, "otro.json"),
+      JSON.stringify({ id: "otro", name: "Otro", description: "JSON" }),
+    );
+
+    expect((await loadScenario("aldea", dir))?.agents).toEqual([{ id: "ana", ageYears: 30 }]);
+    expect((await loadScenario(path.join(dir, "otro.json"), dir))?.name).toBe("Otro");
+    expect(await loadScenario("nada", dir)).toBeNull();
+  });
+
+  it("debe listar el catálogo omitiendo los archivos inválidos", async () => {
+    await writeFile(path.join(dir, "b.yaml"), "id: b\nname: B\n");
+    await writeFile(path.join(dir, "a.json"), '{"id":"a","name":"A","description":"primero"}');
+    await writeFile(path.join(dir, "roto.yaml"), "id: roto\nname: [\n");
+    await writeFile(path.join(dir, "notas.txt"), "no es un escenario");
+    const invalid: string[] = [];
+
+    const scenarios = await listScenarios(dir, (file) => invalid.push(file));
+
+    expect(scenarios).toEqual([
+      { id: "a", name: "A", description: "primero" },
+      { id: "b", name: "B" },
+    ]);
+    expect(invalid).toEqual(["roto.yaml"]);
+    expect(await listScenarios(path.join(dir, "no-existe"))).toEqual([]);
+  });
+
+  it("debe incluir escenarios de ejemplo válidos", async () => {
+    const invalid: string[] = [];
+    const scenarios = await listScenarios(path.resolve("scenarios"), (file) => invalid.push(file));
+
+    expect(invalid).toEqual([]);
+    expect(scenarios.map((s) => s.id)).toEqual(
+      expect.arrayContaining(["drought-start", "two-rival-villages"]),
+    );
+  });
+});
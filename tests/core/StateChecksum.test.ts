@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+  canonicalStringify,
+  computeStateChecksum,
+  findFirstDivergence,
+  ChecksumLog,
+} from "../../src/domain/simulation/core/StateChecksum";
+import { createMockGameState } from "../setup";
+
+describe("StateChecksum", () => {
+  describe("canonicalStringify", () => {
+    it("debe ignorar el orden de inserción de las claves", () => {
+      expect(canonicalStringify({ a: 1, b: 2 })).toBe(
+        canonicalStringify({ b: 2, a: 1 }),
+      );
+    });
+
+    it("debe serializar Map y Set de forma estable", () => {
+      const first = new Map([
+        ["x", 1],
+        ["y", 2],
+      ]);
+      const second = new Map([
+        ["y", 2],
+        ["x", 1],
+      ]);
+      expect(canonicalStringify(first)).toBe(canonicalStringify(second));
+      expect(canonicalStringify(new Set([3, 1]))).toBe(
+        canonicalStringify(new Set([1, 3])),
+      );
+    });
+
+    it("debe omitir valores undefined", () => {
+      expect(canonicalStringify({ a: 1, b: undefined })).toBe(
+        canonicalStringify({ a: 1 }),
+      );
+    });
+  });
+
+  describe("computeStateChecksum", () => {
+    it("debe ser igual para estados equivalentes", () => {
+      const a = createMockGameState();
+      const b = createMockGameState();
+      expect(computeStateChecksum(a)).toBe(computeStateChecksum(b));
+    });
+
+    it("debe cambiar cuando cambia el estado", () => {
+      const state = createMockGameState();
+      const before = computeStateChecksum(state);
+      state.cycles += 1;
+      expect(computeStateChecksum(state)).not.toBe(before);
+    });
+  });
+
+  describe("findFirstDivergence", () => {
+    it("debe devolver null cuando coinciden", () => {
+      const log = [
+        { tick: 1, checksum: "a" },
+        { tick: 2, checksum: "b" },
+      ];
+      expect(findFirstDivergence(log, [{ tick: 2, checksum: "b" }])).toBeNull();
+    });
+
+    it("debe devolver el primer tick divergente", () => {
+      const expected = [
+        { tick: 1, checksum: "a" },
+        { tick: 2, checksum: "b" },
+        { tick: 3, checksum: "c" },
+      ];
+      const actual = [
+        { tick: 1, checksum: "a" },
+        { tick: 2, checksum: "x" },
+        { tick: 3, checksum: "y" },
+      ];
+      expect(findFirstDivergence(expected, actual)).toEqual({
+        tick: 2,
+        expected: "b",
+        actual: "x",
+      });
+    });
+  });
+
+  describe("ChecksumLog", () => {
+    it("debe descartar las entradas más antiguas al superar la capacidad", () => {
+      const log = new ChecksumLog(2);
+      log.record(1, "a");
+      log.record(2, "b");
+      log.record(3, "c");
+      expect(log.size()).toBe(2);
+      expect(log.get(1)).toBeUndefined();
+      expect(log.latest()).toEqual({ tick: 3, checksum: "c" });
+    });
+
+    it("debe filtrar por rango de ticks", () => {
+      const log = new ChecksumLog();
+      for (let tick = 1; tick <= 5; tick++) {
+        log.record(tick, `c${tick}`);
+      }
+      expect(log.range(2, 3).map((entry) => entry.tick)).toEqual([2, 3]);
+    });
+  });
+});
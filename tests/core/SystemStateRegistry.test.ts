@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from "vitest";
+import { SystemStateRegistry } from "../../src/domain/simulation/core/runner/SystemStateRegistry";
+import type { Persistable } from "../../src/domain/simulation/ports";
+
+class CounterSystem implements Persistable<{ count: number }> {
+  public count = 0;
+  public restored: Array<{ count: number } | null> = [];
+
+  constructor(public readonly persistenceVersion = 1) {}
+
+  serialize(): { count: number } {
+    return { count: this.count };
+  }
+
+  restore(data: { count: number } | null): void {
+    this.restored.push(data);
+    this.count = data?.count ?? 0;
+  }
+}
+
+describe("SystemStateRegistry", () => {
+  it("debe guardar una sección versionada por sistema y restaurarla", () => {
+    const registry = new SystemStateRegistry();
+    const counter = new CounterSystem(2);
+    registry.register("counter", counter);
+    counter.count = 5;
+
+    const sections = registry.serialize();
+    counter.count = 0;
+
+    expect(sections).toEqual({ counter: { version: 2, data: { count: 5 } } });
+    expect(registry.restore(sections)).toEqual(["counter"]);
+    expect(counter.count).toBe(5);
+  });
+
+  it("debe limpiar los sistemas sin sección o con versión incompatible", () => {
+    const registry = new SystemStateRegistry();
+    const missing = new CounterSystem();
+    const newer = new CounterSystem();
+    missing.count = 3;
+    newer.count = 3;
+    registry.register("missing", missing);
+    registry.register("newer", newer);
+
+    const restored = registry.restore({
+      newer: { version: 9, data: { count: 7 } },
+    });
+
+    expect(restored).toEqual([]);
+    expect(missing.restored).toEqual([null]);
+    expect(newer.restored).toEqual([null]);
+    expect(() => registry.register("newer", newer)).toThrow(/already/);
+  });
+
+  it("debe migrar secciones antiguas cuando el sistema sabe hacerlo", () => {
+    const registry = new SystemStateRegistry();
+    const counter = Object.assign(new CounterSystem(2), {
+      migrateState: vi.fn((data: unknown) => ({
+        count: (data as { total: number }).total,
+      })),
+    });
+    registry.register("counter", counter);
+
+    registry.restore({ counter: { version: 1, data: { total: 4 } } });
+
+    expect(counter.migrateState).toHaveBeenCalledWith({ total: 4 }, 1);
+    expect(counter.count).toBe(4);
+  });
+
+  it("debe limpiar el sistema si falla su restauración", () => {
+    const registry = new SystemStateRegistry();
+    const counter = new CounterSystem();
+    const restore = counter.restore.bind(counter);
+    counter.restore = (data): void => {
+      if (data) throw new Error("corrupt");
+      restore(data);
+    };
+    counter.count = 8;
+    registry.register("counter", counter);
+
+    expect(registry.restore({ counter: { version: 1, data: { count: 1 } } })).toEqual([]);
+    expect(counter.count).toBe(0);
+  });
+});
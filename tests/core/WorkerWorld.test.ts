@@ -0,0 +1,136 @@
+import { describe, it, expect, vi } from "vitest";
+import { EventEmitter } from "node:events";
+import type { Worker } from "node:worker_threads";
+import {
+  WorkerWorld,
+  getWorldSaveNamespace,
+} from "../../src/domain/simulation/core/worlds/WorkerWorld";
+import type { WorldWorkerMessage } from "../../src/domain/simulation/core/worlds/WorldWorker";
+import { WorldStatus } from "../../src/shared/constants/StatusEnums";
+import {
+  WorkerMessageType,
+  WorldWorkerCall,
+} from "../../src/shared/constants/WebSocketEnums";
+import type { WorldInfo } from "../../src/shared/types/simulation/worlds";
+
+/**
+ * Stand-in for the world worker thread: records what the host posts and
+ * lets the test answer.
+ */
+class FakeWorker extends EventEmitter {
+  public readonly posted: WorldWorkerMessage[] = [];
+
+  postMessage(message: WorldWorkerMessage): void {
+    this.posted.push(message);
+  }
+
+  terminate(): Promise<number> {
+    this.emit("exit", 1);
+    return Promise.resolve(1);
+  }
+
+  lastCall(): Extract<WorldWorkerMessage, { type: WorkerMessageType.CALL }> {
+    const calls = this.posted.filter(
+      (message) => message.type === WorkerMessageType.CALL,
+    );
+    return calls[calls.length - 1] as Extract<
+      WorldWorkerMessage,
+      { type: WorkerMessageType.CALL }
+    >;
+  }
+}
+
+const readyInfo: WorldInfo = {
+  id: "arena",
+  status: WorldStatus.RUNNING,
+  tick: 5,
+  population: 8,
+  deterministic: true,
+  seed: "s",
+  scenario: null,
+  createdAt: 0,
+  isDefault: false,
+};
+
+async function startWorld() {
+  const worker = new FakeWorker();
+  const factory = vi.fn(() => worker as unknown as Worker);
+  const world = new WorkerWorld("arena", { seed: "s" }, factory);
+  const started = world.start();
+  worker.emit("message", { type: WorkerMessageType.READY, info: readyInfo });
+  const info = await started;
+  return { world, worker, factory, info };
+}
+
+describe("WorkerWorld", () => {
+  it("debe arrancar el worker con el espacio de guardado del mundo", async () => {
+    const { factory, info } = await startWorld();
+
+    expect(factory).toHaveBeenCalledWith(
+      { worldId: "arena", options: { seed: "s" } },
+      getWorldSaveNamespace("arena"),
+    );
+    expect(getWorldSaveNamespace("arena")).toBe("world_arena.");
+    expect(info).toMatchObject({ status: WorldStatus.RUNNING, tick: 5 });
+  });
+
+  it("debe emparejar cada llamada con su resultado", async () => {
+    const { world, worker } = await startWorld();
+
+    const paused = world.pause();
+    const call = worker.lastCall();
+    expect(call.call).toBe(WorldWorkerCall.PAUSE);
+    worker.emit("message", {
+      type: WorkerMessageType.RESULT,
+      callId: call.callId,
+      ok: true,
+      result: true,
+    });
+    await expect(paused).resolves.toBe(true);
+
+    const saved = world.save();
+    worker.emit("message", {
+      type: WorkerMessageType.RESULT,
+      callId: worker.lastCall().callId,
+      ok: false,
+      error: "disk full",
+    });
+    await expect(saved).rejects.toThrow("disk full");
+  });
+
+  it("debe reenviar ticks solo mientras haya oyentes", async () => {
+    const { world, worker } = await startWorld();
+    const listener = vi.fn();
+
+    world.on("tick", listener);
+    worker.emit("message", {
+      type: WorkerMessageType.TICK,
+      snapshot: { tick: 6 },
+    });
+    world.off("tick", listener);
+
+    expect(listener).toHaveBeenCalledWith({ tick: 6 });
+    expect(
+      worker.posted.filter(
+        (message) => message.type === WorkerMessageType.STREAM,
+      ),
+    ).toEqual([
+      { type: WorkerMessageType.STREAM, enabled: true },
+      { type: WorkerMessageType.STREAM, enabled: false },
+    ]);
+  });
+
+  it("debe rechazar llamadas pendientes y avisar al destruirse", async () => {
+    const { world, worker } = await startWorld();
+    const destroyed = vi.fn();
+    world.on("destroyed", destroyed);
+
+    const pending = world.getInitialSnapshot();
+    worker.emit("exit", 1);
+
+    await expect(pending).rejects.toThrow(/stopped/);
+    expect(destroyed).toHaveBeenCalled();
+    expect((await world.getInfo()).status).toBe(WorldStatus.STOPPED);
+    await expect(world.resume()).rejects.toThrow(/not running/);
+  });
+});
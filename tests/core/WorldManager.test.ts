@@ -0,0 +1,132 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  DEFAULT_WORLD_ID,
+  WorldManager,
+  parseWorldCreateRequest,
+  type HostedWorld,
+} from "../../src/domain/simulation/core/worlds/WorldManager";
+import type { SimulationWorld } from "../../src/domain/simulation/core/worlds/SimulationWorld";
+import { WorldStatus } from "../../src/shared/constants/StatusEnums";
+import type { WorldInfo } from "../../src/shared/types/simulation/worlds";
+
+function info(id: string, isDefault = false): WorldInfo {
+  return {
+    id,
+    status: WorldStatus.RUNNING,
+    tick: 0,
+    population: 0,
+    deterministic: false,
+    seed: null,
+    scenario: null,
+    createdAt: 0,
+    isDefault,
+  };
+}
+
+function fakeWorld(id: string, start?: () => Promise<WorldInfo>): HostedWorld {
+  return {
+    id,
+    on: vi.fn(),
+    off: vi.fn(),
+    getInfo: vi.fn(async () => info(id)),
+    getInitialSnapshot: vi.fn(),
+    request: vi.fn(),
+    enqueueCommand: vi.fn(),
+    pause: vi.fn(),
+    resume: vi.fn(),
+    save: vi.fn(),
+    start: vi.fn(start ?? (async () => info(id))),
+    destroy: vi.fn(async () => undefined),
+  } as unknown as HostedWorld;
+}
+
+function createManager(maxWorlds = 2) {
+  const defaultWorld = fakeWorld(DEFAULT_WORLD_ID) as SimulationWorld;
+  vi.mocked(defaultWorld.getInfo).mockResolvedValue(
+    info(DEFAULT_WORLD_ID, true),
+  );
+  const created: HostedWorld[] = [];
+  const manager = new WorldManager(defaultWorld, maxWorlds, (id) => {
+    const world = fakeWorld(id);
+    created.push(world);
+    return world;
+  });
+  return { manager, defaultWorld, created };
+}
+
+describe("WorldManager", () => {
+  it("debe crear, listar y destruir mundos junto al mundo por defecto", async () => {
+    const { manager, defaultWorld, created } = createManager();
+
+    await manager.create("arena", { seed: "a" });
+
+    expect(manager.get(DEFAULT_WORLD_ID)).toBe(defaultWorld);
+    expect(manager.get("arena")).toBe(created[0]);
+    expect((await manager.list()).map((world) => world.id)).toEqual([
+      DEFAULT_WORLD_ID,
+      "arena",
+    ]);
+
+    expect(await manager.destroy("arena")).toBe(true);
+    expect(created[0].destroy).toHaveBeenCalled();
+    expect(manager.get("arena")).toBeUndefined();
+    expect(await manager.destroy("arena")).toBe(false);
+  });
+
+  it("debe rechazar IDs repetidos, exceder el límite y destruir el mundo por defecto", async () => {
+    const { manager } = createManager(1);
+
+    await expect(manager.create(DEFAULT_WORLD_ID)).rejects.toThrow(/exists/);
+    await manager.create("a");
+    expect(manager.hasCapacity()).toBe(false);
+    await expect(manager.create("b")).rejects.toThrow(/limit/);
+    await expect(manager.destroy(DEFAULT_WORLD_ID)).rejects.toThrow(
+      /default/,
+    );
+  });
+
+  it("debe liberar el ID si el mundo no arranca", async () => {
+    const failing = fakeWorld("broken", () =>
+      Promise.reject(new Error("boom")),
+    );
+    const manager = new WorldManager(fakeWorld(DEFAULT_WORLD_ID), 2, () => failing);
+
+    await expect(manager.create("broken")).rejects.toThrow("boom");
+    expect(failing.destroy).toHaveBeenCalled();
+    expect(manager.has("broken")).toBe(false);
+  });
+});
+
+describe("parseWorldCreateRequest", () => {
+  it("debe validar el ID y las opciones", () => {
+    expect(
+      parseWorldCreateRequest({ id: "ab-test-1", seed: "s", deterministic: true }),
+    ).toEqual({
+      id: "ab-test-1",
+      options: { seed: "s", deterministic: true },
+    });
+    expect(parseWorldCreateRequest({ id: "Bad ID" })).toBeNull();
+    expect(parseWorldCreateRequest({ deterministic: "yes" })).toBeNull();
+    expect(parseWorldCreateRequest({ seed: 3 })).toBeNull();
+    expect(parseWorldCreateRequest([])).toBeNull();
+  });
+
+  it("debe aceptar un escenario por ID o en línea", () => {
+    expect(parseWorldCreateRequest({ id: "w", scenario: "drought-start" })).toEqual({
+      id: "w",
+      options: {},
+      scenario: "drought-start",
+    });
+    expect(
+      parseWorldCreateRequest({ id: "w", scenario: { id: "x", name: "X" } })?.scenario,
+    ).toEqual({ id: "x", name: "X" });
+    expect(parseWorldCreateRequest({ scenario: "../etc/passwd" })).toBeNull();
+    expect(parseWorldCreateRequest({ scenario: ["x"] })).toBeNull();
+  });
+
+  it("debe generar un ID cuando no se indica", () => {
+    const request = parseWorldCreateRequest(undefined);
+    expect(request?.id).toMatch(/^[a-z0-9][a-z0-9-]*$/);
+    expect(request?.options).toEqual({});
+  });
+});
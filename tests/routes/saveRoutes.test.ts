@@ -10,6 +10,9 @@ vi.mock('../../src/infrastructure/controllers/saveController.ts', () => ({
     getSave: vi.fn(),
     saveGame: vi.fn(),
     deleteSave: vi.fn(),
+    migrateSave: vi.fn(),
+    setSaveTags: vi.fn(),
+    diffSaves: vi.fn(),
   },
 }));
 
@@ -55,5 +58,8 @@ describe('SaveRoutes', () => {
   it('debe tener ruta DELETE /api/saves/:id', () => {
     expect(saveController.deleteSave).toBeDefined();
   });
-});
 
+  it('debe tener ruta POST /api/saves/:id/migrate', () => {
+    expect(saveController.migrateSave).toBeDefined();
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { SimulationStreamClient } from "../../src/infrastructure/services/stream/SimulationStreamClient";
+import { GameEventType } from "../../src/shared/constants/EventEnums";
+import { createMockGameState } from "../setup";
+import type { GameState } from "../../src/shared/types/game-types";
+import type { AgentProfile } from "../../src/shared/types/simulation/agents";
+import type { SimulationSnapshot } from "../../src/shared/types/commands/SimulationCommand";
+
+describe("SimulationStreamClient", () => {
+  const createSnapshot = (
+    tick: number,
+    agentX: Record<string, number>,
+  ): SimulationSnapshot => ({
+    tick,
+    updatedAt: tick * 250,
+    state: createMockGameState({
+      agents: Object.entries(agentX).map(
+        ([id, x]) => ({ id, position: { x, y: 0 } }) as AgentProfile,
+      ),
+    }) as GameState,
+    events: [
+      {
+        type: GameEventType.COMBAT_HIT,
+        payload: { attackerId: "agent-1", targetId: "agent-2" },
+      },
+    ],
+  });
+
+  it("debe enviar un snapshot completo y luego deltas con secuencia", () => {
+    const client = new SimulationStreamClient();
+
+    const first = client.encodeTick(createSnapshot(1, { "agent-1": 0 }));
+    const second = client.encodeTick(createSnapshot(2, { "agent-1": 5 }));
+
+    expect(first?.delta.type).toBe("full");
+    expect(second?.delta.type).toBe("delta");
+    expect(second?.delta.baseTick).toBe(1);
+    expect(second?.delta.sequence).toBe(first!.delta.sequence! + 1);
+  });
+
+  it("debe reenviar un snapshot completo al cambiar la suscripción", () => {
+    const client = new SimulationStreamClient();
+    client.encodeTick(createSnapshot(1, { "agent-1": 0, "agent-2": 500 }));
+
+    expect(
+      client.subscribe({ viewport: { x: 0, y: -10, width: 100, height: 20 } }),
+    ).toBeNull();
+    const payload = client.encodeTick(
+      createSnapshot(2, { "agent-1": 0, "agent-2": 500 }),
+    );
+
+    expect(payload?.delta.type).toBe("full");
+    expect(payload?.delta.changes?.agents?.map((a) => a.id)).toEqual([
+      "agent-1",
+    ]);
+  });
+
+  it("debe enviar solo eventos cuando no se pide el estado", () => {
+    const client = new SimulationStreamClient();
+    client.subscribe({
+      eventCategories: ["TRADE"],
+      includeState: false,
+    });
+    expect(client.encodeTick(createSnapshot(1, { "agent-1": 0 }))).toBeNull();
+
+    client.subscribe({ eventCategories: ["COMBAT"], includeState: false });
+    const payload = client.encodeTick(createSnapshot(2, { "agent-1": 0 }));
+    expect(payload?.events).toHaveLength(1);
+    expect(payload?.delta.changes).toBeUndefined();
+  });
+
+  it("debe rechazar suscripciones y ACKs inválidos", () => {
+    const client = new SimulationStreamClient();
+
+    expect(client.subscribe({ agentIds: [1, 2] })).toEqual(expect.any(String));
+    expect(client.acknowledge("7")).toBe(false);
+    expect(client.acknowledge(7)).toBe(false);
+  });
+
+  it("debe olvidar los ACKs y enviar un snapshot completo tras cargar un guardado", () => {
+    const client = new SimulationStreamClient();
+    client.encodeTick(createSnapshot(10, { "agent-1": 0 }));
+    expect(client.acknowledge(10)).toBe(true);
+
+    client.reset();
+    const payload = client.encodeTick(createSnapshot(3, { "agent-9": 0 }));
+
+    expect(payload?.delta.type).toBe("full");
+    expect(payload?.delta.baseTick).toBeUndefined();
+    expect(client.acknowledge(10)).toBe(false);
+  });
+});
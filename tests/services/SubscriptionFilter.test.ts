@@ -0,0 +1,146 @@
+import { describe, it, expect } from "vitest";
+import { SubscriptionFilter } from "../../src/infrastructure/services/stream/SubscriptionFilter";
+import { GameEventType } from "../../src/shared/constants/EventEnums";
+import type { GameState } from "../../src/shared/types/game-types";
+import type { SimulationEvent } from "../../src/shared/types/commands/SimulationCommand";
+
+describe("SubscriptionFilter", () => {
+  const events: SimulationEvent[] = [
+    {
+      type: GameEventType.COMBAT_KILL,
+      payload: { attackerId: "agent-1", targetId: "agent-2" },
+    },
+    {
+      type: GameEventType.TRADE_COMPLETED,
+      payload: { buyerId: "agent-2", sellerId: "agent-3" },
+    },
+    {
+      type: GameEventType.RESOURCE_DEPLETED,
+      payload: { resourceId: "tree-1", position: { x: 900, y: 900 } },
+    },
+    { type: GameEventType.TIME_CHANGED, payload: { hour: 6 } },
+  ] as unknown as SimulationEvent[];
+
+  const createState = (): GameState =>
+    ({
+      agents: [
+        { id: "agent-1", position: { x: 10, y: 10 } },
+        { id: "agent-2", position: { x: 50, y: 50 } },
+        { id: "agent-3", position: { x: 500, y: 500 } },
+      ],
+      entities: [
+        { id: "agent-1", x: 10, y: 10 },
+        { id: "agent-3", x: 500, y: 500 },
+      ],
+      zones: [
+        {
+          id: "zone-near",
+          type: "work",
+          bounds: { x: 90, y: 90, width: 20, height: 20 },
+        },
+        {
+          id: "zone-far",
+          type: "work",
+          bounds: { x: 800, y: 800, width: 20, height: 20 },
+        },
+      ],
+      worldResources: {
+        "tree-1": { id: "tree-1", position: { x: 900, y: 900 } },
+        "tree-2": { id: "tree-2", position: { x: 20, y: 20 } },
+      },
+    }) as unknown as GameState;
+
+  const parse = (raw: unknown): SubscriptionFilter => {
+    const result = SubscriptionFilter.parse(raw);
+    if (typeof result === "string") throw new Error(result);
+    return result;
+  };
+
+  describe("Validación", () => {
+    it("debe rechazar suscripciones inválidas", () => {
+      expect(typeof SubscriptionFilter.parse(null)).toBe("string");
+      expect(
+        typeof SubscriptionFilter.parse({ eventTypes: ["NOT_AN_EVENT"] }),
+      ).toBe("string");
+      expect(typeof SubscriptionFilter.parse({ agentIds: "agent-1" })).toBe(
+        "string",
+      );
+      expect(
+        typeof SubscriptionFilter.parse({
+          viewport: { x: 0, y: 0, width: 0, height: 10 },
+        }),
+      ).toBe("string");
+    });
+
+    it("debe dejar pasar todo con una suscripción vacía", () => {
+      const filter = parse({});
+      const state = createState();
+
+      expect(filter.filterEvents(events, state)).toHaveLength(4);
+      expect(filter.filterState(state)).toBe(state);
+      expect(filter.includesState).toBe(true);
+    });
+  });
+
+  describe("Eventos", () => {
+    it("debe filtrar por tipo y por categoría", () => {
+      const filtered = parse({
+        eventTypes: [GameEventType.TIME_CHANGED],
+        eventCategories: ["combat"],
+      }).filterEvents(events, createState());
+
+      expect(filtered.map((e) => e.type)).toEqual([
+        GameEventType.COMBAT_KILL,
+        GameEventType.TIME_CHANGED,
+      ]);
+    });
+
+    it("debe filtrar eventos por agentes seguidos", () => {
+      const filtered = parse({ agentIds: ["agent-3"] }).filterEvents(
+        events,
+        createState(),
+      );
+
+      expect(filtered.map((e) => e.type)).toEqual([
+        GameEventType.TRADE_COMPLETED,
+      ]);
+    });
+
+    it("debe filtrar eventos por viewport sin descartar eventos globales", () => {
+      const filtered = parse({
+        viewport: { x: 0, y: 0, width: 100, height: 100 },
+      }).filterEvents(events, createState());
+
+      expect(filtered.map((e) => e.type)).toEqual([
+        GameEventType.COMBAT_KILL,
+        GameEventType.TRADE_COMPLETED,
+        GameEventType.TIME_CHANGED,
+      ]);
+    });
+  });
+
+  describe("Estado", () => {
+    it("debe restringir agentes y entidades a los seguidos", () => {
+      const filtered = parse({ agentIds: ["agent-1"] }).filterState(
+        createState(),
+      );
+
+      expect(filtered.agents.map((a) => a.id)).toEqual(["agent-1"]);
+      expect(filtered.entities.map((e) => e.id)).toEqual(["agent-1"]);
+      expect(filtered.zones).toHaveLength(2);
+    });
+
+    it("debe restringir las secciones con posición al viewport", () => {
+      const state = createState();
+      const filtered = parse({
+        viewport: { x: 0, y: 0, width: 100, height: 100 },
+      }).filterState(state);
+
+      expect(filtered.agents.map((a) => a.id)).toEqual(["agent-1", "agent-2"]);
+      expect(filtered.entities.map((e) => e.id)).toEqual(["agent-1"]);
+      expect(filtered.zones.map((z) => z.id)).toEqual(["zone-near"]);
+      expect(Object.keys(filtered.worldResources ?? {})).toEqual(["tree-2"]);
+      expect(state.agents).toHaveLength(3);
+    });
+  });
+});
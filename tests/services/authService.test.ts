@@ -0,0 +1,198 @@
+import { describe, it, expect } from "vitest";
+import {
+  AuthService,
+  hasRole,
+  parseAnonymousRole,
+  parseApiKeys,
+  type AuthOptions,
+} from "../../src/infrastructure/services/auth/authService.ts";
+import { CommandProcessor } from "../../src/domain/simulation/core/runner/CommandProcessor.ts";
+import { AuthErrorCode, Role } from "../../src/shared/constants/AuthEnums.ts";
+import {
+  MarketCommandType,
+  SimulationCommandType,
+  SimulationRequestType,
+} from "../../src/shared/constants/CommandEnums.ts";
+import type { AuthIdentity } from "../../src/shared/types/auth.ts";
+import type { SimulationCommand } from "../../src/shared/types/commands/SimulationCommand.ts";
+
+const ADMIN_KEY = "admin-key-0123456789";
+const PLAYER_KEY = "player-key-0123456789";
+
+function createService(options: Partial<AuthOptions> = {}): AuthService {
+  return new AuthService({
+    enabled: true,
+    apiKeys: parseApiKeys(
+      `ops:admin:${ADMIN_KEY}, web:player:${PLAYER_KEY}`,
+    ),
+    tokenSecret: "secreto",
+    tokenTtlSeconds: 3600,
+    anonymousRole: Role.SPECTATOR,
+    ...options,
+  });
+}
+
+function identity(service: AuthService, credential?: string): AuthIdentity {
+  const result = service.authenticate(credential, 0);
+  if (!result.ok) throw new Error(result.error.message);
+  return result.identity;
+}
+
+describe("AuthService", () => {
+  it("debe reconocer las claves de API y tratar a los clientes sin credenciales como anónimos", () => {
+    const service = createService();
+
+    expect(identity(service, ADMIN_KEY)).toEqual({
+      subject: "ops",
+      role: Role.ADMIN,
+      method: "api_key",
+    });
+    expect(identity(service).role).toBe(Role.SPECTATOR);
+
+    const wrong = service.authenticate("otra-clave-0123456789");
+    expect(wrong.ok).toBe(false);
+    expect(!wrong.ok && wrong.error.code).toBe(
+      AuthErrorCode.INVALID_CREDENTIALS,
+    );
+  });
+
+  it("debe emitir tokens firmados que caducan y no superan el rol de quien los pide", () => {
+    const service = createService();
+    const player = identity(service, PLAYER_KEY);
+
+    const issued = service.issueToken(player, Role.SPECTATOR, 60, 0);
+    if (!issued.ok) throw new Error(issued.error.message);
+    expect(issued.session).toMatchObject({
+      subject: "web",
+      role: Role.SPECTATOR,
+      expiresAt: 60_000,
+    });
+
+    expect(service.authenticate(issued.session.token, 1000)).toEqual({
+      ok: true,
+      identity: {
+        subject: "web",
+        role: Role.SPECTATOR,
+        method: "token",
+        expiresAt: 60_000,
+      },
+    });
+    const expired = service.authenticate(issued.session.token, 60_000);
+    expect(!expired.ok && expired.error.code).toBe(AuthErrorCode.TOKEN_EXPIRED);
+
+    const escalated = service.issueToken(player, Role.ADMIN);
+    expect(!escalated.ok && escalated.error.code).toBe(AuthErrorCode.FORBIDDEN);
+    const anonymous = service.issueToken(identity(service));
+    expect(!anonymous.ok && anonymous.error.code).toBe(
+      AuthErrorCode.UNAUTHENTICATED,
+    );
+  });
+
+  it("debe rechazar tokens alterados o firmados con otro secreto", () => {
+    const service = createService();
+    const issued = service.issueToken(identity(service, PLAYER_KEY));
+    if (!issued.ok) throw new Error(issued.error.message);
+    const [version, , signature] = issued.session.token.split(".");
+    const forged = Buffer.from(
+      JSON.stringify({ sub: "web", role: "admin", exp: Date.now() + 60_000 }),
+    ).toString("base64url");
+
+    for (const token of [
+      `${version}.${forged}.${signature}`,
+      `${issued.session.token}x`,
+      "v1.nada",
+    ]) {
+      const result = service.authenticate(token);
+      expect(!result.ok && result.error.code).toBe(
+        AuthErrorCode.INVALID_CREDENTIALS,
+      );
+    }
+    expect(
+      createService({ tokenSecret: "otro" }).authenticate(issued.session.token)
+        .ok,
+    ).toBe(false);
+  });
+
+  it("debe autorizar por rol y distinguir anónimos de roles insuficientes", () => {
+    const service = createService({ anonymousRole: null });
+
+    expect(
+      service.authorize(identity(service, ADMIN_KEY), Role.PLAYER),
+    ).toBeNull();
+    expect(service.authorize(identity(service), Role.SPECTATOR)).toMatchObject(
+      { code: AuthErrorCode.UNAUTHENTICATED, requiredRole: Role.SPECTATOR },
+    );
+    expect(
+      service.authorize(identity(service, PLAYER_KEY), Role.ADMIN),
+    ).toMatchObject({
+      code: AuthErrorCode.FORBIDDEN,
+      requiredRole: Role.ADMIN,
+    });
+    expect(
+      service.authorize(
+        { subject: "web", role: Role.ADMIN, method: "token", expiresAt: 10 },
+        Role.SPECTATOR,
+        10,
+      )?.code,
+    ).toBe(AuthErrorCode.TOKEN_EXPIRED);
+    expect(hasRole(null, Role.SPECTATOR)).toBe(false);
+  });
+
+  it("debe tratar a todos como administradores cuando la autenticación está desactivada", () => {
+    const service = createService({ enabled: false });
+
+    expect(identity(service).role).toBe(Role.ADMIN);
+    expect(identity(service, "cualquier cosa").role).toBe(Role.ADMIN);
+  });
+
+  it("debe rechazar configuraciones de claves inválidas", () => {
+    expect(parseApiKeys("")).toEqual([]);
+    expect(parseApiKeys("a:player:x:y-0123456789abcdef")[0].key).toBe(
+      "x:y-0123456789abcdef",
+    );
+    expect(() => parseApiKeys("solo-nombre")).toThrow("name:role:key");
+    expect(() => parseApiKeys("a:rey:0123456789abcdef")).toThrow("role");
+    expect(() => parseApiKeys("a:admin:corta")).toThrow("16");
+    expect(() =>
+      parseApiKeys("a:admin:0123456789abcdef,b:player:0123456789abcdef"),
+    ).toThrow("repeated");
+    expect(parseAnonymousRole("none")).toBeNull();
+    expect(() => parseAnonymousRole("rey")).toThrow();
+  });
+});
+
+describe("CommandProcessor.requiredRole", () => {
+  it("debe exigir un rol por tipo de comando y administrador para los desconocidos", () => {
+    expect(CommandProcessor.requiredRole(SimulationCommandType.PING)).toBe(
+      Role.SPECTATOR,
+    );
+    expect(
+      CommandProcessor.requiredRole(SimulationRequestType.REQUEST_FULL_STATE),
+    ).toBe(Role.SPECTATOR);
+    expect(
+      CommandProcessor.requiredRole(SimulationCommandType.BUILDING_COMMAND),
+    ).toBe(Role.PLAYER);
+    expect(
+      CommandProcessor.requiredRole(SimulationCommandType.SPAWN_AGENT),
+    ).toBe(Role.ADMIN);
+    expect(
+      CommandProcessor.requiredRole(SimulationRequestType.REQUEST_LOAD_SAVE),
+    ).toBe(Role.ADMIN);
+    expect(CommandProcessor.requiredRole("NUEVO_COMANDO")).toBe(Role.ADMIN);
+  });
+});
+
+describe("CommandProcessor.stampIssuer", () => {
+  it("debe sobrescribir el rol que envía el cliente en las órdenes de mercado", () => {
+    const command = {
+      type: SimulationCommandType.MARKET_COMMAND,
+      command: MarketCommandType.PLACE_ORDER,
+      payload: { agentId: "agent_1" },
+      issuerRole: Role.ADMIN,
+    } as SimulationCommand;
+
+    CommandProcessor.stampIssuer(command, Role.PLAYER);
+
+    expect(command).toMatchObject({ issuerRole: Role.PLAYER });
+  });
+});
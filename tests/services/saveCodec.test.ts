@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import { decode } from "@msgpack/msgpack";
+import {
+  createSaveStream,
+  decodeSave,
+  encodeSave,
+  getSaveKey,
+  parseSaveKey,
+  resolveSaveFormat,
+} from "../../src/infrastructure/services/storage/saveCodec";
+import {
+  SaveCompression,
+  SaveEncoding,
+} from "../../src/shared/constants/StatusEnums";
+
+const collect = async (
+  chunks: Buffer[],
+  compression: SaveCompression,
+): Promise<Buffer> => {
+  const output: Buffer[] = [];
+  for await (const chunk of createSaveStream(chunks, compression)) {
+    output.push(chunk as Buffer);
+  }
+  return Buffer.concat(output);
+};
+
+describe("Codificación de saves", () => {
+  const save = {
+    timestamp: 1000,
+    gameTime: 5,
+    stats: { cycles: 2 },
+    skipped: undefined,
+    state: {
+      agents: [{ id: "agent-1", position: { x: 1.5, y: -2 } }],
+      ...Object.fromEntries(
+        Array.from({ length: 20 }, (_, i) => [`field${i}`, i]),
+      ),
+    },
+  };
+
+  it("debe producir un único mapa MessagePack a partir de los fragmentos", () => {
+    const chunks = encodeSave(save, SaveEncoding.MSGPACK);
+
+    expect(chunks.length).toBeGreaterThan(5);
+    expect(decode(Buffer.concat(chunks))).toEqual({
+      timestamp: 1000,
+      gameTime: 5,
+      stats: { cycles: 2 },
+      state: save.state,
+    });
+  });
+
+  it.each([SaveCompression.NONE, SaveCompression.GZIP, SaveCompression.BROTLI])(
+    "debe recuperar el save comprimido con %s",
+    async (compression) => {
+      const chunks = encodeSave(save, SaveEncoding.MSGPACK);
+      const stored = await collect(chunks, compression);
+
+      const { value, rawSize } = decodeSave(stored, {
+        encoding: SaveEncoding.MSGPACK,
+        compression,
+      });
+
+      expect(value).toMatchObject({ state: save.state });
+      expect(rawSize).toBe(Buffer.concat(chunks).length);
+    },
+  );
+
+  it("debe escribir JSON compacto", () => {
+    const [json] = encodeSave(save, SaveEncoding.JSON);
+
+    expect(json.toString("utf-8")).toBe(JSON.stringify(save));
+  });
+
+  it("debe detectar el contenido aunque la extensión no coincida", async () => {
+    const json = encodeSave(save, SaveEncoding.JSON);
+    const gzipped = await collect(json, SaveCompression.GZIP);
+
+    const { value } = decodeSave(gzipped, {
+      encoding: SaveEncoding.MSGPACK,
+      compression: SaveCompression.NONE,
+    });
+
+    expect(value).toMatchObject({ timestamp: 1000, state: save.state });
+  });
+
+  it("debe construir y reconocer las claves de cada formato", () => {
+    const format = {
+      encoding: SaveEncoding.MSGPACK,
+      compression: SaveCompression.GZIP,
+    };
+
+    expect(getSaveKey("save_1000", format)).toBe("save_1000.msgpack.gz");
+    expect(parseSaveKey("save_1000.msgpack.gz")).toEqual({
+      key: "save_1000.msgpack.gz",
+      id: "save_1000",
+      ...format,
+    });
+    expect(parseSaveKey("save_1000.json")?.compression).toBe(
+      SaveCompression.NONE,
+    );
+    expect(parseSaveKey("save_1000.json.partial")).toBeNull();
+    expect(() => resolveSaveFormat("cbor", undefined)).toThrow(
+      /Unknown SAVE_ENCODING/,
+    );
+  });
+});
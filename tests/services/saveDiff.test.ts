@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { diffSaves } from "../../src/infrastructure/services/storage/saveDiff";
+import type { SaveData } from "../../src/infrastructure/services/storage/storageService";
+
+const save = (state: Record<string, unknown>, extra: Partial<SaveData> = {}): SaveData => ({
+  timestamp: 1,
+  gameTime: 1,
+  stats: {},
+  state,
+  ...extra,
+});
+
+describe("diffSaves", () => {
+  it("debe resumir población, recursos, edificios y relaciones", () => {
+    const a = save(
+      {
+        agents: [{ id: "isa" }, { id: "stev" }, { id: "old", isDead: true }],
+        resources: { energy: 10, currency: 0, materials: { wood: 20, stone: 5 } },
+        zones: [
+          { id: "z1", metadata: { building: "house" } },
+          { id: "z2", metadata: { building: "mine", underConstruction: true } },
+        ],
+        socialGraph: { groups: [], relationships: { isa: { stev: 0.8 } } },
+        marriage: { groups: [], proposals: [] },
+      },
+      { tick: 100 },
+    );
+    const b = save(
+      {
+        agents: [{ id: "isa" }, { id: "stev", isDead: true }, { id: "kid" }],
+        resources: { energy: 10, currency: 3, materials: { wood: 5, stone: 5 } },
+        zones: [
+          { id: "z1", metadata: { building: "house" } },
+          { id: "z2", metadata: { building: "mine" } },
+          { id: "z3", type: "rest" },
+        ],
+        socialGraph: {
+          groups: [],
+          relationships: { isa: { stev: 0.6, kid: 1 }, kid: { isa: 1 } },
+        },
+        marriage: { groups: [{ id: "marriage_1" }], proposals: [] },
+      },
+      { clock: { tick: 250, step: 250 } },
+    );
+
+    const diff = diffSaves("save_1", a, "save_2", b);
+
+    expect(diff.tick).toEqual({ a: 100, b: 250, delta: 150 });
+    expect(diff.population).toMatchObject({ a: 2, b: 2, delta: 0, added: ["kid"], removed: ["stev"] });
+    expect(diff.resources.wood).toEqual({ a: 20, b: 5, delta: -15 });
+    expect(diff.resources.currency.delta).toBe(3);
+    expect(diff.buildings.byType).toEqual({
+      house: { a: 1, b: 1, delta: 0 },
+      mine: { a: 0, b: 1, delta: 1 },
+    });
+    expect(diff.buildings.underConstruction.delta).toBe(-1);
+    expect(diff.relationships.links).toEqual({ a: 1, b: 3, delta: 2 });
+    expect(diff.relationships.averageAffinity.b).toBeCloseTo(0.8667, 3);
+    expect(diff.relationships.marriages.delta).toBe(1);
+  });
+
+  it("debe encontrar el punto de bifurcación común", () => {
+    const fork = (lineage: string[]): SaveData => save({}, { lineage });
+
+    expect(diffSaves("save_3", fork(["save_2", "save_1"]), "save_5", fork(["save_4", "save_2", "save_1"])).lineage)
+      .toMatchObject({ relation: "forked", commonAncestor: "save_2" });
+    expect(diffSaves("save_2", fork(["save_1"]), "save_4", fork(["save_2", "save_1"])).lineage)
+      .toMatchObject({ relation: "ancestor", commonAncestor: "save_2" });
+    expect(diffSaves("save_4", fork(["save_2"]), "save_2", fork([])).lineage.relation).toBe("descendant");
+    expect(diffSaves("save_7", fork([]), "save_8", fork([])).lineage)
+      .toMatchObject({ relation: "unrelated", commonAncestor: null });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+  SAVE_FORMAT_VERSION,
+  SaveMigrator,
+  saveMigrator,
+  validateGameState,
+} from "../../src/infrastructure/services/storage/migrations";
+import type { SaveData } from "../../src/infrastructure/services/storage/storageService";
+
+describe("Migraciones de saves", () => {
+  const legacySave = (): SaveData =>
+    ({
+      timestamp: 1000,
+      gameTime: 50,
+      stats: { cycles: 3 },
+      agents: [{ id: "agent-1" }],
+      entities: [],
+      zones: [],
+      cycles: 3,
+      market: { orders: "broken", transactions: [], prices: {} },
+      oldField: true,
+    }) as unknown as SaveData;
+
+  describe("SaveMigrator", () => {
+    it("debe anidar el estado de saves antiguos y sellar la versión", () => {
+      const raw = legacySave();
+      const { save, report } = saveMigrator.migrate(raw);
+
+      expect(save.saveFormatVersion).toBe(SAVE_FORMAT_VERSION);
+      expect(save.agents).toBeUndefined();
+      expect((save.state as { agents: unknown[] }).agents).toHaveLength(1);
+      expect(report.fromVersion).toBe(1);
+      expect(report.applied).toHaveLength(1);
+      expect(raw.agents).toBeDefined();
+    });
+
+    it("debe informar de los campos descartados y por defecto", () => {
+      const { report } = saveMigrator.migrate(legacySave());
+
+      expect(report.dropped).toEqual([
+        { path: "oldField", reason: "unknown field" },
+      ]);
+      expect(report.defaulted.map((issue) => issue.path)).toEqual([
+        "resources",
+        "time",
+        "dayTime",
+        "togetherTime",
+        "weather",
+        "market.orders",
+      ]);
+      expect(report.defaulted.at(-1)?.reason).toBe(
+        "expected array, got string",
+      );
+    });
+
+    it("debe rechazar saves más nuevos que el servidor", () => {
+      const save = { ...legacySave(), saveFormatVersion: 99 };
+
+      expect(() => saveMigrator.migrate(save)).toThrow(/newer than supported/);
+    });
+
+    it("debe aplicar las migraciones en orden y exigir la cadena completa", () => {
+      const migrator = new SaveMigrator(3).register({
+        from: 2,
+        description: "second",
+        migrate: (save) => ({ ...save, steps: [...(save.steps as string[]), "2"] }),
+      });
+      const save = { ...legacySave(), steps: [] } as SaveData;
+
+      expect(() => migrator.migrate(save)).toThrow(/from save format v1/);
+
+      migrator.register({
+        from: 1,
+        description: "first",
+        migrate: (save) => ({ ...save, steps: ["1"] }),
+      });
+      expect(migrator.migrate(save).save.steps).toEqual(["1", "2"]);
+      expect(() =>
+        migrator.register({ from: 1, description: "again", migrate: (s) => s }),
+      ).toThrow(/Duplicate/);
+    });
+  });
+
+  describe("validateGameState", () => {
+    it("debe descartar campos opcionales con tipo incorrecto", () => {
+      const { state, dropped, defaulted } = validateGameState({
+        ...validateGameState({}).state,
+        timeOfDay: 12,
+        legends: { records: {} },
+      });
+
+      expect(dropped).toEqual([
+        { path: "timeOfDay", reason: "expected string, got number" },
+      ]);
+      expect(defaulted).toEqual([
+        { path: "legends.activeLegends", reason: "missing" },
+      ]);
+      expect(state.timeOfDay).toBeUndefined();
+      expect(state.legends?.activeLegends).toEqual([]);
+    });
+  });
+});
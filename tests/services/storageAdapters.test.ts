@@ -0,0 +1,276 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import http from "http";
+import type { AddressInfo } from "net";
+import { Readable } from "stream";
+import { S3Client } from "@aws-sdk/client-s3";
+import { S3StorageAdapter } from "../../src/infrastructure/services/storage/adapters/S3StorageAdapter";
+import { SqliteStorageAdapter } from "../../src/infrastructure/services/storage/adapters/SqliteStorageAdapter";
+import { NamespacedStorageAdapter } from "../../src/infrastructure/services/storage/adapters/NamespacedStorageAdapter";
+import type { SaveStorageAdapter } from "../../src/infrastructure/services/storage/adapters/SaveStorageAdapter";
+import { StorageType } from "../../src/shared/constants/StatusEnums";
+
+/**
+ * Minimal in-memory S3 endpoint (path-style, like MinIO) that records the
+ * requests it receives, including multipart uploads.
+ */
+function createFakeS3(bucket: string) {
+  const objects = new Map<string, { body: Buffer; modified: Date }>();
+  const uploads = new Map<string, Map<number, Buffer>>();
+  const requests: http.IncomingMessage[] = [];
+
+  const server = http.createServer((req, res) => {
+    requests.push(req);
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const [, requestBucket, ...keyParts] = url.pathname.split("/");
+    const key = decodeURIComponent(keyParts.join("/"));
+
+    if (requestBucket !== bucket) {
+      res.writeHead(404).end("<Error><Code>NoSuchBucket</Code></Error>");
+      return;
+    }
+
+    if (!key && req.method === "GET") {
+      const prefix = url.searchParams.get("prefix") ?? "";
+      const start = Number(url.searchParams.get("continuation-token") ?? 0);
+      const keys = [...objects.keys()]
+        .filter((k) => k.startsWith(prefix))
+        .sort();
+      const page = keys.slice(start, start + 2);
+      const truncated = start + 2 < keys.length;
+      res.writeHead(200, { "content-type": "application/xml" }).end(
+        `<ListBucketResult xmlns="http://s3.amazonaws.com/doc/2006-03-01/"><IsTruncated>${truncated}</IsTruncated>` +
+          (truncated
+            ? `<NextContinuationToken>${start + 2}</NextContinuationToken>`
+            : "") +
+          page
+            .map(
+              (k) =>
+                `<Contents><Key>${k.replace(/&/g, "&amp;")}</Key>` +
+                `<LastModified>${objects.get(k)!.modified.toISOString()}</LastModified>` +
+                `<Size>${objects.get(k)!.body.length}</Size></Contents>`,
+            )
+            .join("") +
+          "</ListBucketResult>",
+      );
+      return;
+    }
+    if (!key) {
+      res.writeHead(200).end();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const object = objects.get(key);
+      const body = Buffer.concat(chunks);
+      const uploadId = url.searchParams.get("uploadId");
+      if (req.method === "POST" && url.searchParams.has("uploads")) {
+        const id = `upload-${uploads.size + 1}`;
+        uploads.set(id, new Map());
+        res
+          .writeHead(200)
+          .end(
+            `<InitiateMultipartUploadResult><UploadId>${id}</UploadId></InitiateMultipartUploadResult>`,
+          );
+      } else if (uploadId && req.method === "PUT") {
+        const partNumber = Number(url.searchParams.get("partNumber"));
+        uploads.get(uploadId)!.set(partNumber, body);
+        res.writeHead(200, { etag: `"etag-${partNumber}"` }).end();
+      } else if (uploadId && req.method === "POST") {
+        const parts = uploads.get(uploadId)!;
+        const numbers = [...body.toString().matchAll(/<PartNumber>(\d+)/g)];
+        objects.set(key, {
+          body: Buffer.concat(numbers.map(([, n]) => parts.get(Number(n))!)),
+          modified: new Date(),
+        });
+        uploads.delete(uploadId);
+        res.writeHead(200).end("<CompleteMultipartUploadResult/>");
+      } else if (uploadId && req.method === "DELETE") {
+        uploads.delete(uploadId);
+        res.writeHead(204).end();
+      } else if (req.method === "PUT") {
+        objects.set(key, { body, modified: new Date() });
+        res.writeHead(200).end();
+      } else if (!object) {
+        res.writeHead(404).end();
+      } else if (req.method === "DELETE") {
+        objects.delete(key);
+        res.writeHead(204).end();
+      } else {
+        res.writeHead(200).end(req.method === "HEAD" ? undefined : object.body);
+      }
+    });
+  });
+
+  return { server, objects, uploads, requests };
+}
+
+describe("S3StorageAdapter", () => {
+  const fake = createFakeS3("saves");
+  let adapter: S3StorageAdapter;
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => fake.server.listen(0, resolve));
+    const { port } = fake.server.address() as AddressInfo;
+    const client = new S3Client({
+      endpoint: `http://127.0.0.1:${port}`,
+      region: "us-east-1",
+      forcePathStyle: true,
+      credentials: { accessKeyId: "minio", secretAccessKey: "minio-secret" },
+      requestChecksumCalculation: "WHEN_REQUIRED",
+      responseChecksumValidation: "WHEN_REQUIRED",
+    });
+    adapter = new S3StorageAdapter(client, "saves");
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => fake.server.close(resolve));
+  });
+
+  it("debe guardar, leer y borrar objetos", async () => {
+    const size = await adapter.write("save_1.json", '{"ñ":1}');
+
+    expect(size).toBe(8);
+    expect(await adapter.read("save_1.json")).toBe('{"ñ":1}');
+    expect(await adapter.read("save_missing.json")).toBeNull();
+    expect(await adapter.delete("save_1.json")).toBe(true);
+    expect(await adapter.delete("save_1.json")).toBe(false);
+    await expect(adapter.checkHealth()).resolves.toBeUndefined();
+  });
+
+  it("debe listar por prefijo siguiendo la paginación", async () => {
+    for (const key of ["save_1.json", "save_2.json", "save_3.json", "save_a&b.json"]) {
+      await adapter.write(key, "{}");
+    }
+    await adapter.write("journal_1.json", "[]");
+
+    const saves = await adapter.list("save_");
+
+    expect(saves.map((o) => o.key)).toEqual([
+      "save_1.json",
+      "save_2.json",
+      "save_3.json",
+      "save_a&b.json",
+    ]);
+    expect(saves[0].size).toBe(2);
+    expect(saves[0].modified).toBeInstanceOf(Date);
+  });
+
+  it("debe subir streams grandes por partes y pequeños con un PUT", async () => {
+    const mib = (fill: number) => Buffer.alloc(1024 * 1024, fill);
+    const chunks = [1, 2, 3, 4, 5, 6].map(mib);
+
+    const size = await adapter.writeStream(
+      "stream_big.bin",
+      Readable.from(chunks),
+    );
+    const small = await adapter.writeStream(
+      "stream_small.bin",
+      Readable.from([Buffer.from([0x80])]),
+    );
+
+    expect(size).toBe(6 * 1024 * 1024);
+    expect((await adapter.readBuffer("stream_big.bin"))?.equals(Buffer.concat(chunks))).toBe(true);
+    expect(small).toBe(1);
+    expect(await adapter.readBuffer("stream_small.bin")).toEqual(Buffer.from([0x80]));
+    expect(
+      fake.requests.filter(
+        (r) => r.url?.includes("stream_big") && r.url.includes("partNumber="),
+      ),
+    ).toHaveLength(2);
+  });
+
+  it("debe abortar la subida por partes si el stream falla", async () => {
+    const failing = Readable.from(
+      (async function* () {
+        yield Buffer.alloc(6 * 1024 * 1024);
+        throw new Error("encoder failed");
+      })(),
+    );
+
+    await expect(adapter.writeStream("stream_fail.bin", failing)).rejects.toThrow(
+      "encoder failed",
+    );
+    expect(fake.uploads.size).toBe(0);
+    expect(fake.objects.has("stream_fail.bin")).toBe(false);
+  });
+
+  it("debe firmar las peticiones con SigV4", async () => {
+    await adapter.read("save_1.json");
+
+    const headers = fake.requests[fake.requests.length - 1].headers;
+    expect(headers.authorization).toMatch(
+      /^AWS4-HMAC-SHA256 Credential=minio\/\d{8}\/us-east-1\/s3\/aws4_request, SignedHeaders=[a-z0-9;-]*host;[a-z0-9;-]*x-amz-date[a-z0-9;-]*, Signature=[0-9a-f]{64}$/,
+    );
+    expect(headers["x-amz-date"]).toMatch(/^\d{8}T\d{6}Z$/);
+  });
+});
+
+describe("SqliteStorageAdapter", () => {
+  it("debe guardar, listar, reemplazar y borrar objetos", async () => {
+    const adapter = new SqliteStorageAdapter(":memory:");
+
+    await adapter.write("save_1.json", "{}");
+    await adapter.write("save_1.json", '{"a":1}');
+    await adapter.write("journal_1.json", "[]");
+
+    const saves = await adapter.list("save_");
+    expect(saves).toHaveLength(1);
+    expect(saves[0].size).toBe(7);
+    expect(await adapter.read("save_1.json")).toBe('{"a":1}');
+    expect(await adapter.delete("save_1.json")).toBe(true);
+    expect(await adapter.read("save_1.json")).toBeNull();
+
+    await adapter.close();
+  });
+});
+
+/**
+ * Map-backed backend, enough to observe the keys a wrapper writes.
+ */
+function createMemoryAdapter(): SaveStorageAdapter {
+  const objects = new Map<string, string>();
+  return {
+    type: StorageType.LOCAL,
+    checkHealth: async () => undefined,
+    list: async (prefix) =>
+      [...objects.entries()]
+        .filter(([key]) => key.startsWith(prefix))
+        .map(([key, content]) => ({
+          key,
+          size: content.length,
+          modified: new Date(0),
+        })),
+    read: async (key) => objects.get(key) ?? null,
+    readBuffer: async (key) =>
+      objects.has(key) ? Buffer.from(objects.get(key) ?? "") : null,
+    write: async (key, content) => {
+      objects.set(key, content);
+      return content.length;
+    },
+    writeStream: async () => 0,
+    delete: async (key) => objects.delete(key),
+  };
+}
+
+describe("NamespacedStorageAdapter", () => {
+  it("debe aislar los objetos de cada espacio de nombres", async () => {
+    const backend = createMemoryAdapter();
+    const world = new NamespacedStorageAdapter(backend, "world_arena.");
+
+    await backend.write("save_1.json", "{}");
+    await world.write("save_2.json", '{"w":1}');
+
+    expect((await backend.list("save_")).map((o) => o.key)).toEqual([
+      "save_1.json",
+    ]);
+    expect((await world.list("save_")).map((o) => o.key)).toEqual([
+      "save_2.json",
+    ]);
+    expect(await backend.read("world_arena.save_2.json")).toBe('{"w":1}');
+    expect(await world.read("save_1.json")).toBeNull();
+    expect(await world.delete("save_2.json")).toBe(true);
+    expect(world.type).toBe(backend.type);
+  });
+});
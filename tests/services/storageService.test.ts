@@ -1,7 +1,15 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import fs from 'fs/promises';
 import path from 'path';
+import type { Readable } from 'stream';
 import { StorageService } from "../../src/infrastructure/services/storage/storageService.ts";
+import type { SaveStorageAdapter } from "../../src/infrastructure/services/storage/adapters/SaveStorageAdapter.ts";
+import type { CommandJournalEntry } from "../../src/shared/types/simulation/replay.ts";
+import {
+  SaveCompression,
+  SaveEncoding,
+  StorageType,
+} from "../../src/shared/constants/StatusEnums.ts";
 
 vi.mock('fs/promises');
 vi.mock('@google-cloud/storage', () => ({
@@ -96,6 +104,22 @@ describe('StorageService', () => {
       expect(saves[0].id).toBe('save_2000');
     });
 
+    it('debe saltar saves ilegibles sin fallar el listado', async () => {
+      const mockFiles = ['save_1000.json', 'save_2000.json'];
+      const mockSaveData = { timestamp: 2000, gameTime: 200, stats: {} };
+
+      vi.mocked(fs.mkdir).mockResolvedValue(undefined);
+      vi.mocked(fs.readdir).mockResolvedValue(mockFiles as never);
+      vi.mocked(fs.readFile)
+        .mockRejectedValueOnce(new Error('EIO'))
+        .mockResolvedValueOnce(JSON.stringify(mockSaveData));
+      vi.mocked(fs.stat).mockResolvedValue({ size: 10, mtime: new Date() } as never);
+
+      const saves = await storageService.listSaves();
+
+      expect(saves.map((save) => save.id)).toEqual(['save_2000']);
+    });
+
     it('debe manejar error al crear directorio y continuar', async () => {
       const mockFiles = ['save_1000.json'];
       const mockSaveData = { timestamp: 1000, gameTime: 100, stats: {} };
@@ -120,7 +144,7 @@ describe('StorageService', () => {
       
       const save = await storageService.getSave('save_1000');
       
-      expect(save).toEqual(mockSaveData);
+      expect(save).toEqual({ ...mockSaveData, saveFormatVersion: 2 });
       expect(fs.readFile).toHaveBeenCalledWith(
         path.join(mockLocalPath, 'save_1000.json'),
         'utf-8'
@@ -193,5 +217,186 @@ describe('StorageService', () => {
       expect(result).toBe(false);
     });
   });
-});
 
+  describe('adaptador de almacenamiento', () => {
+    const createMemoryAdapter = (): SaveStorageAdapter => {
+      const objects = new Map<string, { content: Buffer; modified: Date }>();
+      const store = (key: string, content: Buffer) => {
+        const timestamp = Number(key.replace(/\.[a-z.]+$/, '').replace(/\D/g, ''));
+        objects.set(key, { content, modified: new Date(timestamp) });
+        return content.length;
+      };
+      return {
+        type: StorageType.SQLITE,
+        checkHealth: vi.fn(async () => undefined),
+        list: vi.fn(async (prefix: string) =>
+          [...objects.entries()]
+            .filter(([key]) => key.startsWith(prefix))
+            .map(([key, o]) => ({ key, size: o.content.length, modified: o.modified })),
+        ),
+        read: vi.fn(async (key: string) => objects.get(key)?.content.toString() ?? null),
+        readBuffer: vi.fn(async (key: string) => objects.get(key)?.content ?? null),
+        write: vi.fn(async (key: string, content: string) => store(key, Buffer.from(content))),
+        writeStream: vi.fn(async (key: string, content: Readable) => {
+          const chunks: Buffer[] = [];
+          for await (const chunk of content) chunks.push(chunk as Buffer);
+          return store(key, Buffer.concat(chunks));
+        }),
+        delete: vi.fn(async (key: string) => objects.delete(key)),
+      };
+    };
+
+    it('debe guardar y leer a través del adaptador configurado', async () => {
+      const adapter = createMemoryAdapter();
+      const service = new StorageService(adapter);
+
+      await service.saveGame({ timestamp: 1000, gameTime: 100, stats: {} });
+
+      expect((await service.isHealthy()).storage).toBe('sqlite');
+      expect(await service.getSave('save_1000')).toEqual({
+        timestamp: 1000,
+        gameTime: 100,
+        stats: {},
+        saveFormatVersion: 2,
+      });
+      expect((await service.listSaves())[0].id).toBe('save_1000');
+      expect(fs.writeFile).not.toHaveBeenCalled();
+    });
+
+    it('debe conservar solo los 10 saves más recientes', async () => {
+      const adapter = createMemoryAdapter();
+      const service = new StorageService(adapter);
+
+      for (let i = 1; i <= 12; i++) {
+        await service.saveGame({ timestamp: i * 1000, gameTime: i, stats: {} });
+      }
+
+      await vi.waitFor(async () => {
+        expect(await service.listSaves()).toHaveLength(10);
+      });
+      const ids = (await service.listSaves()).map((s) => s.id);
+      expect(ids).not.toContain('save_1000');
+      expect(ids).not.toContain('save_2000');
+    });
+
+    it('debe excluir de la rotación los saves con nombre o etiquetas', async () => {
+      const adapter = createMemoryAdapter();
+      const service = new StorageService(adapter);
+
+      await service.saveGame(
+        { timestamp: 1000, gameTime: 1, stats: {} },
+        { name: 'Fork de balance', tags: [] },
+      );
+      await service.saveGame({ timestamp: 2000, gameTime: 2, stats: {}, lineage: ['save_1000'] });
+      expect(await service.setSaveTags('save_2000', { tags: ['drought'] })).toEqual({ tags: ['drought'] });
+      expect(await service.setSaveTags('save_9999', { tags: ['x'] })).toBeNull();
+      for (let i = 3; i <= 14; i++) {
+        await service.saveGame({ timestamp: i * 1000, gameTime: i, stats: {} });
+      }
+
+      await vi.waitFor(async () => {
+        expect(await service.listSaves()).toHaveLength(12);
+      });
+      const saves = await service.listSaves();
+      const tagged = saves.filter((save) => save.name || save.tags.length > 0);
+      expect(tagged.map((save) => save.id)).toEqual(['save_2000', 'save_1000']);
+      expect(tagged[0]).toMatchObject({ tags: ['drought'], parentId: 'save_1000' });
+      expect(tagged[1]).toMatchObject({ name: 'Fork de balance', tags: [] });
+      expect(saves.map((save) => save.id)).not.toContain('save_3000');
+
+      await service.setSaveTags('save_2000', { tags: [] });
+      expect((await service.listSaves()).find((save) => save.id === 'save_2000')?.tags).toEqual([]);
+    });
+
+    const entry = (seq: number, tick: number) => ({
+      seq,
+      tick,
+      appliedAt: 0,
+      command: { type: 'PING' },
+    }) as CommandJournalEntry;
+
+    it('debe reemplazar el journal ignorando los chunks que sustituye', async () => {
+      const adapter = createMemoryAdapter();
+      const service = new StorageService(adapter);
+      await service.appendJournalChunk([entry(0, 1), entry(1, 9)]);
+      await service.appendJournalChunk([entry(2, 12)]);
+
+      await service.replaceJournal([entry(0, 1)], 3);
+      // Chunk que una interrupción habría dejado sin borrar
+      await adapter.write('journal_000000000001.json', JSON.stringify([entry(1, 9)]));
+      await service.appendJournalChunk([entry(3, 2)]);
+
+      expect((await service.loadJournal()).map((e) => e.seq)).toEqual([0, 3]);
+      await service.clearJournal();
+      expect(await service.loadJournal()).toEqual([]);
+    });
+
+    it('debe recortar el journal anterior al save conservado más antiguo', async () => {
+      const adapter = createMemoryAdapter();
+      const service = new StorageService(adapter);
+      await service.appendJournalChunk([entry(0, 5), entry(1, 15)]);
+      await service.appendJournalChunk([entry(2, 25), entry(3, 35)]);
+
+      for (let i = 1; i <= 12; i++) {
+        await service.saveGame({ timestamp: i * 1000, gameTime: i, stats: {}, tick: i * 10 });
+      }
+
+      await vi.waitFor(() => {
+        expect(service.getJournalTrimmedTick()).toBe(30);
+      });
+      expect((await service.loadJournal()).map((e) => e.tick)).toEqual([35]);
+      expect(await adapter.read('journal_000000000000.json')).toBeNull();
+    });
+
+    it('debe migrar saves sin versión al leerlos sin reescribirlos', async () => {
+      const adapter = createMemoryAdapter();
+      const service = new StorageService(adapter);
+      await adapter.write(
+        'save_1000.json',
+        JSON.stringify({ timestamp: 1000, gameTime: 1, stats: {}, agents: [], cycles: 7 }),
+      );
+
+      const save = await service.getSave('save_1000');
+
+      expect(save?.saveFormatVersion).toBe(2);
+      expect(save?.state).toMatchObject({ agents: [], cycles: 7, entities: [] });
+      expect(save?.agents).toBeUndefined();
+      expect((await service.listSaves())[0].saveFormatVersion).toBe(1);
+    });
+
+    it('debe guardar en MessagePack comprimido y leer saves JSON antiguos', async () => {
+      const adapter = createMemoryAdapter();
+      const service = new StorageService(adapter, {
+        encoding: SaveEncoding.MSGPACK,
+        compression: SaveCompression.BROTLI,
+      });
+      const agents = Array.from({ length: 50 }, (_, i) => ({ id: `agent-${i}`, name: 'Isa' }));
+      await adapter.write(
+        'save_1000.json',
+        JSON.stringify({ timestamp: 1000, gameTime: 1, stats: {}, saveFormatVersion: 2 }),
+      );
+
+      const result = await service.saveGame({
+        timestamp: 2000,
+        gameTime: 2,
+        stats: { cycles: 4 },
+        state: { agents },
+      });
+
+      expect(adapter.writeStream).toHaveBeenCalledWith('save_2000.msgpack.br', expect.anything());
+      expect(result.size).toBeLessThan(result.rawSize);
+      expect((await service.getSave('save_2000'))?.state).toMatchObject({ agents });
+      expect((await service.getSave('save_1000'))?.gameTime).toBe(1);
+
+      const saves = await service.listSaves();
+      expect(saves.map((save) => [save.id, save.encoding, save.compression])).toEqual([
+        ['save_2000', SaveEncoding.MSGPACK, SaveCompression.BROTLI],
+        ['save_1000', SaveEncoding.JSON, SaveCompression.NONE],
+      ]);
+      expect(saves[0]).toMatchObject({ size: result.size, rawSize: result.rawSize });
+
+      expect(await service.deleteSave('save_2000')).toBe(true);
+      expect(await service.getSave('save_2000')).toBeNull();
+    });
+  });
+});
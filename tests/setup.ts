@@ -197,6 +197,7 @@ export function createMockAISystemDependencies() {
     } as unknown as TimeSystem,
     agentRegistry: {
       getPosition: vi.fn(() => ({ x: 10, y: 10 })),
+      getProfile: vi.fn(() => undefined),
       getAgent: vi.fn(() => null),
       getAllAgents: vi.fn(() => []),
       getAgentIds: vi.fn(() => []),
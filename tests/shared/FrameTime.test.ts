@@ -1,5 +1,14 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
-import { getFrameTime, updateFrameTime, now } from "../../src/shared/FrameTime";
+import {
+  getFrameTime,
+  getSimulationTime,
+  updateFrameTime,
+  now,
+  enableLogicalClock,
+  advanceLogicalClock,
+  disableLogicalClock,
+  isLogicalClockEnabled,
+} from "../../src/shared/FrameTime";
 
 describe("FrameTime", () => {
   beforeEach(() => {
@@ -34,5 +43,38 @@ describe("FrameTime", () => {
     const frameTime = now();
     expect(frameTime).toBe(getFrameTime());
   });
+  describe("reloj lógico", () => {
+    afterEach(() => {
+      disableLogicalClock();
+    });
+
+    it("debe avanzar solo cuando se llama advanceLogicalClock", () => {
+      enableLogicalClock(1000);
+      expect(isLogicalClockEnabled()).toBe(true);
+      expect(getFrameTime()).toBe(1000);
+
+      vi.advanceTimersByTime(500);
+      expect(getFrameTime()).toBe(1000);
+      expect(updateFrameTime()).toBe(1000);
+
+      expect(advanceLogicalClock(50)).toBe(1050);
+      expect(getFrameTime()).toBe(1050);
+    });
+
+    it("debe dar el tiempo lógico a la simulación sin tocar Date.now", () => {
+      const wallTime = new Date("2025-01-01T00:00:00.000Z").getTime();
+      enableLogicalClock(42);
+      expect(getSimulationTime()).toBe(42);
+      expect(Date.now()).toBe(wallTime);
+
+      disableLogicalClock();
+      expect(isLogicalClockEnabled()).toBe(false);
+      expect(getSimulationTime()).toBe(wallTime);
+    });
+
+    it("debe lanzar error si se avanza sin activar", () => {
+      expect(() => advanceLogicalClock(10)).toThrow();
+    });
+  });
 });
 
@@ -6,6 +6,13 @@ import { createMockGameState } from '../setup.ts';
 import type { GameState } from '../../src/shared/types/game-types.ts';
 import type { SimulationCommand } from '../../src/domain/simulation/types.ts';
 import type { LifeCycleSystem } from "../../src/domain/simulation/systems/lifecycle/LifeCycleSystem.ts";
+import type { AgentProfile } from "../../src/shared/types/simulation/agents.ts";
+import { storageService } from "../../src/infrastructure/services/storage/storageService.ts";
+import { TaskType } from "../../src/shared/types/simulation/unifiedTasks.ts";
+import { RecipeId } from "../../src/shared/constants/RecipeEnums.ts";
+import { ResearchCategoryId } from "../../src/shared/constants/ResearchEnums.ts";
+import { Role } from "../../src/shared/constants/AuthEnums.ts";
+import { disableLogicalClock } from "../../src/shared/FrameTime.ts";
 
 describe('SimulationRunner', () => {
   let runner: SimulationRunner;
@@ -146,6 +153,32 @@ describe('SimulationRunner', () => {
     });
   });
 
+  describe('checksums deterministas', () => {
+    afterEach(() => {
+      disableLogicalClock();
+    });
+
+    it('debe registrar el checksum del estado cada checksumInterval pasos', async () => {
+      container.unbind(TYPES.SimulationConfig);
+      container.bind(TYPES.SimulationConfig).toConstantValue({
+        tickIntervalMs: 10,
+        maxCommandQueue: 10,
+        deterministic: true,
+        persistence: false,
+        checksumInterval: 2,
+      });
+      container.unbind(TYPES.SimulationRunner);
+      container.bind<SimulationRunner>(TYPES.SimulationRunner).to(SimulationRunner).inSingletonScope();
+      const deterministic = container.get<SimulationRunner>(TYPES.SimulationRunner);
+      // Sin initialize(): solo los hooks del scheduler, sin sistemas
+      (deterministic as any).configureSchedulerHooks();
+
+      await deterministic.advanceSteps(5);
+
+      expect(deterministic.getTickChecksums().map((c) => c.tick)).toEqual([2, 4]);
+    });
+  });
+
   describe('initializeWorldResources', () => {
     it('debe inicializar recursos del mundo', async () => {
       const worldConfig = {
@@ -215,4 +248,132 @@ describe('SimulationRunner', () => {
       spawnSpy.mockRestore();
     });
   });
+
+  describe('MARKET_COMMAND command', () => {
+    const market = (command: string, payload: Record<string, unknown>, issuerRole?: Role): SimulationCommand =>
+      ({ type: 'MARKET_COMMAND', command, payload, issuerRole }) as SimulationCommand;
+    const process = (command: SimulationCommand): void => {
+      runner.enqueueCommand(command);
+      (runner as any).commandProcessor.process((runner as any).commands);
+    };
+
+    it('debe dejar a un jugador comerciar solo con el agente del jugador', () => {
+      vi.spyOn(runner, 'getPlayerId').mockReturnValue('player_agent');
+      const placeSpy = vi.spyOn(runner.economySystem, 'placeOrder');
+      const order = { orderType: 'buy', resource: 'wood', amount: 5, priceLimit: 2 };
+
+      process(market('PLACE_ORDER', { ...order, agentId: 'other_agent' }, Role.PLAYER));
+      expect(placeSpy).not.toHaveBeenCalled();
+
+      process(market('PLACE_ORDER', { ...order, agentId: 'player_agent' }, Role.PLAYER));
+      process(market('PLACE_ORDER', { ...order, agentId: 'other_agent' }, Role.ADMIN));
+      expect(placeSpy.mock.calls.map((call) => call[0])).toEqual(['player_agent', 'other_agent']);
+    });
+
+    it('debe exigir el agente dueño para cancelar una orden', () => {
+      const cancelSpy = vi.spyOn(runner.economySystem, 'cancelOrder');
+
+      process(market('CANCEL_ORDER', { orderId: 'order_1' }, Role.ADMIN));
+      expect(cancelSpy).not.toHaveBeenCalled();
+
+      process(market('CANCEL_ORDER', { orderId: 'order_1', agentId: 'other_agent' }, Role.ADMIN));
+      expect(cancelSpy).toHaveBeenCalledWith('order_1', 'other_agent');
+    });
+  });
+
+  describe('loadSave', () => {
+    const agent = (id: string): AgentProfile =>
+      ({ id, name: id, position: { x: 10, y: 10 }, isDead: false }) as unknown as AgentProfile;
+
+    it('debe reemplazar el mundo en caliente y reconstruir los registros', async () => {
+      runner.state.agents.push(agent('old_agent'));
+      runner.syncAllAgentSystems();
+      runner.enqueueCommand({ type: 'PAUSE' });
+      const savedState = createMockGameState({
+        agents: [agent('loaded_agent')],
+        tasks: {
+          tasks: [{ id: 'task_7', type: 'build_house', progress: 2, requiredWork: 10, completed: false, contributors: [{ agentId: 'loaded_agent', contribution: 2 }] }],
+          stats: { total: 1, active: 1, completed: 0, stalled: 0, avgProgress: 0.2 },
+        },
+        marriage: {
+          groups: [{ id: 'marriage_3', members: ['loaded_agent', 'other'], foundedDate: 1, cohesion: 0.9, sharedResources: true, children: [] }],
+          proposals: [],
+          stats: { totalMarriages: 1, totalMembers: 2, avgGroupSize: 2, avgCohesion: 0.9, largestGroup: 2, activeProposals: 0 },
+        },
+      } as Partial<GameState>);
+      const getSave = vi.spyOn(storageService, 'getSave').mockResolvedValue({
+        timestamp: 1,
+        gameTime: 1,
+        stats: {},
+        state: savedState,
+        clock: { tick: 420, step: 420 },
+      });
+      const loaded = vi.fn();
+      runner.on('stateLoaded', loaded);
+
+      const result = await runner.loadSave('save_1');
+
+      expect(result).toMatchObject({ saveId: 'save_1', tick: 420, droppedCommands: 1 });
+      expect(loaded).toHaveBeenCalledWith(result);
+      expect(runner.getTickCounter()).toBe(420);
+      expect(runner.state).toBe(initialState);
+      const agentIds = runner.state.agents.map((a) => a.id);
+      expect(agentIds).toContain('loaded_agent');
+      expect(agentIds).not.toContain('old_agent');
+      expect(runner.needsSystem.getNeeds('loaded_agent')).toBeDefined();
+      expect(runner.needsSystem.getNeeds('old_agent')).toBeUndefined();
+      expect(runner.entityIndex.getAgent('loaded_agent')).toBeDefined();
+      expect(runner.taskSystem.getTask('task_7')?.contributors?.get('loaded_agent')).toBe(2);
+      expect(runner.marriageSystem.getMarriageGroup('marriage_3')?.members).toHaveLength(2);
+      expect(runner.getSaveLineage()).toEqual(['save_1']);
+      expect(runner.isLoadingSave()).toBe(false);
+
+      getSave.mockRestore();
+    });
+
+    it('debe devolver null si el guardado no existe', async () => {
+      const getSave = vi.spyOn(storageService, 'getSave').mockResolvedValue(null);
+
+      expect(await runner.loadSave('save_404')).toBeNull();
+      expect(runner.isLoadingSave()).toBe(false);
+
+      getSave.mockRestore();
+    });
+
+    it('debe restaurar el estado privado de los sistemas guardado con el mundo', async () => {
+      runner.state.agents.push(agent('loaded_agent'));
+      runner.syncAllAgentSystems();
+      runner.aiSystem.recordVisitedZone('loaded_agent', 'zone_home');
+      runner.aiSystem.emitTask('loaded_agent', { type: TaskType.EXPLORE, priority: 0.4 });
+      runner.researchSystem.recordRecipeDiscovery('lineage_a', RecipeId.STONE_AXE, 'loaded_agent');
+      const progress = runner.researchSystem.getNode('lineage_a', ResearchCategoryId.PRIMITIVE_TOOLS)?.progress;
+      const systems = JSON.parse(JSON.stringify(runner.serializeSystemStates()));
+      systems.resourceReservation.data.reservations = [
+        { taskId: 'task_build', cost: { wood: 5, stone: 2 }, timestamp: 1 },
+      ];
+      runner.aiSystem.clearAgent('loaded_agent');
+      runner.researchSystem.cleanup();
+      const getSave = vi.spyOn(storageService, 'getSave').mockResolvedValue({
+        timestamp: 1,
+        gameTime: 1,
+        stats: {},
+        state: createMockGameState({ agents: [agent('loaded_agent')] }),
+        clock: { tick: 10, step: 10 },
+        systems,
+        lineage: ['save_1'],
+      });
+
+      await runner.loadSave('save_2');
+
+      expect(systems.ai.version).toBe(runner.aiSystem.persistenceVersion);
+      expect(runner.aiSystem.getAgentMemory('loaded_agent').visitedZones.has('zone_home')).toBe(true);
+      expect(runner.aiSystem.getPendingTasks('loaded_agent').map((t) => t.type)).toContain(TaskType.EXPLORE);
+      expect(runner.resourceReservationSystem.getTotalReserved()).toEqual({ wood: 5, stone: 2 });
+      expect(progress).toBeGreaterThan(0);
+      expect(runner.researchSystem.getNode('lineage_a', ResearchCategoryId.PRIMITIVE_TOOLS)?.progress).toBe(progress);
+      expect(runner.getSaveLineage()).toEqual(['save_2', 'save_1']);
+
+      getSave.mockRestore();
+    });
+  });
 });
@@ -199,6 +199,38 @@ describe("AISystem v4", () => {
     });
   });
 
+  describe("Decisiones", () => {
+    it("debe registrar la decisión con sus candidatas puntuadas", () => {
+      const hungry = { hunger: 10, thirst: 100, energy: 100 };
+      const mockDeps = createMockAISystemDependencies();
+      const system = new AISystem(gameState, {
+        ...mockDeps.agentRegistry,
+        getProfile: vi.fn(() => gameState.agents[0]),
+      } as typeof mockDeps.agentRegistry);
+      system.setDependencies({
+        needsSystem: {
+          getNeeds: vi.fn(() => hungry),
+          getEntityNeeds: vi.fn(() => hungry),
+        } as unknown as NeedsSystem,
+      });
+
+      system.updateAgent("agent-1", 0);
+      vi.advanceTimersByTime(2000);
+      system.updateAgent("agent-1", 0);
+
+      const [decision] = system.getDecisionTraces("agent-1");
+      expect(decision.candidates.length).toBeGreaterThan(0);
+      expect(decision.candidates[0].considerations).toHaveLength(6);
+      expect(decision.weights.needs).toBeGreaterThan(0);
+      expect(decision.candidates.map((c) => c.taskId)).toContain(
+        decision.chosen?.taskId,
+      );
+
+      system.clearAgent("agent-1");
+      expect(system.getDecisionTraces("agent-1")).toEqual([]);
+    });
+  });
+
   // REMOVED: Legacy methods no longer exist in AISystem v4
   // - getAIState
   // - setAgentOffDuty
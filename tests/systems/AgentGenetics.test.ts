@@ -0,0 +1,147 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { AgentGenetics } from "../../src/domain/simulation/systems/lifecycle/AgentGenetics";
+import { RandomUtils } from "../../src/shared/utils/RandomUtils";
+import type {
+  AgentGenome,
+  Gene,
+} from "../../src/shared/types/simulation/agents";
+
+describe("AgentGenetics", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const withGene = (
+    genome: AgentGenome,
+    cooperation: Gene,
+    hairStyle: Gene<string>,
+  ): AgentGenome => ({
+    ...genome,
+    personality: { ...genome.personality, cooperation },
+    appearance: { ...genome.appearance, hairStyle },
+  });
+
+  describe("generateRandomGenome", () => {
+    it("debe expresar todos los rasgos, incluidos los opcionales", () => {
+      const genome = AgentGenetics.generateRandomGenome();
+      const traits = AgentGenetics.expressTraits(genome);
+
+      for (const key of [
+        "cooperation",
+        "aggression",
+        "diligence",
+        "curiosity",
+        "bravery",
+        "intelligence",
+        "charisma",
+        "neuroticism",
+        "stamina",
+      ] as const) {
+        expect(traits[key]).toBeGreaterThanOrEqual(0);
+        expect(traits[key]).toBeLessThanOrEqual(1);
+      }
+
+      const physique = AgentGenetics.expressPhysique(genome);
+      expect(physique.lifespan).toBeGreaterThanOrEqual(0.85);
+      expect(physique.lifespan).toBeLessThanOrEqual(1.15);
+      expect(physique.fertility).toBeGreaterThanOrEqual(0.7);
+      expect(physique.fertility).toBeLessThanOrEqual(1.3);
+    });
+
+    it("debe respetar los rasgos y la apariencia indicados", () => {
+      const genome = AgentGenetics.generateRandomGenome({
+        traits: { cooperation: 0.9, stamina: 0.2 },
+        appearance: { hairColor: "#b55239" },
+      });
+
+      expect(AgentGenetics.expressTraits(genome).cooperation).toBe(0.9);
+      expect(AgentGenetics.expressTraits(genome).stamina).toBe(0.2);
+      expect(AgentGenetics.expressAppearance(genome).hairColor).toBe("#b55239");
+    });
+  });
+
+  describe("Expresión", () => {
+    it("debe enmascarar los alelos recesivos con los dominantes", () => {
+      const genome = withGene(
+        AgentGenetics.generateRandomGenome(),
+        [
+          { value: 0.2, dominant: false },
+          { value: 0.8, dominant: true },
+        ],
+        [
+          { value: "long", dominant: false },
+          { value: "short", dominant: true },
+        ],
+      );
+
+      expect(AgentGenetics.expressTraits(genome).cooperation).toBe(0.8);
+      expect(AgentGenetics.expressAppearance(genome).hairStyle).toBe("short");
+    });
+
+    it("debe mezclar alelos numéricos de igual dominancia", () => {
+      const genome = withGene(
+        AgentGenetics.generateRandomGenome(),
+        [
+          { value: 0.2, dominant: false },
+          { value: 0.6, dominant: false },
+        ],
+        [
+          { value: "long", dominant: false },
+          { value: "bald", dominant: false },
+        ],
+      );
+
+      expect(AgentGenetics.expressTraits(genome).cooperation).toBeCloseTo(0.4);
+      expect(AgentGenetics.expressAppearance(genome).hairStyle).toBe("long");
+    });
+  });
+
+  describe("breedGenome", () => {
+    it("debe heredar un alelo de cada progenitor", () => {
+      vi.spyOn(RandomUtils, "chance").mockReturnValue(false);
+      const father = withGene(
+        AgentGenetics.generateRandomGenome(),
+        [
+          { value: 0.1, dominant: true },
+          { value: 0.1, dominant: true },
+        ],
+        [
+          { value: "short", dominant: true },
+          { value: "short", dominant: true },
+        ],
+      );
+      const mother = withGene(
+        AgentGenetics.generateRandomGenome(),
+        [
+          { value: 0.9, dominant: false },
+          { value: 0.9, dominant: false },
+        ],
+        [
+          { value: "long", dominant: false },
+          { value: "long", dominant: false },
+        ],
+      );
+
+      const child = AgentGenetics.breedGenome(father, mother);
+
+      expect(child.personality.cooperation.map((a) => a.value).sort()).toEqual([
+        0.1, 0.9,
+      ]);
+      expect(AgentGenetics.expressTraits(child).cooperation).toBe(0.1);
+      expect(AgentGenetics.expressAppearance(child).hairStyle).toBe("short");
+    });
+
+    it("debe mantener los genes mutados dentro de su rango", () => {
+      vi.spyOn(RandomUtils, "chance").mockReturnValue(true);
+      vi.spyOn(RandomUtils, "float").mockReturnValue(0.99);
+      const parent = AgentGenetics.generateRandomGenome({
+        traits: { cooperation: 1 },
+      });
+
+      const child = AgentGenetics.breedGenome(parent, parent);
+
+      expect(AgentGenetics.expressTraits(child).cooperation).toBe(1);
+      expect(AgentGenetics.calculateFitness(child)).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { DialogueSystem } from "../../src/domain/simulation/systems/social/DialogueSystem.ts";
+import {
+  simulationEvents,
+  GameEventType,
+} from "../../src/domain/simulation/core/events.ts";
+import { ConflictResolutionChoice } from "../../src/shared/constants/ConflictEnums.ts";
+import { createMockGameState } from "../setup.ts";
+import type { GameState } from "../../src/shared/types/game-types.ts";
+import type { NeedsSystem } from "../../src/domain/simulation/systems/agents/needs/NeedsSystem.ts";
+import type { SocialSystem } from "../../src/domain/simulation/systems/social/SocialSystem.ts";
+import type { InventorySystem } from "../../src/domain/simulation/systems/economy/InventorySystem.ts";
+import type { ConflictResolutionSystem } from "../../src/domain/simulation/systems/conflict/ConflictResolutionSystem.ts";
+
+describe("DialogueSystem", () => {
+  let gameState: GameState;
+  let dialogueSystem: DialogueSystem;
+  let needsSystem: { modifyNeed: ReturnType<typeof vi.fn> };
+  let socialSystem: { modifyAffinity: ReturnType<typeof vi.fn> };
+  let inventorySystem: {
+    addResource: ReturnType<typeof vi.fn>;
+    removeFromAgent: ReturnType<typeof vi.fn>;
+  };
+  let conflictResolutionSystem: { resolveConflict: ReturnType<typeof vi.fn> };
+
+  const emitHunger = (agentId: string): void => {
+    simulationEvents.emit(GameEventType.NEED_CRITICAL, {
+      agentId,
+      need: "hunger",
+      value: 5,
+      timestamp: Date.now(),
+    });
+    simulationEvents.flushEvents();
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    gameState = createMockGameState();
+    needsSystem = { modifyNeed: vi.fn(() => true) };
+    socialSystem = { modifyAffinity: vi.fn() };
+    inventorySystem = {
+      addResource: vi.fn(() => true),
+      removeFromAgent: vi.fn(() => 0),
+    };
+    conflictResolutionSystem = { resolveConflict: vi.fn() };
+
+    dialogueSystem = new DialogueSystem(
+      gameState,
+      needsSystem as unknown as NeedsSystem,
+      socialSystem as unknown as SocialSystem,
+      inventorySystem as unknown as InventorySystem,
+      conflictResolutionSystem as unknown as ConflictResolutionSystem,
+    );
+  });
+
+  afterEach(() => {
+    simulationEvents.clearQueue();
+    simulationEvents.removeAllListeners();
+    vi.useRealTimers();
+  });
+
+  describe("Generación de cartas", () => {
+    it("debe crear una carta cuando un agente pasa hambre", () => {
+      emitHunger("agent-1");
+
+      const cards = dialogueSystem.getActiveCards();
+      expect(cards).toHaveLength(1);
+      expect(cards[0].participants).toEqual(["agent-1"]);
+      expect(cards[0].choices?.length).toBeGreaterThan(0);
+    });
+
+    it("no debe repetir la carta mientras dura el enfriamiento", () => {
+      emitHunger("agent-1");
+      emitHunger("agent-1");
+
+      expect(dialogueSystem.getActiveCards()).toHaveLength(1);
+    });
+
+    it("debe ignorar necesidades críticas que no son hambre", () => {
+      simulationEvents.emit(GameEventType.NEED_CRITICAL, {
+        agentId: "agent-1",
+        need: "hygiene",
+        value: 5,
+      });
+      simulationEvents.flushEvents();
+
+      expect(dialogueSystem.getActiveCards()).toHaveLength(0);
+    });
+
+    it("debe crear una carta al aceptarse un matrimonio", () => {
+      simulationEvents.emit(GameEventType.MARRIAGE_ACCEPTED, {
+        proposerId: "agent-1",
+        targetId: "agent-2",
+        groupId: "marriage_1",
+      });
+      simulationEvents.flushEvents();
+
+      expect(dialogueSystem.getActiveCards()[0].participants).toEqual([
+        "agent-1",
+        "agent-2",
+      ]);
+    });
+
+    it("debe encolar cartas cuando no hay huecos activos", () => {
+      for (let i = 0; i < 5; i++) {
+        emitHunger(`agent-${i}`);
+      }
+
+      expect(dialogueSystem.getActiveCards()).toHaveLength(3);
+      expect(gameState.dialogueState?.queueSize).toBe(2);
+    });
+  });
+
+  describe("Respuestas", () => {
+    it("debe aplicar efectos de necesidades y recursos", () => {
+      emitHunger("agent-1");
+      const card = dialogueSystem.getActiveCards()[0];
+
+      const result = dialogueSystem.respondToCard(card.id, "share_rations");
+
+      expect(result).toBe(true);
+      expect(needsSystem.modifyNeed).toHaveBeenCalledWith(
+        "agent-1",
+        "hunger",
+        30,
+      );
+      expect(inventorySystem.addResource).toHaveBeenCalledWith(
+        "agent-1",
+        "food",
+        3,
+      );
+      expect(dialogueSystem.getActiveCards()).toHaveLength(0);
+      expect(gameState.dialogueState?.history[0].resolvedChoiceId).toBe(
+        "share_rations",
+      );
+    });
+
+    it("debe resolver el conflicto y modificar la afinidad", () => {
+      simulationEvents.emit(GameEventType.CONFLICT_TRUCE_PROPOSED, {
+        cardId: "truce_a_b_1",
+        attackerId: "agent-a",
+        targetId: "agent-b",
+        reason: "low_health",
+      });
+      simulationEvents.flushEvents();
+
+      dialogueSystem.respondToCard(
+        "truce_a_b_1",
+        ConflictResolutionChoice.APOLOGIZE,
+      );
+
+      expect(conflictResolutionSystem.resolveConflict).toHaveBeenCalledWith(
+        "truce_a_b_1",
+        ConflictResolutionChoice.APOLOGIZE,
+      );
+      expect(socialSystem.modifyAffinity).toHaveBeenCalledWith(
+        "agent-a",
+        "agent-b",
+        0.2,
+      );
+    });
+
+    it("debe rechazar cartas u opciones inexistentes", () => {
+      emitHunger("agent-1");
+      const card = dialogueSystem.getActiveCards()[0];
+
+      expect(dialogueSystem.respondToCard("missing", "share_rations")).toBe(
+        false,
+      );
+      expect(dialogueSystem.respondToCard(card.id, "missing")).toBe(false);
+    });
+
+    it("debe promover cartas encoladas al responder", () => {
+      for (let i = 0; i < 4; i++) {
+        emitHunger(`agent-${i}`);
+      }
+      const card = dialogueSystem.getActiveCards()[0];
+
+      dialogueSystem.respondToCard(card.id, "endure");
+
+      expect(dialogueSystem.getActiveCards()).toHaveLength(3);
+      expect(gameState.dialogueState?.queueSize).toBe(0);
+    });
+  });
+
+  describe("Expiración y persistencia", () => {
+    it("debe expirar cartas sin respuesta", () => {
+      emitHunger("agent-1");
+
+      vi.advanceTimersByTime(60000);
+      dialogueSystem.update();
+
+      expect(dialogueSystem.getActiveCards()).toHaveLength(0);
+      expect(gameState.dialogueState?.history[0].expired).toBe(true);
+    });
+
+    it("debe guardar las cartas en el estado del juego", () => {
+      emitHunger("agent-1");
+
+      const restored = createMockGameState({
+        dialogueState: structuredClone(gameState.dialogueState),
+      });
+      const restoredSystem = new DialogueSystem(restored);
+
+      expect(restoredSystem.getActiveCards()).toHaveLength(1);
+    });
+  });
+});
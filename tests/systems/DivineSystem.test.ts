@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { DivineSystem } from "../../src/domain/simulation/systems/social/DivineSystem.ts";
+import { GodId } from "../../src/shared/constants/DivineEnums.ts";
+import { createMockGameState } from "../setup.ts";
+import type { GameState } from "../../src/shared/types/game-types.ts";
+import type { GenealogySystem } from "../../src/domain/simulation/systems/social/GenealogySystem.ts";
+
+describe("DivineSystem", () => {
+  let gameState: GameState;
+  let divineSystem: DivineSystem;
+  let lineage: { id: string; favor: number };
+  let genealogySystem: {
+    getAncestor: ReturnType<typeof vi.fn>;
+    getFamilyTree: ReturnType<typeof vi.fn>;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    gameState = createMockGameState();
+    lineage = { id: "lineage-1", favor: 0 };
+    genealogySystem = {
+      getAncestor: vi.fn((agentId: string) =>
+        agentId.startsWith("member")
+          ? { id: agentId, lineageId: "lineage-1" }
+          : undefined,
+      ),
+      getFamilyTree: vi.fn(() => ({
+        lineages: new Map([[lineage.id, lineage]]),
+      })),
+    };
+
+    divineSystem = new DivineSystem(
+      gameState,
+      genealogySystem as unknown as GenealogySystem,
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("Poder divino", () => {
+    it("debe regenerar el poder hasta el máximo", () => {
+      const initial = divineSystem.getPower(GodId.ISA).power;
+
+      divineSystem.update(10000);
+      expect(divineSystem.getPower(GodId.ISA).power).toBeCloseTo(initial + 5);
+
+      divineSystem.update(1000000);
+      expect(divineSystem.getPower(GodId.ISA).power).toBe(100);
+    });
+
+    it("debe rechazar bendiciones sin poder suficiente", () => {
+      expect(
+        divineSystem.grantBlessing(GodId.ISA, "fertility_boost", {
+          global: true,
+        }),
+      ).not.toBeNull();
+      expect(
+        divineSystem.grantBlessing(GodId.ISA, "fertility_boost", {
+          global: true,
+        }),
+      ).toBeNull();
+      expect(divineSystem.getPower(GodId.ISA).power).toBe(10);
+    });
+  });
+
+  describe("Bendiciones", () => {
+    it("debe rechazar tipos no soportados y objetivos vacíos", () => {
+      expect(
+        divineSystem.grantBlessing(GodId.ISA, "wisdom", { global: true }),
+      ).toBeNull();
+      expect(
+        divineSystem.grantBlessing(GodId.ISA, "resilience", { agentIds: [] }),
+      ).toBeNull();
+    });
+
+    it("debe aplicar el multiplicador según el objetivo", () => {
+      divineSystem.grantBlessing(GodId.ISA, "productivity_boost", {
+        lineageIds: ["lineage-1"],
+      });
+
+      expect(
+        divineSystem.getBlessingMultiplier("member-1", "productivity_boost"),
+      ).toBe(1.5);
+      expect(
+        divineSystem.getBlessingMultiplier("outsider", "productivity_boost"),
+      ).toBe(1);
+      expect(divineSystem.getBlessingMultiplier("member-1", "resilience")).toBe(
+        1,
+      );
+    });
+
+    it("debe bendecir agentes concretos", () => {
+      divineSystem.grantBlessing(GodId.STEV, "resilience", {
+        agentIds: ["outsider"],
+      });
+
+      expect(divineSystem.getBlessingMultiplier("outsider", "resilience")).toBe(
+        1.5,
+      );
+      expect(divineSystem.getBlessingMultiplier("member-1", "resilience")).toBe(
+        1,
+      );
+    });
+
+    it("debe expirar las bendiciones", () => {
+      divineSystem.grantBlessing(
+        GodId.ISA,
+        "resilience",
+        { global: true },
+        5000,
+      );
+
+      vi.advanceTimersByTime(6000);
+      divineSystem.update(6000);
+
+      expect(divineSystem.getActiveBlessings()).toHaveLength(0);
+      expect(divineSystem.getBlessingMultiplier("member-1", "resilience")).toBe(
+        1,
+      );
+    });
+
+    it("debe revocar bendiciones activas", () => {
+      const blessing = divineSystem.grantBlessing(GodId.ISA, "resilience", {
+        global: true,
+      });
+
+      expect(divineSystem.revokeBlessing(blessing!.id)).toBe(true);
+      expect(divineSystem.revokeBlessing(blessing!.id)).toBe(false);
+      expect(gameState.divine?.favor[0].blessings).toHaveLength(0);
+    });
+  });
+
+  describe("Favor", () => {
+    it("debe registrar eventos de favor en el estado", () => {
+      divineSystem.grantBlessing(GodId.ISA, "fertility_boost", {
+        agentIds: ["member-2"],
+      });
+
+      const history = gameState.divine?.history ?? [];
+      expect(history.map((e) => e.type)).toEqual([
+        "blessing_granted",
+        "favor_increased",
+      ]);
+      expect(history[1].lineageId).toBe("lineage-1");
+      expect(gameState.divine?.favor[0].favor).toBe(10);
+      expect(lineage.favor).toBe(10);
+    });
+
+    it("debe decaer el favor sin bendiciones activas", () => {
+      divineSystem.grantBlessing(
+        GodId.ISA,
+        "resilience",
+        { lineageIds: ["lineage-1"] },
+        1000,
+      );
+
+      vi.advanceTimersByTime(2000);
+      divineSystem.update(100000);
+
+      expect(gameState.divine?.favor[0].favor).toBeCloseTo(9);
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { EconomySystem } from "../../src/domain/simulation/systems/economy/EconomySystem.ts";
 import { InventorySystem } from "../../src/domain/simulation/systems/economy/InventorySystem.ts";
 import { SocialSystem } from "../../src/domain/simulation/systems/social/SocialSystem.ts";
@@ -6,6 +6,11 @@ import { RoleSystem } from "../../src/domain/simulation/systems/agents/RoleSyste
 import { createMockGameState, createEntityIndex } from "../setup.ts";
 import type { GameState } from "../../src/types/game-types.ts";
 import { EntityIndex } from "../../src/domain/simulation/core/EntityIndex.ts";
+import {
+  MarketOrderStatus,
+  MarketOrderType,
+} from "../../src/shared/constants/EconomyEnums.ts";
+import { ResourceType } from "../../src/shared/constants/ResourceEnums.ts";
 
 describe("EconomySystem", () => {
   let gameState: GameState;
@@ -327,5 +332,198 @@ describe("EconomySystem", () => {
       }).not.toThrow();
     });
   });
-});
 
+  describe("Mercado", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      gameState.entities.push(
+        {
+          id: "seller",
+          position: { x: 0, y: 0 },
+          type: "agent",
+          stats: { money: 0 },
+        },
+        {
+          id: "buyer",
+          position: { x: 10, y: 10 },
+          type: "agent",
+          stats: { money: 100 },
+        },
+      );
+      entityIndex = createEntityIndex(gameState);
+      economySystem = new EconomySystem(
+        gameState,
+        inventorySystem,
+        socialSystem,
+        entityIndex,
+      );
+      inventorySystem.initializeAgentInventory("seller");
+      inventorySystem.initializeAgentInventory("buyer");
+      inventorySystem.addResource("seller", "wood", 10);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("debe rechazar órdenes inválidas", () => {
+      expect(
+        economySystem.placeOrder(
+          "buyer",
+          MarketOrderType.BUY,
+          ResourceType.WOOD,
+          0,
+        ),
+      ).toBeNull();
+      expect(
+        economySystem.placeOrder(
+          "buyer",
+          MarketOrderType.BUY,
+          ResourceType.WOOD,
+          5,
+          -1,
+        ),
+      ).toBeNull();
+    });
+
+    it("debe casar órdenes cruzadas al precio de la orden más antigua", () => {
+      economySystem.placeOrder(
+        "seller",
+        MarketOrderType.SELL,
+        ResourceType.WOOD,
+        5,
+        4,
+      );
+      vi.advanceTimersByTime(10);
+      economySystem.placeOrder(
+        "buyer",
+        MarketOrderType.BUY,
+        ResourceType.WOOD,
+        5,
+        6,
+      );
+
+      economySystem.update(1000);
+
+      expect(inventorySystem.getAgentInventory("buyer")?.wood).toBe(5);
+      expect(inventorySystem.getAgentInventory("seller")?.wood).toBe(5);
+      expect(economySystem.getMoney("buyer")).toBe(80);
+      expect(economySystem.getMoney("seller")).toBe(20);
+      expect(gameState.market?.orders).toHaveLength(0);
+      expect(gameState.market?.transactions).toHaveLength(1);
+      expect(economySystem.getPriceHistory(ResourceType.WOOD)).toEqual([
+        expect.objectContaining({ price: 4, volume: 5 }),
+      ]);
+      expect(gameState.trade?.stats.totalTrades).toBe(1);
+    });
+
+    it("debe mantener en el libro las órdenes sin cruzar o parciales", () => {
+      economySystem.placeOrder(
+        "seller",
+        MarketOrderType.SELL,
+        ResourceType.WOOD,
+        8,
+        5,
+      );
+      economySystem.placeOrder(
+        "buyer",
+        MarketOrderType.BUY,
+        ResourceType.WOOD,
+        3,
+        5,
+      );
+      economySystem.placeOrder(
+        "buyer",
+        MarketOrderType.BUY,
+        ResourceType.WOOD,
+        2,
+        1,
+      );
+
+      economySystem.update(1000);
+
+      const book = economySystem.getOrderBook(ResourceType.WOOD);
+      expect(book.asks).toHaveLength(1);
+      expect(book.asks[0].filledAmount).toBe(3);
+      expect(book.bids).toHaveLength(1);
+      expect(book.bids[0].priceLimit).toBe(1);
+    });
+
+    it("debe cancelar la orden del comprador sin fondos", () => {
+      economySystem.placeOrder(
+        "seller",
+        MarketOrderType.SELL,
+        ResourceType.WOOD,
+        5,
+        50,
+      );
+      const bid = economySystem.placeOrder(
+        "buyer",
+        MarketOrderType.BUY,
+        ResourceType.WOOD,
+        5,
+        50,
+      );
+
+      economySystem.update(1000);
+
+      expect(bid?.status).toBe(MarketOrderStatus.CANCELLED);
+      expect(inventorySystem.getAgentInventory("seller")?.wood).toBe(10);
+      expect(economySystem.getMoney("buyer")).toBe(100);
+      expect(economySystem.getOrderBook(ResourceType.WOOD).asks).toHaveLength(
+        1,
+      );
+    });
+
+    it("debe cancelar y expirar órdenes", () => {
+      const ask = economySystem.placeOrder(
+        "seller",
+        MarketOrderType.SELL,
+        ResourceType.WOOD,
+        5,
+        5,
+        1000,
+      );
+      const bid = economySystem.placeOrder(
+        "buyer",
+        MarketOrderType.BUY,
+        ResourceType.STONE,
+        5,
+        5,
+      );
+
+      expect(economySystem.cancelOrder(bid!.id, "seller")).toBe(false);
+      expect(economySystem.cancelOrder(bid!.id, "buyer")).toBe(true);
+
+      vi.advanceTimersByTime(2000);
+      economySystem.update(2000);
+
+      expect(ask?.status).toBe(MarketOrderStatus.EXPIRED);
+      expect(gameState.market?.orders).toHaveLength(0);
+    });
+
+    it("debe acercar el precio al último precio de cierre", () => {
+      const before = economySystem.getResourcePrice(ResourceType.WOOD);
+      economySystem.placeOrder(
+        "seller",
+        MarketOrderType.SELL,
+        ResourceType.WOOD,
+        1,
+        before + 10,
+      );
+      economySystem.placeOrder(
+        "buyer",
+        MarketOrderType.BUY,
+        ResourceType.WOOD,
+        1,
+        before + 10,
+      );
+
+      economySystem.update(1000);
+
+      expect(economySystem.getResourcePrice(ResourceType.WOOD)).toBe(
+        Math.round(before + 5),
+      );
+    });
+  });
+});
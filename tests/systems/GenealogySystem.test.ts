@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from "vitest";
 import { GenealogySystem } from "../../src/domain/simulation/systems/social/GenealogySystem.ts";
+import { AgentGenetics } from "../../src/domain/simulation/systems/lifecycle/AgentGenetics.ts";
 import { createMockGameState } from "../setup.ts";
 import type { GameState } from "../../src/types/game-types.ts";
 import type { AgentProfile } from "../../src/domain/simulation/types/agents.ts";
@@ -66,5 +67,36 @@ describe("GenealogySystem", () => {
       expect(() => genealogySystem.registerBirth(child, "father-1")).not.toThrow();
     });
   });
-});
 
+  describe("Genética por generación", () => {
+    it("debe registrar el genoma y promediar la genética de cada generación", () => {
+      const genome = AgentGenetics.generateRandomGenome({
+        traits: { cooperation: 0.5 },
+      });
+      const agent = {
+        id: "agent-1",
+        name: "Agent",
+        sex: "female",
+        ageYears: 0,
+        lifeStage: "child",
+        birthTimestamp: Date.now(),
+        generation: 2,
+        immortal: false,
+        traits: AgentGenetics.expressTraits(genome),
+        genome,
+      } as AgentProfile;
+
+      genealogySystem.registerBirth(agent);
+
+      const ancestor = genealogySystem.getFamilyTree().ancestors.get("agent-1");
+      expect(ancestor?.genome).toBe(genome);
+      expect(ancestor?.fitness).toBe(AgentGenetics.calculateFitness(genome));
+
+      const stats = genealogySystem.getGenerationGenetics();
+      expect(stats).toHaveLength(1);
+      expect(stats[0].generation).toBe(2);
+      expect(stats[0].count).toBe(1);
+      expect(stats[0].averageTraits.cooperation).toBe(0.5);
+    });
+  });
+});
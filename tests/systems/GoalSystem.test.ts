@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { GoalSystem } from "../../src/domain/simulation/systems/objectives/GoalSystem.ts";
+import { TimeSystem } from "../../src/domain/simulation/systems/core/TimeSystem.ts";
+import {
+  simulationEvents,
+  GameEventType,
+} from "../../src/domain/simulation/core/events.ts";
+import { toScenarioState } from "../../src/domain/simulation/core/scenarios/parseScenario.ts";
+import { BuildingType } from "../../src/shared/constants/BuildingEnums.ts";
+import { createMockGameState } from "../setup.ts";
+import type { GameState, Zone } from "../../src/shared/types/game-types.ts";
+import type { AgentProfile } from "../../src/shared/types/simulation/agents.ts";
+import type { LegendRecord } from "../../src/shared/types/simulation/legends.ts";
+import type { ScenarioConditions } from "../../src/shared/types/simulation/scenario.ts";
+
+describe("GoalSystem", () => {
+  let gameState: GameState;
+  let goalSystem: GoalSystem;
+  const timeSystem = new TimeSystem();
+  const day = timeSystem.getDayLengthMs();
+
+  const agents = (count: number): AgentProfile[] =>
+    Array.from(
+      { length: count },
+      (_, i) => ({ id: `agent-${i}`, isDead: false }) as AgentProfile,
+    );
+
+  const withConditions = (conditions: Partial<ScenarioConditions>): void => {
+    gameState.scenario = toScenarioState({
+      id: "prueba",
+      name: "Prueba",
+      conditions,
+    });
+  };
+
+  beforeEach(() => {
+    gameState = createMockGameState({ agents: agents(3) });
+    goalSystem = new GoalSystem(gameState, timeSystem);
+  });
+
+  afterEach(() => {
+    simulationEvents.clearQueue();
+    simulationEvents.removeAllListeners();
+  });
+
+  it("no debe evaluar mundos sin escenario ni condiciones", () => {
+    goalSystem.update(1000);
+    withConditions({});
+    goalSystem.update(1000);
+
+    expect(goalSystem.getGoalsState()).toBeUndefined();
+  });
+
+  it("debe ganar cuando todas las condiciones de victoria se cumplen a la vez", () => {
+    const won = vi.fn();
+    simulationEvents.on(GameEventType.SCENARIO_WON, won);
+    withConditions({
+      victory: [
+        { type: "survive_days", days: 2 },
+        { type: "population", min: 4 },
+      ],
+    });
+
+    goalSystem.update(day);
+    let goals = goalSystem.getGoalsState();
+    expect(goals?.status).toBe("active");
+    expect(goals?.goals.map((g) => g.progress)).toEqual([0.5, 0.75]);
+
+    goalSystem.update(day);
+    goals = goalSystem.getGoalsState();
+    expect(goals?.goals[0]).toMatchObject({ met: true, completedAt: 2 * day });
+    expect(goals?.status).toBe("active");
+
+    gameState.agents.push(...agents(4).slice(3));
+    goalSystem.update(1000);
+    simulationEvents.flushEvents();
+
+    expect(goalSystem.getGoalsState()).toMatchObject({
+      status: "won",
+      endedAt: 2 * day + 1000,
+    });
+    expect(won).toHaveBeenCalledWith({
+      scenarioId: "prueba",
+      elapsedMs: 2 * day + 1000,
+    });
+  });
+
+  it("debe perder en cuanto se cumple una condición de derrota y dejar de evaluar", () => {
+    const lost = vi.fn();
+    simulationEvents.on(GameEventType.SCENARIO_LOST, lost);
+    withConditions({
+      victory: [{ type: "survive_days", days: 1 }],
+      failure: [{ type: "population", max: 0 }],
+    });
+
+    goalSystem.update(1000);
+    for (const agent of gameState.agents) agent.isDead = true;
+    goalSystem.update(1000);
+    goalSystem.update(day);
+    simulationEvents.flushEvents();
+
+    expect(goalSystem.getGoalsState()).toMatchObject({
+      status: "lost",
+      elapsedMs: 2000,
+    });
+    expect(lost).toHaveBeenCalledOnce();
+    expect(lost.mock.calls[0][0]).toMatchObject({ goalId: "failure_0" });
+  });
+
+  it("debe contar edificios terminados y leyendas por rango", () => {
+    withConditions({
+      victory: [
+        { type: "building", building: BuildingType.HOUSE, count: 2 },
+        { type: "legend", tier: "renowned" },
+      ],
+    });
+    gameState.zones = [
+      { id: "a", metadata: { buildingType: "house" } },
+      { id: "b", metadata: { buildingType: "house", underConstruction: true } },
+      { id: "c", metadata: { buildingType: "farm" } },
+    ] as Zone[];
+    gameState.legends = {
+      records: {
+        "agent-0": { legendTier: "respected" } as LegendRecord,
+      },
+      activeLegends: [],
+    };
+
+    goalSystem.update(1000);
+    expect(goalSystem.getGoalsState()?.goals.map((g) => g.progress)).toEqual([
+      0.5, 0,
+    ]);
+
+    gameState.zones[1].metadata!.underConstruction = false;
+    gameState.legends.records["agent-0"].legendTier = "mythical";
+    goalSystem.update(1000);
+
+    expect(goalSystem.getGoalsState()?.status).toBe("won");
+  });
+
+  it("debe reiniciar la cuenta sin hambruna con cada muerte por hambre", () => {
+    withConditions({ victory: [{ type: "no_starvation", days: 1 }] });
+
+    goalSystem.update(day / 2);
+    simulationEvents.emit(GameEventType.AGENT_DEATH, {
+      agentId: "agent-0",
+      cause: "starvation",
+    });
+    simulationEvents.emit(GameEventType.AGENT_DEATH, {
+      agentId: "agent-1",
+      cause: "old_age",
+    });
+    simulationEvents.flushEvents();
+    goalSystem.update(day / 2);
+
+    const goals = goalSystem.getGoalsState();
+    expect(goals?.lastStarvationMs).toBe(day / 2);
+    expect(goals?.goals[0].progress).toBe(0.5);
+    expect(goals?.status).toBe("active");
+  });
+
+  it("debe emitir el progreso por pasos y empezar de nuevo con otro escenario", () => {
+    const progress = vi.fn();
+    simulationEvents.on(GameEventType.GOAL_PROGRESS, progress);
+    withConditions({ victory: [{ type: "survive_days", days: 10 }] });
+
+    goalSystem.update(day / 10);
+    goalSystem.update(day / 2);
+    goalSystem.update(day / 10);
+    simulationEvents.flushEvents();
+    expect(progress).toHaveBeenCalledOnce();
+
+    gameState.scenario = {
+      ...gameState.scenario!,
+      id: "otro",
+    };
+    goalSystem.update(1000);
+    expect(goalSystem.getGoalsState()).toMatchObject({
+      scenarioId: "otro",
+      elapsedMs: 1000,
+    });
+  });
+});
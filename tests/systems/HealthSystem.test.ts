@@ -0,0 +1,225 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { HealthSystem } from "../../src/domain/simulation/systems/agents/HealthSystem.ts";
+import type { NeedsSystem } from "../../src/domain/simulation/systems/agents/needs/NeedsSystem.ts";
+import type { RoleSystem } from "../../src/domain/simulation/systems/agents/RoleSystem.ts";
+import type { LifeCycleSystem } from "../../src/domain/simulation/systems/lifecycle/LifeCycleSystem.ts";
+import { SharedSpatialIndex } from "../../src/domain/simulation/core/SharedSpatialIndex.ts";
+import {
+  simulationEvents,
+  GameEventType,
+} from "../../src/domain/simulation/core/events.ts";
+import { RandomUtils } from "../../src/shared/utils/RandomUtils.ts";
+import { RoleType } from "../../src/shared/constants/RoleEnums.ts";
+import { ZoneType } from "../../src/shared/constants/ZoneEnums.ts";
+import { createMockGameState } from "../setup.ts";
+import type { GameState } from "../../src/shared/types/game-types.ts";
+import type { AgentProfile } from "../../src/shared/types/simulation/agents.ts";
+import type { SimulationEntity } from "../../src/domain/simulation/core/schema.ts";
+
+describe("HealthSystem", () => {
+  let gameState: GameState;
+  let spatialIndex: SharedSpatialIndex;
+  let hygiene: Record<string, number>;
+  let needsSystem: NeedsSystem;
+  let roles: Record<string, { roleType: RoleType; efficiency: number }>;
+  let roleSystem: RoleSystem;
+  let lifeCycleSystem: LifeCycleSystem;
+  let healthSystem: HealthSystem;
+
+  const createAgent = (id: string, x: number, y: number): AgentProfile =>
+    ({
+      id,
+      name: id,
+      position: { x, y },
+      isDead: false,
+    }) as unknown as AgentProfile;
+
+  const createEntity = (agent: AgentProfile): SimulationEntity =>
+    ({
+      id: agent.id,
+      type: "agent",
+      position: { ...agent.position! },
+      isDead: false,
+      stats: { health: 100 },
+    }) as unknown as SimulationEntity;
+
+  const health = (agentId: string): number =>
+    gameState.entities!.find((e) => e.id === agentId)!.stats!.health!;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    const agents = [
+      createAgent("agent-1", 0, 0),
+      createAgent("agent-2", 20, 0),
+      createAgent("agent-3", 2000, 2000),
+    ];
+    gameState = createMockGameState({
+      agents,
+      entities: agents.map(createEntity),
+      zones: [],
+    });
+
+    spatialIndex = new SharedSpatialIndex(0, 0, 70);
+    spatialIndex.rebuildIfNeeded(gameState.entities!, new Map());
+
+    hygiene = {};
+    needsSystem = {
+      getNeeds: vi.fn((id: string) => ({ hygiene: hygiene[id] ?? 100 })),
+      modifyNeed: vi.fn(),
+    } as unknown as NeedsSystem;
+
+    roles = {};
+    roleSystem = {
+      getAgentRole: vi.fn((id: string) => roles[id]),
+    } as unknown as RoleSystem;
+
+    lifeCycleSystem = {
+      removeAgent: vi.fn((id: string) => {
+        gameState.agents = gameState.agents!.filter((a) => a.id !== id);
+      }),
+    } as unknown as LifeCycleSystem;
+
+    healthSystem = new HealthSystem(
+      gameState,
+      needsSystem,
+      roleSystem,
+      spatialIndex,
+      lifeCycleSystem,
+    );
+  });
+
+  afterEach(() => {
+    simulationEvents.clearQueue();
+    simulationEvents.removeAllListeners();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  describe("Enfermedades", () => {
+    it("debe enfermar a un agente y restarle salud y energía", () => {
+      expect(healthSystem.infect("agent-1", "fever")).toBe(true);
+      expect(healthSystem.infect("agent-1", "fever")).toBe(false);
+
+      healthSystem.update(10_000);
+
+      expect(health("agent-1")).toBeCloseTo(99.5);
+      expect(needsSystem.modifyNeed).toHaveBeenCalledWith(
+        "agent-1",
+        "energy",
+        expect.closeTo(-0.5),
+      );
+      expect(healthSystem.getAilments("agent-1")?.diseases).toEqual(["fever"]);
+    });
+
+    it("debe contagiar solo a los agentes cercanos", () => {
+      vi.spyOn(RandomUtils, "chance").mockReturnValue(true);
+      healthSystem.infect("agent-1", "fever");
+
+      healthSystem.update(1000);
+
+      expect(healthSystem.getAilments("agent-2")?.diseases).toEqual(["fever"]);
+      expect(healthSystem.getAilments("agent-3")).toBeUndefined();
+    });
+
+    it("debe dar inmunidad temporal al recuperarse", () => {
+      const recovered = vi.fn();
+      simulationEvents.on(GameEventType.DISEASE_RECOVERED, recovered);
+      healthSystem.infect("agent-1", "fever");
+
+      healthSystem.update(240_000);
+      simulationEvents.flushEvents();
+
+      expect(recovered).toHaveBeenCalledWith(
+        expect.objectContaining({ agentId: "agent-1", diseaseId: "fever" }),
+      );
+      expect(healthSystem.getAilments("agent-1")).toBeUndefined();
+      expect(healthSystem.infect("agent-1", "fever")).toBe(false);
+
+      vi.advanceTimersByTime(1_200_001);
+      healthSystem.update(1000);
+      expect(healthSystem.getRecord("agent-1")).toBeUndefined();
+      expect(healthSystem.infect("agent-1", "fever")).toBe(true);
+    });
+
+    it("debe causar disentería al comer comida en mal estado", () => {
+      simulationEvents.emit(GameEventType.FOOD_POISONING, {
+        agentId: "agent-1",
+      });
+      simulationEvents.flushEvents();
+
+      expect(healthSystem.getAilments("agent-1")?.diseases).toEqual([
+        "dysentery",
+      ]);
+    });
+
+    it("debe causar fiebre por falta de higiene", () => {
+      vi.spyOn(RandomUtils, "chance").mockReturnValue(true);
+      hygiene["agent-3"] = 5;
+
+      healthSystem.update(1000);
+
+      expect(healthSystem.getAilments("agent-3")?.diseases).toContain("fever");
+    });
+
+    it("debe matar al agente cuya salud se agota", () => {
+      gameState.entities!.find((e) => e.id === "agent-1")!.stats!.health = 0.5;
+      healthSystem.infect("agent-1", "infection");
+
+      healthSystem.update(10_000);
+
+      expect(lifeCycleSystem.removeAgent).toHaveBeenCalledWith("agent-1");
+      expect(healthSystem.getRecord("agent-1")).toBeUndefined();
+    });
+  });
+
+  describe("Heridas", () => {
+    it("debe registrar heridas de combate y curarlas devolviendo la salud", () => {
+      const healed = vi.fn();
+      simulationEvents.on(GameEventType.WOUND_HEALED, healed);
+      gameState.entities!.find((e) => e.id === "agent-1")!.stats!.health = 90;
+
+      simulationEvents.emit(GameEventType.COMBAT_HIT, {
+        attackerId: "agent-2",
+        targetId: "agent-1",
+        damage: 10,
+      });
+      simulationEvents.flushEvents();
+      expect(healthSystem.getAilments("agent-1")?.woundSeverity).toBe(10);
+
+      healthSystem.update(100_000);
+      simulationEvents.flushEvents();
+      expect(health("agent-1")).toBeCloseTo(95);
+
+      healthSystem.update(100_000);
+      simulationEvents.flushEvents();
+      expect(health("agent-1")).toBeCloseTo(100);
+      expect(healed).toHaveBeenCalledTimes(1);
+      expect(healthSystem.getRecord("agent-1")).toBeUndefined();
+    });
+  });
+
+  describe("Cuidados", () => {
+    it("debe acelerar la recuperación en zonas médicas y junto a sanadores", () => {
+      expect(healthSystem.getRecoveryMultiplier("agent-1")).toBe(1);
+
+      gameState.zones = [
+        {
+          id: "clinic",
+          type: ZoneType.MEDICAL,
+          bounds: { x: -10, y: -10, width: 50, height: 50 },
+        },
+      ] as GameState["zones"];
+      expect(healthSystem.getRecoveryMultiplier("agent-1")).toBe(2);
+
+      roles["agent-2"] = { roleType: RoleType.HEALER, efficiency: 0.5 };
+      expect(healthSystem.getRecoveryMultiplier("agent-1")).toBe(2.5);
+      expect(healthSystem.getRecoveryMultiplier("agent-2")).toBe(2);
+
+      expect(healthSystem.findNearestMedicalZone({ x: 500, y: 0 })).toEqual({
+        id: "clinic",
+        x: 15,
+        y: 15,
+      });
+    });
+  });
+});
@@ -1,5 +1,11 @@
-import { describe, it, expect, beforeEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { InventorySystem } from "../../src/domain/simulation/systems/economy/InventorySystem.ts";
+import {
+  simulationEvents,
+  GameEventType,
+} from "../../src/domain/simulation/core/events.ts";
+import type { GameState } from "../../src/shared/types/game-types.ts";
+import { createMockGameState } from "../setup.ts";
 import type { ResourceType } from "../../src/domain/simulation/types/economy.ts";
 
 describe("InventorySystem", () => {
@@ -166,9 +172,8 @@ describe("InventorySystem", () => {
       expect(() => inventorySystem.update()).not.toThrow();
     });
 
-    it("debe degradar comida y agua con el tiempo", () => {
+    it("debe degradar el agua con el tiempo", () => {
       const stockpile = inventorySystem.createStockpile("zone-8", "general");
-      inventorySystem.addToStockpile(stockpile.id, "food", 100);
       inventorySystem.addToStockpile(stockpile.id, "water", 100);
       
       // Simular múltiples updates
@@ -177,9 +182,188 @@ describe("InventorySystem", () => {
       }
       
       const retrieved = inventorySystem.getStockpile(stockpile.id);
-      expect(retrieved?.inventory.food).toBeLessThan(100);
       expect(retrieved?.inventory.water).toBeLessThan(100);
     });
   });
+
+  describe("Caducidad de la comida", () => {
+    const SPOIL_TIME = 300000;
+    let gameState: GameState;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(0);
+      gameState = createMockGameState({
+        zones: [
+          {
+            id: "zone-storage",
+            type: "storage",
+            bounds: { x: 0, y: 0, width: 10, height: 10 },
+          },
+        ],
+        weather: {
+          current: "clear",
+          temperature: 20,
+          visibility: 1,
+          lastChange: 0,
+          duration: 0,
+        },
+      });
+      inventorySystem = new InventorySystem(gameState);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+      simulationEvents.clearQueue();
+    });
+
+    const runUpdateAt = (time: number): void => {
+      vi.setSystemTime(time);
+      inventorySystem.update();
+    };
+
+    it("debe guardar la comida en lotes con su momento de producción", () => {
+      inventorySystem.initializeAgentInventory("agent-1");
+      inventorySystem.addResource("agent-1", "food", 3);
+      inventorySystem.addResource("agent-1", "food", 2);
+      runUpdateAt(15000);
+      inventorySystem.addResource("agent-1", "food", 4);
+
+      const inventory = inventorySystem.getAgentInventory("agent-1")!;
+      expect(inventory.food).toBe(9);
+      expect(inventory.foodBatches).toEqual([
+        { amount: 5, producedAt: 0, age: 15000 },
+        { amount: 4, producedAt: 15000, age: 0 },
+      ]);
+    });
+
+    it("debe estropear cada lote según su spoilTime y convertirlo en compost en los almacenes", () => {
+      const emitSpy = vi.spyOn(simulationEvents, "emit");
+      const stockpile = inventorySystem.createStockpile("zone-8", "general");
+      inventorySystem.addToStockpile(stockpile.id, "food", 10);
+      vi.setSystemTime(100000);
+      inventorySystem.addToStockpile(stockpile.id, "food", 5);
+
+      runUpdateAt(SPOIL_TIME - 20000);
+      expect(stockpile.inventory.food).toBe(15);
+
+      runUpdateAt(SPOIL_TIME + 1);
+      expect(stockpile.inventory.food).toBe(5);
+      expect(stockpile.compost).toBe(10);
+      expect(emitSpy).toHaveBeenCalledWith(
+        GameEventType.FOOD_SPOILED,
+        expect.objectContaining({ stockpileId: stockpile.id, amount: 10 }),
+      );
+
+      expect(inventorySystem.takeCompost("zone-8", 4)).toBe(4);
+      expect(stockpile.compost).toBe(6);
+    });
+
+    it("debe estropear cada comida según el spoilTime de su catálogo", () => {
+      inventorySystem.initializeAgentInventory("agent-1");
+      inventorySystem.addResource("agent-1", "food", 2, "salmon");
+      inventorySystem.addResource("agent-1", "food", 3, "bread");
+      const inventory = inventorySystem.getAgentInventory("agent-1")!;
+      const spoiled = (): boolean[] =>
+        inventory.foodBatches!.map((b) => !!b.spoiled);
+
+      runUpdateAt(180000);
+      expect(spoiled()).toEqual([true, false]);
+
+      runUpdateAt(600000);
+      expect(spoiled()).toEqual([true, true]);
+    });
+
+    it("debe recoger la comida de la que da cada recurso del mundo", () => {
+      gameState.worldResources = {
+        "wheat-1": {
+          id: "wheat-1",
+          type: "wheat_crop",
+          position: { x: 0, y: 0 },
+          state: "pristine",
+          harvestCount: 0,
+          lastHarvestTime: 0,
+          biome: "grassland",
+        },
+      } as unknown as GameState["worldResources"];
+      inventorySystem.initializeAgentInventory("agent-1");
+
+      inventorySystem.requestGather("agent-1", "wheat-1", 5);
+
+      const batches = inventorySystem.getAgentInventory("agent-1")!.foodBatches;
+      expect(batches?.map((b) => b.foodId)).toEqual(["bread"]);
+    });
+
+    it("debe conservar la comida más tiempo en almacenes y con frío", () => {
+      const stored = inventorySystem.createStockpile("zone-storage", "food");
+      const outside = inventorySystem.createStockpile("zone-9", "food");
+      inventorySystem.addToStockpile(stored.id, "food", 10);
+      inventorySystem.addToStockpile(outside.id, "food", 10);
+
+      runUpdateAt(SPOIL_TIME + 1);
+      expect(outside.inventory.food).toBe(0);
+      expect(stored.inventory.food).toBe(10);
+
+      gameState.weather.temperature = -5;
+      runUpdateAt(2 * SPOIL_TIME);
+      expect(stored.inventory.food).toBe(10);
+      expect(stored.inventory.foodBatches?.[0].age).toBeCloseTo(
+        (SPOIL_TIME + 1) * 0.5 + (SPOIL_TIME - 1) * 0.5 * 0.2,
+      );
+    });
+
+    it("debe dar de comer primero la comida fresca más antigua y la estropeada al final", () => {
+      inventorySystem.initializeAgentInventory("agent-1");
+      inventorySystem.addResource("agent-1", "food", 2);
+      runUpdateAt(SPOIL_TIME);
+      inventorySystem.addResource("agent-1", "food", 2);
+      runUpdateAt(SPOIL_TIME + 15000);
+      inventorySystem.addResource("agent-1", "food", 2);
+
+      const inventory = inventorySystem.getAgentInventory("agent-1")!;
+      expect(inventory.foodBatches?.[0].spoiled).toBe(true);
+
+      const eaten = inventorySystem.eatFood("agent-1", 5);
+      expect(eaten.map((b) => [b.producedAt, b.amount, !!b.spoiled])).toEqual([
+        [SPOIL_TIME, 2, false],
+        [SPOIL_TIME + 15000, 2, false],
+        [0, 1, true],
+      ]);
+      expect(inventory.food).toBe(1);
+    });
+
+    it("debe conservar la edad de la comida al depositarla o transferirla", () => {
+      inventorySystem.initializeAgentInventory("agent-1");
+      inventorySystem.initializeAgentInventory("agent-2");
+      const stockpile = inventorySystem.createStockpile("zone-8", "food");
+      inventorySystem.addResource("agent-1", "food", 6);
+      runUpdateAt(60000);
+
+      inventorySystem.transferBetweenAgents("agent-1", "agent-2", { food: 2 });
+      inventorySystem.transferToStockpile("agent-1", stockpile.id, { food: 4 });
+
+      expect(inventorySystem.getAgentInventory("agent-2")!.foodBatches).toEqual(
+        [{ amount: 2, producedAt: 0, age: 60000 }],
+      );
+      expect(stockpile.inventory.foodBatches).toEqual([
+        { amount: 4, producedAt: 0, age: 60000 },
+      ]);
+      expect(inventorySystem.getAgentInventory("agent-1")!.food).toBe(0);
+    });
+
+    it("debe reconciliar la comida añadida o quitada fuera del sistema", () => {
+      const inventory = inventorySystem.initializeAgentInventory("agent-1");
+      inventorySystem.addResource("agent-1", "food", 3);
+      vi.setSystemTime(1000);
+      inventory.food = 5;
+
+      expect(inventorySystem.eatFood("agent-1", 1)[0].producedAt).toBe(0);
+      inventory.food = 1;
+      expect(inventorySystem.eatFood("agent-1", 5)).toEqual([
+        { amount: 1, producedAt: 1000, age: 0 },
+      ]);
+    });
+  });
 });
 
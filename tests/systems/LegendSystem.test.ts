@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { LegendSystem } from "../../src/domain/simulation/systems/social/LegendSystem.ts";
+import {
+  simulationEvents,
+  GameEventType,
+} from "../../src/domain/simulation/core/events.ts";
+import { createMockGameState } from "../setup.ts";
+import type { GameState } from "../../src/shared/types/game-types.ts";
+import type { AgentProfile } from "../../src/shared/types/simulation/agents.ts";
+
+describe("LegendSystem", () => {
+  let gameState: GameState;
+  let legendSystem: LegendSystem;
+
+  const createAgent = (
+    id: string,
+    name: string,
+    position?: { x: number; y: number },
+  ): AgentProfile =>
+    ({
+      id,
+      name,
+      position,
+      isDead: false,
+    }) as unknown as AgentProfile;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    gameState = createMockGameState({
+      agents: [
+        createAgent("agent-1", "Isa", { x: 0, y: 0 }),
+        createAgent("agent-2", "Stev", { x: 50, y: 50 }),
+        createAgent("agent-3", "Lejana", { x: 5000, y: 5000 }),
+      ],
+    });
+    legendSystem = new LegendSystem(gameState);
+  });
+
+  afterEach(() => {
+    simulationEvents.clearQueue();
+    simulationEvents.removeAllListeners();
+    vi.useRealTimers();
+  });
+
+  describe("Hazañas", () => {
+    it("debe registrar hazañas con testigos cercanos", () => {
+      const deed = legendSystem.recordDeed(
+        "agent-1",
+        "discovery",
+        "{name} descubrió el fuego",
+      );
+
+      expect(deed?.description).toBe("Isa descubrió el fuego");
+      expect(deed?.witnesses).toEqual(["agent-2"]);
+      expect(legendSystem.getRecord("agent-1")?.reputation).toBeCloseTo(13.2);
+    });
+
+    it("debe ignorar agentes desconocidos", () => {
+      expect(legendSystem.recordDeed("ghost", "hunt", "{name} cazó")).toBe(
+        null,
+      );
+    });
+
+    it("debe registrar muertes de agentes como hazañas villanas", () => {
+      simulationEvents.emit(GameEventType.COMBAT_KILL, {
+        attackerId: "agent-1",
+        targetId: "agent-3",
+      });
+      simulationEvents.emit(GameEventType.COMBAT_KILL, {
+        attackerId: "agent-1",
+        targetId: "wolf-1",
+      });
+      simulationEvents.flushEvents();
+
+      const record = legendSystem.getRecord("agent-1");
+      expect(record?.deeds).toHaveLength(1);
+      expect(record?.deeds[0].type).toBe("villainous");
+      expect(record?.actionsCompleted.kill).toBe(1);
+    });
+
+    it("debe premiar a los constructores y a los recién casados", () => {
+      simulationEvents.emit(GameEventType.BUILDING_CONSTRUCTED, {
+        label: "house",
+        builders: ["agent-1", "agent-3"],
+      });
+      simulationEvents.emit(GameEventType.MARRIAGE_ACCEPTED, {
+        proposerId: "agent-1",
+        targetId: "agent-2",
+      });
+      simulationEvents.flushEvents();
+
+      expect(legendSystem.getRecord("agent-1")?.actionsCompleted).toEqual({
+        build: 1,
+        marriage: 1,
+      });
+      expect(legendSystem.getRecord("agent-2")?.deeds[0].description).toBe(
+        "Stev unió su vida a la de Isa",
+      );
+      expect(legendSystem.getRecord("agent-3")?.deeds[0].witnesses).toEqual([]);
+    });
+  });
+
+  describe("Rangos y relatos", () => {
+    it("debe ascender de rango y otorgar títulos", () => {
+      legendSystem.recordDeed("agent-3", "discovery", "{name} descubrió algo");
+
+      const record = legendSystem.getRecord("agent-3");
+      expect(record?.legendTier).toBe("known");
+      expect(record?.currentTitle).toBe("Mente Brillante");
+    });
+
+    it("debe generar relatos al alcanzar rangos altos", () => {
+      const listener = vi.fn();
+      simulationEvents.on(GameEventType.LEGEND_UPDATE, listener);
+
+      for (let i = 0; i < 5; i++) {
+        legendSystem.recordDeed("agent-1", "discovery", `{name} inventó ${i}`);
+      }
+      simulationEvents.flushEvents();
+
+      const record = legendSystem.getRecord("agent-1");
+      expect(record?.legendTier).toBe("renowned");
+      expect(record?.stories).toHaveLength(2);
+      expect(record?.stories[1].mood).toBe("mysterious");
+      expect(record?.stories[1].narrative).toContain("Isa inventó 4.");
+      expect(gameState.legends?.activeLegends).toEqual(["agent-1"]);
+      expect(listener).toHaveBeenCalled();
+    });
+
+    it("no debe degradar el rango cuando decae la reputación", () => {
+      legendSystem.recordDeed("agent-3", "discovery", "{name} descubrió algo");
+
+      vi.advanceTimersByTime(200000);
+      legendSystem.update(1000000);
+
+      const record = legendSystem.getRecord("agent-3");
+      expect(record?.reputation).toBe(0);
+      expect(record?.legendTier).toBe("known");
+    });
+
+    it("debe marcar la tendencia como descendente sin hazañas recientes", () => {
+      legendSystem.recordDeed("agent-3", "discovery", "{name} descubrió algo");
+
+      vi.advanceTimersByTime(200000);
+      legendSystem.update(1000);
+
+      expect(legendSystem.getRecord("agent-3")?.reputationTrend).toBe(
+        "falling",
+      );
+    });
+  });
+});
@@ -106,6 +106,40 @@ describe("LifeCycleSystem", () => {
     });
   });
 
+  describe("Herencia genética", () => {
+    it("debe heredar los genes de los padres, incluidos los rasgos opcionales", () => {
+      const father = lifeCycleSystem.spawnAgent({
+        sex: "male",
+        traits: { cooperation: 0.9, bravery: 0.8, stamina: 0.7 },
+      });
+      const mother = lifeCycleSystem.spawnAgent({
+        sex: "female",
+        traits: { cooperation: 0.9, bravery: 0.8, stamina: 0.7 },
+      });
+      expect(father.genome).toBeDefined();
+      expect(father.traits.bravery).toBe(0.8);
+
+      const child = lifeCycleSystem.spawnAgent({
+        parents: { father: father.id, mother: mother.id },
+      });
+
+      expect(child.genome).toBeDefined();
+      expect(child.traits.bravery).toBeCloseTo(0.8, 1);
+      expect(child.traits.stamina).toBeCloseTo(0.7, 1);
+      expect(child.appearance).toBeDefined();
+    });
+
+    it("debe ajustar la edad máxima según los genes de longevidad", () => {
+      const agent = lifeCycleSystem.spawnAgent();
+      agent.genome!.physical.lifespan = [
+        { value: 1.1, dominant: true },
+        { value: 1.1, dominant: true },
+      ];
+
+      expect(lifeCycleSystem.getMaxAge(agent)).toBeCloseTo(85 * 1.1);
+    });
+  });
+
   describe("Configuración personalizada", () => {
     it("debe aceptar configuración personalizada", () => {
       const customSystem = new LifeCycleSystem(gameState, {
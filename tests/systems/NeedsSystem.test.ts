@@ -7,6 +7,8 @@ import {
 } from "../setup";
 import type { GameState } from "../../src/shared/types/game-types";
 import { simulationEvents, GameEventNames } from "../../src/domain/simulation/core/events";
+import { InventorySystem } from "../../src/domain/simulation/systems/economy/InventorySystem";
+import { RandomUtils } from "../../src/shared/utils/RandomUtils";
 
 const entityId = "agent-1";
 
@@ -143,4 +145,34 @@ describe("NeedsSystem", () => {
     expect(system.getNeeds("agent-0")?.hunger).toBeLessThanOrEqual(80);
   });
 
+  it("requestConsume come la comida estropeada solo al final, alimenta la mitad y puede intoxicar", () => {
+    const inventorySystem = new InventorySystem(gameState);
+    system.setDependencies({ inventorySystem });
+    const needs = system.initializeEntityNeeds(entityId);
+    const inventory = inventorySystem.initializeAgentInventory(entityId);
+    inventorySystem.addResource(entityId, "food", 2);
+    inventory.foodBatches![0].amount = 1;
+    inventory.foodBatches!.unshift({
+      amount: 1,
+      producedAt: 0,
+      age: 300000,
+      spoiled: true,
+    });
+    vi.spyOn(RandomUtils, "chance").mockReturnValue(true);
+
+    needs.hunger = 10;
+    needs.energy = 50;
+    system.requestConsume(entityId, "hunger");
+    expect(needs.hunger).toBe(35);
+    expect(needs.energy).toBe(50);
+
+    system.requestConsume(entityId, "hunger");
+    expect(needs.hunger).toBe(47.5);
+    expect(needs.energy).toBe(40);
+    expect(inventory.food).toBe(0);
+    expect(emitSpy).toHaveBeenCalledWith(
+      GameEventNames.FOOD_POISONING,
+      expect.objectContaining({ agentId: entityId, amount: 1 }),
+    );
+  });
 });
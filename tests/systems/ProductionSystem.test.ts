@@ -43,6 +43,8 @@ class MockInventorySystem {
     },
   );
 
+  public takeCompost = vi.fn(() => 0);
+
   public getResources(zoneId: string): Record<string, number> {
     return this.byZone.get(zoneId)?.resources ?? {};
   }
@@ -137,7 +139,12 @@ describe("ProductionSystem", () => {
       "general",
       150,
     );
-    expect(inventorySystem.addToStockpile).toHaveBeenCalled();
+    expect(inventorySystem.addToStockpile).toHaveBeenCalledWith(
+      expect.any(String),
+      "food",
+      8,
+      "bread",
+    );
     expect(inventorySystem.getResources("zone_food")["food"]).toBe(8);
     expect(terrainSystem.getTile).toHaveBeenCalled();
     expect(terrainSystem.modifyTile).toHaveBeenCalled();
@@ -151,6 +158,32 @@ describe("ProductionSystem", () => {
     );
   });
 
+  it("abona la cosecha con el compost de la zona", () => {
+    inventorySystem.takeCompost.mockReturnValue(1);
+
+    runUpdateAt(UPDATE_INTERVAL + 100);
+    runUpdateAt(UPDATE_INTERVAL + PRODUCTION_INTERVAL + 100);
+
+    expect(inventorySystem.takeCompost).toHaveBeenCalledWith("zone_food", 1);
+    expect(inventorySystem.getResources("zone_food")["food"]).toBe(12);
+  });
+
+  it("multiplica la producción con las bendiciones del puerto divino", () => {
+    const getBlessingMultiplier = vi.fn(() => 1.5);
+    productionSystem.setDependencies({
+      divinePort: { getBlessingMultiplier },
+    });
+
+    runUpdateAt(UPDATE_INTERVAL + 100);
+    runUpdateAt(UPDATE_INTERVAL + PRODUCTION_INTERVAL + 100);
+
+    expect(getBlessingMultiplier).toHaveBeenCalledWith(
+      "worker-1",
+      "productivity_boost",
+    );
+    expect(inventorySystem.getResources("zone_food")["food"]).toBe(12);
+  });
+
   it("emite PRODUCTION_WORKER_REMOVED cuando un trabajador muere", () => {
     runUpdateAt(UPDATE_INTERVAL + 100);
     emitSpy.mockClear();
@@ -0,0 +1,246 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { ResearchSystem } from "../../src/domain/simulation/systems/economy/ResearchSystem.ts";
+import { RecipeDiscoverySystem } from "../../src/domain/simulation/systems/economy/RecipeDiscoverySystem.ts";
+import { GenealogySystem } from "../../src/domain/simulation/systems/social/GenealogySystem.ts";
+import { ResearchCategoryId } from "../../src/shared/constants/ResearchEnums.ts";
+import { RecipeId } from "../../src/shared/constants/RecipeEnums.ts";
+import { createMockGameState } from "../setup.ts";
+import type { GameState } from "../../src/shared/types/game-types.ts";
+import type { AgentProfile } from "../../src/shared/types/simulation/agents.ts";
+
+function createAgent(id: string, curiosity = 0.5): AgentProfile {
+  return {
+    id,
+    name: id,
+    sex: "female",
+    ageYears: 25,
+    lifeStage: "adult",
+    birthTimestamp: Date.now(),
+    generation: 0,
+    immortal: false,
+    traits: { cooperation: 0.5, aggression: 0.5, diligence: 0.5, curiosity },
+  } as AgentProfile;
+}
+
+describe("ResearchSystem", () => {
+  let gameState: GameState;
+  let recipeSystem: RecipeDiscoverySystem;
+  let genealogySystem: GenealogySystem;
+  let researchSystem: ResearchSystem;
+
+  beforeEach(() => {
+    gameState = createMockGameState();
+    recipeSystem = new RecipeDiscoverySystem(gameState);
+    genealogySystem = new GenealogySystem(gameState);
+    researchSystem = new ResearchSystem(
+      gameState,
+      recipeSystem,
+      genealogySystem,
+    );
+  });
+
+  describe("Inicialización de linajes", () => {
+    it("debe desbloquear las categorías sin prerrequisitos", () => {
+      expect(researchSystem.initializeLineage("lineage_a")).toBe(true);
+
+      expect(
+        researchSystem.isCategoryUnlocked(
+          "lineage_a",
+          ResearchCategoryId.PRIMITIVE_TOOLS,
+        ),
+      ).toBe(true);
+      expect(
+        researchSystem.isCategoryUnlocked(
+          "lineage_a",
+          ResearchCategoryId.METALLURGY,
+        ),
+      ).toBe(false);
+    });
+
+    it("no debe reinicializar un linaje existente", () => {
+      researchSystem.initializeLineage("lineage_a");
+      expect(researchSystem.initializeLineage("lineage_a")).toBe(false);
+    });
+
+    it("debe publicar el árbol tecnológico en el estado", () => {
+      researchSystem.initializeLineage("lineage_a");
+
+      expect(gameState.research?.techTree.nodes.length).toBeGreaterThan(0);
+      expect(gameState.research?.techTree.connections).toContainEqual({
+        from: ResearchCategoryId.METALLURGY,
+        to: ResearchCategoryId.ADVANCED_TOOLS,
+      });
+      expect(gameState.research?.lineages[0].lineageId).toBe("lineage_a");
+    });
+
+    it("debe inicializar linajes conocidos por la genealogía", () => {
+      const founder = createAgent("founder");
+      gameState.agents = [founder];
+      genealogySystem.registerBirth(founder);
+
+      researchSystem.update(1000);
+
+      expect(researchSystem.getLineageIds()).toContain("lineage_founder");
+    });
+  });
+
+  describe("Descubrimiento de recetas", () => {
+    it("debe acreditar progreso a la categoría de la receta", () => {
+      researchSystem.initializeLineage("lineage_a");
+
+      const credited = researchSystem.recordRecipeDiscovery(
+        "lineage_a",
+        RecipeId.STONE_AXE,
+        "agent-1",
+      );
+
+      const node = researchSystem.getNode(
+        "lineage_a",
+        ResearchCategoryId.PRIMITIVE_TOOLS,
+      );
+      expect(credited).toBe(true);
+      expect(node?.progress).toBeGreaterThan(0);
+      expect(node?.recipesDiscovered).toContain(RecipeId.STONE_AXE);
+      expect(node?.contributors).toContain("agent-1");
+      expect(recipeSystem.agentKnowsRecipe("agent-1", RecipeId.STONE_AXE)).toBe(
+        true,
+      );
+    });
+
+    it("no debe acreditar progreso a categorías bloqueadas", () => {
+      researchSystem.initializeLineage("lineage_a");
+
+      const credited = researchSystem.recordRecipeDiscovery(
+        "lineage_a",
+        RecipeId.SMELT_IRON,
+      );
+
+      expect(credited).toBe(false);
+    });
+
+    it("no debe contar dos veces la misma receta", () => {
+      researchSystem.recordRecipeDiscovery("lineage_a", RecipeId.STONE_AXE);
+      const progress = researchSystem.getNode(
+        "lineage_a",
+        ResearchCategoryId.PRIMITIVE_TOOLS,
+      )?.progress;
+
+      researchSystem.recordRecipeDiscovery("lineage_a", RecipeId.STONE_AXE);
+
+      expect(
+        researchSystem.getNode("lineage_a", ResearchCategoryId.PRIMITIVE_TOOLS)
+          ?.progress,
+      ).toBe(progress);
+    });
+  });
+
+  describe("Investigación pasiva", () => {
+    it("debe completar categorías y desbloquear sus dependientes", () => {
+      const founder = createAgent("founder", 1);
+      gameState.agents = [founder];
+      genealogySystem.registerBirth(founder);
+
+      for (let i = 0; i < 1000; i++) {
+        researchSystem.update(1000);
+      }
+
+      expect(
+        researchSystem.isCategoryCompleted(
+          "lineage_founder",
+          ResearchCategoryId.PRIMITIVE_TOOLS,
+        ),
+      ).toBe(true);
+      expect(
+        researchSystem.isCategoryUnlocked(
+          "lineage_founder",
+          ResearchCategoryId.TEXTILES,
+        ),
+      ).toBe(true);
+    });
+
+    it("debe enseñar las recetas de la categoría completada al linaje", () => {
+      const founder = createAgent("founder", 1);
+      gameState.agents = [founder];
+      genealogySystem.registerBirth(founder);
+
+      for (let i = 0; i < 1000; i++) {
+        researchSystem.update(1000);
+      }
+
+      expect(
+        recipeSystem.agentKnowsRecipe("founder", RecipeId.STONE_PICKAXE),
+      ).toBe(true);
+      expect(recipeSystem.getGloballyDiscoveredRecipes()).toContain(
+        RecipeId.STONE_PICKAXE,
+      );
+    });
+
+    it("debe investigar primero las categorías de menor nivel", () => {
+      const founder = createAgent("founder");
+      gameState.agents = [founder];
+      genealogySystem.registerBirth(founder);
+
+      researchSystem.update(10000);
+
+      const stats = researchSystem.getLineageStats("lineage_founder");
+      expect(stats?.totalProgress).toBeGreaterThan(0);
+      expect(
+        researchSystem.getNode(
+          "lineage_founder",
+          ResearchCategoryId.PRIMITIVE_TOOLS,
+        )?.contributors,
+      ).toContain("founder");
+    });
+
+    it("no debe progresar sin miembros vivos", () => {
+      researchSystem.initializeLineage("lineage_a");
+      gameState.agents = [];
+
+      researchSystem.update(10000);
+
+      expect(researchSystem.getLineageStats("lineage_a")?.totalProgress).toBe(
+        0,
+      );
+    });
+  });
+
+  describe("Persistencia", () => {
+    it("debe restaurar el progreso de cada linaje desde un guardado", () => {
+      researchSystem.recordRecipeDiscovery(
+        "lineage_a",
+        RecipeId.STONE_AXE,
+        "agent-1",
+      );
+      const saved = JSON.parse(JSON.stringify(researchSystem.serialize()));
+      const restoredState = createMockGameState();
+      const restored = new ResearchSystem(
+        restoredState,
+        new RecipeDiscoverySystem(restoredState),
+      );
+
+      restored.restore(saved);
+
+      const node = restored.getNode(
+        "lineage_a",
+        ResearchCategoryId.PRIMITIVE_TOOLS,
+      );
+      expect(node).toEqual(
+        researchSystem.getNode("lineage_a", ResearchCategoryId.PRIMITIVE_TOOLS),
+      );
+      expect(node?.recipesDiscovered).toContain(RecipeId.STONE_AXE);
+      expect(restored.getLineageStats("lineage_a")).toEqual(
+        researchSystem.getLineageStats("lineage_a"),
+      );
+      expect(restoredState.research?.lineages[0].lineageId).toBe("lineage_a");
+    });
+
+    it("debe borrar el progreso al restaurar sin datos", () => {
+      researchSystem.initializeLineage("lineage_a");
+
+      researchSystem.restore(null);
+
+      expect(researchSystem.getLineageIds()).toEqual([]);
+      expect(gameState.research?.lineages).toEqual([]);
+    });
+  });
+});
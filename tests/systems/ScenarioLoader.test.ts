@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from "vitest";
+import { ScenarioLoader } from "../../src/domain/simulation/systems/world/ScenarioLoader";
+import { parseScenario } from "../../src/domain/simulation/core/scenarios/parseScenario";
+import type { SimulationRunner } from "../../src/domain/simulation/core/SimulationRunner";
+import type { AgentProfile } from "../../src/shared/types/simulation/agents";
+import { createMockGameState } from "../setup";
+
+function createRunner() {
+  const state = createMockGameState({
+    agents: [],
+    zones: [],
+    worldSize: { width: 1024, height: 1024 },
+  });
+  const runner = {
+    state,
+    lifeCycleSystem: {
+      spawnAgent: vi.fn((spec: Partial<AgentProfile>) => {
+        const profile = {
+          position: { x: 100, y: 100 },
+          ...spec,
+          traits: { cooperation: 0.5, aggression: 0.5, diligence: 0.5, curiosity: 0.5, ...spec.traits },
+        } as AgentProfile;
+        state.agents.push(profile);
+        return profile;
+      }),
+    },
+    _genealogySystem: { registerBirth: vi.fn() },
+    inventorySystem: {
+      createStockpile: vi.fn((zoneId: string) => ({ id: `stockpile_${zoneId}` })),
+      addToStockpile: vi.fn(),
+    },
+    marriageSystem: { proposeMarriage: vi.fn(), acceptProposal: vi.fn() },
+    socialSystem: { registerPermanentBond: vi.fn(), setAffinity: vi.fn() },
+    animalSystem: { spawnAnimal: vi.fn(() => ({})) },
+    ensureInitialFamily: vi.fn(async () => {}),
+  };
+  return runner;
+}
+
+describe("ScenarioLoader", () => {
+  const scenario = parseScenario({
+    id: "aldea",
+    name: "Aldea",
+    agents: [
+      { id: "cris", lifeStage: "child", ageYears: 8, parents: { mother: "ana", father: "beto" } },
+      { id: "ana", name: "Ana", traits: { aggression: 0.9 } },
+      { id: "beto", name: "Beto", sex: "male" },
+    ],
+    relations: [
+      { between: ["ana", "beto"], bond: "marriage" },
+      { between: ["ana", "cris"], affinity: -0.2 },
+    ],
+    zones: [
+      { type: "shelter", building: "house", x: 10, y: 10, width: 80, height: 60 },
+      {
+        id: "almacen",
+        type: "storage",
+        x: 200,
+        y: 10,
+        width: 60,
+        height: 40,
+        stockpile: { capacity: 500, contents: { water: 7, food: 3 } },
+      },
+    ],
+    animals: [{ type: "rabbit", count: 4, near: { x: 500, y: 500 }, radius: 50 }],
+  });
+
+  it("debe crear los agentes con sus padres antes que los hijos", async () => {
+    const runner = createRunner();
+    await new ScenarioLoader(runner as unknown as SimulationRunner).populate(scenario);
+
+    expect(runner.state.agents.map((a) => a.id)).toEqual(["ana", "beto", "cris"]);
+    const cris = runner.state.agents[2];
+    expect(cris).toMatchObject({
+      generation: 1,
+      lifeStage: "child",
+      parents: { mother: "ana", father: "beto" },
+    });
+    expect(runner.state.agents[0].traits).toMatchObject({ aggression: 0.9, cooperation: 0.5 });
+    expect(runner._genealogySystem.registerBirth).toHaveBeenCalledWith(cris, "beto", "ana");
+    expect(runner.ensureInitialFamily).toHaveBeenCalledOnce();
+  });
+
+  it("debe colocar zonas, almacenes, relaciones y animales", async () => {
+    const runner = createRunner();
+    await new ScenarioLoader(runner as unknown as SimulationRunner).populate(scenario);
+
+    expect(runner.state.zones.map((z) => z.id)).toEqual(["zone_aldea_0", "almacen"]);
+    expect(runner.state.zones[0].metadata).toMatchObject({ buildingType: "house", underConstruction: false });
+    expect(runner.inventorySystem.createStockpile).toHaveBeenCalledWith("almacen", "general", 500);
+    expect(runner.inventorySystem.addToStockpile).toHaveBeenCalledWith("stockpile_almacen", "water", 7);
+    expect(runner.marriageSystem.proposeMarriage).toHaveBeenCalledWith("ana", "beto");
+    expect(runner.marriageSystem.acceptProposal).toHaveBeenCalledWith("beto");
+    expect(runner.socialSystem.registerPermanentBond).toHaveBeenCalledWith("ana", "beto", "marriage");
+    expect(runner.socialSystem.setAffinity).toHaveBeenCalledWith("ana", "cris", -0.2);
+
+    expect(runner.animalSystem.spawnAnimal).toHaveBeenCalledTimes(4);
+    for (const [type, position] of runner.animalSystem.spawnAnimal.mock.calls as unknown as [string, { x: number; y: number }][]) {
+      expect(type).toBe("rabbit");
+      expect(Math.hypot(position.x - 500, position.y - 500)).toBeLessThanOrEqual(50);
+    }
+  });
+});
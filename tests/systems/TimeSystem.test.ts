@@ -1,5 +1,12 @@
-import { describe, it, expect, beforeEach, vi } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { TimeSystem } from "../../src/domain/simulation/systems/core/TimeSystem.ts";
+import {
+  simulationEvents,
+  GameEventType,
+} from "../../src/domain/simulation/core/events.ts";
+import { Season } from "../../src/shared/constants/TimeEnums.ts";
+import { BiomeType } from "../../src/shared/constants/BiomeEnums.ts";
+import { WeatherType } from "../../src/shared/constants/AmbientEnums.ts";
 import { createMockGameState } from "../setup.ts";
 import type { GameState } from "../../src/types/game-types.ts";
 
@@ -322,5 +329,101 @@ describe("TimeSystem", () => {
       expect(updatedWeather).toBeDefined();
     });
   });
-});
 
+  describe("Estaciones", () => {
+    let seasonal: TimeSystem;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(0);
+      seasonal = new TimeSystem({ daysPerSeason: 2, minutesPerGameHour: 1 });
+      (seasonal as unknown as { gameState: GameState }).gameState = gameState;
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+      simulationEvents.clearQueue();
+    });
+
+    it("debe empezar el primer día de la primavera del año 1", () => {
+      expect(seasonal.getCalendar()).toEqual({
+        day: 0,
+        year: 1,
+        season: Season.SPRING,
+        dayOfSeason: 0,
+        daysPerSeason: 2,
+      });
+    });
+
+    it("debe avanzar el calendario a medianoche y emitir SEASON_CHANGED al cambiar de estación", () => {
+      const emitSpy = vi.spyOn(simulationEvents, "emit");
+      const passDay = (): void => {
+        seasonal.setTime(23, 30);
+        vi.advanceTimersByTime(31_000);
+        seasonal.update(0);
+      };
+
+      passDay();
+      expect(seasonal.getCalendar()).toMatchObject({ day: 1, dayOfSeason: 1 });
+      expect(emitSpy).not.toHaveBeenCalledWith(
+        GameEventType.SEASON_CHANGED,
+        expect.anything(),
+      );
+
+      passDay();
+      expect(gameState.calendar).toMatchObject({
+        day: 2,
+        season: Season.SUMMER,
+        dayOfSeason: 0,
+      });
+      expect(emitSpy).toHaveBeenCalledWith(
+        GameEventType.SEASON_CHANGED,
+        expect.objectContaining({
+          season: Season.SUMMER,
+          previousSeason: Season.SPRING,
+          year: 1,
+        }),
+      );
+    });
+
+    it("debe saltar a una estación posterior o a la del año siguiente", () => {
+      seasonal.setSeason(Season.WINTER);
+      expect(seasonal.getCalendar()).toMatchObject({
+        day: 6,
+        year: 1,
+        season: Season.WINTER,
+      });
+
+      seasonal.setSeason(Season.SUMMER);
+      expect(seasonal.getCalendar()).toMatchObject({
+        day: 10,
+        year: 2,
+        season: Season.SUMMER,
+      });
+      expect(seasonal.getSeasonEffects().thirstDecay).toBeGreaterThan(1);
+    });
+
+    it("debe dar a cada bioma su curva de temperatura a lo largo del año", () => {
+      seasonal.setWeather(WeatherType.CLEAR);
+      seasonal.setTime(12, 0);
+      seasonal.setSeason(Season.SUMMER);
+      const desertSummer = seasonal.getBiomeTemperature(BiomeType.DESERT);
+      const tundraSummer = seasonal.getBiomeTemperature(BiomeType.TUNDRA);
+
+      seasonal.setSeason(Season.WINTER);
+      expect(seasonal.getBiomeTemperature(BiomeType.DESERT)).toBeLessThan(
+        desertSummer,
+      );
+      expect(seasonal.getBiomeTemperature(BiomeType.TUNDRA)).toBeLessThan(0);
+      expect(desertSummer).toBeGreaterThan(tundraSummer);
+      expect(seasonal.getSeasonEffects().animalBreeding).toBe(false);
+    });
+
+    it("debe rechazar estaciones sin días", () => {
+      expect(() => new TimeSystem({ daysPerSeason: 0 })).toThrow(
+        "daysPerSeason",
+      );
+    });
+  });
+});
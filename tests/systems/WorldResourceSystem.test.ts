@@ -5,6 +5,8 @@ import {
   simulationEvents,
   GameEventNames,
 } from "../../src/domain/simulation/core/events";
+import { TimeSystem } from "../../src/domain/simulation/systems/core/TimeSystem";
+import { Season } from "../../src/shared/constants/TimeEnums";
 import { createMockGameState } from "../setup";
 
 const mockGetResourceConfig = vi.fn();
@@ -86,4 +88,66 @@ describe("WorldResourceSystem", () => {
       expect.objectContaining({ resourceId: resource!.id, newState: "pristine" }),
     );
   });
+
+  it("update no regenera recursos de biomas helados y los demás rebrotan según la estación", () => {
+    const timeSystem = new TimeSystem({ daysPerSeason: 2 });
+    (timeSystem as unknown as { gameState: GameState }).gameState = gameState;
+    timeSystem.setSeason(Season.WINTER);
+    resourceSystem = new WorldResourceSystem(
+      gameState,
+      undefined,
+      undefined,
+      timeSystem,
+    );
+    const frozen = resourceSystem.spawnResource("tree", { x: 0, y: 0 }, "tundra");
+    const mild = resourceSystem.spawnResource("tree", { x: 50, y: 0 }, "desert");
+    vi.setSystemTime(2000);
+    for (const resource of [frozen, mild]) {
+      resourceSystem.harvestResource(resource!.id, "agent-1");
+      resourceSystem.harvestResource(resource!.id, "agent-1");
+    }
+
+    // Winter regrowth is 0.2: the 1000 ms of the config become 5000 ms
+    vi.setSystemTime(5500);
+    resourceSystem.update(0);
+    expect(mild!.state).toBe("depleted");
+
+    vi.setSystemTime(11000);
+    resourceSystem.update(0);
+    expect(mild!.state).toBe("pristine");
+    expect(frozen!.state).toBe("depleted");
+  });
+
+  it("spawnResourcesForChunk respeta la abundancia del escenario por tipo", () => {
+    gameState.scenario = {
+      id: "sequia",
+      name: "Sequía",
+      replacesFamily: false,
+      replacesInfrastructure: false,
+      replacesAnimals: false,
+      resourceAbundance: { water_source: 0 },
+      disabledSystems: [],
+      conditions: { victory: [], failure: [] },
+    };
+    const tiles = [
+      Array.from({ length: 20 }, (_, x) => ({
+        x,
+        y: 0,
+        biome: "ocean",
+        assets: { terrain: "terrain_water", vegetation: ["tree_oak"] },
+      })),
+    ];
+
+    resourceSystem.spawnResourcesForChunk(
+      { x: 0, y: 0 },
+      { x: 0, y: 0, width: 1024, height: 1024 },
+      tiles,
+    );
+
+    const types = Object.values(gameState.worldResources ?? {}).map(
+      (resource) => resource.type,
+    );
+    expect(types).not.toContain("water_source");
+    expect(types.filter((type) => type === "tree")).toHaveLength(20);
+  });
 });
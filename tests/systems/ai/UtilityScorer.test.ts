@@ -0,0 +1,197 @@
+/**
+ * @fileoverview Tests for UtilityScorer
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  getConsiderationWeights,
+  scoreTask,
+  scoreTasks,
+} from "../../../src/domain/simulation/systems/agents/ai/UtilityScorer";
+import {
+  type DetectorContext,
+  type Task,
+  TaskType,
+  TASK_PRIORITIES,
+  createTask,
+} from "../../../src/domain/simulation/systems/agents/ai/types";
+import { NeedType } from "../../../src/shared/constants/AIEnums";
+import { RoleType } from "../../../src/shared/constants/RoleEnums";
+import { TimeOfDayPhase } from "../../../src/shared/constants/TimeEnums";
+
+describe("UtilityScorer", () => {
+  const baseTraits = {
+    cooperation: 0.5,
+    aggression: 0.5,
+    diligence: 0.5,
+    curiosity: 0.5,
+  };
+
+  const context = (
+    overrides: Partial<DetectorContext> = {},
+  ): DetectorContext => ({
+    agentId: "agent-1",
+    position: { x: 0, y: 0 },
+    now: 0,
+    needs: { hunger: 100, thirst: 100, energy: 100 },
+    ...overrides,
+  });
+
+  const task = (
+    type: TaskType,
+    priority: number = TASK_PRIORITIES.NORMAL,
+    extra: Partial<Parameters<typeof createTask>[0]> = {},
+  ): Task =>
+    createTask({
+      agentId: "agent-1",
+      type,
+      priority,
+      source: "test",
+      ...extra,
+    });
+
+  const consideration = (t: Task, ctx: DetectorContext, name: string) =>
+    scoreTask(t, ctx).considerations.find((c) => c.name === name)!;
+
+  describe("getConsiderationWeights", () => {
+    it("debe ajustar los pesos según los rasgos", () => {
+      const neutral = getConsiderationWeights(baseTraits);
+      const brave = getConsiderationWeights({ ...baseTraits, bravery: 1 });
+      const nervous = getConsiderationWeights({
+        ...baseTraits,
+        neuroticism: 1,
+      });
+
+      expect(neutral).toEqual(getConsiderationWeights());
+      expect(brave.risk).toBe(0);
+      expect(nervous.risk).toBeCloseTo(neutral.risk * 2);
+      expect(nervous.needs).toBeCloseTo(neutral.needs * 1.6);
+    });
+  });
+
+  describe("scoreTask", () => {
+    it("debe desglosar la puntuación en los seis factores", () => {
+      const scored = scoreTask(task(TaskType.GATHER), context());
+
+      expect(scored.considerations.map((c) => c.name)).toEqual([
+        "needs",
+        "traits",
+        "role",
+        "distance",
+        "risk",
+        "timeOfDay",
+      ]);
+      const total = scored.considerations.reduce(
+        (sum, c) => sum + c.contribution,
+        0,
+      );
+      expect(scored.score).toBeCloseTo(scored.basePriority + total);
+    });
+
+    it("debe favorecer la necesidad más apremiante", () => {
+      const ctx = context({ needs: { hunger: 10, thirst: 90, energy: 100 } });
+      const hunger = task(TaskType.SATISFY_NEED, TASK_PRIORITIES.HIGH, {
+        params: { needType: NeedType.HUNGER },
+      });
+      const thirst = task(TaskType.SATISFY_NEED, TASK_PRIORITIES.HIGH, {
+        params: { needType: NeedType.THIRST },
+      });
+
+      expect(scoreTask(hunger, ctx).score).toBeGreaterThan(
+        scoreTask(thirst, ctx).score,
+      );
+      expect(
+        consideration(task(TaskType.EXPLORE), ctx, "needs").value,
+      ).toBeCloseTo(-0.9);
+    });
+
+    it("debe preferir las tareas del rol y con rasgos afines", () => {
+      const ctx = context({
+        roleType: RoleType.BUILDER,
+        traits: { ...baseTraits, diligence: 0.9 },
+      });
+
+      expect(consideration(task(TaskType.BUILD), ctx, "role").value).toBe(1);
+      expect(consideration(task(TaskType.GATHER), ctx, "role").value).toBe(
+        -0.5,
+      );
+      expect(
+        consideration(task(TaskType.BUILD), ctx, "traits").value,
+      ).toBeCloseTo(0.8);
+    });
+
+    it("debe penalizar los objetivos lejanos", () => {
+      const near = task(TaskType.GATHER, TASK_PRIORITIES.NORMAL, {
+        target: { position: { x: 30, y: 40 } },
+      });
+      const far = task(TaskType.GATHER, TASK_PRIORITIES.NORMAL, {
+        target: { position: { x: 3000, y: 0 } },
+      });
+
+      expect(consideration(near, context(), "distance").value).toBeCloseTo(
+        1 - 2 * (50 / 600),
+      );
+      expect(consideration(far, context(), "distance").value).toBe(-1);
+    });
+
+    it("debe desaconsejar atacar sin salud ni arma", () => {
+      const weak = context({ health: 20, maxHealth: 100, threatLevel: 0.5 });
+      const strong = context({ health: 100, maxHealth: 100, hasWeapon: true });
+
+      expect(
+        consideration(task(TaskType.ATTACK), weak, "risk").value,
+      ).toBeCloseTo(-0.6);
+      expect(
+        consideration(task(TaskType.FLEE), weak, "risk").value,
+      ).toBeCloseTo(0.6);
+      expect(consideration(task(TaskType.ATTACK), strong, "risk").value).toBe(
+        1,
+      );
+    });
+
+    it("debe preferir descansar de noche y no explorar", () => {
+      const night = context({
+        timeOfDay: TimeOfDayPhase.NIGHT,
+        isWorkHours: false,
+      });
+
+      expect(consideration(task(TaskType.REST), night, "timeOfDay").value).toBe(
+        1,
+      );
+      expect(
+        consideration(task(TaskType.EXPLORE), night, "timeOfDay").value,
+      ).toBe(-1);
+      expect(
+        consideration(task(TaskType.GATHER), night, "timeOfDay").value,
+      ).toBe(-0.5);
+    });
+
+    it("no debe rebajar las tareas críticas", () => {
+      const ctx = context({
+        needs: { hunger: 100, thirst: 100, energy: 100 },
+        roleType: RoleType.BUILDER,
+        threatLevel: 1,
+      });
+      const critical = task(TaskType.GATHER, TASK_PRIORITIES.CRITICAL, {
+        target: { position: { x: 5000, y: 0 } },
+      });
+
+      expect(scoreTask(critical, ctx).score).toBe(TASK_PRIORITIES.CRITICAL);
+    });
+  });
+
+  describe("scoreTasks", () => {
+    it("debe ordenar las candidatas de mayor a menor puntuación", () => {
+      const ctx = context({ roleType: RoleType.HUNTER });
+      const scored = scoreTasks(
+        [task(TaskType.GATHER), task(TaskType.HUNT), task(TaskType.IDLE)],
+        ctx,
+      );
+
+      expect(scored[0].type).toBe(TaskType.HUNT);
+      for (let i = 1; i < scored.length; i++) {
+        expect(scored[i - 1].score).toBeGreaterThanOrEqual(scored[i].score);
+      }
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { RandomUtils } from "../../src/shared/utils/RandomUtils";
+
+function draw(count: number): number[] {
+  return Array.from({ length: count }, () => RandomUtils.float());
+}
+
+describe("RandomUtils", () => {
+  afterEach(() => {
+    RandomUtils.configureSeed(null);
+  });
+
+  it("debe producir la misma secuencia con la misma semilla", () => {
+    RandomUtils.configureSeed("seed-a");
+    const first = draw(5);
+
+    RandomUtils.configureSeed("seed-a");
+    const second = draw(5);
+
+    expect(second).toEqual(first);
+  });
+
+  it("debe producir secuencias distintas con semillas distintas", () => {
+    RandomUtils.configureSeed("seed-a");
+    const first = draw(5);
+
+    RandomUtils.configureSeed("seed-b");
+    const second = draw(5);
+
+    expect(second).not.toEqual(first);
+  });
+
+  it("debe aislar los streams por sistema", () => {
+    RandomUtils.configureSeed(7);
+    const expected = RandomUtils.withStream("NeedsSystem", () => draw(3));
+
+    RandomUtils.configureSeed(7);
+    RandomUtils.withStream("AISystem", () => draw(10));
+    const actual = RandomUtils.withStream("NeedsSystem", () => draw(3));
+
+    expect(actual).toEqual(expected);
+  });
+
+  it("debe restaurar el stream activo tras withStream", () => {
+    RandomUtils.configureSeed(1);
+    RandomUtils.withStream("CombatSystem", () => {
+      expect(RandomUtils.getActiveStream()).toBe("CombatSystem");
+    });
+    expect(RandomUtils.getActiveStream()).toBe("default");
+  });
+
+  it("debe usar Math.random sin semilla", () => {
+    expect(RandomUtils.isSeeded()).toBe(false);
+    expect(RandomUtils.getSeed()).toBeNull();
+    const value = RandomUtils.float();
+    expect(value).toBeGreaterThanOrEqual(0);
+    expect(value).toBeLessThan(1);
+  });
+
+  it("debe respetar los rangos de intRange", () => {
+    RandomUtils.configureSeed("range");
+    for (let i = 0; i < 100; i++) {
+      const value = RandomUtils.intRange(2, 4);
+      expect(value).toBeGreaterThanOrEqual(2);
+      expect(value).toBeLessThanOrEqual(4);
+    }
+  });
+  it("debe continuar la secuencia tras exportar e importar el estado", () => {
+    RandomUtils.configureSeed("resume");
+    RandomUtils.withStream("AISystem", () => draw(4));
+    const state = RandomUtils.exportState();
+    const expected = RandomUtils.withStream("AISystem", () => draw(3));
+
+    RandomUtils.configureSeed("otra");
+    RandomUtils.importState(state!);
+    const actual = RandomUtils.withStream("AISystem", () => draw(3));
+
+    expect(actual).toEqual(expected);
+  });
+});